@@ -8,21 +8,43 @@ import Catalog from "./pages/Catalog";
 import Home from "./pages/Home";
 import TPOEstimator from "./pages/TPOEstimator";
 import GAFTPOEstimator from "./pages/GAFTPOEstimator";
+import FirestoneEPDMEstimator from "./pages/FirestoneEPDMEstimator";
 import PricingDatabase from "./pages/PricingDatabase";
 import EstimateBreakdown from "./pages/EstimateBreakdown";
 import SavedEstimates from "./pages/SavedEstimates";
+import ProposalTemplates from "./pages/ProposalTemplates";
+import Distributors from "./pages/Distributors";
+import {
+  GAF_UNISIL_553_SYSTEM,
+  GAF_UNISIL_8650_SYSTEM,
+  KARNAK_SILICONE_520_SYSTEM,
+} from "@shared/estimating/silicone-coating-data";
 
 function Router() {
   // make sure to consider if you need authentication for certain routes
   return (
     <Switch>
       <Route path={"/"} component={Catalog} />
-      <Route path={"/estimator/karnak-metal-kynar"} component={Home} />
+      <Route path={"/estimator/karnak-metal-kynar"}>
+        <Home key="karnak-metal-kynar" />
+      </Route>
+      <Route path={"/estimator/gaf-unisil-553"}>
+        <Home key="gaf-unisil-553" system={GAF_UNISIL_553_SYSTEM} />
+      </Route>
+      <Route path={"/estimator/gaf-unisil-8650"}>
+        <Home key="gaf-unisil-8650" system={GAF_UNISIL_8650_SYSTEM} />
+      </Route>
+      <Route path={"/estimator/karnak-silicone-520"}>
+        <Home key="karnak-silicone-520" system={KARNAK_SILICONE_520_SYSTEM} />
+      </Route>
       <Route path={"/estimator/carlisle-tpo"} component={TPOEstimator} />
       <Route path={"/estimator/gaf-tpo"} component={GAFTPOEstimator} />
+      <Route path={"/estimator/firestone-epdm"} component={FirestoneEPDMEstimator} />
       <Route path={"/pricing"} component={PricingDatabase} />
       <Route path={"/breakdown"} component={EstimateBreakdown} />
       <Route path={"/saved"} component={SavedEstimates} />
+      <Route path={"/proposal-templates"} component={ProposalTemplates} />
+      <Route path={"/distributors"} component={Distributors} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
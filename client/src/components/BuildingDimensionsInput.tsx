@@ -0,0 +1,79 @@
+/**
+ * BuildingDimensionsInput — Roof length, width and mean height for wind zones
+ * Design: Muted inset block matching the wall dimensions group; shows the
+ *         resulting ASCE 7 zone width and field/perimeter/corner split
+ */
+
+import { motion } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { calculateWindZones, type TPOMeasurements, type WindZoneLayout } from "@shared/estimating/tpo-data";
+
+type DimensionKey = "roofLength" | "roofWidth" | "meanRoofHeight";
+
+interface BuildingDimensionsInputProps {
+  measurements: TPOMeasurements;
+  onChange: (key: DimensionKey, value: string) => void;
+}
+
+const FIELDS: { key: DimensionKey; label: string; step?: string }[] = [
+  { key: "roofLength", label: "Length" },
+  { key: "roofWidth", label: "Width" },
+  { key: "meanRoofHeight", label: "Mean Height", step: "0.5" },
+];
+
+/** "Field 81% · Perimeter 17% · Corner 2%" */
+export function formatZoneSplit(zones: WindZoneLayout): string {
+  const pct = (ratio: number) => `${(ratio * 100).toFixed(0)}%`;
+  return `Field ${pct(zones.fieldRatio)} · Perimeter ${pct(zones.perimeterRatio)} · Corner ${pct(zones.cornerRatio)}`;
+}
+
+export function BuildingDimensionsInput({ measurements, onChange }: BuildingDimensionsInputProps) {
+  const zones = calculateWindZones(measurements);
+
+  return (
+    <div className="p-4 bg-muted/30 rounded-lg space-y-4">
+      <div>
+        <p className="text-sm font-medium text-foreground">
+          Building Dimensions
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Sets ASCE 7 wind zone widths for fastener counts
+        </p>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {FIELDS.map(({ key, label, step }) => (
+          <div key={key} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{label}</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                min="0"
+                step={step}
+                placeholder="0"
+                value={measurements[key] || ""}
+                onChange={(e) => onChange(key, e.target.value)}
+                className="pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                ft
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+      {measurements.roofArea > 0 && (
+        <motion.p
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className={`text-xs font-medium ${zones.fromDimensions ? "text-cyan" : "text-muted-foreground"}`}
+        >
+          {zones.fromDimensions
+            ? `${zones.zoneWidth.toFixed(1)} ft edge zones — `
+            : "Enter length and width for actual zones — "}
+          {formatZoneSplit(zones)}
+        </motion.p>
+      )}
+    </div>
+  );
+}
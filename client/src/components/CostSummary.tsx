@@ -6,8 +6,8 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { DollarSign, Package, HardHat, Wrench, Ruler } from "lucide-react";
-import { type EstimateResult, formatCurrency } from "@/lib/karnak-data";
-import type { LaborEquipmentTotals } from "@/lib/labor-equipment-data";
+import { type EstimateResult, formatCurrency } from "@shared/estimating/karnak-data";
+import type { LaborEquipmentTotals } from "@shared/estimating/labor-equipment-data";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface CostSummaryProps {
@@ -0,0 +1,182 @@
+/**
+ * EnergyCodeCheck — Roof R-value compliance against IECC / ASHRAE 90.1
+ * Design: Compact card between the assembly and measurements; flags a
+ *         shortfall and offers the cheapest compliant layer combination
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, ShieldCheck } from "lucide-react";
+import {
+  CLIMATE_ZONES,
+  CODE_EDITIONS,
+  getClimateZoneFromZip,
+  type ClimateZone,
+  type CodeEdition,
+  type ComplianceResult,
+  type EnergyCodeSettings,
+  type InsulationSuggestion,
+} from "@shared/estimating/energy-code-data";
+
+interface EnergyCodeCheckProps {
+  settings: EnergyCodeSettings;
+  onChange: (settings: EnergyCodeSettings) => void;
+  result?: ComplianceResult;
+  /** Names of other roof sections that also fall short */
+  failingSections?: string[];
+  onApplySuggestion: (suggestion: InsulationSuggestion) => void;
+}
+
+const ZIP_ZONE = "zip";
+
+export function EnergyCodeCheck({
+  settings,
+  onChange,
+  result,
+  failingSections = [],
+  onApplySuggestion,
+}: EnergyCodeCheckProps) {
+  const zipLookup = getClimateZoneFromZip(settings.zip);
+
+  return (
+    <Card className="border-border shadow-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldCheck className="w-5 h-5 text-cyan" />
+          Energy Code
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Check roof insulation against the prescriptive R-value minimum
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Project ZIP</Label>
+            <Input
+              inputMode="numeric"
+              maxLength={10}
+              placeholder="e.g. 60601"
+              value={settings.zip}
+              onChange={(e) => onChange({ ...settings, zip: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Climate Zone</Label>
+            <Select
+              value={settings.climateZone !== undefined ? String(settings.climateZone) : ZIP_ZONE}
+              onValueChange={(v) =>
+                onChange({
+                  ...settings,
+                  climateZone: v === ZIP_ZONE ? undefined : (Number(v) as ClimateZone),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ZIP_ZONE}>
+                  {zipLookup ? `From ZIP (${zipLookup.zone})` : "From ZIP"}
+                </SelectItem>
+                {CLIMATE_ZONES.map((zone) => (
+                  <SelectItem key={zone} value={String(zone)}>
+                    Zone {zone}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Code</Label>
+            <Select
+              value={settings.edition}
+              onValueChange={(v) => onChange({ ...settings, edition: v as CodeEdition })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CODE_EDITIONS.map((e) => (
+                  <SelectItem key={e.value} value={e.value}>
+                    {e.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {settings.climateZone === undefined && zipLookup?.approximate && (
+          <p className="text-[10px] text-muted-foreground">
+            {zipLookup.state} spans several climate zones — using zone {zipLookup.zone}; confirm
+            against the county table
+          </p>
+        )}
+
+        {!result ? (
+          <p className="text-xs text-muted-foreground">
+            Enter the project ZIP or pick a climate zone to check compliance
+          </p>
+        ) : result.compliant ? (
+          <p className="flex items-center gap-2 text-sm font-medium text-cyan">
+            <CheckCircle2 className="w-4 h-4" />
+            R-{result.providedRValue.toFixed(1)} meets R-{result.requiredRValue} ci for zone{" "}
+            {result.climateZone}
+          </p>
+        ) : (
+          <div className="space-y-2 p-3 rounded-lg border border-destructive/40 bg-destructive/5">
+            <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <AlertTriangle className="w-4 h-4" />
+              R-{result.providedRValue.toFixed(1)} is R-{result.shortfall.toFixed(1)} short of R-
+              {result.requiredRValue} ci for zone {result.climateZone}
+            </p>
+            {result.suggestion && result.suggestion.layers.length > 0 ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-muted-foreground">
+                  Cheapest compliant:{" "}
+                  <span className="font-medium text-foreground">
+                    {result.suggestion.layers.map((l) => `${l.thickness}"`).join(" + ")}
+                  </span>{" "}
+                  (R-{result.suggestion.totalRValue.toFixed(1)},{" "}
+                  {result.suggestion.costPerBoard.toLocaleString("en-US", {
+                    style: "currency",
+                    currency: "USD",
+                  })}{" "}
+                  per board stack)
+                </p>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 text-xs shrink-0"
+                  onClick={() => onApplySuggestion(result.suggestion!)}
+                >
+                  Use Layers
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                No combination of up to four flat layers reaches the requirement
+              </p>
+            )}
+          </div>
+        )}
+
+        {failingSections.length > 0 && (
+          <p className="text-xs text-destructive">
+            Also below code: {failingSections.join(", ")}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
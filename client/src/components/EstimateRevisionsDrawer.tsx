@@ -0,0 +1,329 @@
+/**
+ * EstimateRevisionsDrawer — Revision history for a saved estimate.
+ *
+ * Lists every save with who saved it and when. Any earlier revision can be
+ * compared against the latest one (measurements, assembly options, line
+ * items added/removed/changed and the total delta) or restored.
+ */
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, GitCompare, History, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import type { FieldChange, LineItemChange } from "@shared/estimating/estimate-diff";
+
+interface EstimateRevisionsDrawerProps {
+  /** Saved estimate whose history is shown; null closes the drawer */
+  estimateId: number | null;
+  estimateName?: string;
+  onClose: () => void;
+}
+
+function fmt(amount: string | number | null | undefined): string {
+  const num = typeof amount === "string" ? parseFloat(amount) : amount;
+  if (num == null || isNaN(num)) return "—";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(num);
+}
+
+function fmtDelta(delta: number): string {
+  return `${delta >= 0 ? "+" : "−"}${fmt(Math.abs(delta))}`;
+}
+
+function fmtDate(date: Date | string): string {
+  const d = typeof date === "string" ? new Date(date) : date;
+  return d.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+const LINE_KIND_LABELS: Record<LineItemChange["kind"], string> = {
+  material: "Material",
+  penetration: "Penetration",
+  "sheet-metal": "Sheet Metal",
+};
+
+const CHANGE_STYLES: Record<LineItemChange["change"], string> = {
+  added: "text-success",
+  removed: "text-destructive",
+  changed: "text-foreground",
+};
+
+function FieldChangeList({ title, changes }: { title: string; changes: FieldChange[] }) {
+  if (changes.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-sm font-semibold mb-2">{title}</h4>
+      <div className="space-y-1.5">
+        {changes.map((c, idx) => (
+          <div key={`${c.section}-${c.field}-${idx}`} className="text-xs rounded-md border p-2">
+            <div className="text-muted-foreground">
+              {c.section ? `${c.section} · ` : ""}
+              {c.label}
+            </div>
+            <div>
+              <span className="line-through text-muted-foreground">{c.before}</span>
+              <span className="mx-1.5">→</span>
+              <span className="font-medium">{c.after}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RevisionDiff({ fromId, toId }: { fromId: number; toId: number }) {
+  const { data: diff, isLoading, error } = trpc.estimates.diffRevisions.useQuery(
+    { fromId, toId },
+    { refetchOnWindowFocus: false },
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (error || !diff) {
+    return <p className="text-sm text-destructive">Could not compare these revisions.</p>;
+  }
+
+  const noChanges =
+    diff.measurements.length === 0 &&
+    diff.assembly.length === 0 &&
+    diff.lineItems.length === 0 &&
+    diff.sectionsAdded.length === 0 &&
+    diff.sectionsRemoved.length === 0;
+
+  return (
+    <div className="space-y-5">
+      {/* Total delta */}
+      <div className="rounded-lg border p-3">
+        <div className="text-xs text-muted-foreground">
+          Revision {diff.from.revision} → Revision {diff.to.revision}
+        </div>
+        <div className="flex items-baseline justify-between mt-1">
+          <span className="text-sm">
+            {fmt(diff.totals.before)} → {fmt(diff.totals.after)}
+          </span>
+          <span
+            className={`font-semibold ${diff.totals.delta > 0 ? "text-destructive" : diff.totals.delta < 0 ? "text-success" : ""}`}
+          >
+            {fmtDelta(diff.totals.delta)}
+          </span>
+        </div>
+      </div>
+
+      {noChanges && <p className="text-sm text-muted-foreground">No changes to measurements, assembly or line items.</p>}
+
+      {(diff.sectionsAdded.length > 0 || diff.sectionsRemoved.length > 0) && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Roof Sections</h4>
+          <div className="flex flex-wrap gap-1.5">
+            {diff.sectionsAdded.map((name) => (
+              <Badge key={`added-${name}`} variant="outline" className="text-success">
+                + {name}
+              </Badge>
+            ))}
+            {diff.sectionsRemoved.map((name) => (
+              <Badge key={`removed-${name}`} variant="outline" className="text-destructive">
+                − {name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <FieldChangeList title="Measurements" changes={diff.measurements} />
+      <FieldChangeList title="Assembly" changes={diff.assembly} />
+
+      {diff.lineItems.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold mb-2">Line Items</h4>
+          <div className="space-y-1.5">
+            {diff.lineItems.map((item) => (
+              <div key={`${item.kind}-${item.key}`} className="text-xs rounded-md border p-2">
+                <div className="flex items-start justify-between gap-2">
+                  <span className={`font-medium ${CHANGE_STYLES[item.change]}`}>
+                    {item.change === "added" ? "+ " : item.change === "removed" ? "− " : ""}
+                    {item.name}
+                  </span>
+                  <span className="shrink-0">{fmtDelta(item.costAfter - item.costBefore)}</span>
+                </div>
+                <div className="text-muted-foreground">
+                  {LINE_KIND_LABELS[item.kind]} ·{" "}
+                  {item.change === "added"
+                    ? `${item.quantityAfter} ${item.unit}`
+                    : item.change === "removed"
+                      ? `${item.quantityBefore} ${item.unit}`
+                      : `${item.quantityBefore} → ${item.quantityAfter} ${item.unit}`}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function EstimateRevisionsDrawer({ estimateId, estimateName, onClose }: EstimateRevisionsDrawerProps) {
+  const [compareFromId, setCompareFromId] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<{ id: number; revision: number } | null>(null);
+
+  const { data: revisions, isLoading } = trpc.estimates.revisions.useQuery(
+    { estimateId: estimateId ?? 0 },
+    { enabled: estimateId !== null, refetchOnWindowFocus: false },
+  );
+  const restoreMutation = trpc.estimates.restoreRevision.useMutation();
+  const utils = trpc.useUtils();
+
+  const latest = revisions?.[0];
+
+  const handleClose = () => {
+    setCompareFromId(null);
+    onClose();
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget || estimateId === null) return;
+    try {
+      await restoreMutation.mutateAsync({ estimateId, revisionId: restoreTarget.id });
+      utils.estimates.list.invalidate();
+      utils.estimates.get.invalidate({ id: estimateId });
+      utils.estimates.revisions.invalidate({ estimateId });
+      toast.success(`Restored revision ${restoreTarget.revision}`);
+      setRestoreTarget(null);
+      setCompareFromId(null);
+    } catch {
+      toast.error("Failed to restore revision");
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={estimateId !== null} onOpenChange={(open) => !open && handleClose()}>
+        <SheetContent className="sm:max-w-md w-full overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Revision History
+            </SheetTitle>
+            <SheetDescription>{estimateName}</SheetDescription>
+          </SheetHeader>
+
+          <div className="px-4 pb-6">
+            {isLoading ? (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : compareFromId !== null && latest ? (
+              <div className="space-y-4">
+                <Button variant="ghost" size="sm" className="h-8 px-2 gap-1" onClick={() => setCompareFromId(null)}>
+                  <ArrowLeft className="h-4 w-4" />
+                  All revisions
+                </Button>
+                <RevisionDiff fromId={compareFromId} toId={latest.id} />
+              </div>
+            ) : !revisions || revisions.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                No revisions yet. History is recorded from the next save.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {revisions.map((rev) => (
+                  <div key={rev.id} className="rounded-lg border p-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">Revision {rev.revision}</span>
+                          {rev.id === latest?.id && <Badge variant="secondary">Current</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-0.5">
+                          {fmtDate(rev.createdAt)} · {rev.createdBy || "unknown"}
+                        </p>
+                        {rev.restoredFrom != null && (
+                          <p className="text-xs text-muted-foreground">Restored from revision {rev.restoredFrom}</p>
+                        )}
+                      </div>
+                      <span className="text-sm font-medium shrink-0">{fmt(rev.grandTotal)}</span>
+                    </div>
+                    {rev.id !== latest?.id && (
+                      <div className="flex gap-1 mt-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 gap-1 text-xs"
+                          onClick={() => setCompareFromId(rev.id)}
+                        >
+                          <GitCompare className="h-3.5 w-3.5" />
+                          Compare to current
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 gap-1 text-xs"
+                          onClick={() => setRestoreTarget({ id: rev.id, revision: rev.revision })}
+                        >
+                          <RotateCcw className="h-3.5 w-3.5" />
+                          Restore
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      {/* Restore Confirmation */}
+      <AlertDialog open={restoreTarget !== null} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Revision {restoreTarget?.revision}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The estimate will be set back to this revision. The current version stays in the history, so
+              this can be undone by restoring it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>
+              {restoreMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,309 @@
+/**
+ * FlashingProfileBuilder — Draw a custom sheet metal profile leg by leg.
+ *
+ * Enter each leg's length and the bend angle from the previous leg, hem
+ * either end and pick the stock it's cut from. The cross-section, developed
+ * width, bend count and shop price (stock, brake and hemming) update as you
+ * type.
+ */
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  STOCK_OPTIONS,
+  getProfileCrossSection,
+  priceFabricatedFlashing,
+  type CustomFlashingProfile,
+  type FabricationRates,
+} from "@shared/estimating/flashing-profile-builder";
+import { describeMetal, getStockPricePerSqFt } from "@shared/estimating/sheet-metal-flashing-data";
+import { formatCurrency } from "@shared/estimating/karnak-data";
+import { Plus, Ruler, Trash2 } from "lucide-react";
+
+interface FlashingProfileBuilderProps {
+  /** Profile being edited; null while closed */
+  profile: CustomFlashingProfile | null;
+  /** Metal the price preview uses */
+  metalTypeId: string;
+  gaugeId: string;
+  rates: FabricationRates;
+  onSave: (profile: CustomFlashingProfile, rates: FabricationRates) => void;
+  onClose: () => void;
+}
+
+/** Linear feet the price preview is quoted for */
+const PREVIEW_LF = 100;
+
+const SVG_SIZE = 240;
+const SVG_PADDING = 16;
+
+function ProfileCrossSectionSvg({ profile }: { profile: CustomFlashingProfile }) {
+  const section = getProfileCrossSection(profile);
+  const scale = (SVG_SIZE - SVG_PADDING * 2) / Math.max(section.width, section.height, 1);
+  // Inches (y up) to SVG pixels (y down), centered
+  const toSvg = ([x, y]: [number, number]) => {
+    const px = SVG_PADDING + (x - section.minX) * scale + (SVG_SIZE - SVG_PADDING * 2 - section.width * scale) / 2;
+    const py = SVG_SIZE - SVG_PADDING - (y - section.minY) * scale - (SVG_SIZE - SVG_PADDING * 2 - section.height * scale) / 2;
+    return `${px.toFixed(1)},${py.toFixed(1)}`;
+  };
+
+  return (
+    <svg
+      viewBox={`0 0 ${SVG_SIZE} ${SVG_SIZE}`}
+      className="w-full max-w-[240px] aspect-square rounded-md border border-border bg-muted/30"
+      role="img"
+      aria-label={`${profile.name} cross-section`}
+    >
+      <polyline
+        points={section.points.map(toSvg).join(" ")}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={3}
+        strokeLinejoin="round"
+        className="text-cyan"
+      />
+      {section.hems.map((hem, i) => (
+        <polyline
+          key={i}
+          points={hem.map(toSvg).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={3}
+          strokeLinejoin="round"
+          className="text-cyan"
+        />
+      ))}
+      {section.points.map((point, i) => {
+        const [cx, cy] = toSvg(point).split(",");
+        return <circle key={i} cx={cx} cy={cy} r={3} className="fill-foreground" />;
+      })}
+    </svg>
+  );
+}
+
+export function FlashingProfileBuilder({
+  profile,
+  metalTypeId,
+  gaugeId,
+  rates,
+  onSave,
+  onClose,
+}: FlashingProfileBuilderProps) {
+  const [draft, setDraft] = useState<CustomFlashingProfile | null>(profile);
+  const [draftRates, setDraftRates] = useState<FabricationRates>(rates);
+
+  useEffect(() => {
+    setDraft(profile);
+    setDraftRates(rates);
+  }, [profile, rates]);
+
+  const quote = useMemo(
+    () =>
+      draft ? priceFabricatedFlashing(draft, PREVIEW_LF, getStockPricePerSqFt(metalTypeId, gaugeId), draftRates) : null,
+    [draft, draftRates, metalTypeId, gaugeId],
+  );
+
+  const update = (changes: Partial<CustomFlashingProfile>) => setDraft((prev) => prev && { ...prev, ...changes });
+
+  const updateLeg = (index: number, changes: Partial<CustomFlashingProfile["legs"][number]>) =>
+    setDraft((prev) => prev && { ...prev, legs: prev.legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)) });
+
+  const addLeg = () =>
+    setDraft((prev) => prev && { ...prev, legs: [...prev.legs, { length: 1, bendAngle: 90 }] });
+
+  const removeLeg = (index: number) =>
+    setDraft((prev) => prev && { ...prev, legs: prev.legs.filter((_, i) => i !== index) });
+
+  const save = () => {
+    if (!draft) return;
+    onSave({ ...draft, name: draft.name.trim() || "Custom Profile" }, draftRates);
+  };
+
+  return (
+    <Dialog open={draft !== null} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ruler className="w-5 h-5 text-cyan" />
+            Flashing Profile Builder
+          </DialogTitle>
+          <DialogDescription>
+            Enter each leg and its bend from the previous leg (positive bends up, negative down). Priced as the
+            shop fabricates it in {describeMetal(metalTypeId, gaugeId)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft && quote && (
+          <div className="grid gap-6 sm:grid-cols-[1fr_240px]">
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="profile-name">Profile Name</Label>
+                <Input id="profile-name" value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+              </div>
+
+              {/* Legs */}
+              <div className="space-y-2">
+                <div className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 text-xs font-medium text-muted-foreground">
+                  <span>Leg</span>
+                  <span>Length (in.)</span>
+                  <span>Bend (°)</span>
+                  <span />
+                </div>
+                {draft.legs.map((leg, i) => (
+                  <div key={i} className="grid grid-cols-[2rem_1fr_1fr_2rem] gap-2 items-center">
+                    <span className="text-sm text-muted-foreground">{i + 1}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.125}
+                      value={leg.length || ""}
+                      onChange={(e) => updateLeg(i, { length: parseFloat(e.target.value) || 0 })}
+                      className="h-8"
+                    />
+                    <Input
+                      type="number"
+                      min={-180}
+                      max={180}
+                      step={5}
+                      value={i === 0 ? "" : leg.bendAngle}
+                      placeholder={i === 0 ? "—" : "0"}
+                      disabled={i === 0}
+                      onChange={(e) => updateLeg(i, { bendAngle: parseFloat(e.target.value) || 0 })}
+                      className="h-8"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeLeg(i)}
+                      disabled={draft.legs.length <= 1}
+                      className="h-8 w-8"
+                      title="Remove leg"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="outline" size="sm" onClick={addLeg} className="h-8 text-xs">
+                  <Plus className="w-3 h-3" />
+                  Add Leg
+                </Button>
+              </div>
+
+              {/* Hems & stock */}
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.hemStart} onChange={(e) => update({ hemStart: e.target.checked })} />
+                  Hem start
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={draft.hemEnd} onChange={(e) => update({ hemEnd: e.target.checked })} />
+                  Hem end
+                </label>
+                <select
+                  value={draft.stockId}
+                  onChange={(e) => update({ stockId: e.target.value })}
+                  className="h-8 text-sm border border-border rounded-md bg-card px-2 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                  title="Stock the pieces are cut from"
+                >
+                  {STOCK_OPTIONS.map((stock) => (
+                    <option key={stock.id} value={stock.id}>
+                      {stock.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Shop rates */}
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <Label className="text-xs">Brake $/bend</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={draftRates.brakeChargePerBend}
+                    onChange={(e) =>
+                      setDraftRates((prev) => ({ ...prev, brakeChargePerBend: parseFloat(e.target.value) || 0 }))
+                    }
+                    className="h-8"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Hem $/hem</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={draftRates.hemChargePerHem}
+                    onChange={(e) =>
+                      setDraftRates((prev) => ({ ...prev, hemChargePerHem: parseFloat(e.target.value) || 0 }))
+                    }
+                    className="h-8"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs">Piece length (ft)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={draftRates.pieceLengthFt}
+                    onChange={(e) =>
+                      setDraftRates((prev) => ({ ...prev, pieceLengthFt: parseFloat(e.target.value) || 10 }))
+                    }
+                    className="h-8"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="space-y-3">
+              <ProfileCrossSectionSvg profile={draft} />
+              <dl className="grid grid-cols-2 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Developed width</dt>
+                <dd className="text-right font-mono-nums">{quote.developedWidth}"</dd>
+                <dt className="text-muted-foreground">Bends</dt>
+                <dd className="text-right font-mono-nums">{quote.bendCount}</dd>
+                <dt className="text-muted-foreground">Hems</dt>
+                <dd className="text-right font-mono-nums">{quote.hemCount}</dd>
+                <dt className="text-muted-foreground">Strips per blank</dt>
+                <dd className="text-right font-mono-nums">{quote.stripsPerBlank}</dd>
+                <dt className="text-muted-foreground pt-2">Per {PREVIEW_LF} LF</dt>
+                <dd />
+                <dt className="text-muted-foreground">Stock ({quote.stockSqFt} sq ft)</dt>
+                <dd className="text-right font-mono-nums">{formatCurrency(quote.stockCost)}</dd>
+                <dt className="text-muted-foreground">Brake</dt>
+                <dd className="text-right font-mono-nums">{formatCurrency(quote.brakeCost)}</dd>
+                <dt className="text-muted-foreground">Hemming</dt>
+                <dd className="text-right font-mono-nums">{formatCurrency(quote.hemCost)}</dd>
+                <dt className="font-semibold text-foreground">Price / LF</dt>
+                <dd className="text-right font-mono-nums font-semibold">{formatCurrency(quote.pricePerLF)}</dd>
+              </dl>
+              {!quote.fitsStock && (
+                <p className="text-xs text-destructive">
+                  The developed width is wider than this stock — priced as a blank of its own width; pick wider stock.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={save}>Save Profile</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
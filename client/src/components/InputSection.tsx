@@ -7,7 +7,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Ruler, ArrowDownUp, ArrowLeftRight, RotateCcw } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Ruler, ArrowDownUp, ArrowLeftRight, RotateCcw, ShieldCheck } from "lucide-react";
+import type { WarrantyTerm } from "@shared/estimating/karnak-data";
 
 interface InputSectionProps {
   squareFootage: string;
@@ -18,6 +26,12 @@ interface InputSectionProps {
   setHorizontalSeamsLF: (v: string) => void;
   onClear: () => void;
   hasInputs: boolean;
+  /** Warranty terms offered by the system; selector is hidden when omitted */
+  warrantyTerms?: WarrantyTerm[];
+  warrantyYears?: WarrantyTerm;
+  setWarrantyYears?: (v: WarrantyTerm) => void;
+  /** Total dry film thickness for the selected warranty term */
+  totalDryMils?: number;
 }
 
 export function InputSection({
@@ -29,6 +43,10 @@ export function InputSection({
   setHorizontalSeamsLF,
   onClear,
   hasInputs,
+  warrantyTerms,
+  warrantyYears,
+  setWarrantyYears,
+  totalDryMils,
 }: InputSectionProps) {
   const handleNumericInput = (
     value: string,
@@ -157,6 +175,38 @@ export function InputSection({
             Lap seams, penetrations, and cracks running horizontally
           </p>
         </div>
+
+        {/* Warranty Term */}
+        {warrantyTerms && warrantyTerms.length > 0 && setWarrantyYears && (
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-foreground flex items-center gap-2">
+              <div className="w-6 h-6 rounded bg-cyan/10 flex items-center justify-center">
+                <ShieldCheck className="w-3.5 h-3.5 text-cyan" />
+              </div>
+              Warranty Term
+            </Label>
+            <Select
+              value={warrantyYears ? String(warrantyYears) : undefined}
+              onValueChange={(v) => setWarrantyYears(Number(v) as WarrantyTerm)}
+            >
+              <SelectTrigger className="h-12">
+                <SelectValue placeholder="Select warranty term" />
+              </SelectTrigger>
+              <SelectContent>
+                {warrantyTerms.map((term) => (
+                  <SelectItem key={term} value={String(term)}>
+                    {term}-Year
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {totalDryMils !== undefined && totalDryMils > 0 && (
+              <p className="text-xs text-muted-foreground pl-8">
+                {totalDryMils} dry mils total — longer terms add base or top coats
+              </p>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
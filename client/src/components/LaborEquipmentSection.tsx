@@ -16,7 +16,7 @@ import {
   ChevronUp,
 } from "lucide-react";
 import { useState } from "react";
-import type { LaborEquipmentState } from "@/lib/labor-equipment-data";
+import { toDetailHours, type LaborEquipmentState } from "@shared/estimating/labor-equipment-data";
 
 interface LaborEquipmentSectionProps {
   laborEquipment: LaborEquipmentState;
@@ -31,6 +31,8 @@ interface LaborEquipmentSectionProps {
     value: number | boolean
   ) => void;
   resetLaborEquipment: () => void;
+  /** Penetration and sheet metal install time, shown as the detail labor hours */
+  detailLaborMinutes?: number;
 }
 
 export function LaborEquipmentSection({
@@ -38,6 +40,7 @@ export function LaborEquipmentSection({
   updateLaborItem,
   updateEquipmentItem,
   resetLaborEquipment,
+  detailLaborMinutes = 0,
 }: LaborEquipmentSectionProps) {
   const [isOpen, setIsOpen] = useState(true);
 
@@ -131,7 +134,7 @@ export function LaborEquipmentSection({
                         <label className="text-xs text-muted-foreground block mb-1">
                           {item.rateType === "per_sqft"
                             ? "Rate ($/sq. ft.)"
-                            : item.rateType === "per_hour"
+                            : item.rateType === "per_hour" || item.rateType === "per_detail_hour"
                               ? "Rate ($/hr)"
                               : "Amount ($)"}
                         </label>
@@ -157,6 +160,18 @@ export function LaborEquipmentSection({
                       </div>
 
                       {/* Quantity (only for per_hour and flat) */}
+                      {/* Detail hours come from Roof Additions */}
+                      {item.rateType === "per_detail_hour" && (
+                        <div className="w-24">
+                          <label className="text-xs text-muted-foreground block mb-1">
+                            Detail Hours
+                          </label>
+                          <p className="h-8 flex items-center justify-end text-sm font-mono-nums text-foreground">
+                            {toDetailHours(detailLaborMinutes)}
+                          </p>
+                        </div>
+                      )}
+
                       {item.rateType === "per_hour" && (
                         <div className="w-24">
                           <label className="text-xs text-muted-foreground block mb-1">
@@ -20,8 +20,8 @@ import {
   type EstimateResult,
   formatCurrency,
   formatNumber,
-} from "@/lib/karnak-data";
-import type { LaborEquipmentTotals } from "@/lib/labor-equipment-data";
+} from "@shared/estimating/karnak-data";
+import type { LaborEquipmentTotals } from "@shared/estimating/labor-equipment-data";
 import { motion } from "framer-motion";
 
 interface OrderListProps {
@@ -214,6 +214,7 @@ export function OrderList({
                         </p>
                         <p className="text-xs text-muted-foreground mt-0.5 hidden lg:block">
                           {item.product.coverageUnit}
+                          {item.coats > 1 && ` × ${item.coats} coats`}
                         </p>
                       </div>
                     </TableCell>
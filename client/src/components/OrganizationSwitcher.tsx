@@ -0,0 +1,291 @@
+/**
+ * OrganizationSwitcher — Pick the organization whose price book, quotes and
+ * saved estimates the app works in, create a new organization, and manage
+ * the active organization's members. Hidden when signed out.
+ */
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { getActiveOrganizationId, setActiveOrganizationId } from "@/lib/organization";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Building2, Loader2, Plus, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+
+const NEW_ORGANIZATION = "new";
+const MANAGE_MEMBERS = "members";
+
+export function OrganizationSwitcher({ className }: { className?: string }) {
+  const { user, isAuthenticated } = useAuth();
+  const [createOpen, setCreateOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.organizations.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchOnWindowFocus: false,
+  });
+
+  // Keep the stored choice in step with what the server resolved (first
+  // visit, or an organization the user has since been removed from)
+  useEffect(() => {
+    if (data?.activeId != null && data.activeId !== getActiveOrganizationId()) {
+      setActiveOrganizationId(data.activeId);
+      utils.invalidate();
+    }
+  }, [data?.activeId]);
+
+  if (!isAuthenticated || !data) return null;
+
+  const active = data.organizations.find((o) => o.id === data.activeId);
+  const canManage = active?.role === "owner" || user?.role === "admin";
+
+  const switchTo = (id: number) => {
+    setActiveOrganizationId(id);
+    // Every query is scoped to the active organization
+    utils.invalidate();
+  };
+
+  const handleChange = (value: string) => {
+    if (value === NEW_ORGANIZATION) setCreateOpen(true);
+    else if (value === MANAGE_MEMBERS) setMembersOpen(true);
+    else switchTo(Number(value));
+  };
+
+  return (
+    <>
+      <Select value={data.activeId != null ? String(data.activeId) : undefined} onValueChange={handleChange}>
+        <SelectTrigger className={className ?? "w-[220px] bg-card/10 border-white/20 text-white"}>
+          <Building2 className="h-4 w-4 shrink-0" />
+          <SelectValue placeholder="Organization" />
+        </SelectTrigger>
+        <SelectContent>
+          {data.organizations.map((org) => (
+            <SelectItem key={org.id} value={String(org.id)}>
+              {org.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={MANAGE_MEMBERS}>Members…</SelectItem>
+          <SelectItem value={NEW_ORGANIZATION}>New organization…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <CreateOrganizationDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        sourceName={active?.name}
+        onCreated={switchTo}
+      />
+      <MembersDialog
+        open={membersOpen}
+        onOpenChange={setMembersOpen}
+        organizationName={active?.name}
+        canManage={canManage}
+      />
+    </>
+  );
+}
+
+function CreateOrganizationDialog({
+  open,
+  onOpenChange,
+  sourceName,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sourceName?: string;
+  onCreated: (id: number) => void;
+}) {
+  const [name, setName] = useState("");
+  const [copyPricing, setCopyPricing] = useState(true);
+  const createMutation = trpc.organizations.create.useMutation();
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    try {
+      const result = await createMutation.mutateAsync({ name: name.trim(), copyPricing });
+      toast.success(
+        result.pricesCopied > 0 ? `Organization created with ${result.pricesCopied} prices` : "Organization created",
+      );
+      setName("");
+      onOpenChange(false);
+      onCreated(result.id);
+    } catch {
+      toast.error("Failed to create organization");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>New Organization</DialogTitle>
+          <DialogDescription>
+            Each organization has its own price book, quote requests and saved estimates.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">Name</Label>
+            <Input
+              id="organization-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. North Branch"
+              autoFocus
+            />
+          </div>
+          <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3">
+            <div>
+              <Label htmlFor="organization-copy">Copy price book</Label>
+              <p className="text-xs text-muted-foreground">Start from {sourceName ?? "the current organization"}'s prices</p>
+            </div>
+            <Switch id="organization-copy" checked={copyPricing} onCheckedChange={setCopyPricing} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!name.trim() || createMutation.isPending}>
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Create
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MembersDialog({
+  open,
+  onOpenChange,
+  organizationName,
+  canManage,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  organizationName?: string;
+  canManage: boolean;
+}) {
+  const [email, setEmail] = useState("");
+  const [asOwner, setAsOwner] = useState(false);
+  const utils = trpc.useUtils();
+
+  const { data: members, isLoading } = trpc.organizations.members.useQuery(undefined, { enabled: open });
+  const addMutation = trpc.organizations.addMember.useMutation();
+  const removeMutation = trpc.organizations.removeMember.useMutation();
+
+  const handleAdd = async () => {
+    if (!email.trim()) return;
+    try {
+      await addMutation.mutateAsync({ email: email.trim(), role: asOwner ? "owner" : "member" });
+      utils.organizations.members.invalidate();
+      toast.success("Member added");
+      setEmail("");
+      setAsOwner(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add member");
+    }
+  };
+
+  const handleRemove = async (userId: number) => {
+    try {
+      await removeMutation.mutateAsync({ userId });
+      utils.organizations.members.invalidate();
+      toast.success("Member removed");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove member");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            {organizationName ?? "Organization"} Members
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="divide-y divide-border max-h-[50vh] overflow-y-auto">
+            {members?.map((member) => (
+              <div key={member.userId} className="flex items-center justify-between gap-2 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium truncate">{member.name ?? member.email ?? "Unnamed user"}</div>
+                  {member.email && <div className="text-xs text-muted-foreground truncate">{member.email}</div>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Badge variant={member.role === "owner" ? "default" : "secondary"}>{member.role}</Badge>
+                  {canManage && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                      onClick={() => handleRemove(member.userId)}
+                      disabled={removeMutation.isPending}
+                      title="Remove"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <Label htmlFor="member-email">Add a member by sign-in email</Label>
+            <div className="flex gap-2">
+              <Input
+                id="member-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="estimator@example.com"
+              />
+              <Button onClick={handleAdd} disabled={!email.trim() || addMutation.isPending}>
+                {addMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="member-owner" checked={asOwner} onCheckedChange={setAsOwner} />
+              <Label htmlFor="member-owner" className="text-sm font-normal">
+                Owner (can manage members)
+              </Label>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
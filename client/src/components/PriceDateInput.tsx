@@ -0,0 +1,33 @@
+/**
+ * PriceDateInput — The job start date an estimate is priced at. Scheduled
+ * price changes in effect on that date replace today's prices; leave it
+ * empty to price at today's prices.
+ */
+import { Input } from "@/components/ui/input";
+import { CalendarDays } from "lucide-react";
+
+interface PriceDateInputProps {
+  /** "YYYY-MM-DD", or null for today's prices */
+  value: string | null;
+  onChange: (priceDate: string | null) => void;
+}
+
+export function PriceDateInput({ value, onChange }: PriceDateInputProps) {
+  return (
+    // Sits inside clickable card headers — don't toggle them
+    <label
+      className="flex items-center gap-1.5 text-xs font-normal text-muted-foreground"
+      title="Price at the scheduled prices in effect on the job start date"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <CalendarDays className="w-3 h-3 shrink-0" />
+      Job start
+      <Input
+        type="date"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="h-8 w-[140px] text-xs"
+      />
+    </label>
+  );
+}
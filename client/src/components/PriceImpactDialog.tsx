@@ -0,0 +1,130 @@
+/**
+ * PriceImpactDialog — After a bulk price update, which open (draft or sent)
+ * estimates it moves: each estimate's saved total, its total at the new
+ * prices and the products driving the change, so they can be requoted
+ * before the customer signs.
+ */
+import { Fragment } from "react";
+import { Link } from "wouter";
+import { trpc } from "@/lib/trpc";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCurrency } from "@shared/estimating/karnak-data";
+import { FileText, RefreshCw } from "lucide-react";
+
+interface PriceImpactDialogProps {
+  /** Pricing DB productIds the update changed; null while closed */
+  productIds: string[] | null;
+  onClose: () => void;
+}
+
+/** Products listed per estimate */
+const MAX_DRIVERS = 3;
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "−"}${formatCurrency(Math.abs(value))}`;
+
+export function PriceImpactDialog({ productIds, onClose }: PriceImpactDialogProps) {
+  const open = productIds !== null && productIds.length > 0;
+  const impactQuery = trpc.pricing.impactReport.useQuery(
+    { productIds: productIds ?? [] },
+    { enabled: open, refetchOnWindowFocus: false },
+  );
+  const impacts = impactQuery.data ?? [];
+  const totalDelta = impacts.reduce((sum, i) => sum + i.delta, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-cyan" />
+            Impact on Open Estimates
+          </DialogTitle>
+          <DialogDescription>
+            Draft and sent estimates recomputed with the {productIds?.length ?? 0} updated prices. Requote the ones
+            that moved before the customer signs.
+          </DialogDescription>
+        </DialogHeader>
+
+        {impactQuery.isLoading ? (
+          <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+            <RefreshCw className="w-4 h-4 animate-spin mr-2" />
+            Recomputing open estimates...
+          </div>
+        ) : impacts.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No open estimates use these products.</p>
+        ) : (
+          <div className="max-h-[55vh] overflow-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                  <th className="text-left px-3 py-2">Estimate</th>
+                  <th className="text-right px-3 py-2">Old Total</th>
+                  <th className="text-right px-3 py-2">New Total</th>
+                  <th className="text-right px-3 py-2">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {impacts.map((impact) => (
+                  <Fragment key={impact.id}>
+                    <tr className="border-t border-border">
+                      <td className="px-3 pt-2">
+                        <Link href="/saved" className="font-medium text-foreground hover:text-cyan">
+                          {impact.name}
+                        </Link>
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          {impact.systemLabel} · {impact.status}
+                        </span>
+                      </td>
+                      <td className="px-3 pt-2 text-right font-mono-nums text-muted-foreground">
+                        {formatCurrency(impact.oldTotal)}
+                      </td>
+                      <td className="px-3 pt-2 text-right font-mono-nums text-foreground">
+                        {formatCurrency(impact.newTotal)}
+                      </td>
+                      <td
+                        className={`px-3 pt-2 text-right font-mono-nums font-medium ${
+                          impact.delta > 0 ? "text-destructive" : "text-success"
+                        }`}
+                      >
+                        {formatDelta(impact.delta)}
+                      </td>
+                    </tr>
+                    <tr>
+                      <td colSpan={4} className="px-3 pb-2 text-xs text-muted-foreground">
+                        {impact.drivers.slice(0, MAX_DRIVERS).map((driver, i) => (
+                          <span key={driver.productId}>
+                            {i > 0 && " · "}
+                            {driver.name} {formatDelta(driver.impact)}
+                          </span>
+                        ))}
+                        {impact.drivers.length > MAX_DRIVERS && ` · ${impact.drivers.length - MAX_DRIVERS} more`}
+                      </td>
+                    </tr>
+                  </Fragment>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="border-t-2 border-border font-semibold">
+                  <td className="px-3 py-2 text-foreground" colSpan={3}>
+                    {impacts.length} estimate{impacts.length !== 1 ? "s" : ""} affected
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right font-mono-nums ${totalDelta > 0 ? "text-destructive" : "text-success"}`}
+                  >
+                    {formatDelta(totalDelta)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * PriceListSelect — Choose which price list an estimate is priced from:
+ * the organization's default price book or one distributor's list.
+ * Hidden until the organization has distributors in its directory.
+ */
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck } from "lucide-react";
+
+const DEFAULT_LIST = "default";
+
+interface PriceListSelectProps {
+  /** Selected distributor, or null for the default price book */
+  value: number | null;
+  onChange: (distributorId: number | null) => void;
+  className?: string;
+}
+
+export function PriceListSelect({ value, onChange, className }: PriceListSelectProps) {
+  const { isAuthenticated } = useAuth();
+  const { data: distributors } = trpc.distributors.list.useQuery(undefined, {
+    enabled: isAuthenticated,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  if (!distributors || distributors.length === 0) return null;
+
+  return (
+    // Sits inside clickable card headers — don't toggle them
+    <div onClick={(e) => e.stopPropagation()}>
+      <Select
+        value={value != null ? String(value) : DEFAULT_LIST}
+        onValueChange={(v) => onChange(v === DEFAULT_LIST ? null : Number(v))}
+      >
+        <SelectTrigger size="sm" className={className ?? "w-[180px] text-xs"} title="Price list">
+          <Truck className="w-3 h-3 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_LIST}>Default price book</SelectItem>
+          {distributors.map((d) => (
+            <SelectItem key={d.id} value={String(d.id)}>
+              {d.branch ? `${d.name} — ${d.branch}` : d.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
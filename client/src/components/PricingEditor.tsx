@@ -3,23 +3,41 @@
  * Design: Compact accordion-style card with editable price fields
  */
 
-import { useState } from "react";
+import { useState, type ComponentProps } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { KARNAK_PRODUCTS } from "@/lib/karnak-data";
+import { KARNAK_PRODUCTS, type KarnakProduct } from "@shared/estimating/karnak-data";
+import { PriceListSelect } from "@/components/PriceListSelect";
+import { PriceDateInput } from "@/components/PriceDateInput";
+import { RepriceDialog } from "@/components/RepriceDialog";
 import { Settings2, ChevronDown, ChevronUp, RotateCcw } from "lucide-react";
 
 interface PricingEditorProps {
   customPrices: Record<string, number>;
   updatePrice: (productId: string, price: number) => void;
   resetPrices: () => void;
+  products?: KarnakProduct[];
+  /** Distributor price list in use (null = default price book) */
+  distributorId?: number | null;
+  onPriceListChange?: (distributorId: number | null) => void;
+  /** Job start date prices are taken as of (null = today's prices) */
+  priceDate?: string | null;
+  onPriceDateChange?: (priceDate: string | null) => void;
+  /** Prices are locked to a saved estimate — offer repricing against current pricing */
+  reprice?: ComponentProps<typeof RepriceDialog>;
 }
 
 export function PricingEditor({
   customPrices,
   updatePrice,
   resetPrices,
+  products = KARNAK_PRODUCTS,
+  distributorId = null,
+  onPriceListChange,
+  priceDate = null,
+  onPriceDateChange,
+  reprice,
 }: PricingEditorProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -35,6 +53,9 @@ export function PricingEditor({
             Adjust Unit Prices
           </CardTitle>
           <div className="flex items-center gap-2">
+            {reprice && <RepriceDialog {...reprice} />}
+            {onPriceDateChange && <PriceDateInput value={priceDate} onChange={onPriceDateChange} />}
+            {onPriceListChange && <PriceListSelect value={distributorId} onChange={onPriceListChange} />}
             {isOpen && (
               <Button
                 variant="ghost"
@@ -64,7 +85,7 @@ export function PricingEditor({
       </CardHeader>
       {isOpen && (
         <CardContent className="pt-0 space-y-3">
-          {KARNAK_PRODUCTS.map((product) => (
+          {products.map((product) => (
             <div
               key={product.id}
               className="flex items-center justify-between gap-3"
@@ -0,0 +1,237 @@
+/**
+ * ProposalDialog — Generate a customer-facing proposal PDF from the breakdown.
+ *
+ * Collects customer and project details, picks a proposal template and
+ * whether to print line-item detail, then downloads the PDF rendered by
+ * POST /api/proposals/pdf.
+ */
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { ORGANIZATION_HEADER } from "@shared/const";
+import { trpc } from "@/lib/trpc";
+import { getActiveOrganizationId } from "@/lib/organization";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import type { BreakdownSaveState } from "@/lib/estimate-breakdown";
+
+interface ProposalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  systemName: string;
+  roofArea: number;
+  /** Serialized estimator state JSON — the scope of work is written from it */
+  estimatorState: string;
+  /** Current breakdown edits (enabled items, prices, tax/profit) */
+  breakdown: BreakdownSaveState;
+  /** Pre-fills the project name */
+  projectName?: string;
+}
+
+const DEFAULT_TEMPLATE = "default";
+
+export function ProposalDialog({
+  open,
+  onOpenChange,
+  systemName,
+  roofArea,
+  estimatorState,
+  breakdown,
+  projectName,
+}: ProposalDialogProps) {
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [customer, setCustomer] = useState({ name: "", company: "", address: "", phone: "", email: "" });
+  const [project, setProject] = useState({ name: "", address: "" });
+  const [showLineItems, setShowLineItems] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  const { data: templates } = trpc.proposals.templates.useQuery(undefined, {
+    enabled: open,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (open) setProject((prev) => ({ ...prev, name: prev.name || projectName || "" }));
+  }, [open, projectName]);
+
+  const canGenerate = customer.name.trim() !== "" && project.name.trim() !== "" && !generating;
+
+  const handleGenerate = async () => {
+    if (!canGenerate) return;
+    setGenerating(true);
+    try {
+      const organizationId = getActiveOrganizationId();
+      const response = await fetch("/api/proposals/pdf", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(organizationId === null ? {} : { [ORGANIZATION_HEADER]: String(organizationId) }),
+        },
+        credentials: "include",
+        body: JSON.stringify({
+          templateId: templateId === DEFAULT_TEMPLATE ? undefined : Number(templateId),
+          customer,
+          project,
+          systemName,
+          roofArea,
+          estimatorState,
+          breakdown,
+          showLineItems,
+        }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error ?? "Proposal generation failed");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${project.name.trim().replace(/[^a-z0-9]+/gi, "-") || "proposal"}-proposal.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success("Proposal downloaded");
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Proposal generation failed");
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Generate Proposal
+          </DialogTitle>
+          <DialogDescription>
+            A customer-facing PDF with scope of work, price and signature block.{" "}
+            <Link href="/proposal-templates" className="underline">
+              Edit templates
+            </Link>
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_TEMPLATE}>Default template</SelectItem>
+                {templates?.map((t) => (
+                  <SelectItem key={t.id} value={String(t.id)}>
+                    {t.name}
+                    {t.isDefault ? " (default)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="proposal-customer">Customer Name *</Label>
+              <Input
+                id="proposal-customer"
+                value={customer.name}
+                onChange={(e) => setCustomer({ ...customer, name: e.target.value })}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-company">Company</Label>
+              <Input
+                id="proposal-company"
+                value={customer.company}
+                onChange={(e) => setCustomer({ ...customer, company: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-phone">Phone</Label>
+              <Input
+                id="proposal-phone"
+                value={customer.phone}
+                onChange={(e) => setCustomer({ ...customer, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-email">Email</Label>
+              <Input
+                id="proposal-email"
+                type="email"
+                value={customer.email}
+                onChange={(e) => setCustomer({ ...customer, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-address">Mailing Address</Label>
+              <Input
+                id="proposal-address"
+                value={customer.address}
+                onChange={(e) => setCustomer({ ...customer, address: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="proposal-project">Project Name *</Label>
+              <Input
+                id="proposal-project"
+                value={project.name}
+                onChange={(e) => setProject({ ...project, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proposal-site">Project Address</Label>
+              <Input
+                id="proposal-site"
+                value={project.address}
+                onChange={(e) => setProject({ ...project, address: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3">
+            <div>
+              <Label htmlFor="proposal-line-items">Line-item detail</Label>
+              <p className="text-xs text-muted-foreground">Print every item, not just section totals</p>
+            </div>
+            <Switch id="proposal-line-items" checked={showLineItems} onCheckedChange={setShowLineItems} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleGenerate} disabled={!canGenerate} className="w-full">
+            {generating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <FileText className="h-4 w-4 mr-2" />}
+            Download Proposal PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
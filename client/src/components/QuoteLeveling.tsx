@@ -0,0 +1,202 @@
+/**
+ * QuoteLeveling — Side-by-side comparison of the prices each distributor
+ * returned on a quote request. The low price per product is highlighted and
+ * preselected; click another distributor's price to choose it instead.
+ * Admins apply the winning prices to the default price book.
+ */
+import { useMemo, useState } from "react";
+import { PriceImpactDialog } from "@/components/PriceImpactDialog";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@shared/estimating/karnak-data";
+import { levelQuote } from "@shared/estimating/quote-leveling";
+import { CheckCircle2, RefreshCw, Scale } from "lucide-react";
+import { toast } from "sonner";
+
+interface QuoteLevelingProps {
+  quoteId: number;
+  /** Admins may apply the winning prices */
+  canApply: boolean;
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+export function QuoteLeveling({ quoteId, canApply }: QuoteLevelingProps) {
+  const utils = trpc.useUtils();
+  const itemsQuery = trpc.pricing.quoteItems.useQuery({ quoteId });
+  const distributorsQuery = trpc.distributors.list.useQuery();
+  // Products where the user picked a distributor other than the low price
+  const [selections, setSelections] = useState<Record<string, number>>({});
+  const [impactProductIds, setImpactProductIds] = useState<string[] | null>(null);
+
+  const applyMutation = trpc.pricing.applyLeveling.useMutation({
+    onSuccess: (result) => {
+      utils.pricing.list.invalidate();
+      utils.pricing.quotes.invalidate();
+      toast.success(`${result.succeeded} winning prices applied to the price book`);
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} updates failed`);
+      }
+      setImpactProductIds(result.productIds);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+
+  const items = useMemo(
+    () =>
+      (itemsQuery.data || []).map((item) => ({
+        productId: item.productId,
+        name: item.name,
+        unit: item.unit,
+        quantity: item.quantity != null ? parseFloat(item.quantity) : null,
+        prices: item.prices.map((p) => ({ distributorId: p.distributorId, unitPrice: parseFloat(p.unitPrice) })),
+      })),
+    [itemsQuery.data],
+  );
+  const leveling = useMemo(() => levelQuote(items), [items]);
+  const distributorNames = useMemo(
+    () => new Map((distributorsQuery.data || []).map((d) => [d.id, d.branch ? `${d.name} — ${d.branch}` : d.name])),
+    [distributorsQuery.data],
+  );
+  const hasQuantities = items.some((item) => item.quantity !== null);
+
+  const winnerOf = (productId: string) => selections[productId] ?? leveling.lowest[productId]?.distributorId;
+
+  if (itemsQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+        <RefreshCw className="w-4 h-4 animate-spin mr-2" />
+        Loading quote lines...
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <p className="py-4 text-sm text-muted-foreground">
+        This quote request has no line items. Quotes created before line items were tracked can't be leveled.
+      </p>
+    );
+  }
+
+  if (leveling.distributorIds.length === 0) {
+    return (
+      <p className="py-4 text-sm text-muted-foreground">
+        No distributor responses yet. Import each distributor's returned CSV with "Import Pricing" to compare them
+        here.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+              <th className="text-left px-3 py-2">Product</th>
+              <th className="text-right px-3 py-2">Qty</th>
+              {leveling.distributorIds.map((id) => (
+                <th key={id} className="text-right px-3 py-2 whitespace-nowrap">
+                  {distributorNames.get(id) ?? `Distributor #${id}`}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => {
+              const low = leveling.lowest[item.productId];
+              const winner = winnerOf(item.productId);
+              return (
+                <tr key={item.productId} className="border-t border-border">
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-foreground">{item.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono">{item.productId}</div>
+                  </td>
+                  <td className="px-3 py-2 text-right font-mono-nums text-muted-foreground whitespace-nowrap">
+                    {item.quantity !== null ? `${item.quantity} ${item.unit}` : "—"}
+                  </td>
+                  {leveling.distributorIds.map((id) => {
+                    const price = item.prices.find((p) => p.distributorId === id);
+                    if (!price) {
+                      return (
+                        <td key={id} className="px-3 py-2 text-right text-muted-foreground/60">
+                          —
+                        </td>
+                      );
+                    }
+                    const isLow = low?.unitPrice === price.unitPrice;
+                    const isWinner = winner === id;
+                    return (
+                      <td key={id} className="px-1 py-1 text-right">
+                        <button
+                          type="button"
+                          onClick={() => setSelections((prev) => ({ ...prev, [item.productId]: id }))}
+                          className={`w-full rounded-md px-2 py-1 text-right font-mono-nums transition-colors ${
+                            isWinner ? "bg-success/15 ring-1 ring-success/40" : "hover:bg-muted"
+                          } ${isLow ? "text-success font-semibold" : "text-foreground"}`}
+                          title="Use this distributor's price"
+                        >
+                          {formatPrice(price.unitPrice)}
+                          {item.quantity !== null && (
+                            <div className="text-xs font-normal text-muted-foreground">
+                              {formatCurrency(item.quantity * price.unitPrice)}
+                            </div>
+                          )}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+          <tfoot>
+            <tr className="border-t-2 border-border font-semibold">
+              <td className="px-3 py-2 text-foreground">{hasQuantities ? "Order Total" : "Sum of Unit Prices"}</td>
+              <td />
+              {leveling.distributorIds.map((id) => {
+                const total = leveling.totals[id];
+                return (
+                  <td key={id} className="px-3 py-2 text-right font-mono-nums text-foreground">
+                    {formatCurrency(total.total)}
+                    {total.missing > 0 && (
+                      <div className="text-xs font-normal text-orange">{total.missing} not quoted</div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {canApply && (
+        <div className="flex items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            <Scale className="inline w-3.5 h-3.5 mr-1" />
+            The low price is chosen for each product unless you pick another distributor.
+          </p>
+          <Button
+            size="sm"
+            onClick={() =>
+              applyMutation.mutate({
+                quoteId,
+                selections: Object.entries(selections).map(([productId, distributorId]) => ({
+                  productId,
+                  distributorId,
+                })),
+              })
+            }
+            disabled={applyMutation.isPending}
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            {applyMutation.isPending ? "Applying..." : "Apply Winning Prices"}
+          </Button>
+        </div>
+      )}
+
+      <PriceImpactDialog productIds={impactProductIds} onClose={() => setImpactProductIds(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * RepriceDialog — A loaded estimate keeps the prices it was saved with.
+ * "Reprice" compares those locked prices with current pricing, shows each
+ * line's per-unit change and its impact on the estimate, and applies only
+ * the changes you accept.
+ */
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCurrency } from "@shared/estimating/karnak-data";
+import { buildRepriceReport } from "@shared/estimating/reprice";
+import { Lock, RefreshCw, TrendingDown, TrendingUp } from "lucide-react";
+
+interface RepriceDialogProps {
+  /** Serialized estimator state, with the locked prices */
+  getEstimateData: () => string;
+  /** Current prices keyed by local product ID */
+  currentPrices: Map<string, number>;
+  /** Apply the accepted prices, keyed by local product ID */
+  onAccept: (prices: Record<string, number>) => void;
+}
+
+const formatDelta = (value: number) => `${value >= 0 ? "+" : "−"}${formatCurrency(Math.abs(value))}`;
+
+export function RepriceDialog({ getEstimateData, currentPrices, onAccept }: RepriceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [declined, setDeclined] = useState<Set<string>>(new Set());
+
+  // Computed when the dialog opens, from the estimate as it stands
+  const report = useMemo(
+    () => (open ? buildRepriceReport(getEstimateData(), currentPrices) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [open, currentPrices],
+  );
+  const accepted = report?.lines.filter((line) => !declined.has(line.productId)) ?? [];
+  const acceptedImpact = accepted.reduce((sum, line) => sum + line.impact, 0);
+
+  const toggleLine = (productId: string) => {
+    setDeclined((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const changeOpen = (next: boolean) => {
+    setOpen(next);
+    setDeclined(new Set());
+  };
+
+  const accept = () => {
+    onAccept(Object.fromEntries(accepted.map((line) => [line.productId, line.currentPrice])));
+    changeOpen(false);
+  };
+
+  return (
+    // Sits inside clickable card headers — don't toggle them (dialog events bubble here too)
+    <div onClick={(e) => e.stopPropagation()}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => changeOpen(true)}
+        className="h-8 text-xs"
+        title="Prices are locked to the saved estimate — compare them with current pricing"
+      >
+        <Lock className="w-3 h-3" />
+        Reprice
+      </Button>
+
+      <Dialog open={open} onOpenChange={changeOpen}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <RefreshCw className="w-5 h-5 text-cyan" />
+              Reprice Against Current Pricing
+            </DialogTitle>
+            <DialogDescription>
+              This estimate keeps the prices it was saved with. Accept the lines you want to move to today's price.
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && report.lines.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              Every material is already at the current price.
+            </p>
+          ) : (
+            report && (
+              <div className="max-h-[50vh] overflow-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                      <th className="w-8 px-3 py-2" />
+                      <th className="text-left px-3 py-2">Material</th>
+                      <th className="text-right px-3 py-2">Qty</th>
+                      <th className="text-right px-3 py-2">Locked</th>
+                      <th className="text-right px-3 py-2">Current</th>
+                      <th className="text-right px-3 py-2">Impact</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.lines.map((line) => {
+                      const included = !declined.has(line.productId);
+                      const isIncrease = line.delta > 0;
+                      return (
+                        <tr key={line.productId} className={`border-t border-border ${included ? "" : "opacity-50"}`}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={included}
+                              onChange={() => toggleLine(line.productId)}
+                              title={included ? "Keep the locked price" : "Accept the current price"}
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-foreground">{line.name}</td>
+                          <td className="px-3 py-2 text-right font-mono-nums text-muted-foreground whitespace-nowrap">
+                            {line.quantity} {line.unit}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono-nums text-muted-foreground">
+                            {formatCurrency(line.lockedPrice)}
+                          </td>
+                          <td className="px-3 py-2 text-right font-mono-nums text-foreground">
+                            {formatCurrency(line.currentPrice)}
+                            <div className={`text-xs ${isIncrease ? "text-destructive" : "text-success"}`}>
+                              {formatDelta(line.delta)}
+                            </div>
+                          </td>
+                          <td
+                            className={`px-3 py-2 text-right font-mono-nums font-medium ${
+                              isIncrease ? "text-destructive" : "text-success"
+                            }`}
+                          >
+                            <span className="inline-flex items-center gap-1">
+                              {isIncrease ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                              {formatDelta(line.impact)}
+                            </span>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                  <tfoot>
+                    <tr className="border-t-2 border-border font-semibold">
+                      <td />
+                      <td className="px-3 py-2 text-foreground" colSpan={4}>
+                        Total impact on materials ({formatCurrency(report.lockedTotal)} locked)
+                      </td>
+                      <td
+                        className={`px-3 py-2 text-right font-mono-nums ${
+                          report.totalImpact > 0 ? "text-destructive" : "text-success"
+                        }`}
+                      >
+                        {formatDelta(report.totalImpact)}
+                      </td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            )
+          )}
+
+          <DialogFooter className="items-center sm:justify-between">
+            <span className="text-sm text-muted-foreground">
+              {accepted.length > 0 && `Accepting ${accepted.length} changes: ${formatDelta(acceptedImpact)}`}
+            </span>
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => changeOpen(false)}>
+                Keep Locked Prices
+              </Button>
+              <Button onClick={accept} disabled={accepted.length === 0}>
+                Accept {accepted.length} Changes
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,11 @@
  * RoofAdditions — Universal Roof Penetrations & Additions Component
  *
  * Design: Collapsible card with categorized penetration types
- * and a Sheet Metal Flashing section with metal type / gauge selection.
+ * and a Sheet Metal Flashing section where each flashing line picks its own
+ * metal, gauge, finish color and developed width. Custom profiles drawn in
+ * the FlashingProfileBuilder are listed with the standard ones. Flashing is
+ * nested on the chosen sheet or coil stock, and the summary shows the stock
+ * to buy and its drop waste.
  * Users add penetrations by quantity and flashing by linear feet,
  * and materials auto-calculate.
  * Integrates into any estimator via props.
@@ -17,14 +21,28 @@ import {
   formatLaborTime,
   type PenetrationLineItem,
   type PenetrationEstimate,
-} from "@/lib/penetrations-data";
+} from "@shared/estimating/penetrations-data";
 import {
+  DEFAULT_STOCK_ID,
   METAL_TYPES,
-  FLASHING_PROFILES,
   calculateSheetMetalEstimate,
   getDefaultSheetMetalState,
+  getMetalType,
+  getSheetMetalProfiles,
+  newSheetMetalLine,
   type SheetMetalFlashingState,
-} from "@/lib/sheet-metal-flashing-data";
+  type SheetMetalLine,
+} from "@shared/estimating/sheet-metal-flashing-data";
+import {
+  DEFAULT_FABRICATION_RATES,
+  STOCK_OPTIONS,
+  getDevelopedWidth,
+  getStockOption,
+  newCustomProfile,
+  type CustomFlashingProfile,
+  type FabricationRates,
+} from "@shared/estimating/flashing-profile-builder";
+import { FlashingProfileBuilder } from "./FlashingProfileBuilder";
 import {
   ChevronDown,
   ChevronUp,
@@ -47,6 +65,8 @@ import {
   Clock,
   Package,
   Layers,
+  Pencil,
+  Trash2,
 } from "lucide-react";
 
 // Icon mapping for penetration types
@@ -79,13 +99,17 @@ export interface RoofAdditionsHandle {
 
 interface RoofAdditionsProps {
   onEstimateChange?: (estimate: PenetrationEstimate) => void;
+  /** Estimating system whose products penetration materials are priced from */
+  system?: string;
+  /** Current prices keyed by local product ID (falls back to product defaults) */
+  prices?: Record<string, number>;
   accentColor?: string; // tailwind color class e.g. "blue" "red"
   /** Initial state for restoring from a saved estimate */
   initialState?: RoofAdditionsSavedState;
 }
 
 const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
-  function RoofAdditions({ onEstimateChange, accentColor = "blue", initialState }, ref) {
+  function RoofAdditions({ onEstimateChange, system, prices, accentColor = "blue", initialState }, ref) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [lineItems, setLineItems] = useState<Record<string, number>>(
     initialState?.lineItems ?? {}
@@ -97,6 +121,7 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
     initialState?.sheetMetal ?? getDefaultSheetMetalState()
   );
   const [sheetMetalExpanded, setSheetMetalExpanded] = useState(true);
+  const [editingProfile, setEditingProfile] = useState<CustomFlashingProfile | null>(null);
 
   // Expose imperative handle for save/load
   useImperativeHandle(ref, () => ({
@@ -124,8 +149,8 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
   }, [lineItems]);
 
   const penetrationEstimate = useMemo(() => {
-    return calculatePenetrationEstimate(activeItems);
-  }, [activeItems]);
+    return calculatePenetrationEstimate(activeItems, system, prices);
+  }, [activeItems, system, prices]);
 
   const sheetMetalEstimate = useMemo(() => {
     return calculateSheetMetalEstimate(sheetMetalState);
@@ -143,13 +168,12 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
         flashingId: item.flashingId,
         name: item.name,
         quantity: item.quantity,
+        metal: item.metal,
         unitPrice: item.unitPrice,
         totalCost: item.totalCost,
       })),
       sheetMetalCost: sheetMetalEstimate.totalMaterialCost,
       sheetMetalLaborMinutes: sheetMetalEstimate.totalLaborMinutes,
-      sheetMetalType: sheetMetalEstimate.metalType,
-      sheetMetalGauge: sheetMetalEstimate.gauge,
     };
   }, [penetrationEstimate, sheetMetalEstimate]);
 
@@ -182,30 +206,67 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
   }, []);
 
   // Sheet metal flashing helpers
-  const updateFlashingQuantity = useCallback((flashingId: string, delta: number) => {
+  const setFlashingQuantity = useCallback((flashingId: string, value: number | ((current: number) => number)) => {
     setSheetMetalState((prev) => {
-      const current = prev.lineItems[flashingId] || 0;
-      const next = Math.max(0, current + delta);
+      const line = prev.lineItems[flashingId];
+      const current = line?.linearFeet ?? 0;
+      const next = Math.max(0, typeof value === "function" ? value(current) : value);
       const newItems = { ...prev.lineItems };
       if (next === 0) {
         delete newItems[flashingId];
       } else {
-        newItems[flashingId] = next;
+        // New lines start with the default metal; existing lines keep theirs
+        newItems[flashingId] = line ? { ...line, linearFeet: next } : newSheetMetalLine(prev, flashingId, next);
       }
       return { ...prev, lineItems: newItems };
     });
   }, []);
 
-  const setFlashingQuantity = useCallback((flashingId: string, value: number) => {
+  const updateFlashingQuantity = useCallback(
+    (flashingId: string, delta: number) => setFlashingQuantity(flashingId, (current) => current + delta),
+    [setFlashingQuantity]
+  );
+
+  const updateFlashingLine = useCallback((flashingId: string, changes: Partial<SheetMetalLine>) => {
     setSheetMetalState((prev) => {
-      const next = Math.max(0, value);
-      const newItems = { ...prev.lineItems };
-      if (next === 0) {
-        delete newItems[flashingId];
-      } else {
-        newItems[flashingId] = next;
+      const line = prev.lineItems[flashingId];
+      if (!line) return prev;
+      const updated = { ...line, ...changes };
+      if (changes.metalTypeId && changes.metalTypeId !== line.metalTypeId) {
+        const metal = getMetalType(changes.metalTypeId);
+        updated.gaugeId = metal?.defaultGaugeId ?? line.gaugeId;
+        updated.color = metal?.finishColors?.[0] ?? "";
       }
-      return { ...prev, lineItems: newItems };
+      return { ...prev, lineItems: { ...prev.lineItems, [flashingId]: updated } };
+    });
+  }, []);
+
+  const saveCustomProfile = useCallback((profile: CustomFlashingProfile, fabricationRates: FabricationRates) => {
+    setSheetMetalState((prev) => {
+      const customProfiles = prev.customProfiles ?? [];
+      const exists = customProfiles.some((p) => p.id === profile.id);
+      const line = prev.lineItems[profile.id];
+      return {
+        ...prev,
+        customProfiles: exists ? customProfiles.map((p) => (p.id === profile.id ? profile : p)) : [...customProfiles, profile],
+        fabricationRates,
+        // The line's developed width follows the profile's legs
+        lineItems: line
+          ? { ...prev.lineItems, [profile.id]: { ...line, developedWidth: getDevelopedWidth(profile) } }
+          : prev.lineItems,
+      };
+    });
+    setEditingProfile(null);
+  }, []);
+
+  const removeCustomProfile = useCallback((profileId: string) => {
+    setSheetMetalState((prev) => {
+      const { [profileId]: _, ...lineItems } = prev.lineItems;
+      return {
+        ...prev,
+        customProfiles: (prev.customProfiles ?? []).filter((p) => p.id !== profileId),
+        lineItems,
+      };
     });
   }, []);
 
@@ -224,6 +285,10 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
     setSheetMetalState((prev) => ({ ...prev, gaugeId }));
   }, []);
 
+  const setStock = useCallback((stockId: string) => {
+    setSheetMetalState((prev) => ({ ...prev, stockId }));
+  }, []);
+
   const resetAll = useCallback(() => {
     setLineItems({});
     setSheetMetalState(getDefaultSheetMetalState());
@@ -231,11 +296,15 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
 
   const totalPenetrations = activeItems.reduce((sum, i) => sum + i.quantity, 0);
   const totalFlashingLF = Object.values(sheetMetalState.lineItems).reduce(
-    (sum, lf) => sum + lf,
+    (sum, line) => sum + line.linearFeet,
     0
   );
   const totalItems = totalPenetrations + (totalFlashingLF > 0 ? 1 : 0);
 
+  const flashingProfiles = useMemo(() => getSheetMetalProfiles(sheetMetalState), [sheetMetalState]);
+  const customProfiles = sheetMetalState.customProfiles ?? [];
+  const editingLine = editingProfile ? sheetMetalState.lineItems[editingProfile.id] : undefined;
+
   const selectedMetal = METAL_TYPES.find((m) => m.id === sheetMetalState.metalTypeId);
   const selectedGauge = selectedMetal?.gauges.find((g) => g.id === sheetMetalState.gaugeId);
 
@@ -412,9 +481,9 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                   <div className={`p-4 rounded-lg border border-${accentColor}-100 bg-${accentColor}-50/20`}>
                     <div className="flex items-center gap-2 mb-3">
                       <Layers className={`w-4 h-4 text-${accentColor}-600`} />
-                      <span className="text-sm font-semibold text-foreground">Metal Selection</span>
+                      <span className="text-sm font-semibold text-foreground">Default Metal</span>
                     </div>
-                    <div className="grid grid-cols-2 gap-3">
+                    <div className="grid grid-cols-3 gap-3">
                       {/* Metal Type */}
                       <div>
                         <label className="block text-xs font-medium text-muted-foreground mb-1">
@@ -453,30 +522,54 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                           ))}
                         </select>
                       </div>
+                      {/* Stock */}
+                      <div>
+                        <label className="block text-xs font-medium text-muted-foreground mb-1">
+                          Stock
+                        </label>
+                        <select
+                          value={sheetMetalState.stockId ?? DEFAULT_STOCK_ID}
+                          onChange={(e) => setStock(e.target.value)}
+                          className="w-full h-9 text-sm border border-border rounded-md bg-card px-2 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                          title="Sheet or coil standard flashing is cut from"
+                        >
+                          {STOCK_OPTIONS.map((stock) => (
+                            <option key={stock.id} value={stock.id}>
+                              {stock.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
                     </div>
                     <p className="text-xs text-slate-muted mt-2">
                       {selectedMetal?.name} {selectedGauge?.label} — Base: ${selectedMetal?.basePricePerLF.toFixed(2)}/LF
                       {selectedGauge && selectedGauge.priceMultiplier !== 1
                         ? ` × ${selectedGauge.priceMultiplier.toFixed(2)} gauge factor`
                         : ""}
+                      . New flashing lines start with this metal; change any line below. Priced from the stock
+                      the flashing nests on, drop included.
                     </p>
                   </div>
 
                   {/* Flashing Profile Items */}
                   <div className="space-y-2">
-                    {FLASHING_PROFILES.map((profile) => {
-                      const qty = sheetMetalState.lineItems[profile.id] || 0;
+                    {flashingProfiles.map((profile) => {
+                      const custom = customProfiles.find((p) => p.id === profile.id);
+                      const line = sheetMetalState.lineItems[profile.id];
+                      const qty = line?.linearFeet ?? 0;
                       const isActive = qty > 0;
+                      const lineMetal = line ? getMetalType(line.metalTypeId) : undefined;
 
                       return (
                         <div
                           key={profile.id}
-                          className={`flex items-center justify-between p-3 rounded-lg border transition-all ${
+                          className={`p-3 rounded-lg border transition-all ${
                             isActive
                               ? `border-${accentColor}-200 bg-${accentColor}-50/30`
                               : "border-gray-100 bg-muted/30/50 hover:bg-muted/30"
                           }`}
                         >
+                        <div className="flex items-center justify-between">
                           <div className="flex items-center gap-3 min-w-0 flex-1">
                             <Layers
                               className={`w-4 h-4 shrink-0 ${
@@ -495,6 +588,24 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                                 {profile.description}
                               </p>
                             </div>
+                            {custom && (
+                              <div className="flex items-center gap-0.5 shrink-0">
+                                <button
+                                  onClick={() => setEditingProfile(custom)}
+                                  className="w-6 h-6 flex items-center justify-center rounded-md text-muted-foreground hover:bg-muted"
+                                  title="Edit profile"
+                                >
+                                  <Pencil className="w-3 h-3" />
+                                </button>
+                                <button
+                                  onClick={() => removeCustomProfile(custom.id)}
+                                  className="w-6 h-6 flex items-center justify-center rounded-md text-muted-foreground hover:bg-muted hover:text-destructive"
+                                  title="Remove profile"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              </div>
+                            )}
                           </div>
 
                           {/* LF Input Controls */}
@@ -540,8 +651,78 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                             </button>
                           </div>
                         </div>
+
+                        {/* Per-line metal, gauge, color and developed width */}
+                        {line && (
+                          <div className="grid grid-cols-4 gap-2 mt-2 pl-7">
+                            <select
+                              value={line.metalTypeId}
+                              onChange={(e) => updateFlashingLine(profile.id, { metalTypeId: e.target.value })}
+                              className="h-7 text-xs border border-border rounded-md bg-card px-1.5 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                              title="Metal type"
+                            >
+                              {METAL_TYPES.map((metal) => (
+                                <option key={metal.id} value={metal.id}>
+                                  {metal.name}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={line.gaugeId}
+                              onChange={(e) => updateFlashingLine(profile.id, { gaugeId: e.target.value })}
+                              className="h-7 text-xs border border-border rounded-md bg-card px-1.5 focus:outline-none focus:ring-1 focus:ring-blue-400"
+                              title="Gauge / thickness"
+                            >
+                              {lineMetal?.gauges.map((gauge) => (
+                                <option key={gauge.id} value={gauge.id}>
+                                  {gauge.label}
+                                </option>
+                              ))}
+                            </select>
+                            <select
+                              value={line.color}
+                              onChange={(e) => updateFlashingLine(profile.id, { color: e.target.value })}
+                              disabled={!lineMetal?.finishColors}
+                              className="h-7 text-xs border border-border rounded-md bg-card px-1.5 focus:outline-none focus:ring-1 focus:ring-blue-400 disabled:opacity-50"
+                              title="Finish color"
+                            >
+                              {!lineMetal?.finishColors?.includes(line.color) && (
+                                <option value={line.color}>{line.color || "Mill finish"}</option>
+                              )}
+                              {lineMetal?.finishColors?.map((color) => (
+                                <option key={color} value={color}>
+                                  {color}
+                                </option>
+                              ))}
+                            </select>
+                            <div className="relative">
+                              <input
+                                type="number"
+                                min={1}
+                                value={(custom ? getDevelopedWidth(custom) : line.developedWidth) || ""}
+                                readOnly={!!custom}
+                                onChange={(e) =>
+                                  updateFlashingLine(profile.id, { developedWidth: parseFloat(e.target.value) || 0 })
+                                }
+                                className="w-full h-7 text-xs text-right border border-border rounded-md bg-card pr-9 focus:outline-none focus:ring-1 focus:ring-blue-400 read-only:bg-muted/50"
+                                title={custom ? "Developed width from the profile's legs" : "Developed width (girth)"}
+                              />
+                              <span className="absolute right-1.5 top-1/2 -translate-y-1/2 text-[10px] text-slate-muted pointer-events-none">
+                                in. DW
+                              </span>
+                            </div>
+                          </div>
+                        )}
+                        </div>
                       );
                     })}
+                    <button
+                      onClick={() => setEditingProfile(newCustomProfile(`custom-${Date.now()}`))}
+                      className={`w-full p-2.5 flex items-center justify-center gap-2 rounded-lg border border-dashed border-border text-sm text-muted-foreground hover:border-${accentColor}-300 hover:text-${accentColor}-600 transition-colors`}
+                    >
+                      <Plus className="w-4 h-4" />
+                      Build Custom Profile
+                    </button>
                   </div>
                 </div>
               )}
@@ -574,18 +755,7 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                 {totalPenetrations > 0 && (
                   <div className="space-y-1.5 mb-3">
                     {activeItems.map((item) => {
-                      const pen = PENETRATION_TYPES.find(
-                        (p) => p.id === item.penetrationId
-                      );
-                      const itemCost = pen
-                        ? pen.materials.reduce(
-                            (sum, m) =>
-                              sum +
-                              Math.ceil(m.qtyPerUnit * item.quantity) *
-                                m.unitPrice,
-                            0
-                          )
-                        : 0;
+                      const itemCost = calculatePenetrationEstimate([item], system, prices).totalMaterialCost;
 
                       return (
                         <div
@@ -612,13 +782,13 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                     {totalPenetrations > 0 && (
                       <div className="border-t border-border pt-2 mt-2">
                         <p className="text-xs font-bold uppercase tracking-wider text-slate-muted mb-1.5">
-                          Sheet Metal Flashing ({selectedMetal?.name} {selectedGauge?.label})
+                          Sheet Metal Flashing
                         </p>
                       </div>
                     )}
                     {!totalPenetrations && (
                       <p className="text-xs font-bold uppercase tracking-wider text-slate-muted mb-1.5">
-                        Sheet Metal Flashing ({selectedMetal?.name} {selectedGauge?.label})
+                        Sheet Metal Flashing
                       </p>
                     )}
                     {sheetMetalEstimate.lineItems.map((item) => (
@@ -628,6 +798,7 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                       >
                         <span className="text-muted-foreground">
                           {item.quantity.toLocaleString()} LF {item.name}
+                          <span className="text-xs text-slate-muted"> · {item.metal}</span>
                         </span>
                         <span className="text-foreground font-medium">
                           ${item.totalCost.toLocaleString("en-US", {
@@ -636,6 +807,45 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                         </span>
                       </div>
                     ))}
+
+                    {/* Stock to buy, by metal / gauge / color */}
+                    <p className="text-xs font-bold uppercase tracking-wider text-slate-muted pt-2">
+                      Metal Summary
+                    </p>
+                    {sheetMetalEstimate.materials.map((material) => {
+                      const { nest } = material;
+                      const savings = material.stockCost - material.bestStockCost;
+                      return (
+                        <div
+                          key={`${material.metalTypeId}|${material.gaugeId}|${material.color}|${nest.stockId}`}
+                          className="text-sm"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">
+                              {material.metal}
+                              <span className="text-xs text-slate-muted">
+                                {" "}· {material.linearFeet.toLocaleString()} LF ·{" "}
+                                {nest.kind === "sheet"
+                                  ? `${nest.sheets} × ${nest.stockLabel}`
+                                  : `${nest.coilFeet.toLocaleString()} ft of ${nest.stockLabel}`}
+                              </span>
+                            </span>
+                            <span className="text-foreground font-medium">
+                              ${material.totalCost.toLocaleString("en-US", {
+                                minimumFractionDigits: 2,
+                              })}
+                            </span>
+                          </div>
+                          <p className="text-xs text-slate-muted">
+                            {nest.stockSqFt.toLocaleString()} sq. ft. bought, {material.squareFeet.toLocaleString()} installed
+                            · {nest.dropPct}% drop
+                            {nest.oversizePieces > 0 && ` · ${nest.oversizePieces} pieces wider than the stock`}
+                            {savings >= 0.01 &&
+                              ` · ${getStockOption(material.bestStockId).label} would save $${savings.toFixed(2)}`}
+                          </p>
+                        </div>
+                      );
+                    })}
                   </div>
                 )}
 
@@ -705,7 +915,7 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                           <tr>
                             <td colSpan={5} className="pt-3 pb-1">
                               <p className="text-xs font-bold uppercase tracking-wider text-slate-muted">
-                                Sheet Metal Flashing — {selectedMetal?.name} {selectedGauge?.label}
+                                Sheet Metal Flashing
                               </p>
                             </td>
                           </tr>
@@ -718,7 +928,8 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
                                   {item.name}
                                 </p>
                                 <p className="text-xs text-slate-muted">
-                                  {selectedMetal?.name} {selectedGauge?.label}
+                                  {item.metal} · {item.developedWidth}" developed width
+                                  {item.bendCount !== undefined && ` · ${item.bendCount} bends, shop fabricated`}
                                 </p>
                               </div>
                             </td>
@@ -761,6 +972,15 @@ const RoofAdditions = forwardRef<RoofAdditionsHandle, RoofAdditionsProps>(
           )}
         </div>
       )}
+
+      <FlashingProfileBuilder
+        profile={editingProfile}
+        metalTypeId={editingLine?.metalTypeId ?? sheetMetalState.metalTypeId}
+        gaugeId={editingLine?.gaugeId ?? sheetMetalState.gaugeId}
+        rates={sheetMetalState.fabricationRates ?? DEFAULT_FABRICATION_RATES}
+        onSave={saveCustomProfile}
+        onClose={() => setEditingProfile(null)}
+      />
     </div>
   );
 });
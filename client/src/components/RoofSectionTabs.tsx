@@ -0,0 +1,105 @@
+/**
+ * RoofSectionTabs — Switch between, add, rename and remove roof sections
+ * Design: Compact card with pill tabs; the assembly and measurement cards
+ *         below always edit the active section
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { LayoutGrid, Plus, Trash2 } from "lucide-react";
+import type { RoofSection } from "@shared/estimating/tpo-data";
+
+interface RoofSectionTabsProps {
+  sections: RoofSection[];
+  activeSectionId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+}
+
+export function RoofSectionTabs({
+  sections,
+  activeSectionId,
+  onSelect,
+  onAdd,
+  onRemove,
+  onRename,
+}: RoofSectionTabsProps) {
+  const active = sections.find((s) => s.id === activeSectionId) ?? sections[0];
+
+  return (
+    <Card className="border-border shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <LayoutGrid className="w-5 h-5 text-cyan" />
+            Roof Sections
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={onAdd} className="gap-1 h-8">
+            <Plus className="w-3.5 h-3.5" />
+            Add Section
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Each section has its own assembly and measurements; materials are
+          combined into one order list
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {sections.map((section) => {
+            const isActive = section.id === active.id;
+            return (
+              <button
+                key={section.id}
+                type="button"
+                onClick={() => onSelect(section.id)}
+                className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${
+                  isActive
+                    ? "bg-cyan text-white border-cyan"
+                    : "bg-card text-muted-foreground border-border hover:text-foreground"
+                }`}
+              >
+                {section.name || "Untitled"}
+                {section.measurements.roofArea > 0 && (
+                  <span className={isActive ? "text-white/80" : "text-muted-foreground"}>
+                    {" · "}
+                    {section.measurements.roofArea.toLocaleString()} sq ft
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1.5">
+            <Label htmlFor="section-name" className="text-xs text-muted-foreground">
+              Section Name
+            </Label>
+            <Input
+              id="section-name"
+              value={active.name}
+              onChange={(e) => onRename(active.id, e.target.value)}
+              placeholder="e.g. Low Roof — Warehouse"
+              className="h-9 text-sm"
+            />
+          </div>
+          {sections.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onRemove(active.id)}
+              className="h-9 text-muted-foreground hover:text-destructive"
+              title="Remove section"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
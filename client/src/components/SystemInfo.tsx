@@ -4,37 +4,55 @@
  */
 
 import { Info } from "lucide-react";
+import { KARNAK_METAL_KYNAR_SYSTEM, type CoatingSystem } from "@shared/estimating/karnak-data";
 
-export function SystemInfo() {
+interface SystemInfoProps {
+  system?: CoatingSystem;
+}
+
+/** First product name used in the given application step */
+function productForStep(system: CoatingSystem, step: string): string {
+  return system.products.find((p) => p.step === step)?.name ?? "—";
+}
+
+export function SystemInfo({ system = KARNAK_METAL_KYNAR_SYSTEM }: SystemInfoProps) {
   return (
     <div className="mt-12 p-6 bg-muted/50 rounded-xl border border-border">
       <div className="flex items-start gap-3">
         <Info className="w-5 h-5 text-muted-foreground mt-0.5 shrink-0" />
         <div className="space-y-3 text-sm text-muted-foreground">
           <p className="font-heading font-semibold text-foreground text-base">
-            System Reference: METAL-KYNAR 702-404-501-210915.1
-          </p>
-          <p>
-            <strong>White Reflective Coating System</strong> for metal roofs with
-            weathered Kynar® finish. This estimator uses coverage rates from the
-            official Karnak application guidelines (Section 2.9).
+            System Reference: {system.specReference}
           </p>
+          {system.id === KARNAK_METAL_KYNAR_SYSTEM.id ? (
+            <p>
+              <strong>White Reflective Coating System</strong> for metal roofs with
+              weathered Kynar® finish. This estimator uses coverage rates from the
+              official Karnak application guidelines (Section 2.9).
+            </p>
+          ) : (
+            <p>
+              <strong>{system.name}</strong>. Base and finish coat coverage is
+              derived from the dry film thickness per coat and the coating's
+              volume solids; the selected warranty term sets the number of coats.
+            </p>
+          )}
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-8 gap-y-2 pt-2">
             <div>
               <span className="font-semibold text-foreground">Substrate:</span>{" "}
-              Metal – Kynar® Finish
+              {system.substrate}
             </div>
             <div>
               <span className="font-semibold text-foreground">Mastic:</span>{" "}
-              505MS Karna-Flex WB
+              {productForStep(system, "Horizontal Seam Sealing")}
             </div>
             <div>
               <span className="font-semibold text-foreground">Base Coat:</span>{" "}
-              404 Corrosion Proof
+              {productForStep(system, "Base Coat")}
             </div>
             <div>
               <span className="font-semibold text-foreground">Finish Coat:</span>{" "}
-              501 Elasto-Brite White
+              {productForStep(system, "Finish Coat")}
             </div>
           </div>
           <p className="text-xs pt-2 border-t border-border/60">
@@ -42,12 +60,12 @@ export function SystemInfo() {
             vary depending on roof surface irregularity, porosity, measurements,
             and applicator installation. Contact{" "}
             <a
-              href="https://www.karnakcorp.com"
+              href={system.website}
               target="_blank"
               rel="noopener noreferrer"
               className="text-cyan hover:underline font-medium"
             >
-              karnakcorp.com
+              {system.website.replace("https://www.", "")}
             </a>{" "}
             for detailed product specifications.
           </p>
@@ -17,7 +17,8 @@ import {
   ChevronUp,
 } from "lucide-react";
 import { useState } from "react";
-import type { TPOLaborEquipmentState } from "@/lib/tpo-labor-equipment-data";
+import { toDetailHours } from "@shared/estimating/labor-equipment-data";
+import type { TPOLaborEquipmentState } from "@shared/estimating/tpo-labor-equipment-data";
 
 interface TPOLaborEquipmentSectionProps {
   laborEquipment: TPOLaborEquipmentState;
@@ -32,6 +33,10 @@ interface TPOLaborEquipmentSectionProps {
     value: number | boolean
   ) => void;
   resetLaborEquipment: () => void;
+  /** Penetration and sheet metal install time, shown as the detail labor hours */
+  detailLaborMinutes?: number;
+  /** Membrane seam LF from the roll layout, shown for seam probing */
+  seamLF?: number;
   accentColor?: "blue" | "emerald";
 }
 
@@ -40,6 +45,8 @@ export function TPOLaborEquipmentSection({
   updateLaborItem,
   updateEquipmentItem,
   resetLaborEquipment,
+  detailLaborMinutes = 0,
+  seamLF = 0,
   accentColor = "blue",
 }: TPOLaborEquipmentSectionProps) {
   const [isOpen, setIsOpen] = useState(true);
@@ -149,9 +156,9 @@ export function TPOLaborEquipmentSection({
                         <label className="text-xs text-muted-foreground block mb-1">
                           {item.rateType === "per_sqft"
                             ? "Rate ($/sq. ft.)"
-                            : item.rateType === "per_hour"
+                            : item.rateType === "per_hour" || item.rateType === "per_detail_hour"
                               ? "Rate ($/hr)"
-                              : item.rateType === "per_lf"
+                              : item.rateType === "per_lf" || item.rateType === "per_seam_lf"
                                 ? "Rate ($/LF)"
                                 : "Amount ($)"}
                         </label>
@@ -161,7 +168,11 @@ export function TPOLaborEquipmentSection({
                           </span>
                           <Input
                             type="number"
-                            step={item.rateType === "per_sqft" || item.rateType === "per_lf" ? "0.01" : "1"}
+                            step={
+                              item.rateType === "per_sqft" || item.rateType === "per_lf" || item.rateType === "per_seam_lf"
+                                ? "0.01"
+                                : "1"
+                            }
                             min="0"
                             value={item.rate}
                             onChange={(e) =>
@@ -177,6 +188,30 @@ export function TPOLaborEquipmentSection({
                       </div>
 
                       {/* Quantity (only for per_hour) */}
+                      {/* Detail hours come from Roof Additions */}
+                      {item.rateType === "per_detail_hour" && (
+                        <div className="w-24">
+                          <label className="text-xs text-muted-foreground block mb-1">
+                            Detail Hours
+                          </label>
+                          <p className="h-8 flex items-center justify-end text-sm tabular-nums text-foreground">
+                            {toDetailHours(detailLaborMinutes)}
+                          </p>
+                        </div>
+                      )}
+
+                      {/* Seam LF comes from the membrane roll layout */}
+                      {item.rateType === "per_seam_lf" && (
+                        <div className="w-24">
+                          <label className="text-xs text-muted-foreground block mb-1">
+                            Seam LF
+                          </label>
+                          <p className="h-8 flex items-center justify-end text-sm tabular-nums text-foreground">
+                            {seamLF.toLocaleString()}
+                          </p>
+                        </div>
+                      )}
+
                       {item.rateType === "per_hour" && (
                         <div className="w-24">
                           <label className="text-xs text-muted-foreground block mb-1">
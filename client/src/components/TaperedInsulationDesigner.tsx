@@ -0,0 +1,152 @@
+/**
+ * TaperedInsulationDesigner — Slope, drainage and run for a tapered polyiso system
+ * Design: Nested under the flat insulation layers; shows the panel series,
+ *         counts, fill, crickets and thickness/R-value range of the design
+ */
+
+import { motion, AnimatePresence } from "framer-motion";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  TAPERED_DRAINAGE_TYPES,
+  TAPERED_SLOPES,
+  type TaperedDesign,
+  type TaperedDrainage,
+  type TaperedInsulationConfig,
+  type TaperedSlope,
+} from "@shared/estimating/tapered-insulation-data";
+
+interface TaperedInsulationDesignerProps {
+  config: TaperedInsulationConfig;
+  design?: TaperedDesign;
+  onChange: (patch: Partial<TaperedInsulationConfig>) => void;
+}
+
+export function TaperedInsulationDesigner({ config, design, onChange }: TaperedInsulationDesignerProps) {
+  return (
+    <div className="p-3 bg-muted/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Tapered Insulation</Label>
+        <Switch
+          checked={config.enabled}
+          onCheckedChange={(enabled) => onChange({ enabled })}
+          aria-label="Toggle tapered insulation"
+        />
+      </div>
+
+      <AnimatePresence>
+        {config.enabled && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.2 }}
+            className="space-y-3"
+          >
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Slope</Label>
+                <Select value={config.slope} onValueChange={(v) => onChange({ slope: v as TaperedSlope })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAPERED_SLOPES.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>
+                        {s.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Drains To</Label>
+                <Select
+                  value={config.drainage}
+                  onValueChange={(v) => onChange({ drainage: v as TaperedDrainage })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAPERED_DRAINAGE_TYPES.map((d) => (
+                      <SelectItem key={d.value} value={d.value}>
+                        {d.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {config.drainage === "interior-drains" && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Drains</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={config.drainCount || ""}
+                    onChange={(e) => onChange({ drainCount: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Run Length</Label>
+                <div className="relative">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={config.runLength || ""}
+                    onChange={(e) => onChange({ runLength: parseFloat(e.target.value) || 0 })}
+                    className="pr-8"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+                    ft
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            {design && design.rows > 0 && (
+              <div className="space-y-1 text-xs">
+                {design.panelCounts.map((p) => (
+                  <div key={p.letter} className="flex justify-between">
+                    <span className="text-muted-foreground">Panel {p.letter}</span>
+                    <span className="font-medium">
+                      {Math.ceil(p.panels + p.cricketPanels).toLocaleString()} panels
+                      {p.cricketPanels > 0 && ` (${Math.ceil(p.cricketPanels)} cricket)`}
+                    </span>
+                  </div>
+                ))}
+                {design.fillBoards > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">2.0" fill boards</span>
+                    <span className="font-medium">{Math.ceil(design.fillBoards).toLocaleString()}</span>
+                  </div>
+                )}
+                {design.cricketCount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Crickets</span>
+                    <span className="font-medium">
+                      {design.cricketCount} × {Math.round(design.cricketArea).toLocaleString()} sq ft
+                    </span>
+                  </div>
+                )}
+                <p className="text-cyan font-medium pt-1">
+                  {design.minThickness.toFixed(1)}"–{design.maxThickness.toFixed(1)}" tapered · avg R-
+                  {design.avgRValue.toFixed(1)} (min R-{design.minRValue.toFixed(1)}) over the flat layers
+                </p>
+              </div>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * WindDesignInput — Basic wind speed and exposure for zone fastener patterns
+ * Design: Muted inset block matching the building dimensions group; lists the
+ *         design uplift and the manufacturer pattern picked for each zone
+ */
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle } from "lucide-react";
+import type { TPOMeasurements } from "@shared/estimating/tpo-data";
+import {
+  EXPOSURE_CATEGORIES,
+  WIND_ZONES,
+  type ExposureCategory,
+  type WindZone,
+  type ZoneFasteningMap,
+} from "@shared/estimating/wind-uplift-data";
+
+interface WindDesignInputProps {
+  measurements: TPOMeasurements;
+  zoneFastening: ZoneFasteningMap;
+  onWindSpeedChange: (value: string) => void;
+  onExposureChange: (exposure: ExposureCategory) => void;
+}
+
+const ZONE_LABELS: Record<WindZone, string> = {
+  field: "Field",
+  perimeter: "Perimeter",
+  corner: "Corner",
+};
+
+export function WindDesignInput({
+  measurements,
+  zoneFastening,
+  onWindSpeedChange,
+  onExposureChange,
+}: WindDesignInputProps) {
+  const hasWindDesign = zoneFastening.field.designPressure !== undefined;
+
+  return (
+    <div className="p-4 bg-muted/30 rounded-lg space-y-4">
+      <div>
+        <p className="text-sm font-medium text-foreground">Wind Uplift Design</p>
+        <p className="text-xs text-muted-foreground">
+          Picks the tested fastener pattern for each zone; applies to all roof sections
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Basic Wind Speed</Label>
+          <div className="relative">
+            <Input
+              type="number"
+              min="0"
+              placeholder="0"
+              value={measurements.basicWindSpeed || ""}
+              onChange={(e) => onWindSpeedChange(e.target.value)}
+              className="pr-12"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+              mph
+            </span>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Exposure</Label>
+          <Select
+            value={measurements.exposureCategory ?? "C"}
+            onValueChange={(v) => onExposureChange(v as ExposureCategory)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPOSURE_CATEGORIES.map((e) => (
+                <SelectItem key={e.value} value={e.value}>
+                  {e.label} — {e.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {hasWindDesign ? (
+        <div className="space-y-1">
+          {WIND_ZONES.map((zone) => {
+            const { designPressure, pattern, exceedsTable } = zoneFastening[zone];
+            return (
+              <div key={zone} className="flex items-center justify-between text-xs">
+                <span className="text-muted-foreground">
+                  {ZONE_LABELS[zone]} · {designPressure!.toFixed(1)} psf
+                </span>
+                <span className={`font-medium ${exceedsTable ? "text-destructive" : "text-cyan"}`}>
+                  {exceedsTable && <AlertTriangle className="inline w-3 h-3 mr-1" />}
+                  {pattern.label} · {pattern.insulationFastenersPerBoard}/board ·{" "}
+                  {pattern.membraneFastenerSpacingIn}" o.c. · {pattern.seamSpacingFt}' sheets
+                </span>
+              </div>
+            );
+          })}
+          {measurements.meanRoofHeight ? null : (
+            <p className="text-[10px] text-muted-foreground">
+              No mean roof height entered — pressures use the 15 ft minimum
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Enter a wind speed to size fasteners from design pressure; standard
+          zone densities are used until then
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,53 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import {
-  KARNAK_PRODUCTS,
-  calculateEstimate,
+  KARNAK_METAL_KYNAR_SYSTEM,
+  calculateCoatingEstimate,
+  type CoatingSystem,
   type EstimateInput,
   type EstimateResult,
-} from "@/lib/karnak-data";
+  type WarrantyTerm,
+} from "@shared/estimating/karnak-data";
 import {
   DEFAULT_LABOR_ITEMS,
   DEFAULT_EQUIPMENT_ITEMS,
   calculateLaborEquipmentTotals,
   type LaborEquipmentState,
   type LaborEquipmentTotals,
-} from "@/lib/labor-equipment-data";
+} from "@shared/estimating/labor-equipment-data";
 import { usePricingDB } from "@/hooks/usePricingDB";
 
-export function useEstimator() {
+/**
+ * Coating estimator state. With `pricesLocked` (a saved estimate) prices stay
+ * as saved; current pricing only comes in through acceptRepricing.
+ * `detailLaborMinutes` (penetration and sheet metal install time) prices the
+ * detail labor line.
+ */
+export function useEstimator(
+  system: CoatingSystem = KARNAK_METAL_KYNAR_SYSTEM,
+  pricesLocked = false,
+  detailLaborMinutes = 0,
+) {
   const [squareFootage, setSquareFootage] = useState<string>("");
   const [verticalSeamsLF, setVerticalSeamsLF] = useState<string>("");
   const [horizontalSeamsLF, setHorizontalSeamsLF] = useState<string>("");
+  const [warrantyYears, setWarrantyYears] = useState<WarrantyTerm | undefined>(
+    system.defaultWarranty
+  );
 
-  // Pricing DB integration
-  const { getPriceMap, isFromDB } = usePricingDB();
-  const dbPriceMap = useMemo(() => getPriceMap("karnak"), [getPriceMap, isFromDB]);
+  // Pricing DB integration — default price book or one distributor's list
+  const [distributorId, setDistributorId] = useState<number | null>(null);
+  // Job start date prices are taken as of (null = today's prices)
+  const [priceDate, setPriceDate] = useState<string | null>(null);
+  const { getPriceMap, isFromDB } = usePricingDB(distributorId, priceDate);
+  const dbPriceMap = useMemo(
+    () => getPriceMap(system.pricingPrefix),
+    [getPriceMap, isFromDB, system.pricingPrefix]
+  );
 
   // Custom prices: keyed by product id, initialized from local defaults
   const [customPrices, setCustomPrices] = useState<Record<string, number>>(() => {
     const defaults: Record<string, number> = {};
-    KARNAK_PRODUCTS.forEach((p) => {
+    system.products.forEach((p) => {
       defaults[p.id] = p.defaultPrice;
     });
     return defaults;
@@ -37,7 +58,7 @@ export function useEstimator() {
 
   // Sync DB prices into local state when they arrive (only for non-user-edited prices)
   useEffect(() => {
-    if (dbPriceMap.size > 0) {
+    if (dbPriceMap.size > 0 && !pricesLocked) {
       setCustomPrices((prev) => {
         const next = { ...prev };
         let changed = false;
@@ -50,7 +71,7 @@ export function useEstimator() {
         return changed ? next : prev;
       });
     }
-  }, [dbPriceMap]);
+  }, [dbPriceMap, pricesLocked]);
 
   // Labor & Equipment state
   const [laborEquipment, setLaborEquipment] = useState<LaborEquipmentState>(() => ({
@@ -110,36 +131,61 @@ export function useEstimator() {
     setCustomPrices((prev) => ({ ...prev, [productId]: price }));
   }, []);
 
+  // Re-price from the chosen list — its prices replace any manual edits
+  const changePriceList = useCallback((id: number | null) => {
+    userEditedPrices.current.clear();
+    setDistributorId(id);
+  }, []);
+
+  // Re-price as of the job start date — likewise replaces manual edits
+  const changePriceDate = useCallback((date: string | null) => {
+    userEditedPrices.current.clear();
+    setPriceDate(date);
+  }, []);
+
+  // Load a saved estimate's prices in place of the current ones
+  const loadPrices = useCallback((prices: Record<string, number>) => {
+    userEditedPrices.current = new Set(Object.keys(prices));
+    setCustomPrices(prices);
+  }, []);
+
+  // Accept current prices from the reprice report
+  const acceptRepricing = useCallback((prices: Record<string, number>) => {
+    Object.keys(prices).forEach((id) => userEditedPrices.current.add(id));
+    setCustomPrices((prev) => ({ ...prev, ...prices }));
+  }, []);
+
   const resetPrices = useCallback(() => {
     userEditedPrices.current.clear();
     const defaults: Record<string, number> = {};
-    KARNAK_PRODUCTS.forEach((p) => {
+    system.products.forEach((p) => {
       // Reset to DB price if available, otherwise local default
       defaults[p.id] = dbPriceMap.get(p.id) ?? p.defaultPrice;
     });
     setCustomPrices(defaults);
-  }, [dbPriceMap]);
+  }, [dbPriceMap, system]);
 
   const inputs: EstimateInput = useMemo(
     () => ({
       squareFootage: parseFloat(squareFootage) || 0,
       verticalSeamsLF: parseFloat(verticalSeamsLF) || 0,
       horizontalSeamsLF: parseFloat(horizontalSeamsLF) || 0,
+      warrantyYears,
     }),
-    [squareFootage, verticalSeamsLF, horizontalSeamsLF]
+    [squareFootage, verticalSeamsLF, horizontalSeamsLF, warrantyYears]
   );
 
   const hasInputs = inputs.squareFootage > 0 || inputs.verticalSeamsLF > 0 || inputs.horizontalSeamsLF > 0;
 
   const estimate: EstimateResult | null = useMemo(() => {
     if (!hasInputs) return null;
-    return calculateEstimate(inputs, customPrices);
-  }, [inputs, customPrices, hasInputs]);
+    return calculateCoatingEstimate(system, inputs, customPrices);
+  }, [system, inputs, customPrices, hasInputs]);
 
   const laborEquipmentTotals: LaborEquipmentTotals | null = useMemo(() => {
     if (!hasInputs) return null;
-    return calculateLaborEquipmentTotals(laborEquipment, inputs.squareFootage);
-  }, [laborEquipment, inputs.squareFootage, hasInputs]);
+    return calculateLaborEquipmentTotals(laborEquipment, inputs.squareFootage, detailLaborMinutes);
+  }, [laborEquipment, inputs.squareFootage, detailLaborMinutes, hasInputs]);
 
   const projectTotal = useMemo(() => {
     if (!estimate || !laborEquipmentTotals) return 0;
@@ -163,9 +209,20 @@ export function useEstimator() {
     setVerticalSeamsLF,
     horizontalSeamsLF,
     setHorizontalSeamsLF,
+    warrantyYears,
+    setWarrantyYears,
     customPrices,
     updatePrice,
     resetPrices,
+    dbPriceMap,
+    loadPrices,
+    acceptRepricing,
+    distributorId,
+    setDistributorId,
+    changePriceList,
+    priceDate,
+    setPriceDate,
+    changePriceDate,
     laborEquipment,
     updateLaborItem,
     updateEquipmentItem,
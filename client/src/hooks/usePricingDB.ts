@@ -2,6 +2,11 @@
  * Hook to fetch pricing from the database and provide a price lookup function.
  * Falls back to local default prices if the database is unavailable.
  *
+ * With a `distributorId`, that distributor's price list overrides the default
+ * price book for the products it covers; everything else keeps the default price.
+ * With a `priceDate` (a job's start date, "YYYY-MM-DD"), the default price book
+ * includes the scheduled price changes in effect on that date.
+ *
  * The hook returns a stable `prices` map that updates when DB data arrives.
  * Estimators should use useEffect to sync DB prices into their local state.
  */
@@ -24,11 +29,20 @@ export interface PriceLookup {
   refetch: () => void;
 }
 
-export function usePricingDB(): PriceLookup {
-  const pricingQuery = trpc.pricing.list.useQuery(undefined, {
+export function usePricingDB(distributorId?: number | null, priceDate?: string | null): PriceLookup {
+  const pricingQuery = trpc.pricing.list.useQuery(priceDate ? { asOf: new Date(priceDate) } : undefined, {
     staleTime: 2 * 60 * 1000, // Cache for 2 minutes
     retry: 1,
   });
+  const distributorQuery = trpc.distributors.prices.useQuery(
+    { distributorId: distributorId ?? undefined },
+    {
+      enabled: distributorId != null,
+      staleTime: 2 * 60 * 1000,
+      retry: 1,
+    },
+  );
+  const distributorPrices = distributorId != null ? distributorQuery.data : undefined;
 
   const allPrices = useMemo(() => {
     const map = new Map<string, number>();
@@ -37,8 +51,13 @@ export function usePricingDB(): PriceLookup {
         map.set(p.productId, parseFloat(p.unitPrice));
       }
     }
+    if (distributorPrices) {
+      for (const p of distributorPrices) {
+        map.set(p.productId, parseFloat(p.unitPrice));
+      }
+    }
     return map;
-  }, [pricingQuery.data]);
+  }, [pricingQuery.data, distributorPrices]);
 
   const getPrice = (productId: string): number | undefined => {
     return allPrices.get(productId);
@@ -60,8 +79,11 @@ export function usePricingDB(): PriceLookup {
     getPrice,
     getPriceMap,
     allPrices,
-    isLoading: pricingQuery.isLoading,
+    isLoading: pricingQuery.isLoading || (distributorId != null && distributorQuery.isLoading),
     isFromDB: !!pricingQuery.data && pricingQuery.data.length > 0,
-    refetch: () => pricingQuery.refetch(),
+    refetch: () => {
+      pricingQuery.refetch();
+      if (distributorId != null) distributorQuery.refetch();
+    },
   };
 }
@@ -0,0 +1,132 @@
+/**
+ * Roof section state for the single-ply estimators.
+ *
+ * A project holds one or more named sections, each with its own assembly and
+ * measurements. The page edits one section at a time: `assembly` /
+ * `measurements` and their setters always target the active section, so the
+ * existing assembly and measurement forms work unchanged.
+ */
+
+import { useState, useCallback, useMemo, useRef, type SetStateAction } from "react";
+import type { AssemblyConfig, RoofSection, TPOMeasurements } from "@shared/estimating/tpo-data";
+
+const EMPTY_MEASUREMENTS: TPOMeasurements = {
+  roofArea: 0,
+  wallLinearFt: 0,
+  wallHeight: 0,
+  baseFlashingLF: 0,
+};
+
+let sectionIdCounter = 0;
+
+function nextSectionId(): string {
+  sectionIdCounter++;
+  return `section-${sectionIdCounter}-${Date.now()}`;
+}
+
+function resolve<T>(action: SetStateAction<T>, prev: T): T {
+  return typeof action === "function" ? (action as (p: T) => T)(prev) : action;
+}
+
+export function useRoofSections(defaultAssembly: AssemblyConfig) {
+  const [sections, setSections] = useState<RoofSection[]>(() => [
+    {
+      id: nextSectionId(),
+      name: "Main Roof",
+      assembly: defaultAssembly,
+      measurements: EMPTY_MEASUREMENTS,
+    },
+  ]);
+  const [activeSectionId, setActiveSectionId] = useState<string>(() => sections[0].id);
+
+  const activeSection = useMemo(
+    () => sections.find((s) => s.id === activeSectionId) ?? sections[0],
+    [sections, activeSectionId]
+  );
+
+  // Read through a ref so the setters stay stable — pages wrap them in
+  // useCallback with empty deps and they must still follow tab switches
+  const activeIdRef = useRef(activeSectionId);
+  activeIdRef.current = activeSectionId;
+
+  const updateActive = useCallback((update: (section: RoofSection) => RoofSection) => {
+    setSections((prev) => {
+      const activeId = activeIdRef.current;
+      const targetId = prev.some((s) => s.id === activeId) ? activeId : prev[0].id;
+      return prev.map((s) => (s.id === targetId ? update(s) : s));
+    });
+  }, []);
+
+  const setAssembly = useCallback(
+    (action: SetStateAction<AssemblyConfig>) => {
+      updateActive((s) => ({ ...s, assembly: resolve(action, s.assembly) }));
+    },
+    [updateActive]
+  );
+
+  const setMeasurements = useCallback(
+    (action: SetStateAction<TPOMeasurements>) => {
+      updateActive((s) => ({ ...s, measurements: resolve(action, s.measurements) }));
+    },
+    [updateActive]
+  );
+
+  /** Apply site-wide values (e.g. wind design) to every section */
+  const setSiteMeasurements = useCallback((patch: Partial<TPOMeasurements>) => {
+    setSections((prev) => prev.map((s) => ({ ...s, measurements: { ...s.measurements, ...patch } })));
+  }, []);
+
+  /** Add a section that starts from the active section's assembly and site wind design */
+  const addSection = useCallback(() => {
+    const id = nextSectionId();
+    const { basicWindSpeed, exposureCategory } = activeSection.measurements;
+    setSections((prev) => [
+      ...prev,
+      {
+        id,
+        name: `Section ${prev.length + 1}`,
+        assembly: activeSection.assembly,
+        measurements: { ...EMPTY_MEASUREMENTS, basicWindSpeed, exposureCategory },
+      },
+    ]);
+    setActiveSectionId(id);
+  }, [activeSection.assembly, activeSection.measurements]);
+
+  const removeSection = useCallback(
+    (id: string) => {
+      if (sections.length <= 1) return;
+      const next = sections.filter((s) => s.id !== id);
+      setSections(next);
+      if (id === activeSection.id) setActiveSectionId(next[0].id);
+    },
+    [sections, activeSection.id]
+  );
+
+  const renameSection = useCallback((id: string, name: string) => {
+    setSections((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
+  }, []);
+
+  /** Replace all sections, e.g. when loading a saved estimate */
+  const loadSections = useCallback((loaded: Omit<RoofSection, "id">[]) => {
+    if (loaded.length === 0) return;
+    const withIds = loaded.map((s) => ({ ...s, id: nextSectionId() }));
+    setSections(withIds);
+    setActiveSectionId(withIds[0].id);
+  }, []);
+
+  return {
+    sections,
+    activeSection,
+    activeSectionId: activeSection.id,
+    setActiveSectionId,
+    assembly: activeSection.assembly,
+    setAssembly,
+    measurements: activeSection.measurements,
+    setMeasurements,
+    setSiteMeasurements,
+    addSection,
+    removeSection,
+    renameSection,
+    loadSections,
+  };
+}
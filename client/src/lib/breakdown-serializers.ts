@@ -12,15 +12,15 @@ import type {
   BreakdownEquipmentItem,
   BreakdownPenetrationItem,
 } from "./estimate-breakdown";
-import type { EstimateResult } from "./karnak-data";
-import type { LaborEquipmentState } from "./labor-equipment-data";
-import { calculateLaborEquipmentTotals } from "./labor-equipment-data";
-import type { TPOEstimate } from "./tpo-data";
-import type { TPOLaborEquipmentState } from "./tpo-labor-equipment-data";
-import { calculateTPOLaborEquipmentTotals } from "./tpo-labor-equipment-data";
-import type { PenetrationEstimate } from "./penetrations-data";
+import type { EstimateResult } from "@shared/estimating/karnak-data";
+import type { LaborEquipmentState } from "@shared/estimating/labor-equipment-data";
+import { calculateLaborEquipmentTotals, toDetailHours } from "@shared/estimating/labor-equipment-data";
+import { getSeamLF, type TPOEstimate } from "@shared/estimating/tpo-data";
+import type { TPOLaborEquipmentState } from "@shared/estimating/tpo-labor-equipment-data";
+import { calculateTPOLaborEquipmentTotals } from "@shared/estimating/tpo-labor-equipment-data";
+import type { PenetrationEstimate } from "@shared/estimating/penetrations-data";
 
-// ── Karnak serializer ────────────────────────────────────────
+// ── Karnak / coating system serializer ───────────────────────
 
 export function serializeKarnakBreakdown(
   estimate: EstimateResult,
@@ -28,12 +28,15 @@ export function serializeKarnakBreakdown(
   penetrationEstimate?: PenetrationEstimate | null,
 ): EstimateBreakdownData {
   const sqft = estimate.inputs.squareFootage;
-  const totals = calculateLaborEquipmentTotals(laborEquipment, sqft);
+  const detailLaborMinutes = penetrationEstimate?.totalLaborMinutes ?? 0;
+  const totals = calculateLaborEquipmentTotals(laborEquipment, sqft, detailLaborMinutes);
 
   const materials: BreakdownMaterialItem[] = estimate.lineItems.map((item) => ({
     id: item.product.id,
     name: item.product.name,
-    description: item.product.description,
+    description: item.coats > 1
+      ? `${item.product.description} (${item.coats} coats)`
+      : item.product.description,
     category: item.product.step,
     unit: item.product.unitSize,
     quantityNeeded: item.quantityNeeded,
@@ -61,7 +64,7 @@ export function serializeKarnakBreakdown(
     ...(penetrationEstimate?.sheetMetalItems ?? []).map(
       (item, idx) => ({
         id: `sm-${idx}`,
-        name: `${item.name}${penetrationEstimate?.sheetMetalType ? ` (${penetrationEstimate.sheetMetalType} ${penetrationEstimate.sheetMetalGauge})` : ""}`,
+        name: `${item.name} (${item.metal})`,
         description: "Sheet Metal Flashing",
         unit: "LF",
         quantity: item.quantity,
@@ -80,7 +83,8 @@ export function serializeKarnakBreakdown(
       description: item.description,
       rateType: item.rateType,
       rate: item.rate,
-      quantity: item.quantity,
+      // Detail labor hours come from the roof additions, so rate edits reprice them
+      quantity: item.rateType === "per_detail_hour" ? toDetailHours(detailLaborMinutes) : item.quantity,
       computedCost: breakdown?.cost ?? 0,
       enabled: item.enabled,
     };
@@ -100,15 +104,20 @@ export function serializeKarnakBreakdown(
     };
   });
 
+  const measurements: Record<string, string> = {
+    "Roof Area": `${sqft.toLocaleString()} sq. ft.`,
+    "Vertical Seams": `${estimate.inputs.verticalSeamsLF.toLocaleString()} lin. ft.`,
+    "Horizontal Seams": `${estimate.inputs.horizontalSeamsLF.toLocaleString()} lin. ft.`,
+  };
+  if (estimate.inputs.warrantyYears) {
+    measurements["Warranty"] = `${estimate.inputs.warrantyYears}-Year`;
+  }
+
   return {
-    systemName: "Karnak Metal Kynar Coating System",
-    systemSlug: "karnak-metal-kynar",
+    systemName: estimate.system.name,
+    systemSlug: estimate.system.id,
     accentColor: "red",
-    measurements: {
-      "Roof Area": `${sqft.toLocaleString()} sq. ft.`,
-      "Vertical Seams": `${estimate.inputs.verticalSeamsLF.toLocaleString()} lin. ft.`,
-      "Horizontal Seams": `${estimate.inputs.horizontalSeamsLF.toLocaleString()} lin. ft.`,
-    },
+    measurements,
     roofArea: sqft,
     materials,
     penetrations,
@@ -117,7 +126,7 @@ export function serializeKarnakBreakdown(
   };
 }
 
-// ── TPO serializer (shared for Carlisle & GAF) ──────────────
+// ── TPO serializer (shared for Carlisle, GAF & Firestone EPDM) ──────────────
 
 export function serializeTPOBreakdown(
   estimate: TPOEstimate,
@@ -132,7 +141,9 @@ export function serializeTPOBreakdown(
     (estimate.measurements.baseFlashingLF ?? 0) +
     (estimate.measurements.wallLinearFt ?? 0);
 
-  const totals = calculateTPOLaborEquipmentTotals(laborEquipment, roofArea, flashingLF);
+  const detailLaborMinutes = penetrationEstimate?.totalLaborMinutes ?? 0;
+  const seamLF = getSeamLF(estimate);
+  const totals = calculateTPOLaborEquipmentTotals(laborEquipment, roofArea, flashingLF, detailLaborMinutes, seamLF);
 
   const materials: BreakdownMaterialItem[] = estimate.lineItems.map((item) => ({
     id: item.product.id,
@@ -145,6 +156,9 @@ export function serializeTPOBreakdown(
     unitPrice: item.unitPrice,
     totalCost: item.totalCost,
     enabled: item.unitsToOrder > 0,
+    ...(estimate.sections && estimate.sections.length > 1 && item.sections
+      ? { sections: item.sections.map((sec) => sec.sectionName) }
+      : {}),
   }));
 
   const penetrations: BreakdownPenetrationItem[] = [
@@ -165,7 +179,7 @@ export function serializeTPOBreakdown(
     ...(penetrationEstimate?.sheetMetalItems ?? []).map(
       (item, idx) => ({
         id: `sm-${idx}`,
-        name: `${item.name}${penetrationEstimate?.sheetMetalType ? ` (${penetrationEstimate.sheetMetalType} ${penetrationEstimate.sheetMetalGauge})` : ""}`,
+        name: `${item.name} (${item.metal})`,
         description: "Sheet Metal Flashing",
         unit: "LF",
         quantity: item.quantity,
@@ -184,7 +198,13 @@ export function serializeTPOBreakdown(
       description: item.description,
       rateType: item.rateType,
       rate: item.rate,
-      quantity: item.quantity,
+      // Detail hours come from the roof additions and seam LF from the roll layout, so rate edits reprice them
+      quantity:
+        item.rateType === "per_detail_hour"
+          ? toDetailHours(detailLaborMinutes)
+          : item.rateType === "per_seam_lf"
+            ? seamLF
+            : item.quantity,
       computedCost: breakdown?.cost ?? 0,
       enabled: item.enabled,
     };
@@ -213,9 +233,23 @@ export function serializeTPOBreakdown(
   if (estimate.measurements.wallLinearFt) {
     measurements["Wall Flashing"] = `${estimate.measurements.wallLinearFt.toLocaleString()} lin. ft.`;
   }
-  if (estimate.measurements.wallHeight) {
+  const isSectioned = !!estimate.sections && estimate.sections.length > 1;
+  if (estimate.measurements.wallHeight && !isSectioned) {
     measurements["Wall Height"] = `${estimate.measurements.wallHeight} ft.`;
   }
+  const footprint = estimate.sections?.[0]?.section.measurements ?? estimate.measurements;
+  if (!isSectioned && footprint.roofLength && footprint.roofWidth) {
+    const height = footprint.meanRoofHeight ? `, ${footprint.meanRoofHeight} ft. mean height` : "";
+    measurements["Building"] = `${footprint.roofLength} × ${footprint.roofWidth} ft.${height}`;
+  }
+  if (footprint.basicWindSpeed) {
+    measurements["Design Wind"] = `${footprint.basicWindSpeed} mph, Exposure ${footprint.exposureCategory ?? "C"}`;
+  }
+  if (isSectioned) {
+    measurements["Roof Sections"] = estimate.sections!
+      .map(({ section }) => `${section.name} (${section.measurements.roofArea.toLocaleString()} sq. ft.)`)
+      .join(", ");
+  }
 
   return {
     systemName,
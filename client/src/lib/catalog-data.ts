@@ -143,9 +143,10 @@ export const ROOFING_SYSTEMS: RoofingSystem[] = [
     features: [
       "High elongation",
       "ENERGY STAR rated",
-      "Multi-substrate compatible",
+      "10/15/20-year warranty builds",
     ],
-    status: "coming_soon",
+    status: "available",
+    route: "/estimator/gaf-unisil-553",
     imageUrl: "https://images.unsplash.com/photo-1581094794329-c8112a89af12?w=400&q=80",
   },
   {
@@ -179,9 +180,10 @@ export const ROOFING_SYSTEMS: RoofingSystem[] = [
     features: [
       "90%+ solids by weight",
       "Ponding water resistant",
-      "Single-coat application",
+      "10/15/20-year warranty builds",
     ],
-    status: "coming_soon",
+    status: "available",
+    route: "/estimator/gaf-unisil-8650",
     imageUrl: "https://images.unsplash.com/photo-1590496793929-36417d3117de?w=400&q=80",
   },
   {
@@ -196,9 +198,10 @@ export const ROOFING_SYSTEMS: RoofingSystem[] = [
     features: [
       "Moisture-cure technology",
       "Ponding water resistant",
-      "High reflectivity",
+      "10/15/20-year warranty builds",
     ],
-    status: "coming_soon",
+    status: "available",
+    route: "/estimator/karnak-silicone-520",
     imageUrl: "https://images.unsplash.com/photo-1504307651254-35680f356dfd?w=400&q=80",
   },
 
@@ -287,13 +290,15 @@ export const ROOFING_SYSTEMS: RoofingSystem[] = [
     categorySlug: "single-ply-membrane",
     substrate: "Commercial Flat Roof",
     description:
-      "EPDM rubber roofing membrane with proven performance in all climates. Available in black and white.",
+      "Complete Firestone RubberGard EPDM roofing system estimator. Configure roof assembly (deck, vapor barrier, polyiso insulation, cover board, membrane) and get a full material order list with splice tape, primer, bonding adhesive and ballast.",
     features: [
-      "50+ year track record",
-      "Ozone resistant",
-      "Low lifecycle cost",
+      "Full assembly configuration",
+      "45/60/90 mil membrane options",
+      "Adhered, mechanically attached or ballasted",
+      "Wall & base flashing included",
     ],
-    status: "coming_soon",
+    status: "available",
+    route: "/estimator/firestone-epdm",
     imageUrl: "https://images.unsplash.com/photo-1590496793929-36417d3117de?w=400&q=80",
   },
 
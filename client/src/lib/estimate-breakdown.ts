@@ -6,6 +6,8 @@
  * The breakdown page then renders everything in a single editable view.
  */
 
+import type { TaxProfitState } from "@shared/estimating/proposal";
+
 // ── Line item types ──────────────────────────────────────────
 
 export interface BreakdownMaterialItem {
@@ -19,6 +21,8 @@ export interface BreakdownMaterialItem {
   unitPrice: number;
   totalCost: number;
   enabled: boolean;
+  /** Roof sections this material is ordered for (multi-section projects) */
+  sections?: string[];
 }
 
 export interface BreakdownPenetrationItem {
@@ -36,9 +40,9 @@ export interface BreakdownLaborItem {
   id: string;
   label: string;
   description: string;
-  rateType: string; // "per_sqft" | "per_hour" | "per_lf" | "flat"
+  rateType: string; // "per_sqft" | "per_hour" | "per_lf" | "per_detail_hour" | "per_seam_lf" | "flat"
   rate: number;
-  quantity: number; // hours, 1 for flat/per_sqft
+  quantity: number; // hours (detail hours for per_detail_hour), seam LF for per_seam_lf, 1 for flat/per_sqft
   computedCost: number; // pre-calculated cost
   enabled: boolean;
 }
@@ -164,12 +168,7 @@ export function clearBreakdownSaveState(): void {
 
 // ── Breakdown save state (persisted to DB) ─────────────────
 
-export interface TaxProfitState {
-  taxEnabled: boolean;
-  taxPercent: number;
-  profitEnabled: boolean;
-  profitPercent: number;
-}
+export type { TaxProfitState } from "@shared/estimating/proposal";
 
 /**
  * The full breakdown editing state that gets persisted to the database.
@@ -228,7 +227,9 @@ export function getRateLabel(rateType: string): string {
   switch (rateType) {
     case "per_sqft": return "$/sq. ft.";
     case "per_hour": return "$/hr";
+    case "per_detail_hour": return "$/detail hr";
     case "per_lf": return "$/LF";
+    case "per_seam_lf": return "$/seam LF";
     case "per_day": return "$/day";
     case "flat": return "flat";
     default: return "$";
@@ -238,6 +239,8 @@ export function getRateLabel(rateType: string): string {
 export function getQuantityLabel(rateType: string): string {
   switch (rateType) {
     case "per_hour": return "Hours";
+    case "per_detail_hour": return "Detail Hours";
+    case "per_seam_lf": return "Seam LF";
     case "per_day": return "Days";
     case "flat": return "Qty";
     default: return "Qty";
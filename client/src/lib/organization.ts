@@ -0,0 +1,26 @@
+/**
+ * Active organization — chosen in the org switcher, kept in localStorage and
+ * sent with every tRPC request (ORGANIZATION_HEADER) so the server scopes
+ * pricing, quotes and estimates to it.
+ */
+
+const STORAGE_KEY = "activeOrganizationId";
+
+export function getActiveOrganizationId(): number | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const id = stored ? parseInt(stored, 10) : NaN;
+    return Number.isFinite(id) ? id : null;
+  } catch {
+    return null;
+  }
+}
+
+export function setActiveOrganizationId(id: number | null): void {
+  try {
+    if (id === null) localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, String(id));
+  } catch {
+    // Storage unavailable — the server falls back to the user's first organization
+  }
+}
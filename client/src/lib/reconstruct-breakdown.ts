@@ -13,13 +13,22 @@ import {
   deserializeKarnakState,
   deserializeTPOState,
   detectSystem,
-} from "./estimate-state-serializers";
-import { calculateEstimate } from "./karnak-data";
-import { calculateTPOEstimate, type AssemblyConfig, type TPOMeasurements } from "./tpo-data";
-import { calculatePenetrationEstimate, PENETRATION_TYPES, type PenetrationLineItem } from "./penetrations-data";
-import { calculateSheetMetalEstimate } from "./sheet-metal-flashing-data";
-import { DEFAULT_LABOR_ITEMS, DEFAULT_EQUIPMENT_ITEMS } from "./labor-equipment-data";
-import { DEFAULT_TPO_LABOR_ITEMS, DEFAULT_TPO_EQUIPMENT_ITEMS } from "./tpo-labor-equipment-data";
+  getSavedRoofSections,
+} from "@shared/estimating/estimate-state-serializers";
+import { calculateCoatingEstimate } from "@shared/estimating/karnak-data";
+import { getCoatingSystem } from "@shared/estimating/silicone-coating-data";
+import {
+  calculateTPOEstimate,
+  calculateSectionedEstimate,
+  type RoofSection,
+} from "@shared/estimating/tpo-data";
+import { calculateGAFTPOEstimate } from "@shared/estimating/gaf-tpo-data";
+import { calculateEPDMEstimate } from "@shared/estimating/firestone-epdm-data";
+import { calculatePenetrationEstimate, PENETRATION_TYPES, type PenetrationLineItem } from "@shared/estimating/penetrations-data";
+import { calculateSheetMetalEstimate } from "@shared/estimating/sheet-metal-flashing-data";
+import { getDefaultAssembly } from "@shared/estimating/project-estimate";
+import { DEFAULT_LABOR_ITEMS, DEFAULT_EQUIPMENT_ITEMS } from "@shared/estimating/labor-equipment-data";
+import { DEFAULT_TPO_LABOR_ITEMS, DEFAULT_TPO_EQUIPMENT_ITEMS } from "@shared/estimating/tpo-labor-equipment-data";
 import { serializeKarnakBreakdown, serializeTPOBreakdown } from "./breakdown-serializers";
 
 /** The shape returned by estimates.get */
@@ -44,9 +53,9 @@ export function reconstructBreakdownFromSaved(
   const system = detectSystem(estimate.stateJson);
   if (!system) return null;
 
-  if (system === "karnak-metal-kynar") {
+  if (getCoatingSystem(system)) {
     return reconstructKarnakBreakdown(estimate);
-  } else if (system === "carlisle-tpo" || system === "gaf-tpo") {
+  } else if (system === "carlisle-tpo" || system === "gaf-tpo" || system === "firestone-epdm") {
     return reconstructTPOBreakdown(estimate);
   }
 
@@ -58,14 +67,17 @@ function reconstructKarnakBreakdown(
 ): EstimateBreakdownData | null {
   const state = deserializeKarnakState(estimate.stateJson);
   if (!state) return null;
+  const coatingSystem = getCoatingSystem(state.system);
+  if (!coatingSystem) return null;
 
   const inputs = {
     squareFootage: parseFloat(state.squareFootage) || 0,
     verticalSeamsLF: parseFloat(state.verticalSeamsLF) || 0,
     horizontalSeamsLF: parseFloat(state.horizontalSeamsLF) || 0,
+    warrantyYears: state.warrantyYears,
   };
 
-  const estimateResult = calculateEstimate(inputs, state.customPrices);
+  const estimateResult = calculateCoatingEstimate(coatingSystem, inputs, state.customPrices);
 
   // Reconstruct penetration estimate from saved state
   let penetrationEstimate = null;
@@ -83,7 +95,7 @@ function reconstructKarnakBreakdown(
         });
       }
     }
-    penetrationEstimate = calculatePenetrationEstimate(lineItems);
+    penetrationEstimate = calculatePenetrationEstimate(lineItems, coatingSystem.id, state.customPrices);
 
     // Add sheet metal items if present
     if (state.penetrationsState.sheetMetal) {
@@ -95,13 +107,14 @@ function reconstructKarnakBreakdown(
             flashingId: item.flashingId,
             name: item.name,
             quantity: item.quantity,
+            metal: item.metal,
             unitPrice: item.unitPrice,
             totalCost: item.totalCost,
           })),
           sheetMetalCost: smEstimate.totalMaterialCost,
+          // Combined like RoofAdditions does, for the detail labor line
+          totalLaborMinutes: penetrationEstimate.totalLaborMinutes + smEstimate.totalLaborMinutes,
           sheetMetalLaborMinutes: smEstimate.totalLaborMinutes,
-          sheetMetalType: smEstimate.metalType,
-          sheetMetalGauge: smEstimate.gauge,
         };
       }
     }
@@ -130,35 +143,22 @@ function reconstructTPOBreakdown(
   const state = deserializeTPOState(estimate.stateJson);
   if (!state) return null;
 
-  const measurements: TPOMeasurements = {
-    roofArea: parseFloat(state.measurements.totalRoofArea) || 0,
-    wallLinearFt: parseFloat(state.measurements.wallLinearFt ?? "0") || 0,
-    wallHeight: parseFloat(state.measurements.wallHeight ?? "0") || 0,
-    baseFlashingLF: parseFloat(state.measurements.baseFlashing) || 0,
-  };
+  // Default assembly for estimates saved before assembly config was stored
+  const defaultAssembly = getDefaultAssembly(state.system);
 
-  // Use saved assembly config or defaults
-  const assembly: AssemblyConfig = state.assemblyConfig || {
-    deckType: "steel-22ga",
-    vaporBarrier: "none",
-    insulationEnabled: true,
-    insulationLayers: [
-      { thickness: "2.0", enabled: true },
-      { thickness: "none", enabled: false },
-      { thickness: "none", enabled: false },
-      { thickness: "none", enabled: false },
-    ],
-    coverBoard: "densdeck-prime-half",
-    membraneThickness: "60mil",
-    attachmentMethod: "fully-adhered",
-    fastenerType: state.system === "gaf-tpo" ? "gaf-drilltec-14" : "sfs-dekfast",
-    fastenerLength: "auto",
-    membraneFastenerLength: "auto",
-    plateType: "3in-round",
-    membranePlateType: "barbed",
-  };
+  const sections: RoofSection[] = getSavedRoofSections(state, defaultAssembly).map(
+    (section, idx) => ({ ...section, id: `section-${idx + 1}` }),
+  );
 
-  const tpoEstimate = calculateTPOEstimate(assembly, measurements, state.customPrices);
+  const tpoEstimate = calculateSectionedEstimate(
+    sections,
+    state.customPrices,
+    state.system === "firestone-epdm"
+      ? calculateEPDMEstimate
+      : state.system === "gaf-tpo"
+        ? calculateGAFTPOEstimate
+        : calculateTPOEstimate,
+  );
 
   // Reconstruct penetration estimate from saved state
   let penetrationEstimate = null;
@@ -176,7 +176,7 @@ function reconstructTPOBreakdown(
         });
       }
     }
-    penetrationEstimate = calculatePenetrationEstimate(lineItems);
+    penetrationEstimate = calculatePenetrationEstimate(lineItems, state.system, state.customPrices);
 
     // Add sheet metal items if present
     if (state.penetrationsState.sheetMetal) {
@@ -188,13 +188,14 @@ function reconstructTPOBreakdown(
             flashingId: item.flashingId,
             name: item.name,
             quantity: item.quantity,
+            metal: item.metal,
             unitPrice: item.unitPrice,
             totalCost: item.totalCost,
           })),
           sheetMetalCost: smEstimate.totalMaterialCost,
+          // Combined like RoofAdditions does, for the detail labor line
+          totalLaborMinutes: penetrationEstimate.totalLaborMinutes + smEstimate.totalLaborMinutes,
           sheetMetalLaborMinutes: smEstimate.totalLaborMinutes,
-          sheetMetalType: smEstimate.metalType,
-          sheetMetalGauge: smEstimate.gauge,
         };
       }
     }
@@ -218,8 +219,11 @@ function reconstructTPOBreakdown(
   const systemName =
     state.system === "gaf-tpo"
       ? "GAF EverGuard TPO"
-      : "Carlisle SynTec TPO";
-  const accentColor = state.system === "gaf-tpo" ? "emerald" : "blue";
+      : state.system === "firestone-epdm"
+        ? "Firestone RubberGard EPDM"
+        : "Carlisle SynTec TPO";
+  const accentColor =
+    state.system === "gaf-tpo" ? "emerald" : state.system === "firestone-epdm" ? "red" : "blue";
 
   return serializeTPOBreakdown(
     tpoEstimate,
@@ -1,11 +1,12 @@
 import { trpc } from "@/lib/trpc";
-import { UNAUTHED_ERR_MSG } from '@shared/const';
+import { ORGANIZATION_HEADER, UNAUTHED_ERR_MSG } from '@shared/const';
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { httpBatchLink, TRPCClientError } from "@trpc/client";
 import { createRoot } from "react-dom/client";
 import superjson from "superjson";
 import App from "./App";
 import { getLoginUrl } from "./const";
+import { getActiveOrganizationId } from "./lib/organization";
 import "./index.css";
 
 const queryClient = new QueryClient();
@@ -42,6 +43,10 @@ const trpcClient = trpc.createClient({
     httpBatchLink({
       url: "/api/trpc",
       transformer: superjson,
+      headers() {
+        const organizationId = getActiveOrganizationId();
+        return organizationId === null ? {} : { [ORGANIZATION_HEADER]: String(organizationId) };
+      },
       fetch(input, init) {
         return globalThis.fetch(input, {
           ...(init ?? {}),
@@ -9,6 +9,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
 import {
   Droplets,
   Shield,
@@ -24,6 +25,7 @@ import {
   Search,
   Database,
   FolderOpen,
+  FileText,
 } from "lucide-react";
 import {
   SYSTEM_CATEGORIES,
@@ -319,6 +321,13 @@ export default function Catalog() {
             Pricing Database
           </button>
         </Link>
+        <Link href="/proposal-templates">
+          <button className="inline-flex items-center gap-2 px-5 py-3 bg-card/10 text-white border border-white/20 rounded-xl text-sm font-medium hover:bg-card/20 transition-colors shadow-lg whitespace-nowrap">
+            <FileText className="w-4 h-4" />
+            Proposal Templates
+          </button>
+        </Link>
+        <OrganizationSwitcher className="w-[220px] h-auto py-3 rounded-xl bg-card border-border shadow-lg" />
         </div>
       </div>
 
@@ -0,0 +1,589 @@
+/**
+ * Distributors Page
+ *
+ * The organization's distributor directory (branch, account number, payment
+ * terms, contacts) and a side-by-side comparison of each distributor's price
+ * list against the default price book. Admins edit distributors and prices;
+ * a blank distributor price falls back to the default price book.
+ */
+import { useMemo, useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SYSTEM_OPTIONS } from "@shared/estimating/all-products";
+import { ArrowLeft, Loader2, Mail, Pencil, Phone, Plus, Search, Trash2, Truck } from "lucide-react";
+import { toast } from "sonner";
+
+/** Editor form values — optional fields are edited as plain strings */
+interface DistributorForm {
+  name: string;
+  branch: string;
+  accountNumber: string;
+  paymentTerms: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  notes: string;
+}
+
+type DistributorSource = Partial<Record<keyof DistributorForm, string | null>>;
+
+function toForm(source: DistributorSource): DistributorForm {
+  return {
+    name: source.name ?? "",
+    branch: source.branch ?? "",
+    accountNumber: source.accountNumber ?? "",
+    paymentTerms: source.paymentTerms ?? "",
+    contactName: source.contactName ?? "",
+    contactEmail: source.contactEmail ?? "",
+    contactPhone: source.contactPhone ?? "",
+    notes: source.notes ?? "",
+  };
+}
+
+/** Empty optional fields are stored as NULL */
+function toInput(form: DistributorForm) {
+  const orNull = (value: string) => (value.trim() ? value.trim() : null);
+  return {
+    name: form.name.trim(),
+    branch: orNull(form.branch),
+    accountNumber: orNull(form.accountNumber),
+    paymentTerms: orNull(form.paymentTerms),
+    contactName: orNull(form.contactName),
+    contactEmail: orNull(form.contactEmail),
+    contactPhone: orNull(form.contactPhone),
+    notes: orNull(form.notes),
+  };
+}
+
+const formatPrice = (price: number) => `$${price.toFixed(2)}`;
+
+export default function Distributors() {
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<DistributorForm | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [systemFilter, setSystemFilter] = useState("all");
+  const [pricedOnly, setPricedOnly] = useState(true);
+
+  const { data: distributors, isLoading } = trpc.distributors.list.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { data: pricing } = trpc.pricing.list.useQuery(undefined, { refetchOnWindowFocus: false });
+  const { data: distributorPrices } = trpc.distributors.prices.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+
+  const createMutation = trpc.distributors.create.useMutation();
+  const updateMutation = trpc.distributors.update.useMutation();
+  const deleteMutation = trpc.distributors.delete.useMutation();
+  const setPricesMutation = trpc.distributors.setPrices.useMutation();
+  const removePriceMutation = trpc.distributors.removePrice.useMutation();
+  const utils = trpc.useUtils();
+
+  const set = <K extends keyof DistributorForm>(key: K, value: DistributorForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const openNew = () => {
+    setEditingId("new");
+    setForm(toForm({}));
+  };
+
+  const openEdit = (id: number) => {
+    const distributor = distributors?.find((d) => d.id === id);
+    if (!distributor) return;
+    setEditingId(id);
+    setForm(toForm(distributor));
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || editingId === null) return;
+    try {
+      if (editingId === "new") {
+        await createMutation.mutateAsync(toInput(form));
+        toast.success("Distributor added");
+      } else {
+        await updateMutation.mutateAsync({ id: editingId, ...toInput(form) });
+        toast.success("Distributor saved");
+      }
+      utils.distributors.list.invalidate();
+      closeEditor();
+    } catch {
+      toast.error("Failed to save distributor");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      await deleteMutation.mutateAsync({ id: deleteId });
+      utils.distributors.invalidate();
+      toast.success("Distributor deleted");
+      setDeleteId(null);
+    } catch {
+      toast.error("Failed to delete distributor");
+    }
+  };
+
+  /** Save one comparison cell; a blank value drops the product from the distributor's list */
+  const handlePriceChange = async (distributorId: number, productId: string, value: string) => {
+    try {
+      if (value.trim() === "") {
+        await removePriceMutation.mutateAsync({ distributorId, productId });
+      } else {
+        const price = parseFloat(value);
+        if (isNaN(price) || price < 0) {
+          toast.error("Enter a valid price");
+          return;
+        }
+        await setPricesMutation.mutateAsync({
+          distributorId,
+          prices: [{ productId, unitPrice: price.toFixed(2) }],
+        });
+      }
+      utils.distributors.prices.invalidate();
+    } catch {
+      toast.error("Failed to update price");
+    }
+  };
+
+  // distributorId -> productId -> price
+  const priceLists = useMemo(() => {
+    const lists = new Map<number, Map<string, number>>();
+    for (const p of distributorPrices ?? []) {
+      if (!lists.has(p.distributorId)) lists.set(p.distributorId, new Map());
+      lists.get(p.distributorId)!.set(p.productId, parseFloat(p.unitPrice));
+    }
+    return lists;
+  }, [distributorPrices]);
+
+  const rows = useMemo(() => {
+    const q = searchQuery.trim().toLowerCase();
+    return (pricing ?? []).filter((p) => {
+      if (systemFilter !== "all" && p.system !== systemFilter) return false;
+      if (q && !p.name.toLowerCase().includes(q) && !p.productId.toLowerCase().includes(q)) return false;
+      if (pricedOnly && !Array.from(priceLists.values()).some((list) => list.has(p.productId))) return false;
+      return true;
+    });
+  }, [pricing, systemFilter, searchQuery, pricedOnly, priceLists]);
+
+  const deleteTarget = distributors?.find((d) => d.id === deleteId);
+  const saving = createMutation.isPending || updateMutation.isPending;
+  const canSave = !!form && form.name.trim() !== "" && !saving;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-navy-deep to-navy-surface text-white">
+        <div className="container py-6">
+          <button
+            onClick={() => navigate("/pricing")}
+            className="flex items-center gap-1 text-white/70 hover:text-foreground text-sm mb-3 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Pricing Database
+          </button>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-card/10 rounded-lg">
+                <Truck className="h-6 w-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold">Distributors</h1>
+                <p className="text-white/70 text-sm">
+                  Supplier directory and price lists, side by side with your default price book
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <OrganizationSwitcher />
+              {isAdmin && (
+                <Button onClick={openNew} className="bg-card/10 hover:bg-card/20 text-white">
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Distributor
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container py-6 space-y-6">
+        {/* Directory */}
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !distributors || distributors.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <Truck className="h-12 w-12 text-muted-foreground/40 mb-4" />
+              <h3 className="text-lg font-medium text-muted-foreground">No distributors yet</h3>
+              <p className="text-sm text-muted-foreground/70 mt-1 max-w-sm">
+                Add the distributors you buy from to keep their price lists side by side and price estimates from
+                any of them.
+              </p>
+              {isAdmin && (
+                <Button variant="outline" className="mt-4" onClick={openNew}>
+                  Add Distributor
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {distributors.map((distributor) => (
+              <Card key={distributor.id} className="hover:shadow-md transition-shadow">
+                <CardContent className="p-4 sm:p-5">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-base truncate">{distributor.name}</h3>
+                      {distributor.branch && <p className="text-sm text-muted-foreground">{distributor.branch}</p>}
+                    </div>
+                    {isAdmin && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEdit(distributor.id)}
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(distributor.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5 mt-2">
+                    {distributor.accountNumber && <Badge variant="outline">Acct {distributor.accountNumber}</Badge>}
+                    {distributor.paymentTerms && <Badge variant="outline">{distributor.paymentTerms}</Badge>}
+                    <Badge variant="secondary">{priceLists.get(distributor.id)?.size ?? 0} prices</Badge>
+                  </div>
+                  {(distributor.contactName || distributor.contactEmail || distributor.contactPhone) && (
+                    <div className="mt-3 space-y-0.5 text-xs text-muted-foreground">
+                      {distributor.contactName && <div className="font-medium text-foreground">{distributor.contactName}</div>}
+                      {distributor.contactEmail && (
+                        <div className="flex items-center gap-1">
+                          <Mail className="h-3 w-3" />
+                          <a href={`mailto:${distributor.contactEmail}`} className="hover:underline">
+                            {distributor.contactEmail}
+                          </a>
+                        </div>
+                      )}
+                      {distributor.contactPhone && (
+                        <div className="flex items-center gap-1">
+                          <Phone className="h-3 w-3" />
+                          {distributor.contactPhone}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Price comparison */}
+        {distributors && distributors.length > 0 && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-lg">Price Comparison</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                The lowest price for each product is highlighted. Import a returned quote CSV from the Pricing
+                Database to fill a distributor's list{isAdmin ? ", or edit prices here" : ""}.
+              </p>
+              <div className="flex flex-wrap items-center gap-3 pt-2">
+                <div className="relative flex-1 min-w-[200px]">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search products..."
+                    className="pl-9"
+                  />
+                </div>
+                <Select value={systemFilter} onValueChange={setSystemFilter}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SYSTEM_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex items-center gap-2">
+                  <Switch id="priced-only" checked={pricedOnly} onCheckedChange={setPricedOnly} />
+                  <Label htmlFor="priced-only" className="text-sm font-normal">
+                    Only products a distributor has priced
+                  </Label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {rows.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  {pricedOnly ? "No distributor prices match. Turn off the filter to add prices." : "No products match."}
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                        <th className="text-left px-3 py-2">Product</th>
+                        <th className="text-right px-3 py-2">Default</th>
+                        {distributors.map((d) => (
+                          <th key={d.id} className="text-right px-3 py-2 whitespace-nowrap">
+                            {d.name}
+                            {d.branch && <div className="normal-case font-normal">{d.branch}</div>}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((product) => {
+                        const defaultPrice = parseFloat(product.unitPrice);
+                        const quoted = distributors
+                          .map((d) => priceLists.get(d.id)?.get(product.productId))
+                          .filter((p): p is number => p !== undefined);
+                        const lowest = Math.min(defaultPrice, ...quoted);
+                        return (
+                          <tr key={product.productId} className="border-t border-border">
+                            <td className="px-3 py-2">
+                              <div className="font-medium text-foreground">{product.name}</div>
+                              <div className="text-xs text-muted-foreground font-mono">{product.productId}</div>
+                            </td>
+                            <td className="px-3 py-2 text-right font-mono-nums text-muted-foreground">
+                              {formatPrice(defaultPrice)}
+                            </td>
+                            {distributors.map((d) => {
+                              const price = priceLists.get(d.id)?.get(product.productId);
+                              const isLowest = price !== undefined && quoted.length > 0 && price === lowest;
+                              return (
+                                <td
+                                  key={d.id}
+                                  className={`px-3 py-2 text-right font-mono-nums ${isLowest ? "text-success font-semibold" : ""}`}
+                                >
+                                  {isAdmin ? (
+                                    <PriceCell
+                                      price={price}
+                                      placeholder={formatPrice(defaultPrice)}
+                                      onSave={(value) => handlePriceChange(d.id, product.productId, value)}
+                                    />
+                                  ) : price !== undefined ? (
+                                    formatPrice(price)
+                                  ) : (
+                                    <span className="text-muted-foreground/60">—</span>
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {/* Editor */}
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && closeEditor()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId === "new" ? "New Distributor" : "Edit Distributor"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-2 gap-3 py-2">
+              <div className="space-y-2">
+                <Label htmlFor="distributor-name">Name *</Label>
+                <Input
+                  id="distributor-name"
+                  value={form.name}
+                  onChange={(e) => set("name", e.target.value)}
+                  placeholder="e.g. ABC Supply"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distributor-branch">Branch</Label>
+                <Input id="distributor-branch" value={form.branch} onChange={(e) => set("branch", e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distributor-account">Account #</Label>
+                <Input
+                  id="distributor-account"
+                  value={form.accountNumber}
+                  onChange={(e) => set("accountNumber", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distributor-terms">Payment Terms</Label>
+                <Input
+                  id="distributor-terms"
+                  value={form.paymentTerms}
+                  onChange={(e) => set("paymentTerms", e.target.value)}
+                  placeholder="e.g. Net 30"
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="distributor-contact">Contact</Label>
+                <Input
+                  id="distributor-contact"
+                  value={form.contactName}
+                  onChange={(e) => set("contactName", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distributor-email">Email</Label>
+                <Input
+                  id="distributor-email"
+                  type="email"
+                  value={form.contactEmail}
+                  onChange={(e) => set("contactEmail", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="distributor-phone">Phone</Label>
+                <Input
+                  id="distributor-phone"
+                  value={form.contactPhone}
+                  onChange={(e) => set("contactPhone", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="distributor-notes">Notes</Label>
+                <Textarea id="distributor-notes" rows={3} value={form.notes} onChange={(e) => set("notes", e.target.value)} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditor}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete distributor?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.name}" and its price list will be removed. Estimates priced from this distributor keep
+              their saved prices.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+/** Inline-editable distributor price; saves on blur or Enter when the value changed */
+function PriceCell({
+  price,
+  placeholder,
+  onSave,
+}: {
+  price: number | undefined;
+  placeholder: string;
+  onSave: (value: string) => void;
+}) {
+  const initial = price !== undefined ? price.toFixed(2) : "";
+  const [value, setValue] = useState(initial);
+  const [lastInitial, setLastInitial] = useState(initial);
+
+  // Follow the saved price when it changes underneath (refetch after save)
+  if (initial !== lastInitial) {
+    setLastInitial(initial);
+    setValue(initial);
+  }
+
+  const commit = () => {
+    if (value.trim() !== initial) onSave(value);
+  };
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+        if (e.key === "Escape") setValue(initial);
+      }}
+      placeholder={placeholder}
+      inputMode="decimal"
+      className="h-8 w-24 ml-auto text-right font-mono-nums"
+    />
+  );
+}
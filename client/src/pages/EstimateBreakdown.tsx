@@ -7,7 +7,7 @@
  * - "Add Item" button in every section for custom line items
  * - Tax & Profit per section with toggles
  * - Grand total with section subtotals
- * - Excel export and print
+ * - Excel export, print and customer proposal PDF
  */
 
 import { useState, useEffect, useCallback, useMemo } from "react";
@@ -20,6 +20,7 @@ import { Separator } from "@/components/ui/separator";
 import {
   ArrowLeft,
   FileSpreadsheet,
+  FileText,
   Printer,
   Package,
   Wrench,
@@ -52,6 +53,8 @@ import {
   type TaxProfitState,
 } from "@/lib/estimate-breakdown";
 import { SaveEstimateDialog } from "@/components/SaveEstimateDialog";
+import { ProposalDialog } from "@/components/ProposalDialog";
+import { computeTaxProfit } from "@shared/estimating/proposal";
 
 const DEFAULT_TAX_PROFIT: TaxProfitState = {
   taxEnabled: false,
@@ -84,6 +87,7 @@ export default function EstimateBreakdown() {
   const [data, setData] = useState<EstimateBreakdownData | null>(null);
   const [estimateCtx, setEstimateCtx] = useState<EstimateContext | null>(null);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [proposalDialogOpen, setProposalDialogOpen] = useState(false);
 
   // Editable copies of each section
   const [materials, setMaterials] = useState<BreakdownMaterialItem[]>([]);
@@ -320,12 +324,6 @@ export default function EstimateBreakdown() {
 
   // ── Compute tax & profit amounts per section ───────────────
 
-  const computeTaxProfit = (base: number, tp: TaxProfitState) => {
-    const taxAmount = tp.taxEnabled ? base * (tp.taxPercent / 100) : 0;
-    const profitAmount = tp.profitEnabled ? base * (tp.profitPercent / 100) : 0;
-    return { taxAmount, profitAmount, sectionTotal: base + taxAmount + profitAmount };
-  };
-
   const matTP = useMemo(() => computeTaxProfit(materialBase, materialsTaxProfit), [materialBase, materialsTaxProfit]);
   const penTP = useMemo(() => computeTaxProfit(penetrationBase, penetrationsTaxProfit), [penetrationBase, penetrationsTaxProfit]);
   const labTP = useMemo(() => computeTaxProfit(laborBase, laborTaxProfit), [laborBase, laborTaxProfit]);
@@ -344,9 +342,9 @@ export default function EstimateBreakdown() {
     return estimateCtx?.estimatorStateJson ?? "{}";
   }, [estimateCtx]);
 
-  /** Serialize the current breakdown editing state for DB persistence */
-  const breakdownStateJson = useMemo(() => {
-    return serializeBreakdownState({
+  /** The current breakdown editing state (saved to the DB and sent for proposals) */
+  const breakdownState = useMemo(
+    () => ({
       materials,
       penetrations,
       labor,
@@ -355,8 +353,12 @@ export default function EstimateBreakdown() {
       penetrationsTaxProfit,
       laborTaxProfit,
       equipmentTaxProfit,
-    });
-  }, [materials, penetrations, labor, equipment, materialsTaxProfit, penetrationsTaxProfit, laborTaxProfit, equipmentTaxProfit]);
+    }),
+    [materials, penetrations, labor, equipment, materialsTaxProfit, penetrationsTaxProfit, laborTaxProfit, equipmentTaxProfit]
+  );
+
+  /** Serialize the current breakdown editing state for DB persistence */
+  const breakdownStateJson = useMemo(() => serializeBreakdownState(breakdownState), [breakdownState]);
 
   const handleBackToEstimator = useCallback(() => {
     if (!data) return;
@@ -395,6 +397,7 @@ export default function EstimateBreakdown() {
         Category: m.category,
         Item: m.name,
         Description: m.description,
+        Sections: m.sections?.join(", ") ?? "",
         Unit: m.unit,
         Quantity: m.quantity,
         "Unit Price": m.unitPrice,
@@ -608,6 +611,15 @@ export default function EstimateBreakdown() {
                 <Printer className="w-4 h-4 mr-1" />
                 Print
               </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setProposalDialogOpen(true)}
+                className="text-white/80 hover:text-foreground hover:bg-card/10 text-xs"
+              >
+                <FileText className="w-4 h-4 mr-1" />
+                Proposal PDF
+              </Button>
               {estimateCtx && (
                 <Button
                   variant="ghost"
@@ -905,6 +917,17 @@ export default function EstimateBreakdown() {
         </div>
       </div>
 
+      {/* Proposal Dialog */}
+      <ProposalDialog
+        open={proposalDialogOpen}
+        onOpenChange={setProposalDialogOpen}
+        systemName={data.systemName}
+        roofArea={data.roofArea}
+        estimatorState={estimateCtx?.estimatorStateJson ?? "{}"}
+        breakdown={breakdownState}
+        projectName={estimateCtx?.estimateName}
+      />
+
       {/* Save Estimate Dialog */}
       {estimateCtx && (
         <SaveEstimateDialog
@@ -1125,7 +1148,10 @@ function MaterialRow({ item, onUpdate, isCustom, onRemove }: MaterialRowProps) {
         ) : (
           <>
             <p className="text-sm font-medium truncate">{item.name}</p>
-            <p className="text-xs text-muted-foreground truncate">{item.unit}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {item.unit}
+              {item.sections && item.sections.length > 0 && ` · ${item.sections.join(", ")}`}
+            </p>
           </>
         )}
       </div>
@@ -1307,7 +1333,11 @@ function LaborRow({ item, onUpdate, isCustom, onRemove }: LaborRowProps) {
           <Input
             type="number"
             min="0"
-            step={item.rateType === "per_sqft" || item.rateType === "per_lf" ? "0.01" : "1"}
+            step={
+              item.rateType === "per_sqft" || item.rateType === "per_lf" || item.rateType === "per_seam_lf"
+                ? "0.01"
+                : "1"
+            }
             value={item.rate}
             onChange={(e) => onUpdate(item.id, "rate", parseFloat(e.target.value) || 0)}
             className="h-7 text-xs text-right tabular-nums pl-4 w-full print:border-none print:bg-transparent"
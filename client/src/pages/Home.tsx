@@ -1,5 +1,8 @@
 /**
- * Karnak Metal Kynar Estimator — Home Page
+ * Coating System Estimator — Home Page
+ *
+ * Renders Karnak Metal Kynar by default; the silicone coating systems reuse
+ * this page by passing their CoatingSystem definition.
  *
  * Design: BidFix AI Dark Theme (RooFix-aligned)
  * - Dark navy with cyan accent
@@ -21,7 +24,7 @@ import { LaborEquipmentSection } from "@/components/LaborEquipmentSection";
 import { SystemInfo } from "@/components/SystemInfo";
 import { Footer } from "@/components/Footer";
 import RoofAdditions, { type RoofAdditionsHandle } from "@/components/RoofAdditions";
-import { type PenetrationEstimate } from "@/lib/penetrations-data";
+import { type PenetrationEstimate } from "@shared/estimating/penetrations-data";
 import { SaveEstimateDialog } from "@/components/SaveEstimateDialog";
 import { Button } from "@/components/ui/button";
 import { FileSpreadsheet, Save, FolderOpen } from "lucide-react";
@@ -30,18 +33,23 @@ import { serializeKarnakBreakdown } from "@/lib/breakdown-serializers";
 import {
   serializeKarnakState,
   deserializeKarnakState,
-} from "@/lib/estimate-state-serializers";
+} from "@shared/estimating/estimate-state-serializers";
+import { KARNAK_METAL_KYNAR_SYSTEM, getTotalDryMils, type CoatingSystem } from "@shared/estimating/karnak-data";
+import type { CoatingSystemId } from "@shared/estimating/estimate-state-serializers";
 import { toast } from "sonner";
 
-export default function Home() {
+interface HomeProps {
+  system?: CoatingSystem;
+}
+
+export default function Home({ system = KARNAK_METAL_KYNAR_SYSTEM }: HomeProps) {
   const [, navigate] = useLocation();
   const searchString = useSearch();
-  const estimator = useEstimator();
   const [penetrationEstimate, setPenetrationEstimate] = useState<PenetrationEstimate | null>(null);
   const penetrationCost = penetrationEstimate?.totalMaterialCost ?? 0;
   const roofAdditionsRef = useRef<RoofAdditionsHandle>(null);
   const [roofAdditionsInitialState, setRoofAdditionsInitialState] = useState<
-    { lineItems: Record<string, number>; sheetMetal: import("@/lib/sheet-metal-flashing-data").SheetMetalFlashingState } | undefined
+    { lineItems: Record<string, number>; sheetMetal: import("@shared/estimating/sheet-metal-flashing-data").SheetMetalFlashingState } | undefined
   >(undefined);
 
   // Save dialog state
@@ -52,16 +60,21 @@ export default function Home() {
 
   // Load estimate from URL param
   const loadEstimateId = new URLSearchParams(searchString).get("loadEstimate");
-  const { data: savedEstimate } = trpc.estimates.get.useQuery(
+  const { data: savedEstimate, isError: loadFailed } = trpc.estimates.get.useQuery(
     { id: Number(loadEstimateId) },
     { enabled: !!loadEstimateId },
   );
 
+  // A saved estimate keeps the prices it was saved with until repriced —
+  // locked from the moment one is requested, before it arrives
+  const pricesLocked = loadedEstimateId !== null || (!!loadEstimateId && !loadFailed);
+  const estimator = useEstimator(system, pricesLocked, penetrationEstimate?.totalLaborMinutes ?? 0);
+
   // Apply loaded estimate data
   useEffect(() => {
     if (!savedEstimate) return;
     const state = deserializeKarnakState(savedEstimate.data);
-    if (!state) {
+    if (!state || state.system !== system.id) {
       toast.error("Could not load this estimate — incompatible format.");
       return;
     }
@@ -70,11 +83,14 @@ export default function Home() {
     estimator.setSquareFootage(state.squareFootage);
     estimator.setVerticalSeamsLF(state.verticalSeamsLF);
     estimator.setHorizontalSeamsLF(state.horizontalSeamsLF);
+    if (state.warrantyYears) estimator.setWarrantyYears(state.warrantyYears);
+    // Restore the distributor price list (v4)
+    estimator.setDistributorId(state.distributorId ?? null);
+    // Restore the job start date prices are taken as of (v5)
+    estimator.setPriceDate(state.priceDate ?? null);
 
-    // Restore custom prices
-    Object.entries(state.customPrices).forEach(([id, price]) => {
-      estimator.updatePrice(id, price);
-    });
+    // Restore the saved prices in place of whatever was showing
+    estimator.loadPrices(state.customPrices);
 
     // Restore labor/equipment
     if (state.laborEquipment) {
@@ -109,25 +125,33 @@ export default function Home() {
     toast.success(`Loaded estimate: "${savedEstimate.name}"`);
 
     // Clean URL
-    window.history.replaceState({}, "", "/estimator/karnak-metal-kynar");
+    window.history.replaceState({}, "", `/estimator/${system.id}`);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [savedEstimate]);
 
   const getEstimateData = useCallback(() => {
     return serializeKarnakState({
+      system: system.id as CoatingSystemId,
       squareFootage: estimator.squareFootage,
       verticalSeamsLF: estimator.verticalSeamsLF,
       horizontalSeamsLF: estimator.horizontalSeamsLF,
+      warrantyYears: estimator.warrantyYears,
       customPrices: estimator.customPrices,
       laborEquipment: estimator.laborEquipment,
       penetrationsState: roofAdditionsRef.current?.getState(),
+      distributorId: estimator.distributorId,
+      priceDate: estimator.priceDate,
     });
   }, [
+    system.id,
     estimator.squareFootage,
     estimator.verticalSeamsLF,
     estimator.horizontalSeamsLF,
+    estimator.warrantyYears,
     estimator.customPrices,
     estimator.laborEquipment,
+    estimator.distributorId,
+    estimator.priceDate,
     penetrationEstimate,
   ]);
 
@@ -143,8 +167,8 @@ export default function Home() {
     storeEstimateContext({
       estimateId: loadedEstimateId,
       estimateName: loadedEstimateName,
-      system: "karnak-metal-kynar",
-      systemLabel: "Karnak Metal Kynar",
+      system: system.id,
+      systemLabel: system.shortName,
       estimatorStateJson: getEstimateData(),
       grandTotal: estimator.projectTotal,
       roofArea: Number(estimator.squareFootage) || 0,
@@ -155,11 +179,11 @@ export default function Home() {
       if (parsed) storeBreakdownSaveState(parsed);
     }
     navigate("/breakdown");
-  }, [estimator.estimate, estimator.laborEquipment, penetrationEstimate, navigate, loadedEstimateId, loadedEstimateName, getEstimateData, estimator.projectTotal, estimator.squareFootage, savedBreakdownStateJson]);
+  }, [system, estimator.estimate, estimator.laborEquipment, penetrationEstimate, navigate, loadedEstimateId, loadedEstimateName, getEstimateData, estimator.projectTotal, estimator.squareFootage, savedBreakdownStateJson]);
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
-      <HeroSection />
+      <HeroSection system={system} />
 
       {/* Loaded estimate banner */}
       {loadedEstimateName && (
@@ -197,21 +221,38 @@ export default function Home() {
               setHorizontalSeamsLF={estimator.setHorizontalSeamsLF}
               onClear={estimator.clearAll}
               hasInputs={estimator.hasInputs}
+              warrantyTerms={system.warrantyTerms}
+              warrantyYears={estimator.warrantyYears}
+              setWarrantyYears={estimator.setWarrantyYears}
+              totalDryMils={getTotalDryMils(system, estimator.warrantyYears)}
             />
             <LaborEquipmentSection
               laborEquipment={estimator.laborEquipment}
               updateLaborItem={estimator.updateLaborItem}
               updateEquipmentItem={estimator.updateEquipmentItem}
               resetLaborEquipment={estimator.resetLaborEquipment}
+              detailLaborMinutes={penetrationEstimate?.totalLaborMinutes ?? 0}
             />
             <PricingEditor
               customPrices={estimator.customPrices}
               updatePrice={estimator.updatePrice}
               resetPrices={estimator.resetPrices}
+              distributorId={estimator.distributorId}
+              onPriceListChange={estimator.changePriceList}
+              priceDate={estimator.priceDate}
+              onPriceDateChange={estimator.changePriceDate}
+              reprice={
+                loadedEstimateId !== null
+                  ? { getEstimateData, currentPrices: estimator.dbPriceMap, onAccept: estimator.acceptRepricing }
+                  : undefined
+              }
+              products={system.products}
             />
             <RoofAdditions
               ref={roofAdditionsRef}
               onEstimateChange={setPenetrationEstimate}
+              system={system.id}
+              prices={estimator.customPrices}
               accentColor="red"
               initialState={roofAdditionsInitialState}
             />
@@ -253,7 +294,7 @@ export default function Home() {
           </div>
         </div>
 
-        <SystemInfo />
+        <SystemInfo system={system} />
       </main>
 
       <Footer />
@@ -261,8 +302,8 @@ export default function Home() {
       <SaveEstimateDialog
         open={saveDialogOpen}
         onOpenChange={setSaveDialogOpen}
-        system="karnak-metal-kynar"
-        systemLabel="Karnak Metal Kynar"
+        system={system.id}
+        systemLabel={system.shortName}
         getEstimateData={getEstimateData}
         grandTotal={estimator.projectTotal}
         roofArea={parseFloat(estimator.squareFootage) || 0}
@@ -27,9 +27,19 @@ import {
   TrendingDown,
   Minus,
   CalendarDays,
+  Truck,
+  Scale,
+  Percent,
+  Undo2,
 } from "lucide-react";
 import { trpc } from "@/lib/trpc";
-import { getAllProducts, SYSTEM_OPTIONS, type PricingProduct } from "@/lib/all-products";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
+import { QuoteLeveling } from "@/components/QuoteLeveling";
+import { PriceImpactDialog } from "@/components/PriceImpactDialog";
+import { getAllProducts, SYSTEM_OPTIONS, type PricingProduct } from "@shared/estimating/all-products";
+import { getPricingPrefix } from "@shared/estimating/project-estimate";
+import { ROUNDING_INCREMENTS } from "@shared/estimating/price-adjustment";
 import { toast } from "sonner";
 
 // ─── Types ──────────────────────────────────────────────────────────
@@ -42,14 +52,74 @@ interface PriceEditState {
 interface ImportRow {
   productId: string;
   name: string;
+  /** The distributor's SKU / description the row was matched from */
+  sourceText: string;
+  matchedBy: "productId" | "sku" | "description";
+  confidence: number;
   newPrice: string;
   currentPrice: string;
   diff: string;
   diffPercent: number;
+  flagged: boolean;
 }
 
+interface ImportFile {
+  fileName: string;
+  /** File content, base64 */
+  content: string;
+}
+
+interface AdjustForm {
+  system: string;
+  manufacturer: string;
+  category: string;
+  mode: "percent" | "amount";
+  value: string;
+  roundTo: string;
+}
+
+const DEFAULT_ADJUST_FORM: AdjustForm = {
+  system: "all",
+  manufacturer: "all",
+  category: "all",
+  mode: "percent",
+  value: "",
+  roundTo: "0.01",
+};
+
+type ImportMappingField = "productId" | "sku" | "description" | "price";
+
+const IMPORT_MAPPING_FIELDS: Array<{ field: ImportMappingField; label: string }> = [
+  { field: "productId", label: "Product ID" },
+  { field: "sku", label: "Distributor SKU" },
+  { field: "description", label: "Description" },
+  { field: "price", label: "New Price" },
+];
+
+const MATCH_LABELS: Record<ImportRow["matchedBy"], string> = {
+  productId: "Product ID",
+  sku: "SKU",
+  description: "Description",
+};
+
+const UNMATCHED_REASONS: Record<string, string> = {
+  "no-match": "No matching product",
+  ambiguous: "Matches several products",
+  duplicate: "Product already priced above",
+  "invalid-price": "Not a price",
+};
+
+/** Column mapping select value for an unmapped field */
+const NOT_MAPPED = "none";
+
 type Tab = "products" | "quotes";
 
+/** Import target for the default price book (otherwise a distributor ID) */
+const DEFAULT_PRICE_BOOK = "default";
+
+/** Date-only values ("YYYY-MM-DD") are UTC midnight; show them as that calendar date */
+const formatScheduleDate = (date: Date | string) => new Date(date).toLocaleDateString(undefined, { timeZone: "UTC" });
+
 const STATUS_CONFIG: Record<string, { label: string; color: string; icon: React.ReactNode }> = {
   draft: { label: "Draft", color: "bg-muted text-muted-foreground", icon: <FileText className="w-3.5 h-3.5" /> },
   sent: { label: "Sent", color: "bg-cyan/20 text-cyan", icon: <Send className="w-3.5 h-3.5" /> },
@@ -63,12 +133,18 @@ export default function PricingDatabase() {
   const [activeTab, setActiveTab] = useState<Tab>("products");
   const [searchQuery, setSearchQuery] = useState("");
   const [systemFilter, setSystemFilter] = useState("all");
+  const [priceAsOf, setPriceAsOf] = useState("");
   const [editingPrice, setEditingPrice] = useState<PriceEditState | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [showImportModal, setShowImportModal] = useState(false);
-  const [importData, setImportData] = useState<ImportRow[]>([]);
+  const [importFile, setImportFile] = useState<ImportFile | null>(null);
+  const [importThreshold, setImportThreshold] = useState("10");
+  const [excludedImportRows, setExcludedImportRows] = useState<Set<string>>(new Set());
   const [importSource, setImportSource] = useState("");
   const [importQuoteId, setImportQuoteId] = useState<number | null>(null);
+  const [importTarget, setImportTarget] = useState(DEFAULT_PRICE_BOOK);
+  const [importEffectiveFrom, setImportEffectiveFrom] = useState("");
+  const [importEffectiveTo, setImportEffectiveTo] = useState("");
   const [showHistoryModal, setShowHistoryModal] = useState(false);
   const [historyProductId, setHistoryProductId] = useState("");
   const [historyProductName, setHistoryProductName] = useState("");
@@ -76,19 +152,38 @@ export default function PricingDatabase() {
   const [newQuoteName, setNewQuoteName] = useState("");
   const [newQuoteSystem, setNewQuoteSystem] = useState("all");
   const [newQuoteDistributor, setNewQuoteDistributor] = useState("");
+  const [newQuoteDistributorId, setNewQuoteDistributorId] = useState("");
+  const [newQuoteEstimateId, setNewQuoteEstimateId] = useState("");
+  const [levelingQuoteId, setLevelingQuoteId] = useState<number | null>(null);
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+  const [adjustForm, setAdjustForm] = useState<AdjustForm>(DEFAULT_ADJUST_FORM);
+  const [excludedAdjustRows, setExcludedAdjustRows] = useState<Set<string>>(new Set());
+  // Products changed by the last bulk update, for its impact on open estimates
+  const [impactProductIds, setImpactProductIds] = useState<string[] | null>(null);
   const [seeded, setSeeded] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const importForQuoteRef = useRef<number | null>(null);
+  const importForQuoteRef = useRef<{ id: number; distributorId: number | null } | null>(null);
+
+  // Price edits, imports and seeding are admin-only on the server
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
 
   // tRPC queries
-  const pricingQuery = trpc.pricing.list.useQuery(
-    systemFilter !== "all" ? { system: systemFilter } : undefined,
-  );
+  const pricingQuery = trpc.pricing.list.useQuery({
+    system: systemFilter !== "all" ? systemFilter : undefined,
+    asOf: priceAsOf ? new Date(priceAsOf) : undefined,
+  });
+  const scheduleQuery = trpc.pricing.schedule.useQuery();
+  const batchesQuery = trpc.pricing.batches.useQuery();
   const historyQuery = trpc.pricing.history.useQuery(
     { productId: historyProductId },
     { enabled: !!historyProductId },
   );
   const quotesQuery = trpc.pricing.quotes.useQuery();
+  const distributorsQuery = trpc.distributors.list.useQuery();
+  const estimatesQuery = trpc.estimates.list.useQuery(undefined, { enabled: showNewQuoteModal });
+  const utils = trpc.useUtils();
+  const importDistributorId = importTarget !== DEFAULT_PRICE_BOOK ? Number(importTarget) : undefined;
 
   // tRPC mutations
   const updatePriceMutation = trpc.pricing.updatePrice.useMutation({
@@ -98,11 +193,15 @@ export default function PricingDatabase() {
       toast.success("Price updated");
     },
   });
+  const previewImportMutation = trpc.pricing.previewImport.useMutation({
+    onSuccess: () => setShowImportModal(true),
+    onError: (err) => toast.error(err.message),
+  });
+  const importPreview = previewImportMutation.data;
   const bulkUpdateMutation = trpc.pricing.bulkUpdate.useMutation({
     onSuccess: (result) => {
       pricingQuery.refetch();
-      setShowImportModal(false);
-      setImportData([]);
+      closeImport();
       // If this import was linked to a quote, update its status
       if (importQuoteId) {
         updateQuoteStatusMutation.mutate({ id: importQuoteId, status: "applied" });
@@ -112,7 +211,82 @@ export default function PricingDatabase() {
       if (result.failed.length > 0) {
         toast.error(`${result.failed.length} updates failed`);
       }
+      setImpactProductIds(result.productIds);
+    },
+  });
+  const schedulePricesMutation = trpc.pricing.schedulePrices.useMutation({
+    onSuccess: (result, input) => {
+      pricingQuery.refetch();
+      scheduleQuery.refetch();
+      closeImport();
+      toast.success(
+        result.applied > 0
+          ? `${result.applied} prices updated; they take effect ${formatScheduleDate(input.effectiveFrom)}`
+          : `${result.scheduled} price changes scheduled for ${formatScheduleDate(input.effectiveFrom)}`,
+      );
+      setImpactProductIds(result.productIds);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const applyDuePricesMutation = trpc.pricing.applyDuePrices.useMutation({
+    onSuccess: (result) => {
+      pricingQuery.refetch();
+      scheduleQuery.refetch();
+      toast.success(`${result.applied} scheduled prices applied, ${result.reverted} reverted`);
+      setImpactProductIds(result.productIds);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const cancelScheduledPriceMutation = trpc.pricing.cancelScheduledPrice.useMutation({
+    onSuccess: () => {
+      scheduleQuery.refetch();
+      toast.success("Scheduled price canceled");
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const previewAdjustMutation = trpc.pricing.bulkAdjust.useMutation({
+    onError: (err) => toast.error(err.message),
+  });
+  const adjustPreview = previewAdjustMutation.data;
+  const undoBatchMutation = trpc.pricing.undoBatch.useMutation({
+    onSuccess: (result) => {
+      pricingQuery.refetch();
+      batchesQuery.refetch();
+      toast.success(`${result.restored} prices restored`);
+      if (result.skipped.length > 0) {
+        toast.warning(`${result.skipped.length} prices changed again since and were left as they are`);
+      }
+      setImpactProductIds(result.productIds);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const applyAdjustMutation = trpc.pricing.bulkAdjust.useMutation({
+    onSuccess: (result) => {
+      pricingQuery.refetch();
+      batchesQuery.refetch();
+      closeAdjust();
+      const { batchId } = result;
+      toast.success(`${result.updated} prices adjusted`, {
+        action: batchId !== null ? { label: "Undo", onClick: () => undoBatchMutation.mutate({ batchId }) } : undefined,
+      });
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} updates failed`);
+      }
+      setImpactProductIds(result.productIds);
+    },
+    onError: (err) => toast.error(err.message),
+  });
+  const setDistributorPricesMutation = trpc.distributors.setPrices.useMutation({
+    onSuccess: (result) => {
+      closeImport();
+      if (importQuoteId) {
+        updateQuoteStatusMutation.mutate({ id: importQuoteId, status: "applied" });
+        setImportQuoteId(null);
+      }
+      const distributor = distributorsQuery.data?.find((d) => d.id === importDistributorId);
+      toast.success(`${result.updated} prices saved to ${distributor?.name ?? "the distributor"}'s price list`);
     },
+    onError: (err) => toast.error(err.message),
   });
   const resetMutation = trpc.pricing.resetToDefault.useMutation({
     onSuccess: () => {
@@ -127,29 +301,67 @@ export default function PricingDatabase() {
     },
   });
   const createQuoteMutation = trpc.pricing.createQuote.useMutation({
-    onSuccess: () => {
+    onSuccess: ({ id }, input) => {
       quotesQuery.refetch();
       setShowNewQuoteModal(false);
       setNewQuoteName("");
       setNewQuoteDistributor("");
+      setNewQuoteDistributorId("");
+      setNewQuoteEstimateId("");
       toast.success("Quote request created");
+      // Auto-export CSV
+      exportQuote({ id, name: input.name, system: input.system });
     },
+    onError: (err) => toast.error(err.message),
   });
   const updateQuoteStatusMutation = trpc.pricing.updateQuoteStatus.useMutation({
     onSuccess: () => {
       quotesQuery.refetch();
     },
   });
+  const recordQuoteResponseMutation = trpc.pricing.recordQuoteResponse.useMutation({
+    onSuccess: (result, input) => {
+      closeImport();
+      setImportQuoteId(null);
+      quotesQuery.refetch();
+      utils.pricing.quoteItems.invalidate({ quoteId: input.quoteId });
+      utils.distributors.prices.invalidate();
+      setLevelingQuoteId(input.quoteId);
+      const distributor = distributorsQuery.data?.find((d) => d.id === input.distributorId);
+      toast.success(`${result.recorded} prices recorded from ${distributor?.name ?? "the distributor"}`);
+      if (result.unmatched.length > 0) {
+        toast.warning(`${result.unmatched.length} products weren't on the quote request; saved to the price list only`);
+      }
+    },
+    onError: (err) => toast.error(err.message),
+  });
 
   // Get all products from local data models
   const allLocalProducts = useMemo(() => getAllProducts(), []);
-
-  // Seed database with default pricing if empty
+  const productNames = useMemo(
+    () => new Map(allLocalProducts.map((p) => [p.productId, p.name])),
+    [allLocalProducts],
+  );
+  // Scheduled changes the schedule job hasn't written to the book yet
+  const dueChangeCount = useMemo(() => {
+    const now = Date.now();
+    return (scheduleQuery.data ?? []).filter((change) =>
+      change.appliedAt
+        ? change.effectiveTo !== null && new Date(change.effectiveTo).getTime() <= now
+        : new Date(change.effectiveFrom).getTime() <= now,
+    ).length;
+  }, [scheduleQuery.data]);
+
+  // Seed database with default pricing for any products it doesn't have yet
+  // (empty DB, or a newly added system such as Firestone EPDM)
   useEffect(() => {
-    if (pricingQuery.data && pricingQuery.data.length === 0 && !seeded && !seedMutation.isPending) {
-      seedMutation.mutate({ products: allLocalProducts });
+    if (!isAdmin || !pricingQuery.data || seeded || seedMutation.isPending) return;
+    const dbIds = new Set(pricingQuery.data.map((p) => p.productId));
+    const missing = allLocalProducts.filter((p) => !dbIds.has(p.productId));
+    if (missing.length > 0) {
+      seedMutation.mutate({ products: missing });
     }
-  }, [pricingQuery.data, seeded]);
+  }, [pricingQuery.data, seeded, isAdmin]);
 
   // Merge DB pricing with local products for display
   const products = useMemo(() => {
@@ -259,111 +471,273 @@ export default function PricingDatabase() {
     toast.success(`Exported ${exportProducts.length} products to CSV`);
   }, [filteredProducts, products, systemFilter]);
 
-  // ─── Import CSV ───────────────────────────────────────────────────
-
-  const handleFileImport = useCallback(
-    (e: React.ChangeEvent<HTMLInputElement>) => {
-      const file = e.target.files?.[0];
-      if (!file) return;
-
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        const lines = text.split("\n").filter((l) => l.trim());
-        if (lines.length < 2) {
-          toast.error("CSV file appears to be empty");
-          return;
-        }
-
-        const header = lines[0].split(",").map((h) => h.replace(/"/g, "").trim().toLowerCase());
-        const productIdIdx = header.findIndex((h) => h.includes("product id"));
-        const newPriceIdx = header.findIndex((h) => h.includes("new price"));
-        const nameIdx = header.findIndex((h) => h.includes("product name") || h === "name");
-
-        if (productIdIdx === -1 || newPriceIdx === -1) {
-          toast.error("CSV must contain 'Product ID' and 'New Price' columns");
-          return;
-        }
-
-        const dbMap = new Map(products.map((p) => [p.productId, p]));
-        const rows: ImportRow[] = [];
-
-        for (let i = 1; i < lines.length; i++) {
-          const cols = lines[i].split(",").map((c) => c.replace(/"/g, "").trim());
-          const productId = cols[productIdIdx];
-          const newPrice = cols[newPriceIdx];
-          if (!productId || !newPrice || isNaN(parseFloat(newPrice))) continue;
-
-          const existing = dbMap.get(productId);
-          const currentPrice = existing ? existing.unitPrice.toFixed(2) : "N/A";
-          const diffPercent = existing
-            ? ((parseFloat(newPrice) - existing.unitPrice) / existing.unitPrice) * 100
-            : 0;
-          const diff = existing
-            ? (diffPercent >= 0 ? "+" : "") + diffPercent.toFixed(1) + "%"
-            : "New";
-
-          rows.push({
-            productId,
-            name: cols[nameIdx] || existing?.name || productId,
-            newPrice: parseFloat(newPrice).toFixed(2),
-            currentPrice,
-            diff,
-            diffPercent,
-          });
-        }
-
-        if (rows.length === 0) {
-          toast.error("No valid price updates found in the CSV");
-          return;
-        }
-
-        // Check if we're importing for a specific quote
-        if (importForQuoteRef.current) {
-          setImportQuoteId(importForQuoteRef.current);
-          importForQuoteRef.current = null;
-        }
-
-        setImportData(rows);
-        setShowImportModal(true);
-      };
-      reader.readAsText(file);
-      e.target.value = "";
+  /** Export a quote's own line items (with order quantities), or the system's products for older quotes */
+  const exportQuote = useCallback(
+    async (quote: { id: number; name: string; system: string }) => {
+      const items = await utils.pricing.quoteItems.fetch({ quoteId: quote.id });
+      if (items.length === 0) {
+        exportQuoteCSV(quote.system, quote.name);
+        return;
+      }
+
+      const currentPrices = new Map(products.map((p) => [p.productId, p.unitPrice]));
+      const rows = [["Product ID", "Product Name", "Unit", "Quantity", "Current Price", "New Price (fill in)"]];
+      for (const item of items) {
+        rows.push([
+          item.productId,
+          item.name,
+          item.unit,
+          item.quantity != null ? String(parseFloat(item.quantity)) : "",
+          currentPrices.get(item.productId)?.toFixed(2) ?? "",
+          "",
+        ]);
+      }
+      const csv = rows.map((r) => r.map((c) => `"${c}"`).join(",")).join("\n");
+      const blob = new Blob([csv], { type: "text/csv" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `quote-request-${quote.name.replace(/\s+/g, "-").toLowerCase()}-${new Date().toISOString().slice(0, 10)}.csv`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${items.length} products to CSV`);
     },
-    [products],
+    [exportQuoteCSV, products, utils],
+  );
+
+  // ─── Import CSV / XLSX ────────────────────────────────────────────
+
+  // The server parses the file, matches rows to products and returns a
+  // dry-run preview; re-run it whenever the mapping, target or threshold changes
+  const previewImport = (
+    file: ImportFile,
+    options: { mapping?: NonNullable<typeof importPreview>["mapping"]; target?: string; threshold?: string } = {},
+  ) => {
+    const target = options.target ?? importTarget;
+    previewImportMutation.mutate({
+      ...file,
+      mapping: options.mapping,
+      distributorId: target !== DEFAULT_PRICE_BOOK ? Number(target) : undefined,
+      flagThresholdPercent: parseFloat(options.threshold ?? importThreshold) || 0,
+    });
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const dataUrl = event.target?.result as string;
+      const imported = { fileName: file.name, content: dataUrl.slice(dataUrl.indexOf(",") + 1) };
+
+      // Check if we're importing for a specific quote — a quote from a
+      // directory distributor updates that distributor's price list
+      let target = DEFAULT_PRICE_BOOK;
+      if (importForQuoteRef.current) {
+        const quote = importForQuoteRef.current;
+        setImportQuoteId(quote.id);
+        if (quote.distributorId != null) target = String(quote.distributorId);
+        importForQuoteRef.current = null;
+      }
+
+      setImportTarget(target);
+      setImportFile(imported);
+      setExcludedImportRows(new Set());
+      previewImport(imported, { target });
+    };
+    reader.readAsDataURL(file);
+    e.target.value = "";
+  };
+
+  const changeImportMapping = (field: ImportMappingField, value: string) => {
+    if (!importFile || !importPreview) return;
+    setExcludedImportRows(new Set());
+    previewImport(importFile, {
+      mapping: { ...importPreview.mapping, [field]: value === NOT_MAPPED ? undefined : Number(value) },
+    });
+  };
+
+  const changeImportTarget = (target: string) => {
+    setImportTarget(target);
+    if (importFile) previewImport(importFile, { mapping: importPreview?.mapping, target });
+  };
+
+  const closeImport = () => {
+    setShowImportModal(false);
+    setImportFile(null);
+    setImportEffectiveFrom("");
+    setImportEffectiveTo("");
+    previewImportMutation.reset();
+  };
+
+  const toggleImportRow = (productId: string) => {
+    setExcludedImportRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const importRows = useMemo<ImportRow[]>(
+    () =>
+      (importPreview?.rows || []).map((row) => {
+        const diffPercent = row.changePercent ?? 0;
+        return {
+          productId: row.productId,
+          name: row.name,
+          sourceText: row.sourceText,
+          matchedBy: row.matchedBy,
+          confidence: row.confidence,
+          newPrice: row.newPrice.toFixed(2),
+          currentPrice: row.currentPrice.toFixed(2),
+          diff: row.changePercent !== null ? (diffPercent >= 0 ? "+" : "") + diffPercent.toFixed(1) + "%" : "New",
+          diffPercent,
+          flagged: row.flagged,
+        };
+      }),
+    [importPreview],
   );
+  const selectedImportRows = importRows.filter((r) => !excludedImportRows.has(r.productId));
 
   const applyImport = () => {
-    const updates = importData.map((r) => ({
+    const source = importSource || "CSV Import";
+    // A distributor's response to a quote is recorded on the quote for leveling
+    if (importQuoteId && importDistributorId !== undefined) {
+      recordQuoteResponseMutation.mutate({
+        quoteId: importQuoteId,
+        distributorId: importDistributorId,
+        prices: selectedImportRows.map((r) => ({ productId: r.productId, unitPrice: r.newPrice })),
+        source,
+      });
+      return;
+    }
+    if (importDistributorId !== undefined) {
+      setDistributorPricesMutation.mutate({
+        distributorId: importDistributorId,
+        prices: selectedImportRows.map((r) => ({ productId: r.productId, unitPrice: r.newPrice })),
+        source,
+      });
+      return;
+    }
+    // An effective date schedules the price list instead of applying it now
+    if (importEffectiveFrom) {
+      schedulePricesMutation.mutate({
+        prices: selectedImportRows.map((r) => ({ productId: r.productId, unitPrice: r.newPrice })),
+        effectiveFrom: new Date(importEffectiveFrom),
+        effectiveTo: importEffectiveTo ? new Date(importEffectiveTo) : undefined,
+        source,
+      });
+      return;
+    }
+    const updates = selectedImportRows.map((r) => ({
       productId: r.productId,
       newPrice: r.newPrice,
-      source: importSource || "CSV Import",
+      source,
     }));
     bulkUpdateMutation.mutate({ updates });
   };
 
+  // ─── Bulk Adjust ──────────────────────────────────────────────────
+
+  // Manufacturer and category choices narrow with the chosen system
+  const adjustOptions = useMemo(() => {
+    const inSystem = allLocalProducts.filter((p) => adjustForm.system === "all" || p.system === adjustForm.system);
+    const manufacturers = Array.from(new Set(inSystem.map((p) => p.manufacturer))).sort();
+    const categories = Array.from(
+      new Set(
+        inSystem
+          .filter((p) => adjustForm.manufacturer === "all" || p.manufacturer === adjustForm.manufacturer)
+          .map((p) => p.category),
+      ),
+    ).sort();
+    return { manufacturers, categories };
+  }, [allLocalProducts, adjustForm.system, adjustForm.manufacturer]);
+
+  const adjustInput = (dryRun: boolean) => ({
+    system: adjustForm.system !== "all" ? adjustForm.system : undefined,
+    manufacturer: adjustForm.manufacturer !== "all" ? adjustForm.manufacturer : undefined,
+    category: adjustForm.category !== "all" ? adjustForm.category : undefined,
+    mode: adjustForm.mode,
+    value: parseFloat(adjustForm.value) || 0,
+    roundTo: parseFloat(adjustForm.roundTo),
+    excludeProductIds: Array.from(excludedAdjustRows),
+    dryRun,
+  });
+
+  // Any change to the adjustment invalidates the preview
+  const changeAdjustForm = (changes: Partial<AdjustForm>) => {
+    setAdjustForm((prev) => ({ ...prev, ...changes }));
+    setExcludedAdjustRows(new Set());
+    previewAdjustMutation.reset();
+  };
+
+  const closeAdjust = () => {
+    setShowAdjustModal(false);
+    setAdjustForm(DEFAULT_ADJUST_FORM);
+    setExcludedAdjustRows(new Set());
+    previewAdjustMutation.reset();
+  };
+
+  const toggleAdjustRow = (productId: string) => {
+    setExcludedAdjustRows((prev) => {
+      const next = new Set(prev);
+      if (next.has(productId)) next.delete(productId);
+      else next.add(productId);
+      return next;
+    });
+  };
+
+  const selectedAdjustCount = (adjustPreview?.rows || []).filter(
+    (r) => !r.skipReason && !excludedAdjustRows.has(r.productId),
+  ).length;
+
   // ─── Quote Request Handlers ───────────────────────────────────────
 
   const createQuoteRequest = () => {
+    const name = newQuoteName || `Quote Request - ${new Date().toLocaleDateString()}`;
+    const distributorId = newQuoteDistributorId ? Number(newQuoteDistributorId) : undefined;
+    const distributor = newQuoteDistributor || undefined;
+
+    // From a saved estimate the server builds the order list and its value
+    if (newQuoteEstimateId) {
+      createQuoteMutation.mutate({
+        name,
+        system: newQuoteSystem,
+        distributorId,
+        distributor,
+        estimateId: Number(newQuoteEstimateId),
+      });
+      return;
+    }
+
     const targetProducts = newQuoteSystem !== "all"
       ? products.filter((p) => p.system === newQuoteSystem)
       : products;
     const totalValue = targetProducts.reduce((sum, p) => sum + p.unitPrice, 0);
 
     createQuoteMutation.mutate({
-      name: newQuoteName || `Quote Request - ${new Date().toLocaleDateString()}`,
+      name,
       system: newQuoteSystem,
-      distributor: newQuoteDistributor || undefined,
+      distributorId,
+      distributor,
       productCount: targetProducts.length,
       totalValue: totalValue.toFixed(2),
     });
+  };
 
-    // Auto-export CSV
-    exportQuoteCSV(newQuoteSystem, newQuoteName);
+  const chooseQuoteEstimate = (estimateId: string) => {
+    setNewQuoteEstimateId(estimateId);
+    const estimate = estimatesQuery.data?.find((e) => String(e.id) === estimateId);
+    if (estimate) {
+      setNewQuoteSystem(getPricingPrefix(estimate.system) ?? estimate.system);
+      if (!newQuoteName) setNewQuoteName(`${estimate.name} Materials`);
+    }
   };
 
-  const handleQuoteImport = (quoteId: number) => {
-    importForQuoteRef.current = quoteId;
+  const handleQuoteImport = (quoteId: number, distributorId: number | null) => {
+    importForQuoteRef.current = { id: quoteId, distributorId };
     fileInputRef.current?.click();
   };
 
@@ -402,13 +776,20 @@ export default function PricingDatabase() {
 
   // Import summary stats
   const importStats = useMemo(() => {
-    if (importData.length === 0) return null;
-    const increases = importData.filter((r) => r.diffPercent > 0);
-    const decreases = importData.filter((r) => r.diffPercent < 0);
-    const unchanged = importData.filter((r) => r.diffPercent === 0);
-    const avgChange = importData.reduce((sum, r) => sum + r.diffPercent, 0) / importData.length;
-    return { increases: increases.length, decreases: decreases.length, unchanged: unchanged.length, avgChange };
-  }, [importData]);
+    if (importRows.length === 0) return null;
+    const increases = importRows.filter((r) => r.diffPercent > 0);
+    const decreases = importRows.filter((r) => r.diffPercent < 0);
+    const unchanged = importRows.filter((r) => r.diffPercent === 0);
+    const flagged = importRows.filter((r) => r.flagged);
+    const avgChange = importRows.reduce((sum, r) => sum + r.diffPercent, 0) / importRows.length;
+    return {
+      increases: increases.length,
+      decreases: decreases.length,
+      unchanged: unchanged.length,
+      flagged: flagged.length,
+      avgChange,
+    };
+  }, [importRows]);
 
   // ─── Render ───────────────────────────────────────────────────────
 
@@ -433,6 +814,16 @@ export default function PricingDatabase() {
                 </p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <Link
+                href="/distributors"
+                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium bg-card/10 border border-white/20 hover:bg-card/20 transition-colors"
+              >
+                <Truck className="w-4 h-4" />
+                Distributors
+              </Link>
+              <OrganizationSwitcher />
+            </div>
           </div>
 
           {/* Tabs */}
@@ -526,6 +917,20 @@ export default function PricingDatabase() {
                   ))}
                 </select>
 
+                <label
+                  className="inline-flex items-center gap-2 text-sm text-muted-foreground whitespace-nowrap"
+                  title="Show the prices in effect on a date, including scheduled changes"
+                >
+                  <CalendarDays className="w-4 h-4" />
+                  Price as of
+                  <input
+                    type="date"
+                    value={priceAsOf}
+                    onChange={(e) => setPriceAsOf(e.target.value)}
+                    className="px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                </label>
+
                 <div className="flex gap-2">
                   <button
                     onClick={() => exportQuoteCSV()}
@@ -534,17 +939,28 @@ export default function PricingDatabase() {
                     <Download className="w-4 h-4" />
                     Export Quote
                   </button>
-                  <button
-                    onClick={() => fileInputRef.current?.click()}
-                    className="inline-flex items-center gap-2 px-4 py-2.5 bg-cyan text-white rounded-lg text-sm font-medium hover:bg-cyan-soft transition-colors"
-                  >
-                    <Upload className="w-4 h-4" />
-                    Import Pricing
-                  </button>
+                  {isAdmin && (
+                    <button
+                      onClick={() => setShowAdjustModal(true)}
+                      className="inline-flex items-center gap-2 px-4 py-2.5 bg-muted text-foreground rounded-lg text-sm font-medium hover:bg-muted/70 transition-colors"
+                    >
+                      <Percent className="w-4 h-4" />
+                      Bulk Adjust
+                    </button>
+                  )}
+                  {isAdmin && (
+                    <button
+                      onClick={() => fileInputRef.current?.click()}
+                      className="inline-flex items-center gap-2 px-4 py-2.5 bg-cyan text-white rounded-lg text-sm font-medium hover:bg-cyan-soft transition-colors"
+                    >
+                      <Upload className="w-4 h-4" />
+                      Import Pricing
+                    </button>
+                  )}
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".csv"
+                    accept=".csv,.xlsx,.xls"
                     onChange={handleFileImport}
                     className="hidden"
                   />
@@ -558,6 +974,136 @@ export default function PricingDatabase() {
               </div>
             </div>
 
+            {/* Scheduled price changes — pending, or temporary prices in effect */}
+            {scheduleQuery.data && scheduleQuery.data.length > 0 && (
+              <div className="bg-card rounded-xl border border-border overflow-hidden">
+                <div className="px-5 py-4 flex items-center justify-between">
+                  <div className="flex items-center gap-2 font-semibold text-foreground">
+                    <CalendarDays className="w-5 h-5 text-cyan" />
+                    Scheduled Price Changes ({scheduleQuery.data.length})
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {priceAsOf && (
+                      <span className="text-xs text-muted-foreground">
+                        Showing prices as of {formatScheduleDate(priceAsOf)}
+                      </span>
+                    )}
+                    {isAdmin && dueChangeCount > 0 && (
+                      <button
+                        onClick={() => applyDuePricesMutation.mutate()}
+                        disabled={applyDuePricesMutation.isPending}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-muted text-foreground rounded-lg text-xs font-medium hover:bg-muted/70 transition-colors disabled:opacity-50"
+                        title="Write changes that are due to the price book now"
+                      >
+                        <Clock className="w-3.5 h-3.5" />
+                        Apply Due Changes ({dueChangeCount})
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <table className="w-full text-sm border-t border-border">
+                  <thead>
+                    <tr className="bg-muted/30 text-muted-foreground text-xs uppercase tracking-wider">
+                      <th className="text-left px-5 py-3 font-medium">Product</th>
+                      <th className="text-right px-3 py-3 font-medium">New Price</th>
+                      <th className="text-left px-3 py-3 font-medium">Effective</th>
+                      <th className="text-left px-3 py-3 font-medium">Ends</th>
+                      <th className="text-left px-3 py-3 font-medium">Source</th>
+                      <th className="text-left px-3 py-3 font-medium">Status</th>
+                      {isAdmin && <th className="px-3 py-3" />}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {scheduleQuery.data.map((change) => (
+                      <tr key={change.id} className="border-t border-border">
+                        <td className="px-5 py-3">
+                          <div className="font-medium text-foreground">
+                            {productNames.get(change.productId) ?? change.productId}
+                          </div>
+                          <div className="text-xs text-slate-muted font-mono">{change.productId}</div>
+                        </td>
+                        <td className="px-3 py-3 text-right font-semibold font-mono-nums text-foreground">
+                          ${parseFloat(change.unitPrice).toFixed(2)}
+                        </td>
+                        <td className="px-3 py-3 text-muted-foreground">{formatScheduleDate(change.effectiveFrom)}</td>
+                        <td className="px-3 py-3 text-muted-foreground">
+                          {change.effectiveTo ? formatScheduleDate(change.effectiveTo) : "—"}
+                        </td>
+                        <td className="px-3 py-3 text-xs text-muted-foreground">{change.priceSource}</td>
+                        <td className="px-3 py-3">
+                          {change.appliedAt ? (
+                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-success/10 text-success">
+                              In effect
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-cyan/10 text-cyan">
+                              <Clock className="w-3 h-3" />
+                              Pending
+                            </span>
+                          )}
+                        </td>
+                        {isAdmin && (
+                          <td className="px-3 py-3 text-center">
+                            {!change.appliedAt && (
+                              <button
+                                onClick={() => cancelScheduledPriceMutation.mutate({ id: change.id })}
+                                disabled={cancelScheduledPriceMutation.isPending}
+                                className="p-1.5 text-slate-muted hover:text-destructive hover:bg-destructive/10 rounded transition-colors"
+                                title="Cancel scheduled price"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Recent bulk price changes */}
+            {batchesQuery.data && batchesQuery.data.length > 0 && (
+              <div className="bg-card rounded-xl border border-border overflow-hidden">
+                <div className="px-5 py-4 flex items-center gap-2 font-semibold text-foreground">
+                  <Percent className="w-5 h-5 text-cyan" />
+                  Recent Bulk Changes
+                </div>
+                <table className="w-full text-sm border-t border-border">
+                  <tbody>
+                    {batchesQuery.data.slice(0, 5).map((batch) => (
+                      <tr key={batch.id} className={`border-t border-border first:border-0 ${batch.undoneAt ? "opacity-60" : ""}`}>
+                        <td className="px-5 py-3 text-foreground">{batch.source}</td>
+                        <td className="px-3 py-3 text-muted-foreground whitespace-nowrap">{batch.productCount} products</td>
+                        <td className="px-3 py-3 text-xs text-slate-muted whitespace-nowrap">
+                          {new Date(batch.createdAt).toLocaleDateString()}
+                        </td>
+                        <td className="px-3 py-3 text-right whitespace-nowrap">
+                          {batch.undoneAt ? (
+                            <span className="text-xs text-muted-foreground">
+                              Undone {new Date(batch.undoneAt).toLocaleDateString()}
+                            </span>
+                          ) : (
+                            isAdmin && (
+                              <button
+                                onClick={() => undoBatchMutation.mutate({ batchId: batch.id })}
+                                disabled={undoBatchMutation.isPending}
+                                className="inline-flex items-center gap-1 px-2 py-1 text-xs text-muted-foreground hover:text-orange hover:bg-orange/10 rounded transition-colors"
+                              >
+                                <Undo2 className="w-3.5 h-3.5" />
+                                Undo
+                              </button>
+                            )
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Loading state */}
             {pricingQuery.isLoading && (
               <div className="flex items-center justify-center py-12">
@@ -703,7 +1249,7 @@ export default function PricingDatabase() {
                                 </td>
                                 <td className="px-3 py-3">
                                   <div className="flex items-center justify-center gap-1">
-                                    {!isEditing && (
+                                    {isAdmin && !isEditing && (
                                       <button
                                         onClick={() => startEdit(p.productId, p.unitPrice)}
                                         className="p-1.5 text-slate-muted hover:text-success hover:bg-success/10 rounded transition-colors"
@@ -712,7 +1258,7 @@ export default function PricingDatabase() {
                                         <Pencil className="w-3.5 h-3.5" />
                                       </button>
                                     )}
-                                    {priceChanged && (
+                                    {isAdmin && priceChanged && (
                                       <button
                                         onClick={() => resetMutation.mutate({ productId: p.productId })}
                                         className="p-1.5 text-slate-muted hover:text-orange hover:bg-orange/10 rounded transition-colors"
@@ -771,7 +1317,7 @@ export default function PricingDatabase() {
                 <div>
                   <div className="font-medium text-foreground mb-1">3. Import Updated Pricing</div>
                   <p>
-                    Click "Import Pricing" and upload the completed CSV. Review the changes, then apply them. All estimators will use the new prices.
+                    Click "Import Pricing" and upload the completed CSV or Excel file. Check the column mapping, review the matched products and flagged changes, then apply them. All estimators will use the new prices.
                   </p>
                 </div>
               </div>
@@ -840,6 +1386,9 @@ export default function PricingDatabase() {
                             {quote.productCount && (
                               <span>{quote.productCount} products</span>
                             )}
+                            {quote.estimateId && quote.totalValue && (
+                              <span>Est. ${parseFloat(quote.totalValue).toLocaleString("en-US", { maximumFractionDigits: 0 })} at book prices</span>
+                            )}
                           </div>
                         </div>
 
@@ -849,7 +1398,7 @@ export default function PricingDatabase() {
                             <>
                               <button
                                 onClick={() => {
-                                  exportQuoteCSV(quote.system, quote.name);
+                                  exportQuote(quote);
                                   updateQuoteStatusMutation.mutate({ id: quote.id, status: "sent" });
                                 }}
                                 className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-cyan text-white rounded-lg text-xs font-medium hover:bg-cyan-soft transition-colors"
@@ -870,9 +1419,9 @@ export default function PricingDatabase() {
                               </button>
                             </>
                           )}
-                          {(quote.status === "received" || quote.status === "sent") && (
+                          {isAdmin && (quote.status === "received" || quote.status === "sent") && (
                             <button
-                              onClick={() => handleQuoteImport(quote.id)}
+                              onClick={() => handleQuoteImport(quote.id, quote.distributorId)}
                               className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-success text-white rounded-lg text-xs font-medium hover:bg-success/80 transition-colors"
                             >
                               <Upload className="w-3.5 h-3.5" />
@@ -885,9 +1434,21 @@ export default function PricingDatabase() {
                               Pricing Applied
                             </span>
                           )}
+                          {quote.status !== "draft" && (
+                            <button
+                              onClick={() => setLevelingQuoteId(levelingQuoteId === quote.id ? null : quote.id)}
+                              className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                                levelingQuoteId === quote.id ? "bg-foreground text-background" : "bg-muted text-foreground hover:bg-muted/70"
+                              }`}
+                              title="Compare distributor responses"
+                            >
+                              <Scale className="w-3.5 h-3.5" />
+                              Level
+                            </button>
+                          )}
                           {/* Re-export for any status */}
                           <button
-                            onClick={() => exportQuoteCSV(quote.system, quote.name)}
+                            onClick={() => exportQuote(quote)}
                             className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-muted text-foreground rounded-lg text-xs font-medium hover:bg-muted transition-colors"
                             title="Re-export CSV"
                           >
@@ -895,6 +1456,13 @@ export default function PricingDatabase() {
                           </button>
                         </div>
                       </div>
+
+                      {/* Side-by-side leveling of distributor responses */}
+                      {levelingQuoteId === quote.id && (
+                        <div className="mt-4 pt-4 border-t border-border">
+                          <QuoteLeveling quoteId={quote.id} canApply={isAdmin} />
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -941,14 +1509,14 @@ export default function PricingDatabase() {
                   <div className="w-8 h-8 rounded-full bg-orange/20 flex items-center justify-center shrink-0 text-sm font-bold text-orange">3</div>
                   <div>
                     <div className="font-medium text-foreground">Receive</div>
-                    <p className="text-muted-foreground">When the distributor returns the CSV with prices, mark it received.</p>
+                    <p className="text-muted-foreground">Import each distributor's returned CSV against the quote to record their prices.</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
                   <div className="w-8 h-8 rounded-full bg-success/20 flex items-center justify-center shrink-0 text-sm font-bold text-success">4</div>
                   <div>
-                    <div className="font-medium text-foreground">Import & Apply</div>
-                    <p className="text-muted-foreground">Upload the completed CSV to update all prices across your estimators.</p>
+                    <div className="font-medium text-foreground">Level & Apply</div>
+                    <p className="text-muted-foreground">Compare the responses side by side and apply the winning prices across your estimators.</p>
                   </div>
                 </div>
               </div>
@@ -985,6 +1553,26 @@ export default function PricingDatabase() {
                 />
               </div>
 
+              {estimatesQuery.data && estimatesQuery.data.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    From Saved Estimate (optional)
+                  </label>
+                  <select
+                    value={newQuoteEstimateId}
+                    onChange={(e) => chooseQuoteEstimate(e.target.value)}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">None — request unit prices only</option>
+                    {estimatesQuery.data.map((e) => (
+                      <option key={e.id} value={String(e.id)}>
+                        {e.name} ({e.systemLabel})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-foreground mb-1">
                   System
@@ -992,6 +1580,7 @@ export default function PricingDatabase() {
                 <select
                   value={newQuoteSystem}
                   onChange={(e) => setNewQuoteSystem(e.target.value)}
+                  disabled={!!newQuoteEstimateId}
                   className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-emerald-500"
                 >
                   {SYSTEM_OPTIONS.map((opt) => (
@@ -1006,24 +1595,52 @@ export default function PricingDatabase() {
                 <label className="block text-sm font-medium text-foreground mb-1">
                   Distributor (optional)
                 </label>
-                <input
-                  type="text"
-                  value={newQuoteDistributor}
-                  onChange={(e) => setNewQuoteDistributor(e.target.value)}
-                  placeholder="e.g., ABC Supply, QXO, Beacon"
-                  className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
-                />
+                {distributorsQuery.data && distributorsQuery.data.length > 0 && (
+                  <select
+                    value={newQuoteDistributorId}
+                    onChange={(e) => setNewQuoteDistributorId(e.target.value)}
+                    className="w-full px-3 py-2 mb-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  >
+                    <option value="">Other (not in directory)</option>
+                    {distributorsQuery.data.map((d) => (
+                      <option key={d.id} value={String(d.id)}>
+                        {d.branch ? `${d.name} — ${d.branch}` : d.name}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {!newQuoteDistributorId && (
+                  <input
+                    type="text"
+                    value={newQuoteDistributor}
+                    onChange={(e) => setNewQuoteDistributor(e.target.value)}
+                    placeholder="e.g., ABC Supply, QXO, Beacon"
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  />
+                )}
+                {newQuoteDistributorId && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Importing the returned CSV updates this distributor's price list.
+                  </p>
+                )}
               </div>
 
               <div className="bg-muted/30 rounded-lg p-3 text-sm text-muted-foreground">
-                <p>
-                  This will create a quote request and automatically download a CSV file with{" "}
-                  {newQuoteSystem !== "all"
-                    ? `${products.filter((p) => p.system === newQuoteSystem).length} products`
-                    : `all ${products.length} products`
-                  }{" "}
-                  for your distributor to fill in pricing.
-                </p>
+                {newQuoteEstimateId ? (
+                  <p>
+                    This will create a quote request and automatically download a CSV file with the estimate's
+                    material order list and quantities for your distributor to fill in pricing.
+                  </p>
+                ) : (
+                  <p>
+                    This will create a quote request and automatically download a CSV file with{" "}
+                    {newQuoteSystem !== "all"
+                      ? `${products.filter((p) => p.system === newQuoteSystem).length} products`
+                      : `all ${products.length} products`
+                    }{" "}
+                    for your distributor to fill in pricing.
+                  </p>
+                )}
               </div>
             </div>
 
@@ -1033,6 +1650,8 @@ export default function PricingDatabase() {
                   setShowNewQuoteModal(false);
                   setNewQuoteName("");
                   setNewQuoteDistributor("");
+                  setNewQuoteDistributorId("");
+                  setNewQuoteEstimateId("");
                 }}
                 className="px-4 py-2 text-sm text-muted-foreground hover:bg-muted rounded-lg transition-colors"
               >
@@ -1051,25 +1670,28 @@ export default function PricingDatabase() {
       )}
 
       {/* ─── Import Preview Modal ──────────────────────────────────── */}
-      {showImportModal && (
+      {showImportModal && importPreview && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-card rounded-2xl shadow-2xl max-w-4xl w-full max-h-[85vh] flex flex-col">
+          <div className="bg-card rounded-2xl shadow-2xl max-w-5xl w-full max-h-[85vh] flex flex-col">
             <div className="p-6 border-b border-border">
               <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
                 <Upload className="w-5 h-5 text-cyan" />
                 Import Pricing — Preview Changes
+                {previewImportMutation.isPending && <RefreshCw className="w-4 h-4 animate-spin text-muted-foreground" />}
               </h2>
               <p className="text-sm text-muted-foreground mt-1">
-                {importData.length} products with new pricing found. Review before applying.
+                {importFile?.fileName}: {importRows.length} products matched
+                {importPreview.unmatched.length > 0 && `, ${importPreview.unmatched.length} rows unmatched`}. Nothing is
+                saved until you apply.
               </p>
             </div>
 
             {/* Import Summary */}
             {importStats && (
               <div className="px-6 pt-4">
-                <div className="grid grid-cols-4 gap-3">
+                <div className="grid grid-cols-5 gap-3">
                   <div className="bg-muted/30 rounded-lg p-3 text-center">
-                    <div className="text-lg font-bold text-foreground">{importData.length}</div>
+                    <div className="text-lg font-bold text-foreground">{importRows.length}</div>
                     <div className="text-xs text-muted-foreground">Total Changes</div>
                   </div>
                   <div className="bg-destructive/10 rounded-lg p-3 text-center">
@@ -1093,44 +1715,190 @@ export default function PricingDatabase() {
                     </div>
                     <div className="text-xs text-muted-foreground">Unchanged</div>
                   </div>
+                  <div className="bg-orange/10 rounded-lg p-3 text-center">
+                    <div className="text-lg font-bold text-orange flex items-center justify-center gap-1">
+                      <AlertTriangle className="w-4 h-4" />
+                      {importStats.flagged}
+                    </div>
+                    <div className="text-xs text-orange">Over {importThreshold || 0}%</div>
+                  </div>
                 </div>
               </div>
             )}
 
             <div className="flex-1 overflow-auto p-6">
-              {/* Source input */}
+              {/* Column mapping */}
               <div className="mb-4">
                 <label className="block text-sm font-medium text-foreground mb-1">
-                  Price Source (e.g., "ABC Supply Quote 2/9/2026")
+                  Column Mapping
                 </label>
-                <input
-                  type="text"
-                  value={importSource}
-                  onChange={(e) => setImportSource(e.target.value)}
-                  placeholder="Enter the source of this pricing..."
-                  className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {IMPORT_MAPPING_FIELDS.map(({ field, label }) => {
+                    const column = importPreview.mapping[field];
+                    return (
+                      <div key={field}>
+                        <div className="text-xs text-muted-foreground mb-1">{label}</div>
+                        <select
+                          value={column !== undefined ? String(column) : NOT_MAPPED}
+                          onChange={(e) => changeImportMapping(field, e.target.value)}
+                          disabled={previewImportMutation.isPending}
+                          className="w-full px-2 py-1.5 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value={NOT_MAPPED}>— Not in file —</option>
+                          {importPreview.headers.map((header, i) => (
+                            <option key={i} value={String(i)}>
+                              {header || `Column ${i + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+                {!importPreview.mappingComplete && (
+                  <p className="text-xs text-orange mt-2">
+                    Choose the New Price column and a Product ID, SKU or Description column to match products.
+                  </p>
+                )}
+              </div>
+
+              {/* Target price list */}
+              {distributorsQuery.data && distributorsQuery.data.length > 0 && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    {importQuoteId ? "Returned By" : "Apply To"}
+                  </label>
+                  <select
+                    value={importTarget}
+                    onChange={(e) => changeImportTarget(e.target.value)}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={DEFAULT_PRICE_BOOK}>
+                      {importQuoteId ? "Not in directory — apply to default price book" : "Default price book"}
+                    </option>
+                    {distributorsQuery.data.map((d) => (
+                      <option key={d.id} value={String(d.id)}>
+                        {d.branch ? `${d.name} — ${d.branch}` : d.name}
+                        {importQuoteId ? "" : " price list"}
+                      </option>
+                    ))}
+                  </select>
+                  {importQuoteId && importDistributorId !== undefined && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Prices are recorded on the quote for leveling and saved to this distributor's price list.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Effective dates — schedule a future (or temporary) price book update */}
+              {!importQuoteId && importDistributorId === undefined && (
+                <div className="mb-4">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">Effective Date</label>
+                      <input
+                        type="date"
+                        value={importEffectiveFrom}
+                        onChange={(e) => setImportEffectiveFrom(e.target.value)}
+                        className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-foreground mb-1">Ends (optional)</label>
+                      <input
+                        type="date"
+                        value={importEffectiveTo}
+                        min={importEffectiveFrom || undefined}
+                        onChange={(e) => setImportEffectiveTo(e.target.value)}
+                        disabled={!importEffectiveFrom}
+                        className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave blank to apply the prices now. With a date, the prices are scheduled and replace the price
+                    book on that date; with an end date the current prices come back when it ends.
+                  </p>
+                </div>
+              )}
+
+              <div className="mb-4 grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+                {/* Source input */}
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    Price Source (e.g., "ABC Supply Quote 2/9/2026")
+                  </label>
+                  <input
+                    type="text"
+                    value={importSource}
+                    onChange={(e) => setImportSource(e.target.value)}
+                    placeholder="Enter the source of this pricing..."
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                {/* Flag threshold */}
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    Flag Changes Over
+                  </label>
+                  <div className="flex items-center gap-1">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={importThreshold}
+                      onChange={(e) => setImportThreshold(e.target.value)}
+                      onBlur={() => importFile && previewImport(importFile, { mapping: importPreview.mapping })}
+                      className="w-20 px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <span className="text-sm text-muted-foreground">%</span>
+                  </div>
+                </div>
               </div>
 
               <table className="w-full text-sm">
                 <thead>
                   <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                    <th className="w-8 px-3 py-2" />
                     <th className="text-left px-3 py-2">Product</th>
+                    <th className="text-left px-3 py-2">Matched From</th>
                     <th className="text-right px-3 py-2">Current</th>
                     <th className="text-right px-3 py-2">New</th>
                     <th className="text-right px-3 py-2">Change</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {importData.map((row) => {
+                  {importRows.map((row) => {
                     const isIncrease = row.diffPercent > 0;
                     const isDecrease = row.diffPercent < 0;
+                    const included = !excludedImportRows.has(row.productId);
                     return (
-                      <tr key={row.productId} className="border-t border-border">
+                      <tr
+                        key={row.productId}
+                        className={`border-t border-border ${row.flagged ? "bg-orange/5" : ""} ${included ? "" : "opacity-50"}`}
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={included}
+                            onChange={() => toggleImportRow(row.productId)}
+                            title={included ? "Skip this product" : "Include this product"}
+                          />
+                        </td>
                         <td className="px-3 py-2">
                           <div className="font-medium text-foreground">{row.name}</div>
                           <div className="text-xs text-slate-muted font-mono">{row.productId}</div>
                         </td>
+                        <td className="px-3 py-2">
+                          <div className="text-xs text-foreground truncate max-w-[220px]" title={row.sourceText}>
+                            {row.sourceText}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {MATCH_LABELS[row.matchedBy]}
+                            {row.matchedBy === "description" && ` · ${Math.round(row.confidence * 100)}% match`}
+                          </div>
+                        </td>
                         <td className="px-3 py-2 text-right text-muted-foreground font-mono-nums">${row.currentPrice}</td>
                         <td className="px-3 py-2 text-right font-semibold text-foreground font-mono-nums">
                           ${row.newPrice}
@@ -1145,6 +1913,7 @@ export default function PricingDatabase() {
                                   : "text-slate-muted"
                             }`}
                           >
+                            {row.flagged && <AlertTriangle className="w-3 h-3 text-orange" />}
                             {isIncrease && <TrendingUp className="w-3 h-3" />}
                             {isDecrease && <TrendingDown className="w-3 h-3" />}
                             {row.diff}
@@ -1155,6 +1924,36 @@ export default function PricingDatabase() {
                   })}
                 </tbody>
               </table>
+
+              {/* Rows that won't be imported */}
+              {importPreview.unmatched.length > 0 && (
+                <div className="mt-6">
+                  <h3 className="text-sm font-semibold text-foreground mb-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-orange" />
+                    Unmatched Rows ({importPreview.unmatched.length})
+                  </h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                        <th className="text-left px-3 py-2">Row</th>
+                        <th className="text-left px-3 py-2">SKU / Description</th>
+                        <th className="text-right px-3 py-2">Price</th>
+                        <th className="text-left px-3 py-2">Reason</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importPreview.unmatched.map((row) => (
+                        <tr key={row.rowNumber} className="border-t border-border">
+                          <td className="px-3 py-2 text-muted-foreground font-mono-nums">{row.rowNumber}</td>
+                          <td className="px-3 py-2 text-foreground">{row.sourceText || "—"}</td>
+                          <td className="px-3 py-2 text-right font-mono-nums text-muted-foreground">{row.price}</td>
+                          <td className="px-3 py-2 text-xs text-muted-foreground">{UNMATCHED_REASONS[row.reason]}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
 
             <div className="p-6 border-t border-border flex items-center justify-between">
@@ -1171,8 +1970,7 @@ export default function PricingDatabase() {
               <div className="flex gap-3">
                 <button
                   onClick={() => {
-                    setShowImportModal(false);
-                    setImportData([]);
+                    closeImport();
                     setImportQuoteId(null);
                   }}
                   className="px-4 py-2 text-sm text-muted-foreground hover:bg-muted rounded-lg transition-colors"
@@ -1181,11 +1979,230 @@ export default function PricingDatabase() {
                 </button>
                 <button
                   onClick={applyImport}
-                  disabled={bulkUpdateMutation.isPending}
+                  disabled={
+                    selectedImportRows.length === 0 ||
+                    previewImportMutation.isPending ||
+                    bulkUpdateMutation.isPending ||
+                    schedulePricesMutation.isPending ||
+                    setDistributorPricesMutation.isPending ||
+                    recordQuoteResponseMutation.isPending
+                  }
                   className="px-6 py-2 bg-cyan text-white text-sm font-medium rounded-lg hover:bg-cyan-soft transition-colors disabled:opacity-50"
                 >
-                  {bulkUpdateMutation.isPending ? "Applying..." : `Apply ${importData.length} Price Updates`}
+                  {bulkUpdateMutation.isPending ||
+                  schedulePricesMutation.isPending ||
+                  setDistributorPricesMutation.isPending ||
+                  recordQuoteResponseMutation.isPending
+                    ? "Applying..."
+                    : importQuoteId && importDistributorId !== undefined
+                      ? `Record ${selectedImportRows.length} Quoted Prices`
+                      : importEffectiveFrom && importDistributorId === undefined
+                        ? `Schedule ${selectedImportRows.length} Price Updates`
+                        : `Apply ${selectedImportRows.length} Price Updates`}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* ─── Bulk Adjust Modal ─────────────────────────────────────── */}
+      {showAdjustModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-card rounded-2xl shadow-2xl max-w-4xl w-full max-h-[80vh] flex flex-col">
+            <div className="p-6 border-b border-border">
+              <h2 className="text-lg font-bold text-foreground flex items-center gap-2">
+                <Percent className="w-5 h-5 text-cyan" />
+                Bulk Price Adjustment
+              </h2>
+              <p className="text-sm text-muted-foreground mt-1">
+                Change every matching price by a percentage or a fixed amount. The change is saved as one batch you can
+                undo.
+              </p>
+            </div>
+
+            <div className="flex-1 overflow-auto p-6 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">System</label>
+                  <select
+                    value={adjustForm.system}
+                    onChange={(e) => changeAdjustForm({ system: e.target.value, manufacturer: "all", category: "all" })}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SYSTEM_OPTIONS.map((opt) => (
+                      <option key={opt.value} value={opt.value}>
+                        {opt.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Manufacturer</label>
+                  <select
+                    value={adjustForm.manufacturer}
+                    onChange={(e) => changeAdjustForm({ manufacturer: e.target.value, category: "all" })}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="all">All Manufacturers</option>
+                    {adjustOptions.manufacturers.map((m) => (
+                      <option key={m} value={m}>
+                        {m}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Category</label>
+                  <select
+                    value={adjustForm.category}
+                    onChange={(e) => changeAdjustForm({ category: e.target.value })}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="all">All Categories</option>
+                    {adjustOptions.categories.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-[auto_1fr_auto] gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Change By</label>
+                  <div className="inline-flex rounded-lg border border-border overflow-hidden">
+                    {(["percent", "amount"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => changeAdjustForm({ mode })}
+                        className={`px-3 py-2 text-sm transition-colors ${
+                          adjustForm.mode === mode ? "bg-cyan text-white" : "text-muted-foreground hover:bg-muted"
+                        }`}
+                      >
+                        {mode === "percent" ? "Percent" : "Fixed Amount"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">
+                    {adjustForm.mode === "percent" ? "Change (%)" : "Change ($)"} — negative to lower prices
+                  </label>
+                  <input
+                    type="number"
+                    step={adjustForm.mode === "percent" ? "0.1" : "0.01"}
+                    value={adjustForm.value}
+                    onChange={(e) => changeAdjustForm({ value: e.target.value })}
+                    placeholder={adjustForm.mode === "percent" ? "e.g. 4 or -2.5" : "e.g. 1.50 or -0.75"}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-1">Round To</label>
+                  <select
+                    value={adjustForm.roundTo}
+                    onChange={(e) => changeAdjustForm({ roundTo: e.target.value })}
+                    className="w-full px-3 py-2 border border-border rounded-lg text-sm bg-card focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ROUNDING_INCREMENTS.map((inc) => (
+                      <option key={inc} value={String(inc)}>
+                        ${inc.toFixed(2)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {adjustPreview && (
+                adjustPreview.rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-4 text-center">
+                    No prices would change. Check the filters and the amount.
+                  </p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-muted/30 text-muted-foreground text-xs uppercase">
+                        <th className="w-8 px-3 py-2" />
+                        <th className="text-left px-3 py-2">Product</th>
+                        <th className="text-right px-3 py-2">Current</th>
+                        <th className="text-right px-3 py-2">New</th>
+                        <th className="text-right px-3 py-2">Change</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {adjustPreview.rows.map((row) => {
+                        const included = !row.skipReason && !excludedAdjustRows.has(row.productId);
+                        const isIncrease = row.newPrice > row.currentPrice;
+                        return (
+                          <tr key={row.productId} className={`border-t border-border ${included ? "" : "opacity-50"}`}>
+                            <td className="px-3 py-2">
+                              <input
+                                type="checkbox"
+                                checked={included}
+                                disabled={!!row.skipReason}
+                                onChange={() => toggleAdjustRow(row.productId)}
+                                title={row.skipReason ?? (included ? "Skip this product" : "Include this product")}
+                              />
+                            </td>
+                            <td className="px-3 py-2">
+                              <div className="font-medium text-foreground">{row.name}</div>
+                              <div className="text-xs text-slate-muted">
+                                {row.manufacturer} · {row.category}
+                              </div>
+                              {row.skipReason && <div className="text-xs text-destructive">{row.skipReason}</div>}
+                            </td>
+                            <td className="px-3 py-2 text-right text-muted-foreground font-mono-nums">
+                              ${row.currentPrice.toFixed(2)}
+                            </td>
+                            <td className="px-3 py-2 text-right font-semibold text-foreground font-mono-nums">
+                              ${row.newPrice.toFixed(2)}
+                            </td>
+                            <td
+                              className={`px-3 py-2 text-right text-xs font-medium ${
+                                isIncrease ? "text-destructive" : "text-success"
+                              }`}
+                            >
+                              {row.changePercent !== null
+                                ? `${row.changePercent >= 0 ? "+" : ""}${row.changePercent.toFixed(1)}%`
+                                : "New"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )
+              )}
+            </div>
+
+            <div className="p-6 border-t border-border flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">{adjustPreview?.source}</div>
+              <div className="flex gap-3">
+                <button
+                  onClick={closeAdjust}
+                  className="px-4 py-2 text-sm text-muted-foreground hover:bg-muted rounded-lg transition-colors"
+                >
+                  Cancel
                 </button>
+                {adjustPreview ? (
+                  <button
+                    onClick={() => applyAdjustMutation.mutate(adjustInput(false))}
+                    disabled={selectedAdjustCount === 0 || applyAdjustMutation.isPending}
+                    className="px-6 py-2 bg-cyan text-white text-sm font-medium rounded-lg hover:bg-cyan-soft transition-colors disabled:opacity-50"
+                  >
+                    {applyAdjustMutation.isPending ? "Applying..." : `Apply ${selectedAdjustCount} Price Changes`}
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => previewAdjustMutation.mutate(adjustInput(true))}
+                    disabled={!parseFloat(adjustForm.value) || previewAdjustMutation.isPending}
+                    className="px-6 py-2 bg-cyan text-white text-sm font-medium rounded-lg hover:bg-cyan-soft transition-colors disabled:opacity-50"
+                  >
+                    {previewAdjustMutation.isPending ? "Previewing..." : "Preview"}
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -1259,6 +2276,8 @@ export default function PricingDatabase() {
           </div>
         </div>
       )}
+
+      <PriceImpactDialog productIds={impactProductIds} onClose={() => setImpactProductIds(null)} />
     </div>
   );
 }
@@ -0,0 +1,475 @@
+/**
+ * Proposal Templates Page
+ *
+ * Manage the letterhead and boilerplate printed on customer proposals:
+ * company details, intro, inclusions / exclusions, payment terms, validity
+ * and acceptance wording. One template can be marked as the default.
+ * Only organization owners (and site admins) can change templates.
+ */
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, FileText, Loader2, Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+/** Editor form values — optional text fields are edited as plain strings */
+interface TemplateForm {
+  name: string;
+  companyName: string;
+  companyAddress: string;
+  companyPhone: string;
+  companyEmail: string;
+  companyWebsite: string;
+  licenseNumber: string;
+  introText: string;
+  inclusions: string;
+  exclusions: string;
+  paymentTerms: string;
+  validDays: number;
+  acceptanceText: string;
+  isDefault: boolean;
+}
+
+type TemplateSource = Partial<Record<keyof TemplateForm, string | number | boolean | null>>;
+
+function toForm(source: TemplateSource, name: string): TemplateForm {
+  const text = (value: unknown) => (typeof value === "string" ? value : "");
+  return {
+    name,
+    companyName: text(source.companyName),
+    companyAddress: text(source.companyAddress),
+    companyPhone: text(source.companyPhone),
+    companyEmail: text(source.companyEmail),
+    companyWebsite: text(source.companyWebsite),
+    licenseNumber: text(source.licenseNumber),
+    introText: text(source.introText),
+    inclusions: text(source.inclusions),
+    exclusions: text(source.exclusions),
+    paymentTerms: text(source.paymentTerms),
+    validDays: typeof source.validDays === "number" ? source.validDays : 30,
+    acceptanceText: text(source.acceptanceText),
+    isDefault: source.isDefault === true,
+  };
+}
+
+/** Empty optional fields are stored as NULL */
+function toInput(form: TemplateForm) {
+  const orNull = (value: string) => (value.trim() ? value.trim() : null);
+  return {
+    name: form.name.trim(),
+    companyName: form.companyName.trim(),
+    companyAddress: orNull(form.companyAddress),
+    companyPhone: orNull(form.companyPhone),
+    companyEmail: orNull(form.companyEmail),
+    companyWebsite: orNull(form.companyWebsite),
+    licenseNumber: orNull(form.licenseNumber),
+    introText: orNull(form.introText),
+    inclusions: orNull(form.inclusions),
+    exclusions: orNull(form.exclusions),
+    paymentTerms: orNull(form.paymentTerms),
+    validDays: form.validDays,
+    acceptanceText: orNull(form.acceptanceText),
+    isDefault: form.isDefault,
+  };
+}
+
+function countLines(text: string | null): number {
+  return text ? text.split("\n").filter((line) => line.trim()).length : 0;
+}
+
+export default function ProposalTemplates() {
+  const [, navigate] = useLocation();
+  const [editingId, setEditingId] = useState<number | "new" | null>(null);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [deleteId, setDeleteId] = useState<number | null>(null);
+
+  const { data: templates, isLoading } = trpc.proposals.templates.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { data: defaultContent } = trpc.proposals.defaultContent.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const { user } = useAuth();
+  const { data: organizations } = trpc.organizations.list.useQuery(undefined, {
+    refetchOnWindowFocus: false,
+  });
+  const activeOrganization = organizations?.organizations.find((o) => o.id === organizations.activeId);
+  const canManage = activeOrganization?.role === "owner" || user?.role === "admin";
+
+  const createMutation = trpc.proposals.createTemplate.useMutation();
+  const updateMutation = trpc.proposals.updateTemplate.useMutation();
+  const deleteMutation = trpc.proposals.deleteTemplate.useMutation();
+  const utils = trpc.useUtils();
+
+  const set = <K extends keyof TemplateForm>(key: K, value: TemplateForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const openNew = () => {
+    setEditingId("new");
+    setForm(toForm(defaultContent ?? {}, templates?.length ? "" : "Standard Proposal"));
+  };
+
+  const openEdit = (id: number) => {
+    const template = templates?.find((t) => t.id === id);
+    if (!template) return;
+    setEditingId(id);
+    setForm(toForm(template, template.name));
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setForm(null);
+  };
+
+  const handleSave = async () => {
+    if (!form || editingId === null) return;
+    try {
+      if (editingId === "new") {
+        await createMutation.mutateAsync(toInput(form));
+        toast.success("Template created");
+      } else {
+        await updateMutation.mutateAsync({ id: editingId, ...toInput(form) });
+        toast.success("Template saved");
+      }
+      utils.proposals.templates.invalidate();
+      closeEditor();
+    } catch {
+      toast.error("Failed to save template");
+    }
+  };
+
+  const handleSetDefault = async (id: number) => {
+    try {
+      await updateMutation.mutateAsync({ id, isDefault: true });
+      utils.proposals.templates.invalidate();
+      toast.success("Default template updated");
+    } catch {
+      toast.error("Failed to update default template");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteId) return;
+    try {
+      await deleteMutation.mutateAsync({ id: deleteId });
+      utils.proposals.templates.invalidate();
+      toast.success("Template deleted");
+      setDeleteId(null);
+    } catch {
+      toast.error("Failed to delete template");
+    }
+  };
+
+  const deleteTarget = templates?.find((t) => t.id === deleteId);
+  const saving = createMutation.isPending || updateMutation.isPending;
+  const canSave = !!form && form.name.trim() !== "" && form.companyName.trim() !== "" && !saving;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-navy-deep to-navy-surface text-white">
+        <div className="container py-6">
+          <button
+            onClick={() => navigate("/")}
+            className="flex items-center gap-1 text-white/70 hover:text-foreground text-sm mb-3 transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Catalog
+          </button>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-card/10 rounded-lg">
+                <FileText className="h-6 w-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold">Proposal Templates</h1>
+                <p className="text-white/70 text-sm">
+                  Letterhead and terms printed on customer proposals
+                </p>
+              </div>
+            </div>
+            {canManage && (
+              <Button onClick={openNew} className="bg-card/10 hover:bg-card/20 text-white">
+                <Plus className="h-4 w-4 mr-1" />
+                New Template
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="container py-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !templates || templates.length === 0 ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center">
+              <FileText className="h-12 w-12 text-muted-foreground/40 mb-4" />
+              <h3 className="text-lg font-medium text-muted-foreground">No proposal templates</h3>
+              <p className="text-sm text-muted-foreground/70 mt-1 max-w-sm">
+                {canManage
+                  ? "Proposals use the built-in wording until you create a template with your company details."
+                  : "Proposals use the built-in wording until an organization owner creates a template."}
+              </p>
+              {canManage && (
+                <Button variant="outline" className="mt-4" onClick={openNew}>
+                  Create Template
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {templates.map((template) => (
+              <Card key={template.id} className="hover:shadow-md transition-shadow">
+                <CardContent className="p-4 sm:p-5">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-base truncate">{template.name}</h3>
+                        {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">{template.companyName}</p>
+                      <p className="text-xs text-muted-foreground mt-2">
+                        {countLines(template.inclusions)} inclusions · {countLines(template.exclusions)} exclusions ·
+                        valid {template.validDays} days
+                      </p>
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center gap-1 shrink-0">
+                        {!template.isDefault && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => handleSetDefault(template.id)}
+                            title="Make Default"
+                          >
+                            <Star className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => openEdit(template.id)}
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => setDeleteId(template.id)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Editor */}
+      <Dialog open={editingId !== null} onOpenChange={(open) => !open && closeEditor()}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId === "new" ? "New Proposal Template" : "Edit Proposal Template"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4 py-2">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="template-name">Template Name *</Label>
+                  <Input id="template-name" value={form.name} onChange={(e) => set("name", e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-company">Company Name *</Label>
+                  <Input
+                    id="template-company"
+                    value={form.companyName}
+                    onChange={(e) => set("companyName", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="template-address">Company Address</Label>
+                  <Input
+                    id="template-address"
+                    value={form.companyAddress}
+                    onChange={(e) => set("companyAddress", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-phone">Phone</Label>
+                  <Input
+                    id="template-phone"
+                    value={form.companyPhone}
+                    onChange={(e) => set("companyPhone", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-email">Email</Label>
+                  <Input
+                    id="template-email"
+                    value={form.companyEmail}
+                    onChange={(e) => set("companyEmail", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-website">Website</Label>
+                  <Input
+                    id="template-website"
+                    value={form.companyWebsite}
+                    onChange={(e) => set("companyWebsite", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-license">License #</Label>
+                  <Input
+                    id="template-license"
+                    value={form.licenseNumber}
+                    onChange={(e) => set("licenseNumber", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="template-intro">Introduction</Label>
+                <Textarea
+                  id="template-intro"
+                  rows={3}
+                  value={form.introText}
+                  onChange={(e) => set("introText", e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="template-inclusions">Inclusions (one per line)</Label>
+                  <Textarea
+                    id="template-inclusions"
+                    rows={5}
+                    value={form.inclusions}
+                    onChange={(e) => set("inclusions", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="template-exclusions">Exclusions (one per line)</Label>
+                  <Textarea
+                    id="template-exclusions"
+                    rows={5}
+                    value={form.exclusions}
+                    onChange={(e) => set("exclusions", e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-[1fr_auto] gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="template-payment">Payment Terms</Label>
+                  <Textarea
+                    id="template-payment"
+                    rows={2}
+                    value={form.paymentTerms}
+                    onChange={(e) => set("paymentTerms", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2 w-28">
+                  <Label htmlFor="template-valid">Valid (days)</Label>
+                  <Input
+                    id="template-valid"
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form.validDays}
+                    onChange={(e) => set("validDays", Math.min(365, Math.max(1, parseInt(e.target.value) || 1)))}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-acceptance">Acceptance Wording</Label>
+                <Textarea
+                  id="template-acceptance"
+                  rows={3}
+                  value={form.acceptanceText}
+                  onChange={(e) => set("acceptanceText", e.target.value)}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg bg-muted/50 p-3">
+                <Label htmlFor="template-default">Use as default template</Label>
+                <Switch
+                  id="template-default"
+                  checked={form.isDefault}
+                  onCheckedChange={(checked) => set("isDefault", checked)}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={closeEditor}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deleteTarget?.name}"? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * Saved Estimates Page
  *
  * Lists all saved project estimates with search, filter by system,
- * and actions to load, rename, delete, or open breakdown directly.
+ * and actions to load, rename, delete, open breakdown directly, browse
+ * an estimate's revision history, or set its bid status.
  */
 import { useState } from "react";
 import { useLocation } from "wouter";
@@ -46,6 +47,7 @@ import {
   DollarSign,
   Ruler,
   ClipboardList,
+  History,
 } from "lucide-react";
 import { toast } from "sonner";
 import { reconstructBreakdownFromSaved } from "@/lib/reconstruct-breakdown";
@@ -55,18 +57,38 @@ import {
   storeBreakdownSaveState,
   deserializeBreakdownState,
 } from "@/lib/estimate-breakdown";
+import { EstimateRevisionsDrawer } from "@/components/EstimateRevisionsDrawer";
+import { OrganizationSwitcher } from "@/components/OrganizationSwitcher";
 
 const SYSTEM_OPTIONS = [
   { value: "all", label: "All Systems" },
   { value: "karnak-metal-kynar", label: "Karnak Metal Kynar" },
+  { value: "gaf-unisil-553", label: "GAF UniSil 553" },
+  { value: "gaf-unisil-8650", label: "GAF UniSil 8650" },
+  { value: "karnak-silicone-520", label: "Karnak 520 Karna-Sil" },
   { value: "carlisle-tpo", label: "Carlisle TPO" },
   { value: "gaf-tpo", label: "GAF TPO" },
+  { value: "firestone-epdm", label: "Firestone EPDM" },
+];
+
+type EstimateStatus = "draft" | "sent" | "won" | "lost";
+
+/** Draft and sent estimates are open — bulk price updates report their impact on them */
+const STATUS_OPTIONS: { value: EstimateStatus; label: string }[] = [
+  { value: "draft", label: "Draft" },
+  { value: "sent", label: "Sent" },
+  { value: "won", label: "Won" },
+  { value: "lost", label: "Lost" },
 ];
 
 const SYSTEM_COLORS: Record<string, string> = {
   "karnak-metal-kynar": "bg-destructive",
+  "gaf-unisil-553": "bg-slate-400",
+  "gaf-unisil-8650": "bg-slate-500",
+  "karnak-silicone-520": "bg-orange-500",
   "carlisle-tpo": "bg-cyan",
   "gaf-tpo": "bg-success",
+  "firestone-epdm": "bg-gray-800",
 };
 
 function fmt(amount: string | number | null | undefined): string {
@@ -104,6 +126,7 @@ export default function SavedEstimates() {
   const [renameName, setRenameName] = useState("");
   const [deleteId, setDeleteId] = useState<number | null>(null);
   const [loadingBreakdownId, setLoadingBreakdownId] = useState<number | null>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
 
   const { data: estimates, isLoading } = trpc.estimates.list.useQuery(
     {
@@ -116,15 +139,24 @@ export default function SavedEstimates() {
   const renameMutation = trpc.estimates.rename.useMutation();
   const deleteMutation = trpc.estimates.delete.useMutation();
   const utils = trpc.useUtils();
+  const setStatusMutation = trpc.estimates.setStatus.useMutation({
+    onSuccess: () => utils.estimates.list.invalidate(),
+    onError: () => toast.error("Failed to update status"),
+  });
 
   const handleLoad = (id: number, system: string) => {
     // Navigate to the estimator with the saved estimate ID as a query param
     const estimatorPath =
-      system === "karnak-metal-kynar"
-        ? "/estimator/karnak-metal-kynar"
+      system === "karnak-metal-kynar" ||
+      system === "gaf-unisil-553" ||
+      system === "gaf-unisil-8650" ||
+      system === "karnak-silicone-520"
+        ? `/estimator/${system}`
         : system === "carlisle-tpo"
           ? "/estimator/carlisle-tpo"
-          : "/estimator/gaf-tpo";
+          : system === "firestone-epdm"
+            ? "/estimator/firestone-epdm"
+            : "/estimator/gaf-tpo";
     navigate(`${estimatorPath}?loadEstimate=${id}`);
   };
 
@@ -212,6 +244,7 @@ export default function SavedEstimates() {
   };
 
   const deleteTarget = estimates?.find((e) => e.id === deleteId);
+  const historyTarget = estimates?.find((e) => e.id === historyId);
 
   return (
     <div className="min-h-screen bg-background">
@@ -225,16 +258,19 @@ export default function SavedEstimates() {
             <ArrowLeft className="h-4 w-4" />
             Back to Catalog
           </button>
-          <div className="flex items-center gap-3">
-            <div className="p-2 bg-card/10 rounded-lg">
-              <FolderOpen className="h-6 w-6" />
-            </div>
-            <div>
-              <h1 className="text-2xl font-bold">Saved Estimates</h1>
-              <p className="text-white/70 text-sm">
-                {estimates?.length ?? 0} saved project estimate{estimates?.length !== 1 ? "s" : ""}
-              </p>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-card/10 rounded-lg">
+                <FolderOpen className="h-6 w-6" />
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold">Saved Estimates</h1>
+                <p className="text-white/70 text-sm">
+                  {estimates?.length ?? 0} saved project estimate{estimates?.length !== 1 ? "s" : ""}
+                </p>
+              </div>
             </div>
+            <OrganizationSwitcher />
           </div>
         </div>
       </div>
@@ -303,9 +339,17 @@ export default function SavedEstimates() {
                     >
                       {est.system === "karnak-metal-kynar"
                         ? "KRN"
-                        : est.system === "carlisle-tpo"
-                          ? "CRL"
-                          : "GAF"}
+                        : est.system === "karnak-silicone-520"
+                          ? "KSL"
+                          : est.system === "gaf-unisil-8650"
+                            ? "USL"
+                            : est.system === "gaf-unisil-553"
+                              ? "UAC"
+                              : est.system === "carlisle-tpo"
+                                ? "CRL"
+                                : est.system === "firestone-epdm"
+                                  ? "FST"
+                                  : "GAF"}
                     </div>
 
                     {/* Content */}
@@ -323,6 +367,23 @@ export default function SavedEstimates() {
                           className="flex items-center gap-1 shrink-0"
                           onClick={(e) => e.stopPropagation()}
                         >
+                          <Select
+                            value={est.status}
+                            onValueChange={(status) =>
+                              setStatusMutation.mutate({ id: est.id, status: status as EstimateStatus })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-[90px] text-xs" title="Bid Status">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {STATUS_OPTIONS.map((opt) => (
+                                <SelectItem key={opt.value} value={opt.value}>
+                                  {opt.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -338,6 +399,15 @@ export default function SavedEstimates() {
                             )}
                             <span className="hidden sm:inline">Breakdown</span>
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => setHistoryId(est.id)}
+                            title="Revision History"
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -421,6 +491,13 @@ export default function SavedEstimates() {
         </DialogContent>
       </Dialog>
 
+      {/* Revision History */}
+      <EstimateRevisionsDrawer
+        estimateId={historyId}
+        estimateName={historyTarget?.name}
+        onClose={() => setHistoryId(null)}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteId !== null} onOpenChange={(open) => !open && setDeleteId(null)}>
         <AlertDialogContent>
@@ -48,8 +48,11 @@ import {
 } from "@/components/ui/collapsible";
 import { Switch } from "@/components/ui/switch";
 import RoofAdditions, { type RoofAdditionsHandle } from "@/components/RoofAdditions";
-import { type PenetrationEstimate } from "@/lib/penetrations-data";
+import { type PenetrationEstimate } from "@shared/estimating/penetrations-data";
 import { usePricingDB } from "@/hooks/usePricingDB";
+import { PriceListSelect } from "@/components/PriceListSelect";
+import { PriceDateInput } from "@/components/PriceDateInput";
+import { RepriceDialog } from "@/components/RepriceDialog";
 import { TPOLaborEquipmentSection } from "@/components/TPOLaborEquipmentSection";
 import {
   DEFAULT_TPO_LABOR_ITEMS,
@@ -57,7 +60,7 @@ import {
   calculateTPOLaborEquipmentTotals,
   type TPOLaborEquipmentState,
   type TPOLaborEquipmentTotals,
-} from "@/lib/tpo-labor-equipment-data";
+} from "@shared/estimating/tpo-labor-equipment-data";
 import {
   type AssemblyConfig,
   type TPOMeasurements,
@@ -72,9 +75,8 @@ import {
   calculateTPOEstimate,
   exportTPOEstimateCSV,
   getInsulationSummary,
-  FIELD_ZONE_RATIO,
-  PERIMETER_ZONE_RATIO,
-  CORNER_ZONE_RATIO,
+  calculateWindZones,
+  getCarlisleZoneFastening,
   INSULATION_SCREW_TYPES,
   INSULATION_SCREW_LENGTHS,
   MEMBRANE_SCREW_LENGTHS,
@@ -82,16 +84,62 @@ import {
   MEMBRANE_PLATE_TYPES,
   getResolvedFastenerLength,
   getResolvedMembraneFastenerLength,
-} from "@/lib/tpo-data";
+  calculateSectionedEstimate,
+  getSeamLF,
+} from "@shared/estimating/tpo-data";
 import { storeBreakdownData, storeEstimateContext, storeBreakdownSaveState, deserializeBreakdownState } from "@/lib/estimate-breakdown";
 import { serializeTPOBreakdown } from "@/lib/breakdown-serializers";
 import { SaveEstimateDialog } from "@/components/SaveEstimateDialog";
-import { serializeTPOState, deserializeTPOState } from "@/lib/estimate-state-serializers";
+import {
+  serializeTPOState,
+  deserializeTPOState,
+  getSavedRoofSections,
+  toSavedRoofSections,
+} from "@shared/estimating/estimate-state-serializers";
+import { useRoofSections } from "@/hooks/useRoofSections";
+import { RoofSectionTabs } from "@/components/RoofSectionTabs";
+import { BuildingDimensionsInput, formatZoneSplit } from "@/components/BuildingDimensionsInput";
+import { WindDesignInput } from "@/components/WindDesignInput";
+import { TaperedInsulationDesigner } from "@/components/TaperedInsulationDesigner";
+import { EnergyCodeCheck } from "@/components/EnergyCodeCheck";
+import {
+  DEFAULT_ENERGY_CODE_SETTINGS,
+  checkRoofCompliance,
+  getInsulationOptions,
+  toInsulationLayers,
+  type EnergyCodeSettings,
+  type InsulationSuggestion,
+} from "@shared/estimating/energy-code-data";
+import {
+  DEFAULT_TAPERED_CONFIG,
+  designTaperedInsulation,
+  type TaperedInsulationConfig,
+} from "@shared/estimating/tapered-insulation-data";
 import { toast } from "sonner";
 
 const fmt = (n: number) =>
   n.toLocaleString("en-US", { style: "currency", currency: "USD" });
 
+const DEFAULT_ASSEMBLY: AssemblyConfig = {
+  deckType: "steel-22ga",
+  vaporBarrier: "none",
+  insulationEnabled: true,
+  insulationLayers: [
+    { thickness: "2.0", enabled: true },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+  ],
+  coverBoard: "densdeck-prime-half",
+  membraneThickness: "60mil",
+  attachmentMethod: "fully-adhered",
+  fastenerType: "sfs-dekfast",
+  fastenerLength: "auto",
+  membraneFastenerLength: "auto",
+  plateType: "3in-round",
+  membranePlateType: "barbed",
+};
+
 export default function TPOEstimator() {
   const [, navigate] = useLocation();
   const searchString = useSearch();
@@ -102,45 +150,50 @@ export default function TPOEstimator() {
   const [loadedEstimateName, setLoadedEstimateName] = useState<string>("");
   const [savedBreakdownStateJson, setSavedBreakdownStateJson] = useState<string | null>(null);
 
-  // Assembly config state
-  const [assembly, setAssembly] = useState<AssemblyConfig>({
-    deckType: "steel-22ga",
-    vaporBarrier: "none",
-    insulationEnabled: true,
-    insulationLayers: [
-      { thickness: "2.0", enabled: true },
-      { thickness: "none", enabled: false },
-      { thickness: "none", enabled: false },
-      { thickness: "none", enabled: false },
-    ],
-    coverBoard: "densdeck-prime-half",
-    membraneThickness: "60mil",
-    attachmentMethod: "fully-adhered",
-    fastenerType: "sfs-dekfast",
-    fastenerLength: "auto",
-    membraneFastenerLength: "auto",
-    plateType: "3in-round",
-    membranePlateType: "barbed",
-  });
-
-  // Measurements state
-  const [measurements, setMeasurements] = useState<TPOMeasurements>({
-    roofArea: 0,
-    wallLinearFt: 0,
-    wallHeight: 0,
-    baseFlashingLF: 0,
-  });
+  // Roof sections — each has its own assembly and measurements;
+  // `assembly` / `measurements` always refer to the active section
+  const {
+    sections,
+    activeSectionId,
+    setActiveSectionId,
+    assembly,
+    setAssembly,
+    measurements,
+    setMeasurements,
+    setSiteMeasurements,
+    addSection,
+    removeSection,
+    renameSection,
+    loadSections,
+  } = useRoofSections(DEFAULT_ASSEMBLY);
 
   // Pricing DB integration — sync DB prices reactively
-  const { getPriceMap, isFromDB } = usePricingDB();
+  // Distributor price list the estimate is priced from (null = default price book)
+  const [distributorId, setDistributorId] = useState<number | null>(null);
+  // Job start date prices are taken as of (null = today's prices)
+  const [priceDate, setPriceDate] = useState<string | null>(null);
+  const { getPriceMap, isFromDB } = usePricingDB(distributorId, priceDate);
   const dbPrices = useMemo(() => getPriceMap("carlisle-tpo"), [getPriceMap, isFromDB]);
   const [customPrices, setCustomPrices] = useState<Record<string, number>>({});
   const userEditedPrices = useRef<Set<string>>(new Set());
   const [priceEditorOpen, setPriceEditorOpen] = useState(false);
 
+  // Load saved estimate from URL param
+  const loadEstimateId = new URLSearchParams(searchString).get("loadEstimate");
+  const { data: savedEstimate, isError: loadFailed } = trpc.estimates.get.useQuery(
+    { id: Number(loadEstimateId) },
+    { enabled: !!loadEstimateId },
+  );
+
+  // A saved estimate keeps the prices it was saved with; current pricing
+  // (including a changed price list or job date) only comes in through Reprice.
+  // Locked from the moment one is requested, so no current price syncs in
+  // before it arrives.
+  const pricesLocked = loadedEstimateId !== null || (!!loadEstimateId && !loadFailed);
+
   // Sync DB prices into local state when they arrive
   useEffect(() => {
-    if (dbPrices.size > 0) {
+    if (dbPrices.size > 0 && !pricesLocked) {
       setCustomPrices((prev) => {
         const next = { ...prev };
         let changed = false;
@@ -153,13 +206,19 @@ export default function TPOEstimator() {
         return changed ? next : prev;
       });
     }
-  }, [dbPrices]);
+  }, [dbPrices, pricesLocked]);
 
   // Calculate estimate
   const estimate = useMemo(
-    () => calculateTPOEstimate(assembly, measurements, customPrices),
-    [assembly, measurements, customPrices]
+    () => calculateSectionedEstimate(sections, customPrices, calculateTPOEstimate),
+    [sections, customPrices]
   );
+  // Project totals across all sections
+  const projectMeasurements = estimate.measurements;
+
+  // Wind zone layout of the active section, shown alongside the fastener counts
+  const windZones = useMemo(() => calculateWindZones(measurements), [measurements]);
+  const zoneFastening = useMemo(() => getCarlisleZoneFastening(measurements), [measurements]);
 
   // Labor & Equipment state
   const [laborEquipment, setLaborEquipment] = useState<TPOLaborEquipmentState>(() => ({
@@ -217,17 +276,26 @@ export default function TPOEstimator() {
   // Penetrations state
   const [penetrationEstimate, setPenetrationEstimate] = useState<PenetrationEstimate | null>(null);
   const penetrationCost = penetrationEstimate?.totalMaterialCost ?? 0;
+  const detailLaborMinutes = penetrationEstimate?.totalLaborMinutes ?? 0;
+  const seamLF = getSeamLF(estimate);
   const roofAdditionsRef = useRef<RoofAdditionsHandle>(null);
   const [roofAdditionsInitialState, setRoofAdditionsInitialState] = useState<
-    { lineItems: Record<string, number>; sheetMetal: import("@/lib/sheet-metal-flashing-data").SheetMetalFlashingState } | undefined
+    { lineItems: Record<string, number>; sheetMetal: import("@shared/estimating/sheet-metal-flashing-data").SheetMetalFlashingState } | undefined
   >(undefined);
 
   // Labor & equipment totals
   const laborEquipmentTotals: TPOLaborEquipmentTotals | null = useMemo(() => {
-    if (measurements.roofArea <= 0) return null;
-    const flashingLF = measurements.baseFlashingLF + measurements.wallLinearFt;
-    return calculateTPOLaborEquipmentTotals(laborEquipment, measurements.roofArea, flashingLF);
-  }, [laborEquipment, measurements.roofArea, measurements.baseFlashingLF, measurements.wallLinearFt]);
+    if (projectMeasurements.roofArea <= 0) return null;
+    const flashingLF = projectMeasurements.baseFlashingLF + projectMeasurements.wallLinearFt;
+    return calculateTPOLaborEquipmentTotals(laborEquipment, projectMeasurements.roofArea, flashingLF, detailLaborMinutes, seamLF);
+  }, [
+    laborEquipment,
+    projectMeasurements.roofArea,
+    projectMeasurements.baseFlashingLF,
+    projectMeasurements.wallLinearFt,
+    detailLaborMinutes,
+    seamLF,
+  ]);
 
   const laborCost = laborEquipmentTotals?.laborTotal ?? 0;
   const equipmentCost = laborEquipmentTotals?.equipmentTotal ?? 0;
@@ -244,6 +312,52 @@ export default function TPOEstimator() {
     [assembly.insulationLayers, assembly.insulationEnabled]
   );
 
+  // Tapered insulation design for the active section
+  const taperedConfig = assembly.tapered ?? DEFAULT_TAPERED_CONFIG;
+  const taperedDesign = useMemo(
+    () => taperedConfig.enabled
+      ? designTaperedInsulation(taperedConfig, measurements.roofArea, measurements.roofLength)
+      : undefined,
+    [taperedConfig, measurements.roofArea, measurements.roofLength]
+  );
+  const updateTapered = useCallback((patch: Partial<TaperedInsulationConfig>) => {
+    setAssembly((prev) => ({
+      ...prev,
+      tapered: { ...(prev.tapered ?? DEFAULT_TAPERED_CONFIG), ...patch },
+    }));
+  }, [setAssembly]);
+
+  // Energy code — project-wide settings, checked against every section
+  const [energyCode, setEnergyCode] = useState<EnergyCodeSettings>(DEFAULT_ENERGY_CODE_SETTINGS);
+  const insulationOptions = useMemo(
+    () => getInsulationOptions(TPO_PRODUCTS, customPrices),
+    [customPrices]
+  );
+  const sectionCompliance = useMemo(
+    () => sections.map((s) => {
+      const flatRValue = s.assembly.insulationEnabled
+        ? getInsulationSummary(s.assembly.insulationLayers).totalRValue
+        : 0;
+      const tapered = s.assembly.tapered;
+      const taperedRValue = tapered?.enabled
+        ? designTaperedInsulation(tapered, s.measurements.roofArea, s.measurements.roofLength).avgRValue
+        : 0;
+      return { section: s, result: checkRoofCompliance(energyCode, flatRValue, insulationOptions, taperedRValue) };
+    }),
+    [sections, energyCode, insulationOptions]
+  );
+  const activeCompliance = sectionCompliance.find((c) => c.section.id === activeSectionId)?.result;
+  const failingSections = sectionCompliance
+    .filter((c) => c.section.id !== activeSectionId && c.result && !c.result.compliant)
+    .map((c) => c.section.name);
+  const applyInsulationSuggestion = useCallback((suggestion: InsulationSuggestion) => {
+    setAssembly((prev) => ({
+      ...prev,
+      insulationEnabled: true,
+      insulationLayers: toInsulationLayers(suggestion, prev.insulationLayers.length),
+    }));
+  }, [setAssembly]);
+
   // Count how many layers are enabled
   const enabledLayerCount = assembly.insulationLayers.filter((l) => l.enabled).length;
 
@@ -307,6 +421,24 @@ export default function TPOEstimator() {
     }
   }, []);
 
+  // Re-price from the chosen list — its prices replace any manual edits
+  const changePriceList = useCallback((id: number | null) => {
+    userEditedPrices.current.clear();
+    setDistributorId(id);
+  }, []);
+
+  // Re-price as of the job start date — likewise replaces manual edits
+  const changePriceDate = useCallback((date: string | null) => {
+    userEditedPrices.current.clear();
+    setPriceDate(date);
+  }, []);
+
+  // Accept current prices from the reprice report
+  const acceptRepricing = useCallback((prices: Record<string, number>) => {
+    Object.keys(prices).forEach((id) => userEditedPrices.current.add(id));
+    setCustomPrices((prev) => ({ ...prev, ...prices }));
+  }, []);
+
   const resetPrices = useCallback(() => {
     userEditedPrices.current.clear();
     // Reset to DB prices if available, otherwise empty (falls back to defaults)
@@ -330,13 +462,6 @@ export default function TPOEstimator() {
 
   const handlePrint = useCallback(() => window.print(), []);
 
-  // Load saved estimate from URL param
-  const loadEstimateId = new URLSearchParams(searchString).get("loadEstimate");
-  const { data: savedEstimate } = trpc.estimates.get.useQuery(
-    { id: Number(loadEstimateId) },
-    { enabled: !!loadEstimateId },
-  );
-
   useEffect(() => {
     if (!savedEstimate) return;
     const state = deserializeTPOState(savedEstimate.data);
@@ -344,18 +469,17 @@ export default function TPOEstimator() {
       toast.error("Could not load this estimate — incompatible format.");
       return;
     }
-    // Restore measurements
-    setMeasurements({
-      roofArea: parseFloat(state.measurements.totalRoofArea) || 0,
-      wallLinearFt: 0,
-      wallHeight: 0,
-      baseFlashingLF: parseFloat(state.measurements.baseFlashing) || 0,
-    });
-    // Restore custom prices
-    Object.entries(state.customPrices).forEach(([id, price]) => {
-      userEditedPrices.current.add(id);
-      setCustomPrices((prev) => ({ ...prev, [id]: price }));
-    });
+    // Restore roof sections (v4), or a single section from older measurements/assembly
+    loadSections(getSavedRoofSections(state, DEFAULT_ASSEMBLY));
+    // Restore energy code settings (v5)
+    setEnergyCode(state.energyCode ?? DEFAULT_ENERGY_CODE_SETTINGS);
+    // Restore the distributor price list (v6)
+    setDistributorId(state.distributorId ?? null);
+    // Restore the job start date prices are taken as of (v7)
+    setPriceDate(state.priceDate ?? null);
+    // Restore the saved prices in place of whatever was showing
+    userEditedPrices.current = new Set(Object.keys(state.customPrices));
+    setCustomPrices(state.customPrices);
     // Restore labor/equipment
     if (state.laborEquipment) {
       setLaborEquipment(state.laborEquipment);
@@ -368,18 +492,6 @@ export default function TPOEstimator() {
         setRoofAdditionsInitialState(state.penetrationsState);
       }
     }
-    // Restore wall measurements (v2)
-    if (state.measurements.wallLinearFt) {
-      setMeasurements((prev) => ({
-        ...prev,
-        wallLinearFt: parseFloat(state.measurements.wallLinearFt!) || 0,
-        wallHeight: parseFloat(state.measurements.wallHeight ?? "0") || 0,
-      }));
-    }
-    // Restore roof assembly configuration (v3)
-    if (state.assemblyConfig) {
-      setAssembly(state.assemblyConfig);
-    }
     setLoadedEstimateId(savedEstimate.id);
     setLoadedEstimateName(savedEstimate.name);
     // Store breakdown state from DB if available
@@ -394,17 +506,30 @@ export default function TPOEstimator() {
   const getEstimateData = useCallback(() => {
     return serializeTPOState("carlisle-tpo", {
       measurements: {
-        totalRoofArea: String(measurements.roofArea),
-        baseFlashing: String(measurements.baseFlashingLF),
-        wallLinearFt: String(measurements.wallLinearFt),
-        wallHeight: String(measurements.wallHeight),
+        totalRoofArea: String(projectMeasurements.roofArea),
+        baseFlashing: String(projectMeasurements.baseFlashingLF),
+        wallLinearFt: String(projectMeasurements.wallLinearFt),
+        wallHeight: String(projectMeasurements.wallHeight),
       },
       customPrices,
       laborEquipment,
-      assemblyConfig: assembly,
+      assemblyConfig: sections[0].assembly,
+      sections: toSavedRoofSections(sections),
+      energyCode,
       penetrationsState: roofAdditionsRef.current?.getState(),
+      distributorId,
+      priceDate,
     });
-  }, [measurements, customPrices, laborEquipment, assembly, penetrationEstimate]);
+  }, [
+    projectMeasurements,
+    customPrices,
+    laborEquipment,
+    sections,
+    energyCode,
+    penetrationEstimate,
+    distributorId,
+    priceDate,
+  ]);
 
   const handleViewBreakdown = useCallback(() => {
     const breakdownData = serializeTPOBreakdown(
@@ -424,7 +549,7 @@ export default function TPOEstimator() {
       systemLabel: "Carlisle Sure-Weld TPO",
       estimatorStateJson: getEstimateData(),
       grandTotal,
-      roofArea: measurements.roofArea,
+      roofArea: projectMeasurements.roofArea,
     });
     // If there's a saved breakdown state from DB, store it so the breakdown page can restore edits
     if (savedBreakdownStateJson) {
@@ -432,7 +557,7 @@ export default function TPOEstimator() {
       if (parsed) storeBreakdownSaveState(parsed);
     }
     navigate("/breakdown");
-  }, [estimate, laborEquipment, penetrationEstimate, navigate, loadedEstimateId, loadedEstimateName, getEstimateData, grandTotal, measurements.roofArea, savedBreakdownStateJson]);
+  }, [estimate, laborEquipment, penetrationEstimate, navigate, loadedEstimateId, loadedEstimateName, getEstimateData, grandTotal, projectMeasurements.roofArea, savedBreakdownStateJson]);
 
   // Group line items by category for display
   const groupedItems = useMemo(() => {
@@ -448,6 +573,7 @@ export default function TPOEstimator() {
   const categoryOrder = [
     "Vapor Barrier",
     "Insulation",
+    "Tapered Insulation",
     "Cover Board",
     "Membrane",
     "Adhesive",
@@ -456,7 +582,7 @@ export default function TPOEstimator() {
     "Accessories",
   ];
 
-  const hasResults = measurements.roofArea > 0;
+  const hasResults = projectMeasurements.roofArea > 0;
 
   // Get unique product IDs used in estimate for price editor
   const usedProductIds = useMemo(() => {
@@ -538,6 +664,16 @@ export default function TPOEstimator() {
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Left Column: Config + Measurements */}
           <div className="lg:col-span-5 space-y-6" data-print-hide>
+            {/* Roof Sections */}
+            <RoofSectionTabs
+              sections={sections}
+              activeSectionId={activeSectionId}
+              onSelect={setActiveSectionId}
+              onAdd={addSection}
+              onRemove={removeSection}
+              onRename={renameSection}
+            />
+
             {/* Assembly Configuration */}
             <Card className="border-border shadow-sm">
               <CardHeader className="pb-4">
@@ -698,6 +834,12 @@ export default function TPOEstimator() {
                             Add Insulation Layer ({enabledLayerCount}/4)
                           </Button>
                         )}
+
+                        <TaperedInsulationDesigner
+                          config={taperedConfig}
+                          design={taperedDesign}
+                          onChange={updateTapered}
+                        />
                       </motion.div>
                     ) : (
                       <motion.p
@@ -925,6 +1067,15 @@ export default function TPOEstimator() {
               </CardContent>
             </Card>
 
+            {/* Energy Code */}
+            <EnergyCodeCheck
+              settings={energyCode}
+              onChange={setEnergyCode}
+              result={activeCompliance}
+              failingSections={failingSections}
+              onApplySuggestion={applyInsulationSuggestion}
+            />
+
             {/* Measurements */}
             <Card className="border-border shadow-sm">
               <CardHeader className="pb-4">
@@ -957,6 +1108,24 @@ export default function TPOEstimator() {
                   </div>
                 </div>
 
+                {/* Building Dimensions (wind zones) */}
+                <BuildingDimensionsInput
+                  measurements={measurements}
+                  onChange={updateMeasurement}
+                />
+
+                {/* Wind Uplift Design (site-wide) */}
+                <WindDesignInput
+                  measurements={measurements}
+                  zoneFastening={zoneFastening}
+                  onWindSpeedChange={(value) =>
+                    setSiteMeasurements({ basicWindSpeed: parseFloat(value) || 0 })
+                  }
+                  onExposureChange={(exposureCategory) =>
+                    setSiteMeasurements({ exposureCategory })
+                  }
+                />
+
                 {/* Wall Dimensions */}
                 <div className="p-4 bg-muted/30 rounded-lg space-y-4">
                   <p className="text-sm font-medium text-foreground">
@@ -1057,6 +1226,15 @@ export default function TPOEstimator() {
                         Edit Pricing
                       </span>
                       <div className="flex items-center gap-2">
+                        {pricesLocked && (
+                          <RepriceDialog
+                            getEstimateData={getEstimateData}
+                            currentPrices={dbPrices}
+                            onAccept={acceptRepricing}
+                          />
+                        )}
+                        <PriceDateInput value={priceDate} onChange={changePriceDate} />
+                        <PriceListSelect value={distributorId} onChange={changePriceList} />
                         {Object.keys(customPrices).length > 0 && (
                           <Button
                             variant="ghost"
@@ -1133,6 +1311,8 @@ export default function TPOEstimator() {
               updateLaborItem={updateLaborItem}
               updateEquipmentItem={updateEquipmentItem}
               resetLaborEquipment={resetLaborEquipment}
+              detailLaborMinutes={detailLaborMinutes}
+              seamLF={seamLF}
               accentColor="blue"
             />
           </div>
@@ -1144,6 +1324,8 @@ export default function TPOEstimator() {
               <RoofAdditions
                 ref={roofAdditionsRef}
                 onEstimateChange={setPenetrationEstimate}
+                system={"carlisle-tpo"}
+                prices={customPrices}
                 accentColor="blue"
                 initialState={roofAdditionsInitialState}
               />
@@ -1191,13 +1373,13 @@ export default function TPOEstimator() {
                       <div className="flex flex-wrap gap-x-6 gap-y-1 mt-2 text-sm">
                         <span className="text-slate-text">
                           <DollarSign className="w-3.5 h-3.5 inline mr-1" />
-                          {measurements.roofArea > 0
-                            ? `${(grandTotal / measurements.roofArea).toFixed(2)} / sq ft`
+                          {projectMeasurements.roofArea > 0
+                            ? `${(grandTotal / projectMeasurements.roofArea).toFixed(2)} / sq ft`
                             : "—"}
                         </span>
                         <span className="text-slate-text">
                           <Layers className="w-3.5 h-3.5 inline mr-1" />
-                          {measurements.roofArea.toLocaleString()} sq ft roof
+                          {projectMeasurements.roofArea.toLocaleString()} sq ft roof
                         </span>
                       </div>
                       {/* Assembly Summary */}
@@ -1231,9 +1413,9 @@ export default function TPOEstimator() {
                             (a) => a.value === assembly.attachmentMethod
                           )?.label || "—"}
                         </span>
-                        {wallSqFt > 0 && (
+                        {estimate.wallSqFt > 0 && (
                           <span>
-                            Wall: {wallSqFt.toLocaleString()} sq ft
+                            Wall: {estimate.wallSqFt.toLocaleString()} sq ft
                           </span>
                         )}
                       </div>
@@ -1318,7 +1500,7 @@ export default function TPOEstimator() {
                         </div>
                         {isFastenersCategory && (
                           <p className="text-[10px] text-orange/80 mt-1">
-                            Zone layout: Field {(FIELD_ZONE_RATIO * 100).toFixed(0)}% · Perimeter {(PERIMETER_ZONE_RATIO * 100).toFixed(0)}% · Corner {(CORNER_ZONE_RATIO * 100).toFixed(0)}% — Screw length auto-selected for {getInsulationSummary(assembly.insulationLayers).totalThickness.toFixed(1)}" insulation assembly
+                            Zone layout: {formatZoneSplit(windZones)} (a = {windZones.zoneWidth.toFixed(1)} ft) — Screw length auto-selected for {(insulationSummary.totalThickness + (taperedDesign?.maxThickness ?? 0)).toFixed(1)}" {taperedDesign ? "max " : ""}insulation assembly
                           </p>
                         )}
                       </CardHeader>
@@ -1357,6 +1539,18 @@ export default function TPOEstimator() {
                                     <p className="text-xs text-muted-foreground mt-0.5">
                                       {item.note}
                                     </p>
+                                    {sections.length > 1 && item.sections && (
+                                      <div className="flex flex-wrap gap-1 mt-1">
+                                        {item.sections.map((sec) => (
+                                          <span
+                                            key={sec.sectionId}
+                                            className="text-[10px] font-medium px-1.5 py-0.5 rounded bg-cyan/10 text-cyan"
+                                          >
+                                            {sec.sectionName}: {sec.quantityNeeded.toFixed(1)}
+                                          </span>
+                                        ))}
+                                      </div>
+                                    )}
                                   </td>
                                   <td className="py-3 px-4 text-right font-semibold tabular-nums">
                                     {item.unitsToOrder}
@@ -1415,10 +1609,10 @@ export default function TPOEstimator() {
                         {fmt(grandTotal)}
                       </span>
                     </div>
-                    {measurements.roofArea > 0 && (
+                    {projectMeasurements.roofArea > 0 && (
                       <p className="text-sm text-cyan mt-1">
                         {(
-                          grandTotal / measurements.roofArea
+                          grandTotal / projectMeasurements.roofArea
                         ).toFixed(2)}{" "}
                         per sq ft (all-in)
                       </p>
@@ -1474,7 +1668,7 @@ export default function TPOEstimator() {
         systemLabel="Carlisle Sure-Weld TPO"
         getEstimateData={getEstimateData}
         grandTotal={grandTotal}
-        roofArea={measurements.roofArea}
+        roofArea={projectMeasurements.roofArea}
         existingId={loadedEstimateId}
         existingName={loadedEstimateName}
         onSaved={(id, name) => {
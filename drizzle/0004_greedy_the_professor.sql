@@ -0,0 +1,15 @@
+CREATE TABLE `estimate_revisions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`estimateId` int NOT NULL,
+	`revision` int NOT NULL,
+	`name` varchar(256) NOT NULL,
+	`data` text NOT NULL,
+	`grandTotal` decimal(12,2),
+	`roofArea` decimal(12,2),
+	`breakdownState` text,
+	`restoredFrom` int,
+	`createdBy` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `estimate_revisions_id` PRIMARY KEY(`id`),
+	CONSTRAINT `estimate_revisions_estimate_revision_idx` UNIQUE(`estimateId`,`revision`)
+);
@@ -0,0 +1,21 @@
+CREATE TABLE `proposal_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(256) NOT NULL,
+	`companyName` varchar(256) NOT NULL,
+	`companyAddress` text,
+	`companyPhone` varchar(64),
+	`companyEmail` varchar(320),
+	`companyWebsite` varchar(256),
+	`licenseNumber` varchar(128),
+	`introText` text,
+	`inclusions` text,
+	`exclusions` text,
+	`paymentTerms` text,
+	`validDays` int NOT NULL DEFAULT 30,
+	`acceptanceText` text,
+	`isDefault` boolean NOT NULL DEFAULT false,
+	`createdBy` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `proposal_templates_id` PRIMARY KEY(`id`)
+);
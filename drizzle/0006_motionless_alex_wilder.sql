@@ -0,0 +1,37 @@
+CREATE TABLE `organization_members` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`userId` int NOT NULL,
+	`role` enum('owner','member') NOT NULL DEFAULT 'member',
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `organization_members_id` PRIMARY KEY(`id`),
+	CONSTRAINT `organization_members_org_user_idx` UNIQUE(`organizationId`,`userId`)
+);
+--> statement-breakpoint
+CREATE TABLE `organizations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`name` varchar(256) NOT NULL,
+	`createdBy` varchar(64),
+	`personalOwnerId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `organizations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `organizations_personal_owner_idx` UNIQUE(`personalOwnerId`)
+);
+--> statement-breakpoint
+ALTER TABLE `product_pricing` DROP INDEX `product_pricing_productId_unique`;--> statement-breakpoint
+ALTER TABLE `price_history` ADD `organizationId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `product_pricing` ADD `organizationId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `proposal_templates` ADD `organizationId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `quote_requests` ADD `organizationId` int NOT NULL;--> statement-breakpoint
+ALTER TABLE `saved_estimates` ADD `organizationId` int NOT NULL;--> statement-breakpoint
+INSERT INTO `organizations` (`id`, `name`, `createdBy`) VALUES (1, 'Default Organization', 'system');--> statement-breakpoint
+INSERT INTO `organization_members` (`organizationId`, `userId`, `role`) SELECT 1, `id`, IF(`role` = 'admin', 'owner', 'member') FROM `users`;--> statement-breakpoint
+UPDATE `price_history` SET `organizationId` = 1;--> statement-breakpoint
+UPDATE `product_pricing` SET `organizationId` = 1;--> statement-breakpoint
+UPDATE `proposal_templates` SET `organizationId` = 1;--> statement-breakpoint
+UPDATE `quote_requests` SET `organizationId` = 1;--> statement-breakpoint
+UPDATE `saved_estimates` SET `organizationId` = 1;--> statement-breakpoint
+ALTER TABLE `product_pricing` ADD CONSTRAINT `product_pricing_org_product_idx` UNIQUE(`organizationId`,`productId`);--> statement-breakpoint
+CREATE INDEX `price_history_org_product_idx` ON `price_history` (`organizationId`,`productId`);--> statement-breakpoint
+CREATE INDEX `proposal_templates_org_idx` ON `proposal_templates` (`organizationId`);
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `distributor_prices` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`distributorId` int NOT NULL,
+	`productId` varchar(128) NOT NULL,
+	`unitPrice` decimal(10,2) NOT NULL,
+	`priceSource` varchar(256),
+	`lastPriceUpdate` timestamp NOT NULL DEFAULT (now()),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `distributor_prices_id` PRIMARY KEY(`id`),
+	CONSTRAINT `distributor_prices_distributor_product_idx` UNIQUE(`distributorId`,`productId`)
+);
+--> statement-breakpoint
+CREATE TABLE `distributors` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`name` varchar(256) NOT NULL,
+	`branch` varchar(256),
+	`accountNumber` varchar(128),
+	`paymentTerms` varchar(128),
+	`contactName` varchar(256),
+	`contactEmail` varchar(320),
+	`contactPhone` varchar(64),
+	`notes` text,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `distributors_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `quote_requests` ADD `distributorId` int;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE `quote_item_prices` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`quoteItemId` int NOT NULL,
+	`distributorId` int NOT NULL,
+	`unitPrice` decimal(10,2) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `quote_item_prices_id` PRIMARY KEY(`id`),
+	CONSTRAINT `quote_item_prices_item_distributor_idx` UNIQUE(`quoteItemId`,`distributorId`)
+);
+--> statement-breakpoint
+CREATE TABLE `quote_request_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`quoteRequestId` int NOT NULL,
+	`productId` varchar(128) NOT NULL,
+	`name` varchar(256) NOT NULL,
+	`unit` varchar(64) NOT NULL,
+	`quantity` decimal(12,2),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `quote_request_items_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `quote_requests` ADD `estimateId` int;--> statement-breakpoint
+CREATE INDEX `quote_request_items_quote_idx` ON `quote_request_items` (`quoteRequestId`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `scheduled_prices` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`productId` varchar(128) NOT NULL,
+	`unitPrice` decimal(10,2) NOT NULL,
+	`effectiveFrom` timestamp NOT NULL,
+	`effectiveTo` timestamp,
+	`priceSource` varchar(256),
+	`createdBy` varchar(64),
+	`appliedAt` timestamp,
+	`revertPrice` decimal(10,2),
+	`endedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `scheduled_prices_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE INDEX `scheduled_prices_org_product_idx` ON `scheduled_prices` (`organizationId`,`productId`);
\ No newline at end of file
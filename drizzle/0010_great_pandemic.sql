@@ -0,0 +1,15 @@
+CREATE TABLE `price_batches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`organizationId` int NOT NULL,
+	`source` varchar(256) NOT NULL,
+	`productCount` int NOT NULL,
+	`createdBy` varchar(64),
+	`undoneAt` timestamp,
+	`undoneBy` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `price_batches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `price_history` ADD `batchId` int;--> statement-breakpoint
+CREATE INDEX `price_batches_org_idx` ON `price_batches` (`organizationId`);--> statement-breakpoint
+CREATE INDEX `price_history_batch_idx` ON `price_history` (`batchId`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `saved_estimates` ADD `status` enum('draft','sent','won','lost') DEFAULT 'draft' NOT NULL;
\ No newline at end of file
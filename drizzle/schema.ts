@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, bigint } from "drizzle-orm/mysql-core";
+import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, bigint, boolean, index, uniqueIndex } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -18,15 +18,55 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * Organizations (companies / branches).
+ * Each organization has its own price book, price history, quote requests
+ * and saved estimates.
+ */
+export const organizations = mysqlTable("organizations", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 256 }).notNull(),
+  /** User who created the organization (openId) */
+  createdBy: varchar("createdBy", { length: 64 }),
+  /** References users.id — set on the personal organization a user gets on first sign-in, at most one per user */
+  personalOwnerId: int("personalOwnerId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [uniqueIndex("organizations_personal_owner_idx").on(table.personalOwnerId)]);
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = typeof organizations.$inferInsert;
+
+/**
+ * Organization membership.
+ * Owners can add and remove members; every member works in the
+ * organization's price book and estimates.
+ */
+export const organizationMembers = mysqlTable("organization_members", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** References users.id */
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", ["owner", "member"]).default("member").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [uniqueIndex("organization_members_org_user_idx").on(table.organizationId, table.userId)]);
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = typeof organizationMembers.$inferInsert;
+
 /**
  * Product pricing database.
- * Stores unit prices for all materials across all estimators.
- * Each product is identified by a unique productId that matches the estimator data models.
+ * Stores unit prices for all materials across all estimators, one price book
+ * per organization. Each product is identified by a productId (unique within
+ * the organization) that matches the estimator data models.
  */
 export const productPricing = mysqlTable("product_pricing", {
   id: int("id").autoincrement().primaryKey(),
-  /** Unique product identifier matching estimator data (e.g., 'carlisle-tpo-60mil-10x100') */
-  productId: varchar("productId", { length: 128 }).notNull().unique(),
+  /** Organization whose price book this is (references organizations.id) */
+  organizationId: int("organizationId").notNull(),
+  /** Product identifier matching estimator data (e.g., 'carlisle-tpo-60mil-10x100') */
+  productId: varchar("productId", { length: 128 }).notNull(),
   /** Which estimator system this belongs to */
   system: varchar("system", { length: 64 }).notNull(),
   /** Manufacturer name */
@@ -49,7 +89,7 @@ export const productPricing = mysqlTable("product_pricing", {
   lastPriceUpdate: timestamp("lastPriceUpdate").defaultNow().notNull(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => [uniqueIndex("product_pricing_org_product_idx").on(table.organizationId, table.productId)]);
 
 export type ProductPricing = typeof productPricing.$inferSelect;
 export type InsertProductPricing = typeof productPricing.$inferInsert;
@@ -60,6 +100,8 @@ export type InsertProductPricing = typeof productPricing.$inferInsert;
  */
 export const priceHistory = mysqlTable("price_history", {
   id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
   /** References productPricing.productId */
   productId: varchar("productId", { length: 128 }).notNull(),
   /** The old price before the change */
@@ -70,24 +112,150 @@ export const priceHistory = mysqlTable("price_history", {
   source: varchar("source", { length: 256 }),
   /** Who made the change (user openId or 'system' for imports) */
   changedBy: varchar("changedBy", { length: 64 }),
+  /** Bulk change this entry belongs to (references priceBatches.id); null for single edits */
+  batchId: int("batchId"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => [
+  index("price_history_org_product_idx").on(table.organizationId, table.productId),
+  index("price_history_batch_idx").on(table.batchId),
+]);
 
 export type PriceHistory = typeof priceHistory.$inferSelect;
 export type InsertPriceHistory = typeof priceHistory.$inferInsert;
 
+/**
+ * Bulk price changes (e.g., "Carlisle membranes +4%").
+ * Every product the batch changed has a price_history entry with its batchId,
+ * so the whole batch can be undone as a unit.
+ */
+export const priceBatches = mysqlTable("price_batches", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** Source recorded in price history (e.g., 'Bulk adjust: Carlisle Membrane +4%') */
+  source: varchar("source", { length: 256 }).notNull(),
+  /** Number of products the batch changed */
+  productCount: int("productCount").notNull(),
+  /** Who made the change (user openId) */
+  createdBy: varchar("createdBy", { length: 64 }),
+  /** When the batch was undone; null while in effect */
+  undoneAt: timestamp("undoneAt"),
+  /** Who undid the batch (user openId) */
+  undoneBy: varchar("undoneBy", { length: 64 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [index("price_batches_org_idx").on(table.organizationId)]);
+
+export type PriceBatch = typeof priceBatches.$inferSelect;
+export type InsertPriceBatch = typeof priceBatches.$inferInsert;
+
+/**
+ * Scheduled (effective-dated) price changes for the price book.
+ * A change replaces product_pricing.unitPrice from effectiveFrom until
+ * effectiveTo (open-ended when null). When it takes effect the price book and
+ * price_history are updated; a temporary price reverts when it ends.
+ */
+export const scheduledPrices = mysqlTable("scheduled_prices", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** References productPricing.productId */
+  productId: varchar("productId", { length: 128 }).notNull(),
+  /** Scheduled unit price in dollars */
+  unitPrice: decimal("unitPrice", { precision: 10, scale: 2 }).notNull(),
+  /** First moment the price applies */
+  effectiveFrom: timestamp("effectiveFrom").notNull(),
+  /** End of a temporary price (exclusive); null for a permanent change */
+  effectiveTo: timestamp("effectiveTo"),
+  /** Source recorded in price history (e.g., 'Carlisle +7% effective March 1') */
+  priceSource: varchar("priceSource", { length: 256 }),
+  /** Who scheduled the change (user openId) */
+  createdBy: varchar("createdBy", { length: 64 }),
+  /** When the change was written to the price book; null while pending */
+  appliedAt: timestamp("appliedAt"),
+  /** Book price the change replaced, restored when a temporary price ends */
+  revertPrice: decimal("revertPrice", { precision: 10, scale: 2 }),
+  /** When the change needed no further processing (permanent and applied, reverted, or lapsed) */
+  endedAt: timestamp("endedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [index("scheduled_prices_org_product_idx").on(table.organizationId, table.productId)]);
+
+export type ScheduledPrice = typeof scheduledPrices.$inferSelect;
+export type InsertScheduledPrice = typeof scheduledPrices.$inferInsert;
+
+/**
+ * Distributor directory.
+ * Suppliers an organization buys from (QXO, ABC Supply, SRS, ...), with the
+ * branch, account and contact details used when requesting quotes.
+ */
+export const distributors = mysqlTable("distributors", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** Distributor name (e.g., 'ABC Supply') */
+  name: varchar("name", { length: 256 }).notNull(),
+  /** Branch / location (e.g., 'Denver North') */
+  branch: varchar("branch", { length: 256 }),
+  /** Our account number with the distributor */
+  accountNumber: varchar("accountNumber", { length: 128 }),
+  /** Payment terms (e.g., 'Net 30', '2% 10 Net 30') */
+  paymentTerms: varchar("paymentTerms", { length: 128 }),
+  /** Sales rep / branch contact */
+  contactName: varchar("contactName", { length: 256 }),
+  contactEmail: varchar("contactEmail", { length: 320 }),
+  contactPhone: varchar("contactPhone", { length: 64 }),
+  notes: text("notes"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Distributor = typeof distributors.$inferSelect;
+export type InsertDistributor = typeof distributors.$inferInsert;
+
+/**
+ * Distributor price lists.
+ * One distributor's price for a product, kept alongside the organization's
+ * default price book (product_pricing). Products a distributor hasn't priced
+ * fall back to the default price book.
+ */
+export const distributorPrices = mysqlTable("distributor_prices", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** References distributors.id */
+  distributorId: int("distributorId").notNull(),
+  /** References productPricing.productId */
+  productId: varchar("productId", { length: 128 }).notNull(),
+  /** Distributor's unit price in dollars */
+  unitPrice: decimal("unitPrice", { precision: 10, scale: 2 }).notNull(),
+  /** Source of the price (e.g., 'Manual Edit', 'ABC Supply Quote 2/9/2026') */
+  priceSource: varchar("priceSource", { length: 256 }),
+  /** When the price was last updated */
+  lastPriceUpdate: timestamp("lastPriceUpdate").defaultNow().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [uniqueIndex("distributor_prices_distributor_product_idx").on(table.distributorId, table.productId)]);
+
+export type DistributorPrice = typeof distributorPrices.$inferSelect;
+export type InsertDistributorPrice = typeof distributorPrices.$inferInsert;
+
 /**
  * Quote requests.
  * Tracks quote requests sent to distributors.
  */
 export const quoteRequests = mysqlTable("quote_requests", {
   id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
   /** Name/label for this quote request */
   name: varchar("name", { length: 256 }).notNull(),
   /** Which estimator system (e.g., 'carlisle-tpo', 'gaf-tpo', 'karnak-metal-kynar') */
   system: varchar("system", { length: 64 }).notNull(),
   /** Distributor name */
   distributor: varchar("distributor", { length: 256 }),
+  /** Directory distributor the quote was requested from (references distributors.id) */
+  distributorId: int("distributorId"),
+  /** Saved estimate whose order list supplied the quantities (references savedEstimates.id) */
+  estimateId: int("estimateId"),
   /** Status of the quote */
   status: mysqlEnum("status", ["draft", "sent", "received", "applied"]).default("draft").notNull(),
   /** Number of products in the quote */
@@ -103,6 +271,53 @@ export const quoteRequests = mysqlTable("quote_requests", {
 export type QuoteRequest = typeof quoteRequests.$inferSelect;
 export type InsertQuoteRequest = typeof quoteRequests.$inferInsert;
 
+/**
+ * Quote request line items.
+ * The products (and quantities, when taken from a saved estimate's order
+ * list) a quote request asks distributors to price.
+ */
+export const quoteRequestItems = mysqlTable("quote_request_items", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** References quoteRequests.id */
+  quoteRequestId: int("quoteRequestId").notNull(),
+  /** References productPricing.productId */
+  productId: varchar("productId", { length: 128 }).notNull(),
+  /** Product name at the time of the request */
+  name: varchar("name", { length: 256 }).notNull(),
+  /** Unit of measure (e.g., 'per roll') */
+  unit: varchar("unit", { length: 64 }).notNull(),
+  /** Requested order quantity; null when the quote only asks for unit prices */
+  quantity: decimal("quantity", { precision: 12, scale: 2 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [index("quote_request_items_quote_idx").on(table.quoteRequestId)]);
+
+export type QuoteRequestItem = typeof quoteRequestItems.$inferSelect;
+export type InsertQuoteRequestItem = typeof quoteRequestItems.$inferInsert;
+
+/**
+ * Returned quote prices.
+ * Each distributor's unit price for a quote request line item, compared
+ * side by side when leveling the quote.
+ */
+export const quoteItemPrices = mysqlTable("quote_item_prices", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** References quoteRequestItems.id */
+  quoteItemId: int("quoteItemId").notNull(),
+  /** References distributors.id */
+  distributorId: int("distributorId").notNull(),
+  /** Returned unit price in dollars */
+  unitPrice: decimal("unitPrice", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [uniqueIndex("quote_item_prices_item_distributor_idx").on(table.quoteItemId, table.distributorId)]);
+
+export type QuoteItemPrice = typeof quoteItemPrices.$inferSelect;
+export type InsertQuoteItemPrice = typeof quoteItemPrices.$inferInsert;
+
 /**
  * Saved estimates.
  * Persists full estimator state so users can name, save, and revisit past project estimates.
@@ -110,6 +325,8 @@ export type InsertQuoteRequest = typeof quoteRequests.$inferInsert;
  */
 export const savedEstimates = mysqlTable("saved_estimates", {
   id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
   /** User-chosen project name */
   name: varchar("name", { length: 256 }).notNull(),
   /** Which estimator system: 'karnak-metal-kynar', 'carlisle-tpo', 'gaf-tpo' */
@@ -126,6 +343,8 @@ export const savedEstimates = mysqlTable("saved_estimates", {
   roofArea: decimal("roofArea", { precision: 12, scale: 2 }),
   /** Full breakdown state serialized as JSON (items, toggles, tax/profit, custom items) */
   breakdownState: text("breakdownState"),
+  /** Bid status; draft and sent estimates are open (not yet won or lost) */
+  status: mysqlEnum("status", ["draft", "sent", "won", "lost"]).default("draft").notNull(),
   /** User who saved this estimate */
   createdBy: varchar("createdBy", { length: 64 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
@@ -134,3 +353,76 @@ export const savedEstimates = mysqlTable("saved_estimates", {
 
 export type SavedEstimate = typeof savedEstimates.$inferSelect;
 export type InsertSavedEstimate = typeof savedEstimates.$inferInsert;
+
+/**
+ * Saved estimate revisions.
+ * Every save of a saved estimate (create, re-save, restore) is kept here as a
+ * full snapshot, so earlier versions can be listed, compared and restored.
+ */
+export const estimateRevisions = mysqlTable("estimate_revisions", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References savedEstimates.id */
+  estimateId: int("estimateId").notNull(),
+  /** 1-based revision number within the estimate */
+  revision: int("revision").notNull(),
+  /** Project name at the time of this revision */
+  name: varchar("name", { length: 256 }).notNull(),
+  /** Full estimator state serialized as JSON */
+  data: text("data").notNull(),
+  /** Snapshot of the grand total at time of save */
+  grandTotal: decimal("grandTotal", { precision: 12, scale: 2 }),
+  /** Snapshot of roof area / square footage */
+  roofArea: decimal("roofArea", { precision: 12, scale: 2 }),
+  /** Full breakdown state serialized as JSON */
+  breakdownState: text("breakdownState"),
+  /** Revision this one was restored from, if it's a restore */
+  restoredFrom: int("restoredFrom"),
+  /** User who saved this revision */
+  createdBy: varchar("createdBy", { length: 64 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => [uniqueIndex("estimate_revisions_estimate_revision_idx").on(table.estimateId, table.revision)]);
+
+export type EstimateRevision = typeof estimateRevisions.$inferSelect;
+export type InsertEstimateRevision = typeof estimateRevisions.$inferInsert;
+
+/**
+ * Proposal templates.
+ * Letterhead and boilerplate for customer-facing proposal PDFs. Inclusions and
+ * exclusions are stored one per line; the default template is used when a
+ * proposal doesn't name one. Each organization has its own templates and
+ * default.
+ */
+export const proposalTemplates = mysqlTable("proposal_templates", {
+  id: int("id").autoincrement().primaryKey(),
+  /** References organizations.id */
+  organizationId: int("organizationId").notNull(),
+  /** Template name shown in the picker */
+  name: varchar("name", { length: 256 }).notNull(),
+  /** Letterhead */
+  companyName: varchar("companyName", { length: 256 }).notNull(),
+  companyAddress: text("companyAddress"),
+  companyPhone: varchar("companyPhone", { length: 64 }),
+  companyEmail: varchar("companyEmail", { length: 320 }),
+  companyWebsite: varchar("companyWebsite", { length: 256 }),
+  /** Contractor license number(s) printed under the letterhead */
+  licenseNumber: varchar("licenseNumber", { length: 128 }),
+  /** Opening paragraph addressed to the customer */
+  introText: text("introText"),
+  /** Scope inclusions, one per line */
+  inclusions: text("inclusions"),
+  /** Scope exclusions, one per line */
+  exclusions: text("exclusions"),
+  paymentTerms: text("paymentTerms"),
+  /** Days the quoted price is valid */
+  validDays: int("validDays").default(30).notNull(),
+  /** Acceptance wording above the signature block */
+  acceptanceText: text("acceptanceText"),
+  isDefault: boolean("isDefault").default(false).notNull(),
+  /** User who created the template */
+  createdBy: varchar("createdBy", { length: 64 }),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => [index("proposal_templates_org_idx").on(table.organizationId)]);
+
+export type ProposalTemplate = typeof proposalTemplates.$inferSelect;
+export type InsertProposalTemplate = typeof proposalTemplates.$inferInsert;
@@ -4,6 +4,9 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerEstimateRoutes } from "../estimate-api";
+import { registerProposalRoutes } from "../proposal-api";
+import { startPriceScheduleJob } from "../price-schedule-job";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -35,6 +38,9 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Estimate calculation REST API under /api/estimate
+  registerEstimateRoutes(app);
+  registerProposalRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +66,8 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+  // Write scheduled price changes to the price book as they come due
+  startPriceScheduleJob();
 }
 
 startServer().catch(console.error);
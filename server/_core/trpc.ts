@@ -1,6 +1,7 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { NOT_ADMIN_ERR_MSG, NOT_MEMBER_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { getRequestedOrganizationId, resolveActiveOrganization } from "../organizations-db";
 import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
@@ -43,3 +44,45 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Resolves the active organization from the org switcher's header (or the
+ * user's first organization) and adds it to the context. Runs after an auth
+ * middleware, so the user is always present.
+ */
+const requireOrganization = t.middleware(async opts => {
+  const { ctx, next } = opts;
+
+  if (!ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+  }
+
+  const organization = await resolveActiveOrganization(ctx.user, getRequestedOrganizationId(ctx.req));
+  if (!organization) {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_MEMBER_ERR_MSG });
+  }
+
+  return next({
+    ctx: {
+      ...ctx,
+      user: ctx.user,
+      organization,
+    },
+  });
+});
+
+/** Signed-in user working in their active organization */
+export const organizationProcedure = protectedProcedure.use(requireOrganization);
+
+/** Admin working in their active organization */
+export const organizationAdminProcedure = adminProcedure.use(requireOrganization);
+
+const NOT_ORG_OWNER_MSG = "Only organization owners can do this";
+
+/** Owner (or site admin) managing their active organization */
+export const organizationOwnerProcedure = organizationProcedure.use(async ({ ctx, next }) => {
+  if (ctx.organization.role !== "owner" && ctx.user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_ORG_OWNER_MSG });
+  }
+  return next();
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Mock the pricing-db module — one Carlisle price in organization 7's price book
+// ($9 on distributor 3's list), nothing else
+vi.mock("./pricing-db", () => ({
+  getSystemPriceMap: vi
+    .fn()
+    .mockImplementation(
+      async (organizationId: number, system: string, _prefix: string, distributorId?: number, asOf?: Date) =>
+        organizationId === 7 && system === "carlisle-tpo"
+          ? { "insulation-2.0": distributorId === 3 ? 9 : asOf ? 11 : 10 }
+          : {},
+    ),
+}));
+
+// Mock the distributors-db module — organization 7 has distributor 3
+vi.mock("./distributors-db", () => ({
+  getDistributor: vi
+    .fn()
+    .mockImplementation(async (organizationId: number, id: number) =>
+      organizationId === 7 && id === 3 ? { id: 3, organizationId: 7, name: "ABC Supply" } : null,
+    ),
+}));
+
+// Mock the organizations-db module — signed-in users work in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { getSystemPriceMap } from "./pricing-db";
+import type { TrpcContext } from "./_core/context";
+
+function createContext(signedIn = false): TrpcContext {
+  return {
+    user: signedIn
+      ? {
+          id: 1,
+          openId: "user-42",
+          email: "estimator@example.com",
+          name: "Estimator",
+          loginMethod: "manus",
+          role: "user",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          lastSignedIn: new Date(),
+        }
+      : null,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+const roof = { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 };
+
+describe("calculate router", () => {
+  it("lists the systems the calculator accepts", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.calculate.systems();
+
+    expect(result.map((s) => s.id)).toContain("carlisle-tpo");
+    expect(result.find((s) => s.id === "karnak-metal-kynar")?.kind).toBe("coating");
+  });
+
+  it("prices a membrane estimate from the active organization's price book", async () => {
+    const caller = appRouter.createCaller(createContext(true));
+    const result = await caller.calculate.estimate({ system: "carlisle-tpo", measurements: roof });
+
+    const insulation = result.materials.find((m) => m.productId === "insulation-2.0");
+    expect(insulation?.unitPrice).toBe(10);
+    expect(result.labor.length).toBeGreaterThan(0);
+    expect(result.totals.grandTotal).toBeGreaterThan(result.totals.materials);
+  });
+
+  it("fills optional measurement fields with defaults", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.calculate.estimate({
+      system: "firestone-epdm",
+      sections: [{ name: "Main Roof", measurements: { roofArea: 5000 } }],
+    });
+
+    expect(result.roofArea).toBe(5000);
+    expect(result.materials.length).toBeGreaterThan(0);
+  });
+
+  it("estimates coating systems", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.calculate.estimate({
+      system: "karnak-metal-kynar",
+      measurements: { squareFootage: 5000 },
+    });
+
+    expect(result.systemName).toBe("Karnak Metal Kynar Coating System");
+    expect(result.totals.materials).toBeGreaterThan(0);
+  });
+
+  it("rejects unknown systems and membrane requests without measurements", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await expect(
+      caller.calculate.estimate({ system: "not-a-system", measurements: { squareFootage: 100 } }),
+    ).rejects.toThrow();
+    await expect(caller.calculate.estimate({ system: "gaf-tpo" })).rejects.toThrow();
+  });
+
+  it("prices from a distributor's list when the request names one", async () => {
+    const caller = appRouter.createCaller(createContext(true));
+    const result = await caller.calculate.estimate({ system: "carlisle-tpo", distributorId: 3, measurements: roof });
+
+    const insulation = result.materials.find((m) => m.productId === "insulation-2.0");
+    expect(insulation?.unitPrice).toBe(9);
+    expect(getSystemPriceMap).toHaveBeenLastCalledWith(7, "carlisle-tpo", "carlisle-tpo", 3, undefined);
+  });
+
+  it("prices as of the job's start date when the request names one", async () => {
+    const caller = appRouter.createCaller(createContext(true));
+    const result = await caller.calculate.estimate({ system: "carlisle-tpo", priceDate: "2027-04-01", measurements: roof });
+
+    const insulation = result.materials.find((m) => m.productId === "insulation-2.0");
+    expect(insulation?.unitPrice).toBe(11);
+    expect(getSystemPriceMap).toHaveBeenLastCalledWith(
+      7,
+      "carlisle-tpo",
+      "carlisle-tpo",
+      undefined,
+      new Date("2027-04-01"),
+    );
+  });
+
+  it("rejects distributors outside the organization and distributor pricing when signed out", async () => {
+    await expect(
+      appRouter.createCaller(createContext(true)).calculate.estimate({
+        system: "carlisle-tpo",
+        distributorId: 4,
+        measurements: roof,
+      }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND", message: "Distributor not found" });
+    await expect(
+      appRouter.createCaller(createContext()).calculate.estimate({
+        system: "carlisle-tpo",
+        distributorId: 3,
+        measurements: roof,
+      }),
+    ).rejects.toThrow("Sign in");
+  });
+
+  it("uses catalog prices when signed out", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.calculate.estimate({ system: "carlisle-tpo", measurements: roof });
+
+    const insulation = result.materials.find((m) => m.productId === "insulation-2.0");
+    expect(insulation?.unitPrice).not.toBe(10);
+  });
+});
@@ -18,6 +18,9 @@ export async function getDb() {
   return _db;
 }
 
+/** The handle passed to a db.transaction() callback */
+export type Transaction = Parameters<Parameters<NonNullable<Awaited<ReturnType<typeof getDb>>>["transaction"]>[0]>[0];
+
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.openId) {
     throw new Error("User openId is required for upsert");
@@ -0,0 +1,152 @@
+/**
+ * Distributors — Database helpers
+ *
+ * The organization's distributor directory and each distributor's price list.
+ * Distributor prices sit alongside the default price book (product_pricing);
+ * a product the distributor hasn't priced falls back to the default price.
+ */
+import { and, eq } from "drizzle-orm";
+import { getDb, type Transaction } from "./db";
+import { distributorPrices, distributors, type InsertDistributor } from "../drizzle/schema";
+
+type DistributorFields = Omit<InsertDistributor, "id" | "organizationId" | "createdAt" | "updatedAt">;
+
+// ─── Directory ──────────────────────────────────────────────────────
+
+/** The organization's distributors, by name. */
+export async function listDistributors(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(distributors)
+    .where(eq(distributors.organizationId, organizationId))
+    .orderBy(distributors.name, distributors.branch);
+}
+
+/** Get a single distributor by ID within the organization. */
+export async function getDistributor(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(distributors)
+    .where(and(eq(distributors.organizationId, organizationId), eq(distributors.id, id)))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/** Add a distributor to the organization's directory. Returns the inserted ID. */
+export async function createDistributor(organizationId: number, input: DistributorFields) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(distributors).values({ ...input, organizationId });
+  return { id: Number(result[0].insertId) };
+}
+
+/** Update a distributor's details. */
+export async function updateDistributor(organizationId: number, id: number, updates: Partial<DistributorFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(distributors)
+    .set(updates)
+    .where(and(eq(distributors.organizationId, organizationId), eq(distributors.id, id)));
+  return { success: true };
+}
+
+/** Remove a distributor and its price list. */
+export async function deleteDistributor(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(distributorPrices)
+    .where(and(eq(distributorPrices.organizationId, organizationId), eq(distributorPrices.distributorId, id)));
+  await db
+    .delete(distributors)
+    .where(and(eq(distributors.organizationId, organizationId), eq(distributors.id, id)));
+  return { success: true };
+}
+
+// ─── Price Lists ────────────────────────────────────────────────────
+
+/** Every distributor price in the organization, or one distributor's list when `distributorId` is given. */
+export async function getDistributorPrices(organizationId: number, distributorId?: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [eq(distributorPrices.organizationId, organizationId)];
+  if (distributorId !== undefined) {
+    conditions.push(eq(distributorPrices.distributorId, distributorId));
+  }
+  return db
+    .select()
+    .from(distributorPrices)
+    .where(and(...conditions))
+    .orderBy(distributorPrices.productId);
+}
+
+/** Set prices on a distributor's list, adding products it doesn't have yet. Returns the number of prices written. */
+export async function setDistributorPrices(
+  organizationId: number,
+  distributorId: number,
+  prices: Array<{ productId: string; unitPrice: string }>,
+  source: string,
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction((tx) => writeDistributorPrices(tx, organizationId, distributorId, prices, source));
+}
+
+/** Upsert prices on a distributor's list within a transaction. Returns the number written. */
+export async function writeDistributorPrices(
+  tx: Transaction,
+  organizationId: number,
+  distributorId: number,
+  prices: Array<{ productId: string; unitPrice: string }>,
+  source: string,
+) {
+  for (const price of prices) {
+    await tx
+      .insert(distributorPrices)
+      .values({
+        organizationId,
+        distributorId,
+        productId: price.productId,
+        unitPrice: price.unitPrice,
+        priceSource: source,
+      })
+      .onDuplicateKeyUpdate({
+        set: {
+          unitPrice: price.unitPrice,
+          priceSource: source,
+          lastPriceUpdate: new Date(),
+        },
+      });
+  }
+  return prices.length;
+}
+
+/** Drop a product from a distributor's list so it falls back to the default price. */
+export async function removeDistributorPrice(organizationId: number, distributorId: number, productId: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(distributorPrices)
+    .where(
+      and(
+        eq(distributorPrices.organizationId, organizationId),
+        eq(distributorPrices.distributorId, distributorId),
+        eq(distributorPrices.productId, productId),
+      ),
+    );
+  return { success: true };
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from "vitest";
+
+const directory = [
+  { id: 3, organizationId: 7, name: "ABC Supply", branch: "Denver North", paymentTerms: "Net 30" },
+  { id: 4, organizationId: 7, name: "SRS", branch: null, paymentTerms: null },
+  { id: 5, organizationId: 8, name: "QXO", branch: null, paymentTerms: null },
+];
+
+// Mock the distributors-db module
+vi.mock("./distributors-db", () => ({
+  listDistributors: vi
+    .fn()
+    .mockImplementation(async (organizationId: number) => directory.filter((d) => d.organizationId === organizationId)),
+  getDistributor: vi
+    .fn()
+    .mockImplementation(
+      async (organizationId: number, id: number) =>
+        directory.find((d) => d.organizationId === organizationId && d.id === id) ?? null,
+    ),
+  createDistributor: vi.fn().mockResolvedValue({ id: 6 }),
+  updateDistributor: vi.fn().mockResolvedValue({ success: true }),
+  deleteDistributor: vi.fn().mockResolvedValue({ success: true }),
+  getDistributorPrices: vi.fn().mockResolvedValue([]),
+  setDistributorPrices: vi.fn().mockImplementation(async (_org: number, _id: number, prices: unknown[]) => prices.length),
+  removeDistributorPrice: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock the pricing-db module
+vi.mock("./pricing-db", () => ({
+  createQuoteRequest: vi.fn().mockResolvedValue(11),
+  getPricingBySystem: vi.fn().mockResolvedValue([]),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import {
+  createDistributor,
+  deleteDistributor,
+  getDistributorPrices,
+  listDistributors,
+  setDistributorPrices,
+} from "./distributors-db";
+import { createQuoteRequest } from "./pricing-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: AuthenticatedUser["role"] = "user"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "estimator@example.com",
+      name: "Estimator",
+      loginMethod: "manus",
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("distributors router", () => {
+  it("lists the active organization's directory", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.distributors.list();
+
+    expect(listDistributors).toHaveBeenCalledWith(7);
+    expect(result.map((d) => d.name)).toEqual(["ABC Supply", "SRS"]);
+  });
+
+  it("returns one distributor's price list or every list", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.distributors.prices({ distributorId: 3 });
+    expect(getDistributorPrices).toHaveBeenLastCalledWith(7, 3);
+
+    await caller.distributors.prices();
+    expect(getDistributorPrices).toHaveBeenLastCalledWith(7, undefined);
+  });
+
+  it("lets admins add distributors", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const result = await caller.distributors.create({ name: "Beacon", paymentTerms: "2% 10 Net 30" });
+
+    expect(result).toEqual({ id: 6 });
+    expect(createDistributor).toHaveBeenCalledWith(7, { name: "Beacon", paymentTerms: "2% 10 Net 30" });
+  });
+
+  it("saves prices to a distributor's list", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const result = await caller.distributors.setPrices({
+      distributorId: 3,
+      prices: [
+        { productId: "carlisle-tpo-insulation-2.0", unitPrice: "41.50" },
+        { productId: "carlisle-tpo-cover-board", unitPrice: "18.00" },
+      ],
+      source: "ABC Supply Quote 2/9/2026",
+    });
+
+    expect(result).toEqual({ updated: 2 });
+    expect(setDistributorPrices).toHaveBeenCalledWith(
+      7,
+      3,
+      expect.arrayContaining([{ productId: "carlisle-tpo-insulation-2.0", unitPrice: "41.50" }]),
+      "ABC Supply Quote 2/9/2026",
+    );
+  });
+
+  it("restricts directory and price list changes to admins", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.distributors.create({ name: "Beacon" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.distributors.delete({ id: 3 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      caller.distributors.setPrices({ distributorId: 3, prices: [{ productId: "x", unitPrice: "1.00" }] }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("hides distributors from other organizations", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    vi.mocked(deleteDistributor).mockClear();
+
+    await expect(caller.distributors.get({ id: 5 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Distributor not found",
+    });
+    await expect(caller.distributors.delete({ id: 5 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Distributor not found",
+    });
+    expect(deleteDistributor).not.toHaveBeenCalled();
+  });
+
+  it("labels quote requests with the directory distributor", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.pricing.createQuote({ name: "Spring TPO", system: "carlisle-tpo", distributorId: 3 });
+
+    expect(createQuoteRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ distributorId: 3, distributor: "ABC Supply (Denver North)", organizationId: 7 }),
+      [],
+    );
+    await expect(
+      caller.pricing.createQuote({ name: "Spring TPO", system: "carlisle-tpo", distributorId: 5 }),
+    ).rejects.toMatchObject({ code: "NOT_FOUND", message: "Distributor not found" });
+  });
+});
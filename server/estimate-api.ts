@@ -0,0 +1,54 @@
+import type { Express, Request, Response } from "express";
+import { HttpError } from "@shared/_core/errors";
+import { NOT_MEMBER_ERR_MSG } from "@shared/const";
+import { getEstimateSystems } from "@shared/estimating/project-estimate";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { calculateEstimateWithDBPricing, estimateRequestSchema } from "./estimate-calculator";
+import { getRequestedOrganizationId, resolveActiveOrganization } from "./organizations-db";
+
+/**
+ * Plain REST access to the estimate calculator for scripts and other tools:
+ *   GET  /api/estimate/systems — systems the calculator accepts
+ *   POST /api/estimate         — same body and result as tRPC calculate.estimate
+ *
+ * Requests with a session cookie are priced from the active organization's
+ * price book (X-Organization-Id header, else the user's first organization);
+ * anonymous requests use catalog defaults.
+ */
+export function registerEstimateRoutes(app: Express) {
+  app.get("/api/estimate/systems", (_req: Request, res: Response) => {
+    res.json(getEstimateSystems());
+  });
+
+  app.post("/api/estimate", async (req: Request, res: Response) => {
+    const parsed = estimateRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid estimate request", issues: parsed.error.issues });
+      return;
+    }
+
+    let user: User | null = null;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      user = null;
+    }
+
+    try {
+      const organization = user ? await resolveActiveOrganization(user, getRequestedOrganizationId(req)) : null;
+      if (user && !organization) {
+        res.status(403).json({ error: NOT_MEMBER_ERR_MSG });
+        return;
+      }
+      res.json(await calculateEstimateWithDBPricing(parsed.data, organization?.id));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Estimate] Calculation failed", error);
+      res.status(500).json({ error: "Estimate calculation failed" });
+    }
+  });
+}
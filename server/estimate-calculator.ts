@@ -0,0 +1,283 @@
+import { z } from "zod";
+import {
+  calculateProjectEstimate,
+  getPricingPrefix,
+  MEMBRANE_SYSTEM_IDS,
+  type MembraneSystemId,
+  type ProjectEstimate,
+} from "@shared/estimating/project-estimate";
+import { getCoatingSystem } from "@shared/estimating/silicone-coating-data";
+import { migrateSheetMetalState } from "@shared/estimating/sheet-metal-flashing-data";
+import { BadRequestError, NotFoundError } from "@shared/_core/errors";
+import { parseSavedState } from "@shared/estimating/estimate-diff";
+import { priceChangeImpact, type PriceChangeImpact } from "@shared/estimating/reprice";
+import { getSystemPriceMap } from "./pricing-db";
+import { getDistributor } from "./distributors-db";
+import { listOpenEstimates } from "./estimates-db";
+
+// ─── Request Schema ─────────────────────────────────────────────────
+// Shared by the tRPC `calculate.estimate` procedure and POST /api/estimate.
+
+const amount = z.number().nonnegative();
+
+const insulationLayerSchema = z.object({
+  thickness: z.string(),
+  enabled: z.boolean(),
+});
+
+const taperedSchema = z.object({
+  enabled: z.boolean(),
+  slope: z.enum(["1/8", "1/4", "1/2"]),
+  drainage: z.enum(["interior-drains", "perimeter-edge"]),
+  drainCount: z.number().int().nonnegative(),
+  runLength: amount,
+});
+
+const assemblySchema = z
+  .object({
+    deckType: z.string(),
+    vaporBarrier: z.string(),
+    insulationEnabled: z.boolean(),
+    insulationLayers: z.array(insulationLayerSchema).max(4),
+    coverBoard: z.string(),
+    membraneThickness: z.string(),
+    attachmentMethod: z.string(),
+    fastenerType: z.string(),
+    fastenerLength: z.string(),
+    membraneFastenerLength: z.string(),
+    plateType: z.string(),
+    membranePlateType: z.string(),
+    tapered: taperedSchema,
+  })
+  .partial();
+
+const roofMeasurementsSchema = z.object({
+  roofArea: amount,
+  wallLinearFt: amount.default(0),
+  wallHeight: amount.default(0),
+  baseFlashingLF: amount.default(0),
+  roofLength: amount.optional(),
+  roofWidth: amount.optional(),
+  meanRoofHeight: amount.optional(),
+  basicWindSpeed: amount.optional(),
+  exposureCategory: z.enum(["B", "C", "D"]).optional(),
+});
+
+const coatingMeasurementsSchema = z.object({
+  squareFootage: amount,
+  verticalSeamsLF: amount.default(0),
+  horizontalSeamsLF: amount.default(0),
+  warrantyYears: z.union([z.literal(10), z.literal(15), z.literal(20)]).optional(),
+});
+
+const costLineFields = {
+  id: z.string(),
+  label: z.string(),
+  description: z.string().default(""),
+  rate: amount,
+  quantity: amount,
+  enabled: z.boolean().default(true),
+};
+
+/** Labor/equipment lines as sent by clients; the sent rate/quantity become the defaults */
+function withDefaults<T extends { rate: number; quantity: number }>(item: T) {
+  return { ...item, defaultRate: item.rate, defaultQuantity: item.quantity };
+}
+
+const equipmentItemsSchema = z.array(
+  z.object({ ...costLineFields, rateType: z.enum(["per_day", "flat"]) }).transform(withDefaults),
+);
+
+const additionsSchema = {
+  penetrations: z.record(z.string(), amount).optional(),
+  sheetMetal: z
+    .object({
+      metalTypeId: z.string(),
+      gaugeId: z.string(),
+      // Linear feet in the job-wide metal, or a line with its own metal
+      lineItems: z.record(
+        z.string(),
+        z.union([
+          amount,
+          z.object({
+            linearFeet: amount,
+            metalTypeId: z.string(),
+            gaugeId: z.string(),
+            color: z.string().default(""),
+            developedWidth: z.number().positive(),
+          }),
+        ]),
+      ),
+      customProfiles: z
+        .array(
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            legs: z.array(z.object({ length: z.number().nonnegative(), bendAngle: z.number() })).min(1),
+            hemStart: z.boolean(),
+            hemEnd: z.boolean(),
+            stockId: z.string(),
+          }),
+        )
+        .optional(),
+      fabricationRates: z
+        .object({
+          brakeChargePerBend: z.number().nonnegative(),
+          hemChargePerHem: z.number().nonnegative(),
+          pieceLengthFt: z.number().positive(),
+        })
+        .optional(),
+      stockId: z.string().optional(),
+    })
+    .transform(migrateSheetMetalState)
+    .optional(),
+};
+
+/** Distributor whose price list to price from (default price book when omitted) */
+const distributorIdSchema = z.number().int().positive().optional();
+
+/** Date to price as of, e.g. the job's start date (today's prices when omitted) */
+const priceDateSchema = z.coerce.date().optional();
+
+const membraneRequestSchema = z
+  .object({
+    system: z.enum(MEMBRANE_SYSTEM_IDS as [MembraneSystemId, ...MembraneSystemId[]]),
+    distributorId: distributorIdSchema,
+    priceDate: priceDateSchema,
+    assembly: assemblySchema.optional(),
+    measurements: roofMeasurementsSchema.optional(),
+    sections: z
+      .array(
+        z.object({
+          name: z.string().min(1),
+          assembly: assemblySchema.optional(),
+          measurements: roofMeasurementsSchema,
+        }),
+      )
+      .optional(),
+    laborEquipment: z
+      .object({
+        laborItems: z.array(
+          z
+            .object({ ...costLineFields, rateType: z.enum(["per_sqft", "per_hour", "per_lf", "per_detail_hour", "per_seam_lf", "flat"]) })
+            .transform(withDefaults),
+        ),
+        equipmentItems: equipmentItemsSchema,
+      })
+      .optional(),
+    ...additionsSchema,
+  })
+  .refine((r) => r.measurements || (r.sections && r.sections.length > 0), {
+    message: "measurements or sections are required",
+  });
+
+const coatingRequestSchema = z.object({
+  system: z.string().refine((s) => !!getCoatingSystem(s), { message: "Unknown estimate system" }),
+  distributorId: distributorIdSchema,
+  priceDate: priceDateSchema,
+  measurements: coatingMeasurementsSchema,
+  laborEquipment: z
+    .object({
+      laborItems: z.array(
+        z
+          .object({ ...costLineFields, rateType: z.enum(["per_sqft", "per_hour", "per_detail_hour", "flat"]) })
+          .transform(withDefaults),
+      ),
+      equipmentItems: equipmentItemsSchema,
+    })
+    .optional(),
+  ...additionsSchema,
+});
+
+export const estimateRequestSchema = z.union([membraneRequestSchema, coatingRequestSchema]);
+
+export type EstimateRequest = z.infer<typeof estimateRequestSchema>;
+
+// ─── Calculation ────────────────────────────────────────────────────
+
+/**
+ * Full project estimate priced from an organization's price book, or from a
+ * distributor's price list on top of it when the request names one. With a
+ * `priceDate` the price book is priced as of that date, scheduled changes
+ * included. Products the price book doesn't have (or no organization /
+ * database at all) use catalog defaults.
+ */
+export async function calculateEstimateWithDBPricing(
+  request: EstimateRequest,
+  organizationId?: number,
+): Promise<ProjectEstimate> {
+  const prefix = getPricingPrefix(request.system) ?? request.system;
+  if (organizationId === undefined) {
+    if (request.distributorId !== undefined) throw BadRequestError("Sign in to price from a distributor's list");
+    return calculateProjectEstimate(request, {});
+  }
+  if (request.distributorId !== undefined && !(await getDistributor(organizationId, request.distributorId))) {
+    throw NotFoundError("Distributor not found");
+  }
+  const prices = await getSystemPriceMap(
+    organizationId,
+    request.system,
+    prefix,
+    request.distributorId,
+    request.priceDate,
+  );
+  return calculateProjectEstimate(request, prices);
+}
+
+// ─── Price Change Impact ────────────────────────────────────────────
+
+export interface EstimatePriceImpact extends PriceChangeImpact {
+  id: number;
+  name: string;
+  systemLabel: string;
+  status: string;
+  createdBy: string | null;
+}
+
+/**
+ * Recompute an organization's open estimates (optionally one owner's) with
+ * the current prices of the products a bulk update changed (pricing DB
+ * productIds). Each estimate is priced from its own price list and job date;
+ * other products keep the prices the estimate was saved with. Returns the
+ * affected estimates, largest change first.
+ */
+export async function getPriceChangeImpact(
+  organizationId: number,
+  productIds: string[],
+  createdBy?: string,
+): Promise<EstimatePriceImpact[]> {
+  const changed = new Set(productIds);
+  const priceMaps = new Map<string, Promise<Record<string, number>>>();
+  const impacts: EstimatePriceImpact[] = [];
+
+  for (const estimate of await listOpenEstimates(organizationId, createdBy)) {
+    let state;
+    try {
+      state = parseSavedState(estimate.data);
+    } catch {
+      continue; // unreadable saves can't be repriced
+    }
+    const prefix = getPricingPrefix(state.system) ?? state.system;
+    const distributorId = state.distributorId ?? undefined;
+    const key = `${state.system}|${distributorId ?? ""}|${state.priceDate ?? ""}`;
+    if (!priceMaps.has(key)) {
+      const asOf = state.priceDate ? new Date(state.priceDate) : undefined;
+      priceMaps.set(key, getSystemPriceMap(organizationId, state.system, prefix, distributorId, asOf));
+    }
+    const prices = await priceMaps.get(key)!;
+    const newPrices = new Map(Object.entries(prices).filter(([id]) => changed.has(`${prefix}-${id}`)));
+    if (newPrices.size === 0) continue;
+
+    const impact = priceChangeImpact(estimate, newPrices);
+    if (impact.drivers.length === 0) continue;
+    impacts.push({
+      id: estimate.id,
+      name: estimate.name,
+      systemLabel: estimate.systemLabel,
+      status: estimate.status,
+      createdBy: estimate.createdBy,
+      ...impact,
+    });
+  }
+  return impacts.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
@@ -1,18 +1,29 @@
 /**
  * Saved Estimates — Database helpers
  *
- * CRUD operations for the saved_estimates table.
+ * CRUD operations for the saved_estimates table, plus the revision history
+ * kept in estimate_revisions (one snapshot per save). Estimates are scoped to
+ * the organization they were saved in.
  */
-import { eq, desc, like, and } from "drizzle-orm";
-import { getDb } from "./db";
-import { savedEstimates, type InsertSavedEstimate } from "../drizzle/schema";
+import { eq, desc, like, and, max, inArray } from "drizzle-orm";
+import { getDb, type Transaction } from "./db";
+import { estimateRevisions, savedEstimates, type InsertSavedEstimate, type SavedEstimate } from "../drizzle/schema";
 
-/** List all saved estimates, newest first. Optional filter by system. */
-export async function listEstimates(opts?: { system?: string; search?: string }) {
+/** Statuses of estimates still pending with the customer */
+export const OPEN_ESTIMATE_STATUSES = ["draft", "sent"] as const;
+
+/** List an organization's saved estimates, newest first. Optional filter by system, name and owner (openId). */
+export async function listEstimates(
+  organizationId: number,
+  opts?: { system?: string; search?: string; createdBy?: string },
+) {
   const db = await getDb();
   if (!db) return [];
 
-  const conditions = [];
+  const conditions = [eq(savedEstimates.organizationId, organizationId)];
+  if (opts?.createdBy) {
+    conditions.push(eq(savedEstimates.createdBy, opts.createdBy));
+  }
   if (opts?.system) {
     conditions.push(eq(savedEstimates.system, opts.system));
   }
@@ -29,55 +40,271 @@ export async function listEstimates(opts?: { system?: string; search?: string })
       notes: savedEstimates.notes,
       grandTotal: savedEstimates.grandTotal,
       roofArea: savedEstimates.roofArea,
+      status: savedEstimates.status,
       createdBy: savedEstimates.createdBy,
       createdAt: savedEstimates.createdAt,
       updatedAt: savedEstimates.updatedAt,
     })
     .from(savedEstimates)
-    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .where(and(...conditions))
+    .orderBy(desc(savedEstimates.updatedAt));
+}
+
+/** An organization's open (draft or sent) estimates with their data JSON, optionally only one owner's. */
+export async function listOpenEstimates(organizationId: number, createdBy?: string) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const conditions = [
+    eq(savedEstimates.organizationId, organizationId),
+    inArray(savedEstimates.status, [...OPEN_ESTIMATE_STATUSES]),
+  ];
+  if (createdBy) {
+    conditions.push(eq(savedEstimates.createdBy, createdBy));
+  }
+  return db
+    .select({
+      id: savedEstimates.id,
+      name: savedEstimates.name,
+      system: savedEstimates.system,
+      systemLabel: savedEstimates.systemLabel,
+      data: savedEstimates.data,
+      grandTotal: savedEstimates.grandTotal,
+      status: savedEstimates.status,
+      createdBy: savedEstimates.createdBy,
+    })
+    .from(savedEstimates)
+    .where(and(...conditions))
     .orderBy(desc(savedEstimates.updatedAt));
 }
 
-/** Get a single saved estimate by ID (includes full data JSON). */
-export async function getEstimate(id: number) {
+/** Get a single saved estimate by ID within an organization (includes full data JSON). */
+export async function getEstimate(organizationId: number, id: number) {
   const db = await getDb();
   if (!db) return null;
 
   const rows = await db
     .select()
     .from(savedEstimates)
-    .where(eq(savedEstimates.id, id))
+    .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, id)))
     .limit(1);
 
   return rows[0] ?? null;
 }
 
-/** Create a new saved estimate. Returns the inserted ID. */
+/** Create a new saved estimate and record it as revision 1. Returns the inserted ID. */
 export async function createEstimate(input: InsertSavedEstimate) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const result = await db.insert(savedEstimates).values(input);
-  return { id: Number(result[0].insertId) };
+  return db.transaction(async (tx) => {
+    const result = await tx.insert(savedEstimates).values(input);
+    const id = Number(result[0].insertId);
+    await tx.insert(estimateRevisions).values({
+      estimateId: id,
+      revision: 1,
+      name: input.name,
+      data: input.data,
+      grandTotal: input.grandTotal ?? null,
+      roofArea: input.roofArea ?? null,
+      breakdownState: input.breakdownState ?? null,
+      createdBy: input.createdBy ?? null,
+    });
+    return { id };
+  });
 }
 
-/** Update an existing saved estimate (name, notes, data, grandTotal, roofArea, breakdownState). */
+/**
+ * Update an existing saved estimate (name, notes, data, grandTotal, roofArea, breakdownState, status).
+ * Re-saves that change the estimate data or breakdown are recorded as a new revision.
+ */
 export async function updateEstimate(
+  organizationId: number,
   id: number,
-  updates: Partial<Pick<InsertSavedEstimate, "name" | "notes" | "data" | "grandTotal" | "roofArea" | "breakdownState">>,
+  updates: Partial<Pick<InsertSavedEstimate, "name" | "notes" | "data" | "grandTotal" | "roofArea" | "breakdownState" | "status">>,
+  changedBy?: string,
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.update(savedEstimates).set(updates).where(eq(savedEstimates.id, id));
+  const isResave = updates.data !== undefined || updates.breakdownState !== undefined;
+  if (!isResave) {
+    await db
+      .update(savedEstimates)
+      .set(updates)
+      .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, id)));
+    return { success: true };
+  }
+
+  await inRevisionTransaction(async (tx) => {
+    const previous = await lockEstimate(tx, organizationId, id);
+    if (!previous) return;
+    // Estimates saved before revision history existed get their prior state as a baseline
+    if ((await getLatestRevisionNumber(tx, id)) === 0) {
+      await recordRevision(tx, previous, previous.createdBy);
+    }
+    await tx
+      .update(savedEstimates)
+      .set(updates)
+      .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, id)));
+    const estimate = await lockEstimate(tx, organizationId, id);
+    if (estimate) await recordRevision(tx, estimate, changedBy ?? null);
+  });
   return { success: true };
 }
 
-/** Delete a saved estimate by ID. */
-export async function deleteEstimate(id: number) {
+/** Delete a saved estimate by ID, along with its revision history. */
+export async function deleteEstimate(organizationId: number, id: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.delete(savedEstimates).where(eq(savedEstimates.id, id));
+  await db.transaction(async (tx) => {
+    const result = await tx
+      .delete(savedEstimates)
+      .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, id)));
+    if (result[0].affectedRows === 0) return;
+    await tx.delete(estimateRevisions).where(eq(estimateRevisions.estimateId, id));
+  });
   return { success: true };
 }
+
+// ─── Revisions ──────────────────────────────────────────────────────
+
+/**
+ * Read an organization's estimate within a transaction, locking its row so
+ * saves and restores of the same estimate take turns.
+ */
+async function lockEstimate(tx: Transaction, organizationId: number, id: number) {
+  const [estimate] = await tx
+    .select()
+    .from(savedEstimates)
+    .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, id)))
+    .limit(1)
+    .for("update");
+  return estimate ?? null;
+}
+
+/** Highest revision number recorded for an estimate (0 when it has none). */
+async function getLatestRevisionNumber(tx: Transaction, estimateId: number) {
+  const [latest] = await tx
+    .select({ revision: max(estimateRevisions.revision) })
+    .from(estimateRevisions)
+    .where(eq(estimateRevisions.estimateId, estimateId));
+  return latest?.revision ?? 0;
+}
+
+/** Attempts at numbering a revision before a save gives up */
+const REVISION_NUMBER_ATTEMPTS = 3;
+
+/** MySQL duplicate-key error, possibly wrapped by drizzle */
+function isDuplicateKeyError(error: unknown): boolean {
+  for (let e = error; e instanceof Error; e = e.cause) {
+    if ((e as { code?: string }).code === "ER_DUP_ENTRY") return true;
+  }
+  return false;
+}
+
+/**
+ * Run a save that records revisions in one transaction. When a concurrent
+ * save claims the same revision number first, the unique (estimateId,
+ * revision) index rejects this one and the whole transaction is retried.
+ */
+async function inRevisionTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.transaction(work);
+    } catch (error) {
+      if (attempt >= REVISION_NUMBER_ATTEMPTS || !isDuplicateKeyError(error)) throw error;
+    }
+  }
+}
+
+/** Snapshot the estimate's current state as its next revision. */
+async function recordRevision(tx: Transaction, estimate: SavedEstimate, createdBy: string | null, restoredFrom?: number) {
+  await tx.insert(estimateRevisions).values({
+    estimateId: estimate.id,
+    revision: (await getLatestRevisionNumber(tx, estimate.id)) + 1,
+    name: estimate.name,
+    data: estimate.data,
+    grandTotal: estimate.grandTotal,
+    roofArea: estimate.roofArea,
+    breakdownState: estimate.breakdownState,
+    restoredFrom: restoredFrom ?? null,
+    createdBy,
+  });
+}
+
+/** List an estimate's revisions, newest first (summary only, no data blobs). */
+export async function listRevisions(estimateId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      id: estimateRevisions.id,
+      estimateId: estimateRevisions.estimateId,
+      revision: estimateRevisions.revision,
+      name: estimateRevisions.name,
+      grandTotal: estimateRevisions.grandTotal,
+      roofArea: estimateRevisions.roofArea,
+      restoredFrom: estimateRevisions.restoredFrom,
+      createdBy: estimateRevisions.createdBy,
+      createdAt: estimateRevisions.createdAt,
+    })
+    .from(estimateRevisions)
+    .where(eq(estimateRevisions.estimateId, estimateId))
+    .orderBy(desc(estimateRevisions.revision));
+}
+
+/** Get a single revision by ID (includes full data JSON). */
+export async function getRevision(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(estimateRevisions)
+    .where(eq(estimateRevisions.id, id))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/**
+ * Restore a revision: copy its data, breakdown and totals back onto the
+ * saved estimate and record the result as a new revision, so a restore
+ * can itself be undone.
+ */
+export async function restoreRevision(
+  organizationId: number,
+  estimateId: number,
+  revisionId: number,
+  changedBy: string,
+) {
+  const revision = await getRevision(revisionId);
+  if (!revision || revision.estimateId !== estimateId) {
+    throw new Error("Revision not found");
+  }
+
+  await inRevisionTransaction(async (tx) => {
+    if (!(await lockEstimate(tx, organizationId, estimateId))) {
+      throw new Error("Estimate not found");
+    }
+    await tx
+      .update(savedEstimates)
+      .set({
+        data: revision.data,
+        grandTotal: revision.grandTotal,
+        roofArea: revision.roofArea,
+        breakdownState: revision.breakdownState,
+      })
+      .where(and(eq(savedEstimates.organizationId, organizationId), eq(savedEstimates.id, estimateId)));
+    const estimate = await lockEstimate(tx, organizationId, estimateId);
+    if (!estimate) throw new Error("Estimate not found");
+    await recordRevision(tx, estimate, changedBy, revision.revision);
+  });
+  return { success: true, revision: revision.revision };
+}
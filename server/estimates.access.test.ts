@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from "vitest";
+
+const estimates = [
+  { id: 1, organizationId: 7, name: "Warehouse", system: "carlisle-tpo", data: "{}", createdBy: "owner-1" },
+  { id: 2, organizationId: 7, name: "Office", system: "gaf-tpo", data: "{}", createdBy: "owner-2" },
+  { id: 3, organizationId: 8, name: "Clinic", system: "gaf-tpo", data: "{}", createdBy: "owner-1" },
+];
+
+// Mock the estimates-db module
+vi.mock("./estimates-db", () => ({
+  listEstimates: vi.fn().mockResolvedValue([]),
+  getEstimate: vi.fn().mockImplementation(
+    async (organizationId: number, id: number) =>
+      estimates.find((e) => e.organizationId === organizationId && e.id === id) ?? null,
+  ),
+  createEstimate: vi.fn().mockResolvedValue({ id: 3 }),
+  updateEstimate: vi.fn().mockResolvedValue({ success: true }),
+  deleteEstimate: vi.fn().mockResolvedValue({ success: true }),
+  listRevisions: vi.fn().mockResolvedValue([]),
+  getRevision: vi.fn().mockResolvedValue(null),
+  restoreRevision: vi.fn().mockResolvedValue({ success: true, revision: 1 }),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { createEstimate, deleteEstimate, listEstimates, updateEstimate } from "./estimates-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(openId?: string, role: AuthenticatedUser["role"] = "user"): TrpcContext {
+  const user: AuthenticatedUser | null = openId
+    ? {
+        id: 1,
+        openId,
+        email: "estimator@example.com",
+        name: "Estimator",
+        loginMethod: "manus",
+        role,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        lastSignedIn: new Date(),
+      }
+    : null;
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("estimates router access", () => {
+  it("requires a signed-in user", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.estimates.list()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(caller.estimates.delete({ id: 1 })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("lists only the user's own estimates", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+    await caller.estimates.list({ system: "carlisle-tpo" });
+
+    expect(listEstimates).toHaveBeenLastCalledWith(7, { system: "carlisle-tpo", createdBy: "owner-1" });
+  });
+
+  it("lists every estimate for admins", async () => {
+    const caller = appRouter.createCaller(createContext("admin-1", "admin"));
+    await caller.estimates.list();
+
+    expect(listEstimates).toHaveBeenLastCalledWith(7, { createdBy: undefined });
+  });
+
+  it("saves estimates under the signed-in user", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+    await caller.estimates.save({ name: "Plant", system: "carlisle-tpo", systemLabel: "Carlisle TPO", data: "{}" });
+
+    expect(createEstimate).toHaveBeenCalledWith(expect.objectContaining({ organizationId: 7, createdBy: "owner-1" }));
+  });
+
+  it("lets owners load and change their estimates", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+
+    await expect(caller.estimates.get({ id: 1 })).resolves.toMatchObject({ name: "Warehouse" });
+    await caller.estimates.rename({ id: 1, name: "Warehouse B" });
+    expect(updateEstimate).toHaveBeenCalledWith(7, 1, { name: "Warehouse B" });
+  });
+
+  it("forbids loading another user's estimate", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+
+    await expect(caller.estimates.get({ id: 2 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("forbids updating, renaming or deleting another user's estimate", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+    vi.mocked(updateEstimate).mockClear();
+    vi.mocked(deleteEstimate).mockClear();
+
+    await expect(caller.estimates.update({ id: 2, data: "{}" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.estimates.rename({ id: 2, name: "Mine now" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.estimates.delete({ id: 2 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(updateEstimate).not.toHaveBeenCalled();
+    expect(deleteEstimate).not.toHaveBeenCalled();
+  });
+
+  it("lets admins manage any estimate", async () => {
+    const caller = appRouter.createCaller(createContext("admin-1", "admin"));
+
+    await expect(caller.estimates.delete({ id: 2 })).resolves.toEqual({ success: true });
+  });
+
+  it("reports missing estimates as not found", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+
+    await expect(caller.estimates.get({ id: 99 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Estimate not found",
+    });
+  });
+
+  it("hides estimates saved in another organization", async () => {
+    const caller = appRouter.createCaller(createContext("owner-1"));
+
+    await expect(caller.estimates.get({ id: 3 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Estimate not found",
+    });
+    await expect(caller.estimates.delete({ id: 3 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Estimate not found",
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it, vi } from "vitest";
+import { serializeKarnakState } from "@shared/estimating/estimate-state-serializers";
+
+const laborEquipment = { laborItems: [], equipmentItems: [] };
+const revisionData = (squareFootage: string) =>
+  serializeKarnakState({
+    squareFootage,
+    verticalSeamsLF: "0",
+    horizontalSeamsLF: "0",
+    customPrices: {},
+    laborEquipment,
+  });
+
+const revisions = [
+  { id: 11, estimateId: 1, revision: 1, data: revisionData("5000"), grandTotal: "1000.00", createdBy: "alice", createdAt: new Date() },
+  { id: 12, estimateId: 1, revision: 2, data: revisionData("6000"), grandTotal: "1250.00", createdBy: "bob", createdAt: new Date() },
+  { id: 21, estimateId: 2, revision: 1, data: revisionData("100"), grandTotal: null, createdBy: null, createdAt: new Date() },
+];
+
+// Mock the estimates-db module
+vi.mock("./estimates-db", () => ({
+  listEstimates: vi.fn().mockResolvedValue([]),
+  getEstimate: vi.fn().mockImplementation(async (_organizationId: number, id: number) =>
+    id === 1 ? { id: 1, name: "Warehouse", createdBy: "user-42" } : id === 2 ? { id: 2, name: "Office", createdBy: "bob" } : null,
+  ),
+  createEstimate: vi.fn().mockResolvedValue({ id: 1 }),
+  updateEstimate: vi.fn().mockResolvedValue({ success: true }),
+  deleteEstimate: vi.fn().mockResolvedValue({ success: true }),
+  listRevisions: vi.fn().mockImplementation(async (estimateId: number) =>
+    revisions.filter((r) => r.estimateId === estimateId).reverse(),
+  ),
+  getRevision: vi.fn().mockImplementation(async (id: number) => revisions.find((r) => r.id === id) ?? null),
+  restoreRevision: vi.fn().mockResolvedValue({ success: true, revision: 1 }),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { restoreRevision, updateEstimate } from "./estimates-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(openId = "user-42"): TrpcContext {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId,
+    email: "estimator@example.com",
+    name: "Estimator",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("estimates revision history", () => {
+  it("lists an estimate's revisions newest first", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.estimates.revisions({ estimateId: 1 });
+
+    expect(result.map((r) => r.revision)).toEqual([2, 1]);
+  });
+
+  it("records who re-saved an estimate", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.estimates.update({ id: 1, data: revisionData("7000") });
+
+    expect(updateEstimate).toHaveBeenCalledWith(7, 1, { data: revisionData("7000") }, "user-42");
+  });
+
+  it("restores a revision as the current user", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.estimates.restoreRevision({ estimateId: 1, revisionId: 11 });
+
+    expect(result).toEqual({ success: true, revision: 1 });
+    expect(restoreRevision).toHaveBeenCalledWith(7, 1, 11, "user-42");
+  });
+
+  it("rejects restoring another estimate's revision", async () => {
+    vi.mocked(restoreRevision).mockClear();
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.estimates.restoreRevision({ estimateId: 1, revisionId: 21 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Revision not found",
+    });
+    expect(restoreRevision).not.toHaveBeenCalled();
+  });
+
+  it("diffs two revisions of the same estimate", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const diff = await caller.estimates.diffRevisions({ fromId: 11, toId: 12 });
+
+    expect(diff.from.revision).toBe(1);
+    expect(diff.to.createdBy).toBe("bob");
+    expect(diff.measurements).toEqual([
+      expect.objectContaining({ field: "squareFootage", before: "5000", after: "6000" }),
+    ]);
+    expect(diff.totals).toEqual({ before: 1000, after: 1250, delta: 250 });
+  });
+
+  it("rejects diffs across estimates or of missing revisions", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await expect(caller.estimates.diffRevisions({ fromId: 11, toId: 21 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Revision not found",
+    });
+    await expect(caller.estimates.diffRevisions({ fromId: 11, toId: 99 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Revision not found",
+    });
+  });
+
+  it("forbids history access to another user's estimate", async () => {
+    const caller = appRouter.createCaller(createContext("mallory"));
+
+    await expect(caller.estimates.revisions({ estimateId: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.estimates.restoreRevision({ estimateId: 1, revisionId: 11 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(caller.estimates.diffRevisions({ fromId: 11, toId: 12 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -5,7 +5,7 @@ import {
   serializeTPOState,
   deserializeTPOState,
   detectSystem,
-} from "../client/src/lib/estimate-state-serializers";
+} from "@shared/estimating/estimate-state-serializers";
 
 describe("Estimate State Serializers", () => {
   describe("Karnak serializer", () => {
@@ -0,0 +1,156 @@
+/**
+ * Organizations — Database helpers
+ *
+ * Organizations and their members. Every price book, price history entry,
+ * quote request and saved estimate belongs to one organization; the active
+ * organization for a request is resolved here from the user's memberships.
+ */
+import { and, eq } from "drizzle-orm";
+import type { Request } from "express";
+import { ORGANIZATION_HEADER } from "@shared/const";
+import { getDb } from "./db";
+import { organizationMembers, organizations, users, type User } from "../drizzle/schema";
+
+export type OrganizationRole = "owner" | "member";
+
+/** Organizations the user belongs to, oldest membership first, with their role. */
+export async function listUserOrganizations(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      id: organizations.id,
+      name: organizations.name,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizations.id, organizationMembers.organizationId))
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(organizationMembers.createdAt, organizations.id);
+}
+
+/** Create an organization with the user as its owner. Returns the inserted ID. */
+export async function createOrganization(name: string, owner: User) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    const result = await tx.insert(organizations).values({ name, createdBy: owner.openId });
+    const id = Number(result[0].insertId);
+    await tx.insert(organizationMembers).values({ organizationId: id, userId: owner.id, role: "owner" });
+    return { id };
+  });
+}
+
+/**
+ * The user's personal organization, created on first use with the user as
+ * owner. A first sign-in sends several requests at once; the unique
+ * personalOwnerId key lets only one of them insert the organization and the
+ * rest join the same one.
+ */
+export async function ensurePersonalOrganization(user: User) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const name = user.name ? `${user.name}'s Organization` : "My Organization";
+  return db.transaction(async (tx) => {
+    await tx
+      .insert(organizations)
+      .values({ name, createdBy: user.openId, personalOwnerId: user.id })
+      .onDuplicateKeyUpdate({ set: { personalOwnerId: user.id } });
+    const [organization] = await tx
+      .select({ id: organizations.id, name: organizations.name })
+      .from(organizations)
+      .where(eq(organizations.personalOwnerId, user.id))
+      .limit(1);
+    await tx
+      .insert(organizationMembers)
+      .values({ organizationId: organization.id, userId: user.id, role: "owner" })
+      .onDuplicateKeyUpdate({ set: { role: "owner" } });
+    return { ...organization, role: "owner" as const };
+  });
+}
+
+/** Rename an organization. */
+export async function renameOrganization(id: number, name: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(organizations).set({ name }).where(eq(organizations.id, id));
+  return { success: true };
+}
+
+/** Organization ID the org switcher sent with the request, if any */
+export function getRequestedOrganizationId(req: Request): number | undefined {
+  const header = req.headers[ORGANIZATION_HEADER];
+  return typeof header === "string" && header ? Number(header) : undefined;
+}
+
+/**
+ * The organization a request works in: the requested one when the user is a
+ * member, otherwise (nothing requested) their first organization. Users
+ * without any membership get a personal organization on first use. Returns
+ * null when the user is not a member of the requested organization.
+ */
+export async function resolveActiveOrganization(user: User, requestedId?: number) {
+  const memberships = await listUserOrganizations(user.id);
+
+  if (requestedId !== undefined) {
+    return memberships.find((m) => m.id === requestedId) ?? null;
+  }
+  if (memberships.length > 0) {
+    return memberships[0];
+  }
+  return ensurePersonalOrganization(user);
+}
+
+// ─── Members ────────────────────────────────────────────────────────
+
+/** Members of an organization with their user details. */
+export async function listMembers(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select({
+      userId: users.id,
+      name: users.name,
+      email: users.email,
+      role: organizationMembers.role,
+      createdAt: organizationMembers.createdAt,
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(users.id, organizationMembers.userId))
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(organizationMembers.createdAt);
+}
+
+/**
+ * Add a user (by sign-in email) to an organization, or change their role if
+ * they're already a member. The user must have signed in at least once.
+ */
+export async function addMember(organizationId: number, email: string, role: OrganizationRole) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  if (!user) throw new Error("No user has signed in with that email");
+
+  await db
+    .insert(organizationMembers)
+    .values({ organizationId, userId: user.id, role })
+    .onDuplicateKeyUpdate({ set: { role } });
+  return { success: true, userId: user.id };
+}
+
+/** Remove a user from an organization. */
+export async function removeMember(organizationId: number, userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  return { success: true };
+}
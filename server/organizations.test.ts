@@ -0,0 +1,123 @@
+import { describe, expect, it, vi } from "vitest";
+
+const members = [
+  { userId: 1, name: "Owner", email: "owner@example.com", role: "owner" as const, createdAt: new Date() },
+  { userId: 2, name: "Estimator", email: "estimator@example.com", role: "member" as const, createdAt: new Date() },
+];
+
+// Mock the organizations-db module (header parsing stays real)
+vi.mock("./organizations-db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./organizations-db")>()),
+  listUserOrganizations: vi.fn().mockResolvedValue([
+    { id: 7, name: "North Branch", role: "owner" },
+    { id: 8, name: "South Branch", role: "member" },
+  ]),
+  resolveActiveOrganization: vi.fn().mockImplementation(async (_user: unknown, requestedId?: number) => {
+    if (requestedId === undefined || requestedId === 7) return { id: 7, name: "North Branch", role: "owner" };
+    if (requestedId === 8) return { id: 8, name: "South Branch", role: "member" };
+    return null;
+  }),
+  createOrganization: vi.fn().mockResolvedValue({ id: 9 }),
+  renameOrganization: vi.fn().mockResolvedValue({ success: true }),
+  listMembers: vi.fn().mockImplementation(async () => members),
+  addMember: vi.fn().mockResolvedValue({ success: true, userId: 3 }),
+  removeMember: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock the pricing-db module
+vi.mock("./pricing-db", () => ({
+  copyPricing: vi.fn().mockResolvedValue(120),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { addMember, createOrganization, removeMember } from "./organizations-db";
+import { copyPricing } from "./pricing-db";
+import type { TrpcContext } from "./_core/context";
+
+function createContext(organizationId?: number): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "owner@example.com",
+      name: "Owner",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: organizationId === undefined ? {} : { "x-organization-id": String(organizationId) },
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("organizations router", () => {
+  it("lists the user's organizations with the one the switcher selected", async () => {
+    const caller = appRouter.createCaller(createContext(8));
+    const result = await caller.organizations.list();
+
+    expect(result.organizations.map((o) => o.name)).toEqual(["North Branch", "South Branch"]);
+    expect(result.activeId).toBe(8);
+  });
+
+  it("falls back to the default organization after leaving the selected one", async () => {
+    const caller = appRouter.createCaller(createContext(99));
+    const result = await caller.organizations.list();
+
+    expect(result.activeId).toBe(7);
+  });
+
+  it("forbids working in an organization the user doesn't belong to", async () => {
+    const caller = appRouter.createCaller(createContext(99));
+
+    await expect(caller.organizations.members()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.estimates.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("creates an organization starting from a copy of the active price book", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+    const result = await caller.organizations.create({ name: "West Branch" });
+
+    expect(createOrganization).toHaveBeenCalledWith("West Branch", expect.objectContaining({ openId: "user-1" }));
+    expect(copyPricing).toHaveBeenCalledWith(7, 9);
+    expect(result).toEqual({ id: 9, pricesCopied: 120 });
+  });
+
+  it("lets owners add members", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+    await caller.organizations.addMember({ email: "new@example.com" });
+
+    expect(addMember).toHaveBeenCalledWith(7, "new@example.com", "member");
+  });
+
+  it("forbids members from managing membership", async () => {
+    const caller = appRouter.createCaller(createContext(8));
+
+    await expect(caller.organizations.addMember({ email: "new@example.com" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(caller.organizations.removeMember({ userId: 2 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.organizations.rename({ name: "Mine" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("keeps at least one owner", async () => {
+    const caller = appRouter.createCaller(createContext(7));
+
+    await expect(caller.organizations.removeMember({ userId: 1 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await caller.organizations.removeMember({ userId: 2 });
+    expect(removeMember).toHaveBeenCalledWith(7, 2);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, it, vi } from "vitest";
+
+const product = (productId: string, system: string, manufacturer: string, category: string, unitPrice: string) => ({
+  id: 1,
+  organizationId: 7,
+  productId,
+  system,
+  manufacturer,
+  category,
+  name: productId,
+  unit: "each",
+  unitPrice,
+  defaultPrice: unitPrice,
+  priceSource: "Default",
+});
+
+// Mock the pricing-db module
+vi.mock("./pricing-db", () => ({
+  getAllPricing: vi.fn().mockImplementation(async () => [
+    product("carlisle-tpo-membrane-60", "carlisle-tpo", "Carlisle", "Membrane", "400.00"),
+    product("carlisle-tpo-membrane-80", "carlisle-tpo", "Carlisle", "Membrane", "520.00"),
+    product("carlisle-tpo-cover-board", "carlisle-tpo", "Carlisle", "Insulation", "18.00"),
+    product("gaf-tpo-membrane-60", "gaf-tpo", "GAF", "Membrane", "390.00"),
+  ]),
+  bulkAdjustPrices: vi
+    .fn()
+    .mockImplementation(async (_org: number, updates: unknown[]) => ({ batchId: 12, updated: updates.length, failed: [] })),
+  getPriceBatches: vi.fn().mockResolvedValue([]),
+  getPriceBatch: vi.fn().mockImplementation(async (organizationId: number, id: number) => {
+    if (organizationId !== 7) return null;
+    if (id === 12) return { id: 12, organizationId: 7, source: "Bulk adjust", undoneAt: null };
+    if (id === 13) return { id: 13, organizationId: 7, source: "Bulk adjust", undoneAt: new Date() };
+    return null;
+  }),
+  undoPriceBatch: vi
+    .fn()
+    .mockResolvedValue({ restored: 2, skipped: [], productIds: ["carlisle-tpo-membrane-60", "carlisle-tpo-cover-board"] }),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { bulkAdjustPrices, undoPriceBatch } from "./pricing-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: AuthenticatedUser["role"] = "user"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "estimator@example.com",
+      name: "Estimator",
+      loginMethod: "manus",
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("bulk price adjustments", () => {
+  it("previews the filtered products without saving", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const result = await caller.pricing.bulkAdjust({
+      manufacturer: "Carlisle",
+      category: "Membrane",
+      mode: "percent",
+      value: 4,
+      roundTo: 0.25,
+      dryRun: true,
+    });
+
+    expect(result.rows.map((r) => [r.productId, r.newPrice])).toEqual([
+      ["carlisle-tpo-membrane-60", 416],
+      ["carlisle-tpo-membrane-80", 540.75],
+    ]);
+    expect(result.batchId).toBeNull();
+    expect(bulkAdjustPrices).not.toHaveBeenCalled();
+  });
+
+  it("applies the products not excluded as one batch", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const result = await caller.pricing.bulkAdjust({
+      system: "carlisle-tpo",
+      mode: "amount",
+      value: -2,
+      excludeProductIds: ["carlisle-tpo-membrane-80"],
+    });
+
+    expect(result).toMatchObject({ batchId: 12, updated: 2 });
+    expect(bulkAdjustPrices).toHaveBeenLastCalledWith(
+      7,
+      [
+        { productId: "carlisle-tpo-membrane-60", currentPrice: "400.00", newPrice: "398.00" },
+        { productId: "carlisle-tpo-cover-board", currentPrice: "18.00", newPrice: "16.00" },
+      ],
+      "Bulk adjust: Carlisle TPO -$2.00",
+      "user-1",
+    );
+  });
+
+  it("never applies cuts that would take a price to zero or below", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const preview = await caller.pricing.bulkAdjust({ system: "carlisle-tpo", mode: "amount", value: -20, dryRun: true });
+
+    expect(preview.rows.find((r) => r.productId === "carlisle-tpo-cover-board")).toMatchObject({
+      newPrice: 0,
+      skipReason: "Would take the price to $0.00 or below",
+    });
+
+    await caller.pricing.bulkAdjust({ system: "carlisle-tpo", mode: "amount", value: -20 });
+    const [, updates] = vi.mocked(bulkAdjustPrices).mock.lastCall!;
+    expect(updates.map((u) => u.productId)).toEqual(["carlisle-tpo-membrane-60", "carlisle-tpo-membrane-80"]);
+  });
+
+  it("rejects decreases of 100% or more", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.pricing.bulkAdjust({ mode: "percent", value: -100, dryRun: true })).rejects.toMatchObject({
+      code: "BAD_REQUEST",
+    });
+  });
+
+  it("undoes a batch once", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.pricing.undoBatch({ batchId: 12 })).resolves.toEqual({
+      restored: 2,
+      skipped: [],
+      productIds: ["carlisle-tpo-membrane-60", "carlisle-tpo-cover-board"],
+    });
+    expect(undoPriceBatch).toHaveBeenLastCalledWith(7, 12, "user-1");
+    await expect(caller.pricing.undoBatch({ batchId: 13 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(caller.pricing.undoBatch({ batchId: 14 })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Price batch not found",
+    });
+  });
+
+  it("restricts adjustments and undo to admins", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.pricing.bulkAdjust({ mode: "percent", value: 4, dryRun: true })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(caller.pricing.undoBatch({ batchId: 12 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { serializeTPOState } from "@shared/estimating/estimate-state-serializers";
+import { calculateProjectEstimate, getDefaultAssembly } from "@shared/estimating/project-estimate";
+import { parseSavedState, savedStateToRequest } from "@shared/estimating/estimate-diff";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "@shared/estimating/tpo-labor-equipment-data";
+
+function tpoState(roofArea: number, distributorId: number | null = null) {
+  return serializeTPOState("carlisle-tpo", {
+    measurements: { totalRoofArea: "", baseFlashing: "" },
+    customPrices: {},
+    distributorId,
+    laborEquipment: {
+      laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+      equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+    },
+    sections: [
+      {
+        name: "Main Roof",
+        assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+        measurements: { roofArea, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+      },
+    ],
+  });
+}
+
+const small = tpoState(5000);
+const large = tpoState(20000);
+// The first material line of the estimates, at catalog prices
+const [membrane] = calculateProjectEstimate(savedStateToRequest(parseSavedState(small)), {}).materials.filter(
+  (m) => m.quantity > 0,
+);
+const quantityFor = (data: string) =>
+  calculateProjectEstimate(savedStateToRequest(parseSavedState(data)), {})
+    .materials.filter((m) => m.productId === membrane.productId)
+    .reduce((sum, m) => sum + m.quantity, 0);
+
+const estimate = (id: number, name: string, data: string, createdBy = "user-1") => ({
+  id,
+  name,
+  system: "carlisle-tpo",
+  systemLabel: "Carlisle TPO",
+  data,
+  grandTotal: "40000.00",
+  status: "sent",
+  createdBy,
+});
+
+// Mock the estimates-db module — three open estimates, one priced from a distributor's list
+vi.mock("./estimates-db", () => ({
+  listOpenEstimates: vi.fn().mockImplementation(async (_org: number, createdBy?: string) =>
+    [
+      estimate(1, "Warehouse Reroof", small),
+      estimate(2, "Distribution Center", large, "user-2"),
+      estimate(3, "Clinic", tpoState(5000, 4)),
+      estimate(4, "Broken", "not json"),
+    ].filter((e) => !createdBy || e.createdBy === createdBy),
+  ),
+}));
+
+// Mock the pricing-db module — the membrane went up $20 in the price book, not on distributor 4's list
+vi.mock("./pricing-db", () => ({
+  getSystemPriceMap: vi
+    .fn()
+    .mockImplementation(async (_org: number, _system: string, _prefix: string, distributorId?: number) => ({
+      [membrane.productId]: distributorId === 4 ? membrane.unitPrice : membrane.unitPrice + 20,
+    })),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { listOpenEstimates } from "./estimates-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: AuthenticatedUser["role"] = "user"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "estimator@example.com",
+      name: "Estimator",
+      loginMethod: "manus",
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("price change impact report", () => {
+  const productIds = [`carlisle-tpo-${membrane.productId}`];
+
+  it("recomputes open estimates with the changed prices, largest change first", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const report = await caller.pricing.impactReport({ productIds });
+
+    expect(listOpenEstimates).toHaveBeenLastCalledWith(7, undefined);
+    expect(report.map((r) => r.name)).toEqual(["Distribution Center", "Warehouse Reroof"]);
+    const [largest] = report;
+    expect(largest.oldTotal).toBe(40000);
+    expect(largest.delta).toBeCloseTo(quantityFor(large) * 20);
+    expect(largest.newTotal).toBeCloseTo(40000 + largest.delta);
+    expect(largest.drivers).toMatchObject([{ productId: membrane.productId, currentPrice: membrane.unitPrice + 20 }]);
+  });
+
+  it("ignores prices the update didn't change", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.pricing.impactReport({ productIds: ["carlisle-tpo-other"] })).resolves.toEqual([]);
+  });
+
+  it("limits members to their own estimates", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const report = await caller.pricing.impactReport({ productIds });
+
+    expect(listOpenEstimates).toHaveBeenLastCalledWith(7, "user-1");
+    expect(report.map((r) => r.name)).toEqual(["Warehouse Reroof"]);
+  });
+});
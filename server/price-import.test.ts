@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import {
+  buildImportPreview,
+  descriptionSimilarity,
+  parsePriceCell,
+  parsePriceFile,
+  suggestColumnMapping,
+  type ImportCatalogProduct,
+} from "./price-import";
+
+const toBase64 = (text: string) => Buffer.from(text, "utf8").toString("base64");
+
+const catalog: ImportCatalogProduct[] = [
+  { productId: "carlisle-tpo-membrane-60", name: "Sure-Weld 60 mil TPO Membrane 10' x 100'", unitPrice: 400 },
+  { productId: "carlisle-tpo-cover-board", name: "DensDeck Prime 1/2\" Cover Board", unitPrice: 18 },
+  { productId: "carlisle-tpo-bonding-adhesive", name: "Sure-Weld Bonding Adhesive 5 gal", unitPrice: 210 },
+  { productId: "karnak-primer", name: "Karnak 404 Primer 5 gal", unitPrice: 125 },
+];
+
+describe("parsePriceFile", () => {
+  it("reads quoted CSV fields with embedded commas and CRLF line endings", () => {
+    const csv = [
+      '"Product ID","Product Name","Unit","Current Price","New Price (fill in)"',
+      '"carlisle-tpo-membrane-60","Sure-Weld TPO, 60 mil, White","roll","400.00","395.50"',
+      '"karnak-primer","Karnak 404 Primer","pail","125.00",""',
+    ].join("\r\n");
+    const file = parsePriceFile("quote.csv", toBase64(csv));
+
+    expect(file.headers).toEqual(["Product ID", "Product Name", "Unit", "Current Price", "New Price (fill in)"]);
+    expect(file.rows[0]).toEqual(["carlisle-tpo-membrane-60", "Sure-Weld TPO, 60 mil, White", "roll", "400.00", "395.50"]);
+    expect(file.rows).toHaveLength(2);
+  });
+
+  it("reads the first sheet of an XLSX file below a title block", () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["ABC Supply — Denver North"],
+      ["Quote valid through 3/31"],
+      ["SKU", "Description", "Net Price"],
+      ["CAR-TPO60", "Sure-Weld 60 mil TPO Membrane 10' x 100'", 389.99],
+    ]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Quote");
+    const content = XLSX.write(workbook, { type: "base64", bookType: "xlsx" });
+
+    const file = parsePriceFile("abc-quote.xlsx", content);
+    expect(file.headers).toEqual(["SKU", "Description", "Net Price"]);
+    expect(file.rows).toEqual([["CAR-TPO60", "Sure-Weld 60 mil TPO Membrane 10' x 100'", "389.99"]]);
+    expect(file.firstRowNumber).toBe(4);
+  });
+
+  it("rejects empty files", () => {
+    expect(() => parsePriceFile("empty.csv", toBase64("Product ID,New Price\n"))).toThrow("appears to be empty");
+  });
+});
+
+describe("suggestColumnMapping", () => {
+  it("prefers the new price over the current price", () => {
+    expect(
+      suggestColumnMapping(["Product ID", "System", "Product Name", "Unit", "Current Price", "New Price (fill in)"]),
+    ).toEqual({ productId: 0, sku: undefined, description: 2, price: 5 });
+  });
+
+  it("recognizes distributor headers", () => {
+    expect(suggestColumnMapping(["Item #", "Item Description", "UOM", "List Price", "Your Price"])).toEqual({
+      productId: undefined,
+      sku: 0,
+      description: 1,
+      price: 4,
+    });
+  });
+});
+
+describe("price cells and similarity", () => {
+  it("parses formatted prices", () => {
+    expect(parsePriceCell("$1,234.50")).toBe(1234.5);
+    expect(parsePriceCell("41.5")).toBe(41.5);
+    expect(parsePriceCell("call")).toBeNull();
+  });
+
+  it("scores shared description tokens", () => {
+    expect(descriptionSimilarity("Sure-Weld 60 mil TPO", "Sure-Weld 60 mil TPO")).toBe(1);
+    expect(descriptionSimilarity("Bonding Adhesive", "Cover Board")).toBe(0);
+  });
+});
+
+describe("buildImportPreview", () => {
+  const file = {
+    headers: ["Product ID", "SKU", "Description", "Price"],
+    firstRowNumber: 2,
+    rows: [
+      ["carlisle-tpo-membrane-60", "", "", "395.00"],
+      ["", "tpo-cover-board", "", "$23.40"],
+      ["", "CAR-BA5", "SureWeld Bonding Adhesive 5 gal pail", "199.00"],
+      ["", "XYZ-1", "Galvanized drip edge 10'", "4.10"],
+      ["", "", "Karnak 404 Primer 5 gal", "n/a"],
+      ["", "", "Karnak 404 Primer 5 gal", ""],
+      ["CARLISLE-TPO-MEMBRANE-60", "", "", "380.00"],
+    ],
+  };
+  const mapping = { productId: 0, sku: 1, description: 2, price: 3 };
+
+  it("matches by product ID, SKU and fuzzy description", () => {
+    const preview = buildImportPreview(file, mapping, catalog, 10);
+
+    expect(preview.mappingComplete).toBe(true);
+    expect(preview.rows.map((r) => [r.productId, r.matchedBy])).toEqual([
+      ["carlisle-tpo-membrane-60", "productId"],
+      ["carlisle-tpo-cover-board", "sku"],
+      ["carlisle-tpo-bonding-adhesive", "description"],
+    ]);
+    expect(preview.rows[2].confidence).toBeGreaterThanOrEqual(0.5);
+    expect(preview.rows[2].confidence).toBeLessThan(1);
+  });
+
+  it("compares with current prices and flags large changes", () => {
+    const preview = buildImportPreview(file, mapping, catalog, 10);
+    const coverBoard = preview.rows[1];
+
+    expect(coverBoard.currentPrice).toBe(18);
+    expect(coverBoard.newPrice).toBe(23.4);
+    expect(coverBoard.changePercent).toBeCloseTo(30);
+    expect(coverBoard.flagged).toBe(true);
+    expect(preview.rows[0].flagged).toBe(false);
+
+    expect(buildImportPreview(file, mapping, catalog, 50).rows[1].flagged).toBe(false);
+  });
+
+  it("reports unmatched, unpriced and duplicate rows, skipping blank prices", () => {
+    const preview = buildImportPreview(file, mapping, catalog, 10);
+
+    expect(preview.unmatched.map((u) => [u.rowNumber, u.reason])).toEqual([
+      [5, "no-match"],
+      [6, "invalid-price"],
+      [8, "duplicate"],
+    ]);
+  });
+
+  it("waits for a price column and a column to match on", () => {
+    const preview = buildImportPreview(file, { description: 2 }, catalog, 10);
+
+    expect(preview.mappingComplete).toBe(false);
+    expect(preview.rows).toEqual([]);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Price Import — Parse distributor price files (CSV or XLSX), map their
+ * columns and match each row to a pricing DB productId, producing a dry-run
+ * preview (old vs new price, percent change, unmatched rows) that the client
+ * reviews before committing through bulkUpdatePrices.
+ *
+ * Rows match by our Product ID column when the file has one (our own quote
+ * CSV exports do), then by the distributor's SKU against productIds, then by
+ * a fuzzy comparison of the distributor's description against product names.
+ */
+import { TRPCError } from "@trpc/server";
+import * as XLSX from "xlsx";
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Zero-based column indexes for each field */
+export interface ImportColumnMapping {
+  productId?: number;
+  sku?: number;
+  description?: number;
+  price?: number;
+}
+
+export interface ParsedPriceFile {
+  headers: string[];
+  /** Data rows below the header, as cell text */
+  rows: string[][];
+  /** 1-based spreadsheet row number of the first data row */
+  firstRowNumber: number;
+}
+
+export interface ImportCatalogProduct {
+  productId: string;
+  name: string;
+  /** Price the import would replace (distributor list or default book) */
+  unitPrice: number;
+}
+
+export type ImportMatchMethod = "productId" | "sku" | "description";
+
+export interface ImportPreviewRow {
+  rowNumber: number;
+  productId: string;
+  name: string;
+  matchedBy: ImportMatchMethod;
+  /** 1 for exact matches, the similarity score for fuzzy description matches */
+  confidence: number;
+  /** The distributor's SKU / description as written in the file */
+  sourceText: string;
+  currentPrice: number;
+  newPrice: number;
+  /** Percent change from the current price; null for products without one */
+  changePercent: number | null;
+  /** Change exceeds the flag threshold */
+  flagged: boolean;
+}
+
+export interface UnmatchedImportRow {
+  rowNumber: number;
+  sourceText: string;
+  price: string;
+  reason: "no-match" | "ambiguous" | "duplicate" | "invalid-price";
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: ImportColumnMapping;
+  /** A price column and at least one column to match on are mapped */
+  mappingComplete: boolean;
+  rows: ImportPreviewRow[];
+  unmatched: UnmatchedImportRow[];
+}
+
+/** Minimum name similarity for a fuzzy description match */
+export const MIN_DESCRIPTION_SIMILARITY = 0.5;
+
+// ─── Parsing ────────────────────────────────────────────────────────
+
+/** Rows scanned for the header when distributors put a title block above it */
+const HEADER_SCAN_ROWS = 10;
+
+/**
+ * Parse an uploaded price file. `content` is base64; `.xlsx` / `.xls` files
+ * read the first sheet, anything else is read as CSV text (quoted fields,
+ * embedded commas and CRLF line endings included).
+ */
+export function parsePriceFile(fileName: string, content: string): ParsedPriceFile {
+  let grid: unknown[][];
+  try {
+    const workbook = /\.xlsx?$/i.test(fileName)
+      ? XLSX.read(content, { type: "base64" })
+      : XLSX.read(Buffer.from(content, "base64").toString("utf8"), { type: "string", raw: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    grid = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: "" }) : [];
+  } catch {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Couldn't read the price file" });
+  }
+
+  // Blank rows are kept so row numbers match the spreadsheet
+  const cells = grid.map((row) => row.map((cell) => String(cell ?? "").trim()));
+  const isBlank = (row: string[]) => row.every((cell) => cell === "");
+
+  // The header is the first row with recognizable price and product columns
+  let headerIndex = cells
+    .slice(0, HEADER_SCAN_ROWS)
+    .findIndex((row) => isMappingComplete(suggestColumnMapping(row)));
+  if (headerIndex === -1) headerIndex = cells.findIndex((row) => !isBlank(row));
+
+  const rows = cells.slice(headerIndex + 1);
+  if (headerIndex === -1 || rows.every(isBlank)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The price file appears to be empty" });
+  }
+  return { headers: cells[headerIndex], rows, firstRowNumber: headerIndex + 2 };
+}
+
+// ─── Column Mapping ─────────────────────────────────────────────────
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9#]+/g, " ").trim();
+
+function findColumn(headers: string[], patterns: RegExp[], exclude?: RegExp): number | undefined {
+  const normalized = headers.map(normalizeHeader);
+  for (const pattern of patterns) {
+    const index = normalized.findIndex((h) => pattern.test(h) && !(exclude && exclude.test(h)));
+    if (index !== -1) return index;
+  }
+  return undefined;
+}
+
+/** A price column and at least one column to match products on */
+function isMappingComplete(mapping: ImportColumnMapping) {
+  return (
+    mapping.price !== undefined &&
+    (mapping.productId !== undefined || mapping.sku !== undefined || mapping.description !== undefined)
+  );
+}
+
+/** Guess which columns hold our Product ID, the distributor's SKU, the description and the new price. */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping {
+  return {
+    productId: findColumn(headers, [/^product id$/, /^productid$/]),
+    sku: findColumn(headers, [/\bsku\b/, /\bitem (#|no\b|number\b|code\b)/, /\bpart\b/, /\bcatalog\b/, /\bmfr\b/]),
+    description: findColumn(headers, [/\bdescription\b/, /\bproduct name\b/, /^name$/, /\bitem\b/], /#|\b(no|number|code)\b/),
+    price: findColumn(
+      headers,
+      [/\bnew price\b/, /\bquoted?\b/, /\b(unit|net|your|sell) price\b/, /\bprice\b/, /\bcost\b/],
+      /\b(current|old|previous|list)\b/,
+    ),
+  };
+}
+
+// ─── Matching ───────────────────────────────────────────────────────
+
+const normalizeText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9.]+/g, " ")
+    .replace(/(?<!\d)\.|\.(?!\d)/g, " ")
+    .trim();
+
+const compactId = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Token overlap (Dice coefficient) between two product descriptions, 0–1 */
+export function descriptionSimilarity(a: string, b: string): number {
+  const tokensA = new Set(normalizeText(a).split(" ").filter(Boolean));
+  const tokensB = new Set(normalizeText(b).split(" ").filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/** Parse a price cell such as "41.5", "$1,234.50" or "1234.50 USD"; null when not a price */
+export function parsePriceCell(cell: string): number | null {
+  const cleaned = cell.replace(/[$,\s]|usd/gi, "");
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+type MatchResult =
+  | { product: ImportCatalogProduct; matchedBy: ImportMatchMethod; confidence: number }
+  | { product: null; ambiguous: boolean };
+
+function createMatcher(catalog: ImportCatalogProduct[]) {
+  const byId = new Map<string, ImportCatalogProduct>();
+  const byLocalId = new Map<string, ImportCatalogProduct[]>();
+  for (const product of catalog) {
+    byId.set(compactId(product.productId), product);
+    // SKUs may be our productId without its system prefix (e.g. "tpo-membrane-60")
+    const parts = product.productId.split("-");
+    for (let i = 1; i < parts.length; i++) {
+      const local = compactId(parts.slice(i).join("-"));
+      if (local.length < 4 || !/[a-z]/.test(local)) continue;
+      byLocalId.set(local, [...(byLocalId.get(local) ?? []), product]);
+    }
+  }
+
+  return (productId: string, sku: string, description: string): MatchResult => {
+    if (productId) {
+      const product = byId.get(compactId(productId));
+      if (product) return { product, matchedBy: "productId", confidence: 1 };
+    }
+    if (sku) {
+      const exact = byId.get(compactId(sku));
+      if (exact) return { product: exact, matchedBy: "sku", confidence: 1 };
+      const local = byLocalId.get(compactId(sku));
+      if (local?.length === 1) return { product: local[0], matchedBy: "sku", confidence: 1 };
+    }
+
+    const text = description || sku;
+    if (!text) return { product: null, ambiguous: false };
+    let best: ImportCatalogProduct | null = null;
+    let bestScore = 0;
+    let tied = false;
+    for (const product of catalog) {
+      const score = descriptionSimilarity(text, product.name);
+      if (score > bestScore) {
+        best = product;
+        bestScore = score;
+        tied = false;
+      } else if (score === bestScore && score > 0) {
+        tied = true;
+      }
+    }
+    if (!best || bestScore < MIN_DESCRIPTION_SIMILARITY) return { product: null, ambiguous: false };
+    if (tied) return { product: null, ambiguous: true };
+    return { product: best, matchedBy: "description", confidence: Math.round(bestScore * 100) / 100 };
+  };
+}
+
+// ─── Preview ────────────────────────────────────────────────────────
+
+/**
+ * Dry-run an import: match every priced row to a product and compare it
+ * with the product's current price. Nothing is matched until the mapping
+ * names a price column and a column to match on. Rows with a blank price are skipped
+ * (products the distributor didn't quote); a product matched by more than
+ * one row keeps the first. Changes larger than `flagThresholdPercent` in
+ * either direction are flagged.
+ */
+export function buildImportPreview(
+  file: ParsedPriceFile,
+  mapping: ImportColumnMapping,
+  catalog: ImportCatalogProduct[],
+  flagThresholdPercent: number,
+): ImportPreview {
+  const mappingComplete = isMappingComplete(mapping);
+  if (!mappingComplete) {
+    return { headers: file.headers, mapping, mappingComplete, rows: [], unmatched: [] };
+  }
+
+  const match = createMatcher(catalog);
+  const cell = (row: string[], index: number | undefined) => (index !== undefined ? (row[index] ?? "") : "");
+  const rows: ImportPreviewRow[] = [];
+  const unmatched: UnmatchedImportRow[] = [];
+  const seen = new Set<string>();
+
+  file.rows.forEach((row, i) => {
+    const rowNumber = file.firstRowNumber + i;
+    const priceText = cell(row, mapping.price);
+    if (!priceText) return;
+
+    const productId = cell(row, mapping.productId);
+    const sku = cell(row, mapping.sku);
+    const description = cell(row, mapping.description);
+    const sourceText = [sku, description].filter(Boolean).join(" — ") || productId;
+
+    const newPrice = parsePriceCell(priceText);
+    if (newPrice === null) {
+      unmatched.push({ rowNumber, sourceText, price: priceText, reason: "invalid-price" });
+      return;
+    }
+
+    const result = match(productId, sku, description);
+    if (!result.product) {
+      unmatched.push({ rowNumber, sourceText, price: priceText, reason: result.ambiguous ? "ambiguous" : "no-match" });
+      return;
+    }
+    if (seen.has(result.product.productId)) {
+      unmatched.push({ rowNumber, sourceText, price: priceText, reason: "duplicate" });
+      return;
+    }
+    seen.add(result.product.productId);
+
+    const currentPrice = result.product.unitPrice;
+    const changePercent = currentPrice > 0 ? ((newPrice - currentPrice) / currentPrice) * 100 : null;
+    rows.push({
+      rowNumber,
+      productId: result.product.productId,
+      name: result.product.name,
+      matchedBy: result.matchedBy,
+      confidence: result.confidence,
+      sourceText,
+      currentPrice,
+      newPrice,
+      changePercent,
+      flagged: changePercent !== null && Math.abs(changePercent) > flagThresholdPercent,
+    });
+  });
+
+  return { headers: file.headers, mapping, mappingComplete, rows, unmatched };
+}
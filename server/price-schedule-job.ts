@@ -0,0 +1,30 @@
+/**
+ * Price Schedule Job — Writes due scheduled price changes to the price book.
+ *
+ * Runs on an interval in the long-lived server. Reads don't wait on it:
+ * estimates price as of today, overlaying due changes the job hasn't
+ * written yet.
+ */
+import { applyDuePriceChanges, getOrganizationsWithDuePriceChanges } from "./pricing-db";
+
+const INTERVAL_MS = 5 * 60 * 1000;
+
+/** Apply due changes for every organization that has some */
+export async function runPriceScheduleJob(now = new Date()) {
+  for (const organizationId of await getOrganizationsWithDuePriceChanges(now)) {
+    try {
+      await applyDuePriceChanges(organizationId, now);
+    } catch (error) {
+      console.error(`[Price Schedule] Failed to apply due prices for organization ${organizationId}:`, error);
+    }
+  }
+}
+
+/** Run the job now and then on an interval, without keeping the process alive */
+export function startPriceScheduleJob(intervalMs = INTERVAL_MS) {
+  const run = () => {
+    runPriceScheduleJob().catch((error) => console.error("[Price Schedule] Run failed:", error));
+  };
+  run();
+  return setInterval(run, intervalMs).unref();
+}
@@ -1,40 +1,95 @@
-import { eq, like, and, or, sql, desc } from "drizzle-orm";
-import { getDb } from "./db";
+import { eq, like, and, or, sql, desc, inArray, isNull, lte } from "drizzle-orm";
+import { planDuePriceChanges, pricesAsOf, type ScheduledPriceChange } from "@shared/estimating/price-schedule";
+import { getDb, type Transaction } from "./db";
+import { getDistributorPrices, writeDistributorPrices } from "./distributors-db";
 import {
   productPricing,
   priceHistory,
   quoteRequests,
+  quoteRequestItems,
+  quoteItemPrices,
+  scheduledPrices,
+  priceBatches,
+  type ScheduledPrice,
   type InsertProductPricing,
   type InsertPriceHistory,
   type InsertQuoteRequest,
+  type InsertQuoteRequestItem,
 } from "../drizzle/schema";
 
+// Every query is scoped to one organization's price book.
+
 // ─── Product Pricing CRUD ───────────────────────────────────────────
 
-export async function getAllPricing() {
+export async function getAllPricing(organizationId: number) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(productPricing).orderBy(productPricing.system, productPricing.category, productPricing.name);
+  return db
+    .select()
+    .from(productPricing)
+    .where(eq(productPricing.organizationId, organizationId))
+    .orderBy(productPricing.system, productPricing.category, productPricing.name);
 }
 
-export async function getPricingBySystem(system: string) {
+export async function getPricingBySystem(organizationId: number, system: string) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(productPricing).where(eq(productPricing.system, system)).orderBy(productPricing.category, productPricing.name);
+  return db
+    .select()
+    .from(productPricing)
+    .where(and(eq(productPricing.organizationId, organizationId), eq(productPricing.system, system)))
+    .orderBy(productPricing.category, productPricing.name);
+}
+
+/**
+ * Current prices for one system keyed by the estimator's local product ID
+ * (productId with the system's pricing prefix stripped), as the estimator
+ * pages load them. With a distributor, its price list overrides the default
+ * price book for the products it covers. The price book is priced as of the
+ * given date, or today — so a scheduled change that's due prices in before
+ * the schedule job writes it to the book. Empty when the database is
+ * unavailable.
+ */
+export async function getSystemPriceMap(
+  organizationId: number,
+  system: string,
+  pricingPrefix: string,
+  distributorId?: number,
+  asOf?: Date,
+): Promise<Record<string, number>> {
+  const rows: Array<{ productId: string; unitPrice: string }> = await getPricingAsOf(
+    organizationId,
+    asOf ?? new Date(),
+    system,
+  );
+  if (distributorId !== undefined) {
+    rows.push(...(await getDistributorPrices(organizationId, distributorId)));
+  }
+  const prices: Record<string, number> = {};
+  for (const row of rows) {
+    if (!row.productId.startsWith(pricingPrefix + "-")) continue;
+    prices[row.productId.slice(pricingPrefix.length + 1)] = parseFloat(row.unitPrice);
+  }
+  return prices;
 }
 
-export async function getPricingByProductId(productId: string) {
+export async function getPricingByProductId(organizationId: number, productId: string) {
   const db = await getDb();
   if (!db) return undefined;
-  const result = await db.select().from(productPricing).where(eq(productPricing.productId, productId)).limit(1);
+  const result = await db
+    .select()
+    .from(productPricing)
+    .where(and(eq(productPricing.organizationId, organizationId), eq(productPricing.productId, productId)))
+    .limit(1);
   return result.length > 0 ? result[0] : undefined;
 }
 
-export async function searchPricing(query: string, system?: string) {
+export async function searchPricing(organizationId: number, query: string, system?: string) {
   const db = await getDb();
   if (!db) return [];
   const searchPattern = `%${query}%`;
   const conditions = [
+    eq(productPricing.organizationId, organizationId),
     or(
       like(productPricing.name, searchPattern),
       like(productPricing.productId, searchPattern),
@@ -68,41 +123,68 @@ export async function upsertProductPricing(product: InsertProductPricing) {
 }
 
 export async function updateProductPrice(
+  organizationId: number,
   productId: string,
   newPrice: string,
   source: string,
   changedBy?: string,
+  batchId?: number,
 ) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
+  await db.transaction((tx) => writeProductPrice(tx, organizationId, productId, newPrice, source, changedBy, batchId));
+}
+
+/**
+ * Set a product's price and log it to history within a transaction, locking
+ * the product's row while it changes. Returns the price it replaced.
+ */
+async function writeProductPrice(
+  tx: Transaction,
+  organizationId: number,
+  productId: string,
+  newPrice: string,
+  source: string,
+  changedBy?: string,
+  batchId?: number,
+) {
   // Get current price for history
-  const current = await getPricingByProductId(productId);
+  const [current] = await tx
+    .select({ id: productPricing.id, unitPrice: productPricing.unitPrice })
+    .from(productPricing)
+    .where(and(eq(productPricing.organizationId, organizationId), eq(productPricing.productId, productId)))
+    .limit(1)
+    .for("update");
   if (!current) throw new Error(`Product ${productId} not found`);
 
   const oldPrice = current.unitPrice;
 
   // Update the price
-  await db
+  await tx
     .update(productPricing)
     .set({
       unitPrice: newPrice,
       priceSource: source,
       lastPriceUpdate: new Date(),
     })
-    .where(eq(productPricing.productId, productId));
+    .where(eq(productPricing.id, current.id));
 
   // Log to history
-  await db.insert(priceHistory).values({
+  await tx.insert(priceHistory).values({
+    organizationId,
     productId,
     oldPrice: oldPrice,
     newPrice: newPrice,
     source,
     changedBy: changedBy || "system",
+    batchId,
   });
+  return oldPrice;
 }
 
 export async function bulkUpdatePrices(
+  organizationId: number,
   updates: Array<{ productId: string; newPrice: string; source: string }>,
   changedBy?: string,
 ) {
@@ -113,7 +195,7 @@ export async function bulkUpdatePrices(
 
   for (const update of updates) {
     try {
-      await updateProductPrice(update.productId, update.newPrice, update.source, changedBy);
+      await updateProductPrice(organizationId, update.productId, update.newPrice, update.source, changedBy);
       results.push({ productId: update.productId, success: true });
     } catch (err: any) {
       results.push({ productId: update.productId, success: false, error: err.message });
@@ -123,19 +205,160 @@ export async function bulkUpdatePrices(
   return results;
 }
 
-export async function resetPriceToDefault(productId: string, changedBy?: string) {
+export async function resetPriceToDefault(organizationId: number, productId: string, changedBy?: string) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  const current = await getPricingByProductId(productId);
+  const current = await getPricingByProductId(organizationId, productId);
   if (!current) throw new Error(`Product ${productId} not found`);
 
-  await updateProductPrice(productId, current.defaultPrice, "Reset to default", changedBy);
+  await updateProductPrice(organizationId, productId, current.defaultPrice, "Reset to default", changedBy);
+}
+
+// ─── Price Batches ──────────────────────────────────────────────────
+
+/**
+ * Apply a bulk price change as one batch: each product's history entry shares
+ * the batch's id so the batch can be undone as a unit. The batch, its price
+ * updates and their history are written in one transaction — all or nothing.
+ * Each update carries the price it was planned from; the prices are read
+ * locked inside the transaction, and products missing from the price book or
+ * whose price has changed since are left out and reported as failed.
+ */
+export async function bulkAdjustPrices(
+  organizationId: number,
+  updates: Array<{ productId: string; currentPrice: string; newPrice: string }>,
+  source: string,
+  changedBy?: string,
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    const found = await tx
+      .select({ productId: productPricing.productId, unitPrice: productPricing.unitPrice })
+      .from(productPricing)
+      .where(
+        and(
+          eq(productPricing.organizationId, organizationId),
+          inArray(
+            productPricing.productId,
+            updates.map((update) => update.productId),
+          ),
+        ),
+      )
+      .for("update");
+    const prices = new Map(found.map((row) => [row.productId, parseFloat(row.unitPrice)]));
+    const failed: Array<{ productId: string; error: string }> = [];
+    const applicable: typeof updates = [];
+    for (const update of updates) {
+      const price = prices.get(update.productId);
+      if (price === undefined) {
+        failed.push({ productId: update.productId, error: `Product ${update.productId} not found` });
+      } else if (price !== parseFloat(update.currentPrice)) {
+        failed.push({ productId: update.productId, error: "Price changed since the preview" });
+      } else {
+        applicable.push(update);
+      }
+    }
+
+    const result = await tx
+      .insert(priceBatches)
+      .values({ organizationId, source, productCount: applicable.length, createdBy: changedBy });
+    const batchId = result[0].insertId;
+
+    for (const update of applicable) {
+      await writeProductPrice(tx, organizationId, update.productId, update.newPrice, source, changedBy, batchId);
+    }
+    return { batchId, updated: applicable.length, failed };
+  });
+}
+
+/** Recent bulk price changes, newest first */
+export async function getPriceBatches(organizationId: number, limit = 20) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(priceBatches)
+    .where(eq(priceBatches.organizationId, organizationId))
+    .orderBy(desc(priceBatches.createdAt))
+    .limit(limit);
+}
+
+export async function getPriceBatch(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db
+    .select()
+    .from(priceBatches)
+    .where(and(eq(priceBatches.organizationId, organizationId), eq(priceBatches.id, id)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+/**
+ * Undo a batch: put back the price each product had before it. Products
+ * whose price has changed again since are left alone and reported as skipped.
+ * The batch row is locked for the undo, and the restored prices, their
+ * history and the batch's undone mark are written in one transaction.
+ * Returns the restored products for the price change impact report.
+ */
+export async function undoPriceBatch(organizationId: number, batchId: number, undoneBy?: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(async (tx) => {
+    const [batch] = await tx
+      .select()
+      .from(priceBatches)
+      .where(and(eq(priceBatches.organizationId, organizationId), eq(priceBatches.id, batchId)))
+      .limit(1)
+      .for("update");
+    if (!batch) throw new Error("Price batch not found");
+    if (batch.undoneAt) throw new Error("Price batch has already been undone");
+
+    const entries = await tx
+      .select()
+      .from(priceHistory)
+      .where(and(eq(priceHistory.organizationId, organizationId), eq(priceHistory.batchId, batchId)));
+    const current = await tx
+      .select({ productId: productPricing.productId, unitPrice: productPricing.unitPrice })
+      .from(productPricing)
+      .where(
+        and(
+          eq(productPricing.organizationId, organizationId),
+          inArray(
+            productPricing.productId,
+            entries.map((entry) => entry.productId),
+          ),
+        ),
+      )
+      .for("update");
+    const prices = new Map(current.map((p) => [p.productId, p.unitPrice]));
+
+    const productIds: string[] = [];
+    const skipped: string[] = [];
+    for (const entry of entries) {
+      if (prices.get(entry.productId) !== entry.newPrice) {
+        skipped.push(entry.productId);
+        continue;
+      }
+      await writeProductPrice(tx, organizationId, entry.productId, entry.oldPrice, `Undo: ${batch.source}`, undoneBy);
+      productIds.push(entry.productId);
+    }
+    await tx
+      .update(priceBatches)
+      .set({ undoneAt: new Date(), undoneBy })
+      .where(eq(priceBatches.id, batchId));
+    return { restored: productIds.length, skipped, productIds };
+  });
 }
 
 // ─── Seed default pricing from estimator data ───────────────────────
 
 export async function seedDefaultPricing(
+  organizationId: number,
   products: Array<{
     productId: string;
     system: string;
@@ -155,6 +378,7 @@ export async function seedDefaultPricing(
     await db
       .insert(productPricing)
       .values({
+        organizationId,
         productId: p.productId,
         system: p.system,
         manufacturer: p.manufacturer,
@@ -182,34 +406,370 @@ export async function seedDefaultPricing(
 
 // ─── Price History ──────────────────────────────────────────────────
 
-export async function getPriceHistory(productId: string, limit = 50) {
+export async function getPriceHistory(organizationId: number, productId: string, limit = 50) {
   const db = await getDb();
   if (!db) return [];
   return db
     .select()
     .from(priceHistory)
-    .where(eq(priceHistory.productId, productId))
+    .where(and(eq(priceHistory.organizationId, organizationId), eq(priceHistory.productId, productId)))
     .orderBy(desc(priceHistory.createdAt))
     .limit(limit);
 }
 
 // ─── Quote Requests ─────────────────────────────────────────────────
 
-export async function createQuoteRequest(quote: InsertQuoteRequest) {
+type QuoteItemFields = Omit<InsertQuoteRequestItem, "id" | "organizationId" | "quoteRequestId" | "createdAt">;
+
+/** Create a quote request with the products (and quantities) it asks for. Returns the new quote's id. */
+export async function createQuoteRequest(quote: InsertQuoteRequest, items: QuoteItemFields[] = []) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  return db.transaction(async (tx) => {
+    const result = await tx.insert(quoteRequests).values(quote);
+    const quoteRequestId = result[0].insertId;
+    if (items.length > 0) {
+      await tx
+        .insert(quoteRequestItems)
+        .values(items.map((item) => ({ ...item, organizationId: quote.organizationId, quoteRequestId })));
+    }
+    return quoteRequestId;
+  });
+}
+
+export async function getQuoteRequest(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db
+    .select()
+    .from(quoteRequests)
+    .where(and(eq(quoteRequests.organizationId, organizationId), eq(quoteRequests.id, id)))
+    .limit(1);
+  return result[0] ?? null;
+}
+
+export async function getQuoteRequests(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return db
+    .select()
+    .from(quoteRequests)
+    .where(eq(quoteRequests.organizationId, organizationId))
+    .orderBy(desc(quoteRequests.createdAt));
+}
+
+export async function updateQuoteStatus(
+  organizationId: number,
+  id: number,
+  status: "draft" | "sent" | "received" | "applied",
+) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db
+    .update(quoteRequests)
+    .set({ status })
+    .where(and(eq(quoteRequests.organizationId, organizationId), eq(quoteRequests.id, id)));
+}
+
+// ─── Quote Line Items ───────────────────────────────────────────────
+
+/** A quote's requested products, each with the unit prices distributors returned. */
+export async function getQuoteItems(organizationId: number, quoteRequestId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const items = await db
+    .select()
+    .from(quoteRequestItems)
+    .where(
+      and(eq(quoteRequestItems.organizationId, organizationId), eq(quoteRequestItems.quoteRequestId, quoteRequestId)),
+    )
+    .orderBy(quoteRequestItems.id);
+  if (items.length === 0) return [];
+
+  const prices = await db
+    .select()
+    .from(quoteItemPrices)
+    .where(
+      and(
+        eq(quoteItemPrices.organizationId, organizationId),
+        inArray(
+          quoteItemPrices.quoteItemId,
+          items.map((item) => item.id),
+        ),
+      ),
+    );
+
+  return items.map((item) => ({
+    ...item,
+    prices: prices
+      .filter((p) => p.quoteItemId === item.id)
+      .map((p) => ({ distributorId: p.distributorId, unitPrice: p.unitPrice })),
+  }));
+}
+
+/**
+ * Record the unit prices one distributor returned on a quote, in one
+ * transaction: the quote's prices, the distributor's price list and the
+ * quote's "received" status. Prices for products the quote didn't ask for
+ * still go on the price list but are reported as unmatched.
+ */
+export async function recordQuoteResponse(
+  organizationId: number,
+  quoteRequestId: number,
+  distributorId: number,
+  prices: Array<{ productId: string; unitPrice: string }>,
+  source: string,
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  const result = await db.insert(quoteRequests).values(quote);
-  return result[0].insertId;
+
+  return db.transaction(async (tx) => {
+    const items = await tx
+      .select({ id: quoteRequestItems.id, productId: quoteRequestItems.productId })
+      .from(quoteRequestItems)
+      .where(
+        and(eq(quoteRequestItems.organizationId, organizationId), eq(quoteRequestItems.quoteRequestId, quoteRequestId)),
+      );
+    const itemIds = new Map(items.map((item) => [item.productId, item.id]));
+
+    let recorded = 0;
+    const unmatched: string[] = [];
+    for (const price of prices) {
+      const quoteItemId = itemIds.get(price.productId);
+      if (quoteItemId == null) {
+        unmatched.push(price.productId);
+        continue;
+      }
+      await tx
+        .insert(quoteItemPrices)
+        .values({ organizationId, quoteItemId, distributorId, unitPrice: price.unitPrice })
+        .onDuplicateKeyUpdate({ set: { unitPrice: price.unitPrice } });
+      recorded++;
+    }
+    await writeDistributorPrices(tx, organizationId, distributorId, prices, source);
+    await tx
+      .update(quoteRequests)
+      .set({ status: "received" })
+      .where(and(eq(quoteRequests.organizationId, organizationId), eq(quoteRequests.id, quoteRequestId)));
+    return { recorded, unmatched };
+  });
 }
 
-export async function getQuoteRequests() {
+// ─── Scheduled Prices ───────────────────────────────────────────────
+
+function toScheduledChange(row: ScheduledPrice): ScheduledPriceChange {
+  return {
+    id: row.id,
+    productId: row.productId,
+    unitPrice: parseFloat(row.unitPrice),
+    effectiveFrom: row.effectiveFrom,
+    effectiveTo: row.effectiveTo,
+    appliedAt: row.appliedAt,
+    revertPrice: row.revertPrice !== null ? parseFloat(row.revertPrice) : null,
+  };
+}
+
+/** Open scheduled changes — pending, or temporary prices in effect — by effective date. */
+export async function getScheduledPrices(organizationId: number) {
   const db = await getDb();
   if (!db) return [];
-  return db.select().from(quoteRequests).orderBy(desc(quoteRequests.createdAt));
+  return db
+    .select()
+    .from(scheduledPrices)
+    .where(and(eq(scheduledPrices.organizationId, organizationId), isNull(scheduledPrices.endedAt)))
+    .orderBy(scheduledPrices.effectiveFrom, scheduledPrices.productId);
 }
 
-export async function updateQuoteStatus(id: number, status: "draft" | "sent" | "received" | "applied") {
+/** Schedule new prices for a date range (open-ended without `effectiveTo`). Returns the number scheduled. */
+export async function schedulePrices(
+  organizationId: number,
+  prices: Array<{ productId: string; unitPrice: string }>,
+  effectiveFrom: Date,
+  effectiveTo: Date | null,
+  source: string,
+  createdBy?: string,
+) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  await db.update(quoteRequests).set({ status }).where(eq(quoteRequests.id, id));
+  if (prices.length === 0) return 0;
+
+  await db.insert(scheduledPrices).values(
+    prices.map((price) => ({
+      organizationId,
+      productId: price.productId,
+      unitPrice: price.unitPrice,
+      effectiveFrom,
+      effectiveTo,
+      priceSource: source,
+      createdBy,
+    })),
+  );
+  return prices.length;
+}
+
+/** Cancel a scheduled change that hasn't taken effect. Returns false when there's no such pending change. */
+export async function cancelScheduledPrice(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db
+    .delete(scheduledPrices)
+    .where(
+      and(
+        eq(scheduledPrices.organizationId, organizationId),
+        eq(scheduledPrices.id, id),
+        isNull(scheduledPrices.appliedAt),
+      ),
+    );
+  return result[0].affectedRows > 0;
+}
+
+/** Open scheduled changes with a book write due by `now`: pending ones that have started, and ones that have ended */
+function dueChangeConditions(now: Date) {
+  return and(
+    isNull(scheduledPrices.endedAt),
+    or(
+      and(isNull(scheduledPrices.appliedAt), lte(scheduledPrices.effectiveFrom, now)),
+      lte(scheduledPrices.effectiveTo, now),
+    ),
+  );
+}
+
+/** Organizations with scheduled changes due by `now`, for the price schedule job */
+export async function getOrganizationsWithDuePriceChanges(now = new Date()) {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db
+    .selectDistinct({ organizationId: scheduledPrices.organizationId })
+    .from(scheduledPrices)
+    .where(dueChangeConditions(now));
+  return rows.map((row) => row.organizationId);
+}
+
+/**
+ * Write scheduled changes that are due by `now` to the price book (and price
+ * history), and revert temporary prices that have ended. Runs from the price
+ * schedule job and the admin's apply action — never while prices are read,
+ * which price as of today instead.
+ *
+ * Each change is claimed with a conditional update in the same transaction as
+ * its price write, so when runs overlap only one of them writes it. Returns
+ * the counts and the products whose price was written.
+ */
+export async function applyDuePriceChanges(organizationId: number, now = new Date()) {
+  const db = await getDb();
+  if (!db) return { applied: 0, reverted: 0, productIds: [] };
+
+  const due = await db
+    .select()
+    .from(scheduledPrices)
+    .where(and(eq(scheduledPrices.organizationId, organizationId), dueChangeConditions(now)));
+  if (due.length === 0) return { applied: 0, reverted: 0, productIds: [] };
+
+  const book = await db
+    .select({ productId: productPricing.productId, unitPrice: productPricing.unitPrice })
+    .from(productPricing)
+    .where(
+      and(
+        eq(productPricing.organizationId, organizationId),
+        inArray(
+          productPricing.productId,
+          due.map((row) => row.productId),
+        ),
+      ),
+    );
+  const rows = new Map(due.map((row) => [row.id, row]));
+  const actions = planDuePriceChanges(
+    due.map(toScheduledChange),
+    new Map(book.map((p) => [p.productId, parseFloat(p.unitPrice)])),
+    now,
+  );
+
+  let applied = 0;
+  let reverted = 0;
+  const productIds = new Set<string>();
+  for (const action of actions) {
+    const row = rows.get(action.id)!;
+    const source = row.priceSource || "Scheduled Price";
+    if (action.kind === "apply") {
+      const claimed = await db.transaction(async (tx) => {
+        const claim = await tx
+          .update(scheduledPrices)
+          .set({ appliedAt: now, endedAt: action.ended ? now : null })
+          .where(
+            and(eq(scheduledPrices.id, action.id), isNull(scheduledPrices.appliedAt), isNull(scheduledPrices.endedAt)),
+          );
+        if (claim[0].affectedRows === 0) return false;
+        const replaced = await writeProductPrice(
+          tx,
+          organizationId,
+          action.productId,
+          action.price.toFixed(2),
+          source,
+          row.createdBy ?? undefined,
+        );
+        await tx.update(scheduledPrices).set({ revertPrice: replaced }).where(eq(scheduledPrices.id, action.id));
+        return true;
+      });
+      if (claimed) {
+        applied++;
+        productIds.add(action.productId);
+      }
+    } else if (action.kind === "revert") {
+      const claimed = await db.transaction(async (tx) => {
+        const claim = await tx
+          .update(scheduledPrices)
+          .set({ endedAt: now })
+          .where(and(eq(scheduledPrices.id, action.id), isNull(scheduledPrices.endedAt)));
+        if (claim[0].affectedRows === 0) return false;
+        await writeProductPrice(tx, organizationId, action.productId, action.price.toFixed(2), `${source} (ended)`);
+        return true;
+      });
+      if (claimed) {
+        reverted++;
+        productIds.add(action.productId);
+      }
+    } else {
+      await db
+        .update(scheduledPrices)
+        .set({ endedAt: now })
+        .where(and(eq(scheduledPrices.id, action.id), isNull(scheduledPrices.endedAt)));
+    }
+  }
+  return { applied, reverted, productIds: Array.from(productIds) };
+}
+
+/**
+ * Price book rows priced as of a date (today or later): scheduled changes in
+ * effect then replace the current unit price.
+ */
+export async function getPricingAsOf(organizationId: number, asOf: Date, system?: string) {
+  const rows = system ? await getPricingBySystem(organizationId, system) : await getAllPricing(organizationId);
+  const schedule = (await getScheduledPrices(organizationId)).map(toScheduledChange);
+  if (schedule.length === 0) return rows;
+
+  const prices = pricesAsOf(new Map(rows.map((r) => [r.productId, parseFloat(r.unitPrice)])), schedule, asOf);
+  return rows.map((row) => {
+    const price = prices.get(row.productId)!;
+    return price === parseFloat(row.unitPrice) ? row : { ...row, unitPrice: price.toFixed(2) };
+  });
+}
+
+// ─── Organization Price Books ───────────────────────────────────────
+
+/** Copy one organization's price book into another (new) organization. Returns the number of products copied. */
+export async function copyPricing(fromOrganizationId: number, toOrganizationId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const rows = await getAllPricing(fromOrganizationId);
+  if (rows.length === 0) return 0;
+  await db.insert(productPricing).values(
+    rows.map(({ id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...row }) => ({
+      ...row,
+      organizationId: toOrganizationId,
+    })),
+  );
+  return rows.length;
 }
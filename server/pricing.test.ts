@@ -43,6 +43,17 @@ vi.mock("./pricing-db", () => ({
   createQuoteRequest: vi.fn().mockResolvedValue(1),
   getQuoteRequests: vi.fn().mockResolvedValue([]),
   updateQuoteStatus: vi.fn().mockResolvedValue(undefined),
+  applyDuePriceChanges: vi.fn().mockResolvedValue({ applied: 0, reverted: 0, productIds: [] }),
+  getPricingAsOf: vi.fn().mockResolvedValue([]),
+  getScheduledPrices: vi.fn().mockResolvedValue([]),
+  schedulePrices: vi.fn().mockImplementation(async (_org: number, prices: unknown[]) => prices.length),
+  cancelScheduledPrice: vi.fn().mockImplementation(async (_org: number, id: number) => id === 4),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
 }));
 
 // Mock the db module
@@ -53,19 +64,29 @@ vi.mock("./db", () => ({
 }));
 
 import { appRouter } from "./routers";
+import {
+  applyDuePriceChanges,
+  getAllPricing,
+  getPricingAsOf,
+  getQuoteRequests,
+  schedulePrices,
+  seedDefaultPricing,
+  updateProductPrice,
+} from "./pricing-db";
+import { resolveActiveOrganization } from "./organizations-db";
 import type { TrpcContext } from "./_core/context";
 
 type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
 
-function createContext(authenticated = false): TrpcContext {
-  const user: AuthenticatedUser | null = authenticated
+function createContext(role?: AuthenticatedUser["role"]): TrpcContext {
+  const user: AuthenticatedUser | null = role
     ? {
         id: 1,
         openId: "test-user",
         email: "test@example.com",
         name: "Test User",
         loginMethod: "manus",
-        role: "user",
+        role,
         createdAt: new Date(),
         updatedAt: new Date(),
         lastSignedIn: new Date(),
@@ -86,7 +107,7 @@ function createContext(authenticated = false): TrpcContext {
 
 describe("pricing router", () => {
   it("lists all pricing entries", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.list();
 
     expect(result).toBeDefined();
@@ -96,7 +117,7 @@ describe("pricing router", () => {
   });
 
   it("lists pricing filtered by system", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.list({ system: "karnak" });
 
     expect(result).toBeDefined();
@@ -104,7 +125,7 @@ describe("pricing router", () => {
   });
 
   it("searches pricing by query", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.search({ query: "primer" });
 
     expect(result).toBeDefined();
@@ -112,7 +133,7 @@ describe("pricing router", () => {
   });
 
   it("updates a single product price", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("admin"));
     const result = await caller.pricing.updatePrice({
       productId: "karnak-primer",
       newPrice: "130.00",
@@ -123,7 +144,7 @@ describe("pricing router", () => {
   });
 
   it("bulk updates prices", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("admin"));
     const result = await caller.pricing.bulkUpdate({
       updates: [
         {
@@ -139,7 +160,7 @@ describe("pricing router", () => {
   });
 
   it("resets a product price to default", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("admin"));
     const result = await caller.pricing.resetToDefault({
       productId: "karnak-primer",
     });
@@ -148,7 +169,7 @@ describe("pricing router", () => {
   });
 
   it("seeds default pricing from product data", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("admin"));
     const result = await caller.pricing.seed({
       products: [
         {
@@ -167,7 +188,7 @@ describe("pricing router", () => {
   });
 
   it("gets price history for a product", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.history({
       productId: "karnak-primer",
     });
@@ -177,7 +198,7 @@ describe("pricing router", () => {
   });
 
   it("creates a quote request", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.createQuote({
       name: "Test Quote",
       system: "karnak",
@@ -190,7 +211,7 @@ describe("pricing router", () => {
   });
 
   it("lists all quote requests", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.quotes();
 
     expect(result).toBeDefined();
@@ -198,7 +219,7 @@ describe("pricing router", () => {
   });
 
   it("updates quote status", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.updateQuoteStatus({
       id: 1,
       status: "sent",
@@ -208,7 +229,7 @@ describe("pricing router", () => {
   });
 
   it("creates a quote request without optional fields", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.createQuote({
       name: "All Systems Quote",
       system: "all",
@@ -218,7 +239,7 @@ describe("pricing router", () => {
   });
 
   it("updates quote status through full lifecycle", async () => {
-    const caller = appRouter.createCaller(createContext(true));
+    const caller = appRouter.createCaller(createContext("user"));
 
     // Draft → Sent
     let result = await caller.pricing.updateQuoteStatus({ id: 1, status: "sent" });
@@ -233,18 +254,34 @@ describe("pricing router", () => {
     expect(result).toEqual({ success: true });
   });
 
-  it("uses anonymous for changedBy when user is not authenticated", async () => {
-    const caller = appRouter.createCaller(createContext(false));
-    const result = await caller.pricing.updatePrice({
+  it("records the admin as changedBy on price edits", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    await caller.pricing.updatePrice({
       productId: "karnak-primer",
       newPrice: "130.00",
     });
 
-    expect(result).toEqual({ success: true });
+    expect(updateProductPrice).toHaveBeenCalledWith(7, "karnak-primer", "130.00", "Manual Edit", "test-user");
+  });
+
+  it("previews a CSV import without saving it", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const csv = '"Item #","Description","Net Price"\n"K-404","Karnak 404 Primer, 5 gal","$150.00"\n"X-1","Drip Edge","4.10"\n';
+    const result = await caller.pricing.previewImport({
+      fileName: "distributor.csv",
+      content: Buffer.from(csv).toString("base64"),
+    });
+
+    expect(result.mapping).toMatchObject({ sku: 0, description: 1, price: 2 });
+    expect(result.rows).toEqual([
+      expect.objectContaining({ productId: "karnak-primer", currentPrice: 125, newPrice: 150, flagged: true }),
+    ]);
+    expect(result.unmatched).toEqual([expect.objectContaining({ rowNumber: 3, reason: "no-match" })]);
+    expect(updateProductPrice).not.toHaveBeenCalledWith(7, "karnak-primer", "150.00", expect.anything(), expect.anything());
   });
 
   it("gets price history with custom limit", async () => {
-    const caller = appRouter.createCaller(createContext());
+    const caller = appRouter.createCaller(createContext("user"));
     const result = await caller.pricing.history({
       productId: "karnak-primer",
       limit: 10,
@@ -254,3 +291,159 @@ describe("pricing router", () => {
     expect(Array.isArray(result)).toBe(true);
   });
 });
+
+describe("scheduled prices", () => {
+  it("doesn't write due changes when listing prices", async () => {
+    vi.mocked(applyDuePriceChanges).mockClear();
+    const caller = appRouter.createCaller(createContext("user"));
+    await caller.pricing.list();
+    await caller.pricing.schedule();
+
+    expect(applyDuePriceChanges).not.toHaveBeenCalled();
+  });
+
+  it("applies due changes on an admin's request", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    vi.mocked(applyDuePriceChanges).mockResolvedValueOnce({ applied: 1, reverted: 0, productIds: ["karnak-primer"] });
+
+    await expect(caller.pricing.applyDuePrices()).resolves.toEqual({
+      applied: 1,
+      reverted: 0,
+      productIds: ["karnak-primer"],
+    });
+    expect(applyDuePriceChanges).toHaveBeenLastCalledWith(7);
+  });
+
+  it("lists prices as of a date", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+    const asOf = new Date("2027-04-01");
+    await caller.pricing.list({ system: "carlisle-tpo", asOf });
+
+    expect(getPricingAsOf).toHaveBeenLastCalledWith(7, asOf, "carlisle-tpo");
+  });
+
+  it("schedules a future price list", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const effectiveFrom = new Date("2027-03-01");
+    const result = await caller.pricing.schedulePrices({
+      prices: [{ productId: "karnak-primer", unitPrice: "133.75" }],
+      effectiveFrom,
+      source: "Karnak +7% effective March 1",
+    });
+
+    expect(result).toEqual({ scheduled: 1, applied: 0, productIds: [] });
+    expect(schedulePrices).toHaveBeenLastCalledWith(
+      7,
+      [{ productId: "karnak-primer", unitPrice: "133.75" }],
+      effectiveFrom,
+      null,
+      "Karnak +7% effective March 1",
+      "test-user",
+    );
+  });
+
+  it("rejects an end date before the effective date", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(
+      caller.pricing.schedulePrices({
+        prices: [{ productId: "karnak-primer", unitPrice: "99.00" }],
+        effectiveFrom: new Date("2027-03-01"),
+        effectiveTo: new Date("2027-02-01"),
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("cancels only pending changes", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    await expect(caller.pricing.cancelScheduledPrice({ id: 4 })).resolves.toEqual({ success: true });
+    await expect(caller.pricing.cancelScheduledPrice({ id: 5 })).rejects.toThrow("already in effect");
+  });
+
+  it("restricts scheduling to admins", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(
+      caller.pricing.schedulePrices({ prices: [], effectiveFrom: new Date("2027-03-01") }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.pricing.cancelScheduledPrice({ id: 4 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.pricing.applyDuePrices()).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
+
+describe("pricing router access", () => {
+  it("requires a signed-in user to read pricing", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.pricing.list()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(caller.pricing.quotes()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("forbids price edits by non-admin users", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(
+      caller.pricing.updatePrice({ productId: "karnak-primer", newPrice: "1.00" }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.pricing.resetToDefault({ productId: "karnak-primer" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+  });
+
+  it("forbids bulk updates by non-admin users", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(
+      caller.pricing.bulkUpdate({ updates: [{ productId: "karnak-primer", newPrice: "1.00", source: "CSV Import" }] }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("forbids import previews by non-admin users", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(
+      caller.pricing.previewImport({ fileName: "prices.csv", content: "" }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("forbids seeding by non-admin users", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(caller.pricing.seed({ products: [] })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("forbids admin procedures when signed out", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(
+      caller.pricing.updatePrice({ productId: "karnak-primer", newPrice: "1.00" }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
+
+describe("pricing router organization scope", () => {
+  it("reads the active organization's price book and quotes", async () => {
+    const caller = appRouter.createCaller(createContext("user"));
+    await caller.pricing.list();
+    await caller.pricing.quotes();
+
+    expect(getAllPricing).toHaveBeenLastCalledWith(7);
+    expect(getQuoteRequests).toHaveBeenLastCalledWith(7);
+  });
+
+  it("seeds into the active organization", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    await caller.pricing.seed({ products: [] });
+
+    expect(seedDefaultPricing).toHaveBeenLastCalledWith(7, []);
+  });
+
+  it("forbids organizations the user doesn't belong to", async () => {
+    vi.mocked(resolveActiveOrganization).mockResolvedValueOnce(null);
+    const caller = appRouter.createCaller(createContext("user"));
+
+    await expect(caller.pricing.list()).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
@@ -0,0 +1,62 @@
+import type { Express, Request, Response } from "express";
+import { HttpError } from "@shared/_core/errors";
+import { NOT_MEMBER_ERR_MSG, UNAUTHED_ERR_MSG } from "@shared/const";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { getRequestedOrganizationId, resolveActiveOrganization } from "./organizations-db";
+import { generateProposalPdf, proposalRequestSchema } from "./proposal-generator";
+
+/**
+ * Proposal PDF download:
+ *   POST /api/proposals/pdf — breakdown, customer and project in, application/pdf out
+ *
+ * A REST route rather than tRPC so the browser receives the PDF bytes directly.
+ * Requests with a session cookie use the active organization's templates
+ * (X-Organization-Id header, else the user's first organization); anonymous
+ * requests get the built-in template and can't name a saved one.
+ */
+export function registerProposalRoutes(app: Express) {
+  app.post("/api/proposals/pdf", async (req: Request, res: Response) => {
+    const parsed = proposalRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid proposal request", issues: parsed.error.issues });
+      return;
+    }
+
+    let user: User | null = null;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      user = null;
+    }
+    if (!user && parsed.data.templateId !== undefined) {
+      res.status(401).json({ error: UNAUTHED_ERR_MSG });
+      return;
+    }
+
+    try {
+      const organization = user ? await resolveActiveOrganization(user, getRequestedOrganizationId(req)) : null;
+      if (user && !organization) {
+        res.status(403).json({ error: NOT_MEMBER_ERR_MSG });
+        return;
+      }
+      const pdf = await generateProposalPdf(parsed.data, organization?.id);
+      const filename = `${parsed.data.project.name.replace(/[^a-z0-9]+/gi, "-").replace(/^-|-$/g, "") || "proposal"}-proposal.pdf`;
+      res
+        .status(200)
+        .set({
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Content-Length": String(pdf.length),
+        })
+        .send(pdf);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        res.status(error.statusCode).json({ error: error.message });
+        return;
+      }
+      console.error("[Proposal] PDF generation failed", error);
+      res.status(500).json({ error: "Proposal generation failed" });
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import {
+  buildProposal,
+  DEFAULT_PROPOSAL_TEMPLATE,
+  type ProposalTemplateContent,
+} from "@shared/estimating/proposal";
+import { NotFoundError } from "@shared/_core/errors";
+import { getDefaultTemplate, getTemplate } from "./proposals-db";
+import { renderProposalPdf } from "./proposal-pdf";
+
+// ─── Request Schema ─────────────────────────────────────────────────
+// Body of POST /api/proposals/pdf, sent by the breakdown page.
+
+const optionalText = z.string().trim().max(512).optional();
+
+const taxProfitSchema = z.object({
+  taxEnabled: z.boolean(),
+  taxPercent: z.number(),
+  profitEnabled: z.boolean(),
+  profitPercent: z.number(),
+});
+
+const pricedLineSchema = z.object({
+  name: z.string(),
+  unit: z.string(),
+  quantity: z.number(),
+  totalCost: z.number(),
+  enabled: z.boolean(),
+});
+
+const costLineSchema = z.object({
+  label: z.string(),
+  computedCost: z.number(),
+  enabled: z.boolean(),
+});
+
+export const proposalRequestSchema = z.object({
+  /** Template to use; the default template when omitted */
+  templateId: z.number().int().optional(),
+  customer: z.object({
+    name: z.string().trim().min(1, "Customer name is required").max(256),
+    company: optionalText,
+    address: optionalText,
+    phone: optionalText,
+    email: optionalText,
+  }),
+  project: z.object({
+    name: z.string().trim().min(1, "Project name is required").max(256),
+    address: optionalText,
+  }),
+  systemName: z.string(),
+  roofArea: z.number().nonnegative(),
+  estimatorState: z.string(),
+  breakdown: z.object({
+    materials: z.array(pricedLineSchema),
+    penetrations: z.array(pricedLineSchema),
+    labor: z.array(costLineSchema),
+    equipment: z.array(costLineSchema),
+    materialsTaxProfit: taxProfitSchema,
+    penetrationsTaxProfit: taxProfitSchema,
+    laborTaxProfit: taxProfitSchema,
+    equipmentTaxProfit: taxProfitSchema,
+  }),
+  showLineItems: z.boolean().default(false),
+  date: z.string().datetime().optional(),
+});
+
+export type ProposalRequest = z.infer<typeof proposalRequestSchema>;
+
+// ─── Generation ─────────────────────────────────────────────────────
+
+/**
+ * The requested template, else the organization's default one, else the
+ * built-in DEFAULT_PROPOSAL_TEMPLATE when none has been saved (or no
+ * organization or database). Only the organization's own templates are found.
+ */
+async function resolveTemplate(organizationId?: number, templateId?: number): Promise<ProposalTemplateContent> {
+  if (templateId !== undefined) {
+    const template = organizationId === undefined ? null : await getTemplate(organizationId, templateId);
+    if (!template) throw NotFoundError("Proposal template not found");
+    return template;
+  }
+  if (organizationId === undefined) return DEFAULT_PROPOSAL_TEMPLATE;
+  return (await getDefaultTemplate(organizationId)) ?? DEFAULT_PROPOSAL_TEMPLATE;
+}
+
+/** Build and render a proposal PDF with one of the organization's templates */
+export async function generateProposalPdf(request: ProposalRequest, organizationId?: number): Promise<Buffer> {
+  const template = await resolveTemplate(organizationId, request.templateId);
+  return renderProposalPdf(buildProposal(request, template));
+}
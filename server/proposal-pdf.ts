@@ -0,0 +1,258 @@
+import PDFDocument from "pdfkit";
+import type { ProposalDocument, ProposalPriceSection } from "@shared/estimating/proposal";
+
+/**
+ * Proposal PDF rendering — lays a ProposalDocument out on US Letter pages:
+ * letterhead, customer / project block, scope of work, inclusions and
+ * exclusions, price (section totals or full line-item detail) with the
+ * tax / profit rollup, payment terms and the signature block.
+ */
+
+const MARGIN = 54;
+const INK = "#1f2937";
+const MUTED = "#6b7280";
+const RULE = "#d1d5db";
+
+function fmt(amount: number): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    minimumFractionDigits: 2,
+  }).format(amount);
+}
+
+type Doc = PDFKit.PDFDocument;
+
+function contentWidth(doc: Doc) {
+  return doc.page.width - MARGIN * 2;
+}
+
+/** Start a new page when fewer than `height` points remain */
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+}
+
+function rule(doc: Doc, gap = 8) {
+  doc.moveDown(0.3);
+  doc
+    .moveTo(MARGIN, doc.y)
+    .lineTo(MARGIN + contentWidth(doc), doc.y)
+    .lineWidth(0.75)
+    .strokeColor(RULE)
+    .stroke();
+  doc.y += gap;
+}
+
+function heading(doc: Doc, text: string) {
+  ensureSpace(doc, 48);
+  doc.moveDown(0.6);
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(INK).text(text.toUpperCase(), MARGIN, doc.y, { characterSpacing: 0.5 });
+  rule(doc, 6);
+}
+
+function paragraph(doc: Doc, text: string) {
+  doc.font("Helvetica").fontSize(10).fillColor(INK).text(text, MARGIN, doc.y, { width: contentWidth(doc), lineGap: 2 });
+  doc.moveDown(0.5);
+}
+
+function bullets(doc: Doc, lines: string[]) {
+  doc.font("Helvetica").fontSize(10).fillColor(INK);
+  for (const line of lines) {
+    ensureSpace(doc, 14);
+    doc.text(`•  ${line}`, MARGIN + 8, doc.y, { width: contentWidth(doc) - 8, lineGap: 1.5, indent: 0 });
+  }
+  doc.moveDown(0.4);
+}
+
+/** One row with a left description and right-aligned columns */
+function row(
+  doc: Doc,
+  cells: { description: string; quantity?: string; amount: string },
+  opts: { bold?: boolean; muted?: boolean; indent?: number } = {}
+) {
+  const width = contentWidth(doc);
+  const amountWidth = 90;
+  const quantityWidth = 90;
+  const indent = opts.indent ?? 0;
+  const descriptionWidth = width - amountWidth - quantityWidth - indent;
+
+  doc.font(opts.bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor(opts.muted ? MUTED : INK);
+  const height = Math.max(doc.heightOfString(cells.description, { width: descriptionWidth }), 12);
+  ensureSpace(doc, height + 4);
+
+  const y = doc.y;
+  doc.text(cells.description, MARGIN + indent, y, { width: descriptionWidth });
+  if (cells.quantity) {
+    doc.text(cells.quantity, MARGIN + width - amountWidth - quantityWidth, y, { width: quantityWidth, align: "right" });
+  }
+  doc.text(cells.amount, MARGIN + width - amountWidth, y, { width: amountWidth, align: "right" });
+  doc.y = y + height + 4;
+}
+
+function letterhead(doc: Doc, proposal: ProposalDocument) {
+  const { template } = proposal;
+  const width = contentWidth(doc);
+  const top = doc.y;
+
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(INK).text(template.companyName, MARGIN, top, { width: width * 0.6 });
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED);
+  const contact = [
+    template.companyAddress,
+    [template.companyPhone, template.companyEmail].filter(Boolean).join("  |  "),
+    template.companyWebsite,
+    template.licenseNumber ? `License ${template.licenseNumber}` : null,
+  ].filter(Boolean) as string[];
+  for (const line of contact) doc.text(line, MARGIN, doc.y, { width: width * 0.6 });
+  const leftBottom = doc.y;
+
+  doc.font("Helvetica-Bold").fontSize(20).fillColor(INK).text("PROPOSAL", MARGIN, top, { width, align: "right" });
+  doc.font("Helvetica").fontSize(9).fillColor(MUTED);
+  doc.text(`Date: ${proposal.date}`, MARGIN, doc.y + 2, { width, align: "right" });
+  doc.text(`Valid until: ${proposal.validUntil}`, MARGIN, doc.y, { width, align: "right" });
+
+  doc.y = Math.max(leftBottom, doc.y) + 4;
+  rule(doc, 10);
+}
+
+function partiesBlock(doc: Doc, proposal: ProposalDocument) {
+  const width = contentWidth(doc);
+  const column = (width - 24) / 2;
+  const top = doc.y;
+  const { customer, project } = proposal;
+
+  const block = (x: number, title: string, lines: (string | undefined)[]) => {
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(MUTED).text(title.toUpperCase(), x, top, { width: column });
+    doc.font("Helvetica").fontSize(10).fillColor(INK);
+    for (const line of lines.filter(Boolean) as string[]) doc.text(line, x, doc.y, { width: column });
+    return doc.y;
+  };
+
+  const leftBottom = block(MARGIN, "Prepared For", [
+    customer.name,
+    customer.company,
+    customer.address,
+    customer.phone,
+    customer.email,
+  ]);
+  const rightBottom = block(MARGIN + column + 24, "Project", [
+    project.name,
+    project.address,
+    project.systemName,
+    project.roofArea > 0 ? `${new Intl.NumberFormat("en-US").format(Math.round(project.roofArea))} sq ft` : undefined,
+  ]);
+  doc.y = Math.max(leftBottom, rightBottom) + 8;
+}
+
+function priceSectionRows(doc: Doc, section: ProposalPriceSection, showLineItems: boolean) {
+  if (!showLineItems) {
+    row(doc, { description: section.title, amount: fmt(section.subtotal) });
+    return;
+  }
+  row(doc, { description: section.title, amount: "" }, { bold: true });
+  for (const item of section.items) {
+    row(doc, { description: item.description, quantity: item.quantity, amount: fmt(item.amount) }, { indent: 10 });
+  }
+  row(doc, { description: `${section.title} subtotal`, amount: fmt(section.subtotal) }, { muted: true, indent: 10 });
+  doc.y += 4;
+}
+
+function pricing(doc: Doc, proposal: ProposalDocument) {
+  const { pricing, showLineItems } = proposal;
+  heading(doc, "Price");
+
+  for (const section of pricing.sections) priceSectionRows(doc, section, showLineItems);
+  rule(doc, 4);
+
+  row(doc, { description: "Subtotal", amount: fmt(pricing.subtotal) });
+  if (pricing.tax > 0) row(doc, { description: "Sales Tax", amount: fmt(pricing.tax) });
+  if (pricing.profit > 0) row(doc, { description: "Overhead & Profit", amount: fmt(pricing.profit) });
+  doc.y += 2;
+  row(doc, { description: "Total Proposal Price", amount: fmt(pricing.total) }, { bold: true });
+}
+
+function signatureBlock(doc: Doc, proposal: ProposalDocument) {
+  const width = contentWidth(doc);
+  const column = (width - 36) / 2;
+
+  heading(doc, "Acceptance of Proposal");
+  if (proposal.template.acceptanceText) paragraph(doc, proposal.template.acceptanceText);
+  ensureSpace(doc, 110);
+
+  const line = (x: number, y: number, label: string) => {
+    doc.moveTo(x, y).lineTo(x + column, y).lineWidth(0.75).strokeColor(INK).stroke();
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED).text(label, x, y + 3, { width: column });
+  };
+
+  const y = doc.y + 30;
+  line(MARGIN, y, "Customer Signature / Date");
+  line(MARGIN + column + 36, y, `${proposal.template.companyName} / Date`);
+  line(MARGIN, y + 44, "Printed Name / Title");
+  line(MARGIN + column + 36, y + 44, "Authorized Representative");
+  doc.y = y + 64;
+}
+
+function pageNumbers(doc: Doc) {
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Helvetica")
+      .fontSize(8)
+      .fillColor(MUTED)
+      .text(`Page ${i + 1} of ${range.count}`, MARGIN, doc.page.height - MARGIN + 16, {
+        width: contentWidth(doc),
+        align: "center",
+        lineBreak: false,
+      });
+  }
+}
+
+/** Render a proposal to a PDF buffer */
+export function renderProposalPdf(proposal: ProposalDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "LETTER",
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: `Proposal — ${proposal.project.name}`, Author: proposal.template.companyName },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    letterhead(doc, proposal);
+    partiesBlock(doc, proposal);
+    if (proposal.template.introText) paragraph(doc, proposal.template.introText);
+
+    if (proposal.scope.length > 0) {
+      heading(doc, "Scope of Work");
+      for (const section of proposal.scope) {
+        ensureSpace(doc, 30);
+        doc.font("Helvetica-Bold").fontSize(10).fillColor(INK).text(section.heading, MARGIN, doc.y);
+        doc.moveDown(0.2);
+        bullets(doc, section.lines);
+      }
+    }
+    if (proposal.inclusions.length > 0) {
+      heading(doc, "Inclusions");
+      bullets(doc, proposal.inclusions);
+    }
+    if (proposal.exclusions.length > 0) {
+      heading(doc, "Exclusions");
+      bullets(doc, proposal.exclusions);
+    }
+
+    pricing(doc, proposal);
+
+    if (proposal.template.paymentTerms) {
+      heading(doc, "Payment Terms");
+      paragraph(doc, proposal.template.paymentTerms);
+    }
+    signatureBlock(doc, proposal);
+    pageNumbers(doc);
+    doc.end();
+  });
+}
@@ -0,0 +1,98 @@
+/**
+ * Proposal Templates — Database helpers
+ *
+ * CRUD operations for the proposal_templates table. Templates are scoped to
+ * the organization that saved them; at most one per organization is the
+ * default, and marking another as default clears the flag on the rest.
+ */
+import { and, eq, desc, ne } from "drizzle-orm";
+import { getDb } from "./db";
+import { proposalTemplates, type InsertProposalTemplate } from "../drizzle/schema";
+
+type TemplateFields = Omit<InsertProposalTemplate, "id" | "organizationId" | "createdAt" | "updatedAt">;
+
+/** List an organization's proposal templates, default first then by name. */
+export async function listTemplates(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db
+    .select()
+    .from(proposalTemplates)
+    .where(eq(proposalTemplates.organizationId, organizationId))
+    .orderBy(desc(proposalTemplates.isDefault), proposalTemplates.name);
+}
+
+/** Get a single template by ID within an organization. */
+export async function getTemplate(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(proposalTemplates)
+    .where(and(eq(proposalTemplates.organizationId, organizationId), eq(proposalTemplates.id, id)))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+/** The organization's default template, or its most recently updated one when none is marked default. */
+export async function getDefaultTemplate(organizationId: number) {
+  const db = await getDb();
+  if (!db) return null;
+
+  const rows = await db
+    .select()
+    .from(proposalTemplates)
+    .where(eq(proposalTemplates.organizationId, organizationId))
+    .orderBy(desc(proposalTemplates.isDefault), desc(proposalTemplates.updatedAt))
+    .limit(1);
+
+  return rows[0] ?? null;
+}
+
+async function clearOtherDefaults(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(proposalTemplates)
+    .set({ isDefault: false })
+    .where(and(eq(proposalTemplates.organizationId, organizationId), ne(proposalTemplates.id, id)));
+}
+
+/** Create a template in an organization. Returns the inserted ID. */
+export async function createTemplate(organizationId: number, input: TemplateFields) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.insert(proposalTemplates).values({ ...input, organizationId });
+  const id = Number(result[0].insertId);
+  if (input.isDefault) await clearOtherDefaults(organizationId, id);
+  return { id };
+}
+
+/** Update a template's fields. */
+export async function updateTemplate(organizationId: number, id: number, updates: Partial<TemplateFields>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .update(proposalTemplates)
+    .set(updates)
+    .where(and(eq(proposalTemplates.organizationId, organizationId), eq(proposalTemplates.id, id)));
+  if (updates.isDefault) await clearOtherDefaults(organizationId, id);
+  return { success: true };
+}
+
+/** Delete a template by ID within an organization. */
+export async function deleteTemplate(organizationId: number, id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db
+    .delete(proposalTemplates)
+    .where(and(eq(proposalTemplates.organizationId, organizationId), eq(proposalTemplates.id, id)));
+  return { success: true };
+}
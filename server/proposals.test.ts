@@ -0,0 +1,200 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEFAULT_PROPOSAL_TEMPLATE } from "@shared/estimating/proposal";
+import { serializeKarnakState } from "@shared/estimating/estimate-state-serializers";
+
+const savedTemplate = {
+  ...DEFAULT_PROPOSAL_TEMPLATE,
+  id: 3,
+  name: "Commercial",
+  companyName: "Summit Roofing Co.",
+  isDefault: true,
+  createdBy: "alice",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+// Mock the proposals-db module — the saved template belongs to organization 7
+vi.mock("./proposals-db", () => ({
+  listTemplates: vi.fn().mockImplementation(async (organizationId: number) =>
+    organizationId === 7 ? [savedTemplate] : [],
+  ),
+  getTemplate: vi.fn().mockImplementation(async (organizationId: number, id: number) =>
+    organizationId === 7 && id === savedTemplate.id ? savedTemplate : null,
+  ),
+  getDefaultTemplate: vi.fn().mockResolvedValue(null),
+  createTemplate: vi.fn().mockResolvedValue({ id: 4 }),
+  updateTemplate: vi.fn().mockResolvedValue({ success: true }),
+  deleteTemplate: vi.fn().mockResolvedValue({ success: true }),
+}));
+
+// Mock the organizations-db module — requests work in organization 7 unless they ask for 8;
+// user-42 owns both, everyone else is a member
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockImplementation((req: { headers: Record<string, string> }) =>
+    req.headers["x-organization-id"] ? Number(req.headers["x-organization-id"]) : undefined,
+  ),
+  resolveActiveOrganization: vi.fn().mockImplementation(async (user: { openId: string }, requestedId?: number) => ({
+    id: requestedId ?? 7,
+    name: requestedId === 8 ? "Other Roofing" : "North Branch",
+    role: user.openId === "user-42" ? "owner" : "member",
+  })),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { createTemplate, deleteTemplate, updateTemplate } from "./proposals-db";
+import { generateProposalPdf, proposalRequestSchema } from "./proposal-generator";
+import type { TrpcContext } from "./_core/context";
+
+function createContext(organizationId?: number, openId = "user-42"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId,
+      email: "estimator@example.com",
+      name: "Estimator",
+      loginMethod: "manus",
+      role: "user",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: organizationId ? { "x-organization-id": String(organizationId) } : {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+const taxProfit = { taxEnabled: true, taxPercent: 8, profitEnabled: true, profitPercent: 20 };
+
+const request = proposalRequestSchema.parse({
+  customer: { name: "Jordan Lee", company: "Lee Logistics" },
+  project: { name: "Warehouse Reroof", address: "12 Dock St" },
+  systemName: "Karnak Metal Kynar",
+  roofArea: 5000,
+  estimatorState: serializeKarnakState({
+    squareFootage: "5000",
+    verticalSeamsLF: "200",
+    horizontalSeamsLF: "150",
+    customPrices: {},
+    laborEquipment: { laborItems: [], equipmentItems: [] },
+  }),
+  breakdown: {
+    materials: [{ name: "Karnak 501 Elasto-Brush", unit: "pail", quantity: 12, totalCost: 2400, enabled: true }],
+    penetrations: [],
+    labor: [{ label: "Crew", computedCost: 6000, enabled: true }],
+    equipment: [],
+    materialsTaxProfit: taxProfit,
+    penetrationsTaxProfit: taxProfit,
+    laborTaxProfit: taxProfit,
+    equipmentTaxProfit: taxProfit,
+  },
+  showLineItems: true,
+});
+
+describe("proposals router", () => {
+  it("lists saved templates", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.proposals.templates();
+
+    expect(result.map((t) => t.name)).toEqual(["Commercial"]);
+  });
+
+  it("records who created a template", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.proposals.createTemplate({ name: "Residential", companyName: "Summit Roofing Co." });
+
+    expect(createTemplate).toHaveBeenCalledWith(7, {
+      name: "Residential",
+      companyName: "Summit Roofing Co.",
+      createdBy: "user-42",
+    });
+  });
+
+  it("keeps templates within their organization", async () => {
+    vi.mocked(updateTemplate).mockClear();
+    vi.mocked(deleteTemplate).mockClear();
+    const caller = appRouter.createCaller(createContext(8));
+
+    expect(await caller.proposals.templates()).toEqual([]);
+    await expect(caller.proposals.getTemplate({ id: savedTemplate.id })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Proposal template not found",
+    });
+    await expect(caller.proposals.updateTemplate({ id: savedTemplate.id, name: "Mine now" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Proposal template not found",
+    });
+    await expect(caller.proposals.deleteTemplate({ id: savedTemplate.id })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Proposal template not found",
+    });
+    expect(updateTemplate).not.toHaveBeenCalled();
+    expect(deleteTemplate).not.toHaveBeenCalled();
+  });
+
+  it("lets only organization owners change templates", async () => {
+    vi.mocked(createTemplate).mockClear();
+    vi.mocked(updateTemplate).mockClear();
+    vi.mocked(deleteTemplate).mockClear();
+    const caller = appRouter.createCaller(createContext(undefined, "crew-7"));
+
+    expect(await caller.proposals.templates()).toHaveLength(1);
+    await expect(
+      caller.proposals.createTemplate({ name: "Residential", companyName: "Summit Roofing Co." }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.proposals.updateTemplate({ id: savedTemplate.id, name: "Mine now" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+    });
+    await expect(caller.proposals.deleteTemplate({ id: savedTemplate.id })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(createTemplate).not.toHaveBeenCalled();
+    expect(updateTemplate).not.toHaveBeenCalled();
+    expect(deleteTemplate).not.toHaveBeenCalled();
+  });
+
+  it("rejects a template without a company name", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await expect(caller.proposals.createTemplate({ name: "Blank", companyName: "" })).rejects.toThrow();
+  });
+});
+
+describe("generateProposalPdf", () => {
+  it("renders a PDF with the built-in template when none is saved", async () => {
+    const pdf = await generateProposalPdf(request);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+
+  it("renders with a chosen template", async () => {
+    const pdf = await generateProposalPdf({ ...request, templateId: savedTemplate.id }, 7);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+  });
+
+  it("rejects an unknown template", async () => {
+    await expect(generateProposalPdf({ ...request, templateId: 99 }, 7)).rejects.toThrow("Proposal template not found");
+    await expect(generateProposalPdf({ ...request, templateId: savedTemplate.id }, 8)).rejects.toThrow(
+      "Proposal template not found",
+    );
+  });
+
+  it("uses only the built-in template without an organization", async () => {
+    const pdf = await generateProposalPdf(request);
+
+    expect(pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    await expect(generateProposalPdf({ ...request, templateId: savedTemplate.id })).rejects.toThrow(
+      "Proposal template not found",
+    );
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from "vitest";
+import { serializeTPOState } from "@shared/estimating/estimate-state-serializers";
+import { getDefaultAssembly } from "@shared/estimating/project-estimate";
+import { getDefaultSheetMetalState } from "@shared/estimating/sheet-metal-flashing-data";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "@shared/estimating/tpo-labor-equipment-data";
+
+const warehouseData = serializeTPOState("carlisle-tpo", {
+  measurements: { totalRoofArea: "", baseFlashing: "" },
+  customPrices: {},
+  laborEquipment: {
+    laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+    equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+  },
+  sections: [
+    {
+      name: "Main Roof",
+      assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+      measurements: { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+    },
+  ],
+  penetrationsState: { lineItems: {}, sheetMetal: getDefaultSheetMetalState() },
+});
+
+const estimates = [
+  { id: 1, organizationId: 7, name: "Warehouse", system: "carlisle-tpo", data: warehouseData, createdBy: "user-1" },
+  { id: 2, organizationId: 7, name: "Office", system: "carlisle-tpo", data: warehouseData, createdBy: "user-2" },
+];
+
+const quoteItems = [
+  {
+    id: 21,
+    productId: "carlisle-tpo-membrane-60",
+    name: "60 mil TPO",
+    unit: "roll",
+    quantity: "10.00",
+    prices: [
+      { distributorId: 3, unitPrice: "410.00" },
+      { distributorId: 4, unitPrice: "395.00" },
+    ],
+  },
+  {
+    id: 22,
+    productId: "carlisle-tpo-cover-board",
+    name: "Cover Board",
+    unit: "board",
+    quantity: "300.00",
+    prices: [
+      { distributorId: 3, unitPrice: "17.50" },
+      { distributorId: 4, unitPrice: "18.25" },
+    ],
+  },
+  { id: 23, productId: "carlisle-tpo-primer", name: "Primer", unit: "pail", quantity: "2.00", prices: [] },
+];
+
+// Mock the pricing-db module
+vi.mock("./pricing-db", () => ({
+  getAllPricing: vi.fn().mockResolvedValue([]),
+  getPricingBySystem: vi.fn().mockResolvedValue([
+    { productId: "carlisle-tpo-membrane-60", name: "60 mil TPO", unit: "roll", unitPrice: "400.00" },
+  ]),
+  bulkUpdatePrices: vi
+    .fn()
+    .mockImplementation(async (_org: number, updates: Array<{ productId: string }>) =>
+      updates.map((u) => ({ productId: u.productId, success: true })),
+    ),
+  createQuoteRequest: vi.fn().mockResolvedValue(11),
+  getQuoteRequest: vi
+    .fn()
+    .mockImplementation(async (organizationId: number, id: number) =>
+      organizationId === 7 && id === 11 ? { id: 11, organizationId: 7, name: "Warehouse Reroof" } : null,
+    ),
+  getQuoteItems: vi.fn().mockImplementation(async () => quoteItems),
+  recordQuoteResponse: vi.fn().mockResolvedValue({ recorded: 2, unmatched: ["carlisle-tpo-unknown"] }),
+  updateQuoteStatus: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock the distributors-db module
+vi.mock("./distributors-db", () => ({
+  getDistributor: vi
+    .fn()
+    .mockImplementation(async (organizationId: number, id: number) =>
+      organizationId === 7 && (id === 3 || id === 4) ? { id, name: id === 3 ? "ABC Supply" : "SRS", branch: null } : null,
+    ),
+  listDistributors: vi.fn().mockResolvedValue([
+    { id: 3, name: "ABC Supply" },
+    { id: 4, name: "SRS" },
+  ]),
+}));
+
+// Mock the estimates-db module
+vi.mock("./estimates-db", () => ({
+  getEstimate: vi
+    .fn()
+    .mockImplementation(
+      async (organizationId: number, id: number) =>
+        estimates.find((e) => e.organizationId === organizationId && e.id === id) ?? null,
+    ),
+}));
+
+// Mock the organizations-db module — every request works in organization 7
+vi.mock("./organizations-db", () => ({
+  getRequestedOrganizationId: vi.fn().mockReturnValue(undefined),
+  resolveActiveOrganization: vi.fn().mockResolvedValue({ id: 7, name: "North Branch", role: "member" }),
+}));
+
+// Mock the db module
+vi.mock("./db", () => ({
+  getDb: vi.fn().mockResolvedValue({}),
+  getUserByOpenId: vi.fn(),
+  upsertUser: vi.fn(),
+}));
+
+import { appRouter } from "./routers";
+import { bulkUpdatePrices, createQuoteRequest, recordQuoteResponse, updateQuoteStatus } from "./pricing-db";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(role: AuthenticatedUser["role"] = "user"): TrpcContext {
+  return {
+    user: {
+      id: 1,
+      openId: "user-1",
+      email: "estimator@example.com",
+      name: "Estimator",
+      loginMethod: "manus",
+      role,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastSignedIn: new Date(),
+    },
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("quote line items", () => {
+  it("requests unit prices on the system's price book", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.pricing.createQuote({ name: "Spring TPO", system: "carlisle-tpo" });
+
+    expect(createQuoteRequest).toHaveBeenLastCalledWith(expect.objectContaining({ organizationId: 7 }), [
+      { productId: "carlisle-tpo-membrane-60", name: "60 mil TPO", unit: "roll", quantity: null },
+    ]);
+  });
+
+  it("requests a saved estimate's order list with quantities", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await caller.pricing.createQuote({ name: "Warehouse Reroof", system: "carlisle-tpo", estimateId: 1 });
+
+    const [quote, items] = vi.mocked(createQuoteRequest).mock.lastCall!;
+    expect(quote).toMatchObject({ estimateId: 1, productCount: items!.length });
+    expect(items!.length).toBeGreaterThan(0);
+    for (const item of items!) {
+      expect(item.productId.startsWith("carlisle-tpo-")).toBe(true);
+      expect(Number(item.quantity)).toBeGreaterThan(0);
+    }
+  });
+
+  it("won't quote from someone else's estimate", async () => {
+    const caller = appRouter.createCaller(createContext());
+    await expect(
+      caller.pricing.createQuote({ name: "Office", system: "carlisle-tpo", estimateId: 2 }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("records a distributor's response on the quote and their price list", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const prices = [
+      { productId: "carlisle-tpo-membrane-60", unitPrice: "410.00" },
+      { productId: "carlisle-tpo-unknown", unitPrice: "5.00" },
+    ];
+    const result = await caller.pricing.recordQuoteResponse({
+      quoteId: 11,
+      distributorId: 3,
+      prices,
+      source: "ABC Supply Quote",
+    });
+
+    expect(result).toEqual({ recorded: 2, unmatched: ["carlisle-tpo-unknown"] });
+    expect(recordQuoteResponse).toHaveBeenCalledWith(7, 11, 3, prices, "ABC Supply Quote");
+  });
+
+  it("rejects response prices that aren't non-negative decimals", async () => {
+    vi.mocked(recordQuoteResponse).mockClear();
+    const caller = appRouter.createCaller(createContext("admin"));
+
+    for (const unitPrice of ["", "abc", "-5.00", "12.5.0"]) {
+      await expect(
+        caller.pricing.recordQuoteResponse({
+          quoteId: 11,
+          distributorId: 3,
+          prices: [{ productId: "carlisle-tpo-membrane-60", unitPrice }],
+        }),
+      ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    }
+    expect(recordQuoteResponse).not.toHaveBeenCalled();
+  });
+
+  it("rejects responses for unknown quotes or distributors", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const prices = [{ productId: "carlisle-tpo-membrane-60", unitPrice: "410.00" }];
+
+    await expect(caller.pricing.recordQuoteResponse({ quoteId: 12, distributorId: 3, prices })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Quote request not found",
+    });
+    await expect(caller.pricing.recordQuoteResponse({ quoteId: 11, distributorId: 5, prices })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "Distributor not found",
+    });
+  });
+
+  it("applies the low prices, or the selected distributor's, to the price book", async () => {
+    const caller = appRouter.createCaller(createContext("admin"));
+    const result = await caller.pricing.applyLeveling({
+      quoteId: 11,
+      selections: [{ productId: "carlisle-tpo-cover-board", distributorId: 4 }],
+    });
+
+    expect(result).toMatchObject({ total: 2, succeeded: 2 });
+    expect(bulkUpdatePrices).toHaveBeenCalledWith(
+      7,
+      [
+        { productId: "carlisle-tpo-membrane-60", newPrice: "395.00", source: "SRS quote — Warehouse Reroof" },
+        { productId: "carlisle-tpo-cover-board", newPrice: "18.25", source: "SRS quote — Warehouse Reroof" },
+      ],
+      "user-1",
+    );
+    expect(updateQuoteStatus).toHaveBeenLastCalledWith(7, 11, "applied");
+  });
+
+  it("restricts responses and leveling to admins", async () => {
+    const caller = appRouter.createCaller(createContext());
+
+    await expect(caller.pricing.applyLeveling({ quoteId: 11 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(
+      caller.pricing.recordQuoteResponse({ quoteId: 11, distributorId: 3, prices: [] }),
+    ).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
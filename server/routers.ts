@@ -4,6 +4,10 @@ import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, router } from "./_core/trpc";
 import { pricingRouter } from "./routers/pricing";
 import { estimatesRouter } from "./routers/estimates";
+import { calculateRouter } from "./routers/calculate";
+import { proposalsRouter } from "./routers/proposals";
+import { organizationsRouter } from "./routers/organizations";
+import { distributorsRouter } from "./routers/distributors";
 
 export const appRouter = router({
   system: systemRouter,
@@ -20,6 +24,10 @@ export const appRouter = router({
 
   pricing: pricingRouter,
   estimates: estimatesRouter,
+  calculate: calculateRouter,
+  proposals: proposalsRouter,
+  organizations: organizationsRouter,
+  distributors: distributorsRouter,
 });
 
 export type AppRouter = typeof appRouter;
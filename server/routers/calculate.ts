@@ -0,0 +1,39 @@
+import { TRPCError } from "@trpc/server";
+import { NOT_MEMBER_ERR_MSG } from "@shared/const";
+import { HttpError } from "@shared/_core/errors";
+import { publicProcedure, router } from "../_core/trpc";
+import { getEstimateSystems } from "@shared/estimating/project-estimate";
+import { calculateEstimateWithDBPricing, estimateRequestSchema } from "../estimate-calculator";
+import { getRequestedOrganizationId, resolveActiveOrganization } from "../organizations-db";
+
+/** Rethrow the calculator's HTTP errors (bad request, unknown distributor) with their tRPC codes */
+function toTRPCError(error: unknown): never {
+  if (error instanceof HttpError && (error.statusCode === 400 || error.statusCode === 404)) {
+    throw new TRPCError({ code: error.statusCode === 400 ? "BAD_REQUEST" : "NOT_FOUND", message: error.message });
+  }
+  throw error;
+}
+
+export const calculateRouter = router({
+  /** Systems the calculator accepts, with their pricing DB prefixes */
+  systems: publicProcedure.query(() => getEstimateSystems()),
+
+  /**
+   * Full estimate — material line items, penetrations, sheet metal, labor,
+   * equipment and totals — priced from the active organization's price book
+   * (catalog defaults when signed out). A mutation so large multi-section
+   * inputs travel in the request body.
+   */
+  estimate: publicProcedure
+    .input(estimateRequestSchema)
+    .mutation(async ({ input, ctx }) => {
+      if (!ctx.user) {
+        return calculateEstimateWithDBPricing(input).catch(toTRPCError);
+      }
+      const organization = await resolveActiveOrganization(ctx.user, getRequestedOrganizationId(ctx.req));
+      if (!organization) {
+        throw new TRPCError({ code: "FORBIDDEN", message: NOT_MEMBER_ERR_MSG });
+      }
+      return calculateEstimateWithDBPricing(input, organization.id).catch(toTRPCError);
+    }),
+});
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { organizationAdminProcedure, organizationProcedure, router } from "../_core/trpc";
+import {
+  listDistributors,
+  getDistributor,
+  createDistributor,
+  updateDistributor,
+  deleteDistributor,
+  getDistributorPrices,
+  setDistributorPrices,
+  removeDistributorPrice,
+} from "../distributors-db";
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional();
+
+const distributorInput = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256),
+  branch: optionalText(256),
+  accountNumber: optionalText(128),
+  paymentTerms: optionalText(128),
+  contactName: optionalText(256),
+  contactEmail: optionalText(320),
+  contactPhone: optionalText(64),
+  notes: z.string().nullable().optional(),
+});
+
+/** Throws when the distributor isn't in the organization's directory */
+async function requireDistributor(organizationId: number, id: number) {
+  const distributor = await getDistributor(organizationId, id);
+  if (!distributor) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Distributor not found" });
+  }
+  return distributor;
+}
+
+export const distributorsRouter = router({
+  /** The organization's distributor directory */
+  list: organizationProcedure.query(async ({ ctx }) => {
+    return listDistributors(ctx.organization.id);
+  }),
+
+  /** Load a single distributor by ID */
+  get: organizationProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      return requireDistributor(ctx.organization.id, input.id);
+    }),
+
+  /** Add a distributor (admin only) */
+  create: organizationAdminProcedure
+    .input(distributorInput)
+    .mutation(async ({ input, ctx }) => {
+      return createDistributor(ctx.organization.id, input);
+    }),
+
+  /** Update a distributor's details (admin only) */
+  update: organizationAdminProcedure
+    .input(distributorInput.partial().extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, ...updates } = input;
+      await requireDistributor(ctx.organization.id, id);
+      return updateDistributor(ctx.organization.id, id, updates);
+    }),
+
+  /** Delete a distributor and its price list (admin only) */
+  delete: organizationAdminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireDistributor(ctx.organization.id, input.id);
+      return deleteDistributor(ctx.organization.id, input.id);
+    }),
+
+  /** Distributor prices — one distributor's list, or every distributor's for side-by-side comparison */
+  prices: organizationProcedure
+    .input(z.object({ distributorId: z.number().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      return getDistributorPrices(ctx.organization.id, input?.distributorId);
+    }),
+
+  /** Set prices on a distributor's list, e.g. from a returned quote CSV (admin only) */
+  setPrices: organizationAdminProcedure
+    .input(
+      z.object({
+        distributorId: z.number(),
+        prices: z.array(
+          z.object({
+            productId: z.string(),
+            unitPrice: z.string(),
+          }),
+        ),
+        source: z.string().default("Manual Edit"),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await requireDistributor(ctx.organization.id, input.distributorId);
+      const updated = await setDistributorPrices(ctx.organization.id, input.distributorId, input.prices, input.source);
+      return { updated };
+    }),
+
+  /** Remove a product from a distributor's list so it uses the default price (admin only) */
+  removePrice: organizationAdminProcedure
+    .input(z.object({ distributorId: z.number(), productId: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireDistributor(ctx.organization.id, input.distributorId);
+      return removeDistributorPrice(ctx.organization.id, input.distributorId, input.productId);
+    }),
+});
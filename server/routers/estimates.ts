@@ -1,16 +1,39 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { NOT_OWNER_ERR_MSG } from "@shared/const";
+import { diffEstimates } from "@shared/estimating/estimate-diff";
+import { organizationProcedure, router } from "../_core/trpc";
+import type { User } from "../../drizzle/schema";
 import {
   listEstimates,
   getEstimate,
   createEstimate,
   updateEstimate,
   deleteEstimate,
+  listRevisions,
+  getRevision,
+  restoreRevision,
 } from "../estimates-db";
 
+/**
+ * Load an estimate in the active organization that the user may read or
+ * change — their own, or any estimate for admins. Throws NOT_FOUND for a
+ * missing estimate and FORBIDDEN for someone else's.
+ */
+export async function getOwnedEstimate(organizationId: number, id: number, user: User) {
+  const estimate = await getEstimate(organizationId, id);
+  if (!estimate) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Estimate not found" });
+  }
+  if (estimate.createdBy !== user.openId && user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: NOT_OWNER_ERR_MSG });
+  }
+  return estimate;
+}
+
 export const estimatesRouter = router({
-  /** List all saved estimates (summary only, no full data blob). */
-  list: publicProcedure
+  /** List the user's saved estimates in the active organization (all of them for admins; summary only). */
+  list: organizationProcedure
     .input(
       z
         .object({
@@ -19,23 +42,22 @@ export const estimatesRouter = router({
         })
         .optional(),
     )
-    .query(async ({ input }) => {
-      return listEstimates(input ?? undefined);
+    .query(async ({ input, ctx }) => {
+      return listEstimates(ctx.organization.id, {
+        ...input,
+        createdBy: ctx.user.role === "admin" ? undefined : ctx.user.openId,
+      });
     }),
 
   /** Load a single saved estimate by ID (includes full data JSON). */
-  get: publicProcedure
+  get: organizationProcedure
     .input(z.object({ id: z.number() }))
-    .query(async ({ input }) => {
-      const estimate = await getEstimate(input.id);
-      if (!estimate) {
-        throw new Error("Estimate not found");
-      }
-      return estimate;
+    .query(async ({ input, ctx }) => {
+      return getOwnedEstimate(ctx.organization.id, input.id, ctx.user);
     }),
 
   /** Save a new estimate. */
-  save: publicProcedure
+  save: organizationProcedure
     .input(
       z.object({
         name: z.string().min(1, "Name is required"),
@@ -50,6 +72,7 @@ export const estimatesRouter = router({
     )
     .mutation(async ({ input, ctx }) => {
       const result = await createEstimate({
+        organizationId: ctx.organization.id,
         name: input.name,
         system: input.system,
         systemLabel: input.systemLabel,
@@ -58,13 +81,13 @@ export const estimatesRouter = router({
         grandTotal: input.grandTotal ?? null,
         roofArea: input.roofArea ?? null,
         breakdownState: input.breakdownState ?? null,
-        createdBy: ctx.user?.openId || "anonymous",
+        createdBy: ctx.user.openId,
       });
       return result;
     }),
 
   /** Update an existing saved estimate (overwrite / re-save). */
-  update: publicProcedure
+  update: organizationProcedure
     .input(
       z.object({
         id: z.number(),
@@ -76,27 +99,79 @@ export const estimatesRouter = router({
         breakdownState: z.string().optional(), // JSON string of breakdown edits
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ input, ctx }) => {
       const { id, ...updates } = input;
-      return updateEstimate(id, updates);
+      await getOwnedEstimate(ctx.organization.id, id, ctx.user);
+      return updateEstimate(ctx.organization.id, id, updates, ctx.user.openId);
     }),
 
   /** Rename a saved estimate. */
-  rename: publicProcedure
+  rename: organizationProcedure
     .input(
       z.object({
         id: z.number(),
         name: z.string().min(1, "Name is required"),
       }),
     )
-    .mutation(async ({ input }) => {
-      return updateEstimate(input.id, { name: input.name });
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEstimate(ctx.organization.id, input.id, ctx.user);
+      return updateEstimate(ctx.organization.id, input.id, { name: input.name });
+    }),
+
+  /** Set a saved estimate's bid status (draft and sent estimates are open). */
+  setStatus: organizationProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        status: z.enum(["draft", "sent", "won", "lost"]),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEstimate(ctx.organization.id, input.id, ctx.user);
+      return updateEstimate(ctx.organization.id, input.id, { status: input.status });
     }),
 
   /** Delete a saved estimate. */
-  delete: publicProcedure
+  delete: organizationProcedure
     .input(z.object({ id: z.number() }))
-    .mutation(async ({ input }) => {
-      return deleteEstimate(input.id);
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEstimate(ctx.organization.id, input.id, ctx.user);
+      return deleteEstimate(ctx.organization.id, input.id);
+    }),
+
+  /** List a saved estimate's revisions, newest first (summary only). */
+  revisions: organizationProcedure
+    .input(z.object({ estimateId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      await getOwnedEstimate(ctx.organization.id, input.estimateId, ctx.user);
+      return listRevisions(input.estimateId);
+    }),
+
+  /** Restore a revision onto its estimate (recorded as a new revision). */
+  restoreRevision: organizationProcedure
+    .input(z.object({ estimateId: z.number(), revisionId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await getOwnedEstimate(ctx.organization.id, input.estimateId, ctx.user);
+      const revision = await getRevision(input.revisionId);
+      if (!revision || revision.estimateId !== input.estimateId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+      }
+      return restoreRevision(ctx.organization.id, input.estimateId, input.revisionId, ctx.user.openId);
+    }),
+
+  /** Measurement, assembly, line item and total changes between two revisions. */
+  diffRevisions: organizationProcedure
+    .input(z.object({ fromId: z.number(), toId: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const [from, to] = await Promise.all([getRevision(input.fromId), getRevision(input.toId)]);
+      if (!from || !to || from.estimateId !== to.estimateId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Revision not found" });
+      }
+      await getOwnedEstimate(ctx.organization.id, from.estimateId, ctx.user);
+      return {
+        from: { id: from.id, revision: from.revision, createdBy: from.createdBy, createdAt: from.createdAt },
+        to: { id: to.id, revision: to.revision, createdBy: to.createdBy, createdAt: to.createdAt },
+        ...diffEstimates(from, to),
+      };
     }),
 });
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { organizationOwnerProcedure, organizationProcedure, protectedProcedure, router } from "../_core/trpc";
+import {
+  listUserOrganizations,
+  createOrganization,
+  renameOrganization,
+  getRequestedOrganizationId,
+  resolveActiveOrganization,
+  listMembers,
+  addMember,
+  removeMember,
+} from "../organizations-db";
+import { copyPricing } from "../pricing-db";
+
+export const organizationsRouter = router({
+  /**
+   * The user's organizations and the active one. Falls back to the default
+   * organization when the switcher asks for one the user has left.
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const active =
+      (await resolveActiveOrganization(ctx.user, getRequestedOrganizationId(ctx.req))) ??
+      (await resolveActiveOrganization(ctx.user));
+    return {
+      organizations: await listUserOrganizations(ctx.user.id),
+      activeId: active?.id ?? null,
+    };
+  }),
+
+  /** Create an organization owned by the user, optionally starting from a copy of the active price book. */
+  create: organizationProcedure
+    .input(
+      z.object({
+        name: z.string().trim().min(1, "Name is required").max(256),
+        copyPricing: z.boolean().default(true),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const { id } = await createOrganization(input.name, ctx.user);
+      const pricesCopied = input.copyPricing ? await copyPricing(ctx.organization.id, id) : 0;
+      return { id, pricesCopied };
+    }),
+
+  /** Rename the active organization. */
+  rename: organizationOwnerProcedure
+    .input(z.object({ name: z.string().trim().min(1, "Name is required").max(256) }))
+    .mutation(async ({ input, ctx }) => {
+      return renameOrganization(ctx.organization.id, input.name);
+    }),
+
+  /** Members of the active organization. */
+  members: organizationProcedure.query(async ({ ctx }) => {
+    return listMembers(ctx.organization.id);
+  }),
+
+  /** Add a user to the active organization (or change their role). */
+  addMember: organizationOwnerProcedure
+    .input(
+      z.object({
+        email: z.string().trim().email(),
+        role: z.enum(["owner", "member"]).default("member"),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      return addMember(ctx.organization.id, input.email, input.role);
+    }),
+
+  /** Remove a user from the active organization. Every organization keeps at least one owner. */
+  removeMember: organizationOwnerProcedure
+    .input(z.object({ userId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const members = await listMembers(ctx.organization.id);
+      const member = members.find((m) => m.userId === input.userId);
+      if (!member) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+      }
+      if (member.role === "owner" && members.filter((m) => m.role === "owner").length === 1) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "An organization needs at least one owner" });
+      }
+      return removeMember(ctx.organization.id, input.userId);
+    }),
+});
@@ -1,5 +1,8 @@
 import { z } from "zod";
-import { publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { getEstimateOrderList, levelQuote } from "@shared/estimating/quote-leveling";
+import { describePriceAdjustment, planPriceAdjustment } from "@shared/estimating/price-adjustment";
+import { organizationAdminProcedure, organizationProcedure, router } from "../_core/trpc";
 import {
   getAllPricing,
   getPricingBySystem,
@@ -10,41 +13,85 @@ import {
   seedDefaultPricing,
   getPriceHistory,
   createQuoteRequest,
+  getQuoteRequest,
   getQuoteRequests,
+  getQuoteItems,
+  recordQuoteResponse,
   updateQuoteStatus,
+  applyDuePriceChanges,
+  getPricingAsOf,
+  getScheduledPrices,
+  schedulePrices,
+  cancelScheduledPrice,
+  bulkAdjustPrices,
+  getPriceBatch,
+  getPriceBatches,
+  undoPriceBatch,
 } from "../pricing-db";
+import { getDistributor, getDistributorPrices, listDistributors } from "../distributors-db";
+import { buildImportPreview, parsePriceFile, suggestColumnMapping } from "../price-import";
+import { getPriceChangeImpact } from "../estimate-calculator";
+import { getOwnedEstimate } from "./estimates";
+
+const columnIndex = z.number().int().min(0).optional();
+
+/** A unit price as a non-negative decimal string ("412.50") */
+const priceAmount = z.string().trim().regex(/^\d+(\.\d+)?$/, "Enter a price of 0 or more");
+
+async function requireQuote(organizationId: number, id: number) {
+  const quote = await getQuoteRequest(organizationId, id);
+  if (!quote) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Quote request not found" });
+  }
+  return quote;
+}
+
+async function requireDistributor(organizationId: number, id: number) {
+  const distributor = await getDistributor(organizationId, id);
+  if (!distributor) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Distributor not found" });
+  }
+  return distributor;
+}
 
 export const pricingRouter = router({
-  /** Get all product pricing, optionally filtered by system */
-  list: publicProcedure
+  /**
+   * Get all product pricing, optionally filtered by system. With `asOf`
+   * (e.g. a job's start date) prices include scheduled changes in effect then.
+   */
+  list: organizationProcedure
     .input(
       z
         .object({
           system: z.string().optional(),
+          asOf: z.date().optional(),
         })
         .optional(),
     )
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
+      if (input?.asOf) {
+        return getPricingAsOf(ctx.organization.id, input.asOf, input.system);
+      }
       if (input?.system) {
-        return getPricingBySystem(input.system);
+        return getPricingBySystem(ctx.organization.id, input.system);
       }
-      return getAllPricing();
+      return getAllPricing(ctx.organization.id);
     }),
 
   /** Search pricing by name, productId, manufacturer, or category */
-  search: publicProcedure
+  search: organizationProcedure
     .input(
       z.object({
         query: z.string(),
         system: z.string().optional(),
       }),
     )
-    .query(async ({ input }) => {
-      return searchPricing(input.query, input.system);
+    .query(async ({ input, ctx }) => {
+      return searchPricing(ctx.organization.id, input.query, input.system);
     }),
 
-  /** Update a single product's price */
-  updatePrice: publicProcedure
+  /** Update a single product's price (admin only) */
+  updatePrice: organizationAdminProcedure
     .input(
       z.object({
         productId: z.string(),
@@ -53,13 +100,13 @@ export const pricingRouter = router({
       }),
     )
     .mutation(async ({ input, ctx }) => {
-      const changedBy = ctx.user?.openId || "anonymous";
-      await updateProductPrice(input.productId, input.newPrice, input.source, changedBy);
+      const changedBy = ctx.user.openId;
+      await updateProductPrice(ctx.organization.id, input.productId, input.newPrice, input.source, changedBy);
       return { success: true };
     }),
 
-  /** Bulk update prices (used for CSV import) */
-  bulkUpdate: publicProcedure
+  /** Bulk update prices (used for CSV import; admin only) */
+  bulkUpdate: organizationAdminProcedure
     .input(
       z.object({
         updates: z.array(
@@ -72,26 +119,225 @@ export const pricingRouter = router({
       }),
     )
     .mutation(async ({ input, ctx }) => {
-      const changedBy = ctx.user?.openId || "anonymous";
-      const results = await bulkUpdatePrices(input.updates, changedBy);
+      const changedBy = ctx.user.openId;
+      const results = await bulkUpdatePrices(ctx.organization.id, input.updates, changedBy);
       return {
         total: results.length,
         succeeded: results.filter((r) => r.success).length,
         failed: results.filter((r) => !r.success),
+        productIds: results.filter((r) => r.success).map((r) => r.productId),
       };
     }),
 
-  /** Reset a product's price to its default */
-  resetToDefault: publicProcedure
+  /**
+   * What changed prices do to open (draft or sent) estimates: each affected
+   * estimate's old and new total and the products driving the change. Run
+   * after a bulk update with the productIds it changed. Admins see every
+   * estimate in the organization, others their own.
+   */
+  impactReport: organizationProcedure
+    .input(z.object({ productIds: z.array(z.string()).min(1) }))
+    .query(async ({ input, ctx }) => {
+      return getPriceChangeImpact(
+        ctx.organization.id,
+        input.productIds,
+        ctx.user.role === "admin" ? undefined : ctx.user.openId,
+      );
+    }),
+
+  /**
+   * Adjust every price matching a system / manufacturer / category filter by
+   * a percentage or fixed amount, rounded to an increment (admin only). With
+   * `dryRun` nothing is saved and the rows preview the change; otherwise the
+   * products not excluded are updated as one undoable batch. Rows the preview
+   * skips (cuts to $0.00 or below) are never applied, and products whose
+   * price changed after the preview are reported as failed.
+   */
+  bulkAdjust: organizationAdminProcedure
+    .input(
+      z.object({
+        system: z.string().optional(),
+        manufacturer: z.string().optional(),
+        category: z.string().optional(),
+        mode: z.enum(["percent", "amount"]),
+        value: z.number(),
+        roundTo: z.number().positive().default(0.01),
+        excludeProductIds: z.array(z.string()).default([]),
+        dryRun: z.boolean().default(false),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (input.mode === "percent" && input.value <= -100) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "A percentage decrease must be less than 100%" });
+      }
+      const filter = { system: input.system, manufacturer: input.manufacturer, category: input.category };
+      const adjustment = { mode: input.mode, value: input.value, roundTo: input.roundTo };
+      const products = (await getAllPricing(ctx.organization.id)).map((p) => ({
+        ...p,
+        unitPrice: parseFloat(p.unitPrice),
+      }));
+      const rows = planPriceAdjustment(products, filter, adjustment);
+      const source = describePriceAdjustment(filter, adjustment);
+      if (input.dryRun) {
+        return { source, rows, batchId: null, updated: 0, failed: [], productIds: [] };
+      }
+
+      const excluded = new Set(input.excludeProductIds);
+      const selected = rows.filter((row) => !row.skipReason && !excluded.has(row.productId));
+      if (selected.length === 0) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "No prices to change" });
+      }
+      const result = await bulkAdjustPrices(
+        ctx.organization.id,
+        selected.map((row) => ({
+          productId: row.productId,
+          currentPrice: row.currentPrice.toFixed(2),
+          newPrice: row.newPrice.toFixed(2),
+        })),
+        source,
+        ctx.user.openId,
+      );
+      const failed = new Set(result.failed.map((f) => f.productId));
+      const productIds = selected.map((row) => row.productId).filter((id) => !failed.has(id));
+      return { source, rows: selected, ...result, productIds };
+    }),
+
+  /** Recent bulk price changes */
+  batches: organizationProcedure.query(async ({ ctx }) => {
+    return getPriceBatches(ctx.organization.id);
+  }),
+
+  /** Undo a bulk price change, restoring the prices it replaced (admin only) */
+  undoBatch: organizationAdminProcedure
+    .input(z.object({ batchId: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const batch = await getPriceBatch(ctx.organization.id, input.batchId);
+      if (!batch) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Price batch not found" });
+      }
+      if (batch.undoneAt) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This price change has already been undone" });
+      }
+      return undoPriceBatch(ctx.organization.id, input.batchId, ctx.user.openId);
+    }),
+
+  /**
+   * Dry-run a CSV / XLSX price import (admin only): map the file's columns,
+   * match rows to products and compare against the current prices — the
+   * distributor's list when importing to one, the default price book
+   * otherwise. Without a mapping the columns are guessed from the headers.
+   * Nothing is saved; the client commits the reviewed rows through bulkUpdate.
+   */
+  previewImport: organizationAdminProcedure
+    .input(
+      z.object({
+        fileName: z.string(),
+        /** File content, base64 */
+        content: z.string(),
+        mapping: z
+          .object({
+            productId: columnIndex,
+            sku: columnIndex,
+            description: columnIndex,
+            price: columnIndex,
+          })
+          .optional(),
+        distributorId: z.number().optional(),
+        /** Flag price changes larger than this percentage */
+        flagThresholdPercent: z.number().min(0).default(10),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const file = parsePriceFile(input.fileName, input.content);
+      const distributorPrices = new Map<string, number>();
+      if (input.distributorId !== undefined) {
+        await requireDistributor(ctx.organization.id, input.distributorId);
+        for (const p of await getDistributorPrices(ctx.organization.id, input.distributorId)) {
+          distributorPrices.set(p.productId, parseFloat(p.unitPrice));
+        }
+      }
+      const catalog = (await getAllPricing(ctx.organization.id)).map((p) => ({
+        productId: p.productId,
+        name: p.name,
+        unitPrice: distributorPrices.get(p.productId) ?? parseFloat(p.unitPrice),
+      }));
+      return buildImportPreview(
+        file,
+        input.mapping ?? suggestColumnMapping(file.headers),
+        catalog,
+        input.flagThresholdPercent,
+      );
+    }),
+
+  /** Scheduled price changes that are pending or in effect for a limited time */
+  schedule: organizationProcedure.query(async ({ ctx }) => {
+    return getScheduledPrices(ctx.organization.id);
+  }),
+
+  /**
+   * Write scheduled changes that are due to the price book now, rather than
+   * on the schedule job's next run (admin only)
+   */
+  applyDuePrices: organizationAdminProcedure.mutation(async ({ ctx }) => {
+    return applyDuePriceChanges(ctx.organization.id);
+  }),
+
+  /**
+   * Schedule a future price list (admin only): the prices replace the price
+   * book from `effectiveFrom`, until `effectiveTo` for a temporary price.
+   * A change that is already due takes effect right away.
+   */
+  schedulePrices: organizationAdminProcedure
+    .input(
+      z.object({
+        prices: z.array(
+          z.object({
+            productId: z.string(),
+            unitPrice: priceAmount,
+          }),
+        ),
+        effectiveFrom: z.date(),
+        effectiveTo: z.date().optional(),
+        source: z.string().default("Scheduled Price"),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      if (input.effectiveTo && input.effectiveTo <= input.effectiveFrom) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The end date must be after the effective date" });
+      }
+      const scheduled = await schedulePrices(
+        ctx.organization.id,
+        input.prices,
+        input.effectiveFrom,
+        input.effectiveTo ?? null,
+        input.source,
+        ctx.user.openId,
+      );
+      const { applied, productIds } = await applyDuePriceChanges(ctx.organization.id);
+      return { scheduled, applied, productIds };
+    }),
+
+  /** Cancel a scheduled change before it takes effect (admin only) */
+  cancelScheduledPrice: organizationAdminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      if (!(await cancelScheduledPrice(ctx.organization.id, input.id))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Scheduled price not found or already in effect" });
+      }
+      return { success: true };
+    }),
+
+  /** Reset a product's price to its default (admin only) */
+  resetToDefault: organizationAdminProcedure
     .input(z.object({ productId: z.string() }))
     .mutation(async ({ input, ctx }) => {
-      const changedBy = ctx.user?.openId || "anonymous";
-      await resetPriceToDefault(input.productId, changedBy);
+      const changedBy = ctx.user.openId;
+      await resetPriceToDefault(ctx.organization.id, input.productId, changedBy);
       return { success: true };
     }),
 
-  /** Seed default pricing from estimator data models */
-  seed: publicProcedure
+  /** Seed default pricing from estimator data models (admin only) */
+  seed: organizationAdminProcedure
     .input(
       z.object({
         products: z.array(
@@ -107,57 +353,187 @@ export const pricingRouter = router({
         ),
       }),
     )
-    .mutation(async ({ input }) => {
-      const count = await seedDefaultPricing(input.products);
+    .mutation(async ({ input, ctx }) => {
+      const count = await seedDefaultPricing(ctx.organization.id, input.products);
       return { seeded: count };
     }),
 
   /** Get price history for a product */
-  history: publicProcedure
+  history: organizationProcedure
     .input(
       z.object({
         productId: z.string(),
         limit: z.number().optional().default(50),
       }),
     )
-    .query(async ({ input }) => {
-      return getPriceHistory(input.productId, input.limit);
+    .query(async ({ input, ctx }) => {
+      return getPriceHistory(ctx.organization.id, input.productId, input.limit);
     }),
 
-  /** Create a new quote request */
-  createQuote: publicProcedure
+  /**
+   * Create a new quote request, optionally addressed to a directory distributor.
+   * From a saved estimate, the quote asks for the estimate's material order
+   * list; otherwise it asks for unit prices on the system's price book.
+   */
+  createQuote: organizationProcedure
     .input(
       z.object({
         name: z.string(),
         system: z.string(),
         distributor: z.string().optional(),
+        distributorId: z.number().optional(),
+        estimateId: z.number().optional(),
         productCount: z.number().optional(),
         totalValue: z.string().optional(),
       }),
     )
     .mutation(async ({ input, ctx }) => {
-      const id = await createQuoteRequest({
-        ...input,
-        createdBy: ctx.user?.openId || "anonymous",
-      });
+      let distributor = input.distributor;
+      if (input.distributorId !== undefined) {
+        const found = await requireDistributor(ctx.organization.id, input.distributorId);
+        distributor = found.branch ? `${found.name} (${found.branch})` : found.name;
+      }
+
+      let items: Array<{ productId: string; name: string; unit: string; quantity: string | null }>;
+      let { productCount, totalValue } = input;
+      if (input.estimateId !== undefined) {
+        const estimate = await getOwnedEstimate(ctx.organization.id, input.estimateId, ctx.user);
+        const orderList = getEstimateOrderList(estimate.data);
+        const prices = new Map(
+          (await getAllPricing(ctx.organization.id)).map((p) => [p.productId, parseFloat(p.unitPrice)]),
+        );
+        items = orderList.map((line) => ({ ...line, quantity: line.quantity?.toFixed(2) ?? null }));
+        productCount = orderList.length;
+        totalValue = orderList
+          .reduce((sum, line) => sum + (line.quantity ?? 0) * (prices.get(line.productId) ?? 0), 0)
+          .toFixed(2);
+      } else {
+        const priceBook =
+          input.system === "all"
+            ? await getAllPricing(ctx.organization.id)
+            : await getPricingBySystem(ctx.organization.id, input.system);
+        items = priceBook.map((p) => ({ productId: p.productId, name: p.name, unit: p.unit, quantity: null }));
+      }
+
+      const id = await createQuoteRequest(
+        {
+          ...input,
+          distributor,
+          productCount,
+          totalValue,
+          organizationId: ctx.organization.id,
+          createdBy: ctx.user.openId,
+        },
+        items,
+      );
       return { id };
     }),
 
   /** List all quote requests */
-  quotes: publicProcedure.query(async () => {
-    return getQuoteRequests();
+  quotes: organizationProcedure.query(async ({ ctx }) => {
+    return getQuoteRequests(ctx.organization.id);
   }),
 
   /** Update quote status */
-  updateQuoteStatus: publicProcedure
+  updateQuoteStatus: organizationProcedure
     .input(
       z.object({
         id: z.number(),
         status: z.enum(["draft", "sent", "received", "applied"]),
       }),
     )
-    .mutation(async ({ input }) => {
-      await updateQuoteStatus(input.id, input.status);
+    .mutation(async ({ input, ctx }) => {
+      await updateQuoteStatus(ctx.organization.id, input.id, input.status);
       return { success: true };
     }),
+
+  /** A quote's requested products with each distributor's returned prices */
+  quoteItems: organizationProcedure.input(z.object({ quoteId: z.number() })).query(async ({ input, ctx }) => {
+    await requireQuote(ctx.organization.id, input.quoteId);
+    return getQuoteItems(ctx.organization.id, input.quoteId);
+  }),
+
+  /**
+   * Record one distributor's returned prices on a quote (admin only). The
+   * prices also go to that distributor's price list and the quote is marked
+   * received, all in one transaction.
+   */
+  recordQuoteResponse: organizationAdminProcedure
+    .input(
+      z.object({
+        quoteId: z.number(),
+        distributorId: z.number(),
+        prices: z.array(
+          z.object({
+            productId: z.string(),
+            unitPrice: priceAmount,
+          }),
+        ),
+        source: z.string().default("Quote Response"),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      await requireQuote(ctx.organization.id, input.quoteId);
+      await requireDistributor(ctx.organization.id, input.distributorId);
+      return recordQuoteResponse(
+        ctx.organization.id,
+        input.quoteId,
+        input.distributorId,
+        input.prices,
+        input.source,
+      );
+    }),
+
+  /**
+   * Apply a leveled quote's winning prices to the price book (admin only).
+   * Each product goes to the selected distributor when they priced it, or
+   * the low price otherwise.
+   */
+  applyLeveling: organizationAdminProcedure
+    .input(
+      z.object({
+        quoteId: z.number(),
+        selections: z
+          .array(
+            z.object({
+              productId: z.string(),
+              distributorId: z.number(),
+            }),
+          )
+          .optional(),
+      }),
+    )
+    .mutation(async ({ input, ctx }) => {
+      const quote = await requireQuote(ctx.organization.id, input.quoteId);
+      const items = (await getQuoteItems(ctx.organization.id, input.quoteId)).map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity != null ? parseFloat(item.quantity) : null,
+        prices: item.prices.map((p) => ({ distributorId: p.distributorId, unitPrice: parseFloat(p.unitPrice) })),
+      }));
+      const { lowest } = levelQuote(items);
+      const selected = new Map((input.selections ?? []).map((s) => [s.productId, s.distributorId]));
+      const names = new Map((await listDistributors(ctx.organization.id)).map((d) => [d.id, d.name]));
+
+      const updates = items.flatMap((item) => {
+        const winner = item.prices.find((p) => p.distributorId === selected.get(item.productId)) ?? lowest[item.productId];
+        if (!winner) return [];
+        const distributor = names.get(winner.distributorId) ?? "Distributor";
+        return [
+          {
+            productId: item.productId,
+            newPrice: winner.unitPrice.toFixed(2),
+            source: `${distributor} quote — ${quote.name}`,
+          },
+        ];
+      });
+
+      const results = await bulkUpdatePrices(ctx.organization.id, updates, ctx.user.openId);
+      await updateQuoteStatus(ctx.organization.id, input.quoteId, "applied");
+      return {
+        total: results.length,
+        succeeded: results.filter((r) => r.success).length,
+        failed: results.filter((r) => !r.success),
+        productIds: results.filter((r) => r.success).map((r) => r.productId),
+      };
+    }),
 });
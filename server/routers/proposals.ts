@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { DEFAULT_PROPOSAL_TEMPLATE } from "@shared/estimating/proposal";
+import { organizationOwnerProcedure, organizationProcedure, router } from "../_core/trpc";
+import {
+  listTemplates,
+  getTemplate,
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+} from "../proposals-db";
+
+const nullableText = z.string().nullable().optional();
+
+const templateInput = z.object({
+  name: z.string().min(1, "Name is required").max(256),
+  companyName: z.string().min(1, "Company name is required").max(256),
+  companyAddress: nullableText,
+  companyPhone: z.string().max(64).nullable().optional(),
+  companyEmail: z.string().max(320).nullable().optional(),
+  companyWebsite: z.string().max(256).nullable().optional(),
+  licenseNumber: z.string().max(128).nullable().optional(),
+  introText: nullableText,
+  inclusions: nullableText, // one per line
+  exclusions: nullableText, // one per line
+  paymentTerms: nullableText,
+  validDays: z.number().int().min(1).max(365).optional(),
+  acceptanceText: nullableText,
+  isDefault: z.boolean().optional(),
+});
+
+/** Throws when the template isn't one of the organization's */
+async function requireTemplate(organizationId: number, id: number) {
+  const template = await getTemplate(organizationId, id);
+  if (!template) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Proposal template not found" });
+  }
+  return template;
+}
+
+export const proposalsRouter = router({
+  /** The organization's proposal templates, default first. */
+  templates: organizationProcedure.query(async ({ ctx }) => {
+    return listTemplates(ctx.organization.id);
+  }),
+
+  /** Built-in starting content for a new template. */
+  defaultContent: organizationProcedure.query(() => DEFAULT_PROPOSAL_TEMPLATE),
+
+  /** Load a single template by ID. */
+  getTemplate: organizationProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      return requireTemplate(ctx.organization.id, input.id);
+    }),
+
+  /** Create a template (organization owners only). */
+  createTemplate: organizationOwnerProcedure
+    .input(templateInput)
+    .mutation(async ({ input, ctx }) => {
+      return createTemplate(ctx.organization.id, { ...input, createdBy: ctx.user.openId });
+    }),
+
+  /** Update a template (organization owners only). */
+  updateTemplate: organizationOwnerProcedure
+    .input(templateInput.partial().extend({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, ...updates } = input;
+      await requireTemplate(ctx.organization.id, id);
+      return updateTemplate(ctx.organization.id, id, updates);
+    }),
+
+  /** Delete a template (organization owners only). */
+  deleteTemplate: organizationOwnerProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input, ctx }) => {
+      await requireTemplate(ctx.organization.id, input.id);
+      return deleteTemplate(ctx.organization.id, input.id);
+    }),
+});
@@ -3,3 +3,7 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const NOT_OWNER_ERR_MSG = 'You do not have access to this estimate (10003)';
+export const NOT_MEMBER_ERR_MSG = 'You are not a member of this organization (10004)';
+/** Request header carrying the active organization ID (set by the org switcher) */
+export const ORGANIZATION_HEADER = 'x-organization-id';
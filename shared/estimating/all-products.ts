@@ -0,0 +1,148 @@
+/**
+ * Aggregates all products from all estimator data models
+ * into a single flat list for the pricing database.
+ */
+
+import { KARNAK_METAL_KYNAR_SYSTEM, type CoatingSystem } from "./karnak-data";
+import { GAF_UNISIL_553_SYSTEM, GAF_UNISIL_8650_SYSTEM, KARNAK_SILICONE_520_SYSTEM } from "./silicone-coating-data";
+import { TPO_PRODUCTS } from "./tpo-data";
+import { GAF_TPO_PRODUCTS } from "./gaf-tpo-data";
+import { EPDM_PRODUCTS } from "./firestone-epdm-data";
+import { METAL_TYPES, FLASHING_PROFILES, getFlashingPricePerLF } from "./sheet-metal-flashing-data";
+import { getPenetrationProductList } from "./penetrations-data";
+
+export interface PricingProduct {
+  productId: string;
+  system: string;
+  manufacturer: string;
+  category: string;
+  name: string;
+  unit: string;
+  unitPrice: number;
+}
+
+function mapCoatingProducts(system: CoatingSystem): PricingProduct[] {
+  return system.products.map((p) => ({
+    productId: `${system.pricingPrefix}-${p.id}`,
+    system: system.id,
+    manufacturer: system.manufacturer,
+    category: p.step,
+    name: p.name,
+    unit: p.unitLabel,
+    unitPrice: p.defaultPrice,
+  }));
+}
+
+function mapTPOProducts(
+  products: Record<string, any>,
+  system: string,
+  manufacturer: string,
+): PricingProduct[] {
+  return Object.entries(products).map(([id, p]) => ({
+    productId: `${system}-${id}`,
+    system,
+    manufacturer,
+    category: p.category || "General",
+    name: p.name,
+    unit: p.unit || "each",
+    unitPrice: p.defaultPrice || 0,
+  }));
+}
+
+/**
+ * A system's penetration materials not already in its catalog (membrane
+ * systems reuse their pipe boot, caulk and termination bar accessories).
+ */
+function mapPenetrationProducts(
+  system: string,
+  pricingPrefix: string,
+  manufacturer: string,
+  catalog: PricingProduct[],
+): PricingProduct[] {
+  const existing = new Set(catalog.map((p) => p.productId));
+  return getPenetrationProductList(system)
+    .map((p) => ({
+      productId: `${pricingPrefix}-${p.id}`,
+      system,
+      manufacturer,
+      category: "Penetrations",
+      name: p.name,
+      unit: p.unit,
+      unitPrice: p.defaultPrice,
+    }))
+    .filter((p) => !existing.has(p.productId));
+}
+
+/** A system's catalog products followed by its penetration materials */
+function withPenetrations(products: PricingProduct[], system: string, pricingPrefix: string, manufacturer: string) {
+  return [...products, ...mapPenetrationProducts(system, pricingPrefix, manufacturer, products)];
+}
+
+function mapSheetMetalProducts(): PricingProduct[] {
+  const products: PricingProduct[] = [];
+  for (const metal of METAL_TYPES) {
+    for (const gauge of metal.gauges) {
+      for (const profile of FLASHING_PROFILES) {
+        const pricePerLF = getFlashingPricePerLF(metal.id, gauge.id, profile);
+        products.push({
+          productId: `sm-${metal.id}-${gauge.id}-${profile.id}`,
+          system: "sheet-metal-flashing",
+          manufacturer: "Sheet Metal",
+          category: `${metal.name} (${gauge.label})`,
+          name: `${profile.name} — ${metal.name} ${gauge.label}`,
+          unit: "per LF",
+          unitPrice: pricePerLF,
+        });
+      }
+    }
+  }
+  return products;
+}
+
+export function getAllProducts(): PricingProduct[] {
+  const all: PricingProduct[] = [];
+
+  // Karnak and silicone coating products, with their penetration details
+  for (const system of [
+    KARNAK_METAL_KYNAR_SYSTEM,
+    GAF_UNISIL_553_SYSTEM,
+    GAF_UNISIL_8650_SYSTEM,
+    KARNAK_SILICONE_520_SYSTEM,
+  ]) {
+    all.push(...withPenetrations(mapCoatingProducts(system), system.id, system.pricingPrefix, system.manufacturer));
+  }
+
+  // Carlisle TPO products
+  all.push(
+    ...withPenetrations(mapTPOProducts(TPO_PRODUCTS, "carlisle-tpo", "Carlisle SynTec"), "carlisle-tpo", "carlisle-tpo", "Carlisle SynTec"),
+  );
+
+  // GAF TPO products
+  all.push(...withPenetrations(mapTPOProducts(GAF_TPO_PRODUCTS, "gaf-tpo", "GAF"), "gaf-tpo", "gaf-tpo", "GAF"));
+
+  // Firestone EPDM products
+  all.push(
+    ...withPenetrations(mapTPOProducts(EPDM_PRODUCTS, "firestone-epdm", "Firestone"), "firestone-epdm", "firestone-epdm", "Firestone"),
+  );
+
+  // Sheet Metal Flashing products
+  all.push(...mapSheetMetalProducts());
+
+  return all;
+}
+
+export function getProductsBySystem(system: string): PricingProduct[] {
+  return getAllProducts().filter((p) => p.system === system);
+}
+
+export const SYSTEM_OPTIONS = [
+  { value: "all", label: "All Systems" },
+  { value: "karnak-metal-kynar", label: "Karnak Metal Kynar" },
+  { value: "gaf-unisil-553", label: "GAF UniSil 553" },
+  { value: "gaf-unisil-8650", label: "GAF UniSil 8650" },
+  { value: "karnak-silicone-520", label: "Karnak 520 Karna-Sil" },
+  { value: "carlisle-tpo", label: "Carlisle TPO" },
+  { value: "gaf-tpo", label: "GAF TPO" },
+  { value: "firestone-epdm", label: "Firestone EPDM" },
+  { value: "sheet-metal-flashing", label: "Sheet Metal Flashing" },
+];
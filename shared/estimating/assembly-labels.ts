@@ -0,0 +1,104 @@
+/**
+ * Assembly Labels — Human-readable text for a membrane roof assembly.
+ *
+ * Maps assembly option values ("steel-22ga", "densdeck-prime-half", ...) to
+ * the labels the estimator dropdowns show for each system, and describes
+ * the insulation layers and tapered insulation in one line each. Used by
+ * estimate diffs and proposal scope-of-work text.
+ */
+
+import {
+  ATTACHMENT_METHODS,
+  COVER_BOARDS,
+  DECK_TYPES,
+  getInsulationSummary,
+  INSULATION_PLATE_TYPES,
+  INSULATION_SCREW_LENGTHS,
+  INSULATION_SCREW_TYPES,
+  MEMBRANE_PLATE_TYPES,
+  MEMBRANE_SCREW_LENGTHS,
+  MEMBRANE_THICKNESSES,
+  VAPOR_BARRIERS,
+  type AssemblyConfig,
+} from "./tpo-data";
+import {
+  GAF_ATTACHMENT_METHODS,
+  GAF_COVER_BOARDS,
+  GAF_INSULATION_SCREW_LENGTHS,
+  GAF_INSULATION_SCREW_TYPES,
+  GAF_MEMBRANE_SCREW_LENGTHS,
+  GAF_MEMBRANE_THICKNESSES,
+  GAF_VAPOR_BARRIERS,
+} from "./gaf-tpo-data";
+import {
+  EPDM_ATTACHMENT_METHODS,
+  EPDM_COVER_BOARDS,
+  EPDM_INSULATION_SCREW_TYPES,
+  EPDM_MEMBRANE_THICKNESSES,
+  EPDM_VAPOR_BARRIERS,
+} from "./firestone-epdm-data";
+
+type Options = { value: string; label: string }[];
+
+const CARLISLE_OPTIONS: Partial<Record<keyof AssemblyConfig, Options>> = {
+  deckType: DECK_TYPES,
+  vaporBarrier: VAPOR_BARRIERS,
+  coverBoard: COVER_BOARDS,
+  membraneThickness: MEMBRANE_THICKNESSES,
+  attachmentMethod: ATTACHMENT_METHODS,
+  fastenerType: INSULATION_SCREW_TYPES,
+  fastenerLength: INSULATION_SCREW_LENGTHS,
+  membraneFastenerLength: MEMBRANE_SCREW_LENGTHS,
+  plateType: INSULATION_PLATE_TYPES,
+  membranePlateType: MEMBRANE_PLATE_TYPES,
+};
+
+/** Dropdown options per assembly field; GAF and Firestone fall back to the Carlisle lists */
+const ASSEMBLY_OPTIONS: Record<string, Partial<Record<keyof AssemblyConfig, Options>>> = {
+  "carlisle-tpo": CARLISLE_OPTIONS,
+  "gaf-tpo": {
+    ...CARLISLE_OPTIONS,
+    vaporBarrier: GAF_VAPOR_BARRIERS,
+    coverBoard: GAF_COVER_BOARDS,
+    membraneThickness: GAF_MEMBRANE_THICKNESSES,
+    attachmentMethod: GAF_ATTACHMENT_METHODS,
+    fastenerType: GAF_INSULATION_SCREW_TYPES,
+    fastenerLength: GAF_INSULATION_SCREW_LENGTHS,
+    membraneFastenerLength: GAF_MEMBRANE_SCREW_LENGTHS,
+  },
+  "firestone-epdm": {
+    ...CARLISLE_OPTIONS,
+    vaporBarrier: EPDM_VAPOR_BARRIERS,
+    coverBoard: EPDM_COVER_BOARDS,
+    membraneThickness: EPDM_MEMBRANE_THICKNESSES,
+    attachmentMethod: EPDM_ATTACHMENT_METHODS,
+    fastenerType: EPDM_INSULATION_SCREW_TYPES,
+  },
+};
+
+/** Label the system's estimator shows for an assembly option; the raw value when unknown */
+export function getAssemblyOptionLabel(system: string, field: keyof AssemblyConfig, value: unknown): string {
+  const options = ASSEMBLY_OPTIONS[system] ?? CARLISLE_OPTIONS;
+  const label = options[field]?.find((o) => o.value === value)?.label;
+  if (label) return label;
+  return value == null || value === "" ? "—" : String(value);
+}
+
+/** e.g. `2.0" + 2.0" Polyiso (R-22.8)`, or "None" */
+export function describeInsulation(assembly: AssemblyConfig): string {
+  if (!assembly.insulationEnabled) return "None";
+  const { activeLayers, totalRValue } = getInsulationSummary(assembly.insulationLayers);
+  if (activeLayers.length === 0) return "None";
+  return `${activeLayers.map((l) => `${l.thickness}"`).join(" + ")} Polyiso (R-${totalRValue.toFixed(1)})`;
+}
+
+/** e.g. `1/4" per ft, 2 interior drains, 40 ft run`, or "Off" */
+export function describeTapered(assembly: AssemblyConfig): string {
+  const tapered = assembly.tapered;
+  if (!tapered?.enabled) return "Off";
+  const drainage =
+    tapered.drainage === "interior-drains"
+      ? `${tapered.drainCount} interior drain${tapered.drainCount === 1 ? "" : "s"}`
+      : "perimeter edge";
+  return `${tapered.slope}" per ft, ${drainage}, ${tapered.runLength} ft run`;
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkRoofCompliance,
+  findCheapestInsulationLayers,
+  getClimateZoneFromZip,
+  getInsulationOptions,
+  getRequiredRoofRValue,
+  resolveClimateZone,
+  toInsulationLayers,
+  type InsulationOption,
+} from "./energy-code-data";
+import { TPO_PRODUCTS } from "./tpo-data";
+
+const options: InsulationOption[] = [
+  { thickness: "2.0", rValue: 11.4, price: 52 },
+  { thickness: "3.0", rValue: 17.1, price: 72 },
+  { thickness: "4.0", rValue: 22.8, price: 92 },
+  { thickness: "5.5", rValue: 31.4, price: 122 },
+];
+
+describe("getRequiredRoofRValue", () => {
+  it("should require R-30 ci in zone 5 and R-35 ci in zone 7 under IECC 2021", () => {
+    expect(getRequiredRoofRValue("iecc-2021", 5)).toBe(30);
+    expect(getRequiredRoofRValue("iecc-2021", 7)).toBe(35);
+  });
+
+  it("should require only R-20 ci in zone 1 under ASHRAE 90.1-2016", () => {
+    expect(getRequiredRoofRValue("ashrae-2016", 1)).toBe(20);
+    expect(getRequiredRoofRValue("ashrae-2019", 1)).toBe(25);
+  });
+
+  it("should require only R-20 ci in zone 1 under IECC 2018", () => {
+    expect(getRequiredRoofRValue("iecc-2018", 1)).toBe(20);
+    expect(getRequiredRoofRValue("iecc-2021", 1)).toBe(25);
+  });
+});
+
+describe("getClimateZoneFromZip", () => {
+  it("should place a Chicago ZIP in zone 5 as an approximate state lookup", () => {
+    expect(getClimateZoneFromZip("60601")).toEqual({ zone: 5, state: "IL", approximate: true });
+  });
+
+  it("should accept ZIP+4 and mark single-zone states exact", () => {
+    expect(getClimateZoneFromZip("02903-1234")).toEqual({ zone: 5, state: "RI", approximate: false });
+  });
+
+  it("should return undefined for malformed or unassigned ZIPs", () => {
+    expect(getClimateZoneFromZip("")).toBeUndefined();
+    expect(getClimateZoneFromZip("6060")).toBeUndefined();
+    expect(getClimateZoneFromZip("00001")).toBeUndefined();
+  });
+
+  it("should let an entered climate zone override the ZIP", () => {
+    expect(resolveClimateZone({ zip: "60601", climateZone: 7, edition: "iecc-2021" })).toBe(7);
+    expect(resolveClimateZone({ zip: "60601", edition: "iecc-2021" })).toBe(5);
+  });
+});
+
+describe("findCheapestInsulationLayers", () => {
+  it("should pick the cheapest combination that reaches the requirement", () => {
+    // R-30: 5.5" alone ($122) beats 2.0" + 3.0" at R-28.5 (short) and 2 x 3.0" ($144)
+    const result = findCheapestInsulationLayers(30, options)!;
+    expect(result.layers.map((l) => l.thickness)).toEqual(["5.5"]);
+    expect(result.costPerBoard).toBe(122);
+  });
+
+  it("should combine layers when no single board is enough", () => {
+    // R-35: 2.0" + 4.0" = R-34.2 falls short; 3.0" + 4.0" ($164) beats 2.0" + 5.5" ($174)
+    const result = findCheapestInsulationLayers(35, options)!;
+    expect(result.layers.map((l) => l.thickness).sort()).toEqual(["3.0", "4.0"]);
+    expect(result.totalRValue).toBeCloseTo(39.9, 5);
+    expect(result.costPerBoard).toBe(164);
+  });
+
+  it("should follow price changes", () => {
+    const cheap3 = options.map((o) => (o.thickness === "3.0" ? { ...o, price: 40 } : o));
+    const result = findCheapestInsulationLayers(30, cheap3)!;
+    expect(result.layers.map((l) => l.thickness)).toEqual(["3.0", "3.0"]);
+    expect(result.costPerBoard).toBe(80);
+  });
+
+  it("should return undefined when four layers cannot reach the requirement", () => {
+    expect(findCheapestInsulationLayers(100, options.slice(0, 1))).toBeUndefined();
+  });
+});
+
+describe("checkRoofCompliance", () => {
+  const settings = { zip: "60601", edition: "iecc-2021" as const };
+
+  it("should flag a shortfall with a suggestion", () => {
+    const result = checkRoofCompliance(settings, 22.8, options)!;
+    expect(result.compliant).toBe(false);
+    expect(result.requiredRValue).toBe(30);
+    expect(result.shortfall).toBeCloseTo(7.2, 5);
+    expect(result.suggestion?.layers.map((l) => l.thickness)).toEqual(["5.5"]);
+  });
+
+  it("should pass a compliant assembly without a suggestion", () => {
+    const result = checkRoofCompliance(settings, 31.4, options)!;
+    expect(result.compliant).toBe(true);
+    expect(result.shortfall).toBe(0);
+    expect(result.suggestion).toBeUndefined();
+  });
+
+  it("should count tapered R-value toward the requirement and the suggestion", () => {
+    const result = checkRoofCompliance(settings, 11.4, options, 14.3)!;
+    expect(result.providedRValue).toBeCloseTo(25.7, 5);
+    // Only R-15.7 of flat insulation is needed over the tapered system
+    expect(result.suggestion?.layers.map((l) => l.thickness)).toEqual(["3.0"]);
+  });
+
+  it("should return undefined without a climate zone", () => {
+    expect(checkRoofCompliance({ zip: "", edition: "iecc-2021" }, 20, options)).toBeUndefined();
+  });
+});
+
+describe("getInsulationOptions", () => {
+  it("should price catalog boards from custom prices when set", () => {
+    const result = getInsulationOptions(TPO_PRODUCTS, { "insulation-2.0": 40 });
+    const twoInch = result.find((o) => o.thickness === "2.0")!;
+    expect(twoInch.price).toBe(40);
+    expect(twoInch.rValue).toBe(11.4);
+    expect(result.find((o) => o.thickness === "3.0")!.price).toBe(TPO_PRODUCTS["insulation-3.0"].defaultPrice);
+  });
+
+  it("should fill the remaining assembly slots with empty layers", () => {
+    const layers = toInsulationLayers({ layers: [options[0], options[3]], totalRValue: 42.8, costPerBoard: 174 });
+    expect(layers).toEqual([
+      { thickness: "2.0", enabled: true },
+      { thickness: "5.5", enabled: true },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+    ]);
+  });
+});
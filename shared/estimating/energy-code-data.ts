@@ -0,0 +1,233 @@
+/**
+ * Energy Code — Roof insulation R-value compliance for low-slope commercial roofs.
+ *
+ * Requirements are the prescriptive minimums for insulation entirely above
+ * the roof deck (continuous insulation), by code edition and climate zone:
+ *   - IECC Table C402.1.3 (2018 / 2021 / 2024)
+ *   - ASHRAE 90.1 Tables 5.5-0 … 5.5-8, nonresidential (2016 / 2019 / 2022)
+ *
+ * Climate zone can be entered directly or derived from the project ZIP. The
+ * ZIP lookup uses the state's predominant zone, so it is approximate for
+ * states that span several zones — the county table is authoritative.
+ *
+ * When an assembly falls short, the cheapest flat layer combination that
+ * meets the requirement is found from the current insulation prices.
+ */
+
+import { INSULATION_THICKNESSES, type InsulationLayer, type TPOProduct } from "./tpo-data";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type CodeEdition =
+  | "iecc-2018"
+  | "iecc-2021"
+  | "iecc-2024"
+  | "ashrae-2016"
+  | "ashrae-2019"
+  | "ashrae-2022";
+
+export type ClimateZone = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export interface EnergyCodeSettings {
+  zip: string;
+  climateZone?: ClimateZone; // entered directly; overrides the ZIP lookup
+  edition: CodeEdition;
+}
+
+export interface ClimateZoneLookup {
+  zone: ClimateZone;
+  state: string;
+  approximate: boolean;
+}
+
+export interface InsulationOption {
+  thickness: string; // e.g. "2.0"
+  rValue: number;
+  price: number;     // per board
+}
+
+export interface InsulationSuggestion {
+  layers: InsulationOption[];
+  totalRValue: number;
+  costPerBoard: number; // sum of one board of each layer
+}
+
+export interface ComplianceResult {
+  climateZone: ClimateZone;
+  edition: CodeEdition;
+  requiredRValue: number;
+  providedRValue: number;
+  compliant: boolean;
+  shortfall: number;
+  suggestion?: InsulationSuggestion;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const CODE_EDITIONS: { value: CodeEdition; label: string }[] = [
+  { value: "iecc-2024", label: "IECC 2024" },
+  { value: "iecc-2021", label: "IECC 2021" },
+  { value: "iecc-2018", label: "IECC 2018" },
+  { value: "ashrae-2022", label: "ASHRAE 90.1-2022" },
+  { value: "ashrae-2019", label: "ASHRAE 90.1-2019" },
+  { value: "ashrae-2016", label: "ASHRAE 90.1-2016" },
+];
+
+export const CLIMATE_ZONES: ClimateZone[] = [0, 1, 2, 3, 4, 5, 6, 7, 8];
+
+export const DEFAULT_ENERGY_CODE_SETTINGS: EnergyCodeSettings = {
+  zip: "",
+  edition: "iecc-2021",
+};
+
+// Minimum continuous R-value above deck, indexed by climate zone 0–8
+const ROOF_R_VALUE_REQUIREMENTS: Record<CodeEdition, number[]> = {
+  "iecc-2018": [25, 20, 25, 25, 30, 30, 30, 35, 35],
+  "iecc-2021": [25, 25, 25, 25, 30, 30, 30, 35, 35],
+  "iecc-2024": [25, 25, 25, 25, 30, 30, 30, 35, 35],
+  "ashrae-2016": [25, 20, 25, 25, 30, 30, 30, 35, 35],
+  "ashrae-2019": [25, 25, 25, 25, 30, 30, 30, 35, 35],
+  "ashrae-2022": [25, 25, 25, 25, 30, 30, 30, 35, 35],
+};
+
+// 3-digit ZIP prefix ranges by state [first, last, state]
+const ZIP_PREFIX_STATES: [number, number, string][] = [
+  [6, 9, "PR"], [10, 27, "MA"], [28, 29, "RI"], [30, 38, "NH"], [39, 49, "ME"],
+  [50, 59, "VT"], [60, 69, "CT"], [70, 89, "NJ"], [100, 149, "NY"], [150, 196, "PA"],
+  [197, 199, "DE"], [200, 205, "DC"], [206, 219, "MD"], [220, 246, "VA"], [247, 268, "WV"],
+  [270, 289, "NC"], [290, 299, "SC"], [300, 319, "GA"], [320, 349, "FL"], [350, 369, "AL"],
+  [370, 385, "TN"], [386, 397, "MS"], [398, 399, "GA"], [400, 427, "KY"], [430, 459, "OH"],
+  [460, 479, "IN"], [480, 499, "MI"], [500, 528, "IA"], [530, 549, "WI"], [550, 567, "MN"],
+  [570, 577, "SD"], [580, 588, "ND"], [590, 599, "MT"], [600, 629, "IL"], [630, 658, "MO"],
+  [660, 679, "KS"], [680, 693, "NE"], [700, 714, "LA"], [716, 729, "AR"], [730, 749, "OK"],
+  [750, 799, "TX"], [800, 816, "CO"], [820, 831, "WY"], [832, 838, "ID"], [840, 847, "UT"],
+  [850, 865, "AZ"], [870, 884, "NM"], [885, 885, "TX"], [889, 898, "NV"], [900, 961, "CA"],
+  [967, 968, "HI"], [970, 979, "OR"], [980, 994, "WA"], [995, 999, "AK"],
+];
+
+// Predominant IECC climate zone by state
+const STATE_CLIMATE_ZONES: Record<string, ClimateZone> = {
+  AL: 3, AK: 7, AZ: 2, AR: 3, CA: 3, CO: 5, CT: 5, DE: 4, DC: 4, FL: 2,
+  GA: 3, HI: 1, ID: 5, IL: 5, IN: 5, IA: 5, KS: 4, KY: 4, LA: 2, ME: 6,
+  MD: 4, MA: 5, MI: 5, MN: 6, MS: 3, MO: 4, MT: 6, NE: 5, NV: 3, NH: 6,
+  NJ: 4, NM: 4, NY: 5, NC: 4, ND: 6, OH: 5, OK: 3, OR: 4, PA: 5, RI: 5,
+  SC: 3, SD: 6, TN: 4, TX: 2, UT: 5, VT: 6, VA: 4, WA: 4, WV: 5, WI: 6,
+  WY: 6, PR: 1,
+};
+
+// States that fall entirely in one climate zone
+const SINGLE_ZONE_STATES = new Set(["CT", "DC", "DE", "HI", "PR", "RI"]);
+
+// ── Lookups ────────────────────────────────────────────────────────────────
+
+export function getRequiredRoofRValue(edition: CodeEdition, zone: ClimateZone): number {
+  return ROOF_R_VALUE_REQUIREMENTS[edition][zone];
+}
+
+/** Climate zone for a 5-digit US ZIP, or undefined if it can't be placed */
+export function getClimateZoneFromZip(zip: string): ClimateZoneLookup | undefined {
+  const match = zip.trim().match(/^(\d{3})\d{2}(-\d{4})?$/);
+  if (!match) return undefined;
+  const prefix = parseInt(match[1], 10);
+  const entry = ZIP_PREFIX_STATES.find(([first, last]) => prefix >= first && prefix <= last);
+  if (!entry) return undefined;
+  const state = entry[2];
+  return {
+    zone: STATE_CLIMATE_ZONES[state],
+    state,
+    approximate: !SINGLE_ZONE_STATES.has(state),
+  };
+}
+
+/** Climate zone from the settings: an entered zone wins over the ZIP lookup */
+export function resolveClimateZone(settings: EnergyCodeSettings): ClimateZone | undefined {
+  return settings.climateZone ?? getClimateZoneFromZip(settings.zip)?.zone;
+}
+
+// ── Suggestions ────────────────────────────────────────────────────────────
+
+/**
+ * Flat polyiso boards available in a manufacturer catalog, priced from the
+ * estimator's current prices (pricing DB / user edits) or catalog defaults.
+ */
+export function getInsulationOptions(
+  products: Record<string, TPOProduct>,
+  customPrices: Record<string, number>
+): InsulationOption[] {
+  return INSULATION_THICKNESSES.flatMap((t) => {
+    const product = products[`insulation-${t.value}`];
+    if (!product) return [];
+    return [{ thickness: t.value, rValue: t.rValue, price: customPrices[product.id] ?? product.defaultPrice }];
+  });
+}
+
+/** Suggested layers as the four-slot assembly layer list */
+export function toInsulationLayers(suggestion: InsulationSuggestion, slots = 4): InsulationLayer[] {
+  const layers: InsulationLayer[] = suggestion.layers.map((l) => ({ thickness: l.thickness, enabled: true }));
+  while (layers.length < slots) layers.push({ thickness: "none", enabled: false });
+  return layers;
+}
+
+/**
+ * Cheapest combination of up to `maxLayers` flat boards (repeats allowed)
+ * whose R-values add up to at least `requiredRValue`. Ties go to fewer layers.
+ */
+export function findCheapestInsulationLayers(
+  requiredRValue: number,
+  options: InsulationOption[],
+  maxLayers = 4
+): InsulationSuggestion | undefined {
+  if (requiredRValue <= 0) return { layers: [], totalRValue: 0, costPerBoard: 0 };
+  const sorted = [...options].sort((a, b) => b.rValue - a.rValue);
+  let best: InsulationSuggestion | undefined;
+
+  const search = (start: number, layers: InsulationOption[], rValue: number, cost: number) => {
+    if (best && cost > best.costPerBoard) return;
+    if (rValue + 1e-9 >= requiredRValue) {
+      if (
+        !best ||
+        cost < best.costPerBoard ||
+        (cost === best.costPerBoard && layers.length < best.layers.length)
+      ) {
+        best = { layers: [...layers], totalRValue: rValue, costPerBoard: cost };
+      }
+      return;
+    }
+    if (layers.length >= maxLayers) return;
+    for (let i = start; i < sorted.length; i++) {
+      layers.push(sorted[i]);
+      search(i, layers, rValue + sorted[i].rValue, cost + sorted[i].price);
+      layers.pop();
+    }
+  };
+
+  search(0, [], 0, 0);
+  return best;
+}
+
+/**
+ * Check an assembly's R-value against the code minimum. `extraRValue` is
+ * insulation outside the flat layers (e.g. the average R of a tapered
+ * system), which counts toward the requirement and toward the suggestion.
+ */
+export function checkRoofCompliance(
+  settings: EnergyCodeSettings,
+  flatRValue: number,
+  options: InsulationOption[],
+  extraRValue = 0
+): ComplianceResult | undefined {
+  const climateZone = resolveClimateZone(settings);
+  if (climateZone === undefined) return undefined;
+  const requiredRValue = getRequiredRoofRValue(settings.edition, climateZone);
+  const providedRValue = flatRValue + extraRValue;
+  const compliant = providedRValue >= requiredRValue;
+  return {
+    climateZone,
+    edition: settings.edition,
+    requiredRValue,
+    providedRValue,
+    compliant,
+    shortfall: compliant ? 0 : requiredRValue - providedRValue,
+    suggestion: compliant ? undefined : findCheapestInsulationLayers(requiredRValue - extraRValue, options),
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { diffEstimates } from "./estimate-diff";
+import { serializeKarnakState, serializeTPOState, type SavedRoofSection } from "./estimate-state-serializers";
+import { getDefaultAssembly } from "./project-estimate";
+import { getDefaultSheetMetalState } from "./sheet-metal-flashing-data";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "./tpo-labor-equipment-data";
+import { DEFAULT_EQUIPMENT_ITEMS, DEFAULT_LABOR_ITEMS } from "./labor-equipment-data";
+
+const tpoLabor = {
+  laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+  equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+};
+
+const mainRoof: SavedRoofSection = {
+  name: "Main Roof",
+  assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+  measurements: { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+};
+
+function tpoState(sections: SavedRoofSection[], penetrations: Record<string, number> = {}) {
+  return serializeTPOState("carlisle-tpo", {
+    measurements: { totalRoofArea: "", baseFlashing: "" },
+    customPrices: {},
+    laborEquipment: tpoLabor,
+    sections,
+    penetrationsState: { lineItems: penetrations, sheetMetal: getDefaultSheetMetalState() },
+  });
+}
+
+describe("diffEstimates", () => {
+  it("should report no changes between identical saves", () => {
+    const data = tpoState([mainRoof]);
+    const diff = diffEstimates({ data, grandTotal: "50000.00" }, { data, grandTotal: "50000.00" });
+
+    expect(diff.measurements).toEqual([]);
+    expect(diff.assembly).toEqual([]);
+    expect(diff.lineItems).toEqual([]);
+    expect(diff.totals).toEqual({ before: 50000, after: 50000, delta: 0 });
+  });
+
+  it("should report measurement changes and the line items they move", () => {
+    const before = tpoState([mainRoof]);
+    const after = tpoState([{ ...mainRoof, measurements: { ...mainRoof.measurements, roofArea: 12000 } }]);
+    const diff = diffEstimates({ data: before }, { data: after });
+
+    expect(diff.measurements).toEqual([
+      { section: "Main Roof", field: "roofArea", label: "Roof Area (sq ft)", before: "10000", after: "12000" },
+    ]);
+    const membrane = diff.lineItems.find((i) => i.kind === "material" && i.change === "changed");
+    expect(membrane).toBeDefined();
+    expect(membrane!.quantityAfter).toBeGreaterThan(membrane!.quantityBefore);
+    expect(diff.totals.delta).toBeGreaterThan(0);
+  });
+
+  it("should label assembly changes and list added and removed products", () => {
+    const before = tpoState([mainRoof]);
+    const after = tpoState([
+      { ...mainRoof, assemblyConfig: { ...mainRoof.assemblyConfig, deckType: "concrete", coverBoard: "none" } },
+    ]);
+    const diff = diffEstimates({ data: before }, { data: after });
+
+    expect(diff.assembly).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: "deckType", before: "22 Gauge Steel Deck", after: "Structural Concrete" }),
+        expect.objectContaining({ field: "coverBoard", after: "None" }),
+      ]),
+    );
+    const removed = diff.lineItems.filter((i) => i.change === "removed");
+    expect(removed.some((i) => i.key.startsWith("coverboard") || /DensDeck/i.test(i.name))).toBe(true);
+    expect(removed.every((i) => i.costAfter === 0)).toBe(true);
+  });
+
+  it("should describe insulation as layers and R-value", () => {
+    const before = tpoState([mainRoof]);
+    const layers = [
+      { thickness: "2.0", enabled: true },
+      { thickness: "2.0", enabled: true },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+    ];
+    const after = tpoState([{ ...mainRoof, assemblyConfig: { ...mainRoof.assemblyConfig, insulationLayers: layers } }]);
+    const insulation = diffEstimates({ data: before }, { data: after }).assembly.find(
+      (c) => c.field === "insulationLayers",
+    );
+
+    expect(insulation).toMatchObject({ before: '2.0" Polyiso (R-11.4)', after: '2.0" + 2.0" Polyiso (R-22.8)' });
+  });
+
+  it("should report added and removed roof sections and penetration materials", () => {
+    const before = tpoState([mainRoof, { ...mainRoof, name: "Canopy" }]);
+    const after = tpoState([mainRoof, { ...mainRoof, name: "High Roof" }], { "pipe-1-3": 4 });
+    const diff = diffEstimates({ data: before }, { data: after });
+
+    expect(diff.sectionsAdded).toEqual(["High Roof"]);
+    expect(diff.sectionsRemoved).toEqual(["Canopy"]);
+    expect(diff.lineItems.some((i) => i.kind === "penetration" && i.change === "added")).toBe(true);
+  });
+
+  it("should diff coating measurements and fall back to computed totals", () => {
+    const state = {
+      squareFootage: "5000",
+      verticalSeamsLF: "200",
+      horizontalSeamsLF: "150",
+      customPrices: {},
+      laborEquipment: {
+        laborItems: DEFAULT_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+        equipmentItems: DEFAULT_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+      },
+    };
+    const diff = diffEstimates(
+      { data: serializeKarnakState(state), grandTotal: null },
+      { data: serializeKarnakState({ ...state, squareFootage: "8000" }), grandTotal: null },
+    );
+
+    expect(diff.measurements).toEqual([
+      { section: undefined, field: "squareFootage", label: "Square Footage", before: "5000", after: "8000" },
+    ]);
+    expect(diff.totals.before).toBeGreaterThan(0);
+    expect(diff.totals.delta).toBeCloseTo(diff.totals.after - diff.totals.before, 6);
+    expect(diff.totals.delta).toBeGreaterThan(0);
+  });
+
+  it("should reject unreadable data and different systems", () => {
+    const data = tpoState([mainRoof]);
+    expect(() => diffEstimates({ data: "not json" }, { data })).toThrow(/could not be read/);
+    expect(() =>
+      diffEstimates({ data }, { data: data.replace('"carlisle-tpo"', '"gaf-tpo"') }),
+    ).toThrow(/different systems/);
+  });
+});
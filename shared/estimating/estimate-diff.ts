@@ -0,0 +1,325 @@
+/**
+ * Estimate Diff — What changed between two saves of an estimate.
+ *
+ * Compares two saved estimator states (the `data` JSON of a saved estimate
+ * or one of its revisions): measurements per roof section, roof assembly
+ * options, and the material / penetration / sheet metal line items each
+ * state prices out to, plus the change in grand total.
+ *
+ * Line items are recomputed from each state with that state's own custom
+ * prices, so a diff reflects what the estimate said at the time it was saved.
+ */
+
+import { BadRequestError } from "../_core/errors";
+import {
+  deserializeKarnakState,
+  deserializeTPOState,
+  getSavedRoofSections,
+  type KarnakSaveState,
+  type TPOSaveState,
+} from "./estimate-state-serializers";
+import {
+  calculateProjectEstimate,
+  getDefaultAssembly,
+  type ProjectEstimate,
+  type ProjectEstimateRequest,
+} from "./project-estimate";
+import { describeInsulation, describeTapered, getAssemblyOptionLabel } from "./assembly-labels";
+import type { AssemblyConfig, TPOMeasurements } from "./tpo-data";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** The parts of a saved estimate (or revision) a diff needs */
+export interface EstimateSnapshot {
+  data: string;
+  grandTotal?: string | number | null;
+}
+
+export interface FieldChange {
+  /** Roof section name; omitted for single-roof coating estimates */
+  section?: string;
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export type LineItemKind = "material" | "penetration" | "sheet-metal";
+
+export interface LineItemChange {
+  kind: LineItemKind;
+  key: string;
+  name: string;
+  unit: string;
+  change: "added" | "removed" | "changed";
+  quantityBefore: number;
+  quantityAfter: number;
+  costBefore: number;
+  costAfter: number;
+}
+
+export interface EstimateDiff {
+  system: string;
+  sectionsAdded: string[];
+  sectionsRemoved: string[];
+  measurements: FieldChange[];
+  assembly: FieldChange[];
+  lineItems: LineItemChange[];
+  totals: { before: number; after: number; delta: number };
+}
+
+// ── Saved State → Request ──────────────────────────────────────────────────
+
+/** Parse the `data` JSON of a saved estimate (any system); throws a 400 HttpError when unreadable */
+export function parseSavedState(json: string): KarnakSaveState | TPOSaveState {
+  const state = deserializeTPOState(json) ?? deserializeKarnakState(json);
+  if (!state) throw BadRequestError("Saved estimate data could not be read");
+  return state;
+}
+
+function isTPOState(state: KarnakSaveState | TPOSaveState): state is TPOSaveState {
+  return "measurements" in state;
+}
+
+/** Roof sections of a TPO/EPDM save, by name */
+function getSections(state: TPOSaveState) {
+  return getSavedRoofSections(state, getDefaultAssembly(state.system));
+}
+
+/** Turn a saved estimator state into a calculation request */
+export function savedStateToRequest(state: KarnakSaveState | TPOSaveState): ProjectEstimateRequest {
+  const penetrations = state.penetrationsState?.lineItems;
+  const sheetMetal = state.penetrationsState?.sheetMetal;
+
+  if (isTPOState(state)) {
+    return {
+      system: state.system,
+      sections: getSections(state),
+      laborEquipment: state.laborEquipment,
+      penetrations,
+      sheetMetal,
+    };
+  }
+  return {
+    system: state.system,
+    measurements: {
+      squareFootage: parseFloat(state.squareFootage) || 0,
+      verticalSeamsLF: parseFloat(state.verticalSeamsLF) || 0,
+      horizontalSeamsLF: parseFloat(state.horizontalSeamsLF) || 0,
+      warrantyYears: state.warrantyYears,
+    },
+    laborEquipment: state.laborEquipment,
+    penetrations,
+    sheetMetal,
+  };
+}
+
+// ── Field Diffs ────────────────────────────────────────────────────────────
+
+const ROOF_MEASUREMENT_FIELDS: { field: keyof TPOMeasurements; label: string }[] = [
+  { field: "roofArea", label: "Roof Area (sq ft)" },
+  { field: "wallLinearFt", label: "Wall Linear Ft" },
+  { field: "wallHeight", label: "Wall Height (ft)" },
+  { field: "baseFlashingLF", label: "Base Flashing (LF)" },
+  { field: "roofLength", label: "Roof Length (ft)" },
+  { field: "roofWidth", label: "Roof Width (ft)" },
+  { field: "meanRoofHeight", label: "Mean Roof Height (ft)" },
+  { field: "basicWindSpeed", label: "Basic Wind Speed (mph)" },
+  { field: "exposureCategory", label: "Exposure Category" },
+];
+
+const COATING_MEASUREMENT_FIELDS: { field: keyof KarnakSaveState; label: string }[] = [
+  { field: "squareFootage", label: "Square Footage" },
+  { field: "verticalSeamsLF", label: "Vertical Seams (LF)" },
+  { field: "horizontalSeamsLF", label: "Horizontal Seams (LF)" },
+  { field: "warrantyYears", label: "Warranty (years)" },
+];
+
+const ASSEMBLY_FIELDS: { field: keyof AssemblyConfig; label: string }[] = [
+  { field: "deckType", label: "Deck Type" },
+  { field: "vaporBarrier", label: "Vapor Barrier" },
+  { field: "coverBoard", label: "Cover Board" },
+  { field: "membraneThickness", label: "Membrane" },
+  { field: "attachmentMethod", label: "Attachment Method" },
+  { field: "fastenerType", label: "Insulation Fastener" },
+  { field: "fastenerLength", label: "Insulation Fastener Length" },
+  { field: "membraneFastenerLength", label: "Membrane Fastener Length" },
+  { field: "plateType", label: "Insulation Plate" },
+  { field: "membranePlateType", label: "Membrane Plate" },
+];
+
+function formatValue(value: unknown): string {
+  if (value == null || value === "") return "—";
+  return String(value);
+}
+
+function diffAssembly(system: string, section: string, before: AssemblyConfig, after: AssemblyConfig): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const labelOf = (field: keyof AssemblyConfig, value: unknown) => getAssemblyOptionLabel(system, field, value);
+
+  for (const { field, label } of ASSEMBLY_FIELDS) {
+    if (before[field] === after[field]) continue;
+    changes.push({ section, field, label, before: labelOf(field, before[field]), after: labelOf(field, after[field]) });
+  }
+  const derived = [
+    { field: "insulationLayers", label: "Insulation", describe: describeInsulation },
+    { field: "tapered", label: "Tapered Insulation", describe: describeTapered },
+  ];
+  for (const { field, label, describe } of derived) {
+    const [b, a] = [describe(before), describe(after)];
+    if (b !== a) changes.push({ section, field, label, before: b, after: a });
+  }
+  return changes;
+}
+
+function diffFields<T>(
+  fields: { field: keyof T; label: string }[],
+  before: T,
+  after: T,
+  section?: string,
+): FieldChange[] {
+  return fields.flatMap(({ field, label }) => {
+    const [b, a] = [formatValue(before[field]), formatValue(after[field])];
+    return b === a ? [] : [{ section, field: String(field), label, before: b, after: a }];
+  });
+}
+
+// ── Line Item Diffs ────────────────────────────────────────────────────────
+
+interface PricedLine {
+  kind: LineItemKind;
+  key: string;
+  name: string;
+  unit: string;
+  quantity: number;
+  cost: number;
+}
+
+function toPricedLines(estimate: ProjectEstimate): PricedLine[] {
+  return [
+    ...estimate.materials.map((m) => ({
+      kind: "material" as const,
+      key: m.productId,
+      name: m.name,
+      unit: m.unit,
+      quantity: m.quantity,
+      cost: m.totalCost,
+    })),
+    ...estimate.penetrations.map((p) => ({
+      kind: "penetration" as const,
+      key: p.materialName,
+      name: p.materialName,
+      unit: p.unit,
+      quantity: p.quantity,
+      cost: p.totalPrice,
+    })),
+    ...estimate.sheetMetal.map((s) => ({
+      kind: "sheet-metal" as const,
+      key: s.flashingId,
+      name: s.name,
+      unit: "LF",
+      quantity: s.quantity,
+      cost: s.totalCost,
+    })),
+  ];
+}
+
+function diffLineItems(before: PricedLine[], after: PricedLine[]): LineItemChange[] {
+  const id = (line: PricedLine) => `${line.kind}:${line.key}`;
+  const beforeById = new Map(before.map((line) => [id(line), line]));
+  const afterById = new Map(after.map((line) => [id(line), line]));
+  const changes: LineItemChange[] = [];
+
+  for (const line of after) {
+    const prev = beforeById.get(id(line));
+    if (!prev) {
+      changes.push({ ...lineChange(line, "added"), quantityAfter: line.quantity, costAfter: line.cost });
+    } else if (prev.quantity !== line.quantity || Math.abs(prev.cost - line.cost) >= 0.005) {
+      changes.push({
+        ...lineChange(line, "changed"),
+        quantityBefore: prev.quantity,
+        quantityAfter: line.quantity,
+        costBefore: prev.cost,
+        costAfter: line.cost,
+      });
+    }
+  }
+  for (const line of before) {
+    if (afterById.has(id(line))) continue;
+    changes.push({ ...lineChange(line, "removed"), quantityBefore: line.quantity, costBefore: line.cost });
+  }
+  return changes;
+}
+
+function lineChange(line: PricedLine, change: LineItemChange["change"]): LineItemChange {
+  return {
+    kind: line.kind,
+    key: line.key,
+    name: line.name,
+    unit: line.unit,
+    change,
+    quantityBefore: 0,
+    quantityAfter: 0,
+    costBefore: 0,
+    costAfter: 0,
+  };
+}
+
+// ── Diff ───────────────────────────────────────────────────────────────────
+
+/** A snapshot's saved grand total, or `computed` for saves without one */
+export function snapshotTotal(snapshot: EstimateSnapshot, computed: number): number {
+  const saved = typeof snapshot.grandTotal === "string" ? parseFloat(snapshot.grandTotal) : snapshot.grandTotal;
+  return saved != null && !isNaN(saved) ? saved : computed;
+}
+
+/**
+ * Diff two saves of the same estimate. The grand totals come from the saved
+ * snapshots (which include breakdown edits such as tax and profit) when
+ * present, falling back to the recomputed estimate total.
+ */
+export function diffEstimates(before: EstimateSnapshot, after: EstimateSnapshot): EstimateDiff {
+  const beforeState = parseSavedState(before.data);
+  const afterState = parseSavedState(after.data);
+  if (beforeState.system !== afterState.system) {
+    throw BadRequestError("Cannot compare estimates for different systems");
+  }
+
+  const beforeEstimate = calculateProjectEstimate(savedStateToRequest(beforeState), beforeState.customPrices);
+  const afterEstimate = calculateProjectEstimate(savedStateToRequest(afterState), afterState.customPrices);
+
+  const diff: EstimateDiff = {
+    system: afterState.system,
+    sectionsAdded: [],
+    sectionsRemoved: [],
+    measurements: [],
+    assembly: [],
+    lineItems: diffLineItems(toPricedLines(beforeEstimate), toPricedLines(afterEstimate)),
+    totals: { before: 0, after: 0, delta: 0 },
+  };
+
+  if (isTPOState(beforeState) && isTPOState(afterState)) {
+    const beforeSections = getSections(beforeState);
+    const afterSections = getSections(afterState);
+
+    for (const section of afterSections) {
+      const prev = beforeSections.find((s) => s.name === section.name);
+      if (!prev) {
+        diff.sectionsAdded.push(section.name);
+        continue;
+      }
+      diff.measurements.push(...diffFields(ROOF_MEASUREMENT_FIELDS, prev.measurements, section.measurements, section.name));
+      diff.assembly.push(...diffAssembly(afterState.system, section.name, prev.assembly, section.assembly));
+    }
+    diff.sectionsRemoved = beforeSections
+      .filter((s) => !afterSections.some((a) => a.name === s.name))
+      .map((s) => s.name);
+  } else if (!isTPOState(beforeState) && !isTPOState(afterState)) {
+    diff.measurements = diffFields(COATING_MEASUREMENT_FIELDS, beforeState, afterState);
+  }
+
+  const totalBefore = snapshotTotal(before, beforeEstimate.totals.grandTotal);
+  const totalAfter = snapshotTotal(after, afterEstimate.totals.grandTotal);
+  diff.totals = { before: totalBefore, after: totalAfter, delta: totalAfter - totalBefore };
+  return diff;
+}
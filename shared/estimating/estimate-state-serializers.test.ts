@@ -9,6 +9,8 @@ import {
   serializeTPOState,
   deserializeTPOState,
   detectSystem,
+  getSavedRoofSections,
+  toSavedRoofSections,
   type SavedPenetrationsState,
 } from "./estimate-state-serializers";
 import { getDefaultSheetMetalState } from "./sheet-metal-flashing-data";
@@ -116,6 +118,23 @@ describe("Karnak state serialization", () => {
     expect(restored!.penetrationsState).toBeUndefined();
   });
 
+  it("should roundtrip a silicone system with its warranty term", () => {
+    const json = serializeKarnakState({
+      system: "gaf-unisil-8650",
+      squareFootage: "8000",
+      verticalSeamsLF: "0",
+      horizontalSeamsLF: "120",
+      warrantyYears: 15,
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+    });
+
+    const restored = deserializeKarnakState(json);
+    expect(restored).not.toBeNull();
+    expect(restored!.system).toBe("gaf-unisil-8650");
+    expect(restored!.warrantyYears).toBe(15);
+  });
+
   it("should return null for invalid JSON", () => {
     expect(deserializeKarnakState("not json")).toBeNull();
   });
@@ -179,6 +198,19 @@ describe("TPO state serialization", () => {
     expect(restored!.penetrationsState!.sheetMetal.lineItems).toHaveLength(2);
   });
 
+  it("should roundtrip Firestone EPDM", () => {
+    const json = serializeTPOState("firestone-epdm", {
+      measurements: { totalRoofArea: "20000", baseFlashing: "600" },
+      customPrices: { "seam-tape-3in": 72 },
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+    });
+
+    const restored = deserializeTPOState(json);
+    expect(restored).not.toBeNull();
+    expect(restored!.system).toBe("firestone-epdm");
+    expect(restored!.customPrices["seam-tape-3in"]).toBe(72);
+  });
+
   it("should handle missing penetrationsState (backward compat)", () => {
     const json = serializeTPOState("carlisle-tpo", {
       measurements: { totalRoofArea: "10000", baseFlashing: "500" },
@@ -191,6 +223,28 @@ describe("TPO state serialization", () => {
     expect(restored!.penetrationsState).toBeUndefined();
   });
 
+  it("should migrate sheet metal saved with one job-wide metal to per-line metal", () => {
+    const json = JSON.stringify({
+      system: "gaf-tpo",
+      measurements: { totalRoofArea: "10000", baseFlashing: "500" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+      penetrationsState: {
+        lineItems: { "pipe-1-3": 2 },
+        sheetMetal: { metalTypeId: "aluminum", gaugeId: "050", lineItems: { "gravel-stop": 180 } },
+      },
+    });
+
+    const sheetMetal = deserializeTPOState(json)!.penetrationsState!.sheetMetal;
+    expect(sheetMetal.lineItems["gravel-stop"]).toEqual({
+      linearFeet: 180,
+      metalTypeId: "aluminum",
+      gaugeId: "050",
+      color: "",
+      developedWidth: 6,
+    });
+  });
+
   it("should return null for invalid JSON", () => {
     expect(deserializeTPOState("garbage")).toBeNull();
   });
@@ -321,6 +375,104 @@ describe("TPO assembly config serialization", () => {
   });
 });
 
+// ─── Roof Sections ─────────────────────────────────────────────────────────
+
+describe("TPO roof section serialization", () => {
+  const defaultAssembly: AssemblyConfig = { ...sampleAssemblyConfig, attachmentMethod: "fully-adhered" };
+
+  it("should roundtrip multiple named sections with their own assemblies", () => {
+    const sections = [
+      {
+        id: "a",
+        name: "Low Roof",
+        assembly: sampleAssemblyConfig,
+        measurements: { roofArea: 20000, wallLinearFt: 300, wallHeight: 3, baseFlashingLF: 600 },
+      },
+      {
+        id: "b",
+        name: "High Roof",
+        assembly: defaultAssembly,
+        measurements: { roofArea: 5000, wallLinearFt: 0, wallHeight: 0, baseFlashingLF: 300 },
+      },
+    ];
+    const json = serializeTPOState("carlisle-tpo", {
+      measurements: { totalRoofArea: "25000", baseFlashing: "900" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+      assemblyConfig: sampleAssemblyConfig,
+      sections: toSavedRoofSections(sections),
+    });
+
+    const restored = getSavedRoofSections(deserializeTPOState(json)!, defaultAssembly);
+    expect(restored).toHaveLength(2);
+    expect(restored[0].name).toBe("Low Roof");
+    expect(restored[0].assembly.attachmentMethod).toBe("mechanically-attached");
+    expect(restored[1].name).toBe("High Roof");
+    expect(restored[1].measurements.roofArea).toBe(5000);
+  });
+
+  it("should load pre-section estimates as a single Main Roof section", () => {
+    const json = serializeTPOState("gaf-tpo", {
+      measurements: { totalRoofArea: "12000", baseFlashing: "450", wallLinearFt: "200", wallHeight: "4" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+      assemblyConfig: sampleAssemblyConfig,
+    });
+
+    const restored = getSavedRoofSections(deserializeTPOState(json)!, defaultAssembly);
+    expect(restored).toHaveLength(1);
+    expect(restored[0].name).toBe("Main Roof");
+    expect(restored[0].assembly).toEqual(sampleAssemblyConfig);
+    expect(restored[0].measurements).toEqual({
+      roofArea: 12000,
+      wallLinearFt: 200,
+      wallHeight: 4,
+      baseFlashingLF: 450,
+    });
+  });
+
+  it("should fall back to the default assembly for pre-v3 estimates", () => {
+    const json = serializeTPOState("carlisle-tpo", {
+      measurements: { totalRoofArea: "8000", baseFlashing: "300" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+    });
+
+    const restored = getSavedRoofSections(deserializeTPOState(json)!, defaultAssembly);
+    expect(restored[0].assembly).toBe(defaultAssembly);
+    expect(restored[0].measurements.wallLinearFt).toBe(0);
+  });
+});
+
+// ─── Energy Code ────────────────────────────────────────────────────────────
+
+describe("TPO energy code serialization", () => {
+  it("should roundtrip the project ZIP, climate zone and code edition", () => {
+    const json = serializeTPOState("firestone-epdm", {
+      measurements: { totalRoofArea: "10000", baseFlashing: "400" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+      energyCode: { zip: "60601", climateZone: 6, edition: "ashrae-2019" },
+    });
+
+    expect(deserializeTPOState(json)!.energyCode).toEqual({
+      zip: "60601",
+      climateZone: 6,
+      edition: "ashrae-2019",
+    });
+  });
+
+  it("should leave energyCode undefined for pre-v5 estimates", () => {
+    const json = serializeTPOState("carlisle-tpo", {
+      measurements: { totalRoofArea: "8000", baseFlashing: "300" },
+      customPrices: {},
+      laborEquipment: { laborItems: [], equipmentItems: [] },
+    });
+
+    expect(deserializeTPOState(json)!.energyCode).toBeUndefined();
+  });
+});
+
 // ─── detectSystem ───────────────────────────────────────────────────────────
 
 describe("detectSystem", () => {
@@ -0,0 +1,222 @@
+/**
+ * Estimate State Serializers
+ *
+ * Functions to serialize/deserialize the full estimator state for save/load.
+ * Each estimator has its own shape, so we store a discriminated union keyed by `system`.
+ *
+ * Includes: measurements, custom prices, labor/equipment, penetrations, sheet metal flashing,
+ * and roof assembly configuration (deck, insulation, cover board, membrane, attachment method).
+ */
+
+import type { LaborEquipmentState } from "./labor-equipment-data";
+import type { TPOLaborEquipmentState } from "./tpo-labor-equipment-data";
+import { migrateSheetMetalState, type SheetMetalFlashingState } from "./sheet-metal-flashing-data";
+import type { AssemblyConfig, RoofSection, TPOMeasurements } from "./tpo-data";
+import type { WarrantyTerm } from "./karnak-data";
+import type { EnergyCodeSettings } from "./energy-code-data";
+
+// ─── Shared Penetration/Additions State ─────────────────────────────────────
+
+export interface SavedPenetrationsState {
+  /** penetrationId -> quantity */
+  lineItems: Record<string, number>;
+  /** Sheet metal flashing state — per-line metal; older saves are migrated on load */
+  sheetMetal: SheetMetalFlashingState;
+}
+
+/** Saves from before per-line sheet metal have one metal and gauge for every flashing line */
+function migratePenetrationsState<T extends { penetrationsState?: SavedPenetrationsState }>(state: T): T {
+  const penetrationsState = state.penetrationsState;
+  if (!penetrationsState?.sheetMetal) return state;
+  return {
+    ...state,
+    penetrationsState: { ...penetrationsState, sheetMetal: migrateSheetMetalState(penetrationsState.sheetMetal) },
+  };
+}
+
+// ─── Karnak / Coating Systems ─────────────────────────────────────────────────
+
+export type CoatingSystemId = "karnak-metal-kynar" | "gaf-unisil-553" | "gaf-unisil-8650" | "karnak-silicone-520";
+
+const COATING_SYSTEM_IDS: CoatingSystemId[] = [
+  "karnak-metal-kynar",
+  "gaf-unisil-553",
+  "gaf-unisil-8650",
+  "karnak-silicone-520",
+];
+
+export interface KarnakSaveState {
+  system: CoatingSystemId;
+  squareFootage: string;
+  verticalSeamsLF: string;
+  horizontalSeamsLF: string;
+  /** Warranty term driving coat count (silicone systems, added v3) */
+  warrantyYears?: WarrantyTerm;
+  customPrices: Record<string, number>;
+  laborEquipment: LaborEquipmentState;
+  /** Penetrations & sheet metal flashing (added v2) */
+  penetrationsState?: SavedPenetrationsState;
+  /** Distributor price list the estimate is priced from; null/absent = default price book (added v4) */
+  distributorId?: number | null;
+  /** Job start date ("YYYY-MM-DD") prices are taken as of; null/absent = today's prices (added v5) */
+  priceDate?: string | null;
+}
+
+export function serializeKarnakState(state: {
+  system?: CoatingSystemId;
+  squareFootage: string;
+  verticalSeamsLF: string;
+  horizontalSeamsLF: string;
+  warrantyYears?: WarrantyTerm;
+  customPrices: Record<string, number>;
+  laborEquipment: LaborEquipmentState;
+  penetrationsState?: SavedPenetrationsState;
+  distributorId?: number | null;
+  priceDate?: string | null;
+}): string {
+  const payload: KarnakSaveState = {
+    ...state,
+    system: state.system ?? "karnak-metal-kynar",
+  };
+  return JSON.stringify(payload);
+}
+
+export function deserializeKarnakState(json: string): KarnakSaveState | null {
+  try {
+    const parsed = JSON.parse(json);
+    if (!COATING_SYSTEM_IDS.includes(parsed.system)) return null;
+    return migratePenetrationsState(parsed as KarnakSaveState);
+  } catch {
+    return null;
+  }
+}
+
+// ─── Carlisle TPO / GAF TPO / Firestone EPDM ────────────────────────────────────────────────
+
+export interface SavedRoofSection {
+  name: string;
+  assemblyConfig: AssemblyConfig;
+  measurements: TPOMeasurements;
+}
+
+export interface TPOSaveState {
+  system: "carlisle-tpo" | "gaf-tpo" | "firestone-epdm";
+  measurements: {
+    totalRoofArea: string;
+    baseFlashing: string;
+    /** Wall linear ft (added v2) */
+    wallLinearFt?: string;
+    /** Wall height (added v2) */
+    wallHeight?: string;
+  };
+  customPrices: Record<string, number>;
+  laborEquipment: TPOLaborEquipmentState;
+  /** Roof assembly configuration (added v3) — first section's when sectioned */
+  assemblyConfig?: AssemblyConfig;
+  /** Named roof sections, each with its own assembly (added v4) */
+  sections?: SavedRoofSection[];
+  /** Project ZIP, climate zone and code edition (added v5) */
+  energyCode?: EnergyCodeSettings;
+  /** Penetrations & sheet metal flashing (added v2) */
+  penetrationsState?: SavedPenetrationsState;
+  /** Distributor price list the estimate is priced from; null/absent = default price book (added v6) */
+  distributorId?: number | null;
+  /** Job start date ("YYYY-MM-DD") prices are taken as of; null/absent = today's prices (added v7) */
+  priceDate?: string | null;
+  /** @deprecated — old format, kept for backward compat */
+  penetrations?: Record<string, { count: number; avgSize: string }>;
+  /** @deprecated — old format */
+  roofAdditions?: Record<string, boolean | number | string>;
+}
+
+export function serializeTPOState(
+  system: "carlisle-tpo" | "gaf-tpo" | "firestone-epdm",
+  state: {
+    measurements: {
+      totalRoofArea: string;
+      baseFlashing: string;
+      wallLinearFt?: string;
+      wallHeight?: string;
+    };
+    customPrices: Record<string, number>;
+    laborEquipment: TPOLaborEquipmentState;
+    assemblyConfig?: AssemblyConfig;
+    sections?: SavedRoofSection[];
+    energyCode?: EnergyCodeSettings;
+    penetrationsState?: SavedPenetrationsState;
+    distributorId?: number | null;
+    priceDate?: string | null;
+  },
+): string {
+  const payload: TPOSaveState = {
+    system,
+    ...state,
+  };
+  return JSON.stringify(payload);
+}
+
+export function deserializeTPOState(json: string): TPOSaveState | null {
+  try {
+    const parsed = JSON.parse(json);
+    if (
+      parsed.system !== "carlisle-tpo" &&
+      parsed.system !== "gaf-tpo" &&
+      parsed.system !== "firestone-epdm"
+    ) return null;
+    return migratePenetrationsState(parsed as TPOSaveState);
+  } catch {
+    return null;
+  }
+}
+
+/** Convert estimator roof sections into their saved form */
+export function toSavedRoofSections(sections: RoofSection[]): SavedRoofSection[] {
+  return sections.map((s) => ({
+    name: s.name,
+    assemblyConfig: s.assembly,
+    measurements: s.measurements,
+  }));
+}
+
+/**
+ * Roof sections from a saved TPO/EPDM state. Estimates saved before v4 have a
+ * single set of measurements, which becomes one "Main Roof" section using the
+ * saved assembly (or `defaultAssembly` for pre-v3 saves).
+ */
+export function getSavedRoofSections(
+  state: TPOSaveState,
+  defaultAssembly: AssemblyConfig,
+): Omit<RoofSection, "id">[] {
+  if (state.sections && state.sections.length > 0) {
+    return state.sections.map((s) => ({
+      name: s.name,
+      assembly: s.assemblyConfig,
+      measurements: s.measurements,
+    }));
+  }
+  return [
+    {
+      name: "Main Roof",
+      assembly: state.assemblyConfig ?? defaultAssembly,
+      measurements: {
+        roofArea: parseFloat(state.measurements.totalRoofArea) || 0,
+        wallLinearFt: parseFloat(state.measurements.wallLinearFt ?? "0") || 0,
+        wallHeight: parseFloat(state.measurements.wallHeight ?? "0") || 0,
+        baseFlashingLF: parseFloat(state.measurements.baseFlashing) || 0,
+      },
+    },
+  ];
+}
+
+// ─── Generic ─────────────────────────────────────────────────────────────────
+
+export type SavedEstimateState = KarnakSaveState | TPOSaveState;
+
+export function detectSystem(json: string): string | null {
+  try {
+    const parsed = JSON.parse(json);
+    return parsed.system ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  EPDM_PRODUCTS,
+  EPDM_ATTACHMENT_METHODS,
+  calculateEPDMEstimate,
+  exportEPDMEstimateCSV,
+  type AssemblyConfig,
+  type TPOMeasurements,
+} from "./firestone-epdm-data";
+
+function makeAssembly(overrides?: Partial<AssemblyConfig>): AssemblyConfig {
+  return {
+    deckType: "steel-22ga",
+    vaporBarrier: "none",
+    insulationEnabled: true,
+    insulationLayers: [
+      { thickness: "2.0", enabled: true },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+    ],
+    coverBoard: "densdeck-prime-half",
+    membraneThickness: "60mil",
+    attachmentMethod: "fully-adhered",
+    fastenerType: "firestone-hd",
+    fastenerLength: "auto",
+    membraneFastenerLength: "auto",
+    plateType: "3in-round",
+    membranePlateType: "barbed",
+    ...overrides,
+  };
+}
+
+const measurements: TPOMeasurements = {
+  roofArea: 10000,
+  wallLinearFt: 200,
+  wallHeight: 3,
+  baseFlashingLF: 400,
+};
+
+function findItem(estimate: ReturnType<typeof calculateEPDMEstimate>, productId: string) {
+  return estimate.lineItems.find((i) => i.product.id === productId);
+}
+
+describe("Firestone EPDM Data", () => {
+  describe("EPDM_PRODUCTS", () => {
+    it("has EPDM membranes and seaming products", () => {
+      expect(EPDM_PRODUCTS["membrane-60mil"].name).toContain("EPDM");
+      expect(EPDM_PRODUCTS["seam-tape-3in"]).toBeDefined();
+      expect(EPDM_PRODUCTS["seam-tape-6in"]).toBeDefined();
+      expect(EPDM_PRODUCTS["seam-primer"]).toBeDefined();
+      expect(EPDM_PRODUCTS["ballast-stone"]).toBeDefined();
+    });
+
+    it("shares insulation boards and fasteners with the TPO catalog", () => {
+      expect(EPDM_PRODUCTS["insulation-2.0"]).toBeDefined();
+      expect(EPDM_PRODUCTS["fastener-screws-4in"]).toBeDefined();
+      expect(EPDM_PRODUCTS["fastener-plates-barbed"]).toBeDefined();
+    });
+
+    it("keys every product by its own id", () => {
+      for (const [id, product] of Object.entries(EPDM_PRODUCTS)) {
+        expect(product.id).toBe(id);
+      }
+    });
+
+    it("offers ballasted attachment", () => {
+      expect(EPDM_ATTACHMENT_METHODS.map((m) => m.value)).toContain("ballasted");
+    });
+  });
+
+  describe("calculateEPDMEstimate", () => {
+    it("returns an empty estimate for zero roof area", () => {
+      const estimate = calculateEPDMEstimate(makeAssembly(), { ...measurements, roofArea: 0 }, {});
+      expect(estimate.lineItems).toHaveLength(0);
+      expect(estimate.totalMaterialCost).toBe(0);
+    });
+
+    it("adds splice tape, seam primer and bonding adhesive when fully adhered", () => {
+      const estimate = calculateEPDMEstimate(makeAssembly(), measurements, {});
+      expect(findItem(estimate, "seam-tape-3in")).toBeDefined();
+      expect(findItem(estimate, "seam-tape-6in")).toBeUndefined();
+      expect(findItem(estimate, "seam-primer")).toBeDefined();
+      expect(findItem(estimate, "adhesive-bonding")).toBeDefined();
+      expect(findItem(estimate, "ballast-stone")).toBeUndefined();
+    });
+
+    it("bonding adhesive covers the field membrane plus base flashing", () => {
+      const estimate = calculateEPDMEstimate(makeAssembly(), measurements, {});
+      const adhesive = findItem(estimate, "adhesive-bonding")!;
+      // 10,000 * 1.05 + 400 LF * 1.5 ft = 11,100 sq ft at 300 sq ft/pail
+      expect(adhesive.quantityNeeded).toBeCloseTo(11100 / 300, 5);
+      expect(adhesive.unitsToOrder).toBe(37);
+    });
+
+    it("uses 6\" tape on fastened side laps when mechanically attached", () => {
+      const estimate = calculateEPDMEstimate(
+        makeAssembly({ attachmentMethod: "mechanically-attached" }),
+        measurements,
+        {}
+      );
+      // 100' x 100' roof → 10 rolls wide → 9 side laps of 100 LF
+      expect(findItem(estimate, "seam-tape-6in")!.quantityNeeded).toBeCloseTo(9, 5);
+      expect(estimate.lineItems.some((i) => i.product.id.startsWith("fastener-screws-membrane-"))).toBe(true);
+      expect(findItem(estimate, "fastener-plates-perimeter")).toBeDefined();
+    });
+
+    it("still adheres base flashing when mechanically attached", () => {
+      const estimate = calculateEPDMEstimate(
+        makeAssembly({ attachmentMethod: "mechanically-attached" }),
+        measurements,
+        {}
+      );
+      const adhesive = findItem(estimate, "adhesive-bonding")!;
+      expect(adhesive.quantityNeeded).toBeCloseTo(600 / 300, 5);
+    });
+
+    it("adds ballast by zone weight and skips insulation attachment when ballasted", () => {
+      const estimate = calculateEPDMEstimate(
+        makeAssembly({ attachmentMethod: "ballasted" }),
+        measurements,
+        {}
+      );
+      const ballast = findItem(estimate, "ballast-stone")!;
+      // 100' square, 10' edge zones: field 6,400 sq ft @ 10 psf + edges 3,600 sq ft @ 13 psf = 110,800 lbs
+      expect(ballast.quantityNeeded).toBeCloseTo(110800 / 2000, 5);
+      expect(findItem(estimate, "adhesive-insulation")).toBeUndefined();
+      expect(estimate.lineItems.some((i) => i.product.id.startsWith("fastener-screws-"))).toBe(false);
+    });
+
+    it("applies custom prices", () => {
+      const base = calculateEPDMEstimate(makeAssembly(), measurements, {});
+      const custom = calculateEPDMEstimate(makeAssembly(), measurements, { "seam-primer": 100 });
+      expect(findItem(custom, "seam-primer")!.unitPrice).toBe(100);
+      expect(custom.totalMaterialCost).toBeGreaterThan(base.totalMaterialCost);
+    });
+
+    it("total equals the sum of line items", () => {
+      const estimate = calculateEPDMEstimate(makeAssembly(), measurements, {});
+      const sum = estimate.lineItems.reduce((s, i) => s + i.totalCost, 0);
+      expect(estimate.totalMaterialCost).toBeCloseTo(sum, 2);
+    });
+  });
+
+  describe("exportEPDMEstimateCSV", () => {
+    it("includes the EPDM header and line items", () => {
+      const estimate = calculateEPDMEstimate(makeAssembly(), measurements, {});
+      const csv = exportEPDMEstimateCSV(estimate);
+      expect(csv).toContain("Firestone RubberGard EPDM Estimate");
+      expect(csv).toContain("QuickSeam Splice Tape");
+    });
+  });
+});
@@ -0,0 +1,630 @@
+// Firestone RubberGard EPDM Single-Ply Membrane System - Data Model & Calculation Engine
+// =========================================================================
+// Design: Industrial Estimator for Firestone RubberGard EPDM roofing systems
+// Built on the TPO engine: same AssemblyConfig, insulation layers and fastener zones.
+// All prices are editable defaults based on industry research (ABC Supply, BestMaterials, etc.)
+
+// Re-export shared types from Carlisle module (identical structure)
+export type {
+  InsulationLayer,
+  AssemblyConfig,
+  TPOMeasurements,
+  TPOProduct,
+  TPOLineItem,
+  TPOEstimate,
+} from "./tpo-data";
+
+import type {
+  AssemblyConfig,
+  TPOMeasurements,
+  TPOProduct,
+  TPOLineItem,
+  TPOEstimate,
+} from "./tpo-data";
+
+// Re-export shared assembly options that are identical across manufacturers
+export {
+  DECK_TYPES,
+  INSULATION_THICKNESSES,
+  INSULATION_SCREW_LENGTHS,
+  MEMBRANE_SCREW_LENGTHS,
+  getInsulationSummary,
+  calculateWindZones,
+} from "./tpo-data";
+
+import {
+  TPO_PRODUCTS,
+  getInsulationSummary,
+  getSectionSummaryLines,
+  calculateWindZones,
+  INSULATION_FASTENERS_PER_BOARD_FIELD,
+  INSULATION_FASTENERS_PER_BOARD_PERIMETER,
+  INSULATION_FASTENERS_PER_BOARD_CORNER,
+  BOARD_AREA,
+  MEMBRANE_FASTENERS_PER_LF_FIELD,
+  MEMBRANE_FASTENERS_PER_LF_PERIMETER,
+  MEMBRANE_FASTENERS_PER_LF_CORNER,
+  MEMBRANE_PLATE_TYPES,
+  getResolvedFastenerLength,
+  getResolvedMembraneFastenerLength,
+} from "./tpo-data";
+
+// ---- EPDM-SPECIFIC ASSEMBLY OPTIONS ----
+
+export const EPDM_VAPOR_BARRIERS = [
+  { value: "none", label: "None" },
+  { value: "v-force", label: "Firestone V-Force Vapor Barrier (Self-Adhering)" },
+  { value: "poly-6mil", label: "6 mil Polyethylene Sheet (Ballasted)" },
+];
+
+export const EPDM_COVER_BOARDS = [
+  { value: "densdeck-prime-half", label: 'DensDeck Prime 1/2"' },
+  { value: "densdeck-prime-quarter", label: 'DensDeck Prime 1/4"' },
+  { value: "isogard-hd", label: 'Firestone ISOGARD HD 1/2" Cover Board' },
+  { value: "perlite", label: 'Perlite 1/2"' },
+  { value: "none", label: "None" },
+];
+
+export const EPDM_MEMBRANE_THICKNESSES = [
+  { value: "45mil", label: "RubberGard EPDM 45 mil" },
+  { value: "60mil", label: "RubberGard EPDM 60 mil" },
+  { value: "90mil", label: "RubberGard EPDM 90 mil" },
+];
+
+export const EPDM_ATTACHMENT_METHODS = [
+  { value: "fully-adhered", label: "Fully Adhered (Bonding Adhesive BA-2004)" },
+  { value: "mechanically-attached", label: "Mechanically Attached (RMA)" },
+  { value: "ballasted", label: "Ballasted (Stone)" },
+];
+
+export const EPDM_INSULATION_SCREW_TYPES = [
+  { value: "firestone-hd", label: "Firestone Heavy-Duty Fastener" },
+  { value: "firestone-ap", label: "Firestone All-Purpose Fastener" },
+  { value: "firestone-concrete", label: "Firestone Concrete Deck Fastener" },
+];
+
+// ---- PRODUCT CATALOG ----
+
+/** Boards, screws and plates are the same commodity items the Carlisle catalog prices */
+const SHARED_CATEGORIES = ["Insulation", "Fasteners & Plates"];
+const SHARED_COVER_BOARDS = ["cover-densdeck-half", "cover-densdeck-quarter", "cover-perlite"];
+
+const SHARED_TPO_PRODUCTS: Record<string, TPOProduct> = Object.fromEntries(
+  Object.entries(TPO_PRODUCTS).filter(
+    ([id, product]) =>
+      SHARED_CATEGORIES.includes(product.category) || SHARED_COVER_BOARDS.includes(id)
+  )
+);
+
+export const EPDM_PRODUCTS: Record<string, TPOProduct> = {
+  // Membranes — Firestone RubberGard EPDM
+  "membrane-45mil": {
+    id: "membrane-45mil",
+    name: "RubberGard EPDM 45 mil Membrane",
+    category: "Membrane",
+    unit: "Roll (10' x 100')",
+    coveragePerUnit: 1000,
+    coverageUnit: "sq ft",
+    defaultPrice: 560,
+    description: "Firestone RubberGard non-reinforced EPDM membrane, Black",
+  },
+  "membrane-60mil": {
+    id: "membrane-60mil",
+    name: "RubberGard EPDM 60 mil Membrane",
+    category: "Membrane",
+    unit: "Roll (10' x 100')",
+    coveragePerUnit: 1000,
+    coverageUnit: "sq ft",
+    defaultPrice: 760,
+    description: "Firestone RubberGard non-reinforced EPDM membrane, Black",
+  },
+  "membrane-90mil": {
+    id: "membrane-90mil",
+    name: "RubberGard EPDM 90 mil Membrane",
+    category: "Membrane",
+    unit: "Roll (10' x 100')",
+    coveragePerUnit: 1000,
+    coverageUnit: "sq ft",
+    defaultPrice: 1290,
+    description: "Firestone RubberGard non-reinforced EPDM membrane, Black",
+  },
+
+  // Flashing — Firestone
+  "flash-membrane-24": {
+    id: "flash-membrane-24",
+    name: "RubberGard EPDM Flashing (24\" x 50')",
+    category: "Flashing",
+    unit: "Roll (24\" x 50')",
+    coveragePerUnit: 50,
+    coverageUnit: "lin ft",
+    defaultPrice: 215,
+    description: "Firestone cured EPDM flashing for base/wall flashing details",
+  },
+  "flash-membrane-12": {
+    id: "flash-membrane-12",
+    name: "QuickSeam Flashing (12\" x 100')",
+    category: "Flashing",
+    unit: "Roll (12\" x 100')",
+    coveragePerUnit: 100,
+    coverageUnit: "lin ft",
+    defaultPrice: 330,
+    description: "Firestone tape-backed cured EPDM flashing for wall termination",
+  },
+
+  // Insulation, Fasteners & Plates, stock cover boards
+  ...SHARED_TPO_PRODUCTS,
+
+  // Cover Boards — Firestone
+  "cover-isogard-hd": {
+    id: "cover-isogard-hd",
+    name: 'ISOGARD HD 1/2" Cover Board',
+    category: "Cover Board",
+    unit: "Board (4' x 8')",
+    coveragePerUnit: 32,
+    coverageUnit: "sq ft",
+    defaultPrice: 30,
+    description: "Firestone high-density polyiso cover board",
+  },
+
+  // Vapor Barriers — Firestone
+  "vb-vforce": {
+    id: "vb-vforce",
+    name: "Firestone V-Force Vapor Barrier",
+    category: "Vapor Barrier",
+    unit: "Roll (39.4\" x 100')",
+    coveragePerUnit: 328,
+    coverageUnit: "sq ft",
+    defaultPrice: 295,
+    description: "Firestone self-adhering air & vapor barrier membrane",
+  },
+  "vb-poly": {
+    id: "vb-poly",
+    name: "6 mil Polyethylene Sheet",
+    category: "Vapor Barrier",
+    unit: "Roll (20' x 100')",
+    coveragePerUnit: 2000,
+    coverageUnit: "sq ft",
+    defaultPrice: 95,
+    description: "Loose-laid polyethylene vapor retarder for ballasted systems",
+  },
+
+  // Adhesives — Firestone
+  "adhesive-bonding": {
+    id: "adhesive-bonding",
+    name: "Firestone Bonding Adhesive BA-2004",
+    category: "Adhesive",
+    unit: "5 Gallon Pail",
+    coveragePerUnit: 300,
+    coverageUnit: "sq ft",
+    defaultPrice: 165,
+    description: "Firestone solvent-based contact adhesive for EPDM membrane and flashings, ~60 sq ft/gal",
+  },
+  "adhesive-insulation": {
+    id: "adhesive-insulation",
+    name: "Firestone I.S.O. Twin Pack Adhesive",
+    category: "Adhesive",
+    unit: "Twin Pack (Part A + B)",
+    coveragePerUnit: 2000,
+    coverageUnit: "sq ft",
+    defaultPrice: 980,
+    description: "Firestone two-component low-rise foam adhesive for insulation, ~20 squares per pack",
+  },
+
+  // Seaming — Firestone QuickSeam
+  "seam-tape-3in": {
+    id: "seam-tape-3in",
+    name: 'QuickSeam Splice Tape (3")',
+    category: "Seaming",
+    unit: "Roll (100')",
+    coveragePerUnit: 100,
+    coverageUnit: "lin ft",
+    defaultPrice: 68,
+    description: "Firestone 3\" EPDM splice tape for field seams and flashing laps",
+  },
+  "seam-tape-6in": {
+    id: "seam-tape-6in",
+    name: 'QuickSeam Splice Tape (6")',
+    category: "Seaming",
+    unit: "Roll (100')",
+    coveragePerUnit: 100,
+    coverageUnit: "lin ft",
+    defaultPrice: 125,
+    description: "Firestone 6\" EPDM splice tape for in-seam fastened (RMA) laps",
+  },
+  "seam-primer": {
+    id: "seam-primer",
+    name: "QuickPrime Plus Seam Primer",
+    category: "Seaming",
+    unit: "1 Gallon Can",
+    coveragePerUnit: 200,
+    coverageUnit: "lin ft",
+    defaultPrice: 78,
+    description: "Firestone primer for splice tape laps, ~200 lin ft of seam per gallon",
+  },
+
+  // Ballast
+  "ballast-stone": {
+    id: "ballast-stone",
+    name: 'River-Washed Ballast Stone (#4, 1-1/2"–2-1/2")',
+    category: "Ballast",
+    unit: "Ton",
+    coveragePerUnit: 2000,
+    coverageUnit: "lbs",
+    defaultPrice: 48,
+    description: "Rounded river stone ballast per ANSI/SPRI RP-4, delivered and craned",
+  },
+
+  // Accessories — Firestone
+  "acc-coverstrip": {
+    id: "acc-coverstrip",
+    name: 'QuickSeam Batten Cover Strip (6")',
+    category: "Accessories",
+    unit: "Roll (100')",
+    coveragePerUnit: 100,
+    coverageUnit: "lin ft",
+    defaultPrice: 165,
+    description: "Firestone tape-backed EPDM strip for detail work and edge metal",
+  },
+  "acc-termbar": {
+    id: "acc-termbar",
+    name: "Termination Bar",
+    category: "Accessories",
+    unit: "Piece (10')",
+    coveragePerUnit: 10,
+    coverageUnit: "lin ft",
+    defaultPrice: 15,
+    description: "Aluminum termination bar for securing membrane at walls",
+  },
+  "acc-caulk": {
+    id: "acc-caulk",
+    name: "Firestone Single-Ply Lap Sealant",
+    category: "Accessories",
+    unit: "Tube (10.1 oz)",
+    coveragePerUnit: 22,
+    coverageUnit: "lin ft",
+    defaultPrice: 11,
+    description: "Firestone lap sealant for termination bar and splice edges",
+  },
+  "acc-corners": {
+    id: "acc-corners",
+    name: "QuickSeam Inside/Outside Corner Flashing",
+    category: "Accessories",
+    unit: "Each",
+    coveragePerUnit: 1,
+    coverageUnit: "each",
+    defaultPrice: 12,
+    description: "Firestone pre-formed EPDM corners for inside/outside corner details",
+  },
+  "acc-pipe-boot": {
+    id: "acc-pipe-boot",
+    name: "QuickSeam Pipe Flashing",
+    category: "Accessories",
+    unit: "Each",
+    coveragePerUnit: 1,
+    coverageUnit: "each",
+    defaultPrice: 34,
+    description: "Firestone pre-molded EPDM pipe boot for roof penetrations",
+  },
+};
+
+// ---- CALCULATION ENGINE ----
+
+// Fastener zone constants are shared with Carlisle (FM/UL standard), see tpo-data.ts
+
+// Splice laps + trim: ~5% waste
+const MEMBRANE_WASTE_FACTOR = 1.05;
+const BOARD_WASTE_FACTOR = 1.03;
+const BASE_FLASHING_HEIGHT_INCHES = 18;
+
+// Standard RubberGard roll: 10' x 100'
+const ROLL_WIDTH_FT = 10;
+const ROLL_LENGTH_FT = 100;
+
+// Ballast weight per ANSI/SPRI RP-4 System 1 (lbs per sq ft)
+const BALLAST_PSF_FIELD = 10;
+const BALLAST_PSF_PERIMETER = 13; // perimeter & corner zones
+
+function screwProductId(lengthKey: string): string {
+  return `fastener-screws-${lengthKey}`;
+}
+function membraneScrewProductId(lengthKey: string): string {
+  return `fastener-screws-membrane-${lengthKey}`;
+}
+
+export function calculateEPDMEstimate(
+  assembly: AssemblyConfig,
+  measurements: TPOMeasurements,
+  customPrices: Record<string, number>
+): TPOEstimate {
+  const { roofArea, wallLinearFt, wallHeight, baseFlashingLF } = measurements;
+  const lineItems: TPOLineItem[] = [];
+
+  const getPrice = (productId: string): number => {
+    return customPrices[productId] ?? EPDM_PRODUCTS[productId]?.defaultPrice ?? 0;
+  };
+
+  const addItem = (productId: string, rawQty: number, note: string) => {
+    const product = EPDM_PRODUCTS[productId];
+    if (!product) return;
+    const unitsToOrder = Math.ceil(rawQty);
+    const unitPrice = getPrice(productId);
+    lineItems.push({
+      product,
+      quantityNeeded: rawQty,
+      unitsToOrder: Math.max(unitsToOrder, 0),
+      unitPrice,
+      totalCost: Math.max(unitsToOrder, 0) * unitPrice,
+      note,
+    });
+  };
+
+  const wallSqFt = wallLinearFt * wallHeight;
+  const baseFlashingSqFt = baseFlashingLF * (BASE_FLASHING_HEIGHT_INCHES / 12);
+
+  if (roofArea <= 0) {
+    return { assembly, measurements, lineItems: [], totalMaterialCost: 0, wallSqFt, baseFlashingSqFt };
+  }
+
+  const isMechanicallyAttached = assembly.attachmentMethod === "mechanically-attached";
+  const isBallasted = assembly.attachmentMethod === "ballasted";
+
+  // Sheet layout and wind zones from the building footprint, rolls running the length of the roof
+  const windZones = calculateWindZones(measurements);
+  const { roofLength, roofWidth } = windZones;
+  const seamRows = Math.ceil(roofWidth / ROLL_WIDTH_FT);
+
+  // ---- 1. VAPOR BARRIER ----
+  if (assembly.vaporBarrier !== "none") {
+    const vbProductMap: Record<string, string> = {
+      "v-force": "vb-vforce",
+      "poly-6mil": "vb-poly",
+    };
+    const vbId = vbProductMap[assembly.vaporBarrier];
+    if (vbId) {
+      const vbProduct = EPDM_PRODUCTS[vbId];
+      const rawQty = (roofArea * BOARD_WASTE_FACTOR) / vbProduct.coveragePerUnit;
+      addItem(vbId, rawQty, `Covers ${roofArea.toLocaleString()} sq ft roof area`);
+    }
+  }
+
+  // ---- 2. INSULATION (multi-layer) ----
+  const { totalThickness: totalInsThickness, activeLayers } = assembly.insulationEnabled
+    ? getInsulationSummary(assembly.insulationLayers)
+    : { totalThickness: 0, activeLayers: [] as { thickness: string; rValue: number; label: string }[] };
+  for (let i = 0; i < activeLayers.length; i++) {
+    const layer = activeLayers[i];
+    const insId = `insulation-${layer.thickness}`;
+    if (EPDM_PRODUCTS[insId]) {
+      const insProduct = EPDM_PRODUCTS[insId];
+      const rawQty = (roofArea * BOARD_WASTE_FACTOR) / insProduct.coveragePerUnit;
+      const layerLabel = activeLayers.length > 1 ? `Layer ${i + 1}: ` : "";
+      addItem(insId, rawQty, `${layerLabel}${rawQty.toFixed(0)} boards for ${roofArea.toLocaleString()} sq ft`);
+    }
+  }
+
+  // ---- 3. INSULATION ATTACHMENT ----
+  // Ballasted systems loose-lay the insulation under the stone — nothing to attach
+  if (totalInsThickness > 0 && !isBallasted) {
+    if (isMechanicallyAttached) {
+      const fieldBoards = (roofArea * windZones.fieldRatio) / BOARD_AREA;
+      const perimeterBoards = (roofArea * windZones.perimeterRatio) / BOARD_AREA;
+      const cornerBoards = (roofArea * windZones.cornerRatio) / BOARD_AREA;
+
+      const fieldFasteners = Math.ceil(fieldBoards * INSULATION_FASTENERS_PER_BOARD_FIELD);
+      const perimeterFasteners = Math.ceil(perimeterBoards * INSULATION_FASTENERS_PER_BOARD_PERIMETER);
+      const cornerFasteners = Math.ceil(cornerBoards * INSULATION_FASTENERS_PER_BOARD_CORNER);
+      const totalInsFasteners = fieldFasteners + perimeterFasteners + cornerFasteners;
+
+      const screwId = screwProductId(getResolvedFastenerLength(assembly));
+      const screwProduct = EPDM_PRODUCTS[screwId] ?? EPDM_PRODUCTS["fastener-screws-3in"];
+      const screwTypeName = EPDM_INSULATION_SCREW_TYPES.find(t => t.value === assembly.fastenerType)?.label ?? "Firestone Heavy-Duty Fastener";
+      addItem(
+        screwProduct.id,
+        totalInsFasteners / screwProduct.coveragePerUnit,
+        `${totalInsFasteners.toLocaleString()} ${screwTypeName} for ${totalInsThickness.toFixed(1)}" insulation (Field: ${fieldFasteners.toLocaleString()} / Perim: ${perimeterFasteners.toLocaleString()} / Corner: ${cornerFasteners.toLocaleString()})`
+      );
+
+      addItem(
+        "fastener-plates-3in",
+        totalInsFasteners / EPDM_PRODUCTS["fastener-plates-3in"].coveragePerUnit,
+        `${totalInsFasteners.toLocaleString()} insulation stress plates (1:1 with screws)`
+      );
+
+      const perimCornerFasteners = perimeterFasteners + cornerFasteners;
+      if (perimCornerFasteners > 0) {
+        addItem(
+          "fastener-plates-perimeter",
+          perimCornerFasteners / EPDM_PRODUCTS["fastener-plates-perimeter"].coveragePerUnit,
+          `${perimCornerFasteners.toLocaleString()} heavy-duty plates for perimeter & corner zones`
+        );
+      }
+    } else {
+      const numLayers = activeLayers.length;
+      const rawQty = (roofArea * BOARD_WASTE_FACTOR * numLayers) / EPDM_PRODUCTS["adhesive-insulation"].coveragePerUnit;
+      addItem("adhesive-insulation", rawQty, `Adhering ${numLayers} insulation layer${numLayers > 1 ? "s" : ""} over ${roofArea.toLocaleString()} sq ft`);
+    }
+  }
+
+  // ---- 4. COVER BOARD ----
+  if (assembly.coverBoard !== "none") {
+    const cbProductMap: Record<string, string> = {
+      "densdeck-prime-half": "cover-densdeck-half",
+      "densdeck-prime-quarter": "cover-densdeck-quarter",
+      "isogard-hd": "cover-isogard-hd",
+      "perlite": "cover-perlite",
+    };
+    const cbId = cbProductMap[assembly.coverBoard];
+    if (cbId) {
+      const cbProduct = EPDM_PRODUCTS[cbId];
+      const rawQty = (roofArea * BOARD_WASTE_FACTOR) / cbProduct.coveragePerUnit;
+      addItem(cbId, rawQty, `${rawQty.toFixed(0)} boards for ${roofArea.toLocaleString()} sq ft`);
+    }
+  }
+
+  // ---- 5. MEMBRANE ----
+  const memId = `membrane-${assembly.membraneThickness}`;
+  if (EPDM_PRODUCTS[memId]) {
+    const memProduct = EPDM_PRODUCTS[memId];
+    const rawQty = (roofArea * MEMBRANE_WASTE_FACTOR) / memProduct.coveragePerUnit;
+    addItem(memId, rawQty, `Includes 5% for splice lap waste`);
+  }
+
+  // ---- 6. MEMBRANE ATTACHMENT ----
+  if (isMechanicallyAttached) {
+    const fieldSeamLF = roofLength * seamRows * windZones.fieldRatio;
+    const perimeterSeamLF = roofLength * seamRows * windZones.perimeterRatio;
+    const cornerSeamLF = roofLength * seamRows * windZones.cornerRatio;
+
+    const fieldMemFasteners = Math.ceil(fieldSeamLF * MEMBRANE_FASTENERS_PER_LF_FIELD);
+    const perimMemFasteners = Math.ceil(perimeterSeamLF * MEMBRANE_FASTENERS_PER_LF_PERIMETER);
+    const cornerMemFasteners = Math.ceil(cornerSeamLF * MEMBRANE_FASTENERS_PER_LF_CORNER);
+    const totalMemFasteners = fieldMemFasteners + perimMemFasteners + cornerMemFasteners;
+
+    const memScrewId = membraneScrewProductId(getResolvedMembraneFastenerLength(assembly));
+    const memScrewProduct = EPDM_PRODUCTS[memScrewId] ?? EPDM_PRODUCTS["fastener-screws-membrane-2in"];
+    addItem(
+      memScrewProduct.id,
+      totalMemFasteners / memScrewProduct.coveragePerUnit,
+      `${totalMemFasteners.toLocaleString()} membrane screws in ${seamRows} seam rows (Field: ${fieldMemFasteners.toLocaleString()} / Perim: ${perimMemFasteners.toLocaleString()} / Corner: ${cornerMemFasteners.toLocaleString()})`
+    );
+
+    const memPlateOption = MEMBRANE_PLATE_TYPES.find(p => p.value === assembly.membranePlateType);
+    const memPlateId = memPlateOption?.productId ?? "fastener-plates-barbed";
+    const memPlateProduct = EPDM_PRODUCTS[memPlateId];
+    addItem(
+      memPlateId,
+      totalMemFasteners / memPlateProduct.coveragePerUnit,
+      `${totalMemFasteners.toLocaleString()} ${memPlateProduct.name} (1:1 with membrane screws)`
+    );
+  } else if (isBallasted) {
+    const fieldLbs = roofArea * windZones.fieldRatio * BALLAST_PSF_FIELD;
+    const edgeLbs = roofArea * (windZones.perimeterRatio + windZones.cornerRatio) * BALLAST_PSF_PERIMETER;
+    const totalLbs = fieldLbs + edgeLbs;
+    addItem(
+      "ballast-stone",
+      totalLbs / EPDM_PRODUCTS["ballast-stone"].coveragePerUnit,
+      `${Math.round(totalLbs).toLocaleString()} lbs stone (Field: ${BALLAST_PSF_FIELD} psf / Perim & Corner: ${BALLAST_PSF_PERIMETER} psf)`
+    );
+  }
+
+  // ---- 7. SEAMS ----
+  // Side laps between adjacent rolls, end laps where rolls butt along their length
+  const sideLapLF = Math.max(seamRows - 1, 0) * roofLength;
+  const endLapLF = Math.max(Math.ceil(roofLength / ROLL_LENGTH_FT) - 1, 0) * roofWidth;
+  const fieldSeamLF = sideLapLF + endLapLF;
+
+  // RMA fastens through the side laps, which need 6" tape to cover the plates
+  const tape6LF = isMechanicallyAttached ? sideLapLF : 0;
+  const tape3LF = fieldSeamLF - tape6LF + baseFlashingLF;
+
+  if (tape6LF > 0) {
+    addItem("seam-tape-6in", tape6LF / EPDM_PRODUCTS["seam-tape-6in"].coveragePerUnit, `${Math.round(tape6LF).toLocaleString()} lin ft of fastened side laps`);
+  }
+  if (tape3LF > 0) {
+    addItem("seam-tape-3in", tape3LF / EPDM_PRODUCTS["seam-tape-3in"].coveragePerUnit, `${Math.round(tape3LF).toLocaleString()} lin ft of field seams & base flashing laps`);
+  }
+
+  const primedLF = fieldSeamLF + baseFlashingLF + wallLinearFt;
+  if (primedLF > 0) {
+    addItem("seam-primer", primedLF / EPDM_PRODUCTS["seam-primer"].coveragePerUnit, `Priming ${Math.round(primedLF).toLocaleString()} lin ft of seams & flashing laps`);
+  }
+
+  // ---- 8. BASE FLASHING ----
+  if (baseFlashingLF > 0) {
+    const flashProduct = EPDM_PRODUCTS["flash-membrane-24"];
+    addItem("flash-membrane-24", baseFlashingLF / flashProduct.coveragePerUnit, `${baseFlashingLF.toLocaleString()} lin ft at 18" height`);
+  }
+
+  // ---- 9. BONDING ADHESIVE ----
+  // Field membrane (fully adhered only) plus every base flashing, regardless of attachment
+  const adheredFieldSqFt = assembly.attachmentMethod === "fully-adhered" ? roofArea * MEMBRANE_WASTE_FACTOR : 0;
+  const bondedSqFt = adheredFieldSqFt + baseFlashingSqFt;
+  if (bondedSqFt > 0) {
+    const note = adheredFieldSqFt > 0
+      ? `Adhering membrane over ${roofArea.toLocaleString()} sq ft${baseFlashingSqFt > 0 ? ` + ${baseFlashingSqFt.toFixed(0)} sq ft base flashing` : ""}`
+      : `Adhering ${baseFlashingSqFt.toFixed(0)} sq ft of base flashing`;
+    addItem("adhesive-bonding", bondedSqFt / EPDM_PRODUCTS["adhesive-bonding"].coveragePerUnit, note);
+  }
+
+  // ---- 10. WALL FLASHING ----
+  if (wallLinearFt > 0 && wallHeight > 0) {
+    const wallFlashProduct = EPDM_PRODUCTS["flash-membrane-12"];
+    addItem("flash-membrane-12", wallLinearFt / wallFlashProduct.coveragePerUnit, `${wallLinearFt.toLocaleString()} lin ft wall termination`);
+
+    const termBarQty = wallLinearFt / EPDM_PRODUCTS["acc-termbar"].coveragePerUnit;
+    addItem("acc-termbar", termBarQty, `Securing membrane at wall termination`);
+
+    const caulkQty = wallLinearFt / EPDM_PRODUCTS["acc-caulk"].coveragePerUnit;
+    addItem("acc-caulk", caulkQty, `Sealing termination bar at ${wallLinearFt.toLocaleString()} lin ft`);
+  }
+
+  // ---- 11. ACCESSORIES ----
+  const totalFlashingLF = baseFlashingLF + wallLinearFt;
+  if (totalFlashingLF > 0) {
+    const csQty = totalFlashingLF / EPDM_PRODUCTS["acc-coverstrip"].coveragePerUnit;
+    addItem("acc-coverstrip", csQty, `Detail work for ${totalFlashingLF.toLocaleString()} lin ft of flashing`);
+  }
+
+  if (wallLinearFt > 0) {
+    const estimatedCorners = Math.max(8, Math.ceil(wallLinearFt / 50));
+    addItem("acc-corners", estimatedCorners, `Estimated ${estimatedCorners} inside/outside corners`);
+  }
+
+  const totalMaterialCost = lineItems.reduce((sum, item) => sum + item.totalCost, 0);
+
+  return {
+    assembly,
+    measurements,
+    lineItems,
+    totalMaterialCost,
+    wallSqFt,
+    baseFlashingSqFt,
+  };
+}
+
+// ---- CSV EXPORT ----
+
+export function exportEPDMEstimateCSV(estimate: TPOEstimate): string {
+  const headers = [
+    "Category",
+    "Product",
+    "Unit",
+    "Qty Needed",
+    "Qty to Order",
+    "Unit Price",
+    "Total Cost",
+    "Notes",
+  ];
+
+  const rows = estimate.lineItems.map((item) => [
+    item.product.category,
+    item.product.name,
+    item.product.unit,
+    item.quantityNeeded.toFixed(2),
+    item.unitsToOrder.toString(),
+    `$${item.unitPrice.toFixed(2)}`,
+    `$${item.totalCost.toFixed(2)}`,
+    item.note,
+  ]);
+
+  rows.push(["", "", "", "", "", "TOTAL", `$${estimate.totalMaterialCost.toFixed(2)}`, ""]);
+
+  const insSummary = getInsulationSummary(estimate.assembly.insulationLayers);
+  const insDesc = insSummary.activeLayers.length > 0
+    ? insSummary.activeLayers.map((l, i) => `Layer ${i + 1}: ${l.label}`).join(" + ")
+    : "None";
+
+  const csvContent = [
+    `Firestone RubberGard EPDM Estimate - ${new Date().toLocaleDateString()}`,
+    `Roof Area: ${estimate.measurements.roofArea.toLocaleString()} sq ft`,
+    ...getSectionSummaryLines(estimate),
+    `Insulation: ${insDesc} (Total: ${insSummary.totalThickness.toFixed(1)}" / R-${insSummary.totalRValue.toFixed(1)})`,
+    `Wall: ${estimate.measurements.wallLinearFt} LF x ${estimate.measurements.wallHeight} ft = ${estimate.wallSqFt.toLocaleString()} sq ft`,
+    `Base Flashing: ${estimate.measurements.baseFlashingLF} LF at 18" height = ${estimate.baseFlashingSqFt.toFixed(0)} sq ft`,
+    "",
+    headers.join(","),
+    ...rows.map((r) => r.map((c) => `"${c}"`).join(",")),
+  ].join("\n");
+
+  return csvContent;
+}
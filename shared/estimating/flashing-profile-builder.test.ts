@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_FABRICATION_RATES,
+  getBendCount,
+  getDevelopedWidth,
+  getHemCount,
+  getProfileCrossSection,
+  newCustomProfile,
+  priceFabricatedFlashing,
+  type CustomFlashingProfile,
+} from "./flashing-profile-builder";
+
+/** A coping cap: 4" face, 12" top, 4" face, hemmed both ends */
+const coping: CustomFlashingProfile = {
+  id: "custom-1",
+  name: "Coping",
+  legs: [
+    { length: 4, bendAngle: 0 },
+    { length: 12, bendAngle: 90 },
+    { length: 4, bendAngle: 90 },
+  ],
+  hemStart: true,
+  hemEnd: true,
+  stockId: "sheet-4x10",
+};
+
+describe("Flashing Profile Builder", () => {
+  describe("geometry", () => {
+    it("develops the legs plus a hem allowance per hem", () => {
+      expect(getDevelopedWidth(coping)).toBe(21);
+      expect(getDevelopedWidth({ ...coping, hemStart: false, hemEnd: false })).toBe(20);
+    });
+
+    it("counts bends between legs and hems separately", () => {
+      expect(getBendCount(coping)).toBe(2);
+      expect(getHemCount(coping)).toBe(2);
+      // A straight continuation isn't a bend
+      expect(getBendCount({ ...coping, legs: [...coping.legs, { length: 2, bendAngle: 0 }] })).toBe(2);
+    });
+
+    it("new profiles are a hemmed 4 × 4 angle", () => {
+      const profile = newCustomProfile("custom-2");
+      expect(getDevelopedWidth(profile)).toBe(8.5);
+      expect(getBendCount(profile)).toBe(1);
+    });
+
+    it("traces the cross-section by turning at each bend", () => {
+      const section = getProfileCrossSection({ ...coping, hemStart: false, hemEnd: false });
+      const rounded = section.points.map(([x, y]) => [Math.round(x * 100) / 100, Math.round(y * 100) / 100]);
+      expect(rounded).toEqual([
+        [0, 0],
+        [4, 0],
+        [4, 12],
+        [0, 12],
+      ]);
+      expect(section.width).toBeCloseTo(4);
+      expect(section.height).toBeCloseTo(12);
+    });
+
+    it("draws a hem for each hemmed end", () => {
+      expect(getProfileCrossSection(coping).hems).toHaveLength(2);
+      expect(getProfileCrossSection({ ...coping, hemStart: false }).hems).toHaveLength(1);
+    });
+  });
+
+  describe("priceFabricatedFlashing", () => {
+    it("cuts whole pieces from blanks of stock", () => {
+      // 95 LF → 10 pieces; a 48" sheet yields two 21" strips → 5 blanks of 4' × 10'
+      const quote = priceFabricatedFlashing(coping, 95, 5);
+      expect(quote.pieces).toBe(10);
+      expect(quote.stripsPerBlank).toBe(2);
+      expect(quote.stockSqFt).toBe(200);
+      expect(quote.stockCost).toBe(1000);
+    });
+
+    it("charges the brake per bend and hemming per hem, per piece", () => {
+      const quote = priceFabricatedFlashing(coping, 95, 5);
+      expect(quote.brakeCost).toBe(10 * 2 * DEFAULT_FABRICATION_RATES.brakeChargePerBend);
+      expect(quote.hemCost).toBe(10 * 2 * DEFAULT_FABRICATION_RATES.hemChargePerHem);
+      expect(quote.totalCost).toBe(quote.stockCost + quote.brakeCost + quote.hemCost);
+      expect(quote.pricePerLF).toBeCloseTo(quote.totalCost / 95, 2);
+    });
+
+    it("uses the shop's rates and piece length", () => {
+      const quote = priceFabricatedFlashing(coping, 100, 5, { brakeChargePerBend: 3, hemChargePerHem: 0, pieceLengthFt: 8 });
+      expect(quote.pieces).toBe(13);
+      expect(quote.brakeCost).toBe(13 * 2 * 3);
+      expect(quote.hemCost).toBe(0);
+    });
+
+    it("narrower coil yields fewer strips per blank", () => {
+      const quote = priceFabricatedFlashing({ ...coping, stockId: "coil-24" }, 100, 5);
+      expect(quote.stripsPerBlank).toBe(1);
+      expect(quote.stockSqFt).toBe(200);
+    });
+
+    it("flags profiles wider than the stock", () => {
+      const wide = { ...coping, legs: [...coping.legs, { length: 10, bendAngle: -90 }], stockId: "coil-24" };
+      const quote = priceFabricatedFlashing(wide, 10, 5);
+      expect(quote.fitsStock).toBe(false);
+      expect(quote.stockSqFt).toBeCloseTo((31 / 12) * 10, 2);
+    });
+
+    it("prices nothing for zero linear feet", () => {
+      const quote = priceFabricatedFlashing(coping, 0, 5);
+      expect(quote.totalCost).toBe(0);
+      expect(quote.pricePerLF).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Flashing Profile Builder — Custom shop-fabricated sheet metal profiles.
+ *
+ * A profile is a chain of legs (outside dimensions, in inches) joined by
+ * bends. Each leg after the first turns from the previous one by its bend
+ * angle (positive = counter-clockwise), and either end can be hemmed
+ * (folded back 180° to stiffen the edge and hide the cut).
+ *
+ *   Developed width = Σ leg lengths + ½" per hem
+ *
+ * Shop pricing follows how the brake shop charges:
+ *   - Stock: pieces are cut from sheet or coil blanks as long as a piece
+ *     (10 ft), each blank yielding ⌊stock width ÷ developed width⌋ strips
+ *   - Brake: a charge per bend per piece
+ *   - Hemming: a charge per hem per piece
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ProfileLeg {
+  length: number; // inches
+  bendAngle: number; // degrees from the previous leg; ignored on the first leg
+}
+
+export interface CustomFlashingProfile {
+  id: string; // "custom-…"
+  name: string;
+  legs: ProfileLeg[];
+  hemStart: boolean;
+  hemEnd: boolean;
+  stockId: string; // STOCK_OPTIONS id the pieces are cut from
+}
+
+export interface StockOption {
+  id: string;
+  label: string;
+  kind: "sheet" | "coil";
+  widthInches: number;
+  lengthFt?: number; // sheets only; coil is bought by the foot
+}
+
+export interface FabricationRates {
+  brakeChargePerBend: number; // $ per bend per piece
+  hemChargePerHem: number; // $ per hem per piece
+  pieceLengthFt: number;
+}
+
+export interface FabricationQuote {
+  developedWidth: number;
+  bendCount: number;
+  hemCount: number;
+  pieces: number;
+  stripsPerBlank: number; // strips of developed width per blank of stock
+  fitsStock: boolean; // false when the developed width is wider than the stock
+  stockSqFt: number;
+  stockCost: number;
+  brakeCost: number;
+  hemCost: number;
+  totalCost: number;
+  pricePerLF: number;
+}
+
+export interface ProfileCrossSection {
+  /** Profile outline in inches, y up */
+  points: [number, number][];
+  /** Hem returns, drawn alongside the end legs */
+  hems: [number, number][][];
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+/** Material a hem adds to the developed width, inches */
+export const HEM_ALLOWANCE = 0.5;
+
+/** Gap drawn between a hem and its leg, inches */
+const HEM_GAP = 0.15;
+
+export const STOCK_OPTIONS: StockOption[] = [
+  { id: "sheet-4x10", label: "4' × 10' Sheet", kind: "sheet", widthInches: 48, lengthFt: 10 },
+  { id: "coil-24", label: '24" Coil', kind: "coil", widthInches: 24 },
+  { id: "coil-48", label: '48" Coil', kind: "coil", widthInches: 48 },
+];
+
+export const DEFAULT_FABRICATION_RATES: FabricationRates = {
+  brakeChargePerBend: 1.5,
+  hemChargePerHem: 2.0,
+  pieceLengthFt: 10,
+};
+
+/** A new custom profile: a 4" × 4" angle with a hemmed drip edge */
+export function newCustomProfile(id: string, name = "Custom Profile"): CustomFlashingProfile {
+  return {
+    id,
+    name,
+    legs: [
+      { length: 4, bendAngle: 0 },
+      { length: 4, bendAngle: -90 },
+    ],
+    hemStart: false,
+    hemEnd: true,
+    stockId: STOCK_OPTIONS[0].id,
+  };
+}
+
+export function getStockOption(id: string): StockOption {
+  return STOCK_OPTIONS.find((s) => s.id === id) ?? STOCK_OPTIONS[0];
+}
+
+// ── Geometry ───────────────────────────────────────────────────────────────
+
+/** Flat width of stock the profile is bent from, to the nearest 1/8" */
+export function getDevelopedWidth(profile: CustomFlashingProfile): number {
+  const legs = profile.legs.reduce((sum, leg) => sum + Math.max(0, leg.length), 0);
+  const hems = getHemCount(profile) * HEM_ALLOWANCE;
+  return Math.round((legs + hems) * 8) / 8;
+}
+
+/** Brake bends — legs that turn from the previous one (hems are counted separately) */
+export function getBendCount(profile: CustomFlashingProfile): number {
+  return profile.legs.slice(1).filter((leg) => leg.bendAngle % 360 !== 0).length;
+}
+
+export function getHemCount(profile: CustomFlashingProfile): number {
+  return (profile.hemStart ? 1 : 0) + (profile.hemEnd ? 1 : 0);
+}
+
+/**
+ * The profile's cross-section, walking the legs from the start at heading 0°
+ * (to the right) and turning by each bend angle.
+ */
+export function getProfileCrossSection(profile: CustomFlashingProfile): ProfileCrossSection {
+  const points: [number, number][] = [[0, 0]];
+  const headings: number[] = [];
+  let heading = 0;
+  let [x, y] = [0, 0];
+  profile.legs.forEach((leg, idx) => {
+    if (idx > 0) heading += leg.bendAngle;
+    const radians = (heading * Math.PI) / 180;
+    x += Math.max(0, leg.length) * Math.cos(radians);
+    y += Math.max(0, leg.length) * Math.sin(radians);
+    points.push([x, y]);
+    headings.push(radians);
+  });
+
+  // A hem folds back along its leg, offset to the inside of the first/last bend
+  const hem = (end: [number, number], radians: number, side: number): [number, number][] => {
+    const [nx, ny] = [-Math.sin(radians) * side, Math.cos(radians) * side];
+    const start: [number, number] = [end[0] + nx * HEM_GAP, end[1] + ny * HEM_GAP];
+    return [end, start, [start[0] - Math.cos(radians) * HEM_ALLOWANCE, start[1] - Math.sin(radians) * HEM_ALLOWANCE]];
+  };
+  const hems: [number, number][][] = [];
+  if (headings.length > 0) {
+    const firstTurn = Math.sign(profile.legs[1]?.bendAngle ?? 1) || 1;
+    const lastTurn = Math.sign(profile.legs[profile.legs.length - 1].bendAngle) || 1;
+    // The start hem points back toward the start, so walk the first leg in reverse
+    if (profile.hemStart) hems.push(hem(points[0], headings[0] + Math.PI, -firstTurn));
+    if (profile.hemEnd) hems.push(hem(points[points.length - 1], headings[headings.length - 1], lastTurn));
+  }
+
+  const all = [...points, ...hems.flat()];
+  const xs = all.map(([px]) => px);
+  const ys = all.map(([, py]) => py);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    points,
+    hems,
+    minX,
+    minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY,
+  };
+}
+
+// ── Fabrication Pricing ────────────────────────────────────────────────────
+
+/**
+ * Price `linearFeet` of a custom profile as the shop fabricates it: whole
+ * pieces cut from blanks of stock, plus brake and hemming charges per piece.
+ */
+export function priceFabricatedFlashing(
+  profile: CustomFlashingProfile,
+  linearFeet: number,
+  stockPricePerSqFt: number,
+  rates: FabricationRates = DEFAULT_FABRICATION_RATES,
+): FabricationQuote {
+  const stock = getStockOption(profile.stockId);
+  const developedWidth = getDevelopedWidth(profile);
+  const bendCount = getBendCount(profile);
+  const hemCount = getHemCount(profile);
+
+  const pieces = linearFeet > 0 ? Math.ceil(linearFeet / rates.pieceLengthFt) : 0;
+  const fitsStock = developedWidth > 0 && developedWidth <= stock.widthInches;
+  const stripsPerBlank = fitsStock ? Math.floor(stock.widthInches / developedWidth) : 1;
+  const blanks = Math.ceil(pieces / stripsPerBlank);
+  // Too wide for the stock: priced as its own developed width of wider stock
+  const blankWidth = fitsStock ? stock.widthInches : developedWidth;
+  const stockSqFt = Math.round(blanks * (blankWidth / 12) * rates.pieceLengthFt * 100) / 100;
+
+  const stockCost = Math.round(stockSqFt * stockPricePerSqFt * 100) / 100;
+  const brakeCost = Math.round(pieces * bendCount * rates.brakeChargePerBend * 100) / 100;
+  const hemCost = Math.round(pieces * hemCount * rates.hemChargePerHem * 100) / 100;
+  const totalCost = Math.round((stockCost + brakeCost + hemCost) * 100) / 100;
+
+  return {
+    developedWidth,
+    bendCount,
+    hemCount,
+    pieces,
+    stripsPerBlank,
+    fitsStock,
+    stockSqFt,
+    stockCost,
+    brakeCost,
+    hemCost,
+    totalCost,
+    pricePerLF: linearFeet > 0 ? Math.round((totalCost / linearFeet) * 100) / 100 : 0,
+  };
+}
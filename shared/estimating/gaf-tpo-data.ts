@@ -27,21 +27,29 @@ export {
   DECK_TYPES,
   INSULATION_THICKNESSES,
   getInsulationSummary,
-  FIELD_ZONE_RATIO,
-  PERIMETER_ZONE_RATIO,
-  CORNER_ZONE_RATIO,
+  calculateWindZones,
 } from "./tpo-data";
 
 import {
   getInsulationSummary,
-  FIELD_ZONE_RATIO,
-  PERIMETER_ZONE_RATIO,
-  CORNER_ZONE_RATIO,
+  getSectionSummaryLines,
+  calculateWindZones,
+  getWindDesignInputs,
+  formatZonePressures,
+  DEFAULT_ZONE_PATTERNS,
   MEMBRANE_PLATE_TYPES,
   getResolvedFastenerLength,
   getResolvedMembraneFastenerLength,
 } from "./tpo-data";
 
+import {
+  resolveZoneFastening,
+  getMembraneFastenersPerLF,
+  type FastenerPattern,
+  type WindFastenerRow,
+  type ZoneFasteningMap,
+} from "./wind-uplift-data";
+
 // ---- GAF-SPECIFIC FASTENER OPTIONS (Drill-Tec catalog) ----
 
 export const GAF_INSULATION_SCREW_TYPES = [
@@ -735,15 +743,23 @@ export const GAF_TPO_PRODUCTS: Record<string, TPOProduct> = {
 
 // ---- CALCULATION ENGINE ----
 
-// Fastener zone constants (same as Carlisle — FM/UL standard)
-const INSULATION_FASTENERS_PER_BOARD_FIELD = 4;
-const INSULATION_FASTENERS_PER_BOARD_PERIMETER = 8;
-const INSULATION_FASTENERS_PER_BOARD_CORNER = 12;
+// Standard zone fastening (no wind design) is the same as Carlisle — FM/UL standard
 const BOARD_AREA = 32;
 
-const MEMBRANE_FASTENERS_PER_LF_FIELD = 1;
-const MEMBRANE_FASTENERS_PER_LF_PERIMETER = 1.5;
-const MEMBRANE_FASTENERS_PER_LF_CORNER = 2;
+// GAF EverGuard mechanically attached patterns with Drill-Tec fasteners and plates.
+// Allowable design pressure is the FM rating divided by a 2.0 safety factor.
+export const GAF_FASTENER_PATTERNS: WindFastenerRow[] = [
+  { label: "FM 1-60", maxDesignPressure: 30, insulationFastenersPerBoard: 5, membraneFastenerSpacingIn: 12, seamSpacingFt: 10 },
+  { label: "FM 1-90", maxDesignPressure: 45, insulationFastenersPerBoard: 8, membraneFastenerSpacingIn: 9, seamSpacingFt: 10 },
+  { label: "FM 1-120", maxDesignPressure: 60, insulationFastenersPerBoard: 8, membraneFastenerSpacingIn: 6, seamSpacingFt: 10 },
+  { label: "FM 1-165", maxDesignPressure: 82.5, insulationFastenersPerBoard: 12, membraneFastenerSpacingIn: 6, seamSpacingFt: 5 },
+  { label: "FM 1-210", maxDesignPressure: 105, insulationFastenersPerBoard: 16, membraneFastenerSpacingIn: 4, seamSpacingFt: 5 },
+];
+
+/** GAF fastener pattern for each wind zone */
+export function getGAFZoneFastening(measurements: TPOMeasurements): ZoneFasteningMap {
+  return resolveZoneFastening(getWindDesignInputs(measurements), GAF_FASTENER_PATTERNS, DEFAULT_ZONE_PATTERNS);
+}
 
 const MEMBRANE_WASTE_FACTOR = 1.05;
 const BOARD_WASTE_FACTOR = 1.03;
@@ -832,21 +848,24 @@ export function calculateGAFTPOEstimate(
   }
 
   // ---- 3. INSULATION ATTACHMENT ----
+  const windZones = calculateWindZones(measurements);
+  const zoneFastening = getGAFZoneFastening(measurements);
+  const upliftNote = formatZonePressures(zoneFastening);
   const coverBoardThickness = COVER_BOARD_THICKNESS[assembly.coverBoard] ?? 0;
 
   if (totalInsThickness > 0) {
     if (assembly.attachmentMethod === "mechanically-attached") {
-      const fieldArea = roofArea * FIELD_ZONE_RATIO;
-      const perimeterArea = roofArea * PERIMETER_ZONE_RATIO;
-      const cornerArea = roofArea * CORNER_ZONE_RATIO;
+      const fieldArea = roofArea * windZones.fieldRatio;
+      const perimeterArea = roofArea * windZones.perimeterRatio;
+      const cornerArea = roofArea * windZones.cornerRatio;
 
       const fieldBoards = fieldArea / BOARD_AREA;
       const perimeterBoards = perimeterArea / BOARD_AREA;
       const cornerBoards = cornerArea / BOARD_AREA;
 
-      const fieldFasteners = Math.ceil(fieldBoards * INSULATION_FASTENERS_PER_BOARD_FIELD);
-      const perimeterFasteners = Math.ceil(perimeterBoards * INSULATION_FASTENERS_PER_BOARD_PERIMETER);
-      const cornerFasteners = Math.ceil(cornerBoards * INSULATION_FASTENERS_PER_BOARD_CORNER);
+      const fieldFasteners = Math.ceil(fieldBoards * zoneFastening.field.pattern.insulationFastenersPerBoard);
+      const perimeterFasteners = Math.ceil(perimeterBoards * zoneFastening.perimeter.pattern.insulationFastenersPerBoard);
+      const cornerFasteners = Math.ceil(cornerBoards * zoneFastening.corner.pattern.insulationFastenersPerBoard);
       const totalInsFasteners = fieldFasteners + perimeterFasteners + cornerFasteners;
 
       // Select screw length based on assembly config or auto-select
@@ -858,7 +877,7 @@ export function calculateGAFTPOEstimate(
       addItem(
         screwId,
         screwBoxes,
-        `${totalInsFasteners.toLocaleString()} ${screwTypeName} for ${totalInsThickness.toFixed(1)}" insulation + ${coverBoardThickness}" cover board (Field: ${fieldFasteners.toLocaleString()} / Perim: ${perimeterFasteners.toLocaleString()} / Corner: ${cornerFasteners.toLocaleString()})`
+        `${totalInsFasteners.toLocaleString()} ${screwTypeName} for ${totalInsThickness.toFixed(1)}" insulation + ${coverBoardThickness}" cover board (Field: ${fieldFasteners.toLocaleString()} / Perim: ${perimeterFasteners.toLocaleString()} / Corner: ${cornerFasteners.toLocaleString()})${upliftNote ? ` at ${upliftNote}` : ""}`
       );
 
       const plateBoxes = totalInsFasteners / GAF_TPO_PRODUCTS["fastener-plates-3in"].coveragePerUnit;
@@ -913,17 +932,18 @@ export function calculateGAFTPOEstimate(
     const rawQty = (roofArea * MEMBRANE_WASTE_FACTOR) / GAF_TPO_PRODUCTS["adhesive-bonding"].coveragePerUnit;
     addItem("adhesive-bonding", rawQty, `Adhering membrane over ${roofArea.toLocaleString()} sq ft`);
   } else {
-    const roofWidth = Math.sqrt(roofArea);
-    const roofLength = roofArea / roofWidth;
+    const { roofLength, roofWidth } = windZones;
     const seamRows = Math.ceil(roofWidth / 10);
 
-    const fieldSeamLF = roofLength * seamRows * FIELD_ZONE_RATIO;
-    const perimeterSeamLF = roofLength * seamRows * PERIMETER_ZONE_RATIO;
-    const cornerSeamLF = roofLength * seamRows * CORNER_ZONE_RATIO;
+    const zoneSeamLF = (ratio: number, pattern: FastenerPattern) =>
+      roofLength * seamRows * ratio * (10 / pattern.seamSpacingFt);
+    const fieldSeamLF = zoneSeamLF(windZones.fieldRatio, zoneFastening.field.pattern);
+    const perimeterSeamLF = zoneSeamLF(windZones.perimeterRatio, zoneFastening.perimeter.pattern);
+    const cornerSeamLF = zoneSeamLF(windZones.cornerRatio, zoneFastening.corner.pattern);
 
-    const fieldMemFasteners = Math.ceil(fieldSeamLF * MEMBRANE_FASTENERS_PER_LF_FIELD);
-    const perimMemFasteners = Math.ceil(perimeterSeamLF * MEMBRANE_FASTENERS_PER_LF_PERIMETER);
-    const cornerMemFasteners = Math.ceil(cornerSeamLF * MEMBRANE_FASTENERS_PER_LF_CORNER);
+    const fieldMemFasteners = Math.ceil(fieldSeamLF * getMembraneFastenersPerLF(zoneFastening.field.pattern));
+    const perimMemFasteners = Math.ceil(perimeterSeamLF * getMembraneFastenersPerLF(zoneFastening.perimeter.pattern));
+    const cornerMemFasteners = Math.ceil(cornerSeamLF * getMembraneFastenersPerLF(zoneFastening.corner.pattern));
     const totalMemFasteners = fieldMemFasteners + perimMemFasteners + cornerMemFasteners;
 
     // Membrane screws - use assembly selection or auto
@@ -934,7 +954,7 @@ export function calculateGAFTPOEstimate(
     addItem(
       memScrewProduct.id,
       memScrewBoxes,
-      `${totalMemFasteners.toLocaleString()} membrane screws in ${seamRows} seam rows (Field: ${fieldMemFasteners.toLocaleString()} / Perim: ${perimMemFasteners.toLocaleString()} / Corner: ${cornerMemFasteners.toLocaleString()})`
+      `${totalMemFasteners.toLocaleString()} membrane screws in ${seamRows} seam rows (Field: ${fieldMemFasteners.toLocaleString()} / Perim: ${perimMemFasteners.toLocaleString()} / Corner: ${cornerMemFasteners.toLocaleString()})${upliftNote ? ` at ${upliftNote}` : ""}`
     );
 
     // Membrane plates - use assembly selection
@@ -1032,6 +1052,7 @@ export function exportGAFTPOEstimateCSV(estimate: TPOEstimate): string {
   const csvContent = [
     `GAF EverGuard TPO Estimate - ${new Date().toLocaleDateString()}`,
     `Roof Area: ${estimate.measurements.roofArea.toLocaleString()} sq ft`,
+    ...getSectionSummaryLines(estimate),
     `Insulation: ${insDesc} (Total: ${insSummary.totalThickness.toFixed(1)}" / R-${insSummary.totalRValue.toFixed(1)})`,
     `Wall: ${estimate.measurements.wallLinearFt} LF x ${estimate.measurements.wallHeight} ft = ${estimate.wallSqFt.toLocaleString()} sq ft`,
     `Base Flashing: ${estimate.measurements.baseFlashingLF} LF at 18" height = ${estimate.baseFlashingSqFt.toFixed(0)} sq ft`,
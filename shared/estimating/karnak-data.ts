@@ -4,8 +4,19 @@
  *
  * Coverage rates sourced from METAL-KYNAR 702-404-501-210915.1 spec sheet
  * Section 2.9 - Material List & Coverage Rates
+ *
+ * The calculation engine is shared by every fluid-applied coating system:
+ * a CoatingSystem is just a product list, and each product's coverageType
+ * decides which measurement it is quantified against.
  */
 
+export type WarrantyTerm = 10 | 15 | 20;
+
+export interface MilSpec {
+  dryMilsPerCoat: number;
+  volumeSolids: number; // fraction, e.g. 0.96
+}
+
 export interface KarnakProduct {
   id: string;
   name: string;
@@ -16,8 +27,40 @@ export interface KarnakProduct {
   unitLabel: string;
   defaultPrice: number;
   coverageType: "area" | "horizontal_seam" | "vertical_seam" | "horizontal_seam_fabric";
-  coverageRate: number; // units of coverage per purchase unit
+  coverageRate: number; // units of coverage per purchase unit (per coat)
   coverageUnit: string;
+  /** Film build the coverage rate was derived from (mil-driven coatings only) */
+  milSpec?: MilSpec;
+  /** Number of coats required for each warranty term; defaults to 1 */
+  coatsByWarranty?: Record<WarrantyTerm, number>;
+}
+
+export interface CoatingSystem {
+  id: string;
+  name: string;
+  shortName: string;
+  manufacturer: string;
+  /** Prefix used for this system's productIds in the pricing database */
+  pricingPrefix: string;
+  specReference: string;
+  substrate: string;
+  tagline: string;
+  website: string;
+  products: KarnakProduct[];
+  /** Warranty terms offered; systems without terms ignore warrantyYears */
+  warrantyTerms?: WarrantyTerm[];
+  defaultWarranty?: WarrantyTerm;
+}
+
+/** Wet gallon of 100% solids coating spread at 1 mil covers 1,604 sq. ft. */
+const SQFT_PER_GALLON_AT_ONE_MIL = 1604;
+
+/**
+ * Coverage (sq. ft. per purchase unit) for one coat at the given dry film
+ * thickness: 1604 × volume solids ÷ dry mils, scaled by the unit's gallons.
+ */
+export function coverageFromMils(spec: MilSpec, gallonsPerUnit: number): number {
+  return (SQFT_PER_GALLON_AT_ONE_MIL * spec.volumeSolids * gallonsPerUnit) / spec.dryMilsPerCoat;
 }
 
 export const KARNAK_PRODUCTS: KarnakProduct[] = [
@@ -114,14 +157,29 @@ export const KARNAK_PRODUCTS: KarnakProduct[] = [
   },
 ];
 
+export const KARNAK_METAL_KYNAR_SYSTEM: CoatingSystem = {
+  id: "karnak-metal-kynar",
+  name: "Karnak Metal Kynar Coating System",
+  shortName: "Karnak Metal Kynar",
+  manufacturer: "Karnak",
+  pricingPrefix: "karnak",
+  specReference: "METAL-KYNAR 702-404-501-210915.1",
+  substrate: "Metal – Kynar® Finish",
+  tagline: "White Reflective Coating System (702-404-501) — Calculate material quantities and costs for your metal roof restoration project.",
+  website: "https://www.karnakcorp.com",
+  products: KARNAK_PRODUCTS,
+};
+
 export interface EstimateInput {
   squareFootage: number;
   verticalSeamsLF: number;
   horizontalSeamsLF: number;
+  warrantyYears?: WarrantyTerm;
 }
 
 export interface MaterialLineItem {
   product: KarnakProduct;
+  coats: number;
   quantityNeeded: number; // exact fractional quantity
   quantityToOrder: number; // rounded up to whole units
   unitPrice: number;
@@ -132,21 +190,32 @@ export interface EstimateResult {
   lineItems: MaterialLineItem[];
   totalMaterialCost: number;
   inputs: EstimateInput;
+  system: CoatingSystem;
 }
 
-export function calculateEstimate(
+export function getCoatCount(product: KarnakProduct, warrantyYears?: WarrantyTerm): number {
+  if (!product.coatsByWarranty || !warrantyYears) return 1;
+  return product.coatsByWarranty[warrantyYears] ?? 1;
+}
+
+export function calculateCoatingEstimate(
+  system: CoatingSystem,
   inputs: EstimateInput,
   customPrices: Record<string, number>
 ): EstimateResult {
   const { squareFootage, verticalSeamsLF, horizontalSeamsLF } = inputs;
+  const warrantyYears = system.warrantyTerms?.includes(inputs.warrantyYears as WarrantyTerm)
+    ? inputs.warrantyYears
+    : system.defaultWarranty;
 
-  const lineItems: MaterialLineItem[] = KARNAK_PRODUCTS.map((product) => {
+  const lineItems: MaterialLineItem[] = system.products.map((product) => {
     const unitPrice = customPrices[product.id] ?? product.defaultPrice;
+    const coats = getCoatCount(product, warrantyYears);
     let quantityNeeded = 0;
 
     switch (product.coverageType) {
       case "area":
-        quantityNeeded = squareFootage / product.coverageRate;
+        quantityNeeded = (squareFootage * coats) / product.coverageRate;
         break;
       case "horizontal_seam":
         quantityNeeded = horizontalSeamsLF / product.coverageRate;
@@ -164,6 +233,7 @@ export function calculateEstimate(
 
     return {
       product,
+      coats,
       quantityNeeded,
       quantityToOrder,
       unitPrice,
@@ -179,10 +249,27 @@ export function calculateEstimate(
   return {
     lineItems,
     totalMaterialCost,
-    inputs,
+    inputs: { ...inputs, warrantyYears },
+    system,
   };
 }
 
+/** Karnak Metal Kynar estimate — the original single-system entry point. */
+export function calculateEstimate(
+  inputs: EstimateInput,
+  customPrices: Record<string, number>
+): EstimateResult {
+  return calculateCoatingEstimate(KARNAK_METAL_KYNAR_SYSTEM, inputs, customPrices);
+}
+
+/** Total dry film thickness the warranty term calls for across all coat products. */
+export function getTotalDryMils(system: CoatingSystem, warrantyYears?: WarrantyTerm): number {
+  return system.products.reduce((sum, product) => {
+    if (!product.milSpec) return sum;
+    return sum + product.milSpec.dryMilsPerCoat * getCoatCount(product, warrantyYears);
+  }, 0);
+}
+
 export function formatCurrency(amount: number): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -9,9 +9,10 @@ export interface LaborLineItem {
   id: string;
   label: string;
   description: string;
-  rateType: "per_sqft" | "per_hour" | "flat";
+  /** per_detail_hour: hours come from the penetration and sheet metal install time */
+  rateType: "per_sqft" | "per_hour" | "per_detail_hour" | "flat";
   defaultRate: number;
-  defaultQuantity: number; // hours or 1 for flat/per_sqft
+  defaultQuantity: number; // hours or 1 for flat/per_sqft/per_detail_hour
   enabled: boolean;
 }
 
@@ -62,6 +63,15 @@ export const DEFAULT_LABOR_ITEMS: LaborLineItem[] = [
     defaultQuantity: 8,
     enabled: false,
   },
+  {
+    id: "labor-detail",
+    label: "Penetration & Flashing Detail Labor",
+    description: "Install time for the penetrations and sheet metal flashing in Roof Additions (per hr)",
+    rateType: "per_detail_hour",
+    defaultRate: 55.00,
+    defaultQuantity: 1,
+    enabled: true,
+  },
 ];
 
 export const DEFAULT_EQUIPMENT_ITEMS: EquipmentLineItem[] = [
@@ -112,6 +122,11 @@ export const DEFAULT_EQUIPMENT_ITEMS: EquipmentLineItem[] = [
   },
 ];
 
+/** Detail install minutes as labor hours, to the hundredth */
+export function toDetailHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
 export interface LaborEquipmentState {
   laborItems: Array<LaborLineItem & { rate: number; quantity: number }>;
   equipmentItems: Array<EquipmentLineItem & { rate: number; quantity: number }>;
@@ -124,10 +139,17 @@ export interface LaborEquipmentTotals {
   equipmentBreakdown: Array<{ label: string; cost: number; detail: string }>;
 }
 
+/**
+ * Calculate labor and equipment totals for a coating project.
+ *
+ * @param detailLaborMinutes - Penetration and sheet metal install time (for per_detail_hour items)
+ */
 export function calculateLaborEquipmentTotals(
   state: LaborEquipmentState,
-  squareFootage: number
+  squareFootage: number,
+  detailLaborMinutes: number = 0,
 ): LaborEquipmentTotals {
+  const detailHours = toDetailHours(detailLaborMinutes);
   const laborBreakdown = state.laborItems
     .filter((item) => item.enabled)
     .map((item) => {
@@ -139,6 +161,9 @@ export function calculateLaborEquipmentTotals(
       } else if (item.rateType === "per_hour") {
         cost = item.rate * item.quantity;
         detail = `${item.quantity} hrs × $${item.rate.toFixed(2)}/hr`;
+      } else if (item.rateType === "per_detail_hour") {
+        cost = item.rate * detailHours;
+        detail = `${detailHours} detail hrs × $${item.rate.toFixed(2)}/hr`;
       } else {
         cost = item.rate * item.quantity;
         detail = `Flat rate`;
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { layoutMembraneRolls } from "./membrane-roll-layout";
+
+describe("Membrane Roll Layout", () => {
+  it("picks the field roll width with the least membrane and seams", () => {
+    // 50' wide: seven 8' sheets (5,600 sq ft, 6 seams) beat five 12' (6,000 sq ft) and eleven 5' (10 seams)
+    const layout = layoutMembraneRolls({ length: 100, width: 50, zoneWidth: 5, halfSheetPerimeter: false })!;
+
+    expect(layout).toMatchObject({ fieldRollWidthFt: 8, fieldSheets: 7, halfSheets: 0 });
+    expect(layout.rolls).toEqual([{ rollWidthFt: 8, rolls: 7, sheets: 7 }]);
+    expect(layout.sideSeamLF).toBe(600);
+    expect(layout.endSeamLF).toBe(0);
+  });
+
+  it("reports drop as what's bought beyond the roof and its laps", () => {
+    const layout = layoutMembraneRolls({ length: 100, width: 50, zoneWidth: 5, halfSheetPerimeter: false })!;
+
+    expect(layout.purchasedSqFt).toBe(5600);
+    expect(layout.lapSqFt).toBe(300);
+    expect(layout.dropSqFt).toBe(300);
+    expect(layout.dropPct).toBe(5.4);
+  });
+
+  it("end-laps runs longer than a roll", () => {
+    // 250' runs take two full rolls and a 50.5' piece, with two 3" end laps each
+    const layout = layoutMembraneRolls({ length: 250, width: 20, zoneWidth: 3, halfSheetPerimeter: false })!;
+
+    expect(layout).toMatchObject({ fieldRollWidthFt: 12, fieldSheets: 2 });
+    expect(layout.rolls).toEqual([{ rollWidthFt: 12, rolls: 6, sheets: 2 }]);
+    expect(layout.endSeamLF).toBe(48);
+    expect(layout.seamLF).toBe(250 + 48);
+  });
+
+  it("reuses roll ends for short runs", () => {
+    // 30' runs: three per roll
+    const layout = layoutMembraneRolls({ length: 30, width: 36, zoneWidth: 3, halfSheetPerimeter: false })!;
+    const [order] = layout.rolls;
+    expect(order.rolls).toBe(Math.ceil(order.sheets / 3));
+  });
+
+  describe("mechanically attached", () => {
+    const layout = layoutMembraneRolls({
+      length: 100,
+      width: 100,
+      zoneWidth: 10,
+      halfSheetPerimeter: true,
+      maxFieldWidthFt: 10,
+    })!;
+
+    it("lays half sheets across the perimeter zone of each long edge", () => {
+      expect(layout).toMatchObject({ halfSheets: 6, fieldSheets: 8, fieldRollWidthFt: 10 });
+      expect(layout.rolls).toEqual([
+        { rollWidthFt: 10, rolls: 8, sheets: 8 },
+        { rollWidthFt: 5, rolls: 6, sheets: 6 },
+      ]);
+      expect(layout.sideSeamLF).toBe(1300);
+    });
+
+    it("splits side seams by the wind zone they run through", () => {
+      // Two seams in each perimeter band run through the corners; the rest cross the end perimeter zones
+      expect(layout.sideSeamLFByZone).toEqual({ field: 720, perimeter: 500, corner: 80 });
+    });
+
+    it("keeps field sheets within the pattern's seam spacing", () => {
+      const halfSheetsOnly = layoutMembraneRolls({
+        length: 100,
+        width: 100,
+        zoneWidth: 10,
+        halfSheetPerimeter: true,
+        maxFieldWidthFt: 5,
+      })!;
+      expect(halfSheetsOnly.fieldRollWidthFt).toBe(5);
+      expect(halfSheetsOnly.rolls).toEqual([{ rollWidthFt: 5, rolls: 23, sheets: 23 }]);
+    });
+
+    it("covers narrow roofs with half sheets only", () => {
+      const narrow = layoutMembraneRolls({ length: 50, width: 10, zoneWidth: 3, halfSheetPerimeter: true })!;
+      expect(narrow).toMatchObject({ halfSheets: 3, fieldSheets: 0, fieldRollWidthFt: 0 });
+      expect(narrow.rolls).toEqual([{ rollWidthFt: 5, rolls: 2, sheets: 3 }]);
+    });
+  });
+
+  it("returns null without roof dimensions", () => {
+    expect(layoutMembraneRolls({ length: 0, width: 50, zoneWidth: 0, halfSheetPerimeter: false })).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Membrane Roll Layout — Lay single-ply sheets out on a roof section from the
+ * roll sizes actually sold, instead of a flat waste factor.
+ *
+ * Sheets run the length of the roof, side by side across its width:
+ *   - Mechanically attached: half sheets (5') cover the perimeter zone along
+ *     both long edges, where the uplift calls for closer fastener rows; the
+ *     field between them uses the roll width with the least membrane bought
+ *     and seams to weld
+ *   - Fully adhered: the whole width uses the best field roll width
+ *
+ * Adjacent sheets side-lap 6"; sheets longer than a roll end-lap 3". Sheet
+ * pieces are cut from 100' rolls, first-fit decreasing, so roll ends left
+ * over from short runs are reused before a new roll is opened.
+ *
+ * Seam LF (side laps + end laps) drives seam fasteners, cover strip over end
+ * laps and seam probing. Drop is what's bought that neither covers the roof
+ * nor goes into a lap.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface MembraneRollLayoutInput {
+  length: number; // ft — sheets run this way
+  width: number; // ft — sheets are laid side by side across it
+  zoneWidth: number; // ft — perimeter zone width "a" along each edge
+  /** Half sheets in the perimeter zones along the long edges (mechanically attached) */
+  halfSheetPerimeter: boolean;
+  /** Widest field sheet the fastening pattern allows (seam spacing), ft */
+  maxFieldWidthFt?: number;
+}
+
+export interface MembraneRollOrder {
+  rollWidthFt: number;
+  rolls: number;
+  sheets: number; // sheets laid from this width
+}
+
+/** Side seam LF by the wind zone it runs through, for seam fastening */
+export interface SeamLFByZone {
+  field: number;
+  perimeter: number;
+  corner: number;
+}
+
+export interface MembraneRollLayout {
+  length: number;
+  width: number;
+  fieldRollWidthFt: number; // 0 when half sheets cover the whole width
+  fieldSheets: number;
+  halfSheets: number;
+  rolls: MembraneRollOrder[];
+  sideSeamLF: number;
+  endSeamLF: number;
+  seamLF: number;
+  sideSeamLFByZone: SeamLFByZone;
+  roofSqFt: number;
+  purchasedSqFt: number;
+  lapSqFt: number;
+  dropSqFt: number;
+  dropPct: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const MEMBRANE_ROLL_WIDTHS_FT = [5, 8, 10, 12];
+export const MEMBRANE_ROLL_LENGTH_FT = 100;
+export const HALF_SHEET_WIDTH_FT = 5;
+export const SIDE_LAP_FT = 0.5;
+export const END_LAP_FT = 0.25;
+
+/**
+ * Membrane a seam LF is worth when comparing layouts: welding, probing and
+ * fastening a foot of seam costs about as much as a square foot of membrane,
+ * so narrow rolls only win when they save more than their extra seams.
+ */
+export const SEAM_SQFT_EQUIVALENT = 1;
+
+// ── Layout ─────────────────────────────────────────────────────────────────
+
+/** Sheets of `sheetWidth` needed to cover `span`, lapped at each seam */
+function sheetsToCover(span: number, sheetWidth: number): number {
+  if (span <= 0) return 0;
+  return Math.max(1, Math.ceil((span - SIDE_LAP_FT) / (sheetWidth - SIDE_LAP_FT)));
+}
+
+/** Roll pieces for one sheet run: full roll lengths, then the remainder with its end lap */
+function runPieces(length: number): number[] {
+  const pieces: number[] = [];
+  let remaining = length;
+  while (remaining > MEMBRANE_ROLL_LENGTH_FT) {
+    pieces.push(MEMBRANE_ROLL_LENGTH_FT);
+    remaining -= MEMBRANE_ROLL_LENGTH_FT - END_LAP_FT;
+  }
+  pieces.push(remaining);
+  return pieces;
+}
+
+/** Rolls to cut `sheets` runs of `length` from, first-fit decreasing */
+function rollsForRuns(sheets: number, length: number): number {
+  const pieces = runPieces(length);
+  const rollsLeft: number[] = []; // feet left on each opened roll
+  for (const piece of pieces.sort((a, b) => b - a)) {
+    let remaining = sheets;
+    for (let i = 0; i < rollsLeft.length && remaining > 0; i++) {
+      const fit = Math.min(remaining, Math.floor(rollsLeft[i] / piece + 1e-9));
+      rollsLeft[i] -= fit * piece;
+      remaining -= fit;
+    }
+    const perRoll = Math.floor(MEMBRANE_ROLL_LENGTH_FT / piece + 1e-9);
+    while (remaining > 0) {
+      const fit = Math.min(remaining, perRoll);
+      rollsLeft.push(MEMBRANE_ROLL_LENGTH_FT - fit * piece);
+      remaining -= fit;
+    }
+  }
+  return rollsLeft.length;
+}
+
+/**
+ * Split side seams by wind zone. A seam within the perimeter zone of a long
+ * edge runs through corner zones at both ends; a field seam crosses the
+ * perimeter zones at both ends.
+ */
+function splitSeamsByZone(seamOffsets: number[], length: number, width: number, a: number): SeamLFByZone {
+  const ends = Math.min(2 * a, length);
+  const byZone: SeamLFByZone = { field: 0, perimeter: 0, corner: 0 };
+  for (const offset of seamOffsets) {
+    if (Math.min(offset, width - offset) <= a) {
+      byZone.corner += ends;
+      byZone.perimeter += length - ends;
+    } else {
+      byZone.perimeter += ends;
+      byZone.field += length - ends;
+    }
+  }
+  return byZone;
+}
+
+function layoutWithFieldWidth(input: MembraneRollLayoutInput, fieldWidth: number): MembraneRollLayout {
+  const { length, width, zoneWidth } = input;
+
+  // Half sheets from each long edge across the perimeter zone, unless they'd meet in the middle
+  let halfPerEdge = input.halfSheetPerimeter && zoneWidth > 0 ? sheetsToCover(zoneWidth, HALF_SHEET_WIDTH_FT) : 0;
+  const bandWidth = halfPerEdge * HALF_SHEET_WIDTH_FT - Math.max(halfPerEdge - 1, 0) * SIDE_LAP_FT;
+  let halfSheets = halfPerEdge * 2;
+  let fieldSheets = 0;
+  if (halfPerEdge > 0 && 2 * bandWidth >= width - SIDE_LAP_FT) {
+    halfPerEdge = 0;
+    halfSheets = sheetsToCover(width, HALF_SHEET_WIDTH_FT);
+  } else {
+    // The field lies between the bands, lapping onto each
+    const fieldSpan = halfPerEdge > 0 ? width - 2 * bandWidth + 2 * SIDE_LAP_FT : width;
+    fieldSheets = sheetsToCover(fieldSpan, fieldWidth);
+  }
+
+  // Sheet widths across the roof, edge to edge, for seam offsets
+  const across = [
+    ...Array<number>(halfPerEdge).fill(HALF_SHEET_WIDTH_FT),
+    ...Array<number>(fieldSheets).fill(fieldWidth),
+    ...Array<number>(halfSheets - 2 * halfPerEdge).fill(HALF_SHEET_WIDTH_FT),
+    ...Array<number>(halfPerEdge).fill(HALF_SHEET_WIDTH_FT),
+  ];
+  const seamOffsets: number[] = [];
+  let offset = 0;
+  for (const sheetWidth of across.slice(0, -1)) {
+    offset += sheetWidth - SIDE_LAP_FT;
+    seamOffsets.push(Math.min(offset, width));
+  }
+
+  const endLapsPerRun = runPieces(length).length - 1;
+  const rolls: MembraneRollOrder[] = [];
+  if (halfSheets > 0) {
+    rolls.push({ rollWidthFt: HALF_SHEET_WIDTH_FT, rolls: rollsForRuns(halfSheets, length), sheets: halfSheets });
+  }
+  if (fieldSheets > 0) {
+    const existing = rolls.find((r) => r.rollWidthFt === fieldWidth);
+    if (existing) {
+      existing.sheets += fieldSheets;
+      existing.rolls = rollsForRuns(existing.sheets, length);
+    } else {
+      rolls.push({ rollWidthFt: fieldWidth, rolls: rollsForRuns(fieldSheets, length), sheets: fieldSheets });
+    }
+  }
+
+  const sideSeamLF = seamOffsets.length * length;
+  const endSeamLF = across.reduce((sum, sheetWidth) => sum + endLapsPerRun * sheetWidth, 0);
+  const roofSqFt = length * width;
+  const purchasedSqFt = rolls.reduce((sum, r) => sum + r.rolls * r.rollWidthFt * MEMBRANE_ROLL_LENGTH_FT, 0);
+  const lapSqFt = sideSeamLF * SIDE_LAP_FT + endSeamLF * END_LAP_FT;
+  const dropSqFt = Math.max(0, purchasedSqFt - roofSqFt - lapSqFt);
+
+  return {
+    length,
+    width,
+    fieldRollWidthFt: fieldSheets > 0 ? fieldWidth : 0,
+    fieldSheets,
+    halfSheets,
+    rolls: rolls.sort((a, b) => b.rollWidthFt - a.rollWidthFt),
+    sideSeamLF: Math.round(sideSeamLF),
+    endSeamLF: Math.round(endSeamLF),
+    seamLF: Math.round(sideSeamLF + endSeamLF),
+    sideSeamLFByZone: splitSeamsByZone(seamOffsets, length, width, zoneWidth),
+    roofSqFt: Math.round(roofSqFt),
+    purchasedSqFt,
+    lapSqFt: Math.round(lapSqFt),
+    dropSqFt: Math.round(dropSqFt),
+    dropPct: purchasedSqFt > 0 ? Math.round((dropSqFt / purchasedSqFt) * 1000) / 10 : 0,
+  };
+}
+
+/**
+ * Lay out a roof section, trying each allowed field roll width and keeping
+ * the one with the least membrane bought plus seams (see SEAM_SQFT_EQUIVALENT).
+ */
+export function layoutMembraneRolls(input: MembraneRollLayoutInput): MembraneRollLayout | null {
+  if (input.length <= 0 || input.width <= 0) return null;
+  const maxWidth = input.maxFieldWidthFt ?? Infinity;
+  const widths = MEMBRANE_ROLL_WIDTHS_FT.filter((w) => w <= maxWidth);
+  const candidates = (widths.length > 0 ? widths : [MEMBRANE_ROLL_WIDTHS_FT[0]]).map((w) =>
+    layoutWithFieldWidth(input, w),
+  );
+  const score = (layout: MembraneRollLayout) => layout.purchasedSqFt + layout.seamLF * SEAM_SQFT_EQUIVALENT;
+  return candidates.reduce((best, layout) => (score(layout) < score(best) ? layout : best));
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePenetrationEstimate,
+  getPenetrationProductList,
+  getPenetrationProducts,
+  PENETRATION_TYPES,
+  type PenetrationLineItem,
+} from "./penetrations-data";
+import { getAllProducts } from "./all-products";
+
+const pipes: PenetrationLineItem[] = [
+  { penetrationId: "pipe-1-3", name: 'Pipe Flashing (1"–3")', category: "Pipe Flashings", quantity: 3 },
+  { penetrationId: "plumbing-vent-stack", name: "Plumbing Vent Stack", category: "Miscellaneous", quantity: 1 },
+];
+
+describe("getPenetrationProducts", () => {
+  it("uses each membrane system's own pipe boot", () => {
+    expect(getPenetrationProducts("carlisle-tpo")["pipe-boot"]).toMatchObject({ id: "acc-pipe-boot", name: "TPO Pipe Boot" });
+    expect(getPenetrationProducts("gaf-tpo")["pipe-boot"]).toMatchObject({ name: "EverGuard TPO Pipe Boot" });
+    expect(getPenetrationProducts("firestone-epdm")["pipe-boot"]).toMatchObject({ name: "QuickSeam Pipe Flashing" });
+  });
+
+  it("details coating roofs with mastic and fabric", () => {
+    const products = getPenetrationProducts("karnak-metal-kynar");
+
+    expect(products["pipe-boot"].name).toBe("Karnak 505MS Karna-Flex Pipe Detail");
+    expect(products["flashing-12"].name).toContain("Resat-Mat");
+  });
+
+  it("covers every material the penetration types use", () => {
+    for (const system of ["carlisle-tpo", "gaf-tpo", "firestone-epdm", "karnak-metal-kynar", "gaf-unisil-8650"]) {
+      const products = getPenetrationProducts(system);
+      for (const type of PENETRATION_TYPES) {
+        for (const mat of type.materials) expect(products[mat.material], `${system} ${mat.material}`).toBeDefined();
+      }
+    }
+  });
+});
+
+describe("calculatePenetrationEstimate", () => {
+  it("combines materials by product and prices them from the given prices", () => {
+    const estimate = calculatePenetrationEstimate(pipes, "gaf-tpo", { "acc-pipe-boot": 40 });
+    const boot = estimate.materials.find((m) => m.productId === "acc-pipe-boot");
+
+    expect(boot).toMatchObject({ quantity: 4, unitPrice: 40, totalPrice: 160 });
+    expect(boot?.fromPenetration).toBe('Pipe Flashing (1"–3"), Plumbing Vent Stack');
+  });
+
+  it("falls back to product defaults", () => {
+    const estimate = calculatePenetrationEstimate(pipes, "firestone-epdm");
+    const boot = estimate.materials.find((m) => m.productId === "acc-pipe-boot");
+
+    expect(boot?.unitPrice).toBe(getPenetrationProducts("firestone-epdm")["pipe-boot"].defaultPrice);
+  });
+});
+
+describe("penetration products in the pricing database", () => {
+  it("lists each system's penetration materials under its prefix", () => {
+    const ids = new Set(getAllProducts().map((p) => p.productId));
+
+    for (const product of getPenetrationProductList("gaf-tpo")) expect(ids.has(`gaf-tpo-${product.id}`)).toBe(true);
+    for (const product of getPenetrationProductList("karnak-metal-kynar")) expect(ids.has(`karnak-${product.id}`)).toBe(true);
+  });
+
+  it("doesn't duplicate the catalog accessories membrane systems reuse", () => {
+    const ids = getAllProducts().map((p) => p.productId);
+
+    expect(ids.filter((id) => id === "carlisle-tpo-acc-pipe-boot")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,783 @@
+/**
+ * Roof Penetrations & Additions — Universal data model
+ *
+ * Supports common roof penetrations with auto-calculated materials:
+ * - Pipe Flashings (various diameters)
+ * - Pitch Pans (round & rectangular)
+ * - Roof Curbs (small, medium, large for HVAC/fans)
+ * - Exhaust Fan Curbs
+ * - Roof Drains
+ * - Skylights
+ * - Conduit/Cable Penetrations
+ * - Gas Line Penetrations
+ *
+ * Each penetration type defines the materials needed to flash and seal
+ * it. Materials are priced from the estimating system's own products —
+ * a Carlisle pipe boot on a Carlisle roof, a GAF one on a GAF roof, a
+ * fabric-reinforced coating detail on a Karnak roof — which live in the
+ * pricing database like the main material list.
+ */
+
+import { TPO_PRODUCTS } from "./tpo-data";
+import { GAF_TPO_PRODUCTS } from "./gaf-tpo-data";
+import { EPDM_PRODUCTS } from "./firestone-epdm-data";
+
+// ── Types ──────────────────────────────────────────────────
+
+/** Flashing materials that differ by membrane / coating system */
+export type FlashingMaterialId =
+  | "pipe-boot"
+  | "split-pipe-flashing"
+  | "flashing-12"
+  | "flashing-18"
+  | "flashing-24"
+  | "flashing-roll"
+  | "primer"
+  | "sealant"
+  | "inside-corner"
+  | "outside-corner"
+  | "cover-tape"
+  | "drain-flashing"
+  | "term-bar";
+
+/** Curbs, pans and hardware every system uses */
+export type DetailHardwareId =
+  | "clamp-small"
+  | "clamp-medium"
+  | "clamp-large"
+  | "pitch-pan-4"
+  | "pitch-pan-8"
+  | "pitch-pan-rect"
+  | "pitch-pan-filler"
+  | "curb-small"
+  | "curb-medium"
+  | "curb-large"
+  | "fan-curb-small"
+  | "fan-curb-medium"
+  | "fan-curb-large"
+  | "wood-nailer"
+  | "curb-insulation"
+  | "drain-ring"
+  | "drain-strainer"
+  | "scupper-box"
+  | "conductor-head";
+
+export type PenetrationMaterialId = FlashingMaterialId | DetailHardwareId;
+
+export interface PenetrationMaterial {
+  /** Resolved to the estimating system's product by getPenetrationProducts */
+  material: PenetrationMaterialId;
+  qtyPerUnit: number; // quantity needed per 1 penetration
+}
+
+/** A penetration material as one system prices it */
+export interface PenetrationProduct {
+  /** Local product ID — the pricing DB productId without the system prefix */
+  id: string;
+  name: string;
+  unit: string;
+  defaultPrice: number;
+}
+
+export interface PenetrationType {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  icon: string; // lucide icon name
+  sizeLabel?: string;
+  materials: PenetrationMaterial[];
+  laborMinutes: number; // estimated labor minutes per unit
+}
+
+export interface PenetrationLineItem {
+  penetrationId: string;
+  name: string;
+  category: string;
+  quantity: number;
+}
+
+export interface PenetrationMaterialResult {
+  /** Local product ID the material is priced from */
+  productId: string;
+  materialName: string;
+  unit: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  fromPenetration: string;
+}
+
+export interface PenetrationEstimate {
+  lineItems: PenetrationLineItem[];
+  materials: PenetrationMaterialResult[];
+  totalMaterialCost: number;
+  totalLaborMinutes: number;
+  /** Sheet metal flashing items (if any) */
+  sheetMetalItems?: SheetMetalFlashingLineItem[];
+  sheetMetalCost?: number;
+  sheetMetalLaborMinutes?: number;
+}
+
+/** Lightweight line item for sheet metal flashing within the penetration estimate */
+export interface SheetMetalFlashingLineItem {
+  flashingId: string;
+  name: string;
+  quantity: number; // linear feet
+  metal: string; // e.g. "Galvanized Steel 26 Gauge"
+  unitPrice: number;
+  totalCost: number;
+}
+
+// ── Penetration Type Definitions ───────────────────────────
+
+export const PENETRATION_CATEGORIES = [
+  "Pipe Flashings",
+  "Pitch Pans",
+  "Roof Curbs",
+  "Exhaust Fans",
+  "Drains & Scuppers",
+  "Skylights",
+  "Miscellaneous",
+] as const;
+
+export const PENETRATION_TYPES: PenetrationType[] = [
+  // ── Pipe Flashings ──────────────────────────────────────
+  {
+    id: "pipe-1-3",
+    name: 'Pipe Flashing (1"–3")',
+    category: "Pipe Flashings",
+    description: "Small pipe penetration — plumbing vents, conduits",
+    icon: "CircleDot",
+    sizeLabel: '1"–3" diameter',
+    materials: [
+      { material: "pipe-boot", qtyPerUnit: 1 },
+      { material: "flashing-12", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.25 },
+      { material: "sealant", qtyPerUnit: 0.5 },
+      { material: "clamp-small", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 30,
+  },
+  {
+    id: "pipe-4-6",
+    name: 'Pipe Flashing (4"–6")',
+    category: "Pipe Flashings",
+    description: "Medium pipe penetration — larger vents, exhaust pipes",
+    icon: "CircleDot",
+    sizeLabel: '4"–6" diameter',
+    materials: [
+      { material: "pipe-boot", qtyPerUnit: 1 },
+      { material: "flashing-18", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+      { material: "clamp-medium", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 45,
+  },
+  {
+    id: "pipe-8-12",
+    name: 'Pipe Flashing (8"–12")',
+    category: "Pipe Flashings",
+    description: "Large pipe penetration — HVAC ducts, large exhaust",
+    icon: "CircleDot",
+    sizeLabel: '8"–12" diameter',
+    materials: [
+      { material: "split-pipe-flashing", qtyPerUnit: 1 },
+      { material: "flashing-24", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 0.75 },
+      { material: "sealant", qtyPerUnit: 1.5 },
+      { material: "clamp-large", qtyPerUnit: 1 },
+      { material: "cover-tape", qtyPerUnit: 4 },
+    ],
+    laborMinutes: 60,
+  },
+
+  // ── Pitch Pans ──────────────────────────────────────────
+  {
+    id: "pitch-pan-round-small",
+    name: 'Round Pitch Pan (4")',
+    category: "Pitch Pans",
+    description: "Small round pitch pan for single conduit or pipe",
+    icon: "Circle",
+    sizeLabel: '4" round',
+    materials: [
+      { material: "pitch-pan-4", qtyPerUnit: 1 },
+      { material: "pitch-pan-filler", qtyPerUnit: 0.5 },
+      { material: "flashing-18", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.25 },
+      { material: "sealant", qtyPerUnit: 0.5 },
+    ],
+    laborMinutes: 45,
+  },
+  {
+    id: "pitch-pan-round-large",
+    name: 'Round Pitch Pan (8")',
+    category: "Pitch Pans",
+    description: "Large round pitch pan for larger penetrations",
+    icon: "Circle",
+    sizeLabel: '8" round',
+    materials: [
+      { material: "pitch-pan-8", qtyPerUnit: 1 },
+      { material: "pitch-pan-filler", qtyPerUnit: 1 },
+      { material: "flashing-24", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 60,
+  },
+  {
+    id: "pitch-pan-rect",
+    name: 'Rectangular Pitch Pan (6"x12")',
+    category: "Pitch Pans",
+    description: "Rectangular pitch pan for multi-conduit or irregular penetrations",
+    icon: "Square",
+    sizeLabel: '6"x12"',
+    materials: [
+      { material: "pitch-pan-rect", qtyPerUnit: 1 },
+      { material: "pitch-pan-filler", qtyPerUnit: 1.5 },
+      { material: "flashing-24", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+    ],
+    laborMinutes: 75,
+  },
+
+  // ── Roof Curbs ──────────────────────────────────────────
+  {
+    id: "curb-small",
+    name: "Small Roof Curb (up to 24\"x24\")",
+    category: "Roof Curbs",
+    description: "Small equipment curb — exhaust fans, small RTUs",
+    icon: "BoxSelect",
+    sizeLabel: "Up to 24\"x24\"",
+    materials: [
+      { material: "curb-small", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 12 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 2 },
+      { material: "cover-tape", qtyPerUnit: 10 },
+      { material: "wood-nailer", qtyPerUnit: 8 },
+    ],
+    laborMinutes: 120,
+  },
+  {
+    id: "curb-medium",
+    name: "Medium Roof Curb (24\"x48\" to 36\"x48\")",
+    category: "Roof Curbs",
+    description: "Medium equipment curb — RTUs up to 5 ton",
+    icon: "BoxSelect",
+    sizeLabel: "24\"x48\" to 36\"x48\"",
+    materials: [
+      { material: "curb-medium", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 20 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 1 },
+      { material: "sealant", qtyPerUnit: 3 },
+      { material: "cover-tape", qtyPerUnit: 16 },
+      { material: "wood-nailer", qtyPerUnit: 14 },
+      { material: "curb-insulation", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 180,
+  },
+  {
+    id: "curb-large",
+    name: "Large Roof Curb (48\"x96\" and up)",
+    category: "Roof Curbs",
+    description: "Large equipment curb — RTUs 7.5+ ton, large HVAC",
+    icon: "BoxSelect",
+    sizeLabel: "48\"x96\"+",
+    materials: [
+      { material: "curb-large", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 32 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 3 },
+      { material: "primer", qtyPerUnit: 1.5 },
+      { material: "sealant", qtyPerUnit: 4 },
+      { material: "cover-tape", qtyPerUnit: 28 },
+      { material: "wood-nailer", qtyPerUnit: 24 },
+      { material: "curb-insulation", qtyPerUnit: 2 },
+    ],
+    laborMinutes: 240,
+  },
+
+  // ── Exhaust Fans ──────────────────────────────────────
+  {
+    id: "exhaust-fan-small",
+    name: "Exhaust Fan (up to 18\")",
+    category: "Exhaust Fans",
+    description: "Small restroom or utility exhaust fan",
+    icon: "Fan",
+    sizeLabel: "Up to 18\"",
+    materials: [
+      { material: "fan-curb-small", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 8 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+      { material: "cover-tape", qtyPerUnit: 8 },
+      { material: "wood-nailer", qtyPerUnit: 6 },
+    ],
+    laborMinutes: 90,
+  },
+  {
+    id: "exhaust-fan-medium",
+    name: "Exhaust Fan (18\"–30\")",
+    category: "Exhaust Fans",
+    description: "Kitchen or commercial exhaust fan",
+    icon: "Fan",
+    sizeLabel: "18\"–30\"",
+    materials: [
+      { material: "fan-curb-medium", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 14 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.75 },
+      { material: "sealant", qtyPerUnit: 2 },
+      { material: "cover-tape", qtyPerUnit: 12 },
+      { material: "wood-nailer", qtyPerUnit: 10 },
+    ],
+    laborMinutes: 120,
+  },
+  {
+    id: "exhaust-fan-large",
+    name: "Exhaust Fan (30\"+)",
+    category: "Exhaust Fans",
+    description: "Large upblast or industrial exhaust fan",
+    icon: "Fan",
+    sizeLabel: "30\"+",
+    materials: [
+      { material: "fan-curb-large", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 20 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 1 },
+      { material: "sealant", qtyPerUnit: 3 },
+      { material: "cover-tape", qtyPerUnit: 18 },
+      { material: "wood-nailer", qtyPerUnit: 16 },
+      { material: "curb-insulation", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 180,
+  },
+
+  // ── Drains & Scuppers ──────────────────────────────────
+  {
+    id: "roof-drain",
+    name: "Roof Drain",
+    category: "Drains & Scuppers",
+    description: "Interior roof drain with TPO flashing collar",
+    icon: "ArrowDownCircle",
+    materials: [
+      { material: "drain-flashing", qtyPerUnit: 1 },
+      { material: "flashing-24", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+      { material: "drain-ring", qtyPerUnit: 1 },
+      { material: "drain-strainer", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 60,
+  },
+  {
+    id: "scupper",
+    name: "Scupper (Through-Wall Drain)",
+    category: "Drains & Scuppers",
+    description: "Through-wall scupper drain with conductor head",
+    icon: "ArrowRightFromLine",
+    materials: [
+      { material: "scupper-box", qtyPerUnit: 1 },
+      { material: "flashing-roll", qtyPerUnit: 6 },
+      { material: "inside-corner", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 2 },
+      { material: "conductor-head", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 90,
+  },
+
+  // ── Skylights ──────────────────────────────────────────
+  {
+    id: "skylight-small",
+    name: "Skylight Curb (up to 2'x4')",
+    category: "Skylights",
+    description: "Small tubular or flat skylight on curb",
+    icon: "Sun",
+    sizeLabel: "Up to 2'x4'",
+    materials: [
+      { material: "flashing-roll", qtyPerUnit: 16 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 2 },
+      { material: "primer", qtyPerUnit: 0.75 },
+      { material: "sealant", qtyPerUnit: 2 },
+      { material: "cover-tape", qtyPerUnit: 14 },
+      { material: "wood-nailer", qtyPerUnit: 12 },
+    ],
+    laborMinutes: 150,
+  },
+  {
+    id: "skylight-large",
+    name: "Skylight Curb (4'x8' and up)",
+    category: "Skylights",
+    description: "Large commercial skylight on curb",
+    icon: "Sun",
+    sizeLabel: "4'x8'+",
+    materials: [
+      { material: "flashing-roll", qtyPerUnit: 28 },
+      { material: "inside-corner", qtyPerUnit: 4 },
+      { material: "outside-corner", qtyPerUnit: 4 },
+      { material: "term-bar", qtyPerUnit: 3 },
+      { material: "primer", qtyPerUnit: 1.5 },
+      { material: "sealant", qtyPerUnit: 3 },
+      { material: "cover-tape", qtyPerUnit: 26 },
+      { material: "wood-nailer", qtyPerUnit: 24 },
+      { material: "curb-insulation", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 240,
+  },
+
+  // ── Miscellaneous ──────────────────────────────────────
+  {
+    id: "conduit-cluster",
+    name: "Conduit / Cable Penetration",
+    category: "Miscellaneous",
+    description: "Electrical conduit or cable tray penetration",
+    icon: "Cable",
+    materials: [
+      { material: "pitch-pan-4", qtyPerUnit: 1 },
+      { material: "pitch-pan-filler", qtyPerUnit: 0.5 },
+      { material: "flashing-12", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.25 },
+      { material: "sealant", qtyPerUnit: 0.5 },
+    ],
+    laborMinutes: 30,
+  },
+  {
+    id: "gas-line",
+    name: "Gas Line Penetration",
+    category: "Miscellaneous",
+    description: "Gas supply line roof penetration",
+    icon: "Flame",
+    materials: [
+      { material: "pipe-boot", qtyPerUnit: 1 },
+      { material: "flashing-18", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.25 },
+      { material: "sealant", qtyPerUnit: 1 },
+      { material: "clamp-medium", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 45,
+  },
+  {
+    id: "antenna-support",
+    name: "Antenna / Equipment Support",
+    category: "Miscellaneous",
+    description: "Antenna mast, satellite dish, or equipment support stand",
+    icon: "Radio",
+    materials: [
+      { material: "pitch-pan-rect", qtyPerUnit: 1 },
+      { material: "pitch-pan-filler", qtyPerUnit: 1 },
+      { material: "flashing-24", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.5 },
+      { material: "sealant", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 60,
+  },
+  {
+    id: "plumbing-vent-stack",
+    name: "Plumbing Vent Stack",
+    category: "Miscellaneous",
+    description: "Standard plumbing vent stack penetration",
+    icon: "ArrowUp",
+    materials: [
+      { material: "pipe-boot", qtyPerUnit: 1 },
+      { material: "flashing-12", qtyPerUnit: 1 },
+      { material: "primer", qtyPerUnit: 0.25 },
+      { material: "sealant", qtyPerUnit: 0.5 },
+      { material: "clamp-small", qtyPerUnit: 1 },
+    ],
+    laborMinutes: 30,
+  },
+];
+
+// ── Penetration Products ───────────────────────────────────
+
+const DETAIL_HARDWARE: Record<DetailHardwareId, PenetrationProduct> = {
+  "clamp-small": { id: "pen-clamp-small", name: 'Stainless Steel Clamp (1"–3")', unit: "Each", defaultPrice: 4.5 },
+  "clamp-medium": { id: "pen-clamp-medium", name: 'Stainless Steel Clamp (4"–6")', unit: "Each", defaultPrice: 6.5 },
+  "clamp-large": { id: "pen-clamp-large", name: 'Stainless Steel Clamp (8"–12")', unit: "Each", defaultPrice: 9 },
+  "pitch-pan-4": { id: "pen-pitch-pan-4", name: 'Galvanized Pitch Pan (4" Round)', unit: "Each", defaultPrice: 22 },
+  "pitch-pan-8": { id: "pen-pitch-pan-8", name: 'Galvanized Pitch Pan (8" Round)', unit: "Each", defaultPrice: 35 },
+  "pitch-pan-rect": { id: "pen-pitch-pan-rect", name: 'Galvanized Pitch Pan (6"x12" Rect)', unit: "Each", defaultPrice: 42 },
+  "pitch-pan-filler": {
+    id: "pen-pitch-pan-filler",
+    name: "Pitch Pan Filler / Pourable Sealer",
+    unit: "Quart",
+    defaultPrice: 28,
+  },
+  "curb-small": { id: "pen-curb-small", name: "Galvanized Roof Curb (Small)", unit: "Each", defaultPrice: 185 },
+  "curb-medium": { id: "pen-curb-medium", name: "Galvanized Roof Curb (Medium)", unit: "Each", defaultPrice: 350 },
+  "curb-large": { id: "pen-curb-large", name: "Galvanized Roof Curb (Large)", unit: "Each", defaultPrice: 650 },
+  "fan-curb-small": { id: "pen-fan-curb-small", name: "Galvanized Fan Curb (Small)", unit: "Each", defaultPrice: 145 },
+  "fan-curb-medium": { id: "pen-fan-curb-medium", name: "Galvanized Fan Curb (Medium)", unit: "Each", defaultPrice: 265 },
+  "fan-curb-large": { id: "pen-fan-curb-large", name: "Galvanized Fan Curb (Large)", unit: "Each", defaultPrice: 420 },
+  "wood-nailer": { id: "pen-wood-nailer", name: "Wood Nailer / Blocking", unit: "Lin Ft", defaultPrice: 3.5 },
+  "curb-insulation": {
+    id: "pen-curb-insulation",
+    name: "Polyiso Insulation (Curb Wrap)",
+    unit: "Board",
+    defaultPrice: 52,
+  },
+  "drain-ring": { id: "pen-drain-ring", name: "Drain Clamping Ring", unit: "Each", defaultPrice: 35 },
+  "drain-strainer": { id: "pen-drain-strainer", name: "Leaf Guard / Strainer", unit: "Each", defaultPrice: 18 },
+  "scupper-box": { id: "pen-scupper-box", name: "Galvanized Scupper Box", unit: "Each", defaultPrice: 125 },
+  "conductor-head": {
+    id: "pen-conductor-head",
+    name: "Conductor Head / Collector Box",
+    unit: "Each",
+    defaultPrice: 85,
+  },
+};
+
+/** A membrane catalog accessory, used as-is for a penetration material */
+function accessory(products: Record<string, { name: string; unit: string; defaultPrice: number }>, id: string) {
+  const { name, unit, defaultPrice } = products[id];
+  return { id, name, unit, defaultPrice };
+}
+
+/**
+ * Flashing materials for a single-ply membrane. The pipe boot, caulk and
+ * termination bar are the system's catalog accessories; the rest are
+ * penetration products named for the membrane line.
+ */
+function membraneFlashing(
+  line: string,
+  products: Record<string, { name: string; unit: string; defaultPrice: number }>,
+  names: { primer: string; coverTape: string },
+): Record<FlashingMaterialId, PenetrationProduct> {
+  return {
+    "pipe-boot": accessory(products, "acc-pipe-boot"),
+    "split-pipe-flashing": {
+      id: "pen-split-pipe-flashing",
+      name: `${line} Split Pipe Flashing (8"–12")`,
+      unit: "Each",
+      defaultPrice: 85,
+    },
+    "flashing-12": {
+      id: "pen-flashing-12",
+      name: `${line} Non-Reinforced Flashing (12" x 12")`,
+      unit: "Piece",
+      defaultPrice: 8.5,
+    },
+    "flashing-18": {
+      id: "pen-flashing-18",
+      name: `${line} Non-Reinforced Flashing (18" x 18")`,
+      unit: "Piece",
+      defaultPrice: 14,
+    },
+    "flashing-24": {
+      id: "pen-flashing-24",
+      name: `${line} Non-Reinforced Flashing (24" x 24")`,
+      unit: "Piece",
+      defaultPrice: 18,
+    },
+    "flashing-roll": {
+      id: "pen-flashing-roll",
+      name: `${line} Non-Reinforced Flashing (Roll)`,
+      unit: "Lin Ft",
+      defaultPrice: 4.5,
+    },
+    primer: { id: "pen-primer", name: names.primer, unit: "Quart", defaultPrice: 32 },
+    sealant: accessory(products, "acc-caulk"),
+    "inside-corner": { id: "pen-inside-corner", name: `${line} Pre-Molded Inside Corner`, unit: "Each", defaultPrice: 14 },
+    "outside-corner": {
+      id: "pen-outside-corner",
+      name: `${line} Pre-Molded Outside Corner`,
+      unit: "Each",
+      defaultPrice: 14,
+    },
+    "cover-tape": { id: "pen-cover-tape", name: names.coverTape, unit: "Lin Ft", defaultPrice: 3.8 },
+    "drain-flashing": {
+      id: "pen-drain-flashing",
+      name: `${line} Drain Flashing / Retrofit Drain`,
+      unit: "Each",
+      defaultPrice: 95,
+    },
+    "term-bar": accessory(products, "acc-termbar"),
+  };
+}
+
+/**
+ * Flashing materials for a fluid-applied coating: penetrations are detailed
+ * with flashing-grade mastic reinforced with polyester fabric instead of
+ * pre-formed boots and membrane flashing.
+ */
+function coatingFlashing(mastic: string, fabric: string, primer: string): Record<FlashingMaterialId, PenetrationProduct> {
+  const corner = { id: "pen-corner-detail", name: `${mastic} Corner Detail`, unit: "Each", defaultPrice: 6 };
+  return {
+    "pipe-boot": { id: "pen-pipe-detail", name: `${mastic} Pipe Detail`, unit: "Each", defaultPrice: 18 },
+    "split-pipe-flashing": {
+      id: "pen-large-pipe-detail",
+      name: `${mastic} Large Pipe Detail (8"–12")`,
+      unit: "Each",
+      defaultPrice: 45,
+    },
+    "flashing-12": { id: "pen-fabric-12", name: `${fabric} Detail Patch (12" x 12")`, unit: "Piece", defaultPrice: 3 },
+    "flashing-18": { id: "pen-fabric-18", name: `${fabric} Detail Patch (18" x 18")`, unit: "Piece", defaultPrice: 5 },
+    "flashing-24": { id: "pen-fabric-24", name: `${fabric} Detail Patch (24" x 24")`, unit: "Piece", defaultPrice: 7.5 },
+    "flashing-roll": { id: "pen-fabric-roll", name: `${fabric} Detail Fabric`, unit: "Lin Ft", defaultPrice: 1.75 },
+    primer: { id: "pen-primer", name: primer, unit: "Quart", defaultPrice: 24 },
+    sealant: { id: "pen-sealant", name: `${mastic} Sealant`, unit: "Tube", defaultPrice: 14 },
+    "inside-corner": corner,
+    "outside-corner": corner,
+    "cover-tape": { id: "pen-seam-tape", name: `${fabric} Seam Tape (6")`, unit: "Lin Ft", defaultPrice: 1.5 },
+    "drain-flashing": { id: "pen-drain-detail", name: `${mastic} Drain Detail`, unit: "Each", defaultPrice: 40 },
+    "term-bar": { id: "pen-term-bar", name: "Termination Bar", unit: "Piece (10')", defaultPrice: 15 },
+  };
+}
+
+const KARNAK_FLASHING = coatingFlashing("Karnak 505MS Karna-Flex", "Karnak 5540 Resat-Mat", "Karnak 702 K-Prep Primer");
+
+/** Flashing materials by estimating system */
+const SYSTEM_FLASHING: Record<string, Record<FlashingMaterialId, PenetrationProduct>> = {
+  "carlisle-tpo": membraneFlashing("Sure-Weld TPO", TPO_PRODUCTS, {
+    primer: "Sure-Weld TPO Primer",
+    coverTape: 'Sure-Weld Pressure-Sensitive Cover Strip (6")',
+  }),
+  "gaf-tpo": membraneFlashing("EverGuard TPO", GAF_TPO_PRODUCTS, {
+    primer: "EverGuard TPO Primer",
+    coverTape: 'EverGuard TPO Cover Tape PS (6")',
+  }),
+  "firestone-epdm": membraneFlashing("QuickSeam EPDM", EPDM_PRODUCTS, {
+    primer: "QuickPrime Plus",
+    coverTape: 'QuickSeam Flashing (6")',
+  }),
+  "karnak-metal-kynar": KARNAK_FLASHING,
+  "karnak-silicone-520": KARNAK_FLASHING,
+  "gaf-unisil-553": coatingFlashing("GAF UniSil 553 Brush Grade", "GAF UniSil Polyester Fabric", "GAF UniSil Primer"),
+  "gaf-unisil-8650": coatingFlashing("GAF UniSil Flashing Grade", "GAF UniSil Polyester Fabric", "GAF UniSil Primer"),
+};
+
+/** System penetrations are priced for when none is given */
+export const DEFAULT_PENETRATION_SYSTEM = "carlisle-tpo";
+
+/** Every penetration material as the estimating system prices it (unknown systems get the default's) */
+export function getPenetrationProducts(system: string): Record<PenetrationMaterialId, PenetrationProduct> {
+  return { ...(SYSTEM_FLASHING[system] ?? SYSTEM_FLASHING[DEFAULT_PENETRATION_SYSTEM]), ...DETAIL_HARDWARE };
+}
+
+/** The distinct products a system's penetrations use, for the pricing database */
+export function getPenetrationProductList(system: string): PenetrationProduct[] {
+  const byId = new Map(Object.values(getPenetrationProducts(system)).map((p) => [p.id, p]));
+  return Array.from(byId.values());
+}
+
+// ── Calculation Engine ─────────────────────────────────────
+
+/**
+ * Calculate all materials needed for the selected penetrations, priced from
+ * the system's products. Prices are keyed by local product ID; products
+ * without a price use their default.
+ */
+export function calculatePenetrationEstimate(
+  lineItems: PenetrationLineItem[],
+  system: string = DEFAULT_PENETRATION_SYSTEM,
+  prices: Record<string, number> = {}
+): PenetrationEstimate {
+  const products = getPenetrationProducts(system);
+  const materialMap = new Map<
+    string,
+    { name: string; unit: string; quantity: number; unitPrice: number; sources: Set<string> }
+  >();
+  let totalLaborMinutes = 0;
+
+  for (const item of lineItems) {
+    if (item.quantity <= 0) continue;
+
+    const penType = PENETRATION_TYPES.find((p) => p.id === item.penetrationId);
+    if (!penType) continue;
+
+    totalLaborMinutes += penType.laborMinutes * item.quantity;
+
+    for (const mat of penType.materials) {
+      const product = products[mat.material];
+      const existing = materialMap.get(product.id);
+      const qty = mat.qtyPerUnit * item.quantity;
+
+      if (existing) {
+        existing.quantity += qty;
+        existing.sources.add(item.name);
+      } else {
+        materialMap.set(product.id, {
+          name: product.name,
+          unit: product.unit,
+          quantity: qty,
+          unitPrice: prices[product.id] ?? product.defaultPrice,
+          sources: new Set([item.name]),
+        });
+      }
+    }
+  }
+
+  const materials: PenetrationMaterialResult[] = [];
+  let totalMaterialCost = 0;
+
+  for (const [productId, data] of Array.from(materialMap.entries())) {
+    const roundedQty = Math.ceil(data.quantity);
+    const total = roundedQty * data.unitPrice;
+    totalMaterialCost += total;
+
+    materials.push({
+      productId,
+      materialName: data.name,
+      unit: data.unit,
+      quantity: roundedQty,
+      unitPrice: data.unitPrice,
+      totalPrice: total,
+      fromPenetration: Array.from(data.sources).join(", "),
+    });
+  }
+
+  // Sort materials by total price descending
+  materials.sort((a, b) => b.totalPrice - a.totalPrice);
+
+  return {
+    lineItems,
+    materials,
+    totalMaterialCost,
+    totalLaborMinutes,
+  };
+}
+
+/**
+ * Get penetration types grouped by category
+ */
+export function getPenetrationsByCategory(): Record<string, PenetrationType[]> {
+  const grouped: Record<string, PenetrationType[]> = {};
+  for (const pen of PENETRATION_TYPES) {
+    if (!grouped[pen.category]) {
+      grouped[pen.category] = [];
+    }
+    grouped[pen.category].push(pen);
+  }
+  return grouped;
+}
+
+/**
+ * Format labor time from minutes
+ */
+export function formatLaborTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} min`;
+  if (mins === 0) return `${hours} hr`;
+  return `${hours} hr ${mins} min`;
+}
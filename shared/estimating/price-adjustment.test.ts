@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import {
+  adjustPrice,
+  describePriceAdjustment,
+  planPriceAdjustment,
+  roundToIncrement,
+  type AdjustableProduct,
+} from "./price-adjustment";
+
+const products: AdjustableProduct[] = [
+  { productId: "a", system: "carlisle-tpo", manufacturer: "Carlisle", category: "Membrane", name: "A", unitPrice: 100 },
+  { productId: "b", system: "carlisle-tpo", manufacturer: "Carlisle", category: "Insulation", name: "B", unitPrice: 18 },
+  { productId: "c", system: "gaf-tpo", manufacturer: "GAF", category: "Membrane", name: "C", unitPrice: 0.4 },
+];
+
+describe("roundToIncrement", () => {
+  it("rounds to the nearest increment in whole cents", () => {
+    expect(roundToIncrement(12.34, 0.05)).toBe(12.35);
+    expect(roundToIncrement(12.37, 0.25)).toBe(12.25);
+    expect(roundToIncrement(12.5, 1)).toBe(13);
+    expect(roundToIncrement(0.1 + 0.2, 0.01)).toBe(0.3);
+  });
+
+  it("never goes below zero", () => {
+    expect(roundToIncrement(-3, 0.01)).toBe(0);
+  });
+});
+
+describe("adjustPrice", () => {
+  it("applies a percentage or a fixed amount", () => {
+    expect(adjustPrice(400, { mode: "percent", value: 4, roundTo: 0.01 })).toBe(416);
+    expect(adjustPrice(18, { mode: "percent", value: -7.5, roundTo: 0.05 })).toBe(16.65);
+    expect(adjustPrice(18, { mode: "amount", value: 1.25, roundTo: 0.01 })).toBe(19.25);
+  });
+});
+
+describe("planPriceAdjustment", () => {
+  it("adjusts only products matching every filter", () => {
+    const rows = planPriceAdjustment(products, { manufacturer: "Carlisle", category: "Membrane" }, {
+      mode: "percent",
+      value: 10,
+      roundTo: 0.01,
+    });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({ productId: "a", currentPrice: 100, newPrice: 110 });
+    expect(rows[0].changePercent).toBeCloseTo(10);
+  });
+
+  it("leaves out products the rounding doesn't change", () => {
+    const rows = planPriceAdjustment(products, { system: "carlisle-tpo" }, { mode: "percent", value: 2, roundTo: 1 });
+
+    expect(rows.map((r) => r.productId)).toEqual(["a"]);
+  });
+
+  it("flags cuts that would take a price to zero or below", () => {
+    const rows = planPriceAdjustment(products, {}, { mode: "amount", value: -18, roundTo: 0.01 });
+
+    expect(rows.map((r) => [r.productId, r.newPrice, r.skipReason])).toEqual([
+      ["a", 82, null],
+      ["b", 0, "Would take the price to $0.00 or below"],
+      ["c", 0, "Would take the price to $0.00 or below"],
+    ]);
+  });
+});
+
+describe("describePriceAdjustment", () => {
+  it("names the scope and the change", () => {
+    expect(describePriceAdjustment({ manufacturer: "Carlisle" }, { mode: "percent", value: 4, roundTo: 0.01 })).toBe(
+      "Bulk adjust: Carlisle +4%",
+    );
+    expect(describePriceAdjustment({}, { mode: "amount", value: -1.5, roundTo: 0.01 })).toBe(
+      "Bulk adjust: All products -$1.50",
+    );
+  });
+});
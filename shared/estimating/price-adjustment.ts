@@ -0,0 +1,115 @@
+/**
+ * Price Adjustment — Bulk percentage or fixed-amount price changes across the
+ * products matching a system / manufacturer / category filter, rounded to a
+ * chosen increment (e.g. every Carlisle membrane +4%, rounded to $0.25).
+ */
+
+import { SYSTEM_OPTIONS } from "./all-products";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface PriceAdjustmentFilter {
+  system?: string;
+  manufacturer?: string;
+  category?: string;
+}
+
+export interface PriceAdjustment {
+  /** "percent" changes prices by `value` percent; "amount" by `value` dollars */
+  mode: "percent" | "amount";
+  /** Signed change, e.g. 4 for +4% or -1.5 for -$1.50 */
+  value: number;
+  /** Round new prices to the nearest multiple of this many dollars (e.g. 0.05, 0.25, 1) */
+  roundTo: number;
+}
+
+export interface AdjustableProduct {
+  productId: string;
+  system: string;
+  manufacturer: string;
+  category: string;
+  name: string;
+  unitPrice: number;
+}
+
+export interface PriceAdjustmentRow {
+  productId: string;
+  name: string;
+  system: string;
+  manufacturer: string;
+  category: string;
+  currentPrice: number;
+  newPrice: number;
+  /** Percent change after rounding; null for products without a current price */
+  changePercent: number | null;
+  /** Why the change can't be applied (e.g. a cut to $0.00 or below); null when it can */
+  skipReason: string | null;
+}
+
+/** Rounding increments offered for bulk adjustments, in dollars */
+export const ROUNDING_INCREMENTS = [0.01, 0.05, 0.1, 0.25, 0.5, 1] as const;
+
+// ── Adjusting ──────────────────────────────────────────────────────────────
+
+/** Round to the nearest multiple of `increment` (whole cents), never below zero. */
+export function roundToIncrement(price: number, increment: number): number {
+  const cents = Math.max(1, Math.round(increment * 100));
+  return Math.max(0, Math.round((price * 100) / cents) * cents) / 100;
+}
+
+/** A product's price after the adjustment and rounding. */
+export function adjustPrice(price: number, adjustment: PriceAdjustment): number {
+  const adjusted =
+    adjustment.mode === "percent" ? price * (1 + adjustment.value / 100) : price + adjustment.value;
+  return roundToIncrement(adjusted, adjustment.roundTo);
+}
+
+export function matchesAdjustmentFilter(product: AdjustableProduct, filter: PriceAdjustmentFilter): boolean {
+  return (
+    (!filter.system || product.system === filter.system) &&
+    (!filter.manufacturer || product.manufacturer === filter.manufacturer) &&
+    (!filter.category || product.category === filter.category)
+  );
+}
+
+/**
+ * Preview a bulk adjustment: every product matching the filter whose price
+ * the adjustment (after rounding) actually changes, with old and new prices.
+ * Cuts that would take a price to $0.00 or below are listed with a skip
+ * reason and never applied.
+ */
+export function planPriceAdjustment(
+  products: AdjustableProduct[],
+  filter: PriceAdjustmentFilter,
+  adjustment: PriceAdjustment,
+): PriceAdjustmentRow[] {
+  const rows: PriceAdjustmentRow[] = [];
+  for (const product of products) {
+    if (!matchesAdjustmentFilter(product, filter)) continue;
+    const newPrice = adjustPrice(product.unitPrice, adjustment);
+    if (newPrice === product.unitPrice) continue;
+    const skipReason = newPrice <= 0 ? "Would take the price to $0.00 or below" : null;
+    rows.push({
+      productId: product.productId,
+      name: product.name,
+      system: product.system,
+      manufacturer: product.manufacturer,
+      category: product.category,
+      currentPrice: product.unitPrice,
+      newPrice,
+      changePercent: product.unitPrice > 0 ? ((newPrice - product.unitPrice) / product.unitPrice) * 100 : null,
+      skipReason,
+    });
+  }
+  return rows;
+}
+
+/** Price history source for an adjustment, e.g. "Bulk adjust: Carlisle · Membrane +4%" */
+export function describePriceAdjustment(filter: PriceAdjustmentFilter, adjustment: PriceAdjustment): string {
+  const system = filter.system && (SYSTEM_OPTIONS.find((o) => o.value === filter.system)?.label ?? filter.system);
+  const scope = [system, filter.manufacturer, filter.category].filter(Boolean).join(" · ") || "All products";
+  const sign = adjustment.value >= 0 ? "+" : "-";
+  const magnitude = Math.abs(adjustment.value);
+  const change = adjustment.mode === "percent" ? `${sign}${magnitude}%` : `${sign}$${magnitude.toFixed(2)}`;
+  return `Bulk adjust: ${scope} ${change}`;
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { planDuePriceChanges, priceAsOf, pricesAsOf, type ScheduledPriceChange } from "./price-schedule";
+
+function change(overrides: Partial<ScheduledPriceChange> & { id: number }): ScheduledPriceChange {
+  return {
+    productId: "karnak-primer",
+    unitPrice: 133.75,
+    effectiveFrom: new Date("2027-03-01"),
+    effectiveTo: null,
+    appliedAt: null,
+    revertPrice: null,
+    ...overrides,
+  };
+}
+
+describe("priceAsOf", () => {
+  const increase = change({ id: 1 });
+  const promo = change({
+    id: 2,
+    unitPrice: 115,
+    effectiveFrom: new Date("2027-04-01"),
+    effectiveTo: new Date("2027-05-01"),
+  });
+
+  it("keeps the book price before a change takes effect", () => {
+    expect(priceAsOf(125, [increase, promo], new Date("2027-02-15"))).toBe(125);
+  });
+
+  it("uses the change in effect on the date, latest start first", () => {
+    expect(priceAsOf(125, [increase, promo], new Date("2027-03-15"))).toBe(133.75);
+    expect(priceAsOf(125, [increase, promo], new Date("2027-04-10"))).toBe(115);
+    expect(priceAsOf(125, [increase, promo], new Date("2027-05-01"))).toBe(133.75);
+  });
+
+  it("brings back the replaced price after an applied temporary price ends", () => {
+    const applied = {
+      ...promo,
+      effectiveFrom: new Date("2026-09-01"),
+      appliedAt: new Date("2026-09-01"),
+      revertPrice: 125,
+    };
+
+    expect(priceAsOf(115, [applied], new Date("2027-04-10"))).toBe(115);
+    expect(priceAsOf(115, [applied], new Date("2027-06-01"))).toBe(125);
+  });
+
+  it("overlays only products with scheduled changes", () => {
+    const prices = pricesAsOf(
+      new Map([
+        ["karnak-primer", 125],
+        ["karnak-19-base", 210],
+      ]),
+      [increase],
+      new Date("2027-04-01"),
+    );
+
+    expect(prices.get("karnak-primer")).toBe(133.75);
+    expect(prices.get("karnak-19-base")).toBe(210);
+  });
+});
+
+describe("planDuePriceChanges", () => {
+  const prices = new Map([["karnak-primer", 125]]);
+
+  it("applies started changes and leaves future ones pending", () => {
+    const actions = planDuePriceChanges(
+      [change({ id: 1 }), change({ id: 2, unitPrice: 140, effectiveFrom: new Date("2027-06-01") })],
+      prices,
+      new Date("2027-03-02"),
+    );
+
+    expect(actions).toEqual([
+      { kind: "apply", id: 1, productId: "karnak-primer", price: 133.75, revertPrice: 125, ended: true },
+    ]);
+  });
+
+  it("applies and reverts a temporary price in order", () => {
+    const promo = change({ id: 3, unitPrice: 115, effectiveTo: new Date("2027-04-01") });
+
+    expect(planDuePriceChanges([promo], prices, new Date("2027-03-15"))).toEqual([
+      { kind: "apply", id: 3, productId: "karnak-primer", price: 115, revertPrice: 125, ended: false },
+    ]);
+
+    const applied = { ...promo, appliedAt: new Date("2027-03-01"), revertPrice: 125 };
+    expect(planDuePriceChanges([applied], new Map([["karnak-primer", 115]]), new Date("2027-04-02"))).toEqual([
+      { kind: "revert", id: 3, productId: "karnak-primer", price: 125 },
+    ]);
+  });
+
+  it("closes a temporary price whose window passed unapplied", () => {
+    const promo = change({ id: 4, unitPrice: 115, effectiveTo: new Date("2027-04-01") });
+
+    expect(planDuePriceChanges([promo], prices, new Date("2027-05-01"))).toEqual([{ kind: "close", id: 4 }]);
+  });
+
+  it("doesn't revert a price that was replaced since", () => {
+    const applied = change({
+      id: 5,
+      unitPrice: 115,
+      effectiveTo: new Date("2027-04-01"),
+      appliedAt: new Date("2027-03-01"),
+      revertPrice: 125,
+    });
+
+    expect(planDuePriceChanges([applied], new Map([["karnak-primer", 129]]), new Date("2027-04-02"))).toEqual([
+      { kind: "close", id: 5 },
+    ]);
+  });
+});
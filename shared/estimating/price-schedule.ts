@@ -0,0 +1,140 @@
+/**
+ * Price Schedule — Effective-dated price changes for the price book.
+ *
+ * A scheduled price replaces a product's price from `effectiveFrom` until
+ * `effectiveTo` (open-ended when null). Once a change is due it is written
+ * to the price book (and price history), and when a temporary price ends the
+ * book goes back to the price it replaced. Until those writes happen, pricing
+ * as of today overlays the due changes, so readers never see a stale price.
+ *
+ * Pricing "as of" a date — today or later — overlays the schedule on the
+ * book, so an estimate for a job starting in April prices at April's price.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface ScheduledPriceChange {
+  id: number;
+  productId: string;
+  unitPrice: number;
+  effectiveFrom: Date;
+  /** End of a temporary price (exclusive); null for a permanent change */
+  effectiveTo: Date | null;
+  /** When the change was written to the price book; null while pending */
+  appliedAt: Date | null;
+  /** Book price the change replaced, restored when a temporary price ends */
+  revertPrice: number | null;
+}
+
+export type DuePriceAction =
+  /** Write the scheduled price to the book, remembering the price it replaces */
+  | { kind: "apply"; id: number; productId: string; price: number; revertPrice: number; ended: boolean }
+  /** A temporary price has ended — put back the price it replaced */
+  | { kind: "revert"; id: number; productId: string; price: number }
+  /** Nothing to write (the window passed unapplied, or a later change replaced the price) */
+  | { kind: "close"; id: number };
+
+// ── As-Of Pricing ──────────────────────────────────────────────────────────
+
+/**
+ * A product's price on `asOf`, given its current book price and its open
+ * (not yet ended) scheduled changes. The change in effect on that date wins
+ * (the latest `effectiveFrom` when they overlap); after an applied temporary
+ * price ends, the price it replaced comes back.
+ */
+export function priceAsOf(currentPrice: number, changes: ScheduledPriceChange[], asOf: Date): number {
+  const time = asOf.getTime();
+  let inEffect: ScheduledPriceChange | null = null;
+  for (const change of changes) {
+    const started = change.effectiveFrom.getTime() <= time;
+    const ended = change.effectiveTo !== null && change.effectiveTo.getTime() <= time;
+    if (started && !ended && (!inEffect || change.effectiveFrom >= inEffect.effectiveFrom)) {
+      inEffect = change;
+    }
+  }
+  if (inEffect) return inEffect.unitPrice;
+
+  // An applied temporary price that has ended by then
+  const lapsed = changes
+    .filter((c) => c.appliedAt && c.revertPrice !== null && c.effectiveTo && c.effectiveTo.getTime() <= time)
+    .sort((a, b) => b.effectiveTo!.getTime() - a.effectiveTo!.getTime())[0];
+  return lapsed ? lapsed.revertPrice! : currentPrice;
+}
+
+/** Overlay scheduled changes on current book prices (keyed by productId) as of a date. */
+export function pricesAsOf(
+  currentPrices: Map<string, number>,
+  changes: ScheduledPriceChange[],
+  asOf: Date,
+): Map<string, number> {
+  const byProduct = new Map<string, ScheduledPriceChange[]>();
+  for (const change of changes) {
+    byProduct.set(change.productId, [...(byProduct.get(change.productId) ?? []), change]);
+  }
+  const prices = new Map(currentPrices);
+  byProduct.forEach((productChanges, productId) => {
+    const current = currentPrices.get(productId);
+    if (current === undefined) return;
+    prices.set(productId, priceAsOf(current, productChanges, asOf));
+  });
+  return prices;
+}
+
+// ── Taking Effect ──────────────────────────────────────────────────────────
+
+/**
+ * Book writes due by `now` for open scheduled changes, in the order they
+ * happened. Pending changes whose window has started are applied (and closed
+ * right away when permanent); applied temporary prices whose window has ended
+ * revert — unless a later change has replaced the price since, in which case
+ * they just close.
+ */
+export function planDuePriceChanges(
+  changes: ScheduledPriceChange[],
+  currentPrices: Map<string, number>,
+  now: Date,
+): DuePriceAction[] {
+  const time = now.getTime();
+  const events: Array<{ at: number; change: ScheduledPriceChange; kind: "start" | "end" }> = [];
+  for (const change of changes) {
+    const from = change.effectiveFrom.getTime();
+    const to = change.effectiveTo?.getTime() ?? null;
+    if (!change.appliedAt) {
+      if (to !== null && to <= time) {
+        events.push({ at: to, change, kind: "end" });
+      } else if (from <= time) {
+        events.push({ at: from, change, kind: "start" });
+      }
+    } else if (to !== null && to <= time) {
+      events.push({ at: to, change, kind: "end" });
+    }
+  }
+  events.sort((a, b) => a.at - b.at || a.change.id - b.change.id);
+
+  const prices = new Map(currentPrices);
+  const actions: DuePriceAction[] = [];
+  for (const { change, kind } of events) {
+    const current = prices.get(change.productId);
+    if (kind === "start") {
+      if (current === undefined) {
+        actions.push({ kind: "close", id: change.id });
+        continue;
+      }
+      actions.push({
+        kind: "apply",
+        id: change.id,
+        productId: change.productId,
+        price: change.unitPrice,
+        revertPrice: current,
+        ended: change.effectiveTo === null,
+      });
+      prices.set(change.productId, change.unitPrice);
+    } else if (change.appliedAt && change.revertPrice !== null && current === change.unitPrice) {
+      actions.push({ kind: "revert", id: change.id, productId: change.productId, price: change.revertPrice });
+      prices.set(change.productId, change.revertPrice);
+    } else {
+      actions.push({ kind: "close", id: change.id });
+    }
+  }
+  return actions;
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateProjectEstimate,
+  getDefaultAssembly,
+  getEstimateSystems,
+  getPricingPrefix,
+} from "./project-estimate";
+import { calculateSectionedEstimate, calculateTPOEstimate } from "./tpo-data";
+import { calculateGAFTPOEstimate } from "./gaf-tpo-data";
+import { calculateEstimate } from "./karnak-data";
+import { calculatePenetrationEstimate } from "./penetrations-data";
+import { calculateSheetMetalEstimate, migrateSheetMetalState } from "./sheet-metal-flashing-data";
+import { toDetailHours } from "./labor-equipment-data";
+
+const roof = { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 };
+
+describe("getEstimateSystems", () => {
+  it("should list coating and membrane systems with their pricing prefixes", () => {
+    const ids = getEstimateSystems().map((s) => s.id);
+    expect(ids).toEqual(expect.arrayContaining(["karnak-metal-kynar", "carlisle-tpo", "gaf-tpo", "firestone-epdm"]));
+    expect(getPricingPrefix("karnak-metal-kynar")).toBe("karnak");
+    expect(getPricingPrefix("gaf-tpo")).toBe("gaf-tpo");
+    expect(getPricingPrefix("unknown")).toBeUndefined();
+  });
+});
+
+describe("calculateProjectEstimate", () => {
+  it("should match the Carlisle TPO engine for a single roof", () => {
+    const result = calculateProjectEstimate({ system: "carlisle-tpo", measurements: roof }, {});
+    const engine = calculateTPOEstimate(getDefaultAssembly("carlisle-tpo"), roof, {});
+
+    expect(result.systemName).toBe("Carlisle SynTec TPO");
+    expect(result.roofArea).toBe(10000);
+    expect(result.totals.materials).toBeCloseTo(engine.totalMaterialCost, 6);
+    expect(result.materials.map((m) => m.productId)).toEqual(engine.lineItems.map((i) => i.product.id));
+    expect(result.labor.length).toBeGreaterThan(0);
+    expect(result.totals.grandTotal).toBeCloseTo(
+      result.totals.materials + result.totals.labor + result.totals.equipment,
+      6
+    );
+  });
+
+  it("should merge the assembly over the system default and apply prices", () => {
+    const result = calculateProjectEstimate(
+      {
+        system: "gaf-tpo",
+        assembly: { attachmentMethod: "mechanically-attached" },
+        measurements: roof,
+      },
+      { "insulation-2.0": 10 }
+    );
+    const assembly = { ...getDefaultAssembly("gaf-tpo"), attachmentMethod: "mechanically-attached" };
+    const engine = calculateGAFTPOEstimate(assembly, roof, { "insulation-2.0": 10 });
+
+    expect(result.totals.materials).toBeCloseTo(engine.totalMaterialCost, 6);
+    expect(result.materials.find((m) => m.productId === "insulation-2.0")?.unitPrice).toBe(10);
+  });
+
+  it("should consolidate multi-section projects", () => {
+    const sections = [
+      { name: "Low Roof", measurements: roof },
+      { name: "High Roof", measurements: { ...roof, roofArea: 2500 } },
+    ];
+    const result = calculateProjectEstimate({ system: "carlisle-tpo", sections }, {});
+    const engine = calculateSectionedEstimate(
+      sections.map((s, idx) => ({ ...s, id: `section-${idx + 1}`, assembly: getDefaultAssembly("carlisle-tpo") })),
+      {}
+    );
+
+    expect(result.roofArea).toBe(12500);
+    expect(result.totals.materials).toBeCloseTo(engine.totalMaterialCost, 6);
+    expect(result.materials[0].sections?.map((s) => s.sectionName)).toEqual(["Low Roof", "High Roof"]);
+  });
+
+  it("should price coating systems through the coating engine", () => {
+    const measurements = { squareFootage: 5000, verticalSeamsLF: 200, horizontalSeamsLF: 150 };
+    const result = calculateProjectEstimate({ system: "karnak-metal-kynar", measurements }, {});
+
+    expect(result.systemName).toBe("Karnak Metal Kynar Coating System");
+    expect(result.totals.materials).toBeCloseTo(calculateEstimate(measurements, {}).totalMaterialCost, 6);
+  });
+
+  it("should add penetrations and sheet metal to the grand total", () => {
+    const sheetMetal = migrateSheetMetalState({
+      metalTypeId: "galvanized-steel",
+      gaugeId: "24ga",
+      lineItems: { "drip-edge": 120 },
+    });
+    const result = calculateProjectEstimate(
+      { system: "firestone-epdm", measurements: roof, penetrations: { "pipe-1-3": 4, unknown: 2 }, sheetMetal },
+      {}
+    );
+    const penetrations = calculatePenetrationEstimate(
+      [{ penetrationId: "pipe-1-3", name: "", category: "", quantity: 4 }],
+      "firestone-epdm"
+    );
+    const flashing = calculateSheetMetalEstimate(sheetMetal);
+
+    expect(result.totals.penetrations).toBeCloseTo(penetrations.totalMaterialCost, 6);
+    expect(result.totals.sheetMetal).toBeCloseTo(flashing.totalMaterialCost, 6);
+    expect(result.sheetMetal).toHaveLength(1);
+    expect(result.totals.additionsLaborMinutes).toBe(penetrations.totalLaborMinutes + flashing.totalLaborMinutes);
+    const { materials, penetrations: pen, sheetMetal: sm, labor, equipment } = result.totals;
+    expect(result.totals.grandTotal).toBeCloseTo(materials + pen + sm + labor + equipment, 6);
+  });
+
+  it("should price the penetration and flashing install time as detail labor", () => {
+    const sheetMetal = migrateSheetMetalState({
+      metalTypeId: "galvanized-steel",
+      gaugeId: "24ga",
+      lineItems: { "drip-edge": 120 },
+    });
+    const coating = calculateProjectEstimate(
+      {
+        system: "karnak-metal-kynar",
+        measurements: { squareFootage: 5000, verticalSeamsLF: 0, horizontalSeamsLF: 0 },
+        penetrations: { "pipe-1-3": 6 },
+        sheetMetal,
+      },
+      {}
+    );
+    const membrane = calculateProjectEstimate({ system: "carlisle-tpo", measurements: roof, penetrations: { "pipe-1-3": 6 } }, {});
+
+    const coatingDetail = coating.labor.find((l) => l.label === "Penetration & Flashing Detail Labor");
+    expect(coatingDetail?.cost).toBeCloseTo(toDetailHours(coating.totals.additionsLaborMinutes) * 55, 6);
+    const membraneDetail = membrane.labor.find((l) => l.label === "Penetration & Flashing Detail Labor");
+    expect(membrane.totals.additionsLaborMinutes).toBeGreaterThan(0);
+    expect(membraneDetail?.cost).toBeCloseTo(toDetailHours(membrane.totals.additionsLaborMinutes) * 65, 6);
+  });
+
+  it("should price penetrations from the system's price book", () => {
+    const request = { system: "gaf-tpo", measurements: roof, penetrations: { "pipe-1-3": 2 } };
+    const result = calculateProjectEstimate(request, { "acc-pipe-boot": 50 });
+    const boot = result.penetrations.find((p) => p.productId === "acc-pipe-boot");
+
+    expect(boot).toMatchObject({ materialName: "EverGuard TPO Pipe Boot", quantity: 2, unitPrice: 50, totalPrice: 100 });
+  });
+
+  it("should reject unknown systems and membrane requests without measurements", () => {
+    expect(() =>
+      calculateProjectEstimate({ system: "nope", measurements: { squareFootage: 1, verticalSeamsLF: 0, horizontalSeamsLF: 0 } }, {})
+    ).toThrow(/Unknown estimate system/);
+    expect(() => calculateProjectEstimate({ system: "gaf-tpo" }, {})).toThrow(/measurements or sections/);
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Project Estimate — One entry point over every estimating engine.
+ *
+ * Given a system, its measurements (and roof assembly for membrane systems),
+ * returns the same numbers the estimator pages show: material line items,
+ * penetrations and sheet metal flashing, labor, equipment and totals. Used
+ * by the server's calculation API so scripts don't need the browser.
+ *
+ * Prices are keyed by the engine's local product ID — the pricing DB
+ * productId without its system prefix. Products without a price fall back
+ * to their catalog default.
+ */
+
+import { BadRequestError } from "../_core/errors";
+import { calculateCoatingEstimate, type EstimateInput } from "./karnak-data";
+import { COATING_SYSTEMS, getCoatingSystem } from "./silicone-coating-data";
+import {
+  calculateSectionedEstimate,
+  calculateTPOEstimate,
+  getSeamLF,
+  type AssemblyConfig,
+  type RoofSection,
+  type TPOEstimateCalculator,
+  type TPOLineItemSection,
+  type TPOMeasurements,
+} from "./tpo-data";
+import { calculateGAFTPOEstimate } from "./gaf-tpo-data";
+import { calculateEPDMEstimate } from "./firestone-epdm-data";
+import {
+  calculatePenetrationEstimate,
+  PENETRATION_TYPES,
+  type PenetrationMaterialResult,
+} from "./penetrations-data";
+import {
+  calculateSheetMetalEstimate,
+  type FlashingLineItem,
+  type SheetMetalFlashingState,
+} from "./sheet-metal-flashing-data";
+import {
+  calculateLaborEquipmentTotals,
+  DEFAULT_EQUIPMENT_ITEMS,
+  DEFAULT_LABOR_ITEMS,
+  type LaborEquipmentState,
+} from "./labor-equipment-data";
+import {
+  calculateTPOLaborEquipmentTotals,
+  DEFAULT_TPO_EQUIPMENT_ITEMS,
+  DEFAULT_TPO_LABOR_ITEMS,
+  type TPOLaborEquipmentState,
+} from "./tpo-labor-equipment-data";
+
+// ── Systems ────────────────────────────────────────────────────────────────
+
+export type MembraneSystemId = "carlisle-tpo" | "gaf-tpo" | "firestone-epdm";
+
+const MEMBRANE_SYSTEMS: Record<
+  MembraneSystemId,
+  { name: string; calculate: TPOEstimateCalculator; fastenerType: string }
+> = {
+  "carlisle-tpo": { name: "Carlisle SynTec TPO", calculate: calculateTPOEstimate, fastenerType: "sfs-dekfast" },
+  "gaf-tpo": { name: "GAF EverGuard TPO", calculate: calculateGAFTPOEstimate, fastenerType: "gaf-drilltec-14" },
+  "firestone-epdm": { name: "Firestone RubberGard EPDM", calculate: calculateEPDMEstimate, fastenerType: "firestone-hd" },
+};
+
+export const MEMBRANE_SYSTEM_IDS = Object.keys(MEMBRANE_SYSTEMS) as MembraneSystemId[];
+
+export function isMembraneSystem(system: string): system is MembraneSystemId {
+  return system in MEMBRANE_SYSTEMS;
+}
+
+/** Every system the calculator accepts, with its pricing DB prefix */
+export function getEstimateSystems(): { id: string; name: string; kind: "coating" | "membrane"; pricingPrefix: string }[] {
+  return [
+    ...COATING_SYSTEMS.map((s) => ({ id: s.id, name: s.name, kind: "coating" as const, pricingPrefix: s.pricingPrefix })),
+    ...MEMBRANE_SYSTEM_IDS.map((id) => ({ id, name: MEMBRANE_SYSTEMS[id].name, kind: "membrane" as const, pricingPrefix: id })),
+  ];
+}
+
+/** Prefix of a system's productIds in the pricing database */
+export function getPricingPrefix(system: string): string | undefined {
+  return getEstimateSystems().find((s) => s.id === system)?.pricingPrefix;
+}
+
+/** The estimator's starting assembly for a membrane system */
+export function getDefaultAssembly(system: MembraneSystemId): AssemblyConfig {
+  return {
+    deckType: "steel-22ga",
+    vaporBarrier: "none",
+    insulationEnabled: true,
+    insulationLayers: [
+      { thickness: "2.0", enabled: true },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+    ],
+    coverBoard: "densdeck-prime-half",
+    membraneThickness: "60mil",
+    attachmentMethod: "fully-adhered",
+    fastenerType: MEMBRANE_SYSTEMS[system].fastenerType,
+    fastenerLength: "auto",
+    membraneFastenerLength: "auto",
+    plateType: "3in-round",
+    membranePlateType: "barbed",
+  };
+}
+
+// ── Request / Result ───────────────────────────────────────────────────────
+
+interface ProjectEstimateRequestBase {
+  /** penetrationId -> count */
+  penetrations?: Record<string, number>;
+  sheetMetal?: SheetMetalFlashingState;
+}
+
+export interface CoatingEstimateRequest extends ProjectEstimateRequestBase {
+  system: string;
+  measurements: EstimateInput;
+  /** Defaults to the estimator's standard crew and equipment */
+  laborEquipment?: LaborEquipmentState;
+}
+
+export interface RoofSectionRequest {
+  name: string;
+  /** Merged over the system's default assembly */
+  assembly?: Partial<AssemblyConfig>;
+  measurements: TPOMeasurements;
+}
+
+export interface MembraneEstimateRequest extends ProjectEstimateRequestBase {
+  system: MembraneSystemId;
+  /** Single-roof projects: merged over the system's default assembly */
+  assembly?: Partial<AssemblyConfig>;
+  measurements?: TPOMeasurements;
+  /** Multi-section projects; takes precedence over assembly/measurements */
+  sections?: RoofSectionRequest[];
+  /** Defaults to the estimator's standard crew and equipment */
+  laborEquipment?: TPOLaborEquipmentState;
+}
+
+export type ProjectEstimateRequest = CoatingEstimateRequest | MembraneEstimateRequest;
+
+export interface ProjectMaterialLine {
+  productId: string; // local product ID (pricing DB productId without prefix)
+  name: string;
+  category: string;
+  unit: string;
+  quantityNeeded: number;
+  quantity: number;  // whole units to order
+  unitPrice: number;
+  totalCost: number;
+  note: string;
+  sections?: TPOLineItemSection[];
+}
+
+export interface ProjectCostLine {
+  label: string;
+  cost: number;
+  detail: string;
+}
+
+export interface ProjectEstimate {
+  system: string;
+  systemName: string;
+  roofArea: number;
+  materials: ProjectMaterialLine[];
+  penetrations: PenetrationMaterialResult[];
+  sheetMetal: FlashingLineItem[];
+  labor: ProjectCostLine[];
+  equipment: ProjectCostLine[];
+  totals: {
+    materials: number;
+    penetrations: number;
+    sheetMetal: number;
+    labor: number;
+    equipment: number;
+    grandTotal: number;
+    /** Install time for penetrations and sheet metal flashing, priced by the detail labor line */
+    additionsLaborMinutes: number;
+  };
+}
+
+// ── Calculation ────────────────────────────────────────────────────────────
+
+function calculateRoofAdditions(request: ProjectEstimateRequest, prices: Record<string, number>) {
+  const lineItems = Object.entries(request.penetrations ?? {}).flatMap(([penetrationId, quantity]) => {
+    const penType = PENETRATION_TYPES.find((p) => p.id === penetrationId);
+    if (!penType || quantity <= 0) return [];
+    return [{ penetrationId, name: penType.name, category: penType.category, quantity }];
+  });
+  const penetrations = calculatePenetrationEstimate(lineItems, request.system, prices);
+  const sheetMetal = request.sheetMetal
+    ? calculateSheetMetalEstimate(request.sheetMetal)
+    : { lineItems: [], totalMaterialCost: 0, totalLaborMinutes: 0 };
+  return { penetrations, sheetMetal };
+}
+
+function defaultLaborState<T extends { defaultRate: number; defaultQuantity: number }>(items: T[]) {
+  return items.map((item) => ({ ...item, rate: item.defaultRate, quantity: item.defaultQuantity }));
+}
+
+function toSections(request: MembraneEstimateRequest): RoofSection[] {
+  const defaults = getDefaultAssembly(request.system);
+  const requested: RoofSectionRequest[] = request.sections?.length
+    ? request.sections
+    : request.measurements
+      ? [{ name: "Main Roof", assembly: request.assembly, measurements: request.measurements }]
+      : [];
+  if (requested.length === 0) {
+    throw BadRequestError("measurements or sections are required for membrane systems");
+  }
+  return requested.map((s, idx) => ({
+    id: `section-${idx + 1}`,
+    name: s.name,
+    assembly: { ...defaults, ...s.assembly },
+    measurements: s.measurements,
+  }));
+}
+
+function calculateCoatingProject(
+  request: CoatingEstimateRequest,
+  prices: Record<string, number>,
+  detailLaborMinutes: number,
+) {
+  const system = getCoatingSystem(request.system);
+  if (!system) throw BadRequestError(`Unknown estimate system "${request.system}"`);
+
+  const estimate = calculateCoatingEstimate(system, request.measurements, prices);
+  const laborEquipment = request.laborEquipment ?? {
+    laborItems: defaultLaborState(DEFAULT_LABOR_ITEMS),
+    equipmentItems: defaultLaborState(DEFAULT_EQUIPMENT_ITEMS),
+  };
+
+  return {
+    systemName: system.name,
+    roofArea: request.measurements.squareFootage,
+    materials: estimate.lineItems.map((item) => ({
+      productId: item.product.id,
+      name: item.product.name,
+      category: item.product.step,
+      unit: item.product.unitLabel,
+      quantityNeeded: item.quantityNeeded,
+      quantity: item.quantityToOrder,
+      unitPrice: item.unitPrice,
+      totalCost: item.totalCost,
+      note: item.coats > 1 ? `${item.coats} coats` : "",
+    })),
+    totalMaterialCost: estimate.totalMaterialCost,
+    laborEquipment: calculateLaborEquipmentTotals(
+      laborEquipment,
+      request.measurements.squareFootage,
+      detailLaborMinutes,
+    ),
+  };
+}
+
+function calculateMembraneProject(
+  request: MembraneEstimateRequest,
+  prices: Record<string, number>,
+  detailLaborMinutes: number,
+) {
+  const system = MEMBRANE_SYSTEMS[request.system];
+  const estimate = calculateSectionedEstimate(toSections(request), prices, system.calculate);
+  const { roofArea, baseFlashingLF, wallLinearFt } = estimate.measurements;
+  const laborEquipment = request.laborEquipment ?? {
+    laborItems: defaultLaborState(DEFAULT_TPO_LABOR_ITEMS),
+    equipmentItems: defaultLaborState(DEFAULT_TPO_EQUIPMENT_ITEMS),
+  };
+
+  return {
+    systemName: system.name,
+    roofArea,
+    materials: estimate.lineItems.map((item) => ({
+      productId: item.product.id,
+      name: item.product.name,
+      category: item.product.category,
+      unit: item.product.unit,
+      quantityNeeded: item.quantityNeeded,
+      quantity: item.unitsToOrder,
+      unitPrice: item.unitPrice,
+      totalCost: item.totalCost,
+      note: item.note,
+      sections: item.sections,
+    })),
+    totalMaterialCost: estimate.totalMaterialCost,
+    laborEquipment: calculateTPOLaborEquipmentTotals(
+      laborEquipment,
+      roofArea,
+      baseFlashingLF + wallLinearFt,
+      detailLaborMinutes,
+      getSeamLF(estimate),
+    ),
+  };
+}
+
+/**
+ * Full project estimate for any system. Throws a 400 HttpError for an
+ * unknown system or a membrane request without measurements.
+ */
+export function calculateProjectEstimate(
+  request: ProjectEstimateRequest,
+  prices: Record<string, number>
+): ProjectEstimate {
+  const { penetrations, sheetMetal } = calculateRoofAdditions(request, prices);
+  const additionsLaborMinutes = penetrations.totalLaborMinutes + sheetMetal.totalLaborMinutes;
+  const project = isMembraneSystem(request.system)
+    ? calculateMembraneProject(request as MembraneEstimateRequest, prices, additionsLaborMinutes)
+    : calculateCoatingProject(request as CoatingEstimateRequest, prices, additionsLaborMinutes);
+  const { laborTotal, equipmentTotal, laborBreakdown, equipmentBreakdown } = project.laborEquipment;
+
+  return {
+    system: request.system,
+    systemName: project.systemName,
+    roofArea: project.roofArea,
+    materials: project.materials,
+    penetrations: penetrations.materials,
+    sheetMetal: sheetMetal.lineItems,
+    labor: laborBreakdown,
+    equipment: equipmentBreakdown,
+    totals: {
+      materials: project.totalMaterialCost,
+      penetrations: penetrations.totalMaterialCost,
+      sheetMetal: sheetMetal.totalMaterialCost,
+      labor: laborTotal,
+      equipment: equipmentTotal,
+      grandTotal:
+        project.totalMaterialCost +
+        penetrations.totalMaterialCost +
+        sheetMetal.totalMaterialCost +
+        laborTotal +
+        equipmentTotal,
+      additionsLaborMinutes,
+    },
+  };
+}
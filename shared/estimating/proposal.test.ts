@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProposal,
+  buildProposalPricing,
+  buildScopeOfWork,
+  computeTaxProfit,
+  DEFAULT_PROPOSAL_TEMPLATE,
+  type ProposalPricingInput,
+} from "./proposal";
+import { serializeKarnakState, serializeTPOState } from "./estimate-state-serializers";
+import { getDefaultAssembly } from "./project-estimate";
+import { getDefaultSheetMetalState } from "./sheet-metal-flashing-data";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "./tpo-labor-equipment-data";
+import { DEFAULT_EQUIPMENT_ITEMS, DEFAULT_LABOR_ITEMS } from "./labor-equipment-data";
+
+const noTaxProfit = { taxEnabled: false, taxPercent: 0, profitEnabled: false, profitPercent: 0 };
+
+function tpoState(penetrations: Record<string, number> = {}) {
+  return serializeTPOState("carlisle-tpo", {
+    measurements: { totalRoofArea: "", baseFlashing: "" },
+    customPrices: {},
+    laborEquipment: {
+      laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+      equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+    },
+    sections: [
+      {
+        name: "Main Roof",
+        assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+        measurements: { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+      },
+    ],
+    penetrationsState: { lineItems: penetrations, sheetMetal: getDefaultSheetMetalState() },
+  });
+}
+
+const breakdown: ProposalPricingInput = {
+  materials: [
+    { name: "TPO Membrane", unit: "roll", quantity: 10, totalCost: 5000, enabled: true },
+    { name: "Walkway Pads", unit: "roll", quantity: 2, totalCost: 400, enabled: false },
+  ],
+  penetrations: [],
+  labor: [{ label: "Installation Crew", computedCost: 8000, enabled: true }],
+  equipment: [{ label: "Dumpster", computedCost: 600, enabled: true }],
+  materialsTaxProfit: { taxEnabled: true, taxPercent: 8, profitEnabled: true, profitPercent: 20 },
+  penetrationsTaxProfit: noTaxProfit,
+  laborTaxProfit: { ...noTaxProfit, profitEnabled: true, profitPercent: 15 },
+  equipmentTaxProfit: noTaxProfit,
+};
+
+describe("buildScopeOfWork", () => {
+  it("should write out the membrane assembly for each roof section", () => {
+    const scope = buildScopeOfWork(tpoState({ "pipe-1-3": 4 }));
+
+    expect(scope.map((s) => s.heading)).toEqual(["Main Roof — 10,000 sq ft", "Penetrations & Flashing"]);
+    const [roof, flashing] = scope;
+    expect(roof.lines[0]).toMatch(/^Prepare the existing .+ to receive the new roof system\.$/);
+    expect(roof.lines.some((l) => /^Install .+ roof insulation\.$/.test(l))).toBe(true);
+    expect(roof.lines.some((l) => /^Install .+ membrane, /.test(l))).toBe(true);
+    expect(roof.lines).toContain("Flash 400 LF of walls and curbs up to 3 ft high.");
+    expect(flashing.lines[0]).toContain('4 × Pipe Flashing (1"–3")');
+  });
+
+  it("should list coating steps for coating systems", () => {
+    const scope = buildScopeOfWork(
+      serializeKarnakState({
+        system: "karnak-silicone-520",
+        squareFootage: "5000",
+        verticalSeamsLF: "0",
+        horizontalSeamsLF: "0",
+        warrantyYears: 10,
+        customPrices: {},
+        laborEquipment: {
+          laborItems: DEFAULT_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+          equipmentItems: DEFAULT_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+        },
+      })
+    );
+
+    expect(scope).toHaveLength(1);
+    expect(scope[0].heading).toContain("5,000 sq ft");
+    expect(scope[0].lines.length).toBeGreaterThan(1);
+    expect(scope[0].lines.at(-1)).toContain("10-year warranty");
+  });
+
+  it("should return no scope for unreadable state", () => {
+    expect(buildScopeOfWork("not json")).toEqual([]);
+    expect(buildScopeOfWork("{}")).toEqual([]);
+  });
+});
+
+describe("buildProposalPricing", () => {
+  it("should roll up enabled items with each section's tax and profit", () => {
+    const pricing = buildProposalPricing(breakdown);
+
+    expect(pricing.sections.map((s) => s.title)).toEqual(["Materials", "Labor", "Equipment"]);
+    const [materials, labor] = pricing.sections;
+    expect(materials.items).toEqual([{ description: "TPO Membrane", quantity: "10 roll", amount: 5000 }]);
+    expect(materials.total).toBeCloseTo(computeTaxProfit(5000, breakdown.materialsTaxProfit).sectionTotal, 6);
+    expect(labor.profit).toBeCloseTo(1200, 6);
+
+    expect(pricing.subtotal).toBe(13600);
+    expect(pricing.tax).toBeCloseTo(400, 6);
+    expect(pricing.profit).toBeCloseTo(2200, 6);
+    expect(pricing.total).toBeCloseTo(16200, 6);
+  });
+});
+
+describe("buildProposal", () => {
+  it("should date the proposal and compute validity from the template", () => {
+    const proposal = buildProposal(
+      {
+        customer: { name: "Jordan Lee" },
+        project: { name: "Warehouse Reroof" },
+        systemName: "Carlisle TPO",
+        roofArea: 10000,
+        estimatorState: tpoState(),
+        breakdown,
+        showLineItems: true,
+        date: "2026-03-01T12:00:00.000Z",
+      },
+      { ...DEFAULT_PROPOSAL_TEMPLATE, validDays: 45, exclusions: "Permits\n\n  Engineering  " }
+    );
+
+    expect(proposal.date).toBe("March 1, 2026");
+    expect(proposal.validUntil).toBe("April 15, 2026");
+    expect(proposal.exclusions).toEqual(["Permits", "Engineering"]);
+    expect(proposal.inclusions.length).toBeGreaterThan(0);
+    expect(proposal.project).toEqual({ name: "Warehouse Reroof", systemName: "Carlisle TPO", roofArea: 10000 });
+    expect(proposal.scope[0].heading).toBe("Main Roof — 10,000 sq ft");
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Proposal — Customer-facing bid document content.
+ *
+ * Builds everything a proposal PDF prints from an estimate breakdown: the
+ * scope of work written out from the saved estimator state (deck, insulation,
+ * cover board, membrane and attachment per roof section, or the coating
+ * steps), the price with optional line-item detail and the tax / profit
+ * rollup, and the template's letterhead, inclusions, exclusions, payment
+ * terms and acceptance wording. The server renders the result to PDF.
+ */
+
+import { describeInsulation, describeTapered, getAssemblyOptionLabel } from "./assembly-labels";
+import {
+  deserializeKarnakState,
+  deserializeTPOState,
+  getSavedRoofSections,
+  type KarnakSaveState,
+  type SavedPenetrationsState,
+  type TPOSaveState,
+} from "./estimate-state-serializers";
+import { getCoatingSystem } from "./silicone-coating-data";
+import { getDefaultAssembly } from "./project-estimate";
+import { PENETRATION_TYPES } from "./penetrations-data";
+import { calculateSheetMetalEstimate } from "./sheet-metal-flashing-data";
+
+// ── Template ───────────────────────────────────────────────────────────────
+
+/** The editable parts of a proposal template (see the proposal_templates table) */
+export interface ProposalTemplateContent {
+  companyName: string;
+  companyAddress: string | null;
+  companyPhone: string | null;
+  companyEmail: string | null;
+  companyWebsite: string | null;
+  licenseNumber: string | null;
+  introText: string | null;
+  /** One per line */
+  inclusions: string | null;
+  /** One per line */
+  exclusions: string | null;
+  paymentTerms: string | null;
+  validDays: number;
+  acceptanceText: string | null;
+}
+
+/** Used when no template has been saved yet */
+export const DEFAULT_PROPOSAL_TEMPLATE: ProposalTemplateContent = {
+  companyName: "Your Roofing Company",
+  companyAddress: null,
+  companyPhone: null,
+  companyEmail: null,
+  companyWebsite: null,
+  licenseNumber: null,
+  introText:
+    "Thank you for the opportunity to bid on your roofing project. We propose to furnish all labor, materials and equipment to complete the work described below.",
+  inclusions: [
+    "All labor, materials and equipment to complete the scope of work",
+    "Daily clean-up and removal of project debris",
+    "Manufacturer's standard material warranty",
+    "Contractor's 2-year workmanship warranty",
+  ].join("\n"),
+  exclusions: [
+    "Replacement of wet or deteriorated deck or insulation not identified above",
+    "Permits and engineering fees unless listed",
+    "Electrical, plumbing and mechanical work",
+    "Asbestos or hazardous material abatement",
+  ].join("\n"),
+  paymentTerms: "30% deposit due at signing. Balance due upon completion.",
+  validDays: 30,
+  acceptanceText:
+    "The above prices, specifications and conditions are satisfactory and are hereby accepted. You are authorized to do the work as specified. Payment will be made as outlined above.",
+};
+
+// ── Request ────────────────────────────────────────────────────────────────
+
+export interface TaxProfitState {
+  taxEnabled: boolean;
+  taxPercent: number;
+  profitEnabled: boolean;
+  profitPercent: number;
+}
+
+interface PricedLineInput {
+  name: string;
+  unit: string;
+  quantity: number;
+  totalCost: number;
+  enabled: boolean;
+}
+
+interface CostLineInput {
+  label: string;
+  computedCost: number;
+  enabled: boolean;
+}
+
+/** The breakdown page's editing state (a BreakdownSaveState) */
+export interface ProposalPricingInput {
+  materials: PricedLineInput[];
+  penetrations: PricedLineInput[];
+  labor: CostLineInput[];
+  equipment: CostLineInput[];
+  materialsTaxProfit: TaxProfitState;
+  penetrationsTaxProfit: TaxProfitState;
+  laborTaxProfit: TaxProfitState;
+  equipmentTaxProfit: TaxProfitState;
+}
+
+export interface ProposalContact {
+  name: string;
+  company?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface ProposalInput {
+  customer: ProposalContact;
+  project: { name: string; address?: string };
+  systemName: string;
+  roofArea: number;
+  /** Saved estimator state JSON, for the scope of work */
+  estimatorState: string;
+  breakdown: ProposalPricingInput;
+  /** Print each line item, not just the section totals */
+  showLineItems: boolean;
+  /** Proposal date (ISO), defaults to today */
+  date?: string;
+}
+
+// ── Document ───────────────────────────────────────────────────────────────
+
+export interface ScopeSection {
+  heading: string;
+  lines: string[];
+}
+
+export interface ProposalPriceLine {
+  description: string;
+  /** e.g. "12 roll"; empty for labor and equipment */
+  quantity: string;
+  amount: number;
+}
+
+export interface ProposalPriceSection {
+  title: string;
+  items: ProposalPriceLine[];
+  subtotal: number;
+  tax: number;
+  taxPercent: number;
+  profit: number;
+  profitPercent: number;
+  total: number;
+}
+
+export interface ProposalPricing {
+  sections: ProposalPriceSection[];
+  subtotal: number;
+  tax: number;
+  profit: number;
+  total: number;
+}
+
+export interface ProposalDocument {
+  template: ProposalTemplateContent;
+  date: string;
+  validUntil: string;
+  customer: ProposalContact;
+  project: { name: string; address?: string; systemName: string; roofArea: number };
+  scope: ScopeSection[];
+  inclusions: string[];
+  exclusions: string[];
+  pricing: ProposalPricing;
+  showLineItems: boolean;
+}
+
+// ── Scope of Work ──────────────────────────────────────────────────────────
+
+const num = (n: number) => new Intl.NumberFormat("en-US", { maximumFractionDigits: 1 }).format(n);
+
+function penetrationLines(state: SavedPenetrationsState | undefined): string[] {
+  if (!state) return [];
+  const lines: string[] = [];
+  const penetrations = Object.entries(state.lineItems).flatMap(([id, count]) => {
+    const type = PENETRATION_TYPES.find((p) => p.id === id);
+    return type && count > 0 ? [`${count} × ${type.name}`] : [];
+  });
+  if (penetrations.length > 0) {
+    lines.push(`Flash roof penetrations per manufacturer details: ${penetrations.join(", ")}.`);
+  }
+  if (state.sheetMetal) {
+    const sheetMetal = calculateSheetMetalEstimate(state.sheetMetal);
+    if (sheetMetal.lineItems.length > 0) {
+      const items = sheetMetal.lineItems.map((i) => `${num(i.quantity)} LF ${i.name} (${i.metal})`).join(", ");
+      lines.push(`Fabricate and install sheet metal flashing: ${items}.`);
+    }
+  }
+  return lines;
+}
+
+function membraneScope(state: TPOSaveState): ScopeSection[] {
+  const system = state.system;
+  const label = (field: Parameters<typeof getAssemblyOptionLabel>[1], value: unknown) =>
+    getAssemblyOptionLabel(system, field, value);
+
+  const sections = getSavedRoofSections(state, getDefaultAssembly(system)).map((section) => {
+    const { assembly, measurements } = section;
+    const lines = [`Prepare the existing ${label("deckType", assembly.deckType)} to receive the new roof system.`];
+    if (assembly.vaporBarrier !== "none") {
+      lines.push(`Install ${label("vaporBarrier", assembly.vaporBarrier)} vapor barrier.`);
+    }
+    const insulation = describeInsulation(assembly);
+    if (insulation !== "None") lines.push(`Install ${insulation} roof insulation.`);
+    if (assembly.tapered?.enabled) {
+      lines.push(`Install tapered insulation for positive drainage (${describeTapered(assembly)}).`);
+    }
+    if (assembly.coverBoard !== "none") {
+      lines.push(`Install ${label("coverBoard", assembly.coverBoard)} cover board.`);
+    }
+    lines.push(
+      `Install ${label("membraneThickness", assembly.membraneThickness)} membrane, ${label("attachmentMethod", assembly.attachmentMethod)}.`
+    );
+    if (assembly.attachmentMethod === "mechanically-attached") {
+      lines.push(`Fasten with ${label("fastenerType", assembly.fastenerType)} and ${label("membranePlateType", assembly.membranePlateType)}.`);
+    }
+    if (measurements.wallLinearFt > 0) {
+      lines.push(`Flash ${num(measurements.wallLinearFt)} LF of walls and curbs up to ${num(measurements.wallHeight)} ft high.`);
+    }
+    if (measurements.baseFlashingLF > 0) {
+      lines.push(`Install ${num(measurements.baseFlashingLF)} LF of base flashing.`);
+    }
+    return { heading: `${section.name} — ${num(measurements.roofArea)} sq ft`, lines };
+  });
+
+  const additions = penetrationLines(state.penetrationsState);
+  return additions.length > 0 ? [...sections, { heading: "Penetrations & Flashing", lines: additions }] : sections;
+}
+
+function coatingScope(state: KarnakSaveState): ScopeSection[] {
+  const system = getCoatingSystem(state.system);
+  if (!system) return [];
+
+  const steps = new Map<string, string[]>();
+  for (const product of system.products) {
+    steps.set(product.step, [...(steps.get(product.step) ?? []), product.name]);
+  }
+  const lines = Array.from(steps.entries()).map(
+    ([step, products]) => `${step}: ${Array.from(new Set(products)).join(", ")}.`
+  );
+  if (state.warrantyYears) {
+    lines.push(`Coating thickness to meet the manufacturer's ${state.warrantyYears}-year warranty requirements.`);
+  }
+
+  const sqft = parseFloat(state.squareFootage) || 0;
+  const sections = [{ heading: `${system.name} — ${num(sqft)} sq ft`, lines }];
+  const additions = penetrationLines(state.penetrationsState);
+  return additions.length > 0 ? [...sections, { heading: "Penetrations & Flashing", lines: additions }] : sections;
+}
+
+/** Scope-of-work text from a saved estimator state; empty when it can't be read */
+export function buildScopeOfWork(estimatorState: string): ScopeSection[] {
+  const tpo = deserializeTPOState(estimatorState);
+  if (tpo) return membraneScope(tpo);
+  const coating = deserializeKarnakState(estimatorState);
+  if (coating) return coatingScope(coating);
+  return [];
+}
+
+// ── Pricing ────────────────────────────────────────────────────────────────
+
+export function computeTaxProfit(base: number, tp: TaxProfitState) {
+  const taxAmount = tp.taxEnabled ? base * (tp.taxPercent / 100) : 0;
+  const profitAmount = tp.profitEnabled ? base * (tp.profitPercent / 100) : 0;
+  return { taxAmount, profitAmount, sectionTotal: base + taxAmount + profitAmount };
+}
+
+function priceSection(title: string, items: ProposalPriceLine[], tp: TaxProfitState): ProposalPriceSection {
+  const subtotal = items.reduce((sum, i) => sum + i.amount, 0);
+  const { taxAmount, profitAmount, sectionTotal } = computeTaxProfit(subtotal, tp);
+  return {
+    title,
+    items,
+    subtotal,
+    tax: taxAmount,
+    taxPercent: tp.taxEnabled ? tp.taxPercent : 0,
+    profit: profitAmount,
+    profitPercent: tp.profitEnabled ? tp.profitPercent : 0,
+    total: sectionTotal,
+  };
+}
+
+/** Section totals and rollup of the enabled breakdown items, matching the breakdown page */
+export function buildProposalPricing(breakdown: ProposalPricingInput): ProposalPricing {
+  const priced = (items: PricedLineInput[]) =>
+    items
+      .filter((i) => i.enabled)
+      .map((i) => ({ description: i.name, quantity: `${num(i.quantity)} ${i.unit}`, amount: i.totalCost }));
+  const costs = (items: CostLineInput[]) =>
+    items.filter((i) => i.enabled).map((i) => ({ description: i.label, quantity: "", amount: i.computedCost }));
+
+  const sections = [
+    priceSection("Materials", priced(breakdown.materials), breakdown.materialsTaxProfit),
+    priceSection("Penetrations & Flashing", priced(breakdown.penetrations), breakdown.penetrationsTaxProfit),
+    priceSection("Labor", costs(breakdown.labor), breakdown.laborTaxProfit),
+    priceSection("Equipment", costs(breakdown.equipment), breakdown.equipmentTaxProfit),
+  ].filter((s) => s.items.length > 0);
+
+  return {
+    sections,
+    subtotal: sections.reduce((sum, s) => sum + s.subtotal, 0),
+    tax: sections.reduce((sum, s) => sum + s.tax, 0),
+    profit: sections.reduce((sum, s) => sum + s.profit, 0),
+    total: sections.reduce((sum, s) => sum + s.total, 0),
+  };
+}
+
+// ── Document ───────────────────────────────────────────────────────────────
+
+const toLines = (text: string | null) =>
+  (text ?? "")
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean);
+
+const fmtDate = (d: Date) =>
+  d.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+export function buildProposal(input: ProposalInput, template: ProposalTemplateContent): ProposalDocument {
+  const date = input.date ? new Date(input.date) : new Date();
+  const validUntil = new Date(date.getTime() + template.validDays * 24 * 60 * 60 * 1000);
+
+  return {
+    template,
+    date: fmtDate(date),
+    validUntil: fmtDate(validUntil),
+    customer: input.customer,
+    project: { ...input.project, systemName: input.systemName, roofArea: input.roofArea },
+    scope: buildScopeOfWork(input.estimatorState),
+    inclusions: toLines(template.inclusions),
+    exclusions: toLines(template.exclusions),
+    pricing: buildProposalPricing(input.breakdown),
+    showLineItems: input.showLineItems,
+  };
+}
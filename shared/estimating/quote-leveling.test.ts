@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { getEstimateOrderList, levelQuote } from "./quote-leveling";
+import { serializeTPOState } from "./estimate-state-serializers";
+import { getDefaultAssembly } from "./project-estimate";
+import { getDefaultSheetMetalState } from "./sheet-metal-flashing-data";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "./tpo-labor-equipment-data";
+
+const tpoLabor = {
+  laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+  equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+};
+
+function tpoState() {
+  return serializeTPOState("carlisle-tpo", {
+    measurements: { totalRoofArea: "", baseFlashing: "" },
+    customPrices: {},
+    laborEquipment: tpoLabor,
+    sections: [
+      {
+        name: "Main Roof",
+        assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+        measurements: { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+      },
+    ],
+    penetrationsState: { lineItems: {}, sheetMetal: getDefaultSheetMetalState() },
+  });
+}
+
+describe("getEstimateOrderList", () => {
+  it("should list a saved estimate's materials under pricing DB product IDs", () => {
+    const lines = getEstimateOrderList(tpoState());
+
+    expect(lines.length).toBeGreaterThan(0);
+    for (const line of lines) {
+      expect(line.productId.startsWith("carlisle-tpo-")).toBe(true);
+      expect(line.quantity).toBeGreaterThan(0);
+    }
+    expect(new Set(lines.map((l) => l.productId)).size).toBe(lines.length);
+  });
+
+  it("should reject unreadable estimate data", () => {
+    expect(() => getEstimateOrderList("not json")).toThrow();
+  });
+});
+
+describe("levelQuote", () => {
+  const items = [
+    {
+      productId: "membrane",
+      quantity: 10,
+      prices: [
+        { distributorId: 3, unitPrice: 400 },
+        { distributorId: 4, unitPrice: 380 },
+      ],
+    },
+    {
+      productId: "insulation",
+      quantity: 100,
+      prices: [
+        { distributorId: 3, unitPrice: 40 },
+        { distributorId: 4, unitPrice: 40 },
+      ],
+    },
+    { productId: "adhesive", quantity: 5, prices: [{ distributorId: 4, unitPrice: 120.5 }] },
+    { productId: "cover-board", quantity: 50, prices: [] },
+  ];
+
+  it("should pick the low price per product, ties going to the first distributor", () => {
+    const leveling = levelQuote(items);
+
+    expect(leveling.distributorIds).toEqual([3, 4]);
+    expect(leveling.lowest.membrane).toEqual({ distributorId: 4, unitPrice: 380 });
+    expect(leveling.lowest.insulation).toEqual({ distributorId: 3, unitPrice: 40 });
+    expect(leveling.lowest["cover-board"]).toBeNull();
+  });
+
+  it("should total each distributor's extended prices and count unpriced lines", () => {
+    const { totals } = levelQuote(items);
+
+    expect(totals[3]).toEqual({ total: 8000, priced: 2, missing: 2 });
+    expect(totals[4]).toEqual({ total: 8402.5, priced: 3, missing: 1 });
+  });
+
+  it("should total unit prices when lines have no quantity", () => {
+    const { totals } = levelQuote([
+      { productId: "a", quantity: null, prices: [{ distributorId: 3, unitPrice: 1.25 }] },
+      { productId: "b", quantity: null, prices: [{ distributorId: 3, unitPrice: 2.5 }] },
+    ]);
+
+    expect(totals[3].total).toBe(3.75);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Quote Leveling — Compare distributors' returned prices on a quote request.
+ *
+ * A quote request lists the products (and order quantities, when taken from
+ * a saved estimate's material order list) sent to several distributors.
+ * Each distributor's returned unit prices are compared per product: the low
+ * price wins, and each distributor's extended total shows how the whole
+ * order would price out with them.
+ */
+
+import { parseSavedState, savedStateToRequest } from "./estimate-diff";
+import { calculateProjectEstimate, getPricingPrefix } from "./project-estimate";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** A product requested on a quote (pricing DB productId) */
+export interface QuoteOrderLine {
+  productId: string;
+  name: string;
+  unit: string;
+  /** Order quantity; null when only unit prices were requested */
+  quantity: number | null;
+}
+
+export interface QuotedPrice {
+  distributorId: number;
+  unitPrice: number;
+}
+
+export interface LevelingItem {
+  productId: string;
+  quantity: number | null;
+  /** One entry per distributor that priced this product */
+  prices: QuotedPrice[];
+}
+
+export interface DistributorTotal {
+  /** Σ quantity × unit price over the products this distributor priced */
+  total: number;
+  /** Products this distributor priced */
+  priced: number;
+  /** Products this distributor left unpriced */
+  missing: number;
+}
+
+export interface QuoteLeveling {
+  /** Distributors that returned at least one price, in the order first seen */
+  distributorIds: number[];
+  /** Lowest returned price per productId; null when no distributor priced it */
+  lowest: Record<string, QuotedPrice | null>;
+  /** Extended totals per distributor */
+  totals: Record<number, DistributorTotal>;
+}
+
+// ── Order List ─────────────────────────────────────────────────────────────
+
+/**
+ * The material order list of a saved estimate (its `data` JSON) as quote
+ * lines keyed by pricing DB productId. Penetrations and sheet metal aren't in
+ * the price book, so only materials are requested.
+ */
+export function getEstimateOrderList(data: string): QuoteOrderLine[] {
+  const state = parseSavedState(data);
+  const estimate = calculateProjectEstimate(savedStateToRequest(state), state.customPrices);
+  const prefix = getPricingPrefix(estimate.system) ?? estimate.system;
+
+  const lines = new Map<string, QuoteOrderLine>();
+  for (const material of estimate.materials) {
+    if (material.quantity <= 0) continue;
+    const productId = `${prefix}-${material.productId}`;
+    const existing = lines.get(productId);
+    if (existing) {
+      existing.quantity = (existing.quantity ?? 0) + material.quantity;
+    } else {
+      lines.set(productId, { productId, name: material.name, unit: material.unit, quantity: material.quantity });
+    }
+  }
+  return Array.from(lines.values());
+}
+
+// ── Leveling ───────────────────────────────────────────────────────────────
+
+/**
+ * Level a quote's returned prices. Ties go to the distributor seen first.
+ * Extended totals use a quantity of 1 for lines without a quantity, so a
+ * unit-price-only quote still compares on the sum of unit prices.
+ */
+export function levelQuote(items: LevelingItem[]): QuoteLeveling {
+  const distributorIds: number[] = [];
+  for (const item of items) {
+    for (const price of item.prices) {
+      if (!distributorIds.includes(price.distributorId)) distributorIds.push(price.distributorId);
+    }
+  }
+
+  const totals: Record<number, DistributorTotal> = {};
+  for (const id of distributorIds) {
+    totals[id] = { total: 0, priced: 0, missing: 0 };
+  }
+
+  const lowest: Record<string, QuotedPrice | null> = {};
+  for (const item of items) {
+    let low: QuotedPrice | null = null;
+    for (const price of item.prices) {
+      if (!low || price.unitPrice < low.unitPrice) low = price;
+    }
+    lowest[item.productId] = low;
+
+    const quantity = item.quantity ?? 1;
+    for (const id of distributorIds) {
+      const price = item.prices.find((p) => p.distributorId === id);
+      if (price) {
+        totals[id].total += quantity * price.unitPrice;
+        totals[id].priced++;
+      } else {
+        totals[id].missing++;
+      }
+    }
+  }
+
+  for (const id of distributorIds) {
+    totals[id].total = Math.round(totals[id].total * 100) / 100;
+  }
+
+  return { distributorIds, lowest, totals };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { buildRepriceReport, priceChangeImpact } from "./reprice";
+import { serializeTPOState } from "./estimate-state-serializers";
+import { calculateProjectEstimate, getDefaultAssembly } from "./project-estimate";
+import { parseSavedState, savedStateToRequest } from "./estimate-diff";
+import { DEFAULT_TPO_EQUIPMENT_ITEMS, DEFAULT_TPO_LABOR_ITEMS } from "./tpo-labor-equipment-data";
+
+function tpoState(customPrices: Record<string, number>) {
+  return serializeTPOState("carlisle-tpo", {
+    measurements: { totalRoofArea: "", baseFlashing: "" },
+    customPrices,
+    laborEquipment: {
+      laborItems: DEFAULT_TPO_LABOR_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+      equipmentItems: DEFAULT_TPO_EQUIPMENT_ITEMS.map((i) => ({ ...i, rate: i.defaultRate, quantity: i.defaultQuantity })),
+    },
+    sections: [
+      {
+        name: "Main Roof",
+        assemblyConfig: getDefaultAssembly("carlisle-tpo"),
+        measurements: { roofArea: 10000, wallLinearFt: 400, wallHeight: 3, baseFlashingLF: 400 },
+      },
+    ],
+  });
+}
+
+// Material lines of the default estimate, at catalog prices
+const materials = calculateProjectEstimate(savedStateToRequest(parseSavedState(tpoState({}))), {}).materials.filter(
+  (m) => m.quantity > 0,
+);
+const [first, second] = materials;
+const quantityOf = (productId: string) =>
+  materials.filter((m) => m.productId === productId).reduce((sum, m) => sum + m.quantity, 0);
+
+describe("buildRepriceReport", () => {
+  it("reports products whose current price differs from the locked price", () => {
+    const data = tpoState({ [first.productId]: first.unitPrice - 5 });
+    const report = buildRepriceReport(
+      data,
+      new Map([
+        [first.productId, first.unitPrice],
+        [second.productId, second.unitPrice],
+      ]),
+    );
+
+    expect(report.lines).toHaveLength(1);
+    expect(report.lines[0]).toMatchObject({
+      productId: first.productId,
+      lockedPrice: first.unitPrice - 5,
+      currentPrice: first.unitPrice,
+      quantity: quantityOf(first.productId),
+    });
+    expect(report.lines[0].delta).toBeCloseTo(5);
+    expect(report.totalImpact).toBeCloseTo(quantityOf(first.productId) * 5);
+    expect(report.lockedTotal).toBeGreaterThan(0);
+  });
+
+  it("keeps locked prices for products without a current price", () => {
+    const report = buildRepriceReport(tpoState({ [first.productId]: 1 }), new Map());
+
+    expect(report.lines).toEqual([]);
+    expect(report.totalImpact).toBe(0);
+  });
+
+  it("orders lines by the size of their impact", () => {
+    const report = buildRepriceReport(
+      tpoState({}),
+      new Map(materials.map((m) => [m.productId, m.unitPrice * 1.1])),
+    );
+    const impacts = report.lines.map((l) => Math.abs(l.impact));
+
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+  });
+});
+
+describe("buildRepriceReport penetrations", () => {
+  it("reprices penetration materials too", () => {
+    const state = JSON.parse(tpoState({ "acc-pipe-boot": 30 }));
+    state.penetrationsState = { lineItems: { "pipe-1-3": 2 } };
+    const report = buildRepriceReport(JSON.stringify(state), new Map([["acc-pipe-boot", 35]]));
+
+    expect(report.lines).toMatchObject([{ productId: "acc-pipe-boot", quantity: 2, lockedPrice: 30, currentPrice: 35 }]);
+    expect(report.totalImpact).toBeCloseTo(10);
+  });
+});
+
+describe("priceChangeImpact", () => {
+  it("adds the material cost change to the saved total", () => {
+    const impact = priceChangeImpact(
+      { data: tpoState({}), grandTotal: "50000.00" },
+      new Map([[first.productId, first.unitPrice + 2]]),
+    );
+
+    expect(impact.oldTotal).toBe(50000);
+    expect(impact.delta).toBeCloseTo(quantityOf(first.productId) * 2);
+    expect(impact.newTotal).toBeCloseTo(50000 + impact.delta);
+    expect(impact.drivers.map((d) => d.productId)).toEqual([first.productId]);
+  });
+
+  it("falls back to the recomputed total for saves without one", () => {
+    const data = tpoState({});
+    const expected = calculateProjectEstimate(savedStateToRequest(parseSavedState(data)), {}).totals.grandTotal;
+
+    const impact = priceChangeImpact({ data, grandTotal: null }, new Map());
+
+    expect(impact).toMatchObject({ oldTotal: expected, newTotal: expected, delta: 0, drivers: [] });
+  });
+});
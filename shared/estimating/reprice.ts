@@ -0,0 +1,124 @@
+/**
+ * Reprice — Compare a saved estimate's locked prices with current pricing.
+ *
+ * A saved estimate keeps the unit prices it was bid at. Repricing recomputes
+ * its material and penetration lines and, for each product whose current price differs from
+ * the locked one, reports the per-unit delta and its impact on the estimate
+ * (order quantity × delta), so changes can be accepted line by line.
+ *
+ * The same comparison, limited to the products a bulk price update changed,
+ * gives that update's impact on each open estimate.
+ */
+
+import { parseSavedState, savedStateToRequest, snapshotTotal, type EstimateSnapshot } from "./estimate-diff";
+import { calculateProjectEstimate } from "./project-estimate";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export interface RepriceLine {
+  /** Local product ID (pricing DB productId without the system prefix) */
+  productId: string;
+  name: string;
+  unit: string;
+  /** Order quantity across all roof sections and penetrations */
+  quantity: number;
+  lockedPrice: number;
+  currentPrice: number;
+  /** currentPrice − lockedPrice */
+  delta: number;
+  /** quantity × delta */
+  impact: number;
+}
+
+export interface RepriceReport {
+  /** Products whose current price differs from the locked price */
+  lines: RepriceLine[];
+  /** Materials and penetrations total at the locked prices */
+  lockedTotal: number;
+  /** Recomputed grand total at the locked prices */
+  lockedGrandTotal: number;
+  /** Σ impact — what repricing every line would add to the estimate */
+  totalImpact: number;
+}
+
+// ── Report ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reprice a saved estimate (its `data` JSON) against current prices keyed by
+ * local product ID. Products without a current price keep their locked price
+ * and aren't reported.
+ */
+export function buildRepriceReport(data: string, currentPrices: Map<string, number>): RepriceReport {
+  const state = parseSavedState(data);
+  const estimate = calculateProjectEstimate(savedStateToRequest(state), state.customPrices);
+
+  const lines = [
+    ...estimate.materials,
+    ...estimate.penetrations.map((p) => ({
+      productId: p.productId,
+      name: p.materialName,
+      unit: p.unit,
+      quantity: p.quantity,
+      unitPrice: p.unitPrice,
+    })),
+  ];
+  const byProduct = new Map<string, RepriceLine>();
+  for (const material of lines) {
+    if (material.quantity <= 0) continue;
+    const existing = byProduct.get(material.productId);
+    if (existing) {
+      existing.quantity += material.quantity;
+      continue;
+    }
+    const currentPrice = currentPrices.get(material.productId);
+    if (currentPrice === undefined) continue;
+    byProduct.set(material.productId, {
+      productId: material.productId,
+      name: material.name,
+      unit: material.unit,
+      quantity: material.quantity,
+      lockedPrice: material.unitPrice,
+      currentPrice,
+      delta: currentPrice - material.unitPrice,
+      impact: 0,
+    });
+  }
+
+  const changed = Array.from(byProduct.values()).filter((line) => Math.abs(line.delta) >= 0.005);
+  for (const line of changed) {
+    line.impact = line.quantity * line.delta;
+  }
+  return {
+    lines: changed.sort((a, b) => Math.abs(b.impact) - Math.abs(a.impact)),
+    lockedTotal: estimate.totals.materials + estimate.totals.penetrations,
+    lockedGrandTotal: estimate.totals.grandTotal,
+    totalImpact: changed.reduce((sum, line) => sum + line.impact, 0),
+  };
+}
+
+// ── Price Change Impact ────────────────────────────────────────────────────
+
+export interface PriceChangeImpact {
+  /** Saved grand total (including breakdown edits such as tax and profit) */
+  oldTotal: number;
+  /** oldTotal + the material cost change; breakdown markups aren't re-applied */
+  newTotal: number;
+  delta: number;
+  /** Products driving the change, largest impact first */
+  drivers: RepriceLine[];
+}
+
+/**
+ * What new prices (keyed by local product ID, only the products that
+ * changed) do to a saved estimate's total.
+ */
+export function priceChangeImpact(snapshot: EstimateSnapshot, newPrices: Map<string, number>): PriceChangeImpact {
+  const report = buildRepriceReport(snapshot.data, newPrices);
+  const oldTotal = snapshotTotal(snapshot, report.lockedGrandTotal);
+  return {
+    oldTotal,
+    newTotal: oldTotal + report.totalImpact,
+    delta: report.totalImpact,
+    drivers: report.lines,
+  };
+}
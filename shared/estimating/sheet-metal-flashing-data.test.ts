@@ -7,8 +7,19 @@ import {
   getDefaultSheetMetalState,
   getMetalType,
   getGaugesForMetal,
+  getSheetMetalProfiles,
+  getStockPricePerSqFt,
+  migrateSheetMetalState,
+  newSheetMetalLine,
   type SheetMetalFlashingState,
 } from "./sheet-metal-flashing-data";
+import { newCustomProfile, priceFabricatedFlashing } from "./flashing-profile-builder";
+import { nestStrips } from "./sheet-metal-nesting";
+
+/** 24ga galvanized flashing lines at their profiles' default developed widths */
+function galvanized(lineItems: Record<string, number>): SheetMetalFlashingState {
+  return migrateSheetMetalState({ metalTypeId: "galvanized-steel", gaugeId: "24ga", lineItems });
+}
 
 describe("Sheet Metal Flashing Data", () => {
   describe("METAL_TYPES", () => {
@@ -153,31 +164,22 @@ describe("Sheet Metal Flashing Data", () => {
     });
 
     it("calculates cost for a single flashing item", () => {
-      const state: SheetMetalFlashingState = {
-        metalTypeId: "galvanized-steel",
-        gaugeId: "24ga",
-        lineItems: { "drip-edge": 100 },
-      };
+      const state = galvanized({ "drip-edge": 100 });
       const estimate = calculateSheetMetalEstimate(state);
       expect(estimate.lineItems).toHaveLength(1);
       expect(estimate.lineItems[0].name).toBe("Drip Edge");
       expect(estimate.lineItems[0].quantity).toBe(100);
       expect(estimate.totalMaterialCost).toBeGreaterThan(0);
       expect(estimate.totalLaborMinutes).toBeGreaterThan(0);
-      expect(estimate.metalType).toBe("Galvanized Steel");
-      expect(estimate.gauge).toBe("24 Gauge");
+      expect(estimate.lineItems[0].metal).toBe("Galvanized Steel 24 Gauge");
     });
 
     it("calculates cost for multiple flashing items", () => {
-      const state: SheetMetalFlashingState = {
-        metalTypeId: "galvanized-steel",
-        gaugeId: "24ga",
-        lineItems: {
+      const state = galvanized({
           "drip-edge": 200,
           "coping-cap": 50,
           "counter-flashing": 100,
-        },
-      };
+        });
       const estimate = calculateSheetMetalEstimate(state);
       expect(estimate.lineItems).toHaveLength(3);
       expect(estimate.totalMaterialCost).toBeGreaterThan(0);
@@ -188,26 +190,18 @@ describe("Sheet Metal Flashing Data", () => {
     });
 
     it("ignores zero-quantity items", () => {
-      const state: SheetMetalFlashingState = {
-        metalTypeId: "galvanized-steel",
-        gaugeId: "24ga",
-        lineItems: { "drip-edge": 0, "coping-cap": 50 },
-      };
+      const state = galvanized({ "drip-edge": 0, "coping-cap": 50 });
       const estimate = calculateSheetMetalEstimate(state);
       expect(estimate.lineItems).toHaveLength(1);
       expect(estimate.lineItems[0].name).toBe("Coping Cap");
     });
 
     it("sorts line items by total cost descending", () => {
-      const state: SheetMetalFlashingState = {
-        metalTypeId: "galvanized-steel",
-        gaugeId: "24ga",
-        lineItems: {
+      const state = galvanized({
           "drip-edge": 10,
           "coping-cap": 100,
           "counter-flashing": 50,
-        },
-      };
+        });
       const estimate = calculateSheetMetalEstimate(state);
       for (let i = 1; i < estimate.lineItems.length; i++) {
         expect(estimate.lineItems[i].totalCost).toBeLessThanOrEqual(
@@ -217,6 +211,158 @@ describe("Sheet Metal Flashing Data", () => {
     });
   });
 
+  describe("per-line metal", () => {
+    const state: SheetMetalFlashingState = {
+      ...getDefaultSheetMetalState(),
+      lineItems: {
+        "coping-cap": {
+          linearFeet: 200,
+          metalTypeId: "prefinished-steel",
+          gaugeId: "24ga-pf",
+          color: "Dark Bronze",
+          developedWidth: 18,
+        },
+        "counter-flashing": { linearFeet: 300, metalTypeId: "galvanized-steel", gaugeId: "26ga", color: "", developedWidth: 6 },
+        "parapet-cap": {
+          linearFeet: 40,
+          metalTypeId: "prefinished-steel",
+          gaugeId: "24ga-pf",
+          color: "Dark Bronze",
+          developedWidth: 24,
+        },
+        "edge-metal": { linearFeet: 60, metalTypeId: "copper", gaugeId: "16oz", color: "", developedWidth: 8 },
+      },
+    };
+
+    it("prices each line from its own metal, gauge and developed width", () => {
+      const estimate = calculateSheetMetalEstimate(state);
+      const coping = estimate.lineItems.find((i) => i.flashingId === "coping-cap")!;
+      const copingProfile = FLASHING_PROFILES.find((p) => p.id === "coping-cap")!;
+
+      // The stock purchase costs at least the theoretical LF rate — the difference is drop
+      expect(coping.unitPrice).toBeGreaterThanOrEqual(getFlashingPricePerLF("prefinished-steel", "24ga-pf", copingProfile, 18));
+      expect(coping.unitPrice).toBeGreaterThan(getFlashingPricePerLF("prefinished-steel", "24ga-pf", copingProfile));
+      expect(coping.metal).toBe("Prefinished Steel 24 Gauge, Dark Bronze");
+      expect(estimate.lineItems.find((i) => i.flashingId === "edge-metal")!.metal).toBe("Copper 16 oz");
+    });
+
+    it("summarizes the metal to order by metal, gauge and color", () => {
+      const estimate = calculateSheetMetalEstimate(state);
+      const prefinished = estimate.materials.find((m) => m.metalTypeId === "prefinished-steel")!;
+
+      expect(estimate.materials).toHaveLength(3);
+      expect(prefinished).toMatchObject({ color: "Dark Bronze", linearFeet: 240, squareFeet: 200 * 1.5 + 40 * 2 });
+      const summed = estimate.materials.reduce((sum, m) => sum + m.totalCost, 0);
+      expect(summed).toBeCloseTo(estimate.totalMaterialCost, 2);
+    });
+  });
+
+  describe("custom profiles", () => {
+    const profile = { ...newCustomProfile("custom-1", "Scupper Liner"), stockId: "coil-24" };
+    const state: SheetMetalFlashingState = {
+      ...getDefaultSheetMetalState(),
+      customProfiles: [profile],
+      lineItems: {
+        "custom-1": { linearFeet: 45, metalTypeId: "copper", gaugeId: "16oz", color: "", developedWidth: 99 },
+      },
+    };
+
+    it("lists custom profiles after the standard ones", () => {
+      const profiles = getSheetMetalProfiles(state);
+      expect(profiles).toHaveLength(FLASHING_PROFILES.length + 1);
+      expect(profiles[profiles.length - 1]).toMatchObject({ id: "custom-1", name: "Scupper Liner", defaultDevelopedWidth: 8.5 });
+      expect(newSheetMetalLine(state, "custom-1", 10).developedWidth).toBe(8.5);
+    });
+
+    it("prices stock per square foot as the base price per LF over an 8\" width", () => {
+      expect(getStockPricePerSqFt("galvanized-steel", "24ga")).toBe(5.25);
+      expect(getStockPricePerSqFt("galvanized-steel", "bogus")).toBe(0);
+    });
+
+    it("prices custom lines from their own stock plus brake and hemming", () => {
+      const estimate = calculateSheetMetalEstimate(state);
+      const [line] = estimate.lineItems;
+      const [material] = estimate.materials;
+      const quote = priceFabricatedFlashing(profile, 45, getStockPricePerSqFt("copper", "16oz"));
+
+      expect(line).toMatchObject({ name: "Scupper Liner", metal: "Copper 16 oz", developedWidth: 8.5, bendCount: 1 });
+      expect(material.nest).toEqual(nestStrips([{ developedWidth: 8.5, linearFeet: 45 }], "coil-24", 10));
+      expect(line.totalCost).toBeCloseTo(material.stockCost + quote.brakeCost + quote.hemCost, 2);
+      expect(material.squareFeet).toBeCloseTo((45 * 8.5) / 12, 2);
+    });
+
+    it("uses the state's fabrication rates", () => {
+      const free = calculateSheetMetalEstimate({
+        ...state,
+        fabricationRates: { brakeChargePerBend: 0, hemChargePerHem: 0, pieceLengthFt: 10 },
+      });
+      expect(free.totalMaterialCost).toBeLessThan(calculateSheetMetalEstimate(state).totalMaterialCost);
+    });
+
+    it("ignores lines whose custom profile was removed", () => {
+      expect(calculateSheetMetalEstimate({ ...state, customProfiles: [] }).lineItems).toHaveLength(0);
+    });
+  });
+
+  describe("stock nesting", () => {
+    it("prices the sheets the lines nest on", () => {
+      // 100 LF of 6" gravel stop: 10 pieces, 8 across a 48" sheet → 2 sheets
+      const state = galvanized({ "gravel-stop": 100 });
+      const estimate = calculateSheetMetalEstimate(state);
+      const [material] = estimate.materials;
+
+      expect(material.nest).toMatchObject({ stockId: "sheet-4x10", pieces: 10, sheets: 2, stockSqFt: 80 });
+      expect(material.stockCost).toBe(80 * getStockPricePerSqFt("galvanized-steel", "24ga"));
+      expect(estimate.totalMaterialCost).toBe(material.stockCost);
+      expect(material.nest.dropSqFt).toBe(80 - 50);
+    });
+
+    it("splits the stock purchase across a metal's lines by strip area", () => {
+      const estimate = calculateSheetMetalEstimate(galvanized({ "coping-cap": 100, "drip-edge": 100 }));
+      const coping = estimate.lineItems.find((i) => i.flashingId === "coping-cap")!;
+      const drip = estimate.lineItems.find((i) => i.flashingId === "drip-edge")!;
+
+      expect(estimate.materials).toHaveLength(1);
+      expect(coping.totalCost).toBeCloseTo(drip.totalCost * 3, 0);
+      expect(coping.totalCost + drip.totalCost).toBeCloseTo(estimate.materials[0].stockCost, 2);
+    });
+
+    it("nests on the job's stock and suggests the stock that buys the least", () => {
+      const state = { ...galvanized({ "coping-cap": 100 }), stockId: "coil-48" };
+      const [material] = calculateSheetMetalEstimate(state).materials;
+
+      // 12" coping: four strips across either 48" stock, but coil is bought by the foot
+      expect(material.nest).toMatchObject({ stockId: "coil-48", rows: 3, coilFeet: 30 });
+      expect(material.bestStockCost).toBeLessThanOrEqual(material.stockCost);
+      expect(calculateSheetMetalEstimate(galvanized({ "coping-cap": 100 })).materials[0].nest.sheets).toBe(3);
+    });
+  });
+
+  describe("migrateSheetMetalState", () => {
+    it("gives lines saved as linear feet the job-wide metal and default developed width", () => {
+      const migrated = migrateSheetMetalState({
+        metalTypeId: "prefinished-steel",
+        gaugeId: "22ga-pf",
+        lineItems: { "coping-cap": 120 },
+      });
+
+      expect(migrated.metalTypeId).toBe("prefinished-steel");
+      expect(migrated.lineItems["coping-cap"]).toEqual({
+        linearFeet: 120,
+        metalTypeId: "prefinished-steel",
+        gaugeId: "22ga-pf",
+        color: "",
+        developedWidth: 12,
+      });
+    });
+
+    it("keeps states already in the per-line shape", () => {
+      const defaults = getDefaultSheetMetalState();
+      const state = { ...defaults, lineItems: { "drip-edge": newSheetMetalLine(defaults, "drip-edge", 80) } };
+      expect(migrateSheetMetalState(state)).toBe(state);
+    });
+  });
+
   describe("getDefaultSheetMetalState", () => {
     it("returns galvanized steel 24ga with empty line items", () => {
       const state = getDefaultSheetMetalState();
@@ -3,7 +3,9 @@
  * within Penetrations & Additions.
  *
  * Supports multiple metal types with appropriate gauge/thickness options,
- * and common flashing profiles measured in linear feet.
+ * and common flashing profiles measured in linear feet. Each flashing line
+ * has its own metal, gauge, finish color and developed width (e.g. 24ga
+ * prefinished coping, 26ga galvanized counterflashing, copper scuppers).
  *
  * Metal Types:
  *   - Galvanized Steel (28ga – 16ga)
@@ -25,8 +27,24 @@
  *   - Valley Flashing
  *   - Step Flashing
  *   - Custom Flashing
+ *
+ * Custom profiles drawn in the profile builder (see flashing-profile-builder)
+ * are priced the way the shop fabricates them: stock, brake bends and hems.
+ *
+ * Material is priced from the sheets or coil the flashing is nested on (see
+ * sheet-metal-nesting), not a per-LF rate, so drop waste is in the price.
  */
 
+import {
+  DEFAULT_FABRICATION_RATES,
+  STOCK_OPTIONS,
+  getDevelopedWidth,
+  priceFabricatedFlashing,
+  type CustomFlashingProfile,
+  type FabricationRates,
+} from "./flashing-profile-builder";
+import { bestStockFor, nestStrips, type StockNest } from "./sheet-metal-nesting";
+
 // ── Types ──────────────────────────────────────────────────
 
 export interface MetalGauge {
@@ -42,6 +60,7 @@ export interface MetalType {
   gauges: MetalGauge[];
   defaultGaugeId: string;
   basePricePerLF: number; // base price per linear foot at default gauge
+  finishColors?: string[]; // prefinished colors; absent = mill finish
 }
 
 export interface FlashingProfile {
@@ -54,28 +73,63 @@ export interface FlashingProfile {
   laborMinutesPerLF: number; // labor time per linear foot
 }
 
+/** One flashing line: how many LF of a profile, and what it's bent from */
+export interface SheetMetalLine {
+  linearFeet: number;
+  metalTypeId: string;
+  gaugeId: string;
+  color: string; // finish color; "" for mill finish
+  developedWidth: number; // inches of flat stock per LF (girth)
+}
+
 export interface FlashingLineItem {
   flashingId: string;
   name: string;
   quantity: number; // linear feet
   metalTypeId: string;
   gaugeId: string;
-  unitPrice: number; // price per LF (computed from metal + gauge + profile)
+  color: string;
+  developedWidth: number;
+  metal: string; // e.g. "Prefinished Steel 24 Gauge, Dark Bronze"
+  bendCount?: number; // custom profiles: brake bends per piece
+  unitPrice: number; // price per LF: the line's share of the stock purchase, plus fabrication
   totalCost: number;
 }
 
 export interface SheetMetalFlashingState {
+  /** Metal and gauge new flashing lines start with */
   metalTypeId: string;
   gaugeId: string;
-  lineItems: Record<string, number>; // flashingId -> linear feet
+  lineItems: Record<string, SheetMetalLine>; // flashingId -> line
+  /** Shop-fabricated profiles from the profile builder, keyed in lineItems by their id */
+  customProfiles?: CustomFlashingProfile[];
+  /** Shop brake and hemming charges for custom profiles */
+  fabricationRates?: FabricationRates;
+  /** Stock standard profiles are cut from (custom profiles pick their own) */
+  stockId?: string;
+}
+
+/** Flashing lines bent from the same metal, gauge and color, nested on one stock */
+export interface SheetMetalMaterialSummary {
+  metalTypeId: string;
+  gaugeId: string;
+  color: string;
+  metal: string;
+  linearFeet: number;
+  squareFeet: number; // flat stock installed: Σ LF × developed width
+  nest: StockNest; // sheets or coil footage to buy, and the drop
+  stockCost: number;
+  /** Stock that would buy the least metal for these lines */
+  bestStockId: string;
+  bestStockCost: number;
+  totalCost: number; // stock + fabrication charges
 }
 
 export interface SheetMetalFlashingEstimate {
   lineItems: FlashingLineItem[];
+  materials: SheetMetalMaterialSummary[];
   totalMaterialCost: number;
   totalLaborMinutes: number;
-  metalType: string;
-  gauge: string;
 }
 
 // ── Metal Types & Gauges ──────────────────────────────────
@@ -101,6 +155,17 @@ export const METAL_TYPES: MetalType[] = [
     name: "Prefinished Steel",
     basePricePerLF: 4.25,
     defaultGaugeId: "24ga-pf",
+    finishColors: [
+      "Bone White",
+      "Sandstone",
+      "Ash Gray",
+      "Charcoal Gray",
+      "Medium Bronze",
+      "Dark Bronze",
+      "Hartford Green",
+      "Colonial Red",
+      "Matte Black",
+    ],
     gauges: [
       { id: "28ga-pf", label: "28 Gauge", value: "28", priceMultiplier: 0.70 },
       { id: "26ga-pf", label: "26 Gauge", value: "26", priceMultiplier: 0.80 },
@@ -116,6 +181,7 @@ export const METAL_TYPES: MetalType[] = [
     name: "Aluminum",
     basePricePerLF: 4.25,
     defaultGaugeId: "040",
+    finishColors: ["Mill Finish", "White", "Dark Bronze", "Black"],
     gauges: [
       { id: "032", label: '.032"', value: ".032", priceMultiplier: 0.85 },
       { id: "040", label: '.040"', value: ".040", priceMultiplier: 1.00 },
@@ -267,12 +333,14 @@ export const FLASHING_PROFILES: FlashingProfile[] = [
 
 /**
  * Get the price per linear foot for a given metal type, gauge, and flashing profile.
- * Price scales with the developed width of the profile relative to a standard 8" width.
+ * Price scales with the developed width (the profile's default unless given)
+ * relative to a standard 8" width.
  */
 export function getFlashingPricePerLF(
   metalTypeId: string,
   gaugeId: string,
   flashingProfile: FlashingProfile,
+  developedWidth: number = flashingProfile.defaultDevelopedWidth,
 ): number {
   const metal = METAL_TYPES.find((m) => m.id === metalTypeId);
   if (!metal) return 0;
@@ -282,45 +350,137 @@ export function getFlashingPricePerLF(
 
   // Scale price by developed width (wider profiles use more material)
   // Base price assumes ~8" developed width
-  const widthFactor = flashingProfile.defaultDevelopedWidth / 8;
+  const widthFactor = developedWidth / 8;
 
   return Math.round(metal.basePricePerLF * gauge.priceMultiplier * widthFactor * 100) / 100;
 }
 
+/**
+ * Price per square foot of flat stock for a metal and gauge — the base
+ * price per LF covers an 8" developed width.
+ */
+export function getStockPricePerSqFt(metalTypeId: string, gaugeId: string): number {
+  const metal = METAL_TYPES.find((m) => m.id === metalTypeId);
+  const gauge = metal?.gauges.find((g) => g.id === gaugeId);
+  if (!metal || !gauge) return 0;
+  return Math.round(metal.basePricePerLF * gauge.priceMultiplier * (12 / 8) * 100) / 100;
+}
+
+/**
+ * The standard profiles plus the state's custom profiles, which carry the
+ * Custom Flashing labor rate and their computed developed width.
+ */
+export function getSheetMetalProfiles(state: Pick<SheetMetalFlashingState, "customProfiles">): FlashingProfile[] {
+  const custom = FLASHING_PROFILES.find((p) => p.id === "custom-flashing")!;
+  return [
+    ...FLASHING_PROFILES,
+    ...(state.customProfiles ?? []).map((profile) => ({
+      ...custom,
+      id: profile.id,
+      name: profile.name,
+      description: `Shop-fabricated profile — ${profile.legs.length} legs`,
+      defaultDevelopedWidth: getDevelopedWidth(profile),
+    })),
+  ];
+}
+
+/**
+ * Describe a metal, e.g. "Prefinished Steel 24 Gauge, Dark Bronze".
+ */
+export function describeMetal(metalTypeId: string, gaugeId: string, color: string = ""): string {
+  const metal = getMetalType(metalTypeId);
+  const gauge = metal?.gauges.find((g) => g.id === gaugeId);
+  const name = [metal?.name, gauge?.label].filter(Boolean).join(" ");
+  return color ? `${name}, ${color}` : name;
+}
+
 /**
  * Calculate the full sheet metal flashing estimate from current state.
+ *
+ * Lines are grouped by metal, gauge, color and stock, and each group's strips
+ * are nested across the stock (see sheet-metal-nesting). The group's stock
+ * purchase is split across its lines by the strip area they take; custom
+ * profiles add their brake and hemming charges.
  */
 export function calculateSheetMetalEstimate(
   state: SheetMetalFlashingState,
 ): SheetMetalFlashingEstimate {
-  const metal = METAL_TYPES.find((m) => m.id === state.metalTypeId);
-  const gauge = metal?.gauges.find((g) => g.id === state.gaugeId);
-
-  const lineItems: FlashingLineItem[] = [];
-  let totalMaterialCost = 0;
+  const profiles = getSheetMetalProfiles(state);
+  const rates = state.fabricationRates ?? DEFAULT_FABRICATION_RATES;
+  const groups = new Map<string, { stockId: string; lines: (FlashingLineItem & { fabricationCost: number })[] }>();
   let totalLaborMinutes = 0;
 
-  for (const [flashingId, quantity] of Object.entries(state.lineItems)) {
-    if (quantity <= 0) continue;
+  for (const [flashingId, line] of Object.entries(state.lineItems)) {
+    if (line.linearFeet <= 0) continue;
 
-    const profile = FLASHING_PROFILES.find((p) => p.id === flashingId);
+    const profile = profiles.find((p) => p.id === flashingId);
     if (!profile) continue;
 
-    const unitPrice = getFlashingPricePerLF(state.metalTypeId, state.gaugeId, profile);
-    const totalCost = Math.round(unitPrice * quantity * 100) / 100;
+    // Custom profiles are cut from their own stock; their developed width comes from the legs
+    const custom = state.customProfiles?.find((p) => p.id === flashingId);
+    const quote = custom ? priceFabricatedFlashing(custom, line.linearFeet, 0, rates) : null;
+    const stockId = custom?.stockId ?? state.stockId ?? DEFAULT_STOCK_ID;
 
-    lineItems.push({
+    const key = `${line.metalTypeId}|${line.gaugeId}|${line.color}|${stockId}`;
+    const group = groups.get(key) ?? { stockId, lines: [] };
+    group.lines.push({
       flashingId,
       name: profile.name,
-      quantity,
-      metalTypeId: state.metalTypeId,
-      gaugeId: state.gaugeId,
-      unitPrice,
-      totalCost,
+      quantity: line.linearFeet,
+      metalTypeId: line.metalTypeId,
+      gaugeId: line.gaugeId,
+      color: line.color,
+      developedWidth: quote?.developedWidth ?? line.developedWidth,
+      metal: describeMetal(line.metalTypeId, line.gaugeId, line.color),
+      ...(quote && { bendCount: quote.bendCount }),
+      unitPrice: 0,
+      totalCost: 0,
+      fabricationCost: quote ? quote.brakeCost + quote.hemCost : 0,
     });
+    groups.set(key, group);
 
-    totalMaterialCost += totalCost;
-    totalLaborMinutes += Math.round(profile.laborMinutesPerLF * quantity);
+    totalLaborMinutes += Math.round(profile.laborMinutesPerLF * line.linearFeet);
+  }
+
+  const lineItems: FlashingLineItem[] = [];
+  const materials: SheetMetalMaterialSummary[] = [];
+  for (const { stockId, lines } of Array.from(groups.values())) {
+    const [first] = lines;
+    const strips = lines.map((l) => ({ developedWidth: l.developedWidth, linearFeet: l.quantity }));
+    const pricePerSqFt = getStockPricePerSqFt(first.metalTypeId, first.gaugeId);
+    const nest = nestStrips(strips, stockId, rates.pieceLengthFt);
+    const best = bestStockFor(strips, rates.pieceLengthFt);
+    const stockCost = Math.round(nest.stockSqFt * pricePerSqFt * 100) / 100;
+
+    // Split the stock purchase by strip area (whole pieces × developed width); the last line takes the rounding
+    const stripArea = (l: FlashingLineItem) => Math.ceil(l.quantity / nest.pieceLengthFt) * l.developedWidth;
+    const totalStripArea = lines.reduce((sum, l) => sum + stripArea(l), 0);
+    let allocated = 0;
+    lines.forEach(({ fabricationCost, ...item }, idx) => {
+      const share =
+        idx === lines.length - 1
+          ? Math.round((stockCost - allocated) * 100) / 100
+          : Math.round(((stockCost * stripArea(item)) / totalStripArea) * 100) / 100;
+      allocated += share;
+      item.totalCost = Math.round((share + fabricationCost) * 100) / 100;
+      item.unitPrice = Math.round((item.totalCost / item.quantity) * 100) / 100;
+      lineItems.push(item);
+    });
+
+    const totalCost = lines.reduce((sum, l) => sum + l.fabricationCost, 0) + stockCost;
+    materials.push({
+      metalTypeId: first.metalTypeId,
+      gaugeId: first.gaugeId,
+      color: first.color,
+      metal: first.metal,
+      linearFeet: lines.reduce((sum, l) => sum + l.quantity, 0),
+      squareFeet: nest.installedSqFt,
+      nest,
+      stockCost,
+      bestStockId: best.stockId,
+      bestStockCost: Math.round(best.stockSqFt * pricePerSqFt * 100) / 100,
+      totalCost: Math.round(totalCost * 100) / 100,
+    });
   }
 
   // Sort by total cost descending
@@ -328,13 +488,15 @@ export function calculateSheetMetalEstimate(
 
   return {
     lineItems,
-    totalMaterialCost: Math.round(totalMaterialCost * 100) / 100,
+    materials: materials.sort((a, b) => b.totalCost - a.totalCost),
+    totalMaterialCost: Math.round(materials.reduce((sum, m) => sum + m.totalCost, 0) * 100) / 100,
     totalLaborMinutes,
-    metalType: metal?.name ?? "",
-    gauge: gauge?.label ?? "",
   };
 }
 
+/** Stock standard flashing is cut from unless the job picks another */
+export const DEFAULT_STOCK_ID = STOCK_OPTIONS[0].id;
+
 /**
  * Get the default state for sheet metal flashing.
  */
@@ -346,6 +508,49 @@ export function getDefaultSheetMetalState(): SheetMetalFlashingState {
   };
 }
 
+/**
+ * A new flashing line for a profile, bent from the state's default metal.
+ */
+export function newSheetMetalLine(
+  state: Pick<SheetMetalFlashingState, "metalTypeId" | "gaugeId" | "customProfiles">,
+  flashingId: string,
+  linearFeet: number,
+): SheetMetalLine {
+  const profile = getSheetMetalProfiles(state).find((p) => p.id === flashingId);
+  return {
+    linearFeet,
+    metalTypeId: state.metalTypeId,
+    gaugeId: state.gaugeId,
+    color: getMetalType(state.metalTypeId)?.finishColors?.[0] ?? "",
+    developedWidth: profile?.defaultDevelopedWidth ?? 8,
+  };
+}
+
+/**
+ * Sheet metal state as saved before flashing lines had their own metal: one
+ * job-wide metal and gauge, and linear feet per profile.
+ */
+export interface LegacySheetMetalFlashingState extends Omit<SheetMetalFlashingState, "lineItems"> {
+  lineItems: Record<string, number | SheetMetalLine>;
+}
+
+/**
+ * Migrate a saved sheet metal state to per-line metal. Lines saved as plain
+ * linear feet take the job-wide metal and gauge and the profile's default
+ * developed width; lines already in the current shape are kept.
+ */
+export function migrateSheetMetalState(state: LegacySheetMetalFlashingState): SheetMetalFlashingState {
+  const entries = Object.entries(state.lineItems);
+  if (!entries.some(([, line]) => typeof line === "number")) return state as SheetMetalFlashingState;
+
+  const lineItems: Record<string, SheetMetalLine> = {};
+  for (const [flashingId, line] of entries) {
+    lineItems[flashingId] =
+      typeof line === "number" ? { ...newSheetMetalLine(state, flashingId, line), color: "" } : line;
+  }
+  return { ...state, lineItems };
+}
+
 /**
  * Get a metal type by ID.
  */
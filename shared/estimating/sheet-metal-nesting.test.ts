@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { bestStockFor, nestStrips } from "./sheet-metal-nesting";
+
+describe("Sheet Metal Nesting", () => {
+  describe("nestStrips", () => {
+    it("fits as many strips across the stock as its width allows", () => {
+      // 40 pieces of 12" — four across a 48" sheet
+      const nest = nestStrips([{ developedWidth: 12, linearFeet: 400 }], "sheet-4x10", 10);
+      expect(nest).toMatchObject({ pieces: 40, rows: 10, sheets: 10, stockSqFt: 400, dropSqFt: 0, dropPct: 0 });
+    });
+
+    it("nests narrow strips into the drop beside wide ones", () => {
+      // 20" strips leave 8" beside two of them; 4" drip edge fills it
+      const nest = nestStrips(
+        [
+          { developedWidth: 20, linearFeet: 40 },
+          { developedWidth: 4, linearFeet: 40 },
+        ],
+        "sheet-4x10",
+        10,
+      );
+      expect(nest.rows).toBe(2);
+      expect(nest.sheets).toBe(2);
+    });
+
+    it("buys coil by the foot", () => {
+      const nest = nestStrips([{ developedWidth: 8, linearFeet: 95 }], "coil-24", 10);
+      // 10 pieces, three across 24" coil → 4 rows of 10 ft
+      expect(nest).toMatchObject({ kind: "coil", rows: 4, coilFeet: 40, sheets: 0, stockSqFt: 80 });
+    });
+
+    it("counts the overrun of each line's last piece as drop", () => {
+      const nest = nestStrips([{ developedWidth: 12, linearFeet: 35 }], "coil-48", 10);
+      expect(nest.stockSqFt).toBe(40);
+      expect(nest.installedSqFt).toBe(35);
+      expect(nest.dropSqFt).toBe(5);
+      expect(nest.dropPct).toBe(12.5);
+    });
+
+    it("cuts pieces wider than the stock from blanks of their own width", () => {
+      const nest = nestStrips([{ developedWidth: 30, linearFeet: 20 }], "coil-24", 10);
+      expect(nest.oversizePieces).toBe(2);
+      expect(nest.rows).toBe(0);
+      expect(nest.stockSqFt).toBe(50);
+    });
+
+    it("fits several shorter pieces along a sheet", () => {
+      const nest = nestStrips([{ developedWidth: 24, linearFeet: 40 }], "sheet-4x10", 5);
+      // 8 pieces of 5 ft, two across and two along each sheet
+      expect(nest).toMatchObject({ pieces: 8, rows: 4, sheets: 2 });
+    });
+
+    it("returns an empty nest for no flashing", () => {
+      expect(nestStrips([], "sheet-4x10", 10)).toMatchObject({ pieces: 0, sheets: 0, stockSqFt: 0, dropPct: 0 });
+    });
+  });
+
+  describe("bestStockFor", () => {
+    it("picks the stock that buys the least metal", () => {
+      // A single 16" piece wastes less of a 24" coil row than of 48" stock
+      expect(bestStockFor([{ developedWidth: 16, linearFeet: 10 }], 10).stockId).toBe("coil-24");
+      expect(bestStockFor([{ developedWidth: 12, linearFeet: 400 }], 10).stockSqFt).toBe(400);
+    });
+  });
+});
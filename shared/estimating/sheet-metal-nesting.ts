@@ -0,0 +1,122 @@
+/**
+ * Sheet Metal Nesting — How much sheet or coil stock the flashing takes.
+ *
+ * Flashing is bent from strips as wide as its developed width, cut in pieces
+ * (10 ft by default). Strips of the same metal are nested across the stock
+ * width, first-fit decreasing: widest strips first, each into the first row
+ * with room left. A row is one piece length of stock:
+ *   - 4' × 10' sheets hold ⌊10 ft ÷ piece length⌋ rows each
+ *   - Coil is bought by the foot: rows × piece length
+ *
+ * Whatever isn't installed flashing — the drop across each row, the unused
+ * end of a sheet and the overrun of each line's last piece — is drop waste.
+ */
+
+import { STOCK_OPTIONS, getStockOption, type StockOption } from "./flashing-profile-builder";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/** Flashing to nest: pieces of one developed width */
+export interface NestStrip {
+  developedWidth: number; // inches
+  linearFeet: number;
+}
+
+export interface StockNest {
+  stockId: string;
+  stockLabel: string;
+  kind: StockOption["kind"];
+  pieceLengthFt: number;
+  pieces: number;
+  rows: number;
+  sheets: number; // sheet stock: sheets to buy
+  coilFeet: number; // coil stock: feet of coil to buy
+  oversizePieces: number; // wider than the stock; cut from a blank of their own width
+  stockSqFt: number; // purchased
+  installedSqFt: number; // Σ LF × developed width
+  dropSqFt: number;
+  dropPct: number;
+}
+
+// ── Nesting ────────────────────────────────────────────────────────────────
+
+/**
+ * Nest strips across a stock's width, first-fit decreasing. Identical widths
+ * are packed as counts, so long runs don't cost a pass per piece.
+ */
+export function nestStrips(strips: NestStrip[], stockId: string, pieceLengthFt: number): StockNest {
+  const stock = getStockOption(stockId);
+  // A piece can't be longer than the sheet it's cut from
+  const pieceLength = stock.lengthFt ? Math.min(pieceLengthFt, stock.lengthFt) : pieceLengthFt;
+
+  const counts = new Map<number, number>();
+  let installedSqFt = 0;
+  for (const strip of strips) {
+    if (strip.linearFeet <= 0 || strip.developedWidth <= 0) continue;
+    const pieces = Math.ceil(strip.linearFeet / pieceLength);
+    counts.set(strip.developedWidth, (counts.get(strip.developedWidth) ?? 0) + pieces);
+    installedSqFt += (strip.linearFeet * strip.developedWidth) / 12;
+  }
+
+  const rowsLeft: number[] = []; // inches of width left in each row
+  let oversizePieces = 0;
+  let oversizeSqFt = 0;
+  let pieces = 0;
+  for (const [width, count] of Array.from(counts.entries()).sort(([a], [b]) => b - a)) {
+    pieces += count;
+    if (width > stock.widthInches) {
+      oversizePieces += count;
+      oversizeSqFt += (count * width * pieceLength) / 12;
+      continue;
+    }
+    let remaining = count;
+    for (let i = 0; i < rowsLeft.length && remaining > 0; i++) {
+      const fit = Math.min(remaining, Math.floor(rowsLeft[i] / width + 1e-9));
+      rowsLeft[i] -= fit * width;
+      remaining -= fit;
+    }
+    const perRow = Math.floor(stock.widthInches / width + 1e-9);
+    while (remaining > 0) {
+      const fit = Math.min(remaining, perRow);
+      rowsLeft.push(stock.widthInches - fit * width);
+      remaining -= fit;
+    }
+  }
+
+  const rows = rowsLeft.length;
+  const rowsPerSheet = stock.lengthFt ? Math.max(1, Math.floor(stock.lengthFt / pieceLength)) : 0;
+  const sheets = stock.kind === "sheet" ? Math.ceil(rows / rowsPerSheet) : 0;
+  const coilFeet = stock.kind === "coil" ? rows * pieceLength : 0;
+  const nestedSqFt =
+    stock.kind === "sheet"
+      ? (sheets * stock.widthInches * (stock.lengthFt ?? pieceLength)) / 12
+      : (coilFeet * stock.widthInches) / 12;
+  const stockSqFt = nestedSqFt + oversizeSqFt;
+
+  const dropSqFt = Math.max(0, stockSqFt - installedSqFt);
+  return {
+    stockId: stock.id,
+    stockLabel: stock.label,
+    kind: stock.kind,
+    pieceLengthFt: pieceLength,
+    pieces,
+    rows,
+    sheets,
+    coilFeet,
+    oversizePieces,
+    stockSqFt: Math.round(stockSqFt * 100) / 100,
+    installedSqFt: Math.round(installedSqFt * 100) / 100,
+    dropSqFt: Math.round(dropSqFt * 100) / 100,
+    dropPct: stockSqFt > 0 ? Math.round((dropSqFt / stockSqFt) * 1000) / 10 : 0,
+  };
+}
+
+/**
+ * The stock option that buys the least area for these strips — at one price
+ * per square foot, also the cheapest.
+ */
+export function bestStockFor(strips: NestStrip[], pieceLengthFt: number): StockNest {
+  return STOCK_OPTIONS.map((stock) => nestStrips(strips, stock.id, pieceLengthFt)).reduce((best, nest) =>
+    nest.stockSqFt < best.stockSqFt ? nest : best,
+  );
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  KARNAK_METAL_KYNAR_SYSTEM,
+  calculateCoatingEstimate,
+  calculateEstimate,
+  coverageFromMils,
+  getTotalDryMils,
+  type EstimateInput,
+} from "./karnak-data";
+import {
+  COATING_SYSTEMS,
+  GAF_UNISIL_553_SYSTEM,
+  GAF_UNISIL_8650_SYSTEM,
+  KARNAK_SILICONE_520_SYSTEM,
+  getCoatingSystem,
+} from "./silicone-coating-data";
+import { getAllProducts } from "./all-products";
+
+const inputs: EstimateInput = {
+  squareFootage: 10000,
+  verticalSeamsLF: 480,
+  horizontalSeamsLF: 200,
+};
+
+function findItem(estimate: ReturnType<typeof calculateCoatingEstimate>, productId: string) {
+  return estimate.lineItems.find((i) => i.product.id === productId)!;
+}
+
+describe("Coating engine", () => {
+  it("derives coverage from dry mils and volume solids", () => {
+    // 1604 × 0.96 × 5 gal ÷ 10 mils
+    expect(coverageFromMils({ dryMilsPerCoat: 10, volumeSolids: 0.96 }, 5)).toBeCloseTo(769.92, 2);
+  });
+
+  it("keeps calculateEstimate on the Karnak Metal Kynar products", () => {
+    const estimate = calculateEstimate(inputs, {});
+    expect(estimate.system.id).toBe("karnak-metal-kynar");
+    expect(estimate.lineItems.map((i) => i.product.id)).toEqual(
+      KARNAK_METAL_KYNAR_SYSTEM.products.map((p) => p.id)
+    );
+    // 404 base coat at 333 sq.ft. per pail, single coat
+    expect(findItem(estimate, "404").quantityToOrder).toBe(Math.ceil(10000 / 333));
+  });
+
+  it("ignores warranty terms on systems that do not offer them", () => {
+    const base = calculateEstimate(inputs, {});
+    const withWarranty = calculateEstimate({ ...inputs, warrantyYears: 20 }, {});
+    expect(withWarranty.totalMaterialCost).toBe(base.totalMaterialCost);
+    expect(withWarranty.inputs.warrantyYears).toBeUndefined();
+  });
+});
+
+describe("Silicone coating systems", () => {
+  it("registers every coating system by id", () => {
+    expect(COATING_SYSTEMS.map((s) => s.id)).toEqual([
+      "karnak-metal-kynar",
+      "gaf-unisil-553",
+      "gaf-unisil-8650",
+      "karnak-silicone-520",
+    ]);
+    expect(getCoatingSystem("gaf-unisil-8650")).toBe(GAF_UNISIL_8650_SYSTEM);
+    expect(getCoatingSystem("carlisle-tpo")).toBeUndefined();
+  });
+
+  it("defaults to the system's default warranty term", () => {
+    const estimate = calculateCoatingEstimate(GAF_UNISIL_8650_SYSTEM, inputs, {});
+    expect(estimate.inputs.warrantyYears).toBe(10);
+    expect(findItem(estimate, "8650-base").coats).toBe(1);
+    expect(findItem(estimate, "8650-top").coats).toBe(1);
+  });
+
+  it("adds coats as the warranty term increases", () => {
+    const ten = calculateCoatingEstimate(GAF_UNISIL_8650_SYSTEM, { ...inputs, warrantyYears: 10 }, {});
+    const fifteen = calculateCoatingEstimate(GAF_UNISIL_8650_SYSTEM, { ...inputs, warrantyYears: 15 }, {});
+    const twenty = calculateCoatingEstimate(GAF_UNISIL_8650_SYSTEM, { ...inputs, warrantyYears: 20 }, {});
+
+    expect(findItem(ten, "8650-base").quantityToOrder).toBe(13);
+    expect(findItem(fifteen, "8650-top").quantityToOrder).toBe(26);
+    expect(findItem(twenty, "8650-base").quantityToOrder).toBe(26);
+    expect(ten.totalMaterialCost).toBeLessThan(fifteen.totalMaterialCost);
+    expect(fifteen.totalMaterialCost).toBeLessThan(twenty.totalMaterialCost);
+  });
+
+  it("does not change prep, primer or seam quantities with warranty term", () => {
+    const ten = calculateCoatingEstimate(KARNAK_SILICONE_520_SYSTEM, { ...inputs, warrantyYears: 10 }, {});
+    const twenty = calculateCoatingEstimate(KARNAK_SILICONE_520_SYSTEM, { ...inputs, warrantyYears: 20 }, {});
+    for (const id of ["799", "520p", "529-h", "529-v", "5540"]) {
+      expect(findItem(twenty, id).quantityNeeded).toBe(findItem(ten, id).quantityNeeded);
+    }
+  });
+
+  it("reports total dry mils for each warranty build", () => {
+    expect(getTotalDryMils(GAF_UNISIL_8650_SYSTEM, 10)).toBe(20);
+    expect(getTotalDryMils(GAF_UNISIL_8650_SYSTEM, 15)).toBe(30);
+    expect(getTotalDryMils(GAF_UNISIL_8650_SYSTEM, 20)).toBe(40);
+    expect(getTotalDryMils(KARNAK_SILICONE_520_SYSTEM, 20)).toBe(48);
+    expect(getTotalDryMils(GAF_UNISIL_553_SYSTEM, 10)).toBe(16);
+    expect(getTotalDryMils(GAF_UNISIL_553_SYSTEM, 20)).toBe(32);
+  });
+
+  it("covers less area per pail with the lower-solids acrylic", () => {
+    const acrylic = calculateCoatingEstimate(GAF_UNISIL_553_SYSTEM, inputs, {});
+    const silicone = calculateCoatingEstimate(GAF_UNISIL_8650_SYSTEM, inputs, {});
+
+    expect(GAF_UNISIL_553_SYSTEM.products.find((p) => p.id === "553-base")!.coverageRate).toBeCloseTo(531.3, 1);
+    expect(findItem(acrylic, "553-base").quantityToOrder).toBe(19);
+    expect(findItem(acrylic, "553-base").quantityToOrder).toBeGreaterThan(findItem(silicone, "8650-base").quantityToOrder);
+  });
+
+  it("applies custom prices", () => {
+    const estimate = calculateCoatingEstimate(KARNAK_SILICONE_520_SYSTEM, inputs, { "520-top": 500 });
+    const top = findItem(estimate, "520-top");
+    expect(top.unitPrice).toBe(500);
+    expect(top.totalCost).toBe(top.quantityToOrder * 500);
+  });
+
+  it("seeds each system under its own pricing prefix", () => {
+    const ids = getAllProducts().map((p) => p.productId);
+    expect(ids).toContain("gaf-unisil-8650-8650-base");
+    expect(ids).toContain("gaf-unisil-553-553-top");
+    expect(ids).toContain("karnak-silicone-520-799");
+    expect(ids).toContain("karnak-799");
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * Silicone Coating Systems — GAF UniSil 8650 & Karnak 520 Karna-Sil, plus
+ * GAF's UniSil 553 acrylic. Product Data built on the shared coating engine
+ * in karnak-data.ts
+ *
+ * Base and top coat coverage is derived from the dry film thickness per coat
+ * and the coating's volume solids. The warranty term sets how many coats of
+ * each are applied; prep, primer and seam treatment do not change with term.
+ */
+
+import {
+  KARNAK_METAL_KYNAR_SYSTEM,
+  coverageFromMils,
+  type CoatingSystem,
+  type KarnakProduct,
+  type MilSpec,
+} from "./karnak-data";
+
+// ── GAF UniSil 8650 ─────────────────────────────────────────
+
+const UNISIL_8650_SPEC: MilSpec = { dryMilsPerCoat: 10, volumeSolids: 0.96 };
+
+export const GAF_UNISIL_8650_PRODUCTS: KarnakProduct[] = [
+  {
+    id: "cleaner",
+    name: "GAF Coatings Roof Cleaner",
+    shortName: "Roof Cleaner",
+    description: "Biodegradable concentrated cleaner for removing dirt, chalking and oils before coating.",
+    step: "Preparation",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 98.00,
+    coverageType: "area",
+    coverageRate: 10000, // 1 gal concentrate per 2,000 sq.ft. diluted
+    coverageUnit: "sq. ft. per 5-gal pail",
+  },
+  {
+    id: "primer",
+    name: "GAF Coatings Rust-Inhibitive Primer",
+    shortName: "Metal Primer",
+    description: "Water-based rust-inhibitive primer promoting silicone adhesion to weathered and rusted metal.",
+    step: "Primer",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 215.00,
+    coverageType: "area",
+    coverageRate: 1500, // 1 gal per 300 sq.ft.
+    coverageUnit: "sq. ft. per 5-gal pail",
+  },
+  {
+    id: "flashing-grade-h",
+    name: "UniSil Flashing Grade",
+    shortName: "Flashing Grade (Horiz.)",
+    description: "Brush-grade silicone for sealing horizontal seams and laps — embedded with polyester fabric.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "2 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 165.00,
+    coverageType: "horizontal_seam",
+    coverageRate: 40, // 20 LF/gal × 2 gal
+    coverageUnit: "lin. ft. per 2-gal pail",
+  },
+  {
+    id: "flashing-grade-v",
+    name: "UniSil Flashing Grade",
+    shortName: "Flashing Grade (Vert.)",
+    description: "Brush-grade silicone applied as a 2\" wide stripe over vertical seams.",
+    step: "Vertical Seam Sealing",
+    unitSize: "2 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 165.00,
+    coverageType: "vertical_seam",
+    coverageRate: 240, // 120 LF/gal × 2 gal
+    coverageUnit: "lin. ft. per 2-gal pail",
+  },
+  {
+    id: "fabric",
+    name: "GAF Coatings Polyester Fabric",
+    shortName: "Polyester Fabric",
+    description: "Stitch-bonded polyester reinforcement (4\" wide) for seams, laps and penetrations.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "4\" × 324' Roll",
+    unitLabel: "roll",
+    defaultPrice: 42.00,
+    coverageType: "horizontal_seam_fabric",
+    coverageRate: 324,
+    coverageUnit: "lin. ft. per roll",
+  },
+  {
+    id: "8650-base",
+    name: "UniSil 8650 High-Solids Silicone (Gray)",
+    shortName: "Base Coat",
+    description: "96% solids moisture-cure silicone base coat, tinted gray to verify coverage between coats.",
+    step: "Base Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 410.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(UNISIL_8650_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: UNISIL_8650_SPEC,
+    coatsByWarranty: { 10: 1, 15: 1, 20: 2 },
+  },
+  {
+    id: "8650-top",
+    name: "UniSil 8650 High-Solids Silicone (White)",
+    shortName: "Top Coat",
+    description: "96% solids moisture-cure silicone finish coat with high solar reflectance.",
+    step: "Finish Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 425.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(UNISIL_8650_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: UNISIL_8650_SPEC,
+    coatsByWarranty: { 10: 1, 15: 2, 20: 2 },
+  },
+];
+
+export const GAF_UNISIL_8650_SYSTEM: CoatingSystem = {
+  id: "gaf-unisil-8650",
+  name: "GAF UniSil 8650 Silicone Coating System",
+  shortName: "GAF UniSil 8650",
+  manufacturer: "GAF",
+  pricingPrefix: "gaf-unisil-8650",
+  specReference: "UniSil 8650 High-Solids Silicone Restoration System",
+  substrate: "Metal / BUR / Modified Bitumen / SPF / Single-Ply",
+  tagline: "High-solids silicone restoration (96% volume solids) — Calculate material quantities and costs for a 10, 15 or 20-year warranty build.",
+  website: "https://www.gaf.com",
+  products: GAF_UNISIL_8650_PRODUCTS,
+  warrantyTerms: [10, 15, 20],
+  defaultWarranty: 10,
+};
+
+// ── GAF UniSil 553 (Acrylic) ───────────────────────────────
+
+const UNISIL_553_SPEC: MilSpec = { dryMilsPerCoat: 8, volumeSolids: 0.53 };
+
+export const GAF_UNISIL_553_PRODUCTS: KarnakProduct[] = [
+  {
+    id: "cleaner",
+    name: "GAF Coatings Roof Cleaner",
+    shortName: "Roof Cleaner",
+    description: "Biodegradable concentrated cleaner for removing dirt, chalking and oils before coating.",
+    step: "Preparation",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 98.00,
+    coverageType: "area",
+    coverageRate: 10000, // 1 gal concentrate per 2,000 sq.ft. diluted
+    coverageUnit: "sq. ft. per 5-gal pail",
+  },
+  {
+    id: "primer",
+    name: "GAF Coatings Rust-Inhibitive Primer",
+    shortName: "Metal Primer",
+    description: "Water-based rust-inhibitive primer for weathered and rusted metal before the acrylic coats.",
+    step: "Primer",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 215.00,
+    coverageType: "area",
+    coverageRate: 1500, // 1 gal per 300 sq.ft.
+    coverageUnit: "sq. ft. per 5-gal pail",
+  },
+  {
+    id: "brush-grade-h",
+    name: "UniSil 553 Brush Grade",
+    shortName: "Brush Grade (Horiz.)",
+    description: "Brush-grade acrylic sealant for horizontal seams and laps — embedded with polyester fabric.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "2 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 78.00,
+    coverageType: "horizontal_seam",
+    coverageRate: 30, // 15 LF/gal × 2 gal
+    coverageUnit: "lin. ft. per 2-gal pail",
+  },
+  {
+    id: "brush-grade-v",
+    name: "UniSil 553 Brush Grade",
+    shortName: "Brush Grade (Vert.)",
+    description: "Brush-grade acrylic sealant applied as a 2\" wide stripe over vertical seams.",
+    step: "Vertical Seam Sealing",
+    unitSize: "2 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 78.00,
+    coverageType: "vertical_seam",
+    coverageRate: 200, // 100 LF/gal × 2 gal
+    coverageUnit: "lin. ft. per 2-gal pail",
+  },
+  {
+    id: "fabric",
+    name: "GAF Coatings Polyester Fabric",
+    shortName: "Polyester Fabric",
+    description: "Stitch-bonded polyester reinforcement (4\" wide) for seams, laps and penetrations.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "4\" × 324' Roll",
+    unitLabel: "roll",
+    defaultPrice: 42.00,
+    coverageType: "horizontal_seam_fabric",
+    coverageRate: 324,
+    coverageUnit: "lin. ft. per roll",
+  },
+  {
+    id: "553-base",
+    name: "UniSil 553 Acrylic Elastomeric (Tan)",
+    shortName: "Base Coat",
+    description: "Acrylic elastomeric base coat, tinted tan to verify coverage between coats.",
+    step: "Base Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 185.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(UNISIL_553_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: UNISIL_553_SPEC,
+    coatsByWarranty: { 10: 1, 15: 1, 20: 2 },
+  },
+  {
+    id: "553-top",
+    name: "UniSil 553 Acrylic Elastomeric (White)",
+    shortName: "Top Coat",
+    description: "ENERGY STAR rated acrylic elastomeric finish coat with high reflectivity and elongation.",
+    step: "Finish Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 195.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(UNISIL_553_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: UNISIL_553_SPEC,
+    coatsByWarranty: { 10: 1, 15: 2, 20: 2 },
+  },
+];
+
+export const GAF_UNISIL_553_SYSTEM: CoatingSystem = {
+  id: "gaf-unisil-553",
+  name: "GAF UniSil 553 Acrylic Coating System",
+  shortName: "GAF UniSil 553",
+  manufacturer: "GAF",
+  pricingPrefix: "gaf-unisil-553",
+  specReference: "UniSil 553 Acrylic Elastomeric Restoration System",
+  substrate: "Metal / SPF / BUR / Single-Ply",
+  tagline: "Acrylic elastomeric restoration (53% volume solids) — Calculate material quantities and costs for a 10, 15 or 20-year warranty build.",
+  website: "https://www.gaf.com",
+  products: GAF_UNISIL_553_PRODUCTS,
+  warrantyTerms: [10, 15, 20],
+  defaultWarranty: 10,
+};
+
+// ── Karnak 520 Karna-Sil ────────────────────────────────────
+
+const KARNA_SIL_520_SPEC: MilSpec = { dryMilsPerCoat: 12, volumeSolids: 0.9 };
+
+export const KARNAK_SILICONE_520_PRODUCTS: KarnakProduct[] = [
+  {
+    id: "799",
+    name: "799 Wash-N-Prep",
+    shortName: "Wash-N-Prep",
+    description: "Concentrated liquid TSP substitute for cleaning roof surfaces prior to applying coatings.",
+    step: "Preparation",
+    unitSize: "1 Quart",
+    unitLabel: "quart",
+    defaultPrice: 10.65,
+    coverageType: "area",
+    coverageRate: 1600, // 1 quart per 1,600 sq.ft.
+    coverageUnit: "sq. ft. per quart",
+  },
+  {
+    id: "520p",
+    name: "520P Karna-Sil Primer",
+    shortName: "Karna-Sil Primer",
+    description: "Single-component primer improving silicone adhesion to metal, BUR and aged single-ply.",
+    step: "Primer",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 198.00,
+    coverageType: "area",
+    coverageRate: 1250, // 0.4 gal per 100 sq.ft.
+    coverageUnit: "sq. ft. per 5-gal pail",
+  },
+  {
+    id: "529-h",
+    name: "529 Karna-Sil Flashing Grade",
+    shortName: "Flashing Grade (Horiz.)",
+    description: "Thixotropic silicone mastic for sealing horizontal seams and penetrations — applied with 6\" Resat-Mat reinforcement.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 395.00,
+    coverageType: "horizontal_seam",
+    coverageRate: 100, // 20 LF/gal × 5 gal
+    coverageUnit: "lin. ft. per 5-gal pail",
+  },
+  {
+    id: "529-v",
+    name: "529 Karna-Sil Flashing Grade",
+    shortName: "Flashing Grade (Vert.)",
+    description: "Thixotropic silicone mastic applied as a 2\" wide bead along vertical seams.",
+    step: "Vertical Seam Sealing",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 395.00,
+    coverageType: "vertical_seam",
+    coverageRate: 800, // 160 LF/gal × 5 gal
+    coverageUnit: "lin. ft. per 5-gal pail",
+  },
+  {
+    id: "5540",
+    name: "5540 Resat-Mat",
+    shortName: "Resat-Mat Fabric",
+    description: "Spunlaced polyester fabric (6\" wide) for reinforcing mastics over horizontal seams, penetrations, and rough surfaces.",
+    step: "Horizontal Seam Sealing",
+    unitSize: "6\" × 300' Roll",
+    unitLabel: "roll",
+    defaultPrice: 65.00,
+    coverageType: "horizontal_seam_fabric",
+    coverageRate: 300,
+    coverageUnit: "lin. ft. per roll",
+  },
+  {
+    id: "520-base",
+    name: "520 Karna-Sil Silicone (Gray)",
+    shortName: "Base Coat",
+    description: "High-solids moisture-cure silicone base coat, gray for coverage verification.",
+    step: "Base Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 372.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(KARNA_SIL_520_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: KARNA_SIL_520_SPEC,
+    coatsByWarranty: { 10: 1, 15: 1, 20: 2 },
+  },
+  {
+    id: "520-top",
+    name: "520 Karna-Sil Silicone (White)",
+    shortName: "Finish Coat",
+    description: "High-solids moisture-cure silicone finish coat with excellent ponding water resistance.",
+    step: "Finish Coat",
+    unitSize: "5 Gallon Pail",
+    unitLabel: "pail",
+    defaultPrice: 386.00,
+    coverageType: "area",
+    coverageRate: coverageFromMils(KARNA_SIL_520_SPEC, 5),
+    coverageUnit: "sq. ft. per 5-gal pail per coat",
+    milSpec: KARNA_SIL_520_SPEC,
+    coatsByWarranty: { 10: 1, 15: 2, 20: 2 },
+  },
+];
+
+export const KARNAK_SILICONE_520_SYSTEM: CoatingSystem = {
+  id: "karnak-silicone-520",
+  name: "Karnak 520 Karna-Sil Silicone Coating System",
+  shortName: "Karnak 520 Karna-Sil",
+  manufacturer: "Karnak",
+  pricingPrefix: "karnak-silicone-520",
+  specReference: "520 Karna-Sil High-Solids Silicone Restoration System",
+  substrate: "Metal / BUR / SPF",
+  tagline: "Moisture-cure silicone restoration — Calculate material quantities and costs for a 10, 15 or 20-year warranty build.",
+  website: "https://www.karnakcorp.com",
+  products: KARNAK_SILICONE_520_PRODUCTS,
+  warrantyTerms: [10, 15, 20],
+  defaultWarranty: 10,
+};
+
+// ── Registry ────────────────────────────────────────────────
+
+export const COATING_SYSTEMS: CoatingSystem[] = [
+  KARNAK_METAL_KYNAR_SYSTEM,
+  GAF_UNISIL_553_SYSTEM,
+  GAF_UNISIL_8650_SYSTEM,
+  KARNAK_SILICONE_520_SYSTEM,
+];
+
+export function getCoatingSystem(id: string): CoatingSystem | undefined {
+  return COATING_SYSTEMS.find((s) => s.id === id);
+}
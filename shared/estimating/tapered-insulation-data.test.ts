@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_TAPERED_CONFIG,
+  designTaperedInsulation,
+  getTaperedMaxThickness,
+  type TaperedInsulationConfig,
+} from "./tapered-insulation-data";
+import {
+  calculateTPOEstimate,
+  getResolvedFastenerLength,
+  type AssemblyConfig,
+  type TPOMeasurements,
+} from "./tpo-data";
+
+const quarterInch: TaperedInsulationConfig = {
+  ...DEFAULT_TAPERED_CONFIG,
+  enabled: true,
+  slope: "1/4",
+  drainage: "perimeter-edge",
+  runLength: 40,
+};
+
+const assembly: AssemblyConfig = {
+  deckType: "steel-22ga",
+  vaporBarrier: "none",
+  insulationEnabled: true,
+  insulationLayers: [
+    { thickness: "2.0", enabled: true },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+  ],
+  coverBoard: "densdeck-prime-half",
+  membraneThickness: "60mil",
+  attachmentMethod: "mechanically-attached",
+  fastenerType: "sfs-dekfast",
+  fastenerLength: "auto",
+  membraneFastenerLength: "auto",
+  plateType: "3in-round",
+  membranePlateType: "barbed",
+};
+
+const measurements: TPOMeasurements = {
+  roofArea: 16000,
+  wallLinearFt: 0,
+  wallHeight: 0,
+  baseFlashingLF: 0,
+};
+
+describe("designTaperedInsulation", () => {
+  it("alternates the 1/4\" series and adds fill after each 2\" rise", () => {
+    const design = designTaperedInsulation(quarterInch, 16000);
+    expect(design.rows).toBe(10);
+    expect(design.panelCounts.map((p) => p.letter)).toEqual(["X", "Y"]);
+    // 5 rows of each panel, each row 1,600 sq ft of 16 sq ft panels
+    expect(design.panelCounts[0].panels).toBeCloseTo(500, 6);
+    expect(design.panelCounts[1].panels).toBeCloseTo(500, 6);
+    // Rows 2–9 carry 1, 1, 2, 2, 3, 3, 4, 4 fill layers = 20 row-layers of 1,600 sq ft
+    expect(design.fillBoards).toBeCloseTo((20 * 1600) / 32, 6);
+    expect(design.maxFillLayers).toBe(4);
+  });
+
+  it("reports thickness and R-value across the run", () => {
+    const design = designTaperedInsulation(quarterInch, 16000);
+    expect(design.minThickness).toBe(0.5);
+    expect(design.maxThickness).toBe(10.5);
+    expect(design.avgThickness).toBe(5.5);
+    expect(design.avgRValue).toBeCloseTo(5.5 * 5.7, 6);
+    expect(design.minRValue).toBeCloseTo(0.5 * 5.7, 6);
+  });
+
+  it("handles a partial last row on the 1/8\" series", () => {
+    const design = designTaperedInsulation({ ...quarterInch, slope: "1/8", runLength: 10 }, 1000);
+    expect(design.rows).toBe(3);
+    expect(design.panelCounts.map((p) => p.letter)).toEqual(["Q", "R", "S"]);
+    // 4' + 4' + 2' rows of a 10' run
+    expect(design.panelCounts[2].panels).toBeCloseTo((1000 * 0.2) / 16, 6);
+    expect(design.fillBoards).toBe(0);
+    expect(getTaperedMaxThickness({ ...quarterInch, slope: "1/8", runLength: 10 })).toBe(1.75);
+  });
+
+  it("adds a cricket between each pair of interior drains", () => {
+    const design = designTaperedInsulation(
+      { ...quarterInch, drainage: "interior-drains", drainCount: 3 },
+      16000,
+      240
+    );
+    expect(design.cricketCount).toBe(2);
+    // 80' drain spacing → 80 × 40 diamond = 1,600 sq ft
+    expect(design.cricketArea).toBe(1600);
+    const z = design.panelCounts.find((p) => p.letter === "Z")!;
+    expect(z.cricketPanels).toBeGreaterThan(0);
+    expect(z.panels).toBe(0);
+  });
+
+  it("has no crickets when draining to the edge", () => {
+    const design = designTaperedInsulation({ ...quarterInch, drainCount: 4 }, 16000);
+    expect(design.cricketCount).toBe(0);
+  });
+});
+
+describe("Tapered insulation in calculateTPOEstimate", () => {
+  it("adds panel and fill line items", () => {
+    const estimate = calculateTPOEstimate({ ...assembly, tapered: quarterInch }, measurements, {});
+    const ids = estimate.lineItems.map((i) => i.product.id);
+    expect(ids).toContain("tapered-x");
+    expect(ids).toContain("tapered-y");
+    expect(ids).toContain("tapered-fill-2.0");
+    expect(ids).toContain("insulation-2.0");
+  });
+
+  it("ignores a disabled tapered config", () => {
+    const flat = calculateTPOEstimate(assembly, measurements, {});
+    const off = calculateTPOEstimate({ ...assembly, tapered: { ...quarterInch, enabled: false } }, measurements, {});
+    expect(off.totalMaterialCost).toBe(flat.totalMaterialCost);
+  });
+
+  it("sizes screws for the thickest point of the taper", () => {
+    expect(getResolvedFastenerLength(assembly)).toBe("4in");
+    const shallow = { ...assembly, tapered: { ...quarterInch, runLength: 8 } };
+    // 2.0" flat + 2.5" tapered + 0.5" cover board + 1" deck penetration
+    expect(getResolvedFastenerLength(shallow)).toBe("6in");
+    const estimate = calculateTPOEstimate(shallow, measurements, {});
+    expect(estimate.lineItems.some((i) => i.product.id === "fastener-screws-6in")).toBe(true);
+  });
+});
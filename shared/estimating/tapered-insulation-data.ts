@@ -0,0 +1,201 @@
+/**
+ * Tapered Insulation — Panel layout for sloped polyiso over flat base layers.
+ *
+ * Tapered panels are 4' x 4' polyiso boards that rise in thickness along one
+ * edge. Each slope has its own panel series; one pass through the series
+ * always rises 2", after which a 2" flat fill board goes under the next pass:
+ *
+ *   1/8" per ft:  Q (0.5"–1.0")  R (1.0"–1.5")  S (1.5"–2.0")  T (2.0"–2.5")
+ *   1/4" per ft:  X (0.5"–1.5")  Y (1.5"–2.5")
+ *   1/2" per ft:  Z (0.5"–2.5")
+ *
+ * The run is laid out in 4' rows from the drain (thinnest) to the high point.
+ * Interior drains get a 1/2" per ft cricket between each pair of drains to
+ * push water off the valley between them.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type TaperedSlope = "1/8" | "1/4" | "1/2";
+
+export type TaperedDrainage = "interior-drains" | "perimeter-edge";
+
+export interface TaperedInsulationConfig {
+  enabled: boolean;
+  slope: TaperedSlope;
+  drainage: TaperedDrainage;
+  drainCount: number; // interior drains only
+  runLength: number;  // ft from the drain (low point) to the high point
+}
+
+export interface TaperedPanel {
+  letter: string;
+  slope: TaperedSlope;
+  minThickness: number; // inches
+  maxThickness: number; // inches
+}
+
+export interface TaperedPanelCount {
+  letter: string;
+  panels: number;        // field panels (fractional, before waste)
+  cricketPanels: number; // cricket panels (fractional, before waste)
+}
+
+export interface TaperedDesign {
+  config: TaperedInsulationConfig;
+  rows: number;             // 4' panel rows from drain to high point
+  panelCounts: TaperedPanelCount[];
+  fillBoards: number;       // 4' x 8' flat fill boards (fractional, before waste)
+  maxFillLayers: number;
+  cricketCount: number;
+  cricketArea: number;      // sq ft per cricket
+  minThickness: number;     // inches of tapered + fill at the drain
+  maxThickness: number;     // inches of tapered + fill at the high point
+  avgThickness: number;
+  minRValue: number;
+  avgRValue: number;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const TAPERED_SLOPES: { value: TaperedSlope; label: string; inchesPerFt: number; series: string[] }[] = [
+  { value: "1/8", label: '1/8" per ft', inchesPerFt: 0.125, series: ["Q", "R", "S", "T"] },
+  { value: "1/4", label: '1/4" per ft', inchesPerFt: 0.25, series: ["X", "Y"] },
+  { value: "1/2", label: '1/2" per ft', inchesPerFt: 0.5, series: ["Z"] },
+];
+
+export const TAPERED_DRAINAGE_TYPES: { value: TaperedDrainage; label: string }[] = [
+  { value: "interior-drains", label: "Interior Drains" },
+  { value: "perimeter-edge", label: "Perimeter Edge / Scuppers" },
+];
+
+export const TAPERED_PANELS: TaperedPanel[] = [
+  { letter: "Q", slope: "1/8", minThickness: 0.5, maxThickness: 1.0 },
+  { letter: "R", slope: "1/8", minThickness: 1.0, maxThickness: 1.5 },
+  { letter: "S", slope: "1/8", minThickness: 1.5, maxThickness: 2.0 },
+  { letter: "T", slope: "1/8", minThickness: 2.0, maxThickness: 2.5 },
+  { letter: "X", slope: "1/4", minThickness: 0.5, maxThickness: 1.5 },
+  { letter: "Y", slope: "1/4", minThickness: 1.5, maxThickness: 2.5 },
+  { letter: "Z", slope: "1/2", minThickness: 0.5, maxThickness: 2.5 },
+];
+
+export const DEFAULT_TAPERED_CONFIG: TaperedInsulationConfig = {
+  enabled: false,
+  slope: "1/4",
+  drainage: "interior-drains",
+  drainCount: 2,
+  runLength: 40,
+};
+
+export const TAPERED_PANEL_LENGTH_FT = 4;
+export const TAPERED_PANEL_AREA = 16;     // sq ft per 4' x 4' panel
+export const TAPERED_FILL_THICKNESS = 2.0; // inches per flat fill layer
+export const TAPERED_FILL_BOARD_AREA = 32; // sq ft per 4' x 8' fill board
+const START_THICKNESS = 0.5;               // thinnest edge of every series
+const CRICKET_SLOPE: TaperedSlope = "1/2";
+const POLYISO_R_PER_INCH = 5.7;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+/** Pricing/product id for a tapered panel letter (e.g. "tapered-x") */
+export function taperedPanelProductId(letter: string): string {
+  return `tapered-${letter.toLowerCase()}`;
+}
+
+export const TAPERED_FILL_PRODUCT_ID = "tapered-fill-2.0";
+
+function getSlope(slope: TaperedSlope) {
+  return TAPERED_SLOPES.find((s) => s.value === slope) ?? TAPERED_SLOPES[1];
+}
+
+/** Thickness of tapered panels plus fill at the high point of the run */
+export function getTaperedMaxThickness(config: TaperedInsulationConfig): number {
+  if (!config.enabled || config.runLength <= 0) return 0;
+  return START_THICKNESS + getSlope(config.slope).inchesPerFt * config.runLength;
+}
+
+/**
+ * Lay out one sloped run in 4' rows. The area is spread evenly along the run
+ * (rectangular drainage strips); the last row may be a partial row.
+ */
+function layoutRun(area: number, runLength: number, slope: TaperedSlope) {
+  const { series } = getSlope(slope);
+  const rows = Math.ceil(runLength / TAPERED_PANEL_LENGTH_FT);
+  const panels = new Map<string, number>();
+  let fillBoards = 0;
+  let maxFillLayers = 0;
+
+  for (let i = 0; i < rows; i++) {
+    const rowLength = Math.min(TAPERED_PANEL_LENGTH_FT, runLength - i * TAPERED_PANEL_LENGTH_FT);
+    const rowArea = (area * rowLength) / runLength;
+    const letter = series[i % series.length];
+    const fillLayers = Math.floor(i / series.length);
+    panels.set(letter, (panels.get(letter) ?? 0) + rowArea / TAPERED_PANEL_AREA);
+    fillBoards += (fillLayers * rowArea) / TAPERED_FILL_BOARD_AREA;
+    maxFillLayers = Math.max(maxFillLayers, fillLayers);
+  }
+
+  return { rows, panels, fillBoards, maxFillLayers };
+}
+
+// ── Designer ───────────────────────────────────────────────────────────────
+
+/**
+ * Panel series, counts, fill boards and crickets for a tapered system over
+ * the given roof area. `roofLength` (ft) sets the drain spacing for crickets;
+ * without it the roof is treated as square.
+ */
+export function designTaperedInsulation(
+  config: TaperedInsulationConfig,
+  roofArea: number,
+  roofLength?: number
+): TaperedDesign {
+  const runLength = Math.max(config.runLength, 0);
+  const field = runLength > 0 && roofArea > 0
+    ? layoutRun(roofArea, runLength, config.slope)
+    : { rows: 0, panels: new Map<string, number>(), fillBoards: 0, maxFillLayers: 0 };
+
+  // Crickets: diamond saddles between adjacent interior drains, one drain
+  // spacing long and half a spacing wide, sloping both ways at 1/2" per ft
+  const cricketCount = config.drainage === "interior-drains" ? Math.max(config.drainCount - 1, 0) : 0;
+  const drainSpacing = cricketCount > 0
+    ? (roofLength && roofLength > 0 ? roofLength : Math.sqrt(roofArea)) / config.drainCount
+    : 0;
+  const cricketArea = (drainSpacing * drainSpacing) / 4;
+  const cricket = cricketCount > 0 && cricketArea > 0
+    ? layoutRun(cricketArea * cricketCount, drainSpacing / 4, CRICKET_SLOPE)
+    : { rows: 0, panels: new Map<string, number>(), fillBoards: 0, maxFillLayers: 0 };
+
+  const letters = TAPERED_PANELS.map((p) => p.letter).filter(
+    (l) => field.panels.has(l) || cricket.panels.has(l)
+  );
+  const panelCounts = letters.map((letter) => ({
+    letter,
+    panels: field.panels.get(letter) ?? 0,
+    cricketPanels: cricket.panels.get(letter) ?? 0,
+  }));
+
+  const maxThickness = getTaperedMaxThickness({ ...config, enabled: true, runLength });
+  const minThickness = runLength > 0 ? START_THICKNESS : 0;
+  const avgThickness = runLength > 0 ? (minThickness + maxThickness) / 2 : 0;
+
+  return {
+    config,
+    rows: field.rows,
+    panelCounts,
+    fillBoards: field.fillBoards + cricket.fillBoards,
+    maxFillLayers: field.maxFillLayers,
+    cricketCount,
+    cricketArea,
+    minThickness,
+    maxThickness,
+    avgThickness,
+    minRValue: minThickness * POLYISO_R_PER_INCH,
+    avgRValue: avgThickness * POLYISO_R_PER_INCH,
+  };
+}
+
+/** "X, Y" — the panel letters a design uses, in series order */
+export function getTaperedSeriesLabel(design: TaperedDesign): string {
+  return design.panelCounts.map((p) => p.letter).join(", ");
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateTPOEstimate,
+  calculateSectionedEstimate,
+  calculateWindZones,
+  getSeamLF,
+  getZoneWidth,
+  membraneProductId,
+  exportTPOEstimateCSV,
+  type AssemblyConfig,
+  type RoofSection,
+} from "./tpo-data";
+import { calculateEPDMEstimate } from "./firestone-epdm-data";
+
+function makeAssembly(overrides?: Partial<AssemblyConfig>): AssemblyConfig {
+  return {
+    deckType: "steel-22ga",
+    vaporBarrier: "none",
+    insulationEnabled: true,
+    insulationLayers: [
+      { thickness: "2.0", enabled: true },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+      { thickness: "none", enabled: false },
+    ],
+    coverBoard: "densdeck-prime-half",
+    membraneThickness: "60mil",
+    attachmentMethod: "fully-adhered",
+    fastenerType: "sfs-dekfast",
+    fastenerLength: "auto",
+    membraneFastenerLength: "auto",
+    plateType: "3in-round",
+    membranePlateType: "barbed",
+    ...overrides,
+  };
+}
+
+const warehouse: RoofSection = {
+  id: "s1",
+  name: "Warehouse",
+  assembly: makeAssembly(),
+  measurements: { roofArea: 20000, wallLinearFt: 300, wallHeight: 3, baseFlashingLF: 600 },
+};
+
+const offices: RoofSection = {
+  id: "s2",
+  name: "Offices",
+  assembly: makeAssembly({ attachmentMethod: "mechanically-attached", coverBoard: "none" }),
+  measurements: { roofArea: 5000, wallLinearFt: 100, wallHeight: 6, baseFlashingLF: 300 },
+};
+
+describe("calculateSectionedEstimate", () => {
+  it("matches calculateTPOEstimate for a single section", () => {
+    const single = calculateTPOEstimate(warehouse.assembly, warehouse.measurements, {});
+    const sectioned = calculateSectionedEstimate([warehouse], {});
+    expect(sectioned.totalMaterialCost).toBeCloseTo(single.totalMaterialCost, 2);
+    expect(sectioned.lineItems.map((i) => i.note)).toEqual(single.lineItems.map((i) => i.note));
+  });
+
+  it("sums project measurements across sections", () => {
+    const estimate = calculateSectionedEstimate([warehouse, offices], {});
+    expect(estimate.measurements.roofArea).toBe(25000);
+    expect(estimate.measurements.baseFlashingLF).toBe(900);
+    expect(estimate.measurements.wallLinearFt).toBe(400);
+    expect(estimate.wallSqFt).toBe(300 * 3 + 100 * 6);
+    expect(estimate.measurements.wallLinearFt * estimate.measurements.wallHeight).toBeCloseTo(estimate.wallSqFt, 5);
+    expect(estimate.sections).toHaveLength(2);
+  });
+
+  it("merges shared products into one line and rounds the combined quantity", () => {
+    const estimate = calculateSectionedEstimate([warehouse, offices], {});
+    const flashing = estimate.lineItems.filter((i) => i.product.id === "flash-membrane-24");
+    expect(flashing).toHaveLength(1);
+
+    const [a, b] = flashing[0].sections!;
+    expect(a.sectionName).toBe("Warehouse");
+    expect(b.sectionName).toBe("Offices");
+    expect(flashing[0].quantityNeeded).toBeCloseTo(a.quantityNeeded + b.quantityNeeded, 5);
+    expect(flashing[0].unitsToOrder).toBe(Math.ceil(a.quantityNeeded + b.quantityNeeded));
+  });
+
+  it("attributes section-only products to that section", () => {
+    const estimate = calculateSectionedEstimate([warehouse, offices], {});
+    const coverBoard = estimate.lineItems.find((i) => i.product.category === "Cover Board")!;
+    expect(coverBoard.sections!.map((s) => s.sectionName)).toEqual(["Warehouse"]);
+    expect(coverBoard.note).toContain("Warehouse:");
+
+    const membraneScrews = estimate.lineItems.find((i) => i.product.id.startsWith("fastener-screws-membrane-"))!;
+    expect(membraneScrews.sections!.map((s) => s.sectionName)).toEqual(["Offices"]);
+  });
+
+  it("total equals the sum of merged line items", () => {
+    const estimate = calculateSectionedEstimate([warehouse, offices], {});
+    const sum = estimate.lineItems.reduce((s, i) => s + i.totalCost, 0);
+    expect(estimate.totalMaterialCost).toBeCloseTo(sum, 2);
+  });
+
+  it("accepts another system's calculator", () => {
+    const estimate = calculateSectionedEstimate(
+      [warehouse, { ...offices, assembly: makeAssembly({ fastenerType: "firestone-hd" }) }],
+      {},
+      calculateEPDMEstimate
+    );
+    expect(estimate.lineItems.some((i) => i.product.id === "seam-primer")).toBe(true);
+  });
+
+  it("lists sections in the CSV header", () => {
+    const csv = exportTPOEstimateCSV(calculateSectionedEstimate([warehouse, offices], {}));
+    expect(csv).toContain("Roof Sections: Warehouse (20,000 sq ft); Offices (5,000 sq ft)");
+  });
+});
+
+describe("calculateWindZones", () => {
+  const base = { roofArea: 40000, wallLinearFt: 0, wallHeight: 0, baseFlashingLF: 0 };
+
+  it("uses 10% of the least dimension when it governs", () => {
+    const zones = calculateWindZones({ ...base, roofLength: 400, roofWidth: 100, meanRoofHeight: 30 });
+    // min(0.1 × 100, 0.4 × 30) = 10 ft
+    expect(zones.zoneWidth).toBe(10);
+    expect(zones.cornerRatio).toBeCloseTo((4 * 10 * 10) / 40000, 6);
+    expect(zones.perimeterRatio).toBeCloseTo((2 * 10 * 380 + 2 * 10 * 80) / 40000, 6);
+    expect(zones.fieldRatio).toBeCloseTo((380 * 80) / 40000, 6);
+  });
+
+  it("uses 0.4h when the building is low", () => {
+    // min(0.1 × 100, 0.4 × 15) = 6 ft
+    const zones = calculateWindZones({ ...base, roofLength: 400, roofWidth: 100, meanRoofHeight: 15 });
+    expect(zones.zoneWidth).toBe(6);
+  });
+
+  it("never goes below 4% of the least dimension or 3 ft", () => {
+    expect(getZoneWidth(300, 10)).toBe(12);
+    expect(getZoneWidth(40, 5)).toBe(3);
+  });
+
+  it("assumes a square footprint when length and width are missing", () => {
+    const zones = calculateWindZones(base);
+    expect(zones.fromDimensions).toBe(false);
+    expect(zones.roofWidth).toBe(200);
+    expect(zones.zoneWidth).toBe(20);
+  });
+
+  it("orders more fasteners for a long narrow building than a square one of the same area", () => {
+    const assembly = makeAssembly({ attachmentMethod: "mechanically-attached" });
+    const screws = (m: typeof base) =>
+      calculateTPOEstimate(assembly, m, {}).lineItems
+        .filter((i) => i.product.id.startsWith("fastener-screws-"))
+        .reduce((s, i) => s + i.quantityNeeded, 0);
+    // Both get 8 ft edge zones (0.4 × 20 ft), but the narrow building has more edge
+    const square = screws({ ...base, roofLength: 200, roofWidth: 200, meanRoofHeight: 20 });
+    const narrow = screws({ ...base, roofLength: 400, roofWidth: 100, meanRoofHeight: 20 });
+    expect(narrow).toBeGreaterThan(square);
+  });
+});
+
+describe("membrane roll layout", () => {
+  const measurements = {
+    roofArea: 10000,
+    roofLength: 100,
+    roofWidth: 100,
+    meanRoofHeight: 25,
+    wallLinearFt: 0,
+    wallHeight: 0,
+    baseFlashingLF: 0,
+  };
+
+  it("orders half-sheet rolls for the perimeter zones of a mechanically attached roof", () => {
+    const estimate = calculateTPOEstimate(makeAssembly({ attachmentMethod: "mechanically-attached" }), measurements, {});
+    const halfSheets = estimate.lineItems.find((i) => i.product.id === membraneProductId("60mil", 5));
+    expect(estimate.rollLayout?.halfSheets).toBeGreaterThan(0);
+    expect(halfSheets?.note).toContain("half sheets in perimeter zones");
+  });
+
+  it("orders the rolls the layout calls for", () => {
+    for (const attachmentMethod of ["mechanically-attached", "fully-adhered"]) {
+      const estimate = calculateTPOEstimate(makeAssembly({ attachmentMethod }), measurements, {});
+      for (const { rollWidthFt, rolls } of estimate.rollLayout!.rolls) {
+        const item = estimate.lineItems.find((i) => i.product.id === membraneProductId("60mil", rollWidthFt));
+        expect(item?.unitsToOrder).toBe(rolls);
+      }
+    }
+  });
+
+  it("fastens the side seams of the layout", () => {
+    const estimate = calculateTPOEstimate(makeAssembly({ attachmentMethod: "mechanically-attached" }), measurements, {});
+    const screws = estimate.lineItems.find((i) => i.product.id.startsWith("fastener-screws-membrane"));
+    expect(screws?.note).toContain(`${estimate.rollLayout!.sideSeamLF.toLocaleString()} LF of side seams`);
+  });
+
+  it("covers membrane end laps with cover strip", () => {
+    const long = { ...measurements, roofArea: 5000, roofLength: 250, roofWidth: 20 };
+    const estimate = calculateTPOEstimate(makeAssembly(), long, {});
+    const coverStrip = estimate.lineItems.find((i) => i.product.id === "acc-coverstrip");
+    expect(estimate.rollLayout!.endSeamLF).toBeGreaterThan(0);
+    expect(coverStrip?.note).toContain("lin ft of membrane end laps");
+  });
+
+  it("sums seam LF across roof sections", () => {
+    const sections = [warehouse, offices].map((section) => ({
+      ...section,
+      measurements: { ...section.measurements, roofLength: 100, roofWidth: section.measurements.roofArea / 100 },
+    }));
+    const estimate = calculateSectionedEstimate(sections, {});
+    const seamLF = estimate.sections!.map(({ estimate: e }) => e.rollLayout!.seamLF);
+    expect(getSeamLF(estimate)).toBe(seamLF[0] + seamLF[1]);
+  });
+});
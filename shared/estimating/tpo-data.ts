@@ -3,6 +3,27 @@
 // Design: Industrial Estimator for Carlisle Sure-Weld TPO roofing systems
 // All prices are editable defaults based on industry research (QXO, BestMaterials, etc.)
 
+import {
+  resolveZoneFastening,
+  getMembraneFastenersPerLF,
+  type ExposureCategory,
+  type FastenerPattern,
+  type WindDesignInputs,
+  type WindFastenerRow,
+  type WindZone,
+  type ZoneFasteningMap,
+} from "./wind-uplift-data";
+import {
+  designTaperedInsulation,
+  getTaperedMaxThickness,
+  getTaperedSeriesLabel,
+  taperedPanelProductId,
+  TAPERED_FILL_PRODUCT_ID,
+  TAPERED_SLOPES,
+  type TaperedInsulationConfig,
+} from "./tapered-insulation-data";
+import { HALF_SHEET_WIDTH_FT, layoutMembraneRolls, MEMBRANE_ROLL_WIDTHS_FT, type MembraneRollLayout } from "./membrane-roll-layout";
+
 // ---- TYPES ----
 
 export interface InsulationLayer {
@@ -24,6 +45,8 @@ export interface AssemblyConfig {
   membraneFastenerLength: string; // membrane attachment screw length
   plateType: string;           // insulation plate type
   membranePlateType: string;   // membrane plate type
+  // Tapered insulation over the flat layers (Carlisle TPO only)
+  tapered?: TaperedInsulationConfig;
 }
 
 export interface TPOMeasurements {
@@ -31,6 +54,13 @@ export interface TPOMeasurements {
   wallLinearFt: number;   // linear feet of wall perimeter
   wallHeight: number;     // feet - height of walls for wall flashing
   baseFlashingLF: number; // linear feet of base flashing (18" standard height)
+  // Building geometry for wind zone layout (optional — a square footprint is assumed when omitted)
+  roofLength?: number;     // ft - plan length of the roof
+  roofWidth?: number;      // ft - plan width of the roof
+  meanRoofHeight?: number; // ft - mean roof height above grade
+  // Site wind design (optional — standard zone fastening is used when omitted)
+  basicWindSpeed?: number;              // mph - ASCE 7 basic (ultimate) wind speed
+  exposureCategory?: ExposureCategory;  // terrain exposure, defaults to C
 }
 
 export interface TPOProduct {
@@ -51,6 +81,27 @@ export interface TPOLineItem {
   unitPrice: number;
   totalCost: number;
   note: string;
+  /** Per-section contributions (set on consolidated multi-section estimates) */
+  sections?: TPOLineItemSection[];
+}
+
+export interface TPOLineItemSection {
+  sectionId: string;
+  sectionName: string;
+  quantityNeeded: number;
+}
+
+/** A named roof area with its own assembly, e.g. "Low Roof — Warehouse" */
+export interface RoofSection {
+  id: string;
+  name: string;
+  assembly: AssemblyConfig;
+  measurements: TPOMeasurements;
+}
+
+export interface RoofSectionEstimate {
+  section: RoofSection;
+  estimate: TPOEstimate;
 }
 
 export interface TPOEstimate {
@@ -60,6 +111,10 @@ export interface TPOEstimate {
   totalMaterialCost: number;
   wallSqFt: number;
   baseFlashingSqFt: number;
+  /** Membrane sheets laid out from real roll sizes (Carlisle TPO) */
+  rollLayout?: MembraneRollLayout;
+  /** Individual section results (set on consolidated multi-section estimates) */
+  sections?: RoofSectionEstimate[];
 }
 
 // ---- ASSEMBLY OPTIONS ----
@@ -206,8 +261,12 @@ export const MEMBRANE_PLATE_TYPES = [
 
 // ---- PRODUCT CATALOG ----
 
-export const TPO_PRODUCTS: Record<string, TPOProduct> = {
-  // Membranes
+/** Membrane product for a roll width; 10' rolls are the base membrane products */
+export function membraneProductId(thickness: string, rollWidthFt: number): string {
+  return rollWidthFt === 10 ? `membrane-${thickness}` : `membrane-${thickness}-${rollWidthFt}ft`;
+}
+
+const MEMBRANE_BASE_PRODUCTS: Record<string, TPOProduct> = {
   "membrane-45mil": {
     id: "membrane-45mil",
     name: "Sure-Weld TPO 45 mil Membrane",
@@ -238,6 +297,34 @@ export const TPO_PRODUCTS: Record<string, TPOProduct> = {
     defaultPrice: 1350,
     description: "Carlisle Sure-Weld 80 mil reinforced TPO membrane, White",
   },
+};
+
+// 5', 8' and 12' rolls of each thickness, priced by area from the 10' roll
+const MEMBRANE_ROLL_PRODUCTS: Record<string, TPOProduct> = Object.fromEntries(
+  Object.values(MEMBRANE_BASE_PRODUCTS).flatMap((base) =>
+    MEMBRANE_ROLL_WIDTHS_FT.filter((w) => w !== 10).map((w) => {
+      const id = `${base.id}-${w}ft`;
+      const size = `${w}' x 100'`;
+      return [
+        id,
+        {
+          ...base,
+          id,
+          name: `${base.name} (${size})`,
+          unit: `Roll (${size})`,
+          coveragePerUnit: w * 100,
+          defaultPrice: Math.round((base.defaultPrice * w) / 10),
+          description: `${base.description}, ${w === HALF_SHEET_WIDTH_FT ? "half sheet" : `${w}'`} roll`,
+        },
+      ];
+    }),
+  ),
+);
+
+export const TPO_PRODUCTS: Record<string, TPOProduct> = {
+  // Membranes
+  ...MEMBRANE_BASE_PRODUCTS,
+  ...MEMBRANE_ROLL_PRODUCTS,
 
   // Flashing membrane
   "flash-membrane-24": {
@@ -423,6 +510,88 @@ export const TPO_PRODUCTS: Record<string, TPOProduct> = {
     description: "Carlisle InsulBase polyiso rigid roof insulation, 20 PSI",
   },
 
+  // Tapered Insulation (4' x 4' panels)
+  "tapered-q": {
+    id: "tapered-q",
+    name: 'Tapered Polyiso "Q" Panel (1/8" slope, 0.5"–1.0")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 16,
+    description: "Carlisle tapered InsulBase polyiso, 1/8\" per ft slope",
+  },
+  "tapered-r": {
+    id: "tapered-r",
+    name: 'Tapered Polyiso "R" Panel (1/8" slope, 1.0"–1.5")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 22,
+    description: "Carlisle tapered InsulBase polyiso, 1/8\" per ft slope",
+  },
+  "tapered-s": {
+    id: "tapered-s",
+    name: 'Tapered Polyiso "S" Panel (1/8" slope, 1.5"–2.0")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 28,
+    description: "Carlisle tapered InsulBase polyiso, 1/8\" per ft slope",
+  },
+  "tapered-t": {
+    id: "tapered-t",
+    name: 'Tapered Polyiso "T" Panel (1/8" slope, 2.0"–2.5")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 34,
+    description: "Carlisle tapered InsulBase polyiso, 1/8\" per ft slope",
+  },
+  "tapered-x": {
+    id: "tapered-x",
+    name: 'Tapered Polyiso "X" Panel (1/4" slope, 0.5"–1.5")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 22,
+    description: "Carlisle tapered InsulBase polyiso, 1/4\" per ft slope",
+  },
+  "tapered-y": {
+    id: "tapered-y",
+    name: 'Tapered Polyiso "Y" Panel (1/4" slope, 1.5"–2.5")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 34,
+    description: "Carlisle tapered InsulBase polyiso, 1/4\" per ft slope",
+  },
+  "tapered-z": {
+    id: "tapered-z",
+    name: 'Tapered Polyiso "Z" Panel (1/2" slope, 0.5"–2.5")',
+    category: "Tapered Insulation",
+    unit: "Panel (4' x 4')",
+    coveragePerUnit: 16,
+    coverageUnit: "sq ft",
+    defaultPrice: 30,
+    description: "Carlisle tapered InsulBase polyiso, 1/2\" per ft slope",
+  },
+  "tapered-fill-2.0": {
+    id: "tapered-fill-2.0",
+    name: '2.0" Flat Fill Polyiso (Tapered System)',
+    category: "Tapered Insulation",
+    unit: "Board (4' x 8')",
+    coveragePerUnit: 32,
+    coverageUnit: "sq ft",
+    defaultPrice: 52,
+    description: "Flat polyiso fill layered under repeating tapered panel series",
+  },
+
   // Cover Boards
   "cover-densdeck-half": {
     id: "cover-densdeck-half",
@@ -805,34 +974,159 @@ export const TPO_PRODUCTS: Record<string, TPOProduct> = {
 
 // ---- CALCULATION ENGINE ----
 
-// ---- FASTENER ZONE CONSTANTS (FM / UL wind uplift zones) ----
+// ---- WIND ZONE GEOMETRY (ASCE 7 components & cladding) ----
 // Field zone: interior of roof, lowest uplift
-// Perimeter zone: edges of roof, moderate uplift
-// Corner zone: corners of roof, highest uplift
-// Zone ratios approximate a typical rectangular commercial roof
-export const FIELD_ZONE_RATIO = 0.70;      // 70% of roof area
-export const PERIMETER_ZONE_RATIO = 0.22;  // 22% of roof area
-export const CORNER_ZONE_RATIO = 0.08;     // 8% of roof area
+// Perimeter zone: strips of width "a" along each edge, moderate uplift
+// Corner zone: a × a squares at each corner, highest uplift
+// "a" is 10% of the least horizontal dimension or 0.4h, whichever is smaller,
+// but not less than 4% of the least horizontal dimension or 3 ft
+export const ZONE_WIDTH_LEAST_DIMENSION_RATIO = 0.1;
+export const ZONE_WIDTH_HEIGHT_RATIO = 0.4;
+export const ZONE_WIDTH_MIN_LEAST_DIMENSION_RATIO = 0.04;
+export const ZONE_WIDTH_MIN_FT = 3;
+
+export interface WindZoneLayout {
+  roofLength: number;      // ft - longer plan dimension
+  roofWidth: number;       // ft - least horizontal dimension
+  zoneWidth: number;       // ft - ASCE 7 edge distance "a"
+  fieldRatio: number;      // share of roof area in the field zone
+  perimeterRatio: number;  // share of roof area in the perimeter zones
+  cornerRatio: number;     // share of roof area in the corner zones
+  fromDimensions: boolean; // false when length/width were not entered and a square footprint is assumed
+}
+
+/** ASCE 7 edge distance "a" for a roof with the given least horizontal dimension */
+export function getZoneWidth(leastDimension: number, meanRoofHeight?: number): number {
+  if (leastDimension <= 0) return 0;
+  let a = leastDimension * ZONE_WIDTH_LEAST_DIMENSION_RATIO;
+  if (meanRoofHeight && meanRoofHeight > 0) {
+    a = Math.min(a, meanRoofHeight * ZONE_WIDTH_HEIGHT_RATIO);
+  }
+  a = Math.max(a, leastDimension * ZONE_WIDTH_MIN_LEAST_DIMENSION_RATIO, ZONE_WIDTH_MIN_FT);
+  // Very small roofs: the edge strips from both sides cover the whole width
+  return Math.min(a, leastDimension / 2);
+}
+
+/**
+ * Split a rectangular roof into field, perimeter and corner zones. Ratios come
+ * from the plan geometry and are applied to the measured roof area by the
+ * calculators. Without length and width the roof is treated as a square of
+ * the same area; without a mean roof height only the 10% rule applies.
+ */
+export function calculateWindZones(measurements: TPOMeasurements): WindZoneLayout {
+  const { roofArea, roofLength = 0, roofWidth = 0, meanRoofHeight } = measurements;
+  const fromDimensions = roofLength > 0 && roofWidth > 0;
+  const side = Math.sqrt(Math.max(roofArea, 0));
+  const length = fromDimensions ? Math.max(roofLength, roofWidth) : side;
+  const width = fromDimensions ? Math.min(roofLength, roofWidth) : side;
+
+  if (width <= 0) {
+    return {
+      roofLength: 0,
+      roofWidth: 0,
+      zoneWidth: 0,
+      fieldRatio: 1,
+      perimeterRatio: 0,
+      cornerRatio: 0,
+      fromDimensions,
+    };
+  }
+
+  const a = getZoneWidth(width, meanRoofHeight);
+  const planArea = length * width;
+  const cornerArea = 4 * a * a;
+  const perimeterArea = 2 * a * (length - 2 * a) + 2 * a * (width - 2 * a);
+  const cornerRatio = cornerArea / planArea;
+  const perimeterRatio = perimeterArea / planArea;
+
+  return {
+    roofLength: length,
+    roofWidth: width,
+    zoneWidth: a,
+    fieldRatio: Math.max(1 - perimeterRatio - cornerRatio, 0),
+    perimeterRatio,
+    cornerRatio,
+    fromDimensions,
+  };
+}
 
 // Insulation fastener density (fasteners per 4'x8' board = 32 sq ft)
 // These are per-board counts that translate to per-sq-ft rates
-const INSULATION_FASTENERS_PER_BOARD_FIELD = 4;      // 4 per board in field (1 per 8 sq ft)
-const INSULATION_FASTENERS_PER_BOARD_PERIMETER = 8;  // 8 per board in perimeter (1 per 4 sq ft)
-const INSULATION_FASTENERS_PER_BOARD_CORNER = 12;    // 12 per board in corners (1 per 2.67 sq ft)
-const BOARD_AREA = 32; // sq ft per 4'x8' board
+export const INSULATION_FASTENERS_PER_BOARD_FIELD = 4;      // 4 per board in field (1 per 8 sq ft)
+export const INSULATION_FASTENERS_PER_BOARD_PERIMETER = 8;  // 8 per board in perimeter (1 per 4 sq ft)
+export const INSULATION_FASTENERS_PER_BOARD_CORNER = 12;    // 12 per board in corners (1 per 2.67 sq ft)
+export const BOARD_AREA = 32; // sq ft per 4'x8' board
 
 // Membrane fastener density (mechanically attached only)
 // Fasteners per linear foot of membrane seam row
-const MEMBRANE_FASTENERS_PER_LF_FIELD = 1;       // 12" o.c. in field
-const MEMBRANE_FASTENERS_PER_LF_PERIMETER = 1.5;  // 8" o.c. in perimeter
-const MEMBRANE_FASTENERS_PER_LF_CORNER = 2;       // 6" o.c. in corners
+export const MEMBRANE_FASTENERS_PER_LF_FIELD = 1;       // 12" o.c. in field
+export const MEMBRANE_FASTENERS_PER_LF_PERIMETER = 1.5;  // 8" o.c. in perimeter
+export const MEMBRANE_FASTENERS_PER_LF_CORNER = 2;       // 6" o.c. in corners
+
+// Standard zone fastening used when no site wind design is entered
+export const DEFAULT_ZONE_PATTERNS: Record<WindZone, FastenerPattern> = {
+  field: {
+    label: "Standard field",
+    insulationFastenersPerBoard: INSULATION_FASTENERS_PER_BOARD_FIELD,
+    membraneFastenerSpacingIn: 12 / MEMBRANE_FASTENERS_PER_LF_FIELD,
+    seamSpacingFt: 10,
+  },
+  perimeter: {
+    label: "Standard perimeter",
+    insulationFastenersPerBoard: INSULATION_FASTENERS_PER_BOARD_PERIMETER,
+    membraneFastenerSpacingIn: 12 / MEMBRANE_FASTENERS_PER_LF_PERIMETER,
+    seamSpacingFt: 10,
+  },
+  corner: {
+    label: "Standard corner",
+    insulationFastenersPerBoard: INSULATION_FASTENERS_PER_BOARD_CORNER,
+    membraneFastenerSpacingIn: 12 / MEMBRANE_FASTENERS_PER_LF_CORNER,
+    seamSpacingFt: 10,
+  },
+};
+
+// Carlisle Sure-Weld mechanically attached patterns (10' sheets, half sheets at high uplift).
+// Allowable design pressure is the FM rating divided by a 2.0 safety factor.
+export const CARLISLE_FASTENER_PATTERNS: WindFastenerRow[] = [
+  { label: "FM 1-60", maxDesignPressure: 30, insulationFastenersPerBoard: 4, membraneFastenerSpacingIn: 12, seamSpacingFt: 10 },
+  { label: "FM 1-90", maxDesignPressure: 45, insulationFastenersPerBoard: 6, membraneFastenerSpacingIn: 12, seamSpacingFt: 10 },
+  { label: "FM 1-120", maxDesignPressure: 60, insulationFastenersPerBoard: 8, membraneFastenerSpacingIn: 6, seamSpacingFt: 10 },
+  { label: "FM 1-150", maxDesignPressure: 75, insulationFastenersPerBoard: 12, membraneFastenerSpacingIn: 6, seamSpacingFt: 5 },
+  { label: "FM 1-180", maxDesignPressure: 90, insulationFastenersPerBoard: 16, membraneFastenerSpacingIn: 4, seamSpacingFt: 5 },
+];
+
+/** Site wind design inputs, or undefined when no wind speed has been entered */
+export function getWindDesignInputs(measurements: TPOMeasurements): WindDesignInputs | undefined {
+  if (!measurements.basicWindSpeed || measurements.basicWindSpeed <= 0) return undefined;
+  return {
+    basicWindSpeed: measurements.basicWindSpeed,
+    exposure: measurements.exposureCategory ?? "C",
+    meanRoofHeight: measurements.meanRoofHeight ?? 0,
+  };
+}
 
-// Membrane overlap: ~6" side lap = ~5% waste
+/** Carlisle fastener pattern for each wind zone */
+export function getCarlisleZoneFastening(measurements: TPOMeasurements): ZoneFasteningMap {
+  return resolveZoneFastening(getWindDesignInputs(measurements), CARLISLE_FASTENER_PATTERNS, DEFAULT_ZONE_PATTERNS);
+}
+
+/** "17/29/44 psf" design uplift summary for line item notes (empty without wind design) */
+export function formatZonePressures(zoneFastening: ZoneFasteningMap): string {
+  const { field, perimeter, corner } = zoneFastening;
+  if (field.designPressure === undefined) return "";
+  const psf = (p?: number) => (p ?? 0).toFixed(0);
+  return `${psf(field.designPressure)}/${psf(perimeter.designPressure)}/${psf(corner.designPressure)} psf uplift`;
+}
+
+// Bonding adhesive allowance over the roof area (membrane itself comes from the roll layout)
 const MEMBRANE_WASTE_FACTOR = 1.05;
 
 // Insulation/cover board waste: ~3% for cuts
 const BOARD_WASTE_FACTOR = 1.03;
 
+// Tapered panel waste: ~5% for cuts at drains, crickets and row ends
+const TAPERED_WASTE_FACTOR = 1.05;
+
 // Base flashing standard height
 const BASE_FLASHING_HEIGHT_INCHES = 18;
 
@@ -841,6 +1135,7 @@ const COVER_BOARD_THICKNESS: Record<string, number> = {
   "densdeck-prime-half": 0.5,
   "densdeck-prime-quarter": 0.25,
   "securshield-hd": 0.5,
+  "isogard-hd": 0.5,
   "perlite": 0.5,
   "none": 0,
 };
@@ -879,6 +1174,11 @@ function membraneScrewProductId(lengthKey: string): string {
   return `fastener-screws-membrane-${lengthKey}`;
 }
 
+/** Thickest point of the assembly's tapered system (0 when tapered is off) — screws must reach through it */
+function getAssemblyTaperedThickness(assembly: AssemblyConfig): number {
+  return assembly.insulationEnabled && assembly.tapered ? getTaperedMaxThickness(assembly.tapered) : 0;
+}
+
 /** Get the resolved fastener length (handles 'auto') */
 export function getResolvedFastenerLength(assembly: AssemblyConfig): string {
   if (assembly.fastenerLength === "auto") {
@@ -886,7 +1186,7 @@ export function getResolvedFastenerLength(assembly: AssemblyConfig): string {
       ? getInsulationSummary(assembly.insulationLayers)
       : { totalThickness: 0 };
     const cbThickness = COVER_BOARD_THICKNESS[assembly.coverBoard] ?? 0;
-    return autoSelectScrewLength(totalThickness, cbThickness);
+    return autoSelectScrewLength(totalThickness + getAssemblyTaperedThickness(assembly), cbThickness);
   }
   return assembly.fastenerLength;
 }
@@ -898,7 +1198,7 @@ export function getResolvedMembraneFastenerLength(assembly: AssemblyConfig): str
       ? getInsulationSummary(assembly.insulationLayers)
       : { totalThickness: 0 };
     const cbThickness = COVER_BOARD_THICKNESS[assembly.coverBoard] ?? 0;
-    return autoSelectMembraneScrewLength(totalThickness, cbThickness);
+    return autoSelectMembraneScrewLength(totalThickness + getAssemblyTaperedThickness(assembly), cbThickness);
   }
   return assembly.membraneFastenerLength;
 }
@@ -970,23 +1270,53 @@ export function calculateTPOEstimate(
     }
   }
 
+  // ---- 2b. TAPERED INSULATION (over the flat layers) ----
+  const taperedDesign = assembly.insulationEnabled && assembly.tapered?.enabled
+    ? designTaperedInsulation(assembly.tapered, roofArea, measurements.roofLength)
+    : undefined;
+  if (taperedDesign) {
+    const slopeLabel = TAPERED_SLOPES.find((t) => t.value === taperedDesign.config.slope)?.label ?? "";
+    for (const { letter, panels, cricketPanels } of taperedDesign.panelCounts) {
+      const parts = [];
+      if (panels > 0) parts.push(`${Math.ceil(panels)} field panels`);
+      if (cricketPanels > 0) parts.push(`${Math.ceil(cricketPanels)} cricket panels`);
+      addItem(
+        taperedPanelProductId(letter),
+        (panels + cricketPanels) * TAPERED_WASTE_FACTOR,
+        `${parts.join(" + ")}; ${slopeLabel} series ${getTaperedSeriesLabel(taperedDesign)} over ${taperedDesign.rows} rows`
+      );
+    }
+    if (taperedDesign.fillBoards > 0) {
+      addItem(
+        TAPERED_FILL_PRODUCT_ID,
+        taperedDesign.fillBoards * BOARD_WASTE_FACTOR,
+        `Up to ${taperedDesign.maxFillLayers} fill layer${taperedDesign.maxFillLayers === 1 ? "" : "s"} under repeating panel series`
+      );
+    }
+  }
+  // Thickest point of the insulation stack, which sets fastener length
+  const maxInsThickness = totalInsThickness + (taperedDesign?.maxThickness ?? 0);
+
   // ---- 3. INSULATION ATTACHMENT (Fasteners & Plates) ----
+  const windZones = calculateWindZones(measurements);
+  const zoneFastening = getCarlisleZoneFastening(measurements);
+  const upliftNote = formatZonePressures(zoneFastening);
   const coverBoardThickness = COVER_BOARD_THICKNESS[assembly.coverBoard] ?? 0;
 
-  if (totalInsThickness > 0) {
+  if (maxInsThickness > 0) {
     if (assembly.attachmentMethod === "mechanically-attached") {
       // Zone-based fastener calculation for insulation
-      const fieldArea = roofArea * FIELD_ZONE_RATIO;
-      const perimeterArea = roofArea * PERIMETER_ZONE_RATIO;
-      const cornerArea = roofArea * CORNER_ZONE_RATIO;
+      const fieldArea = roofArea * windZones.fieldRatio;
+      const perimeterArea = roofArea * windZones.perimeterRatio;
+      const cornerArea = roofArea * windZones.cornerRatio;
 
       const fieldBoards = fieldArea / BOARD_AREA;
       const perimeterBoards = perimeterArea / BOARD_AREA;
       const cornerBoards = cornerArea / BOARD_AREA;
 
-      const fieldFasteners = Math.ceil(fieldBoards * INSULATION_FASTENERS_PER_BOARD_FIELD);
-      const perimeterFasteners = Math.ceil(perimeterBoards * INSULATION_FASTENERS_PER_BOARD_PERIMETER);
-      const cornerFasteners = Math.ceil(cornerBoards * INSULATION_FASTENERS_PER_BOARD_CORNER);
+      const fieldFasteners = Math.ceil(fieldBoards * zoneFastening.field.pattern.insulationFastenersPerBoard);
+      const perimeterFasteners = Math.ceil(perimeterBoards * zoneFastening.perimeter.pattern.insulationFastenersPerBoard);
+      const cornerFasteners = Math.ceil(cornerBoards * zoneFastening.corner.pattern.insulationFastenersPerBoard);
       const totalInsFasteners = fieldFasteners + perimeterFasteners + cornerFasteners;
 
       // Select screw length based on assembly config or auto-select
@@ -998,7 +1328,7 @@ export function calculateTPOEstimate(
       addItem(
         screwId,
         screwBoxes,
-        `${totalInsFasteners.toLocaleString()} ${screwTypeName} for ${totalInsThickness.toFixed(1)}" insulation + ${coverBoardThickness}" cover board (Field: ${fieldFasteners.toLocaleString()} / Perim: ${perimeterFasteners.toLocaleString()} / Corner: ${cornerFasteners.toLocaleString()})`
+        `${totalInsFasteners.toLocaleString()} ${screwTypeName} for ${taperedDesign ? "up to " : ""}${maxInsThickness.toFixed(1)}" insulation + ${coverBoardThickness}" cover board (Field: ${fieldFasteners.toLocaleString()} / Perim: ${perimeterFasteners.toLocaleString()} / Corner: ${cornerFasteners.toLocaleString()})${upliftNote ? ` at ${upliftNote}` : ""}`
       );
 
       // Insulation stress plates (1:1 with screws)
@@ -1020,8 +1350,8 @@ export function calculateTPOEstimate(
         );
       }
     } else {
-      // Fully adhered: insulation adhesive (one application per layer)
-      const numLayers = activeLayers.length;
+      // Fully adhered: insulation adhesive (one application per layer, tapered panels count as one)
+      const numLayers = activeLayers.length + (taperedDesign ? 1 : 0);
       const rawQty = (roofArea * BOARD_WASTE_FACTOR * numLayers) / TPO_PRODUCTS["adhesive-insulation"].coveragePerUnit;
       addItem("adhesive-insulation", rawQty, `Adhering ${numLayers} insulation layer${numLayers > 1 ? "s" : ""} over ${roofArea.toLocaleString()} sq ft`);
     }
@@ -1044,11 +1374,29 @@ export function calculateTPOEstimate(
   }
 
   // ---- 5. MEMBRANE ----
-  const memId = `membrane-${assembly.membraneThickness}`;
-  if (TPO_PRODUCTS[memId]) {
-    const memProduct = TPO_PRODUCTS[memId];
-    const rawQty = (roofArea * MEMBRANE_WASTE_FACTOR) / memProduct.coveragePerUnit;
-    addItem(memId, rawQty, `Includes 5% for side-lap overlap waste`);
+  // Sheets run the roof length; mechanically attached roofs get half sheets in the perimeter zones,
+  // and the field sheet can't be wider than the field pattern's seam spacing
+  const isMechanicallyAttached = assembly.attachmentMethod !== "fully-adhered";
+  const rollLayout =
+    layoutMembraneRolls({
+      length: windZones.roofLength,
+      width: windZones.roofWidth,
+      zoneWidth: windZones.zoneWidth,
+      halfSheetPerimeter: isMechanicallyAttached,
+      maxFieldWidthFt: isMechanicallyAttached ? zoneFastening.field.pattern.seamSpacingFt : undefined,
+    }) ?? undefined;
+  if (rollLayout) {
+    const layoutNote = `${rollLayout.seamLF.toLocaleString()} LF of seams, ${rollLayout.dropPct}% drop`;
+    for (const { rollWidthFt, rolls } of rollLayout.rolls) {
+      const memId = membraneProductId(assembly.membraneThickness, rollWidthFt);
+      if (!TPO_PRODUCTS[memId]) continue;
+      const sheets: string[] = [];
+      if (rollWidthFt === HALF_SHEET_WIDTH_FT && rollLayout.halfSheets > 0) {
+        sheets.push(`${rollLayout.halfSheets} half sheets${rollLayout.fieldSheets > 0 ? " in perimeter zones" : ""}`);
+      }
+      if (rollWidthFt === rollLayout.fieldRollWidthFt) sheets.push(`${rollLayout.fieldSheets} field sheets`);
+      addItem(memId, rolls, `${sheets.join(" + ")} × ${Math.round(rollLayout.length)}' runs; ${layoutNote}`);
+    }
   }
 
   // ---- 6. MEMBRANE ATTACHMENT ----
@@ -1057,20 +1405,16 @@ export function calculateTPOEstimate(
     const rawQty = (roofArea * MEMBRANE_WASTE_FACTOR) / TPO_PRODUCTS["adhesive-bonding"].coveragePerUnit;
     addItem("adhesive-bonding", rawQty, `Adhering membrane over ${roofArea.toLocaleString()} sq ft`);
   } else {
-    // Mechanically attached: membrane screws + barbed plates in seam rows
-    // Membrane width = 10', so seam rows run every 10' across the roof
-    const roofWidth = Math.sqrt(roofArea);
-    const roofLength = roofArea / roofWidth;
-    const seamRows = Math.ceil(roofWidth / 10);
-
-    // Zone-based seam fastener density
-    const fieldSeamLF = roofLength * seamRows * FIELD_ZONE_RATIO;
-    const perimeterSeamLF = roofLength * seamRows * PERIMETER_ZONE_RATIO;
-    const cornerSeamLF = roofLength * seamRows * CORNER_ZONE_RATIO;
-
-    const fieldMemFasteners = Math.ceil(fieldSeamLF * MEMBRANE_FASTENERS_PER_LF_FIELD);
-    const perimMemFasteners = Math.ceil(perimeterSeamLF * MEMBRANE_FASTENERS_PER_LF_PERIMETER);
-    const cornerMemFasteners = Math.ceil(cornerSeamLF * MEMBRANE_FASTENERS_PER_LF_CORNER);
+    // Mechanically attached: membrane screws + barbed plates in the side seams of the roll layout,
+    // at each zone's fastener density
+    const seams = rollLayout?.sideSeamLFByZone ?? { field: 0, perimeter: 0, corner: 0 };
+    const fieldSeamLF = seams.field;
+    const perimeterSeamLF = seams.perimeter;
+    const cornerSeamLF = seams.corner;
+
+    const fieldMemFasteners = Math.ceil(fieldSeamLF * getMembraneFastenersPerLF(zoneFastening.field.pattern));
+    const perimMemFasteners = Math.ceil(perimeterSeamLF * getMembraneFastenersPerLF(zoneFastening.perimeter.pattern));
+    const cornerMemFasteners = Math.ceil(cornerSeamLF * getMembraneFastenersPerLF(zoneFastening.corner.pattern));
     const totalMemFasteners = fieldMemFasteners + perimMemFasteners + cornerMemFasteners;
 
     // Membrane screws - use assembly selection or auto
@@ -1082,7 +1426,7 @@ export function calculateTPOEstimate(
     addItem(
       memScrewProduct.id,
       memScrewBoxes,
-      `${totalMemFasteners.toLocaleString()} membrane screws in ${seamRows} seam rows (Field: ${fieldMemFasteners.toLocaleString()} / Perim: ${perimMemFasteners.toLocaleString()} / Corner: ${cornerMemFasteners.toLocaleString()})`
+      `${totalMemFasteners.toLocaleString()} membrane screws in ${(rollLayout?.sideSeamLF ?? 0).toLocaleString()} LF of side seams (Field: ${fieldMemFasteners.toLocaleString()} / Perim: ${perimMemFasteners.toLocaleString()} / Corner: ${cornerMemFasteners.toLocaleString()})${upliftNote ? ` at ${upliftNote}` : ""}`
     );
 
     // Membrane plates - use assembly selection
@@ -1127,11 +1471,17 @@ export function calculateTPOEstimate(
   }
 
   // ---- 9. ACCESSORIES ----
-  // Coverstrip for all flashing laps
+  // Coverstrip for all flashing laps and the membrane end laps
   const totalFlashingLF = baseFlashingLF + wallLinearFt;
-  if (totalFlashingLF > 0) {
-    const csQty = totalFlashingLF / TPO_PRODUCTS["acc-coverstrip"].coveragePerUnit;
-    addItem("acc-coverstrip", csQty, `Detail work for ${totalFlashingLF.toLocaleString()} lin ft of flashing`);
+  const endSeamLF = rollLayout?.endSeamLF ?? 0;
+  if (totalFlashingLF + endSeamLF > 0) {
+    const csQty = (totalFlashingLF + endSeamLF) / TPO_PRODUCTS["acc-coverstrip"].coveragePerUnit;
+    addItem(
+      "acc-coverstrip",
+      csQty,
+      `Detail work for ${totalFlashingLF.toLocaleString()} lin ft of flashing` +
+        (endSeamLF > 0 ? ` + ${endSeamLF.toLocaleString()} lin ft of membrane end laps` : "")
+    );
   }
 
   // Corners: estimate 4 outside + 4 inside per typical building
@@ -1150,11 +1500,108 @@ export function calculateTPOEstimate(
     totalMaterialCost,
     wallSqFt,
     baseFlashingSqFt,
+    rollLayout,
   };
 }
 
 // ---- CSV EXPORT ----
 
+// ---- MULTI-SECTION PROJECTS ----
+
+export type TPOEstimateCalculator = (
+  assembly: AssemblyConfig,
+  measurements: TPOMeasurements,
+  customPrices: Record<string, number>
+) => TPOEstimate;
+
+/**
+ * Run the calculator for every roof section and consolidate the results into
+ * one order list. Line items are merged by product so fractional quantities
+ * from different sections share the same rounded-up units; each merged line
+ * keeps the per-section quantities it came from. Measurements on the result
+ * are project totals, and `assembly` is the first section's, so `sections`
+ * must not be empty.
+ */
+export function calculateSectionedEstimate(
+  sections: RoofSection[],
+  customPrices: Record<string, number>,
+  calculate: TPOEstimateCalculator = calculateTPOEstimate
+): TPOEstimate {
+  const sectionEstimates: RoofSectionEstimate[] = sections.map((section) => ({
+    section,
+    estimate: calculate(section.assembly, section.measurements, customPrices),
+  }));
+
+  const merged = new Map<string, TPOLineItem>();
+  const notes = new Map<string, string[]>();
+  for (const { section, estimate } of sectionEstimates) {
+    for (const item of estimate.lineItems) {
+      const contribution: TPOLineItemSection = {
+        sectionId: section.id,
+        sectionName: section.name,
+        quantityNeeded: item.quantityNeeded,
+      };
+      const existing = merged.get(item.product.id);
+      if (existing) {
+        existing.quantityNeeded += item.quantityNeeded;
+        existing.sections!.push(contribution);
+        notes.get(item.product.id)!.push(`${section.name}: ${item.note}`);
+      } else {
+        merged.set(item.product.id, { ...item, sections: [contribution] });
+        notes.set(item.product.id, [`${section.name}: ${item.note}`]);
+      }
+    }
+  }
+
+  const lineItems = Array.from(merged.values()).map((item) => {
+    const unitsToOrder = Math.max(Math.ceil(item.quantityNeeded), 0);
+    return {
+      ...item,
+      unitsToOrder,
+      totalCost: unitsToOrder * item.unitPrice,
+      note: sections.length > 1 ? notes.get(item.product.id)!.join("; ") : item.note,
+    };
+  });
+
+  const sum = (pick: (e: TPOEstimate) => number) =>
+    sectionEstimates.reduce((total, { estimate }) => total + pick(estimate), 0);
+  const totalWallLF = sum((e) => e.measurements.wallLinearFt);
+  const wallSqFt = sum((e) => e.wallSqFt);
+
+  return {
+    assembly: sections[0].assembly,
+    measurements: {
+      roofArea: sum((e) => e.measurements.roofArea),
+      wallLinearFt: totalWallLF,
+      // Area-weighted so wallLinearFt × wallHeight still equals total wall sq ft
+      wallHeight: totalWallLF > 0 ? wallSqFt / totalWallLF : 0,
+      baseFlashingLF: sum((e) => e.measurements.baseFlashingLF),
+    },
+    lineItems,
+    totalMaterialCost: lineItems.reduce((total, item) => total + item.totalCost, 0),
+    wallSqFt,
+    baseFlashingSqFt: sum((e) => e.baseFlashingSqFt),
+    sections: sectionEstimates,
+  };
+}
+
+/** CSV header line listing each roof section (empty for single-section estimates) */
+export function getSectionSummaryLines(estimate: TPOEstimate): string[] {
+  if (!estimate.sections || estimate.sections.length <= 1) return [];
+  const parts = estimate.sections.map(
+    ({ section }) => `${section.name} (${section.measurements.roofArea.toLocaleString()} sq ft)`
+  );
+  return [`Roof Sections: ${parts.join("; ")}`];
+}
+
+/** Membrane seam LF across the estimate's roll layouts (0 for systems without one) */
+export function getSeamLF(estimate: TPOEstimate): number {
+  if (estimate.sections) {
+    return estimate.sections.reduce((total, { estimate: section }) => total + (section.rollLayout?.seamLF ?? 0), 0);
+  }
+  return estimate.rollLayout?.seamLF ?? 0;
+}
+
 export function exportTPOEstimateCSV(estimate: TPOEstimate): string {
   const headers = [
     "Category",
@@ -1198,6 +1645,7 @@ export function exportTPOEstimateCSV(estimate: TPOEstimate): string {
   const csvContent = [
     `Carlisle TPO Estimate - ${new Date().toLocaleDateString()}`,
     `Roof Area: ${estimate.measurements.roofArea.toLocaleString()} sq ft`,
+    ...getSectionSummaryLines(estimate),
     `Insulation: ${insDesc} (Total: ${insSummary.totalThickness.toFixed(1)}" / R-${insSummary.totalRValue.toFixed(1)})`,
     `Wall: ${estimate.measurements.wallLinearFt} LF x ${estimate.measurements.wallHeight} ft = ${estimate.wallSqFt.toLocaleString()} sq ft`,
     `Base Flashing: ${estimate.measurements.baseFlashingLF} LF at 18" height = ${estimate.baseFlashingSqFt.toFixed(0)} sq ft`,
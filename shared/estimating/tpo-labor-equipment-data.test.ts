@@ -36,7 +36,7 @@ describe("TPO Labor & Equipment Data", () => {
     });
 
     it("should have valid rate types", () => {
-      const validTypes = ["per_sqft", "per_hour", "per_lf", "flat"];
+      const validTypes = ["per_sqft", "per_hour", "per_lf", "per_detail_hour", "per_seam_lf", "flat"];
       for (const item of DEFAULT_TPO_LABOR_ITEMS) {
         expect(validTypes).toContain(item.rateType);
       }
@@ -72,6 +72,8 @@ describe("TPO Labor & Equipment Data", () => {
           "tpo-labor-foreman": { enabled: false },
           "tpo-labor-tearoff": { enabled: false },
           "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { enabled: false },
           "tpo-labor-cleanup": { enabled: false },
         },
         equipmentOverrides: {
@@ -100,6 +102,8 @@ describe("TPO Labor & Equipment Data", () => {
           "tpo-labor-foreman": { rate: 75, quantity: 24, enabled: true },
           "tpo-labor-tearoff": { enabled: false },
           "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { enabled: false },
           "tpo-labor-cleanup": { enabled: false },
         },
         equipmentOverrides: {
@@ -125,6 +129,8 @@ describe("TPO Labor & Equipment Data", () => {
           "tpo-labor-foreman": { enabled: false },
           "tpo-labor-tearoff": { enabled: false },
           "tpo-labor-flashing": { rate: 12, enabled: true },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { enabled: false },
           "tpo-labor-cleanup": { enabled: false },
         },
         equipmentOverrides: {
@@ -142,6 +148,48 @@ describe("TPO Labor & Equipment Data", () => {
       expect(result.laborTotal).toBe(6000); // 500 * 12
     });
 
+    it("should price per_detail_hour labor from the roof additions install time", () => {
+      const state = makeState({
+        laborOverrides: {
+          "tpo-labor-membrane": { enabled: false },
+          "tpo-labor-insulation": { enabled: false },
+          "tpo-labor-foreman": { enabled: false },
+          "tpo-labor-tearoff": { enabled: false },
+          "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { rate: 60, quantity: 99, enabled: true },
+          "tpo-labor-seam-probe": { enabled: false },
+          "tpo-labor-cleanup": { enabled: false },
+        },
+      });
+
+      const result = calculateTPOLaborEquipmentTotals(state, 10000, 500, 150);
+      expect(result.laborTotal).toBe(150); // 2.5 hrs * 60, quantity ignored
+      expect(result.laborBreakdown).toEqual([
+        { label: "Penetration & Flashing Detail Labor", cost: 150, detail: "2.5 detail hrs × $60.00/hr" },
+      ]);
+      expect(calculateTPOLaborEquipmentTotals(state, 10000, 500).laborTotal).toBe(0);
+    });
+
+    it("should price per_seam_lf labor from the membrane roll layout", () => {
+      const state = makeState({
+        laborOverrides: {
+          "tpo-labor-membrane": { enabled: false },
+          "tpo-labor-insulation": { enabled: false },
+          "tpo-labor-foreman": { enabled: false },
+          "tpo-labor-tearoff": { enabled: false },
+          "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { rate: 0.2, quantity: 99, enabled: true },
+          "tpo-labor-cleanup": { enabled: false },
+        },
+      });
+
+      const result = calculateTPOLaborEquipmentTotals(state, 10000, 500, 150, 1300);
+      expect(result.laborTotal).toBeCloseTo(260); // 1300 LF * 0.20, quantity ignored
+      expect(result.laborBreakdown[0].detail).toBe("1,300 seam LF × $0.20/LF");
+      expect(calculateTPOLaborEquipmentTotals(state, 10000, 500, 150).laborTotal).toBe(0);
+    });
+
     it("should calculate per_day equipment correctly", () => {
       const state = makeState({
         laborOverrides: {
@@ -150,6 +198,8 @@ describe("TPO Labor & Equipment Data", () => {
           "tpo-labor-foreman": { enabled: false },
           "tpo-labor-tearoff": { enabled: false },
           "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { enabled: false },
           "tpo-labor-cleanup": { enabled: false },
         },
         equipmentOverrides: {
@@ -176,6 +226,8 @@ describe("TPO Labor & Equipment Data", () => {
           "tpo-labor-foreman": { enabled: false },
           "tpo-labor-tearoff": { enabled: false },
           "tpo-labor-flashing": { enabled: false },
+          "tpo-labor-detail": { enabled: false },
+          "tpo-labor-seam-probe": { enabled: false },
           "tpo-labor-cleanup": { rate: 1500, enabled: true },
         },
         equipmentOverrides: {
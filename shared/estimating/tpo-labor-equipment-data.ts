@@ -6,13 +6,19 @@
  * Shared between Carlisle TPO and GAF TPO estimators.
  */
 
+import { toDetailHours } from "./labor-equipment-data";
+
 export interface TPOLaborLineItem {
   id: string;
   label: string;
   description: string;
-  rateType: "per_sqft" | "per_hour" | "per_lf" | "flat";
+  /**
+   * per_detail_hour: hours come from the penetration and sheet metal install time
+   * per_seam_lf: footage comes from the membrane roll layout's seams
+   */
+  rateType: "per_sqft" | "per_hour" | "per_lf" | "per_detail_hour" | "per_seam_lf" | "flat";
   defaultRate: number;
-  defaultQuantity: number; // hours, 1 for flat/per_sqft/per_lf
+  defaultQuantity: number; // hours, 1 for flat/per_sqft/per_lf/per_detail_hour/per_seam_lf
   enabled: boolean;
 }
 
@@ -66,12 +72,30 @@ export const DEFAULT_TPO_LABOR_ITEMS: TPOLaborLineItem[] = [
   {
     id: "tpo-labor-flashing",
     label: "Flashing & Detail Work",
-    description: "Base flashing, wall flashing, and penetration detailing (per LF)",
+    description: "Base flashing and wall flashing (per LF)",
     rateType: "per_lf",
     defaultRate: 12.00,
     defaultQuantity: 1,
     enabled: true,
   },
+  {
+    id: "tpo-labor-detail",
+    label: "Penetration & Flashing Detail Labor",
+    description: "Install time for the penetrations and sheet metal flashing in Roof Additions (per hr)",
+    rateType: "per_detail_hour",
+    defaultRate: 65.00,
+    defaultQuantity: 1,
+    enabled: true,
+  },
+  {
+    id: "tpo-labor-seam-probe",
+    label: "Seam Probing & QC",
+    description: "Probing every welded side and end lap in the membrane roll layout (per seam LF)",
+    rateType: "per_seam_lf",
+    defaultRate: 0.15,
+    defaultQuantity: 1,
+    enabled: true,
+  },
   {
     id: "tpo-labor-cleanup",
     label: "Cleanup & Disposal",
@@ -167,12 +191,17 @@ export interface TPOLaborEquipmentTotals {
  * @param state - Current labor/equipment configuration
  * @param roofArea - Total roof area in sq. ft.
  * @param flashingLF - Total flashing linear footage (for per_lf items)
+ * @param detailLaborMinutes - Penetration and sheet metal install time (for per_detail_hour items)
+ * @param seamLF - Membrane seam linear footage from the roll layout (for per_seam_lf items)
  */
 export function calculateTPOLaborEquipmentTotals(
   state: TPOLaborEquipmentState,
   roofArea: number,
   flashingLF: number = 0,
+  detailLaborMinutes: number = 0,
+  seamLF: number = 0,
 ): TPOLaborEquipmentTotals {
+  const detailHours = toDetailHours(detailLaborMinutes);
   const laborBreakdown = state.laborItems
     .filter((item) => item.enabled)
     .map((item) => {
@@ -187,6 +216,12 @@ export function calculateTPOLaborEquipmentTotals(
       } else if (item.rateType === "per_lf") {
         cost = item.rate * flashingLF;
         detail = `${flashingLF.toLocaleString()} LF × $${item.rate.toFixed(2)}/LF`;
+      } else if (item.rateType === "per_detail_hour") {
+        cost = item.rate * detailHours;
+        detail = `${detailHours} detail hrs × $${item.rate.toFixed(2)}/hr`;
+      } else if (item.rateType === "per_seam_lf") {
+        cost = item.rate * seamLF;
+        detail = `${seamLF.toLocaleString()} seam LF × $${item.rate.toFixed(2)}/LF`;
       } else {
         cost = item.rate * item.quantity;
         detail = `Flat rate`;
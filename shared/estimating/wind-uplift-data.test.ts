@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  getKz,
+  getVelocityPressure,
+  calculateZonePressures,
+  selectFastenerPattern,
+  resolveZoneFastening,
+  type WindDesignInputs,
+} from "./wind-uplift-data";
+import {
+  CARLISLE_FASTENER_PATTERNS,
+  DEFAULT_ZONE_PATTERNS,
+  calculateTPOEstimate,
+  getCarlisleZoneFastening,
+  type AssemblyConfig,
+  type TPOMeasurements,
+} from "./tpo-data";
+import { GAF_FASTENER_PATTERNS, calculateGAFTPOEstimate, getGAFZoneFastening } from "./gaf-tpo-data";
+
+const site: WindDesignInputs = { basicWindSpeed: 115, exposure: "C", meanRoofHeight: 15 };
+
+const assembly: AssemblyConfig = {
+  deckType: "steel-22ga",
+  vaporBarrier: "none",
+  insulationEnabled: true,
+  insulationLayers: [
+    { thickness: "2.0", enabled: true },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+    { thickness: "none", enabled: false },
+  ],
+  coverBoard: "none",
+  membraneThickness: "60mil",
+  attachmentMethod: "mechanically-attached",
+  fastenerType: "sfs-dekfast",
+  fastenerLength: "auto",
+  membraneFastenerLength: "auto",
+  plateType: "3in-round",
+  membranePlateType: "barbed",
+};
+
+const measurements: TPOMeasurements = {
+  roofArea: 40000,
+  wallLinearFt: 0,
+  wallHeight: 0,
+  baseFlashingLF: 0,
+  roofLength: 400,
+  roofWidth: 100,
+  meanRoofHeight: 15,
+};
+
+function fastenerCount(estimate: ReturnType<typeof calculateTPOEstimate>, prefix: string) {
+  return estimate.lineItems
+    .filter((i) => i.product.id.startsWith(prefix))
+    .reduce((s, i) => s + i.quantityNeeded * i.product.coveragePerUnit, 0);
+}
+
+describe("Wind uplift pressures", () => {
+  it("matches the ASCE 7 Kz table at 15 ft", () => {
+    expect(getKz("B", 15)).toBeCloseTo(0.57, 2);
+    expect(getKz("C", 15)).toBeCloseTo(0.85, 2);
+    expect(getKz("D", 15)).toBeCloseTo(1.03, 2);
+  });
+
+  it("uses the 15 ft minimum height", () => {
+    expect(getKz("C", 8)).toBe(getKz("C", 15));
+  });
+
+  it("computes velocity pressure from wind speed squared", () => {
+    // 0.00256 × 0.849 × 0.85 × 115²
+    expect(getVelocityPressure(site)).toBeCloseTo(24.4, 1);
+    expect(getVelocityPressure({ ...site, basicWindSpeed: 230 })).toBeCloseTo(getVelocityPressure(site) * 4, 6);
+  });
+
+  it("increases uplift from field to perimeter to corner", () => {
+    const p = calculateZonePressures(site);
+    expect(p.field).toBeCloseTo(24.43 * 1.18 * 0.6, 1);
+    expect(p.perimeter).toBeGreaterThan(p.field);
+    expect(p.corner).toBeGreaterThan(p.perimeter);
+  });
+});
+
+describe("Fastener pattern selection", () => {
+  it("picks the lightest pattern rated for the pressure", () => {
+    expect(selectFastenerPattern(CARLISLE_FASTENER_PATTERNS, 20).pattern.label).toBe("FM 1-60");
+    expect(selectFastenerPattern(CARLISLE_FASTENER_PATTERNS, 30).pattern.label).toBe("FM 1-60");
+    expect(selectFastenerPattern(CARLISLE_FASTENER_PATTERNS, 31).pattern.label).toBe("FM 1-90");
+  });
+
+  it("flags pressures beyond the strongest pattern", () => {
+    const result = selectFastenerPattern(CARLISLE_FASTENER_PATTERNS, 120);
+    expect(result.exceedsTable).toBe(true);
+    expect(result.pattern.label).toBe("FM 1-180");
+  });
+
+  it("falls back to standard zone patterns without wind design", () => {
+    const zones = resolveZoneFastening(undefined, CARLISLE_FASTENER_PATTERNS, DEFAULT_ZONE_PATTERNS);
+    expect(zones.field.pattern).toBe(DEFAULT_ZONE_PATTERNS.field);
+    expect(zones.corner.designPressure).toBeUndefined();
+  });
+
+  it("uses each manufacturer's own table", () => {
+    const windy = { ...measurements, basicWindSpeed: 170, exposureCategory: "D" as const };
+    const carlisle = getCarlisleZoneFastening(windy);
+    const gaf = getGAFZoneFastening(windy);
+    expect(carlisle.corner.designPressure).toBeCloseTo(gaf.corner.designPressure!, 6);
+    expect(CARLISLE_FASTENER_PATTERNS).toContain(carlisle.corner.pattern);
+    expect(GAF_FASTENER_PATTERNS).toContain(gaf.corner.pattern);
+  });
+});
+
+describe("Wind design in the TPO calculators", () => {
+  it("leaves quantities unchanged when no wind speed is entered", () => {
+    const estimate = calculateTPOEstimate(assembly, measurements, {});
+    expect(fastenerCount(estimate, "fastener-plates-3in")).toBeGreaterThan(0);
+    expect(estimate.lineItems.every((i) => !i.note.includes("psf uplift"))).toBe(true);
+  });
+
+  it("adds insulation and membrane fasteners as wind speed rises", () => {
+    const calm = calculateTPOEstimate(assembly, { ...measurements, basicWindSpeed: 105 }, {});
+    const coastal = calculateTPOEstimate(
+      assembly,
+      { ...measurements, basicWindSpeed: 170, exposureCategory: "D" },
+      {}
+    );
+    expect(fastenerCount(coastal, "fastener-plates-3in")).toBeGreaterThan(fastenerCount(calm, "fastener-plates-3in"));
+    expect(fastenerCount(coastal, "fastener-screws-membrane-")).toBeGreaterThan(
+      fastenerCount(calm, "fastener-screws-membrane-")
+    );
+    expect(coastal.lineItems.some((i) => i.note.includes("psf uplift"))).toBe(true);
+  });
+
+  it("adds seam rows where the pattern calls for half sheets", () => {
+    // Corner pressure lands in a 5' sheet pattern, doubling corner seam footage
+    const windy = { ...measurements, basicWindSpeed: 180, exposureCategory: "D" as const };
+    expect(getCarlisleZoneFastening(windy).corner.pattern.seamSpacingFt).toBe(5);
+    const estimate = calculateTPOEstimate(assembly, windy, {});
+    expect(estimate.lineItems.find((i) => i.product.id.startsWith("fastener-screws-membrane-"))!.note).toContain(
+      "psf uplift"
+    );
+  });
+
+  it("drives the GAF calculator from the GAF table", () => {
+    const windy = { ...measurements, basicWindSpeed: 150 };
+    const base = calculateGAFTPOEstimate(assembly, measurements, {});
+    const designed = calculateGAFTPOEstimate(assembly, windy, {});
+    expect(designed.totalMaterialCost).toBeGreaterThan(base.totalMaterialCost);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Wind Uplift — Design wind pressures and zone fastener patterns for
+ * mechanically attached single-ply roofs.
+ *
+ * Pressures follow ASCE 7-10 components & cladding for low-slope roofs:
+ *   qh = 0.00256 × Kz × Kzt × Kd × V²
+ *   p  = qh × (GCp − GCpi), reported as allowable (ASD = 0.6 × ultimate)
+ *
+ * Zones match the ASCE 7-10 layout used by calculateWindZones() in tpo-data:
+ *   - Field (Zone 1)      GCp −1.0
+ *   - Perimeter (Zone 2)  GCp −1.8
+ *   - Corner (Zone 3)     GCp −2.8
+ *
+ * Each manufacturer publishes a table of tested fastener patterns (FM 1-60,
+ * 1-90, …). The design pressure of each zone picks the lightest pattern whose
+ * allowable pressure covers it; the pattern sets insulation fasteners per
+ * board, membrane fastener spacing and sheet (seam row) spacing.
+ */
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+export type ExposureCategory = "B" | "C" | "D";
+
+export type WindZone = "field" | "perimeter" | "corner";
+
+export const WIND_ZONES: WindZone[] = ["field", "perimeter", "corner"];
+
+export interface WindDesignInputs {
+  basicWindSpeed: number;   // mph, ultimate (ASCE 7-10 risk category map)
+  exposure: ExposureCategory;
+  meanRoofHeight: number;   // ft
+}
+
+export interface FastenerPattern {
+  label: string;                       // e.g. "FM 1-90"
+  insulationFastenersPerBoard: number; // per 4'x8' board
+  membraneFastenerSpacingIn: number;   // on center along each seam
+  seamSpacingFt: number;               // distance between fastened seam rows (sheet width)
+}
+
+export interface WindFastenerRow extends FastenerPattern {
+  maxDesignPressure: number; // psf (ASD) the pattern is rated for
+}
+
+export interface ZoneFastening {
+  designPressure?: number; // psf (ASD); undefined when no wind design was entered
+  pattern: FastenerPattern;
+  exceedsTable: boolean;   // design pressure is above the strongest tested pattern
+}
+
+export type ZoneFasteningMap = Record<WindZone, ZoneFastening>;
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+export const EXPOSURE_CATEGORIES: { value: ExposureCategory; label: string; description: string }[] = [
+  { value: "B", label: "Exposure B", description: "Urban, suburban and wooded areas" },
+  { value: "C", label: "Exposure C", description: "Open terrain with scattered obstructions" },
+  { value: "D", label: "Exposure D", description: "Flat, unobstructed areas and shorelines" },
+];
+
+// Terrain exposure constants (ASCE 7-10 Table 26.9-1)
+const EXPOSURE_CONSTANTS: Record<ExposureCategory, { alpha: number; zg: number }> = {
+  B: { alpha: 7, zg: 1200 },
+  C: { alpha: 9.5, zg: 900 },
+  D: { alpha: 11.5, zg: 700 },
+};
+
+const MIN_KZ_HEIGHT_FT = 15;
+const KZT = 1.0;  // flat terrain, no topographic speed-up
+const KD = 0.85;  // directionality factor for C&C
+const GCPI = 0.18; // enclosed building internal pressure
+const ASD_FACTOR = 0.6;
+
+const EXTERNAL_GCP: Record<WindZone, number> = {
+  field: 1.0,
+  perimeter: 1.8,
+  corner: 2.8,
+};
+
+// ── Calculations ───────────────────────────────────────────────────────────
+
+/** Velocity pressure exposure coefficient at the mean roof height */
+export function getKz(exposure: ExposureCategory, meanRoofHeight: number): number {
+  const { alpha, zg } = EXPOSURE_CONSTANTS[exposure];
+  const z = Math.max(meanRoofHeight, MIN_KZ_HEIGHT_FT);
+  return 2.01 * Math.pow(z / zg, 2 / alpha);
+}
+
+/** Velocity pressure qh in psf (ultimate) */
+export function getVelocityPressure(inputs: WindDesignInputs): number {
+  const kz = getKz(inputs.exposure, inputs.meanRoofHeight);
+  return 0.00256 * kz * KZT * KD * inputs.basicWindSpeed * inputs.basicWindSpeed;
+}
+
+/** Allowable (ASD) uplift pressure in psf for each roof zone */
+export function calculateZonePressures(inputs: WindDesignInputs): Record<WindZone, number> {
+  const qh = getVelocityPressure(inputs);
+  const pressure = (zone: WindZone) => qh * (EXTERNAL_GCP[zone] + GCPI) * ASD_FACTOR;
+  return {
+    field: pressure("field"),
+    perimeter: pressure("perimeter"),
+    corner: pressure("corner"),
+  };
+}
+
+/** Lightest pattern in the table rated for the design pressure (strongest pattern if none is) */
+export function selectFastenerPattern(
+  table: WindFastenerRow[],
+  designPressure: number
+): { pattern: WindFastenerRow; exceedsTable: boolean } {
+  const sorted = [...table].sort((a, b) => a.maxDesignPressure - b.maxDesignPressure);
+  const match = sorted.find((row) => designPressure <= row.maxDesignPressure);
+  return match
+    ? { pattern: match, exceedsTable: false }
+    : { pattern: sorted[sorted.length - 1], exceedsTable: true };
+}
+
+/**
+ * Fastener pattern for each zone. Without wind design inputs the standard
+ * per-zone defaults are used unchanged.
+ */
+export function resolveZoneFastening(
+  inputs: WindDesignInputs | undefined,
+  table: WindFastenerRow[],
+  defaults: Record<WindZone, FastenerPattern>
+): ZoneFasteningMap {
+  if (!inputs) {
+    return {
+      field: { pattern: defaults.field, exceedsTable: false },
+      perimeter: { pattern: defaults.perimeter, exceedsTable: false },
+      corner: { pattern: defaults.corner, exceedsTable: false },
+    };
+  }
+  const pressures = calculateZonePressures(inputs);
+  const zone = (z: WindZone): ZoneFastening => ({
+    designPressure: pressures[z],
+    ...selectFastenerPattern(table, pressures[z]),
+  });
+  return {
+    field: zone("field"),
+    perimeter: zone("perimeter"),
+    corner: zone("corner"),
+  };
+}
+
+/** Membrane fasteners per linear foot of seam for a pattern */
+export function getMembraneFastenersPerLF(pattern: FastenerPattern): number {
+  return 12 / pattern.membraneFastenerSpacingIn;
+}
@@ -13,6 +13,8 @@ import "dotenv/config";
 import express from "express";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "../server/_core/oauth";
+import { registerEstimateRoutes } from "../server/estimate-api";
+import { registerProposalRoutes } from "../server/proposal-api";
 import { appRouter } from "../server/routers";
 import { createContext } from "../server/_core/context";
 
@@ -25,6 +27,10 @@ app.use(express.urlencoded({ limit: "50mb", extended: true }));
 // OAuth callback under /api/oauth/callback
 registerOAuthRoutes(app);
 
+// Estimate calculation REST API under /api/estimate
+registerEstimateRoutes(app);
+registerProposalRoutes(app);
+
 // tRPC API
 app.use(
   "/api/trpc",